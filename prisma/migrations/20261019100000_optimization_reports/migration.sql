@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "OptimizationReport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "projectId" TEXT,
+    "contentHash" TEXT NOT NULL,
+    "originalContent" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "format" TEXT NOT NULL,
+    "eaName" TEXT,
+    "symbol" TEXT NOT NULL,
+    "timeframe" TEXT NOT NULL,
+    "period" TEXT NOT NULL,
+    "passCount" INTEGER NOT NULL,
+    "inputNames" JSONB NOT NULL,
+    "passes" JSONB NOT NULL,
+    "parseWarnings" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OptimizationReport_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "OptimizationReport_userId_contentHash_key" ON "OptimizationReport"("userId", "contentHash");
+CREATE INDEX "OptimizationReport_userId_createdAt_idx" ON "OptimizationReport"("userId", "createdAt");
+CREATE INDEX "OptimizationReport_projectId_idx" ON "OptimizationReport"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "OptimizationReport" ADD CONSTRAINT "OptimizationReport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "OptimizationReport" ADD CONSTRAINT "OptimizationReport_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ThresholdProfileStatus" AS ENUM ('ACTIVE', 'SUPERSEDED', 'RETIRED');
+
+-- CreateTable
+CREATE TABLE "MonitoringThresholdProfile" (
+    "id" TEXT NOT NULL,
+    "strategyId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "overrides" JSONB NOT NULL,
+    "thresholdsHash" TEXT NOT NULL,
+    "status" "ThresholdProfileStatus" NOT NULL DEFAULT 'ACTIVE',
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "supersededAt" TIMESTAMP(3),
+
+    CONSTRAINT "MonitoringThresholdProfile_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "MonitoringThresholdProfile_strategyId_version_key" ON "MonitoringThresholdProfile"("strategyId", "version");
+CREATE INDEX "MonitoringThresholdProfile_strategyId_status_idx" ON "MonitoringThresholdProfile"("strategyId", "status");
+
+-- At most one ACTIVE profile per strategy
+CREATE UNIQUE INDEX "MonitoringThresholdProfile_single_active"
+    ON "MonitoringThresholdProfile" ("strategyId")
+    WHERE "status" = 'ACTIVE';
+
+-- AddForeignKey
+ALTER TABLE "MonitoringThresholdProfile" ADD CONSTRAINT "MonitoringThresholdProfile_strategyId_fkey" FOREIGN KEY ("strategyId") REFERENCES "StrategyIdentity"("strategyId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "MonitoringRun" ADD COLUMN "profileVersion" INTEGER,
+ADD COLUMN "profileHash" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "HealthSnapshot" ADD COLUMN     "volatilityRegime" TEXT;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "UserMacro" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "description" TEXT,
+    "definition" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserMacro_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserMacro_userId_name_version_key" ON "UserMacro"("userId", "name", "version");
+
+-- CreateIndex
+CREATE INDEX "UserMacro_userId_createdAt_idx" ON "UserMacro"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "UserMacro" ADD CONSTRAINT "UserMacro_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
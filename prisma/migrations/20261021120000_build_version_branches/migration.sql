@@ -0,0 +1,13 @@
+-- AlterTable: named branches of build versions
+ALTER TABLE "BuildVersion" ADD COLUMN "branch" TEXT NOT NULL DEFAULT 'main',
+ADD COLUMN "forkedFromId" TEXT,
+ADD COLUMN "mergedFromId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "BuildVersion_projectId_branch_versionNo_idx" ON "BuildVersion"("projectId", "branch", "versionNo");
+
+-- AddForeignKey
+ALTER TABLE "BuildVersion" ADD CONSTRAINT "BuildVersion_forkedFromId_fkey" FOREIGN KEY ("forkedFromId") REFERENCES "BuildVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BuildVersion" ADD CONSTRAINT "BuildVersion_mergedFromId_fkey" FOREIGN KEY ("mergedFromId") REFERENCES "BuildVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "EconomicCalendarImport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "contentHash" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "eventCount" INTEGER NOT NULL,
+    "coverageStart" TIMESTAMP(3) NOT NULL,
+    "coverageEnd" TIMESTAMP(3) NOT NULL,
+    "parseWarnings" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EconomicCalendarImport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "EconomicEvent" (
+    "id" TEXT NOT NULL,
+    "importId" TEXT NOT NULL,
+    "time" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "impact" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+
+    CONSTRAINT "EconomicEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EconomicCalendarImport_userId_contentHash_key" ON "EconomicCalendarImport"("userId", "contentHash");
+
+-- CreateIndex
+CREATE INDEX "EconomicCalendarImport_userId_createdAt_idx" ON "EconomicCalendarImport"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EconomicCalendarImport_coverageStart_coverageEnd_idx" ON "EconomicCalendarImport"("coverageStart", "coverageEnd");
+
+-- CreateIndex
+CREATE INDEX "EconomicEvent_importId_time_idx" ON "EconomicEvent"("importId", "time");
+
+-- AddForeignKey
+ALTER TABLE "EconomicCalendarImport" ADD CONSTRAINT "EconomicCalendarImport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "EconomicEvent" ADD CONSTRAINT "EconomicEvent_importId_fkey" FOREIGN KEY ("importId") REFERENCES "EconomicCalendarImport"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EAHeartbeat" ADD COLUMN     "volatility" DOUBLE PRECISION;
@@ -19,6 +19,11 @@ const THRESHOLDS = [
     label: "Min Monte Carlo survival rate for VALIDATED",
   },
   { key: "MIN_TRADES_VALIDATION", value: 100, label: "Min backtest trades for VALIDATED" },
+  {
+    key: "VALIDATED_MIN_PLATEAU_RETENTION",
+    value: 0.8,
+    label: "Min parameter plateau retention for VALIDATED",
+  },
   { key: "MIN_LIVE_TRADES_VERIFIED", value: 50, label: "Min live trades for VERIFIED" },
   { key: "MIN_LIVE_DAYS_PROVEN", value: 90, label: "Min live days for PROVEN" },
   { key: "PROVEN_MAX_DRAWDOWN_PCT", value: 30, label: "Max drawdown % for PROVEN" },
@@ -0,0 +1,120 @@
+/**
+ * Offline Proof Bundle Verifier
+ *
+ * Verifies a track-record ProofBundle (the proof-bundle-*.json download from
+ * /api/track-record/report/[instanceId]) entirely locally: hash chain, Ed25519
+ * signature, ledger root, deterministic replay, broker corroboration and
+ * RFC 3161 notarization. No database, network or AlgoStudio account needed.
+ *
+ * How to run:
+ *   npx tsx scripts/verify-proof-bundle.ts bundle.json
+ *   npx tsx scripts/verify-proof-bundle.ts bundle.json \
+ *     --public-key <hex> --tsa-cert tsa.pem --require L3_NOTARIZED --json
+ *
+ * Options:
+ *   --public-key <hex>  Pin the Ed25519 signing key (repeatable)
+ *   --tsa-cert <file>   Pin RFC 3161 tokens to this TSA certificate / CA (PEM)
+ *   --require <level>   Minimum level to pass: L1_LEDGER (default), L2_BROKER, L3_NOTARIZED
+ *                       (L3_NOTARIZED also needs --tsa-cert)
+ *   --json              Print the report as JSON
+ *
+ * Exit codes:
+ *   0 = bundle verified at (or above) the required level
+ *   1 = verification failed or level below required
+ *   2 = usage error or unreadable / malformed bundle
+ */
+
+import { readFileSync } from "fs";
+import {
+  EXIT_CODE,
+  VERIFICATION_LEVELS,
+  ProofBundleFormatError,
+  formatOfflineReport,
+  formatOfflineReportJson,
+  parseProofBundle,
+  verifyBundleOffline,
+  type OfflineVerifyOptions,
+} from "../src/lib/track-record/offline-verifier";
+import type { VerificationLevel } from "../src/lib/track-record/types";
+
+const USAGE =
+  "Usage: verify-proof-bundle <bundle.json> [--public-key <hex>]... [--tsa-cert <file>] " +
+  "[--require <level>] [--json]";
+
+interface CliArgs {
+  bundlePath: string;
+  options: OfflineVerifyOptions;
+  json: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const publicKeys: string[] = [];
+  const options: OfflineVerifyOptions = {};
+  let bundlePath: string | null = null;
+  let json = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`${arg} requires a value`);
+      return next;
+    };
+
+    if (arg === "--public-key") {
+      publicKeys.push(value());
+    } else if (arg === "--tsa-cert") {
+      options.tsaCertificatePem = readFileSync(value(), "utf8");
+    } else if (arg === "--require") {
+      const level = value();
+      if (!VERIFICATION_LEVELS.includes(level as VerificationLevel)) {
+        throw new Error(
+          `Unknown level ${level} (expected one of ${VERIFICATION_LEVELS.join(", ")})`
+        );
+      }
+      options.requiredLevel = level as VerificationLevel;
+    } else if (arg === "--json") {
+      json = true;
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (bundlePath === null) {
+      bundlePath = arg;
+    } else {
+      throw new Error(`Unexpected argument ${arg}`);
+    }
+  }
+
+  if (!bundlePath) throw new Error("Missing bundle file");
+  if (publicKeys.length > 0) options.trustedPublicKeys = publicKeys;
+  return { bundlePath, options, json };
+}
+
+function main(): number {
+  let args: CliArgs;
+  let bundleJson: string;
+  try {
+    args = parseArgs(process.argv.slice(2));
+    bundleJson = readFileSync(args.bundlePath, "utf8");
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : String(err));
+    console.error(USAGE);
+    return EXIT_CODE.INPUT_ERROR;
+  }
+
+  try {
+    const bundle = parseProofBundle(bundleJson);
+    const report = verifyBundleOffline(bundle, args.options);
+    console.log(args.json ? formatOfflineReportJson(report) : formatOfflineReport(report));
+    return report.exitCode;
+  } catch (err) {
+    if (err instanceof ProofBundleFormatError) {
+      console.error(`Malformed proof bundle: ${err.message}`);
+      return EXIT_CODE.INPUT_ERROR;
+    }
+    // A bundle that crashes the verifier is not verified
+    console.error(`Verification error: ${err instanceof Error ? err.message : String(err)}`);
+    return EXIT_CODE.FAIL;
+  }
+}
+
+process.exit(main());
@@ -39,7 +39,7 @@ export async function GET() {
     const auditLogCutoff = new Date();
     auditLogCutoff.setMonth(auditLogCutoff.getMonth() - 12);
 
-    const [user, subscription, projects, exports, templates, auditLogs, liveInstances] =
+    const [user, subscription, projects, exports, templates, macros, auditLogs, liveInstances] =
       await Promise.all([
         prisma.user.findUnique({
           where: { id: userId },
@@ -93,6 +93,16 @@ export async function GET() {
             createdAt: true,
           },
         }),
+        prisma.userMacro.findMany({
+          where: { userId },
+          select: {
+            name: true,
+            version: true,
+            description: true,
+            definition: true,
+            createdAt: true,
+          },
+        }),
         prisma.auditLog.findMany({
           where: { userId, createdAt: { gte: auditLogCutoff } },
           take: 5000,
@@ -138,6 +148,7 @@ export async function GET() {
       })),
       exports,
       templates,
+      macros,
       auditLogs,
       monitoredAccounts: liveInstances,
     };
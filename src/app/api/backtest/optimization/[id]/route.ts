@@ -0,0 +1,124 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import { analyzeParameterSensitivity } from "@/lib/backtest-parser";
+import type { OptimizationPass } from "@/lib/backtest-parser";
+import type { OptimizableInput } from "@/lib/mql5-generator/types";
+import { optimizationMetricSchema } from "@/lib/validations/backtest";
+import { loadProjectInputs } from "@/lib/optimization-reports";
+
+// GET /api/backtest/optimization/[id] — Optimization report with parameter sensitivity
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const { id } = await params;
+    const url = new URL(request.url);
+    const metricResult = optimizationMetricSchema.safeParse(
+      url.searchParams.get("metric") ?? undefined
+    );
+    if (!metricResult.success) {
+      return NextResponse.json(apiError(ErrorCode.VALIDATION_FAILED, "Invalid metric"), {
+        status: 400,
+      });
+    }
+
+    const report = await prisma.optimizationReport.findUnique({
+      where: { id },
+      include: { project: { select: { id: true, name: true } } },
+    });
+    if (!report || report.userId !== session.user.id) {
+      return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Optimization report not found"), {
+        status: 404,
+      });
+    }
+
+    const inputNames = report.inputNames as string[];
+    const passes = report.passes as unknown as OptimizationPass[];
+    const parseWarnings = (report.parseWarnings as string[] | null) ?? [];
+
+    let projectInputs: OptimizableInput[] = [];
+    const analysisWarnings: string[] = [];
+    if (report.projectId) {
+      try {
+        const inputs = await loadProjectInputs(report.projectId);
+        if (inputs) projectInputs = inputs;
+        else analysisWarnings.push("Project has no valid saved version — inputs not matched.");
+      } catch (err) {
+        logger.warn({ error: err, reportId: id }, "Failed to generate project inputs");
+        analysisWarnings.push("Could not generate the project's inputs — inputs not matched.");
+      }
+    }
+
+    let sensitivity = null;
+    if (inputNames.length > 0) {
+      try {
+        sensitivity = analyzeParameterSensitivity(
+          { inputNames, passes },
+          projectInputs,
+          metricResult.data
+        );
+      } catch (err) {
+        analysisWarnings.push(err instanceof Error ? err.message : String(err));
+      }
+    }
+
+    return NextResponse.json({
+      id: report.id,
+      fileName: report.fileName,
+      fileSize: report.fileSize,
+      format: report.format,
+      createdAt: report.createdAt,
+      project: report.project,
+      metadata: {
+        eaName: report.eaName,
+        symbol: report.symbol,
+        timeframe: report.timeframe,
+        period: report.period,
+      },
+      passCount: report.passCount,
+      inputNames,
+      passes,
+      parseWarnings,
+      sensitivity,
+      analysisWarnings,
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to fetch optimization report");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
+
+// DELETE /api/backtest/optimization/[id] — Delete an optimization report
+export async function DELETE(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const { id } = await params;
+    const { count } = await prisma.optimizationReport.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+    if (count === 0) {
+      return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Optimization report not found"), {
+        status: 404,
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error({ error }, "Failed to delete optimization report");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,256 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import { getCachedTier } from "@/lib/plan-limits";
+import {
+  backtestUploadFreeRateLimiter,
+  backtestUploadProRateLimiter,
+  backtestUploadEliteRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import {
+  parseMT5OptimizationReport,
+  OptimizationReportParseError,
+  extractSymbolFromFileName,
+} from "@/lib/backtest-parser";
+import {
+  decodeReportBytes,
+  sanitizeFileName,
+  sanitizeHtmlForStorage,
+} from "@/lib/backtest-parser/report-file";
+import { OPTIMIZATION_REPORT_MAX_FILE_SIZE } from "@/lib/validations/backtest";
+import { createHash } from "crypto";
+
+// Optimization uploads share the backtest upload quota
+function getUploadRateLimiterForTier(tier: string) {
+  switch (tier) {
+    case "INSTITUTIONAL":
+    case "ELITE":
+      return backtestUploadEliteRateLimiter;
+    case "PRO":
+      return backtestUploadProRateLimiter;
+    default:
+      return backtestUploadFreeRateLimiter;
+  }
+}
+
+// GET /api/backtest/optimization — List the user's optimization reports (without passes)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const reports = await prisma.optimizationReport.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      select: {
+        id: true,
+        projectId: true,
+        fileName: true,
+        eaName: true,
+        symbol: true,
+        timeframe: true,
+        period: true,
+        passCount: true,
+        inputNames: true,
+        createdAt: true,
+        project: { select: { name: true } },
+      },
+    });
+
+    return NextResponse.json({ data: reports });
+  } catch (error) {
+    logger.error({ error }, "Failed to list optimization reports");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
+
+// POST /api/backtest/optimization — Upload and parse an MT5 optimization results export
+export async function POST(request: Request) {
+  try {
+    // 1. Auth
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+    if (session.user.suspended) {
+      return NextResponse.json(apiError(ErrorCode.ACCOUNT_SUSPENDED, "Account suspended"), {
+        status: 403,
+      });
+    }
+
+    // 2. Tier-based rate limit
+    const tier = await getCachedTier(session.user.id);
+    const rateLimiter = getUploadRateLimiterForTier(tier);
+    const rateLimitResult = await checkRateLimit(
+      rateLimiter,
+      `optimization-upload:${session.user.id}`
+    );
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        apiError(ErrorCode.RATE_LIMITED, formatRateLimitError(rateLimitResult)),
+        { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    // 3. Read multipart form data
+    const formData = await request.formData();
+    const file = formData.get("file");
+    const projectId = formData.get("projectId") as string | null;
+
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(apiError(ErrorCode.VALIDATION_FAILED, "No file provided"), {
+        status: 400,
+      });
+    }
+
+    // 4. MIME type validation (XML exports are often sent as application/xml)
+    const mimeType = file.type;
+    if (
+      mimeType &&
+      !mimeType.startsWith("text/") &&
+      mimeType !== "application/xml" &&
+      mimeType !== "application/octet-stream"
+    ) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.VALIDATION_FAILED,
+          "Invalid file type. Please upload an XML or HTML optimization report."
+        ),
+        { status: 400 }
+      );
+    }
+
+    // 5. File size check
+    if (file.size > OPTIMIZATION_REPORT_MAX_FILE_SIZE) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.REQUEST_TOO_LARGE,
+          `File too large. Maximum size is ${OPTIMIZATION_REPORT_MAX_FILE_SIZE / (1024 * 1024)}MB.`
+        ),
+        { status: 413 }
+      );
+    }
+
+    // 6. Validate projectId ownership if provided (before expensive parse)
+    if (projectId) {
+      const project = await prisma.project.findFirst({
+        where: { id: projectId, userId: session.user.id, deletedAt: null },
+        select: { id: true },
+      });
+      if (!project) {
+        return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Project not found"), {
+          status: 404,
+        });
+      }
+    }
+
+    // 7. Read file content (BOM-aware: handles UTF-8, UTF-16LE, UTF-16BE)
+    const content = decodeReportBytes(await file.arrayBuffer());
+
+    // 8. Content hash for deduplication (scoped per user). The P2002 handler below
+    // covers concurrent uploads that slip past this check.
+    const contentHash = createHash("sha256").update(content).digest("hex");
+
+    const existing = await prisma.optimizationReport.findUnique({
+      where: { userId_contentHash: { userId: session.user.id, contentHash } },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        apiError(ErrorCode.DUPLICATE_UPLOAD, "This report has already been uploaded"),
+        { status: 409 }
+      );
+    }
+
+    // 9. Parse the report (with timeout to prevent hanging on malformed input)
+    let parsed;
+    try {
+      parsed = await Promise.race([
+        Promise.resolve(parseMT5OptimizationReport(content)),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error("Parse timeout: report took longer than 10s")), 10_000)
+        ),
+      ]);
+    } catch (err) {
+      logger.error({ error: err }, "Failed to parse MT5 optimization report");
+      const detail = err instanceof OptimizationReportParseError ? ` ${err.message}` : "";
+      return NextResponse.json(
+        apiError(
+          ErrorCode.PARSE_FAILED,
+          `Failed to parse the optimization report.${detail} Export the Optimization Results tab as XML or HTML.`
+        ),
+        { status: 422 }
+      );
+    }
+
+    // 10. Symbol fallback: if the report title didn't carry a symbol, try the filename
+    if (parsed.metadata.symbol === "UNKNOWN") {
+      const fileNameSymbol = extractSymbolFromFileName(file.name);
+      if (fileNameSymbol) {
+        parsed.metadata.symbol = fileNameSymbol;
+        const idx = parsed.parseWarnings.findIndex((w) => w.includes("Could not detect symbol"));
+        if (idx >= 0) {
+          parsed.parseWarnings[idx] =
+            `Symbol "${fileNameSymbol}" detected from file name (not found in report)`;
+        }
+      }
+    }
+
+    // 11. Store every pass with its input values
+    const report = await prisma.optimizationReport.create({
+      data: {
+        userId: session.user.id,
+        projectId: projectId || null,
+        contentHash,
+        originalContent: parsed.format === "html" ? sanitizeHtmlForStorage(content) : content,
+        fileName: sanitizeFileName(file.name),
+        fileSize: file.size,
+        format: parsed.format,
+        eaName: parsed.metadata.eaName,
+        symbol: parsed.metadata.symbol,
+        timeframe: parsed.metadata.timeframe,
+        period: parsed.metadata.period,
+        passCount: parsed.passes.length,
+        inputNames: parsed.inputNames,
+        passes: JSON.parse(JSON.stringify(parsed.passes)),
+        parseWarnings: parsed.parseWarnings,
+      },
+      select: { id: true },
+    });
+
+    return NextResponse.json(
+      {
+        reportId: report.id,
+        format: parsed.format,
+        metadata: parsed.metadata,
+        inputNames: parsed.inputNames,
+        passCount: parsed.passes.length,
+        parseWarnings: parsed.parseWarnings,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    // Handle race condition: concurrent upload of same file by same user
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        apiError(ErrorCode.DUPLICATE_UPLOAD, "This report has already been uploaded"),
+        { status: 409 }
+      );
+    }
+    logger.error({ error }, "Failed to upload optimization report");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NextRequest } from "next/server";
+import { File as NodeFile } from "node:buffer";
+
+// ─── Mocks ───────────────────────────────────────────────────────────
+
+const mockAuth = vi.fn();
+vi.mock("@/lib/auth", () => ({ auth: () => mockAuth() }));
+
+const mockProjectFindFirst = vi.fn();
+const mockUploadFindUnique = vi.fn();
+const mockTransaction = vi.fn();
+vi.mock("@/lib/prisma", () => ({
+  prisma: {
+    project: { findFirst: (...args: unknown[]) => mockProjectFindFirst(...args) },
+    backtestUpload: { findUnique: (...args: unknown[]) => mockUploadFindUnique(...args) },
+    $transaction: (...args: unknown[]) => mockTransaction(...args),
+  },
+}));
+
+vi.mock("@/lib/plan-limits", () => ({
+  getCachedTier: vi.fn().mockResolvedValue("FREE"),
+}));
+
+const mockCheckRateLimit = vi.fn();
+vi.mock("@/lib/rate-limit", () => ({
+  backtestUploadFreeRateLimiter: {},
+  backtestUploadProRateLimiter: {},
+  backtestUploadEliteRateLimiter: {},
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args),
+  createRateLimitHeaders: vi.fn().mockReturnValue({}),
+  formatRateLimitError: vi.fn().mockReturnValue("Rate limit exceeded. Try again in 60 seconds."),
+}));
+
+vi.mock("@/lib/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// jsdom replaces File, but a parsed multipart body holds Node's own files
+vi.stubGlobal("File", NodeFile);
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+const USER_ID = "user_test";
+const PROJECT_ID = "clproject0000000000000001";
+
+const BUY_NODE = {
+  id: "buy",
+  type: "place-buy",
+  position: { x: 0, y: 0 },
+  data: {
+    label: "Place Buy",
+    category: "trading",
+    tradingType: "place-buy",
+    method: "FIXED_LOT",
+    fixedLot: 0.1,
+    riskPercent: 1,
+    minLot: 0.01,
+    maxLot: 10,
+    slMethod: "FIXED_PIPS",
+    slFixedPips: 20,
+    tpMethod: "FIXED_PIPS",
+    tpFixedPips: 15,
+  },
+};
+
+function makeBuildJson(extraNodes: object[] = []) {
+  return {
+    version: "1.3",
+    nodes: [BUY_NODE, ...extraNodes],
+    edges: [],
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: { createdAt: "2024-01-01T00:00:00Z", updatedAt: "2024-01-01T00:00:00Z" },
+    settings: {
+      magicNumber: 123456,
+      comment: "Test EA",
+      maxOpenTrades: 1,
+      allowHedging: false,
+      maxTradesPerDay: 0,
+    },
+  };
+}
+
+/** MT5 History Center export of `count` H1 bars drifting up a pip per bar. */
+function makeCsv(count = 120): string {
+  const lines = ["<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>"];
+  for (let i = 0; i < count; i++) {
+    const time = new Date(Date.UTC(2024, 0, 1) + i * 60 * 60 * 1000);
+    const date = time.toISOString().slice(0, 10).replace(/-/g, ".");
+    const open = 1.1 + i * 0.0001;
+    const close = open + 0.0001;
+    lines.push(
+      [
+        date,
+        time.toISOString().slice(11, 19),
+        open.toFixed(5),
+        (close + 0.0002).toFixed(5),
+        (open - 0.0002).toFixed(5),
+        close.toFixed(5),
+        100,
+        0,
+        5,
+      ].join("\t")
+    );
+  }
+  return lines.join("\n");
+}
+
+const BOUNDARY = "simulate-test-boundary";
+
+/** Multipart body written out by hand: jsdom's FormData would send the file as a string. */
+function makeRequest(csv: string = makeCsv()) {
+  const part = (name: string, value: string, fileName?: string) =>
+    `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"` +
+    (fileName ? `; filename="${fileName}"\r\nContent-Type: text/csv` : "") +
+    `\r\n\r\n${value}\r\n`;
+  const body =
+    part("file", csv, "EURUSD_H1.csv") +
+    part("projectId", PROJECT_ID) +
+    part("symbol", "EURUSD") +
+    `--${BOUNDARY}--\r\n`;
+  return new NextRequest("http://localhost/api/backtest/simulate", {
+    method: "POST",
+    headers: { "Content-Type": `multipart/form-data; boundary=${BOUNDARY}` },
+    body,
+  });
+}
+
+function projectWith(buildJson: object) {
+  return {
+    id: PROJECT_ID,
+    name: "Test Strategy",
+    versions: [{ id: "ver_1", versionNo: 1, buildJson }],
+  };
+}
+
+// ─── Tests ───────────────────────────────────────────────────────────
+
+describe("POST /api/backtest/simulate", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAuth.mockResolvedValue({ user: { id: USER_ID } });
+    mockCheckRateLimit.mockResolvedValue({
+      success: true,
+      limit: 10,
+      remaining: 9,
+      reset: Date.now() + 60_000,
+    });
+    mockProjectFindFirst.mockResolvedValue(projectWith(makeBuildJson()));
+    mockUploadFindUnique.mockResolvedValue(null);
+    mockTransaction.mockImplementation(async (fn: (tx: unknown) => Promise<unknown>) =>
+      fn({
+        backtestUpload: { create: vi.fn().mockResolvedValue({ id: "upload_1" }) },
+        backtestRun: { create: vi.fn().mockResolvedValue({ id: "run_1" }) },
+      })
+    );
+  });
+
+  it("returns 401 without a session", async () => {
+    mockAuth.mockResolvedValue(null);
+
+    const { POST } = await import("./route");
+    const res = await POST(makeRequest());
+
+    expect(res.status).toBe(401);
+    expect(mockProjectFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("returns 429 when the upload quota is exhausted", async () => {
+    mockCheckRateLimit.mockResolvedValue({
+      success: false,
+      limit: 10,
+      remaining: 0,
+      reset: Date.now() + 60_000,
+    });
+
+    const { POST } = await import("./route");
+    const res = await POST(makeRequest());
+
+    expect(res.status).toBe(429);
+    expect(mockCheckRateLimit).toHaveBeenCalledWith({}, `backtest-simulate:${USER_ID}`);
+    expect(mockProjectFindFirst).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 when the CSV cannot be parsed", async () => {
+    const { POST } = await import("./route");
+    const res = await POST(makeRequest("date,open,close\n2024.01.02,1.1,1.2"));
+
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.code).toBe("PARSE_FAILED");
+    expect(body.error).toMatch(/Missing required column\(s\): high, low/);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("returns 422 when the strategy uses a node the simulator does not support", async () => {
+    mockProjectFindFirst.mockResolvedValue(
+      projectWith(
+        makeBuildJson([
+          {
+            id: "grid",
+            type: "grid-pyramid",
+            position: { x: 0, y: 0 },
+            data: { label: "Grid", category: "trading", tradingType: "grid-pyramid" },
+          },
+        ])
+      )
+    );
+
+    const { POST } = await import("./route");
+    const res = await POST(makeRequest());
+
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.code).toBe("VALIDATION_FAILED");
+    expect(body.error).toMatch(/unsupported grid-pyramid/);
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("returns 409 when the same data has already been simulated", async () => {
+    mockUploadFindUnique.mockResolvedValue({ id: "upload_existing" });
+
+    const { POST } = await import("./route");
+    const res = await POST(makeRequest());
+
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.code).toBe("DUPLICATE_UPLOAD");
+    expect(mockTransaction).not.toHaveBeenCalled();
+  });
+
+  it("stores the simulation as a backtest run of the project", async () => {
+    const { POST } = await import("./route");
+    const res = await POST(makeRequest());
+
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    expect(body.uploadId).toBe("upload_1");
+    expect(body.runId).toBe("run_1");
+    expect(body.barCount).toBe(120);
+    expect(body.metadata.eaName).toBe("Test Strategy");
+    expect(body.parseWarnings[0]).toMatch(/^Simulated in AlgoStudio from 120 OHLC bars/);
+  });
+});
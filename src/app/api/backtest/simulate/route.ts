@@ -0,0 +1,301 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import { getCachedTier } from "@/lib/plan-limits";
+import {
+  backtestUploadFreeRateLimiter,
+  backtestUploadProRateLimiter,
+  backtestUploadEliteRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import { computeHealthScore } from "@/lib/backtest-parser";
+import { decodeReportBytes, sanitizeFileName } from "@/lib/backtest-parser/report-file";
+import {
+  OhlcCsvParseError,
+  SimulationError,
+  parseOhlcCsv,
+  runSimulation,
+} from "@/lib/backtest-simulator";
+import { OHLC_CSV_MAX_FILE_SIZE, backtestSimulationSchema } from "@/lib/validations/backtest";
+import { buildJsonSchema, formatZodErrors } from "@/lib/validations";
+import { migrateProjectData } from "@/lib/migrations";
+import type { BuildJsonSchema } from "@/types/builder";
+import { createHash } from "crypto";
+
+// Simulations share the backtest upload quota
+function getUploadRateLimiterForTier(tier: string) {
+  switch (tier) {
+    case "INSTITUTIONAL":
+    case "ELITE":
+      return backtestUploadEliteRateLimiter;
+    case "PRO":
+      return backtestUploadProRateLimiter;
+    default:
+      return backtestUploadFreeRateLimiter;
+  }
+}
+
+// POST /api/backtest/simulate — Run a project version over an uploaded OHLC CSV and store
+// the result as a backtest run, like an uploaded MT5 report
+export async function POST(request: Request) {
+  try {
+    // 1. Auth
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+    if (session.user.suspended) {
+      return NextResponse.json(apiError(ErrorCode.ACCOUNT_SUSPENDED, "Account suspended"), {
+        status: 403,
+      });
+    }
+
+    // 2. Tier-based rate limit
+    const tier = await getCachedTier(session.user.id);
+    const rateLimiter = getUploadRateLimiterForTier(tier);
+    const rateLimitResult = await checkRateLimit(
+      rateLimiter,
+      `backtest-simulate:${session.user.id}`
+    );
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        apiError(ErrorCode.RATE_LIMITED, formatRateLimitError(rateLimitResult)),
+        { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    // 3. Read multipart form data
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(apiError(ErrorCode.VALIDATION_FAILED, "No file provided"), {
+        status: 400,
+      });
+    }
+
+    const field = (name: string) => {
+      const value = formData.get(name);
+      return typeof value === "string" && value !== "" ? value : undefined;
+    };
+    const validation = backtestSimulationSchema.safeParse({
+      projectId: field("projectId"),
+      versionId: field("versionId"),
+      symbol: field("symbol"),
+      initialDeposit: field("initialDeposit"),
+      spreadPoints: field("spreadPoints"),
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.VALIDATION_FAILED,
+          "Validation failed",
+          formatZodErrors(validation.error)
+        ),
+        { status: 400 }
+      );
+    }
+    const { projectId, versionId, symbol, initialDeposit, spreadPoints } = validation.data;
+
+    // 4. MIME type and size validation (before reading file content)
+    const mimeType = file.type;
+    if (mimeType && !mimeType.startsWith("text/") && mimeType !== "application/octet-stream") {
+      return NextResponse.json(
+        apiError(ErrorCode.VALIDATION_FAILED, "Invalid file type. Please upload a CSV file."),
+        { status: 400 }
+      );
+    }
+    if (file.size > OHLC_CSV_MAX_FILE_SIZE) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.REQUEST_TOO_LARGE,
+          `File too large. Maximum size is ${OHLC_CSV_MAX_FILE_SIZE / (1024 * 1024)}MB.`
+        ),
+        { status: 413 }
+      );
+    }
+
+    // 5. Load the project version to simulate (before the expensive parse)
+    const project = await prisma.project.findFirst({
+      where: { id: projectId, userId: session.user.id, deletedAt: null },
+      select: {
+        id: true,
+        name: true,
+        versions: versionId
+          ? { where: { id: versionId }, select: { id: true, versionNo: true, buildJson: true } }
+          : {
+              orderBy: { versionNo: "desc" },
+              take: 1,
+              select: { id: true, versionNo: true, buildJson: true },
+            },
+      },
+    });
+    if (!project) {
+      return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Project not found"), {
+        status: 404,
+      });
+    }
+    if (project.versions.length === 0) {
+      return NextResponse.json(
+        apiError(ErrorCode.NOT_FOUND, "No version found. Please save your strategy first."),
+        { status: 404 }
+      );
+    }
+    const version = project.versions[0];
+
+    const buildValidation = buildJsonSchema.safeParse(migrateProjectData(version.buildJson));
+    if (!buildValidation.success) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.VALIDATION_FAILED,
+          "Invalid strategy data",
+          formatZodErrors(buildValidation.error)
+        ),
+        { status: 400 }
+      );
+    }
+
+    // 6. Parse the bars (BOM-aware decode, like report uploads)
+    const csv = decodeReportBytes(await file.arrayBuffer());
+    let parsed;
+    try {
+      parsed = parseOhlcCsv(csv);
+    } catch (err) {
+      if (err instanceof OhlcCsvParseError) {
+        return NextResponse.json(apiError(ErrorCode.PARSE_FAILED, err.message), { status: 422 });
+      }
+      throw err;
+    }
+
+    // 7. Dedup per user: the same bars run with the same version and options
+    const contentHash = createHash("sha256")
+      .update(
+        `simulation\n${version.id}\n${symbol ?? ""}\n${initialDeposit}\n${spreadPoints}\n${csv}`
+      )
+      .digest("hex");
+    const existingUpload = await prisma.backtestUpload.findUnique({
+      where: { userId_contentHash: { userId: session.user.id, contentHash } },
+      select: { id: true },
+    });
+    if (existingUpload) {
+      return NextResponse.json(
+        apiError(ErrorCode.DUPLICATE_UPLOAD, "This data has already been simulated"),
+        { status: 409 }
+      );
+    }
+
+    // 8. Simulate
+    let simulation;
+    try {
+      simulation = runSimulation(buildValidation.data as BuildJsonSchema, parsed.bars, {
+        initialDeposit,
+        symbol,
+        digits: parsed.digits,
+        defaultSpreadPoints: spreadPoints,
+      });
+    } catch (err) {
+      if (err instanceof SimulationError) {
+        return NextResponse.json(apiError(ErrorCode.VALIDATION_FAILED, err.message), {
+          status: 422,
+        });
+      }
+      throw err;
+    }
+    simulation.metadata.eaName = project.name;
+
+    // 9. Compute health score
+    const healthResult = computeHealthScore(simulation.metrics, initialDeposit);
+    const parseWarnings = [
+      `Simulated in AlgoStudio from ${parsed.bars.length} OHLC bars (version ${version.versionNo}), not an MT5 Strategy Tester run`,
+      ...parsed.warnings,
+      ...simulation.warnings,
+      ...healthResult.warnings,
+    ];
+
+    // 10. Store in transaction, as a backtest run of the project
+    const result = await prisma.$transaction(
+      async (tx) => {
+        const upload = await tx.backtestUpload.create({
+          data: {
+            userId: session.user.id,
+            projectId: project.id,
+            contentHash,
+            // No report to keep: the run is reproducible from the bars and the version
+            originalHtml: "",
+            fileName: sanitizeFileName(file.name),
+            fileSize: file.size,
+          },
+        });
+
+        const run = await tx.backtestRun.create({
+          data: {
+            uploadId: upload.id,
+            eaName: simulation.metadata.eaName,
+            symbol: simulation.metadata.symbol,
+            timeframe: simulation.metadata.timeframe,
+            period: simulation.metadata.period,
+            initialDeposit,
+            totalNetProfit: simulation.metrics.totalNetProfit,
+            profitFactor: simulation.metrics.profitFactor,
+            maxDrawdownPct: simulation.metrics.maxDrawdownPct,
+            maxDrawdownAbs: simulation.metrics.maxDrawdownAbs,
+            sharpeRatio: simulation.metrics.sharpeRatio,
+            recoveryFactor: simulation.metrics.recoveryFactor,
+            expectedPayoff: simulation.metrics.expectedPayoff,
+            totalTrades: simulation.metrics.totalTrades,
+            winRate: simulation.metrics.winRate,
+            longWinRate: simulation.metrics.longWinRate,
+            shortWinRate: simulation.metrics.shortWinRate,
+            healthScore: healthResult.score,
+            healthStatus: healthResult.status,
+            healthScoreVersion: healthResult.version,
+            confidenceLower: healthResult.confidenceInterval.lower,
+            confidenceUpper: healthResult.confidenceInterval.upper,
+            trades: JSON.parse(JSON.stringify(simulation.deals)),
+            scoreBreakdown: JSON.parse(JSON.stringify(healthResult.breakdown)),
+            parseWarnings,
+          },
+        });
+
+        return { upload, run };
+      },
+      { timeout: 15000 }
+    );
+
+    // 11. Return result — same shape as a report upload
+    return NextResponse.json(
+      {
+        uploadId: result.upload.id,
+        runId: result.run.id,
+        metadata: simulation.metadata,
+        metrics: simulation.metrics,
+        healthScore: healthResult.score,
+        healthStatus: healthResult.status,
+        healthScoreVersion: healthResult.version,
+        confidenceInterval: healthResult.confidenceInterval,
+        scoreBreakdown: healthResult.breakdown,
+        scoreWarnings: healthResult.warnings,
+        parseWarnings,
+        dealCount: simulation.deals.length,
+        barCount: parsed.bars.length,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    // Handle race condition: concurrent simulation of the same data by the same user
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        apiError(ErrorCode.DUPLICATE_UPLOAD, "This data has already been simulated"),
+        { status: 409 }
+      );
+    }
+    logger.error({ error }, "Failed to simulate backtest");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { auth } from "@/lib/auth";
+import { checkAdmin } from "@/lib/admin";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+
+type Params = { params: Promise<{ importId: string }> };
+
+// DELETE /api/economic-calendar/[importId] — Remove a calendar import and its events
+export async function DELETE(_request: Request, { params }: Params) {
+  const { importId } = await params;
+
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const calendarImport = await prisma.economicCalendarImport.findFirst({
+      where: { id: importId, OR: [{ userId: session.user.id }, { userId: null }] },
+      select: { id: true, userId: true },
+    });
+    if (!calendarImport) {
+      return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Calendar import not found"), {
+        status: 404,
+      });
+    }
+
+    // Global imports can only be removed by an admin
+    if (calendarImport.userId === null) {
+      const adminCheck = await checkAdmin();
+      if (!adminCheck.authorized) return adminCheck.response;
+    }
+
+    await prisma.economicCalendarImport.delete({ where: { id: calendarImport.id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error({ error, importId }, "Failed to delete economic calendar import");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
@@ -0,0 +1,242 @@
+import { auth } from "@/lib/auth";
+import { checkAdmin } from "@/lib/admin";
+import { prisma } from "@/lib/prisma";
+import { Prisma } from "@prisma/client";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import { CalendarParseError, parseEconomicCalendar } from "@/lib/economic-calendar";
+import { decodeReportBytes, sanitizeFileName } from "@/lib/backtest-parser/report-file";
+import {
+  ECONOMIC_CALENDAR_MAX_FILE_SIZE,
+  economicCalendarUploadSchema,
+  formatZodErrors,
+} from "@/lib/validations";
+import { createHash } from "crypto";
+
+// Rows per createMany call; keeps each insert statement well under the bind parameter limit
+const EVENT_BATCH_SIZE = 5000;
+
+// GET /api/economic-calendar — List the user's and the global calendar imports
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const imports = await prisma.economicCalendarImport.findMany({
+      where: { OR: [{ userId: session.user.id }, { userId: null }] },
+      orderBy: { createdAt: "desc" },
+      take: 100,
+      select: {
+        id: true,
+        userId: true,
+        fileName: true,
+        format: true,
+        eventCount: true,
+        coverageStart: true,
+        coverageEnd: true,
+        parseWarnings: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      data: imports.map(({ userId, ...rest }) => ({
+        ...rest,
+        scope: userId === null ? "global" : "user",
+      })),
+    });
+  } catch (error) {
+    logger.error({ error }, "Failed to list economic calendar imports");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
+
+// POST /api/economic-calendar — Upload a CSV or iCalendar economic calendar export
+export async function POST(request: Request) {
+  try {
+    // 1. Auth
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+    if (session.user.suspended) {
+      return NextResponse.json(apiError(ErrorCode.ACCOUNT_SUSPENDED, "Account suspended"), {
+        status: 403,
+      });
+    }
+
+    // 2. Rate limit
+    const rateLimitResult = await checkRateLimit(
+      apiRateLimiter,
+      `calendar-upload:${session.user.id}`
+    );
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        apiError(ErrorCode.RATE_LIMITED, formatRateLimitError(rateLimitResult)),
+        { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    // 3. Read multipart form data
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!file || !(file instanceof File)) {
+      return NextResponse.json(apiError(ErrorCode.VALIDATION_FAILED, "No file provided"), {
+        status: 400,
+      });
+    }
+
+    const validation = economicCalendarUploadSchema.safeParse({
+      scope: formData.get("scope") ?? undefined,
+      timeZone: formData.get("timeZone") ?? undefined,
+      dateOrder: formData.get("dateOrder") ?? undefined,
+    });
+    if (!validation.success) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.VALIDATION_FAILED,
+          "Validation failed",
+          formatZodErrors(validation.error)
+        ),
+        { status: 400 }
+      );
+    }
+    const { scope, timeZone, dateOrder } = validation.data;
+
+    // 4. Global imports apply to every user's exports
+    if (scope === "global") {
+      const adminCheck = await checkAdmin();
+      if (!adminCheck.authorized) return adminCheck.response;
+    }
+    const ownerId = scope === "global" ? null : session.user.id;
+
+    // 5. MIME type and size validation (ICS is often sent as text/calendar)
+    const mimeType = file.type;
+    if (
+      mimeType &&
+      !mimeType.startsWith("text/") &&
+      mimeType !== "application/vnd.ms-excel" &&
+      mimeType !== "application/octet-stream"
+    ) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.VALIDATION_FAILED,
+          "Invalid file type. Please upload a CSV or iCalendar (.ics) file."
+        ),
+        { status: 400 }
+      );
+    }
+    if (file.size > ECONOMIC_CALENDAR_MAX_FILE_SIZE) {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.REQUEST_TOO_LARGE,
+          `File too large. Maximum size is ${ECONOMIC_CALENDAR_MAX_FILE_SIZE / (1024 * 1024)}MB.`
+        ),
+        { status: 413 }
+      );
+    }
+
+    // 6. Read file content and deduplicate per owner. The same file read in another time
+    // zone or date order is a corrected import, not a duplicate.
+    const content = decodeReportBytes(await file.arrayBuffer());
+    const contentHash = createHash("sha256")
+      .update(content)
+      .update(`\n${timeZone}\n${dateOrder}`)
+      .digest("hex");
+
+    const existing = await prisma.economicCalendarImport.findFirst({
+      where: { userId: ownerId, contentHash },
+      select: { id: true },
+    });
+    if (existing) {
+      return NextResponse.json(
+        apiError(ErrorCode.DUPLICATE_UPLOAD, "This calendar has already been uploaded"),
+        { status: 409 }
+      );
+    }
+
+    // 7. Parse and normalise
+    let parsed;
+    try {
+      parsed = parseEconomicCalendar(content, file.name, {
+        timeZone,
+        dateOrder: dateOrder === "auto" ? undefined : dateOrder,
+      });
+    } catch (err) {
+      if (err instanceof CalendarParseError) {
+        return NextResponse.json(
+          apiError(
+            ErrorCode.PARSE_FAILED,
+            `Failed to parse the economic calendar. ${err.message} Upload a CSV with date, time, currency and impact columns, or an .ics file.`
+          ),
+          { status: 422 }
+        );
+      }
+      throw err;
+    }
+
+    // 8. Store the import and its events
+    const calendarImport = await prisma.$transaction(
+      async (tx) => {
+        const created = await tx.economicCalendarImport.create({
+          data: {
+            userId: ownerId,
+            contentHash,
+            fileName: sanitizeFileName(file.name),
+            format: parsed.format,
+            eventCount: parsed.events.length,
+            coverageStart: parsed.coverageStart,
+            coverageEnd: parsed.coverageEnd,
+            parseWarnings: parsed.parseWarnings,
+          },
+          select: { id: true },
+        });
+        for (let i = 0; i < parsed.events.length; i += EVENT_BATCH_SIZE) {
+          await tx.economicEvent.createMany({
+            data: parsed.events
+              .slice(i, i + EVENT_BATCH_SIZE)
+              .map((e) => ({ importId: created.id, ...e })),
+          });
+        }
+        return created;
+      },
+      { timeout: 30_000 }
+    );
+
+    return NextResponse.json(
+      {
+        importId: calendarImport.id,
+        scope,
+        format: parsed.format,
+        eventCount: parsed.events.length,
+        coverageStart: parsed.coverageStart,
+        coverageEnd: parsed.coverageEnd,
+        parseWarnings: parsed.parseWarnings,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    // Handle race condition: concurrent upload of the same file by the same owner
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        apiError(ErrorCode.DUPLICATE_UPLOAD, "This calendar has already been uploaded"),
+        { status: 409 }
+      );
+    }
+    logger.error({ error }, "Failed to upload economic calendar");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
@@ -35,6 +35,8 @@ export const EXTRACTED_KEYS = new Set([
   "configVersion",
   "thresholdsHash",
   "configSource",
+  "profileVersion",
+  "profileHash",
   "tradeSnapshotHash",
   "tradeFactCount",
   "liveFactCount",
@@ -8,6 +8,7 @@ import {
   type Thresholds,
 } from "@/lib/proof/ladder";
 import { verifyChain } from "@/lib/track-record/chain-verifier";
+import { loadParameterPlateau } from "@/lib/optimization-reports";
 
 /**
  * GET /api/live/:instanceId/proof-status
@@ -86,6 +87,11 @@ export async function GET(
 
   const thresholds = mergeThresholds(thresholdOverrides);
 
+  // Parameter plateau of the current inputs (null without an optimization report)
+  const parameterPlateau = identity.projectId
+    ? await loadParameterPlateau(identity.projectId)
+    : null;
+
   // Parse Monte Carlo survival
   let monteCarloSurvival: number | null = null;
   if (latestBacktest?.validationResult && typeof latestBacktest.validationResult === "object") {
@@ -142,6 +148,7 @@ export async function GET(
     backtestHealthScore: latestBacktest?.healthScore ?? null,
     monteCarloSurvival,
     backtestTrades: latestBacktest?.totalTrades ?? 0,
+    parameterPlateauRetention: parameterPlateau?.retention ?? null,
     hasLiveChain: trackRecordState !== null,
     liveTrades,
     chainIntegrity,
@@ -179,6 +186,7 @@ function buildRequirements(
     backtestHealthScore: number | null;
     monteCarloSurvival: number | null;
     backtestTrades: number;
+    parameterPlateauRetention: number | null;
     hasLiveChain: boolean;
     liveTrades: number;
     chainIntegrity: boolean;
@@ -206,6 +214,14 @@ function buildRequirements(
       met: input.backtestTrades >= t.MIN_TRADES_VALIDATION,
       description: `Backtest trades >= ${t.MIN_TRADES_VALIDATION} (current: ${input.backtestTrades})`,
     },
+    {
+      level: "VALIDATED",
+      label: "Parameter Plateau",
+      met:
+        input.parameterPlateauRetention === null ||
+        input.parameterPlateauRetention >= t.VALIDATED_MIN_PLATEAU_RETENTION,
+      description: `Neighbouring optimization passes keep >= ${(t.VALIDATED_MIN_PLATEAU_RETENTION * 100).toFixed(0)}% of the result (current: ${input.parameterPlateauRetention !== null ? (input.parameterPlateauRetention * 100).toFixed(0) + "%" : "no optimization data"})`,
+    },
     {
       level: "VERIFIED",
       label: "Live Chain",
@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import {
+  buildJointDailyPnl,
+  jointHistoryStart,
+  portfolioStartingBalance,
+  simulatePortfolioMonteCarlo,
+  summarizeInstanceColumns,
+} from "@/domain/portfolio/portfolio-monte-carlo";
+
+/** Most days of joint trade history resampled by the simulation */
+const HISTORY_DAYS = 90;
+
+// GET /api/live/portfolio-risk — block-bootstrap Monte Carlo over all live instances
+export async function GET() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+  }
+
+  const instances = await prisma.liveEAInstance.findMany({
+    where: { userId: session.user.id, deletedAt: null },
+    select: {
+      id: true,
+      eaName: true,
+      broker: true,
+      accountNumber: true,
+      balance: true,
+      equity: true,
+      createdAt: true,
+    },
+  });
+
+  if (instances.length === 0) {
+    return NextResponse.json({ simulation: null, historyStart: null, instances: [] });
+  }
+
+  // Whole UTC days: at most today plus the HISTORY_DAYS - 1 before it
+  const to = new Date();
+  const earliest = new Date(
+    Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate() - (HISTORY_DAYS - 1))
+  );
+
+  const trades = await prisma.eATrade.findMany({
+    where: {
+      instanceId: { in: instances.map((i) => i.id) },
+      closeTime: { not: null, gte: earliest },
+    },
+    select: { instanceId: true, closeTime: true, profit: true },
+  });
+
+  // Only instances that traded in the window contribute a column
+  const tradedIds = new Set(trades.map((t) => t.instanceId));
+  const active = instances.filter((i) => tradedIds.has(i.id));
+  if (active.length === 0) {
+    return NextResponse.json({ simulation: null, historyStart: null, instances: [] });
+  }
+
+  const closed = trades.map((t) => ({
+    instanceId: t.instanceId,
+    closeTime: t.closeTime!,
+    profit: t.profit,
+  }));
+  // The window starts once every contributing EA has history, so no column is zero-filled
+  // for days before its EA was running
+  const from = jointHistoryStart(active, closed, earliest);
+  const joint = buildJointDailyPnl(
+    closed,
+    active.map((i) => i.id),
+    from,
+    to
+  );
+
+  const simulation = simulatePortfolioMonteCarlo({
+    rows: joint.rows,
+    startingBalance: portfolioStartingBalance(active, closed, from),
+  });
+
+  const summaries = summarizeInstanceColumns(joint);
+  return NextResponse.json({
+    simulation,
+    historyStart: joint.dates[0] ?? null,
+    instances: active.map((i, col) => ({
+      id: i.id,
+      eaName: i.eaName,
+      totalPnl: summaries[col].totalPnl,
+      worstDay: summaries[col].worstDay,
+    })),
+  });
+}
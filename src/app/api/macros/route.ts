@@ -0,0 +1,137 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { macroDefinitionSchema } from "@/lib/validations";
+
+const createMacroSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Macro name is required")
+    .max(60, "Macro name must be 60 characters or less")
+    .transform((val) => val.trim()),
+  description: z
+    .string()
+    .max(500, "Description must be 500 characters or less")
+    .optional()
+    .nullable()
+    .transform((val) => {
+      if (!val) return null;
+      const trimmed = val.trim();
+      return trimmed || null;
+    }),
+  definition: macroDefinitionSchema,
+});
+
+// GET /api/macros - List the latest version of each of the user's macros
+export async function GET() {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const macros = await prisma.userMacro.findMany({
+      where: { userId: session.user.id },
+      orderBy: [{ name: "asc" }, { version: "desc" }],
+      take: 500,
+      select: {
+        id: true,
+        name: true,
+        version: true,
+        description: true,
+        definition: true,
+        createdAt: true,
+      },
+    });
+
+    // Rows are sorted newest version first within each name
+    const latest = macros.filter((m, i) => i === 0 || macros[i - 1].name !== m.name);
+
+    return NextResponse.json({ data: latest });
+  } catch (error) {
+    logger.error({ error }, "Failed to list macros");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
+
+// POST /api/macros - Save a macro; saving an existing name adds a new version
+export async function POST(request: Request) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+    }
+
+    const rateLimitResult = await checkRateLimit(apiRateLimiter, session.user.id);
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        apiError(ErrorCode.RATE_LIMITED, formatRateLimitError(rateLimitResult)),
+        { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body) {
+      return NextResponse.json(apiError(ErrorCode.INVALID_JSON, "Invalid JSON body"), {
+        status: 400,
+      });
+    }
+
+    const validation = createMacroSchema.safeParse(body);
+    if (!validation.success) {
+      const errors = validation.error.issues.map((i) => i.message);
+      return NextResponse.json(apiError(ErrorCode.VALIDATION_FAILED, "Validation failed", errors), {
+        status: 400,
+      });
+    }
+
+    const { name, description, definition } = validation.data;
+
+    const previous = await prisma.userMacro.findFirst({
+      where: { userId: session.user.id, name },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    const macro = await prisma.userMacro.create({
+      data: {
+        name,
+        description,
+        version: (previous?.version ?? 0) + 1,
+        definition: definition as Prisma.InputJsonValue,
+        userId: session.user.id,
+      },
+    });
+
+    return NextResponse.json(macro, { status: 201 });
+  } catch (error) {
+    // Two saves of the same name raced for the same version number
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        apiError(
+          ErrorCode.VERSION_CONFLICT,
+          "Another version of this macro was saved concurrently"
+        ),
+        { status: 409 }
+      );
+    }
+    logger.error({ error }, "Failed to create macro");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
@@ -15,6 +15,7 @@ import {
   createRateLimitHeaders,
   formatRateLimitError,
 } from "@/lib/rate-limit";
+import { loadParameterPlateaus } from "@/lib/optimization-reports";
 import type { LadderLevel } from "@prisma/client";
 
 type Props = { params: Promise<{ handle: string }> };
@@ -79,6 +80,11 @@ export async function GET(request: NextRequest, { params }: Props) {
     timeframe: string | null;
   }> = [];
 
+  // Plateau scores for every listed strategy in two queries, not two per strategy
+  const plateaus = await loadParameterPlateaus(
+    pages.flatMap((p) => (p.strategyIdentity.project ? [p.strategyIdentity.project.id] : []))
+  );
+
   for (const page of pages) {
     if (!page.strategyIdentity.project) continue;
     const projectId = page.strategyIdentity.project.id;
@@ -136,6 +142,7 @@ export async function GET(request: NextRequest, { params }: Props) {
       backtestHealthScore: backtest?.healthScore ?? null,
       monteCarloSurvival: mcSurvival,
       backtestTrades: backtest?.totalTrades ?? 0,
+      parameterPlateauRetention: plateaus.get(projectId)?.retention ?? null,
       hasLiveChain: (instance?.trackRecordState?.lastSeqNo ?? 0) > 0,
       liveTrades,
       chainIntegrity: true,
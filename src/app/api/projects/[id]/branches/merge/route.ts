@@ -0,0 +1,189 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import type { Prisma } from "@prisma/client";
+import {
+  buildJsonSchema,
+  checkContentType,
+  formatZodErrors,
+  mergeBranchesSchema,
+} from "@/lib/validations";
+import { migrateProjectData } from "@/lib/migrations";
+import {
+  branchHead,
+  findMergeBase,
+  hasUnresolvedConflicts,
+  mergeBuildVersions,
+} from "@/lib/versioning";
+
+class TargetMovedError extends Error {}
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST /api/projects/[id]/branches/merge - Merge one branch's parameter changes into another
+export async function POST(request: Request, { params }: Params) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Rate limit
+  const rateLimitResult = await checkRateLimit(apiRateLimiter, session.user.id);
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: formatRateLimitError(rateLimitResult) },
+      { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  const contentTypeError = checkContentType(request);
+  if (contentTypeError) return contentTypeError;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const validation = mergeBranchesSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: formatZodErrors(validation.error) },
+      { status: 400 }
+    );
+  }
+  const { source, target, dryRun, resolutions } = validation.data;
+
+  try {
+    // Verify ownership
+    const project = await prisma.project.findFirst({
+      where: { id, userId: session.user.id, deletedAt: null },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const history = await prisma.buildVersion.findMany({
+      where: { projectId: id },
+      select: { id: true, versionNo: true, branch: true, forkedFromId: true, mergedFromId: true },
+    });
+    const sourceHead = branchHead(history, source);
+    const targetHead = branchHead(history, target);
+    if (!sourceHead || !targetHead) {
+      return NextResponse.json({ error: "Branch not found" }, { status: 404 });
+    }
+
+    const base = findMergeBase(history, sourceHead.id, targetHead.id);
+    if (!base) {
+      return NextResponse.json(
+        { error: "These branches have no common version to merge from" },
+        { status: 409 }
+      );
+    }
+
+    const snapshots = await prisma.buildVersion.findMany({
+      where: { id: { in: [base.id, sourceHead.id, targetHead.id] } },
+      select: { id: true, buildJson: true },
+    });
+    const load = (versionId: string) =>
+      migrateProjectData(snapshots.find((v) => v.id === versionId)?.buildJson);
+
+    const result = mergeBuildVersions(
+      load(base.id),
+      load(targetHead.id),
+      load(sourceHead.id),
+      resolutions
+    );
+    const preview = {
+      source: { branch: source, versionNo: sourceHead.versionNo },
+      target: { branch: target, versionNo: targetHead.versionNo },
+      base: { branch: base.branch, versionNo: base.versionNo },
+      applied: result.applied,
+      conflicts: result.conflicts,
+      skipped: result.skipped,
+    };
+
+    // Nothing to record: the target already has every source change
+    if (dryRun || (result.applied.length === 0 && result.conflicts.length === 0)) {
+      return NextResponse.json({ ...preview, version: null });
+    }
+
+    if (hasUnresolvedConflicts(result)) {
+      return NextResponse.json(
+        { error: "Resolve all conflicts before merging", ...preview },
+        { status: 409 }
+      );
+    }
+
+    if (!buildJsonSchema.safeParse(result.buildJson).success) {
+      return NextResponse.json(
+        { error: "The merged strategy is not valid", ...preview },
+        { status: 400 }
+      );
+    }
+
+    // Record the merge on the target branch; it also becomes the next merge base
+    const version = await prisma.$transaction(async (tx) => {
+      const [currentTarget, lastVersion] = await Promise.all([
+        tx.buildVersion.findFirst({
+          where: { projectId: id, branch: target },
+          orderBy: { versionNo: "desc" },
+          select: { id: true },
+        }),
+        tx.buildVersion.findFirst({
+          where: { projectId: id },
+          orderBy: { versionNo: "desc" },
+          select: { versionNo: true },
+        }),
+      ]);
+      if (currentTarget?.id !== targetHead.id) throw new TargetMovedError();
+
+      const buildJson = {
+        ...result.buildJson,
+        metadata: { ...result.buildJson.metadata, updatedAt: new Date().toISOString() },
+      };
+
+      return tx.buildVersion.create({
+        data: {
+          projectId: id,
+          versionNo: (lastVersion?.versionNo ?? 0) + 1,
+          buildJson: buildJson as unknown as Prisma.InputJsonValue,
+          branch: target,
+          mergedFromId: sourceHead.id,
+        },
+      });
+    });
+
+    return NextResponse.json(
+      {
+        ...preview,
+        version: {
+          id: version.id,
+          versionNo: version.versionNo,
+          createdAt: version.createdAt,
+          branch: version.branch,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof TargetMovedError) {
+      return NextResponse.json(
+        { error: `"${target}" changed while merging — preview the merge again` },
+        { status: 409 }
+      );
+    }
+    logger.error({ error, projectId: id, source, target }, "Failed to merge branches");
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
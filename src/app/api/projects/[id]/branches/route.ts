@@ -0,0 +1,41 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import { summarizeBranches } from "@/lib/versioning";
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET /api/projects/[id]/branches - List the project's version branches
+export async function GET(request: Request, { params }: Params) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Verify ownership
+    const project = await prisma.project.findFirst({
+      where: { id, userId: session.user.id, deletedAt: null },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const versions = await prisma.buildVersion.findMany({
+      where: { projectId: id },
+      select: { id: true, versionNo: true, branch: true, forkedFromId: true, mergedFromId: true },
+    });
+
+    // Suppress unused variable warning for request (required by Next.js route signature)
+    void request;
+
+    return NextResponse.json({ data: summarizeBranches(versions) });
+  } catch (error) {
+    logger.error({ error, projectId: id }, "Failed to fetch branches");
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
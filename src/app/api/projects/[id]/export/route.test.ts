@@ -111,6 +111,10 @@ vi.mock("@/lib/strategy-identity", () => ({
   createBaselineFromBacktest: vi.fn().mockResolvedValue({ id: "bl_1", isNew: true }),
 }));
 
+vi.mock("@/lib/optimization-reports", () => ({
+  loadParameterPlateau: () => Promise.resolve(null),
+}));
+
 vi.mock("@/lib/proof", () => ({
   computePreLiveVerdict: () => ({ verdict: "DEPLOYABLE", reasons: [] }),
   extractPreLiveInput: () => ({}),
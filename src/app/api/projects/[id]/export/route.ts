@@ -3,6 +3,10 @@ import { randomBytes, createHash, randomUUID } from "crypto";
 import { auth } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { generateMQL5Code } from "@/lib/mql5-generator";
+import { lintMQL5 } from "@/lib/mql5-generator/lint";
+import { loadImportedNewsCalendar } from "@/lib/economic-calendar/load";
+import { EMBEDDED_NEWS_END_YEAR, EMBEDDED_NEWS_START_YEAR } from "@/lib/news-calendar";
+import { generateMQL4Code, validateMQL4Build } from "@/lib/mql4-generator";
 import { checkExportLimit, getCachedTier } from "@/lib/plan-limits";
 import { PLANS } from "@/lib/plans";
 import {
@@ -14,6 +18,7 @@ import {
 } from "@/lib/validations";
 import { ErrorCode, apiError } from "@/lib/error-codes";
 import { migrateProjectData } from "@/lib/migrations";
+import { loadParameterPlateau } from "@/lib/optimization-reports";
 import {
   exportRateLimiter,
   apiRateLimiter,
@@ -34,12 +39,13 @@ import { bindIdentityToVersion } from "@/lib/strategy-identity/identity";
 import { computePreLiveVerdict, extractPreLiveInput } from "@/lib/proof";
 import { appendProofEventInTx } from "@/lib/proof/events";
 import type { BuildJsonSchema } from "@/types/builder";
+import type { ExportType } from "@prisma/client";
 
 type Props = {
   params: Promise<{ id: string }>;
 };
 
-// POST /api/projects/[id]/export - Generate MQL5 code
+// POST /api/projects/[id]/export - Generate MQL5 or MQL4 code
 export async function POST(request: NextRequest, { params }: Props) {
   const session = await auth();
   const { id } = await params;
@@ -104,13 +110,13 @@ export async function POST(request: NextRequest, { params }: Props) {
       );
     }
 
-    const { versionId, magicNumber } = validation.data;
+    const { versionId, exportType, magicNumber } = validation.data;
 
     // Single tier lookup — reused for export limits and transaction
     const tier = await getCachedTier(session.user.id);
 
     // Audit the export request
-    await audit.exportRequest(session.user.id, id, "MQ5");
+    await audit.exportRequest(session.user.id, id, exportType);
 
     // ADVISORY ONLY: This pre-check is outside the transaction and can be bypassed by
     // concurrent requests. It exists solely for fast rejection of obviously over-limit
@@ -173,6 +179,9 @@ export async function POST(request: NextRequest, { params }: Props) {
 
     // Validate the build JSON has necessary components
     const validationErrors = validateBuildJson(buildJson);
+    if (exportType === "MQ4") {
+      validationErrors.push(...validateMQL4Build(buildJson));
+    }
     if (validationErrors.length > 0) {
       return NextResponse.json(
         {
@@ -202,7 +211,11 @@ export async function POST(request: NextRequest, { params }: Props) {
       );
     }
 
-    const preLiveInput = extractPreLiveInput(latestBacktest);
+    // Score the parameters of the version being exported, not whatever was saved last
+    const preLiveInput = extractPreLiveInput(
+      latestBacktest,
+      await loadParameterPlateau(id, version.id)
+    );
     const preLiveCheck = computePreLiveVerdict(preLiveInput);
 
     if (preLiveCheck.verdict === "NOT_DEPLOYABLE") {
@@ -228,9 +241,9 @@ export async function POST(request: NextRequest, { params }: Props) {
     const telemetryApiKey = randomBytes(32).toString("hex");
     const telemetryApiKeyHash = createHash("sha256").update(telemetryApiKey).digest("hex");
 
-    // Generate MQL5 code (pass telemetry API key)
+    // Generate EA code for the requested platform (pass telemetry API key)
     const telemetryBaseUrl = env.NEXT_PUBLIC_APP_URL || env.AUTH_URL || "https://algo-studio.com";
-    const generatedCode = generateMQL5Code(
+    const generatedCode = generatorFor(exportType)(
       buildJson,
       project.name,
       project.description ?? undefined,
@@ -238,9 +251,24 @@ export async function POST(request: NextRequest, { params }: Props) {
         apiKey: telemetryApiKey,
         baseUrl: `${telemetryBaseUrl}/api/telemetry`,
       },
-      project.id
+      project.id,
+      await loadNewsCalendarFor(buildJson, session.user.id)
     );
-    const fileExtension = ".mq5";
+    const fileExtension = exportType === "MQ4" ? ".mq4" : ".mq5";
+
+    // Lint the generated MQL5. Issues are reported with the export, not blocking: the EA
+    // is compiled in MetaEditor either way, and a lint issue there is a generator bug.
+    const lintIssues = exportType === "MQ4" ? [] : lintMQL5(generatedCode);
+    if (lintIssues.length > 0) {
+      log.warn(
+        {
+          projectId: project.id,
+          errors: lintIssues.filter((i) => i.severity === "error").length,
+          issues: lintIssues.slice(0, 20),
+        },
+        "Generated MQL5 has lint issues"
+      );
+    }
 
     // Atomically check limit + create export job + LiveEAInstance inside a transaction
     const maxExports = PLANS[tier].limits.maxExportsPerMonth;
@@ -260,7 +288,7 @@ export async function POST(request: NextRequest, { params }: Props) {
           userId: session.user.id,
           projectId: project.id,
           buildVersionId: version.id,
-          exportType: "MQ5",
+          exportType,
           status: "DONE",
           outputName: `${sanitizeFileName(project.name)}${fileExtension}`,
         },
@@ -396,10 +424,11 @@ export async function POST(request: NextRequest, { params }: Props) {
         fileName: exportJob.outputName,
         code: generatedCode,
         versionNo: version.versionNo,
-        exportType: "MQ5",
+        exportType,
         telemetryApiKey,
         bindingFailed,
         preLiveCheck,
+        lintIssues,
       },
       { headers: rateLimitHeaders }
     );
@@ -503,13 +532,14 @@ export async function GET(request: NextRequest, { params }: Props) {
         telemetryConfig = { apiKey: newApiKey, baseUrl: `${telemetryBaseUrl}/api/telemetry` };
       }
 
-      // Regenerate MQL5 code from the saved buildJson
-      const redownloadCode = generateMQL5Code(
+      // Regenerate the EA code from the saved buildJson for the platform it was exported to
+      const redownloadCode = generatorFor(exportJob.exportType)(
         buildJson,
         exportJob.project.name,
         exportJob.project.description ?? undefined,
         telemetryConfig,
-        exportJob.project.id
+        exportJob.project.id,
+        await loadNewsCalendarFor(buildJson, session.user.id)
       );
 
       return NextResponse.json({
@@ -619,6 +649,23 @@ function validateBuildJson(buildJson: BuildJsonSchema): string[] {
   return errors;
 }
 
+/** Imported economic calendar events to embed, only loaded when the build has a news filter */
+async function loadNewsCalendarFor(buildJson: BuildJsonSchema, userId: string) {
+  const hasNewsFilter = buildJson.nodes.some(
+    (n) => (n.data as { filterType?: string }).filterType === "news-filter"
+  );
+  if (!hasNewsFilter) return undefined;
+  return loadImportedNewsCalendar(
+    userId,
+    new Date(Date.UTC(EMBEDDED_NEWS_START_YEAR, 0, 1)),
+    new Date(Date.UTC(EMBEDDED_NEWS_END_YEAR + 1, 0, 1) - 1)
+  );
+}
+
+function generatorFor(exportType: ExportType): typeof generateMQL5Code {
+  return exportType === "MQ4" ? generateMQL4Code : generateMQL5Code;
+}
+
 function sanitizeFileName(name: string): string {
   return name
     .replace(/[^a-zA-Z0-9_\-\s]/g, "")
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { ErrorCode, apiError } from "@/lib/error-codes";
+import { formatZodErrors, safeReadJson, checkContentType } from "@/lib/validations";
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import { thresholdProfileInputSchema } from "@/domain/monitoring/threshold-profile";
+import {
+  listThresholdProfiles,
+  publishThresholdProfile,
+  retireThresholdProfile,
+} from "@/domain/monitoring/threshold-profile-store";
+
+type Props = {
+  params: Promise<{ id: string }>;
+};
+
+/** Resolve the strategyId of a project owned by the user, or null. */
+async function findOwnedStrategyId(projectId: string, userId: string): Promise<string | null> {
+  const identity = await prisma.strategyIdentity.findFirst({
+    where: { projectId, project: { userId, deletedAt: null } },
+    select: { strategyId: true },
+  });
+  return identity?.strategyId ?? null;
+}
+
+// GET /api/projects/[id]/strategy-identity/monitoring-profile — active profile + version history
+export async function GET(request: Request, { params }: Props) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+  }
+
+  const strategyId = await findOwnedStrategyId(id, session.user.id);
+  if (!strategyId) {
+    return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Strategy identity not found"), {
+      status: 404,
+    });
+  }
+
+  const versions = await listThresholdProfiles(strategyId);
+  const active = versions.find((v) => v.status === "ACTIVE") ?? null;
+
+  return NextResponse.json({ strategyId, active, versions });
+}
+
+// PUT /api/projects/[id]/strategy-identity/monitoring-profile — publish a new profile version
+export async function PUT(request: Request, { params }: Props) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+  }
+
+  const rateLimitResult = await checkRateLimit(apiRateLimiter, session.user.id);
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      apiError(ErrorCode.RATE_LIMITED, formatRateLimitError(rateLimitResult)),
+      { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  const contentTypeError = checkContentType(request);
+  if (contentTypeError) return contentTypeError;
+
+  const result = await safeReadJson(request);
+  if ("error" in result) return result.error;
+  const validation = thresholdProfileInputSchema.safeParse(result.data);
+
+  if (!validation.success) {
+    return NextResponse.json(
+      apiError(ErrorCode.VALIDATION_FAILED, "Validation failed", formatZodErrors(validation.error)),
+      { status: 400 }
+    );
+  }
+
+  const strategyId = await findOwnedStrategyId(id, session.user.id);
+  if (!strategyId) {
+    return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Strategy identity not found"), {
+      status: 404,
+    });
+  }
+
+  try {
+    const profile = await publishThresholdProfile({
+      strategyId,
+      name: validation.data.name,
+      overrides: validation.data.overrides,
+      createdBy: session.user.id,
+    });
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        apiError(ErrorCode.VERSION_CONFLICT, "Another profile version was published concurrently"),
+        { status: 409 }
+      );
+    }
+    logger.error({ error, strategyId }, "Failed to publish threshold profile");
+    return NextResponse.json(apiError(ErrorCode.INTERNAL_ERROR, "Internal server error"), {
+      status: 500,
+    });
+  }
+}
+
+// DELETE /api/projects/[id]/strategy-identity/monitoring-profile — revert to config defaults
+export async function DELETE(request: Request, { params }: Props) {
+  const session = await auth();
+  const { id } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json(apiError(ErrorCode.UNAUTHORIZED, "Unauthorized"), { status: 401 });
+  }
+
+  const strategyId = await findOwnedStrategyId(id, session.user.id);
+  if (!strategyId) {
+    return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "Strategy identity not found"), {
+      status: 404,
+    });
+  }
+
+  const retired = await retireThresholdProfile(strategyId);
+  if (!retired) {
+    return NextResponse.json(apiError(ErrorCode.NOT_FOUND, "No active threshold profile"), {
+      status: 404,
+    });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -10,6 +10,7 @@ import {
   LADDER_RANK,
   type LadderInput,
 } from "@/lib/proof/ladder";
+import { loadParameterPlateau } from "@/lib/optimization-reports";
 
 type Props = {
   params: Promise<{ id: string }>;
@@ -83,13 +84,14 @@ export async function POST(request: NextRequest, { params }: Props) {
 
     if (!existingPage?.isPublic) {
       // Compute current ladder level to verify VALIDATED threshold
-      const [latestBacktest, thresholdOverrides] = await Promise.all([
+      const [latestBacktest, thresholdOverrides, parameterPlateau] = await Promise.all([
         prisma.backtestRun.findFirst({
           where: { upload: { projectId: id } },
           orderBy: { createdAt: "desc" },
           select: { healthScore: true, validationResult: true, totalTrades: true },
         }),
         prisma.proofThreshold.findMany({ select: { key: true, value: true } }),
+        loadParameterPlateau(id),
       ]);
 
       const thresholds = mergeThresholds(thresholdOverrides);
@@ -107,6 +109,7 @@ export async function POST(request: NextRequest, { params }: Props) {
         backtestHealthScore: latestBacktest?.healthScore ?? null,
         monteCarloSurvival,
         backtestTrades: latestBacktest?.totalTrades ?? 0,
+        parameterPlateauRetention: parameterPlateau?.retention ?? null,
         hasLiveChain: false,
         liveTrades: 0,
         chainIntegrity: false,
@@ -125,7 +128,8 @@ export async function POST(request: NextRequest, { params }: Props) {
             "Strategy must be VALIDATED before publishing",
             `Your strategy is currently "${level}". To publish a public proof page, your latest backtest must have ` +
               `a health score >= ${thresholds.VALIDATED_MIN_SCORE}, Monte Carlo survival >= ${(thresholds.VALIDATED_MIN_SURVIVAL * 100).toFixed(0)}%, ` +
-              `and >= ${thresholds.MIN_TRADES_VALIDATION} trades.`
+              `and >= ${thresholds.MIN_TRADES_VALIDATION} trades. If optimization results are uploaded, neighbouring passes ` +
+              `must keep >= ${(thresholds.VALIDATED_MIN_PLATEAU_RETENTION * 100).toFixed(0)}% of the chosen parameters' result.`
           ),
           { status: 422 }
         );
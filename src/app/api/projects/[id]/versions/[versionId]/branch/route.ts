@@ -0,0 +1,144 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import type { Prisma } from "@prisma/client";
+import {
+  buildJsonSchema,
+  checkContentType,
+  createBranchSchema,
+  formatZodErrors,
+} from "@/lib/validations";
+import { migrateProjectData } from "@/lib/migrations";
+
+class BranchExistsError extends Error {
+  constructor(public branch: string) {
+    super(`Branch already exists: ${branch}`);
+  }
+}
+
+type Params = { params: Promise<{ id: string; versionId: string }> };
+
+// POST /api/projects/[id]/versions/[versionId]/branch - Fork a version into a new named branch
+export async function POST(request: Request, { params }: Params) {
+  const session = await auth();
+  const { id, versionId } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Rate limit
+  const rateLimitResult = await checkRateLimit(apiRateLimiter, session.user.id);
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: formatRateLimitError(rateLimitResult) },
+      { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  const contentTypeError = checkContentType(request);
+  if (contentTypeError) return contentTypeError;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  const validation = createBranchSchema.safeParse(body);
+  if (!validation.success) {
+    return NextResponse.json(
+      { error: "Validation failed", details: formatZodErrors(validation.error) },
+      { status: 400 }
+    );
+  }
+  const { name } = validation.data;
+
+  try {
+    // Verify ownership
+    const project = await prisma.project.findFirst({
+      where: { id, userId: session.user.id, deletedAt: null },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // The first version of the branch is a copy of the forked version
+    const newVersion = await prisma.$transaction(async (tx) => {
+      const sourceVersion = await tx.buildVersion.findFirst({
+        where: { id: versionId, projectId: id },
+      });
+
+      if (!sourceVersion) return null;
+
+      const existing = await tx.buildVersion.findFirst({
+        where: { projectId: id, branch: name },
+        select: { id: true },
+      });
+      if (existing) throw new BranchExistsError(name);
+
+      // Migrate and re-validate buildJson before forking
+      const migrated = migrateProjectData(sourceVersion.buildJson);
+      const parsed = buildJsonSchema.safeParse(migrated);
+      if (!parsed.success) {
+        throw new Error("Version contains invalid strategy data and cannot be branched");
+      }
+
+      const lastVersion = await tx.buildVersion.findFirst({
+        where: { projectId: id },
+        orderBy: { versionNo: "desc" },
+        select: { versionNo: true },
+      });
+
+      const buildJson = {
+        ...migrated,
+        metadata: { ...migrated.metadata, updatedAt: new Date().toISOString() },
+      };
+
+      return tx.buildVersion.create({
+        data: {
+          projectId: id,
+          versionNo: (lastVersion?.versionNo ?? 0) + 1,
+          buildJson: buildJson as unknown as Prisma.InputJsonValue,
+          branch: name,
+          forkedFromId: sourceVersion.id,
+        },
+      });
+    });
+
+    if (!newVersion) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      {
+        id: newVersion.id,
+        versionNo: newVersion.versionNo,
+        createdAt: newVersion.createdAt,
+        branch: newVersion.branch,
+        forkedFromVersion: versionId,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof BranchExistsError) {
+      return NextResponse.json(
+        { error: `A branch named "${error.branch}" already exists` },
+        { status: 409 }
+      );
+    }
+    if (error instanceof Error && error.message.includes("invalid strategy data")) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    logger.error({ error, projectId: id, versionId }, "Failed to branch version");
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { auth } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { logger } from "@/lib/logger";
+import {
+  apiRateLimiter,
+  checkRateLimit,
+  createRateLimitHeaders,
+  formatRateLimitError,
+} from "@/lib/rate-limit";
+import { buildJsonSchema } from "@/lib/validations";
+import { migrateProjectData } from "@/lib/migrations";
+import { generateMQL5Code } from "@/lib/mql5-generator";
+import { compareStrategyFingerprints } from "@/lib/strategy-identity";
+import { diffBuildVersions, unifiedDiff } from "@/lib/versioning";
+import type { BuildJsonSchema } from "@/types/builder";
+
+type Params = { params: Promise<{ id: string; versionId: string }> };
+
+/** Export timestamp in the generated file header */
+const GENERATED_AT = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z/;
+
+// GET /api/projects/[id]/versions/[versionId]/diff?base=<versionId> - Compare two versions
+export async function GET(request: Request, { params }: Params) {
+  const session = await auth();
+  const { id, versionId } = await params;
+
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const baseId = new URL(request.url).searchParams.get("base");
+  if (!baseId) {
+    return NextResponse.json({ error: "Missing base version" }, { status: 400 });
+  }
+
+  // Rate limit: the diff generates the EA twice
+  const rateLimitResult = await checkRateLimit(apiRateLimiter, session.user.id);
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { error: formatRateLimitError(rateLimitResult) },
+      { status: 429, headers: createRateLimitHeaders(rateLimitResult) }
+    );
+  }
+
+  try {
+    // Verify ownership
+    const project = await prisma.project.findFirst({
+      where: { id, userId: session.user.id, deletedAt: null },
+    });
+
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const versions = await prisma.buildVersion.findMany({
+      where: { id: { in: [baseId, versionId] }, projectId: id },
+      select: { id: true, versionNo: true, buildJson: true },
+    });
+    const base = versions.find((v) => v.id === baseId);
+    const target = versions.find((v) => v.id === versionId);
+
+    if (!base || !target) {
+      return NextResponse.json({ error: "Version not found" }, { status: 404 });
+    }
+
+    const before = migrateProjectData(base.buildJson);
+    const after = migrateProjectData(target.buildJson);
+    const fingerprints = compareStrategyFingerprints(
+      before as unknown as Parameters<typeof compareStrategyFingerprints>[0],
+      after as unknown as Parameters<typeof compareStrategyFingerprints>[0]
+    );
+
+    return NextResponse.json({
+      base: { id: base.id, versionNo: base.versionNo },
+      target: { id: target.id, versionNo: target.versionNo },
+      diff: diffBuildVersions(before, after),
+      material: fingerprints.material,
+      fingerprints: {
+        base: fingerprints.before.fingerprint,
+        target: fingerprints.after.fingerprint,
+      },
+      mql5Diff: diffGeneratedCode(before, after, project.name, base.versionNo, target.versionNo),
+    });
+  } catch (error) {
+    logger.error({ error, projectId: id, versionId }, "Failed to diff versions");
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+/**
+ * Unified diff of the MQL5 each version exports, or null when either version is not a
+ * valid strategy. The target is stamped with the base's export time so the header does
+ * not show up as a change.
+ */
+function diffGeneratedCode(
+  before: BuildJsonSchema,
+  after: BuildJsonSchema,
+  projectName: string,
+  baseNo: number,
+  targetNo: number
+): string | null {
+  if (!buildJsonSchema.safeParse(before).success || !buildJsonSchema.safeParse(after).success) {
+    return null;
+  }
+  const baseCode = generateMQL5Code(before, projectName);
+  const stamp = GENERATED_AT.exec(baseCode)?.[0];
+  let targetCode = generateMQL5Code(after, projectName);
+  if (stamp) targetCode = targetCode.replace(GENERATED_AT, stamp);
+  return unifiedDiff(baseCode, targetCode, {
+    fromLabel: `v${baseNo}.mq5`,
+    toLabel: `v${targetNo}.mq5`,
+  });
+}
@@ -75,11 +75,13 @@ export async function POST(request: Request, { params }: Params) {
         },
       };
 
+      // The restored copy becomes the new head of the branch it came from
       return tx.buildVersion.create({
         data: {
           projectId: id,
           versionNo: nextVersionNo,
           buildJson: buildJson as unknown as Prisma.InputJsonValue,
+          branch: sourceVersion.branch,
         },
       });
     });
@@ -96,6 +98,7 @@ export async function POST(request: Request, { params }: Params) {
         id: newVersion.id,
         versionNo: newVersion.versionNo,
         createdAt: newVersion.createdAt,
+        branch: newVersion.branch,
         restoredFromVersion: versionId,
       },
       { status: 201 }
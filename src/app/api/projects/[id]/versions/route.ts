@@ -4,6 +4,7 @@ import { createVersionSchema, formatZodErrors, checkContentType } from "@/lib/va
 import { ErrorCode, apiError } from "@/lib/error-codes";
 import { NextResponse } from "next/server";
 import { logger } from "@/lib/logger";
+import { DEFAULT_BRANCH } from "@/lib/versioning";
 import type { Prisma } from "@prisma/client";
 import {
   apiRateLimiter,
@@ -21,6 +22,12 @@ class VersionConflictError extends Error {
   }
 }
 
+class UnknownBranchError extends Error {
+  constructor(public branch: string) {
+    super(`Unknown branch: ${branch}`);
+  }
+}
+
 type Params = { params: Promise<{ id: string }> };
 
 // GET /api/projects/[id]/versions - List versions for a project (paginated)
@@ -62,6 +69,7 @@ export async function GET(request: Request, { params }: Params) {
           versionNo: true,
           createdAt: true,
           isAutosave: true,
+          branch: true,
         },
         skip,
         take: limit,
@@ -149,7 +157,7 @@ export async function POST(request: Request, { params }: Params) {
     );
   }
 
-  const { buildJson, expectedVersion, isAutosave } = validation.data;
+  const { buildJson, expectedVersion, isAutosave, branch = DEFAULT_BRANCH } = validation.data;
 
   // Use transaction for atomic version check + create (optimistic locking)
   try {
@@ -161,14 +169,27 @@ export async function POST(request: Request, { params }: Params) {
         select: { versionNo: true },
       });
 
-      const currentVersionNo = lastVersion?.versionNo ?? 0;
+      // Version numbers are per project, the lock is per branch: saving on one branch
+      // must not conflict with saves on another
+      const branchHead = await tx.buildVersion.findFirst({
+        where: { projectId: id, branch },
+        orderBy: { versionNo: "desc" },
+        select: { versionNo: true },
+      });
+
+      // Branches other than main are created by forking a version
+      if (branch !== DEFAULT_BRANCH && !branchHead) {
+        throw new UnknownBranchError(branch);
+      }
+
+      const currentVersionNo = branchHead?.versionNo ?? 0;
 
       // Optimistic locking: reject if expectedVersion doesn't match
       if (expectedVersion !== undefined && expectedVersion !== currentVersionNo) {
         throw new VersionConflictError(currentVersionNo, expectedVersion);
       }
 
-      const nextVersionNo = currentVersionNo + 1;
+      const nextVersionNo = (lastVersion?.versionNo ?? 0) + 1;
 
       // Update metadata timestamps
       const now = new Date().toISOString();
@@ -187,14 +208,22 @@ export async function POST(request: Request, { params }: Params) {
           versionNo: nextVersionNo,
           buildJson: updatedBuildJson as Prisma.InputJsonValue,
           isAutosave: isAutosave ?? false,
+          branch,
         },
       });
 
-      // Cleanup old autosaves within the same transaction for consistency
+      // Cleanup old autosaves within the same transaction for consistency.
+      // Fork and merge points are kept: merge bases are found through them.
       if (isAutosave) {
         try {
           const oldAutosaves = await tx.buildVersion.findMany({
-            where: { projectId: id, isAutosave: true },
+            where: {
+              projectId: id,
+              branch,
+              isAutosave: true,
+              forks: { none: {} },
+              merges: { none: {} },
+            },
             orderBy: { versionNo: "desc" },
             select: { id: true },
             skip: 5,
@@ -288,11 +317,18 @@ export async function POST(request: Request, { params }: Params) {
         id: version.id,
         versionNo: version.versionNo,
         createdAt: version.createdAt,
+        branch: version.branch,
         ...(warnings.length > 0 ? { warnings } : {}),
       },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof UnknownBranchError) {
+      return NextResponse.json(
+        apiError(ErrorCode.NOT_FOUND, "Branch not found", `No branch named "${error.branch}".`),
+        { status: 404 }
+      );
+    }
     if (error instanceof VersionConflictError) {
       return NextResponse.json(
         apiError(
@@ -67,12 +67,17 @@ vi.mock("@/lib/track-record/metrics", () => ({
   }),
 }));
 
+vi.mock("@/lib/optimization-reports", () => ({
+  loadParameterPlateau: () => Promise.resolve(null),
+}));
+
 vi.mock("@/lib/proof/ladder", () => ({
   computeLadderLevel: () => "SUBMITTED",
   mergeThresholds: () => ({
     VALIDATED_MIN_SCORE: 60,
     VALIDATED_MIN_SURVIVAL: 0.6,
     MIN_TRADES_VALIDATION: 200,
+    VALIDATED_MIN_PLATEAU_RETENTION: 0.8,
     MIN_LIVE_TRADES_VERIFIED: 50,
     MIN_LIVE_DAYS_PROVEN: 90,
     PROVEN_MAX_DRAWDOWN_PCT: 25,
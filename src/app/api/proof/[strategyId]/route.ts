@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { computeMetrics } from "@/lib/track-record/metrics";
 import { verifyChain } from "@/lib/track-record/chain-verifier";
+import { loadParameterPlateau } from "@/lib/optimization-reports";
 import {
   computeLadderLevel,
   mergeThresholds,
@@ -103,6 +104,9 @@ export async function GET(request: NextRequest, { params }: Props) {
   const dbThresholds = await prisma.proofThreshold.findMany();
   const thresholds = mergeThresholds(dbThresholds);
 
+  // Parameter plateau of the current inputs (null without an optimization report)
+  const parameterPlateau = await loadParameterPlateau(project.id);
+
   // Extract Monte Carlo data
   let monteCarlo: { survivalRate: number; p5: number; p50: number; p95: number } | null = null;
   if (backtestRun?.validationResult) {
@@ -324,6 +328,7 @@ export async function GET(request: NextRequest, { params }: Props) {
     backtestHealthScore: backtestRun?.healthScore ?? null,
     monteCarloSurvival: monteCarlo?.survivalRate ?? null,
     backtestTrades: backtestRun?.totalTrades ?? 0,
+    parameterPlateauRetention: parameterPlateau?.retention ?? null,
     hasLiveChain: trackRecord !== null && (trackRecord.lastSeqNo ?? 0) > 0,
     liveTrades: trackRecord?.totalTrades ?? 0,
     chainIntegrity,
@@ -372,6 +377,7 @@ export async function GET(request: NextRequest, { params }: Props) {
               `Backtest health score >= ${thresholds.VALIDATED_MIN_SCORE}/100`,
               `Monte Carlo survival rate >= ${(thresholds.VALIDATED_MIN_SURVIVAL * 100).toFixed(0)}%`,
               `Minimum ${thresholds.MIN_TRADES_VALIDATION} backtest trades`,
+              `Parameter plateau retention >= ${(thresholds.VALIDATED_MIN_PLATEAU_RETENTION * 100).toFixed(0)}% (when optimization results are uploaded)`,
             ],
           },
           VERIFIED: {
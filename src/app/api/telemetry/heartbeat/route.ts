@@ -55,6 +55,9 @@ const heartbeatSchema = z.object({
   totalProfit: z.number().finite().min(-1e12).max(1e12).default(0),
   drawdown: z.number().finite().min(0).max(100).default(0),
   spread: z.number().finite().min(0).max(10000).default(0),
+  // Mean absolute daily close-to-close move in %, for the health volatility regime.
+  // Older EAs omit it; health then falls back to a proxy from fill prices.
+  volatility: z.number().finite().min(0).max(100).optional(),
   mode: z.enum(["LIVE", "PAPER"]).optional(),
   // EA monitor mode — determines whether a separate account-level heartbeat
   // sends aggregated trade metrics to the base instance. Older EAs omit this
@@ -231,6 +234,7 @@ export async function POST(request: NextRequest) {
           totalProfit: data.totalProfit,
           drawdown: data.drawdown,
           spread: data.spread,
+          volatility: data.volatility,
         },
       }),
     ];
@@ -283,6 +287,7 @@ export async function POST(request: NextRequest) {
             totalProfit: data.totalProfit,
             drawdown: data.drawdown,
             spread: data.spread,
+            volatility: data.volatility,
           },
         })
       );
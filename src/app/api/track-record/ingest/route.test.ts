@@ -62,6 +62,10 @@ vi.mock("@/lib/track-record/ledger-commitment", () => ({
   buildCommitmentData: vi.fn(),
 }));
 
+vi.mock("@/lib/track-record/chain-append", () => ({
+  notarizeLedgerCommitment: vi.fn(),
+}));
+
 vi.mock("@/lib/track-record/payload-schemas", () => ({
   validatePayload: vi.fn().mockReturnValue(null),
 }));
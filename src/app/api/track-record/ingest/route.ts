@@ -15,6 +15,7 @@ import {
   computeCheckpointHmac,
 } from "@/lib/track-record/checkpoint";
 import { shouldCreateCommitment, buildCommitmentData } from "@/lib/track-record/ledger-commitment";
+import { notarizeLedgerCommitment } from "@/lib/track-record/chain-append";
 import { validatePayload } from "@/lib/track-record/payload-schemas";
 import { checkRateLimit } from "@/lib/track-record/rate-limiter";
 import { evaluateHealthIfDue } from "@/lib/strategy-health";
@@ -358,6 +359,7 @@ export async function POST(request: NextRequest) {
         }
 
         // Build ledger commitment if due (every 500 events)
+        let commitmentHash: string | null = null;
         if (shouldCreateCommitment(seqNo)) {
           const stateHmac = checkpoint
             ? checkpoint.hmac
@@ -369,6 +371,7 @@ export async function POST(request: NextRequest) {
             stateHmac
           );
           await tx.ledgerCommitment.create({ data: commitment });
+          commitmentHash = commitment.commitmentHash;
         }
 
         return {
@@ -378,11 +381,17 @@ export async function POST(request: NextRequest) {
             lastSeqNo: state.lastSeqNo,
             lastEventHash: state.lastEventHash,
           },
+          commitmentHash,
         };
       },
       { isolationLevel: "RepeatableRead" }
     );
 
+    // Notarize a new ledger commitment outside the tx (logs its own failures)
+    if (result.status === 200 && "commitmentHash" in result && result.commitmentHash) {
+      void notarizeLedgerCommitment(effectiveInstanceId, seqNo, result.commitmentHash);
+    }
+
     // Fire-and-forget: evaluate health after trade closes or snapshot events (outside tx).
     // SNAPSHOT events ensure strategies with long-running positions (days/weeks open)
     // still get health updates. The evaluator's 1-hour cooldown prevents excess load.
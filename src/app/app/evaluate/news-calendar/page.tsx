@@ -0,0 +1,305 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { getCsrfHeaders } from "@/lib/api-client";
+
+// ============================================
+// Types
+// ============================================
+
+interface CalendarImportItem {
+  id: string;
+  scope: "user" | "global";
+  fileName: string;
+  format: string;
+  eventCount: number;
+  coverageStart: string;
+  coverageEnd: string;
+  parseWarnings: string[] | null;
+  createdAt: string;
+}
+
+const MAX_UPLOAD_MB = 10;
+
+/** Zones calendar sites commonly export in; daylight saving follows the zone's rules */
+const TIME_ZONES = [
+  { value: "UTC", label: "UTC" },
+  { value: "America/New_York", label: "New York (ET)" },
+  { value: "America/Chicago", label: "Chicago (CT)" },
+  { value: "Europe/London", label: "London" },
+  { value: "Europe/Berlin", label: "Central Europe" },
+  { value: "Europe/Athens", label: "Eastern Europe (most MT4/MT5 servers)" },
+  { value: "Europe/Moscow", label: "Moscow" },
+  { value: "Asia/Dubai", label: "Dubai" },
+  { value: "Asia/Kolkata", label: "India" },
+  { value: "Asia/Singapore", label: "Singapore / Hong Kong" },
+  { value: "Asia/Tokyo", label: "Tokyo" },
+  { value: "Australia/Sydney", label: "Sydney" },
+];
+
+const DATE_ORDERS = [
+  { value: "auto", label: "Detect" },
+  { value: "MDY", label: "Month/day (01/31/2024)" },
+  { value: "DMY", label: "Day/month (31/01/2024)" },
+];
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(`Fetch failed: ${r.status}`);
+    return r.json();
+  });
+
+function formatDay(iso: string): string {
+  return new Date(iso).toLocaleDateString(undefined, { timeZone: "UTC" });
+}
+
+// ============================================
+// Page
+// ============================================
+
+export default function NewsCalendarPage() {
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [timeZone, setTimeZone] = useState("UTC");
+  const [dateOrder, setDateOrder] = useState("auto");
+
+  const { data: listData, mutate } = useSWR<{ data: CalendarImportItem[] }>(
+    "/api/economic-calendar",
+    fetcher
+  );
+
+  const handleUpload = useCallback(
+    async (file: File) => {
+      setError(null);
+      setWarnings([]);
+
+      const name = file.name.toLowerCase();
+      if (![".csv", ".ics", ".txt"].some((ext) => name.endsWith(ext))) {
+        setError("Please upload the calendar as .csv or .ics");
+        return;
+      }
+      if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+        setError(`File is too large (max ${MAX_UPLOAD_MB}MB)`);
+        return;
+      }
+
+      setUploading(true);
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("timeZone", timeZone);
+        formData.append("dateOrder", dateOrder);
+
+        const res = await fetch("/api/economic-calendar", {
+          method: "POST",
+          headers: { ...getCsrfHeaders() },
+          body: formData,
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+          setError(
+            res.status === 409
+              ? "This calendar has already been uploaded."
+              : data.error || "Upload failed"
+          );
+          return;
+        }
+
+        toast.success(`Imported ${data.eventCount} events`);
+        setWarnings(data.parseWarnings ?? []);
+        mutate();
+      } catch {
+        setError("Upload failed. Please try again.");
+      } finally {
+        setUploading(false);
+      }
+    },
+    [mutate, timeZone, dateOrder]
+  );
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this calendar import?")) return;
+    try {
+      const res = await fetch(`/api/economic-calendar/${id}`, {
+        method: "DELETE",
+        headers: { ...getCsrfHeaders() },
+      });
+      if (!res.ok) throw new Error();
+      toast.success("Calendar deleted");
+      mutate();
+    } catch {
+      toast.error("Failed to delete calendar");
+    }
+  };
+
+  const imports = listData?.data ?? [];
+
+  return (
+    <div className="min-h-screen bg-[#09090B]">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/app/evaluate"
+            className="text-sm text-[#71717A] hover:text-[#818CF8] transition-colors mb-4 inline-block"
+          >
+            &larr; Back to Evaluation
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">Economic Calendar</h1>
+          <p className="text-[#71717A] mt-2">
+            Import an economic calendar export so the News Filter backtests against the actual
+            release times. Dates not covered by an import fall back to the estimated release
+            schedule. Re-export your EA after importing.
+          </p>
+        </div>
+
+        {/* Time zone and date order */}
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-2">
+          <label htmlFor="calendar-time-zone" className="text-sm text-[#A1A1AA]">
+            Times in the file are
+          </label>
+          <select
+            id="calendar-time-zone"
+            value={timeZone}
+            onChange={(e) => setTimeZone(e.target.value)}
+            className="bg-[#18181B] border border-[rgba(255,255,255,0.10)] rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {TIME_ZONES.map((z) => (
+              <option key={z.value} value={z.value}>
+                {z.label}
+              </option>
+            ))}
+          </select>
+          <label htmlFor="calendar-date-order" className="text-sm text-[#A1A1AA] sm:ml-4">
+            Dates
+          </label>
+          <select
+            id="calendar-date-order"
+            value={dateOrder}
+            onChange={(e) => setDateOrder(e.target.value)}
+            className="bg-[#18181B] border border-[rgba(255,255,255,0.10)] rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {DATE_ORDERS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="mb-4 text-xs text-[#71717A]">
+          Calendar files carry local times: pick the zone they were exported in and daylight saving
+          changes are applied. Uploading the same file with another zone or date order imports it
+          again — delete the old import below.
+        </p>
+
+        {/* Upload Zone */}
+        <div
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            const file = e.dataTransfer.files[0];
+            if (file) handleUpload(file);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setDragging(false);
+          }}
+          className={`border-2 border-dashed rounded-2xl p-10 sm:p-14 text-center transition-colors cursor-pointer mb-8 ${
+            dragging
+              ? "border-[#6366F1] bg-[#6366F1]/5"
+              : "border-[rgba(255,255,255,0.10)] hover:border-[rgba(255,255,255,0.10)]"
+          } ${uploading ? "opacity-50 pointer-events-none" : ""}`}
+          onClick={() => {
+            if (uploading) return;
+            const input = document.createElement("input");
+            input.type = "file";
+            input.accept = ".csv,.ics,.txt";
+            input.onchange = (e) => {
+              const file = (e.target as HTMLInputElement).files?.[0];
+              if (file) handleUpload(file);
+            };
+            input.click();
+          }}
+        >
+          {uploading ? (
+            <>
+              <div className="w-10 h-10 mx-auto border-2 border-[#6366F1] border-t-transparent rounded-full animate-spin mb-4" />
+              <p className="text-white font-medium">Importing events...</p>
+            </>
+          ) : (
+            <>
+              <p className="text-white font-medium mb-1">Drop your calendar export here</p>
+              <p className="text-sm text-[#71717A]">
+                CSV with date, time, currency and impact columns, or an iCalendar (.ics) file
+              </p>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-8 px-4 py-3 rounded-xl bg-[#EF4444]/10 border border-[#EF4444]/20">
+            <p className="text-sm text-[#EF4444]">{error}</p>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="mb-8 px-4 py-3 rounded-xl bg-[#F59E0B]/10 border border-[#F59E0B]/20">
+            {warnings.map((w) => (
+              <p key={w} className="text-sm text-[#F59E0B]">
+                {w}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Import list */}
+        <h2 className="text-lg font-semibold text-white mb-4">Imported calendars</h2>
+        {imports.length === 0 ? (
+          <p className="text-sm text-[#71717A]">
+            No calendars imported yet — exported EAs use the estimated release schedule.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {imports.map((c) => (
+              <div
+                key={c.id}
+                className="flex items-center justify-between gap-4 rounded-xl border border-[rgba(255,255,255,0.06)] bg-[#111114] px-4 py-3"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-white truncate">
+                    {c.fileName}
+                    {c.scope === "global" && (
+                      <span className="ml-2 text-xs text-[#818CF8]">Global</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-[#71717A] truncate">
+                    {c.eventCount} events · {formatDay(c.coverageStart)} –{" "}
+                    {formatDay(c.coverageEnd)} · {c.format.toUpperCase()}
+                  </p>
+                </div>
+                {c.scope === "user" && (
+                  <button
+                    onClick={() => handleDelete(c.id)}
+                    className="text-xs text-[#71717A] hover:text-[#EF4444] transition-colors"
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,313 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import useSWR from "swr";
+import type {
+  OptimizationMetric,
+  OptimizationPass,
+  ParameterSensitivityReport,
+} from "@/lib/backtest-parser";
+
+// ============================================
+// Types
+// ============================================
+
+interface OptimizationDetail {
+  id: string;
+  fileName: string;
+  format: "xml" | "html";
+  createdAt: string;
+  project: { id: string; name: string } | null;
+  metadata: { eaName: string | null; symbol: string; timeframe: string; period: string };
+  passCount: number;
+  inputNames: string[];
+  passes: OptimizationPass[];
+  parseWarnings: string[];
+  sensitivity: ParameterSensitivityReport | null;
+  analysisWarnings: string[];
+}
+
+const METRIC_OPTIONS: { value: OptimizationMetric; label: string }[] = [
+  { value: "result", label: "Result" },
+  { value: "profit", label: "Profit" },
+  { value: "profitFactor", label: "Profit Factor" },
+  { value: "recoveryFactor", label: "Recovery Factor" },
+  { value: "sharpeRatio", label: "Sharpe Ratio" },
+  { value: "expectedPayoff", label: "Expected Payoff" },
+  { value: "custom", label: "Custom" },
+];
+
+const TOP_PASSES_SHOWN = 20;
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(`Fetch failed: ${r.status}`);
+    return r.json();
+  });
+
+// ============================================
+// Classification styling
+// ============================================
+
+function getClassificationColor(classification: string): string {
+  switch (classification) {
+    case "PLATEAU":
+      return "#10B981";
+    case "PEAK":
+    case "ISOLATED_PEAK":
+      return "#EF4444";
+    case "CATEGORICAL":
+      return "#818CF8";
+    default:
+      return "#71717A";
+  }
+}
+
+function getClassificationLabel(classification: string): string {
+  switch (classification) {
+    case "PLATEAU":
+      return "Robust plateau";
+    case "PEAK":
+      return "Sensitive";
+    case "ISOLATED_PEAK":
+      return "Isolated peak";
+    case "CATEGORICAL":
+      return "Categorical";
+    default:
+      return "Not enough data";
+  }
+}
+
+function formatRetention(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
+// ============================================
+// Page
+// ============================================
+
+export default function OptimizationDetailPage() {
+  const params = useParams<{ id: string }>();
+  const [metric, setMetric] = useState<OptimizationMetric>("result");
+
+  const { data, error, isLoading } = useSWR<OptimizationDetail>(
+    `/api/backtest/optimization/${params.id}?metric=${metric}`,
+    fetcher,
+    { keepPreviousData: true }
+  );
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#09090B] flex items-center justify-center">
+        <p className="text-[#EF4444]">Optimization report not found.</p>
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return (
+      <div className="min-h-screen bg-[#09090B] flex items-center justify-center">
+        <div className="w-10 h-10 border-2 border-[#6366F1] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const sensitivity = data.sensitivity;
+  const warnings = [
+    ...data.parseWarnings,
+    ...data.analysisWarnings,
+    ...(sensitivity?.warnings ?? []),
+  ];
+  const topPasses = [...data.passes]
+    .filter((p) => p[metric] !== null)
+    .sort((a, b) => (b[metric] as number) - (a[metric] as number))
+    .slice(0, TOP_PASSES_SHOWN);
+
+  return (
+    <div className="min-h-screen bg-[#09090B]">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8 sm:py-12 space-y-8">
+        {/* Header */}
+        <div>
+          <Link
+            href="/app/evaluate/optimization"
+            className="text-sm text-[#71717A] hover:text-[#818CF8] transition-colors mb-4 inline-block"
+          >
+            &larr; Back to Optimization Results
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">
+            {data.metadata.eaName || data.fileName} — {data.metadata.symbol}
+          </h1>
+          <p className="text-sm text-[#71717A] mt-2">
+            {data.metadata.timeframe} | {data.metadata.period} | {data.passCount} passes
+            {data.project && (
+              <>
+                {" | "}
+                <Link
+                  href={`/app/projects/${data.project.id}`}
+                  className="text-[#818CF8] hover:underline"
+                >
+                  {data.project.name}
+                </Link>
+              </>
+            )}
+          </p>
+        </div>
+
+        {warnings.length > 0 && (
+          <div className="px-4 py-3 rounded-xl bg-[#F59E0B]/10 border border-[#F59E0B]/20 space-y-1">
+            {warnings.map((w) => (
+              <p key={w} className="text-sm text-[#F59E0B]">
+                {w}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {/* Metric selector */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="sensitivity-metric" className="text-sm text-[#A1A1AA]">
+            Rank passes by
+          </label>
+          <select
+            id="sensitivity-metric"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as OptimizationMetric)}
+            className="bg-[#18181B] border border-[rgba(255,255,255,0.10)] rounded-lg px-3 py-2 text-sm text-white"
+          >
+            {METRIC_OPTIONS.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {sensitivity ? (
+          <>
+            {/* Neighbourhood verdict */}
+            <div
+              className="rounded-xl p-5 border"
+              style={{
+                borderColor: `${getClassificationColor(sensitivity.neighborhood.classification)}33`,
+                background: `${getClassificationColor(sensitivity.neighborhood.classification)}10`,
+              }}
+            >
+              <p
+                className="text-lg font-semibold"
+                style={{ color: getClassificationColor(sensitivity.neighborhood.classification) }}
+              >
+                {getClassificationLabel(sensitivity.neighborhood.classification)}
+              </p>
+              <p className="text-sm text-[#A1A1AA] mt-1">
+                Best pass #{sensitivity.bestPass.pass} scored{" "}
+                {formatNumber(sensitivity.bestPass[metric] as number)}. Its{" "}
+                {sensitivity.neighborhood.size} neighbouring passes (every input within one step)
+                keep a median of {formatRetention(sensitivity.neighborhood.medianRetention)} of that
+                result.
+              </p>
+            </div>
+
+            {/* Per-parameter sensitivity */}
+            <div className="rounded-xl border border-[rgba(255,255,255,0.06)] bg-[#111114] overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-[#71717A] border-b border-[rgba(255,255,255,0.06)]">
+                    <th className="px-4 py-3">Input</th>
+                    <th className="px-4 py-3">Best value</th>
+                    <th className="px-4 py-3">Values tested</th>
+                    <th className="px-4 py-3">One step away</th>
+                    <th className="px-4 py-3">Sensitivity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sensitivity.parameters.map((p) => (
+                    <tr key={p.name} className="border-b border-[rgba(255,255,255,0.04)]">
+                      <td className="px-4 py-3">
+                        <p className="text-white font-mono">{p.name}</p>
+                        <p className="text-xs text-[#71717A]">
+                          {p.label ?? (data.project ? "Not a generated input" : "")}
+                        </p>
+                      </td>
+                      <td className="px-4 py-3 text-white">{String(p.bestValue)}</td>
+                      <td className="px-4 py-3 text-[#A1A1AA]">{p.values.length}</td>
+                      <td className="px-4 py-3 text-[#A1A1AA]">
+                        {formatRetention(p.neighborRetention)}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className="text-xs font-semibold px-2 py-0.5 rounded-full"
+                          style={{
+                            color: getClassificationColor(p.classification),
+                            background: `${getClassificationColor(p.classification)}20`,
+                          }}
+                        >
+                          {getClassificationLabel(p.classification)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {sensitivity.unmatchedProjectInputs.length > 0 && (
+              <p className="text-xs text-[#71717A]">
+                Optimizable inputs not swept in this report:{" "}
+                <span className="font-mono">{sensitivity.unmatchedProjectInputs.join(", ")}</span>
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-[#71717A]">
+            Parameter sensitivity is unavailable for this report.
+          </p>
+        )}
+
+        {/* Top passes */}
+        <div>
+          <h2 className="text-lg font-semibold text-white mb-3">Top {topPasses.length} passes</h2>
+          <div className="rounded-xl border border-[rgba(255,255,255,0.06)] bg-[#111114] overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-[#71717A] border-b border-[rgba(255,255,255,0.06)]">
+                  <th className="px-4 py-3">Pass</th>
+                  <th className="px-4 py-3">Profit</th>
+                  <th className="px-4 py-3">PF</th>
+                  <th className="px-4 py-3">DD %</th>
+                  <th className="px-4 py-3">Trades</th>
+                  {data.inputNames.map((name) => (
+                    <th key={name} className="px-4 py-3 font-mono">
+                      {name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {topPasses.map((p) => (
+                  <tr key={p.pass} className="border-b border-[rgba(255,255,255,0.04)] text-white">
+                    <td className="px-4 py-2">{p.pass}</td>
+                    <td className="px-4 py-2">{formatNumber(p.profit)}</td>
+                    <td className="px-4 py-2">{p.profitFactor?.toFixed(2) ?? "—"}</td>
+                    <td className="px-4 py-2">{p.equityDrawdownPct?.toFixed(2) ?? "—"}</td>
+                    <td className="px-4 py-2">{p.trades}</td>
+                    {data.inputNames.map((name) => (
+                      <td key={name} className="px-4 py-2 text-[#A1A1AA]">
+                        {String(p.inputs[name] ?? "")}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
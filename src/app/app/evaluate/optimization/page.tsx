@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { getCsrfHeaders } from "@/lib/api-client";
+
+// ============================================
+// Types
+// ============================================
+
+interface OptimizationListItem {
+  id: string;
+  projectId: string | null;
+  fileName: string;
+  eaName: string | null;
+  symbol: string;
+  timeframe: string;
+  period: string;
+  passCount: number;
+  inputNames: string[];
+  createdAt: string;
+  project: { name: string } | null;
+}
+
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+const MAX_UPLOAD_MB = 20;
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(`Fetch failed: ${r.status}`);
+    return r.json();
+  });
+
+// ============================================
+// Page
+// ============================================
+
+export default function OptimizationReportsPage() {
+  const router = useRouter();
+  const [uploading, setUploading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState("");
+
+  const { data: listData, mutate } = useSWR<{ data: OptimizationListItem[] }>(
+    "/api/backtest/optimization",
+    fetcher
+  );
+  const { data: projectsData } = useSWR<{ data: ProjectOption[] }>(
+    "/api/projects?limit=50",
+    fetcher
+  );
+
+  const handleUpload = useCallback(
+    async (file: File) => {
+      setError(null);
+
+      const name = file.name.toLowerCase();
+      if (![".xml", ".html", ".htm"].some((ext) => name.endsWith(ext))) {
+        setError("Please upload the optimization results as .xml or .html");
+        return;
+      }
+      if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+        setError(`File is too large (max ${MAX_UPLOAD_MB}MB)`);
+        return;
+      }
+
+      setUploading(true);
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        if (projectId) formData.append("projectId", projectId);
+
+        const res = await fetch("/api/backtest/optimization", {
+          method: "POST",
+          headers: { ...getCsrfHeaders() },
+          body: formData,
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+          setError(
+            res.status === 409
+              ? "This report has already been uploaded."
+              : data.error || "Upload failed"
+          );
+          return;
+        }
+
+        toast.success(`Parsed ${data.passCount} optimization passes`);
+        mutate();
+        router.push(`/app/evaluate/optimization/${data.reportId}`);
+      } catch {
+        setError("Upload failed. Please try again.");
+      } finally {
+        setUploading(false);
+      }
+    },
+    [mutate, projectId, router]
+  );
+
+  const handleDelete = async (id: string) => {
+    if (!confirm("Delete this optimization report?")) return;
+    try {
+      const res = await fetch(`/api/backtest/optimization/${id}`, {
+        method: "DELETE",
+        headers: { ...getCsrfHeaders() },
+      });
+      if (!res.ok) throw new Error();
+      toast.success("Report deleted");
+      mutate();
+    } catch {
+      toast.error("Failed to delete report");
+    }
+  };
+
+  const reports = listData?.data ?? [];
+
+  return (
+    <div className="min-h-screen bg-[#09090B]">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/app/evaluate"
+            className="text-sm text-[#71717A] hover:text-[#818CF8] transition-colors mb-4 inline-block"
+          >
+            &larr; Back to Evaluation
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">Optimization Results</h1>
+          <p className="text-[#71717A] mt-2">
+            Upload an MT5 optimization export to see whether your best parameters sit on a robust
+            plateau or an isolated peak.
+          </p>
+        </div>
+
+        {/* Project link */}
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center gap-2">
+          <label htmlFor="optimization-project" className="text-sm text-[#A1A1AA]">
+            Strategy project
+          </label>
+          <select
+            id="optimization-project"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="bg-[#18181B] border border-[rgba(255,255,255,0.10)] rounded-lg px-3 py-2 text-sm text-white"
+          >
+            <option value="">Not linked</option>
+            {(projectsData?.data ?? []).map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-[#71717A]">
+            Linking a project matches report inputs to the inputs AlgoStudio generated.
+          </span>
+        </div>
+
+        {/* Upload Zone */}
+        <div
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            const file = e.dataTransfer.files[0];
+            if (file) handleUpload(file);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setDragging(false);
+          }}
+          className={`border-2 border-dashed rounded-2xl p-10 sm:p-14 text-center transition-colors cursor-pointer mb-8 ${
+            dragging
+              ? "border-[#6366F1] bg-[#6366F1]/5"
+              : "border-[rgba(255,255,255,0.10)] hover:border-[rgba(255,255,255,0.10)]"
+          } ${uploading ? "opacity-50 pointer-events-none" : ""}`}
+          onClick={() => {
+            if (uploading) return;
+            const input = document.createElement("input");
+            input.type = "file";
+            input.accept = ".xml,.html,.htm";
+            input.onchange = (e) => {
+              const file = (e.target as HTMLInputElement).files?.[0];
+              if (file) handleUpload(file);
+            };
+            input.click();
+          }}
+        >
+          {uploading ? (
+            <>
+              <div className="w-10 h-10 mx-auto border-2 border-[#6366F1] border-t-transparent rounded-full animate-spin mb-4" />
+              <p className="text-white font-medium">Parsing optimization passes...</p>
+            </>
+          ) : (
+            <>
+              <p className="text-white font-medium mb-1">Drop your optimization report here</p>
+              <p className="text-sm text-[#71717A]">
+                In MT5, right-click the Optimization Results tab and export to XML or HTML
+              </p>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-8 px-4 py-3 rounded-xl bg-[#EF4444]/10 border border-[#EF4444]/20">
+            <p className="text-sm text-[#EF4444]">{error}</p>
+          </div>
+        )}
+
+        {/* Report list */}
+        <h2 className="text-lg font-semibold text-white mb-4">Previous reports</h2>
+        {reports.length === 0 ? (
+          <p className="text-sm text-[#71717A]">No optimization reports uploaded yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {reports.map((r) => (
+              <div
+                key={r.id}
+                className="flex items-center justify-between gap-4 rounded-xl border border-[rgba(255,255,255,0.06)] bg-[#111114] px-4 py-3"
+              >
+                <Link href={`/app/evaluate/optimization/${r.id}`} className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-white truncate">
+                    {r.eaName || r.fileName} — {r.symbol} {r.timeframe}
+                  </p>
+                  <p className="text-xs text-[#71717A] truncate">
+                    {r.passCount} passes · {r.inputNames.length} inputs · {r.period}
+                    {r.project ? ` · ${r.project.name}` : ""}
+                  </p>
+                </Link>
+                <button
+                  onClick={() => handleDelete(r.id)}
+                  className="text-xs text-[#71717A] hover:text-[#EF4444] transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -271,6 +271,24 @@ export default function EvaluatePage() {
           <p className="text-[#71717A] mt-2">
             Upload your MT5 Strategy Tester report and instantly know if your strategy is robust.
           </p>
+          <Link
+            href="/app/evaluate/optimization"
+            className="text-sm text-[#818CF8] hover:underline mt-2 inline-block"
+          >
+            Analyze optimization results &rarr;
+          </Link>
+          <Link
+            href="/app/evaluate/news-calendar"
+            className="text-sm text-[#818CF8] hover:underline mt-2 ml-6 inline-block"
+          >
+            Import an economic calendar &rarr;
+          </Link>
+          <Link
+            href="/app/evaluate/simulate"
+            className="text-sm text-[#818CF8] hover:underline mt-2 ml-6 inline-block"
+          >
+            Simulate on price data &rarr;
+          </Link>
         </div>
 
         {/* Upload Zone */}
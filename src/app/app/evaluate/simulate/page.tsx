@@ -0,0 +1,243 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import useSWR from "swr";
+import { toast } from "sonner";
+import { getCsrfHeaders } from "@/lib/api-client";
+
+// ============================================
+// Types
+// ============================================
+
+interface ProjectOption {
+  id: string;
+  name: string;
+}
+
+const MAX_UPLOAD_MB = 40;
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error(`Fetch failed: ${r.status}`);
+    return r.json();
+  });
+
+const inputClass =
+  "bg-[#18181B] border border-[rgba(255,255,255,0.10)] rounded-lg px-3 py-2 text-sm text-white";
+
+// ============================================
+// Page
+// ============================================
+
+export default function SimulateBacktestPage() {
+  const router = useRouter();
+  const [running, setRunning] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [initialDeposit, setInitialDeposit] = useState("10000");
+  const [spreadPoints, setSpreadPoints] = useState("0");
+
+  const { data: projectsData } = useSWR<{ data: ProjectOption[] }>(
+    "/api/projects?limit=50",
+    fetcher
+  );
+
+  const handleUpload = useCallback(
+    async (file: File) => {
+      setError(null);
+
+      if (!projectId) {
+        setError("Choose the strategy project to simulate first");
+        return;
+      }
+      const name = file.name.toLowerCase();
+      if (![".csv", ".txt"].some((ext) => name.endsWith(ext))) {
+        setError("Please upload the price history as .csv or .txt");
+        return;
+      }
+      if (file.size > MAX_UPLOAD_MB * 1024 * 1024) {
+        setError(`File is too large (max ${MAX_UPLOAD_MB}MB)`);
+        return;
+      }
+
+      setRunning(true);
+      try {
+        const formData = new FormData();
+        formData.append("file", file);
+        formData.append("projectId", projectId);
+        if (symbol.trim()) formData.append("symbol", symbol.trim());
+        formData.append("initialDeposit", initialDeposit);
+        formData.append("spreadPoints", spreadPoints);
+
+        const res = await fetch("/api/backtest/simulate", {
+          method: "POST",
+          headers: { ...getCsrfHeaders() },
+          body: formData,
+        });
+        const data = await res.json();
+
+        if (!res.ok) {
+          setError(
+            res.status === 409
+              ? "This data has already been simulated with these settings."
+              : data.error || "Simulation failed"
+          );
+          return;
+        }
+
+        toast.success(`Simulated ${data.dealCount} deals over ${data.barCount} bars`);
+        router.push(`/app/evaluate/${data.runId}`);
+      } catch {
+        setError("Simulation failed. Please try again.");
+      } finally {
+        setRunning(false);
+      }
+    },
+    [projectId, symbol, initialDeposit, spreadPoints, router]
+  );
+
+  return (
+    <div className="min-h-screen bg-[#09090B]">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 py-8 sm:py-12">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/app/evaluate"
+            className="text-sm text-[#71717A] hover:text-[#818CF8] transition-colors mb-4 inline-block"
+          >
+            &larr; Back to Evaluation
+          </Link>
+          <h1 className="text-2xl sm:text-3xl font-bold text-white">Simulate on Price Data</h1>
+          <p className="text-[#71717A] mt-2">
+            Run a saved strategy bar by bar over an OHLC export, without MetaTrader. The result is
+            scored and stored like an uploaded Strategy Tester report.
+          </p>
+        </div>
+
+        {/* Settings */}
+        <div className="mb-6 grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="flex flex-col gap-1">
+            <label htmlFor="simulate-project" className="text-sm text-[#A1A1AA]">
+              Strategy project
+            </label>
+            <select
+              id="simulate-project"
+              value={projectId}
+              onChange={(e) => setProjectId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Choose a project</option>
+              {(projectsData?.data ?? []).map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <span className="text-xs text-[#71717A]">The latest saved version is simulated.</span>
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="simulate-symbol" className="text-sm text-[#A1A1AA]">
+              Symbol
+            </label>
+            <input
+              id="simulate-symbol"
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              placeholder="EURUSD"
+              maxLength={32}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="simulate-deposit" className="text-sm text-[#A1A1AA]">
+              Initial deposit
+            </label>
+            <input
+              id="simulate-deposit"
+              type="number"
+              min={1}
+              value={initialDeposit}
+              onChange={(e) => setInitialDeposit(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <label htmlFor="simulate-spread" className="text-sm text-[#A1A1AA]">
+              Spread (points)
+            </label>
+            <input
+              id="simulate-spread"
+              type="number"
+              min={0}
+              value={spreadPoints}
+              onChange={(e) => setSpreadPoints(e.target.value)}
+              className={inputClass}
+            />
+            <span className="text-xs text-[#71717A]">
+              Used for bars without a spread column of their own.
+            </span>
+          </div>
+        </div>
+
+        {/* Upload Zone */}
+        <div
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            const file = e.dataTransfer.files[0];
+            if (file) handleUpload(file);
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={(e) => {
+            e.preventDefault();
+            setDragging(false);
+          }}
+          className={`border-2 border-dashed rounded-2xl p-10 sm:p-14 text-center transition-colors cursor-pointer mb-8 ${
+            dragging
+              ? "border-[#6366F1] bg-[#6366F1]/5"
+              : "border-[rgba(255,255,255,0.10)] hover:border-[rgba(255,255,255,0.10)]"
+          } ${running ? "opacity-50 pointer-events-none" : ""}`}
+          onClick={() => {
+            if (running) return;
+            const input = document.createElement("input");
+            input.type = "file";
+            input.accept = ".csv,.txt";
+            input.onchange = (e) => {
+              const file = (e.target as HTMLInputElement).files?.[0];
+              if (file) handleUpload(file);
+            };
+            input.click();
+          }}
+        >
+          {running ? (
+            <>
+              <div className="w-10 h-10 mx-auto border-2 border-[#6366F1] border-t-transparent rounded-full animate-spin mb-4" />
+              <p className="text-white font-medium">Simulating...</p>
+            </>
+          ) : (
+            <>
+              <p className="text-white font-medium mb-1">Drop your OHLC CSV here</p>
+              <p className="text-sm text-[#71717A]">
+                Export bars from the MT5 History Center, or any CSV with date, time, open, high, low
+                and close columns
+              </p>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-8 px-4 py-3 rounded-xl bg-[#EF4444]/10 border border-[#EF4444]/20">
+            <p className="text-sm text-[#EF4444]">{error}</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Edge, Node } from "@xyflow/react";
+import type { BuilderEdge, BuilderNode, BuilderNodeData, MacroDefinition } from "@/types/builder";
+import { createMacroDefinition, type MacroExposedField } from "@/lib/mql5-generator/macros";
+
+/** Data fields that identify a block rather than tune it */
+const NON_PARAMETER_FIELDS = new Set(["label", "category", "optimizableFields"]);
+
+function exposableFields(node: Node<BuilderNodeData>): string[] {
+  return Object.entries(node.data)
+    .filter(
+      ([key, value]) =>
+        !NON_PARAMETER_FIELDS.has(key) &&
+        !key.startsWith("_") &&
+        !key.endsWith("Type") &&
+        (typeof value === "number" || typeof value === "boolean" || typeof value === "string")
+    )
+    .map(([key]) => key);
+}
+
+interface SaveMacroDialogProps {
+  nodes: Node<BuilderNodeData>[];
+  edges: Edge[];
+  onSave: (
+    name: string,
+    description: string,
+    definition: MacroDefinition
+  ) => Promise<string | null>;
+  onClose: () => void;
+}
+
+export function SaveMacroDialog({ nodes, edges, onSave, onClose }: SaveMacroDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [exposed, setExposed] = useState<MacroExposedField[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fieldsByNode = useMemo(
+    () => nodes.map((node) => ({ node, fields: exposableFields(node) })),
+    [nodes]
+  );
+
+  const isExposed = (nodeId: string, field: string) =>
+    exposed.some((f) => f.nodeId === nodeId && f.field === field);
+
+  const toggleField = (node: Node<BuilderNodeData>, field: string) => {
+    setExposed((prev) =>
+      isExposed(node.id, field)
+        ? prev.filter((f) => !(f.nodeId === node.id && f.field === field))
+        : [...prev, { nodeId: node.id, field, label: `${node.data.label} ${field}` }]
+    );
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const definition = createMacroDefinition(
+      nodes as BuilderNode[],
+      edges as BuilderEdge[],
+      exposed
+    );
+    const result = await onSave(name.trim(), description, definition);
+    setSaving(false);
+    if (result) {
+      setError(result);
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        className="bg-[#111114] border border-[rgba(79,70,229,0.3)] rounded-xl shadow-[0_8px_32px_rgba(0,0,0,0.5)] w-full max-w-lg mx-4 flex flex-col max-h-[80vh]"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-[rgba(79,70,229,0.2)]">
+          <h3 className="text-sm font-semibold text-white">Save as Macro</h3>
+          <p className="text-xs text-[#A1A1AA] mt-1">
+            {nodes.length} blocks become one reusable block under My Macros. Saving an existing name
+            adds a new version.
+          </p>
+        </div>
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={60}
+            placeholder="Macro name"
+            className="w-full px-3 py-2 text-sm bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded-lg text-white placeholder-[#52525B] focus:ring-2 focus:ring-[#22D3EE] focus:border-transparent focus:outline-none"
+          />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            maxLength={500}
+            placeholder="Description (optional)"
+            className="w-full h-16 px-3 py-2 text-xs bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded-lg text-[#FAFAFA] placeholder-[#52525B] focus:ring-2 focus:ring-[#22D3EE] focus:border-transparent focus:outline-none resize-none"
+          />
+          <div>
+            <p className="text-xs font-medium text-[#FAFAFA] mb-1">Exposed parameters</p>
+            <p className="text-[10px] text-[#7C8DB0] mb-2">
+              Checked fields stay editable on the macro block; everything else is fixed.
+            </p>
+            {fieldsByNode.map(({ node, fields }) =>
+              fields.length === 0 ? null : (
+                <div key={node.id} className="mb-2">
+                  <p className="text-xs text-[#2DD4BF]">{node.data.label}</p>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1 mt-1">
+                    {fields.map((field) => (
+                      <label
+                        key={field}
+                        className="flex items-center gap-2 text-xs text-[#A1A1AA] cursor-pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={isExposed(node.id, field)}
+                          onChange={() => toggleField(node, field)}
+                          className="rounded border-[rgba(79,70,229,0.3)] bg-[#1E293B] text-[#2DD4BF] focus:ring-[#2DD4BF]"
+                        />
+                        <span className="truncate">{field}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )
+            )}
+          </div>
+          {error && (
+            <div className="bg-[rgba(239,68,68,0.1)] border border-[rgba(239,68,68,0.3)] text-[#EF4444] p-3 rounded-lg text-xs">
+              {error}
+            </div>
+          )}
+        </div>
+        <div className="p-3 border-t border-[rgba(79,70,229,0.2)] flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 text-sm text-[#FAFAFA] hover:text-white transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || saving}
+            className="px-4 py-1.5 text-sm font-medium text-white bg-[#6366F1] rounded-lg hover:bg-[#6366F1] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+          >
+            {saving ? "Saving..." : "Save Macro"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -53,14 +53,20 @@ export function validateConnection(
     };
   }
 
-  // Rule 3: Max 1 connection per target handle (input)
+  // Rule 3: Max 1 connection per target handle (input).
+  // AND/OR gates combine any number of inputs; a NOT gate inverts exactly one.
+  const targetData = targetNode.data as BuilderNodeData;
+  const isMultiInputGate = "logicType" in targetData && targetData.logicType !== "NOT";
   const existingToTarget = edges.filter(
     (e) => e.target === target && e.targetHandle === (connection.targetHandle ?? null)
   );
-  if (existingToTarget.length > 0) {
+  if (!isMultiInputGate && existingToTarget.length > 0) {
     return {
       isValid: false,
-      reason: "This input already has a connection. Remove it first.",
+      reason:
+        "logicType" in targetData
+          ? "A NOT gate inverts a single condition. Remove the existing input first."
+          : "This input already has a connection. Remove it first.",
     };
   }
 
@@ -98,13 +104,25 @@ export function validateConnection(
  * If a source category is not listed, it can connect to anything (no restriction).
  */
 const ALLOWED_TARGETS: Partial<Record<NodeCategory, Set<NodeCategory>>> = {
-  timing: new Set(["indicator", "priceaction", "trading"]),
-  indicator: new Set(["trading", "indicator", "entry"]),
-  priceaction: new Set(["trading", "entry"]),
+  timing: new Set(["indicator", "priceaction", "trading", "macro"]),
+  indicator: new Set(["trading", "indicator", "entry", "logic", "macro"]),
+  priceaction: new Set(["trading", "entry", "logic", "macro"]),
+  logic: new Set(["logic", "trading", "macro"]),
   entry: new Set(["riskmanagement", "trademanagement"]),
   trading: new Set(["riskmanagement", "trademanagement"]),
   riskmanagement: new Set([]), // output-only
   trademanagement: new Set([]), // output-only
+  // A macro passes connections through to the blocks inside it
+  macro: new Set([
+    "indicator",
+    "priceaction",
+    "logic",
+    "trading",
+    "entry",
+    "riskmanagement",
+    "trademanagement",
+    "macro",
+  ]),
 };
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -115,6 +133,8 @@ const CATEGORY_LABELS: Record<string, string> = {
   trading: "Trade Execution",
   riskmanagement: "Risk Management",
   trademanagement: "Trade Management",
+  logic: "Logic Gate",
+  macro: "Macro",
 };
 
 /**
@@ -145,6 +165,14 @@ function getConnectionGuidance(source: NodeCategory, target: NodeCategory): stri
     return "Filter/Timing blocks should connect to Indicator, Price Action, or Trade Execution blocks.";
   }
 
+  // Logic gates only combine entry conditions
+  if (source === "logic") {
+    return "Logic gates connect to Trade Execution blocks or to other logic gates.";
+  }
+  if (target === "logic") {
+    return "Logic gates combine Indicator and Price Action conditions.";
+  }
+
   // Entry or trading connecting to indicators/price action (backwards flow)
   if (
     (source === "entry" || source === "trading") &&
@@ -0,0 +1,11 @@
+"use client";
+import { createContext, useContext } from "react";
+import type { NodeDiffStatus } from "@/lib/versioning";
+
+const DiffHighlightContext = createContext<Record<string, NodeDiffStatus>>({});
+
+export const DiffHighlightProvider = DiffHighlightContext.Provider;
+
+export function useNodeDiffStatus(nodeId: string): NodeDiffStatus | undefined {
+  return useContext(DiffHighlightContext)[nodeId];
+}
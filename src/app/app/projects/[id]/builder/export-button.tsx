@@ -23,6 +23,13 @@ interface ExportResult {
   versionNo: number;
 }
 
+type ExportFormat = "MQ5" | "MQ4";
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string; platform: string }[] = [
+  { value: "MQ5", label: "MQL5", platform: "MetaTrader 5" },
+  { value: "MQ4", label: "MQL4", platform: "MetaTrader 4" },
+];
+
 interface ExportError {
   error: string;
   details?: string[] | string;
@@ -49,7 +56,7 @@ export function ExportButton({
   const [showModal, setShowModal] = useState(false);
   const [showConfig, setShowConfig] = useState(false);
   const [configMagicNumber, setConfigMagicNumber] = useState(magicNumber ?? 123456);
-  const selectedFormat = "MQ5" as const;
+  const [selectedFormat, setSelectedFormat] = useState<ExportFormat>("MQ5");
   const [result, setResult] = useState<ExportResult | null>(null);
   const [error, setError] = useState<ExportError | null>(null);
   const stepTimersRef = useRef<NodeJS.Timeout[]>([]);
@@ -112,7 +119,7 @@ export function ExportButton({
     };
   }, []);
 
-  const formatLabel = "MQL5";
+  const formatLabel = selectedFormat === "MQ4" ? "MQL4" : "MQL5";
   const exportSteps = [
     "Validating strategy...",
     `Generating ${formatLabel} code...`,
@@ -512,9 +519,23 @@ export function ExportButton({
                   )}
 
                   {/* Export Format */}
-                  <div className="bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded-lg px-4 py-2.5">
-                    <div className="font-semibold text-sm text-white">MQL5</div>
-                    <div className="text-xs text-[#A1A1AA] mt-0.5">MetaTrader 5</div>
+                  <div className="grid grid-cols-2 gap-2" role="group" aria-label="Export format">
+                    {EXPORT_FORMATS.map((format) => (
+                      <button
+                        key={format.value}
+                        type="button"
+                        aria-pressed={selectedFormat === format.value}
+                        onClick={() => setSelectedFormat(format.value)}
+                        className={`text-left bg-[#0F172A] border rounded-lg px-4 py-2.5 transition-colors duration-200 ${
+                          selectedFormat === format.value
+                            ? "border-[#6366F1] ring-1 ring-[#6366F1]"
+                            : "border-[rgba(79,70,229,0.3)] hover:border-[rgba(79,70,229,0.6)]"
+                        }`}
+                      >
+                        <div className="font-semibold text-sm text-white">{format.label}</div>
+                        <div className="text-xs text-[#A1A1AA] mt-0.5">{format.platform}</div>
+                      </button>
+                    ))}
                   </div>
 
                   <div>
@@ -713,7 +734,7 @@ export function ExportButton({
                   </div>
 
                   {/* Next Steps Guide */}
-                  <NextStepsGuide />
+                  <NextStepsGuide format={selectedFormat} />
 
                   {/* Backtest Checklist */}
                   <BacktestChecklist />
@@ -1020,18 +1041,19 @@ function highlightKeywords(text: string): React.ReactNode {
   return parts.length === 1 && typeof parts[0] === "string" ? parts[0] : <>{parts}</>;
 }
 
-function NextStepsGuide() {
+function NextStepsGuide({ format }: { format: ExportFormat }) {
   const [expanded, setExpanded] = useState(true);
+  const mt = format === "MQ4" ? "4" : "5";
 
   const steps = [
     <>
-      If you haven&apos;t already, <strong className="text-white">download MetaTrader 5</strong>{" "}
+      If you haven&apos;t already, <strong className="text-white">download MetaTrader {mt}</strong>{" "}
       from your broker&apos;s website and install it
     </>,
     <>
-      Place the <strong className="text-white">.mq5</strong> file in{" "}
-      <strong className="text-white">MQL5/Experts</strong> folder (File &gt; Open Data Folder in
-      MT5)
+      Place the <strong className="text-white">.mq{mt}</strong> file in{" "}
+      <strong className="text-white">MQL{mt}/Experts</strong> folder (File &gt; Open Data Folder in
+      MT{mt})
     </>,
     <>
       Open in MetaEditor and press <strong className="text-white">F7</strong> to compile
@@ -1040,7 +1062,10 @@ function NextStepsGuide() {
       Open <strong className="text-white">Strategy Tester</strong> (Ctrl+R) and select your EA
     </>,
     <>
-      Use <strong className="text-white">&quot;Every tick based on real ticks&quot;</strong>{" "}
+      Use{" "}
+      <strong className="text-white">
+        &quot;{format === "MQ4" ? "Every tick" : "Every tick based on real ticks"}&quot;
+      </strong>{" "}
       modeling for the most accurate backtest results
     </>,
     <>
@@ -1064,7 +1089,7 @@ function NextStepsGuide() {
               d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
             />
           </svg>
-          How to install in MetaTrader 5
+          How to install in MetaTrader {mt}
         </span>
         <svg
           className={`w-3.5 h-3.5 transition-transform duration-200 ${expanded ? "rotate-180" : ""}`}
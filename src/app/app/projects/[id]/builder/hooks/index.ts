@@ -3,3 +3,4 @@ export { useClipboard } from "./use-clipboard";
 export { useKeyboardShortcuts } from "./use-keyboard-shortcuts";
 export { useConnectionValidation, addEdgeLabels } from "./use-connection-validation";
 export { useOnlineStatus } from "./use-online-status";
+export { useUserMacros, saveUserMacro, macroTemplate, type UserMacro } from "./use-user-macros";
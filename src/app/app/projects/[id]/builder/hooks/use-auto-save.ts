@@ -15,6 +15,8 @@ interface UseAutoSaveOptions {
   edges: Edge[];
   initialData: BuildJsonSchema | null;
   settings?: BuildJsonSettings;
+  /** Branch new versions are saved on */
+  branch?: string;
   debounceMs?: number;
 }
 
@@ -31,6 +33,7 @@ export function useAutoSave({
   edges,
   initialData,
   settings,
+  branch,
   debounceMs = 5000,
 }: UseAutoSaveOptions): UseAutoSaveReturn {
   const [autoSaveStatus, setAutoSaveStatus] = useState<AutoSaveStatus>("idle");
@@ -44,10 +47,17 @@ export function useAutoSave({
   const edgesRef = useRef(edges);
   const initialDataRef = useRef(initialData);
   const settingsRef = useRef(settings);
+  const branchRef = useRef(branch);
   nodesRef.current = nodes;
   edgesRef.current = edges;
   initialDataRef.current = initialData;
   settingsRef.current = settings;
+  branchRef.current = branch;
+
+  // The optimistic lock is per branch: forget the last saved version when switching
+  useEffect(() => {
+    lastSavedVersionRef.current = 0;
+  }, [branch]);
 
   // Track unsaved changes via a counter instead of JSON.stringify every render.
   // changeCounter increments when nodes/edges array references change (React Flow
@@ -128,6 +138,7 @@ export function useAutoSave({
               buildJson,
               expectedVersion: lastSavedVersionRef.current || undefined,
               isAutosave,
+              branch: branchRef.current,
             }),
             signal: controller.signal,
           });
@@ -163,6 +174,7 @@ export function useAutoSave({
                   buildJson,
                   expectedVersion: lastSavedVersionRef.current || undefined,
                   isAutosave,
+                  branch: branchRef.current,
                 }),
                 signal: retryController.signal,
               });
@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import type { MacroDefinition, MacroNodeData, NodeTemplate } from "@/types/builder";
+
+/** Window event fired after a macro is saved so every toolbar reloads its list */
+const MACROS_CHANGED_EVENT = "macros-changed";
+
+export interface UserMacro {
+  id: string;
+  name: string;
+  version: number;
+  description: string | null;
+  definition: MacroDefinition;
+}
+
+/** Toolbar template that drops a macro block pinned to this saved version. */
+export function macroTemplate(macro: UserMacro): NodeTemplate {
+  const defaultData: MacroNodeData = {
+    label: macro.name,
+    category: "macro",
+    macroType: "macro",
+    macroId: macro.id,
+    macroName: macro.name,
+    macroVersion: macro.version,
+    definition: macro.definition,
+    params: {},
+  };
+  return {
+    type: "macro",
+    label: `${macro.name} v${macro.version}`,
+    category: "macro",
+    description: macro.description ?? `${macro.definition.nodes.length} blocks`,
+    defaultData,
+  };
+}
+
+/**
+ * Save a macro. Saving an existing name stores the next version; blocks already on a
+ * canvas keep theirs. Returns null on success, otherwise an error message for the user.
+ */
+export async function saveUserMacro(
+  name: string,
+  description: string,
+  definition: MacroDefinition
+): Promise<string | null> {
+  try {
+    const res = await fetch("/api/macros", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, description, definition }),
+    });
+    if (!res.ok) {
+      const json = await res.json().catch(() => null);
+      return json?.details?.[0] ?? json?.error ?? "Failed to save macro";
+    }
+    window.dispatchEvent(new Event(MACROS_CHANGED_EVENT));
+    return null;
+  } catch {
+    return "Failed to save macro";
+  }
+}
+
+/** Hook that loads the user's saved macros, latest version of each, and reloads after saves. */
+export function useUserMacros() {
+  const [macros, setMacros] = useState<UserMacro[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const loadMacros = () =>
+      fetch("/api/macros", { signal: controller.signal })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((json) => {
+          if (json) setMacros(json.data);
+        })
+        // Aborted on unmount; other failures leave the list as it was
+        .catch(() => {});
+
+    loadMacros();
+    window.addEventListener(MACROS_CHANGED_EVENT, loadMacros);
+    return () => {
+      controller.abort();
+      window.removeEventListener(MACROS_CHANGED_EVENT, loadMacros);
+    };
+  }, []);
+
+  return { macros };
+}
@@ -23,6 +23,7 @@ interface LazyStrategyBuilderProps {
   latestVersion?: {
     id: string;
     versionNo: number;
+    branch?: string;
     buildJson: BuildJsonSchema;
   } | null;
   canExportMQL5?: boolean;
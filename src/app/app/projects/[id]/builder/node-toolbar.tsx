@@ -9,6 +9,7 @@ import {
   type BuildJsonSettings,
 } from "@/types/builder";
 import { StrategySettingsPanel } from "./strategy-settings-panel";
+import { useUserMacros, macroTemplate } from "./hooks";
 
 // Static style maps — defined once outside component to avoid re-creation on every render
 const CATEGORY_STYLES: Record<
@@ -57,6 +58,18 @@ const CATEGORY_STYLES: Record<
     hoverShadow: "hover:shadow-[0_4px_16px_rgba(168,85,247,0.4)]",
     border: "border-[#A855F7]/30",
   },
+  logic: {
+    gradient: "bg-gradient-to-r from-[#4F46E5] to-[#818CF8]",
+    shadow: "shadow-[0_2px_8px_rgba(99,102,241,0.3)]",
+    hoverShadow: "hover:shadow-[0_4px_16px_rgba(99,102,241,0.4)]",
+    border: "border-[#818CF8]/30",
+  },
+  macro: {
+    gradient: "bg-gradient-to-r from-[#0F766E] to-[#2DD4BF]",
+    shadow: "shadow-[0_2px_8px_rgba(20,184,166,0.3)]",
+    hoverShadow: "hover:shadow-[0_4px_16px_rgba(20,184,166,0.4)]",
+    border: "border-[#2DD4BF]/30",
+  },
 };
 
 const BLOCK_COLORS: Record<NodeCategory, string> = {
@@ -67,14 +80,18 @@ const BLOCK_COLORS: Record<NodeCategory, string> = {
   trading: "text-[#3B82F6]",
   riskmanagement: "text-[#FB7185]",
   trademanagement: "text-[#A855F7]",
+  logic: "text-[#818CF8]",
+  macro: "text-[#2DD4BF]",
 };
 
 const CATEGORIES: NodeCategory[] = [
   "indicator",
   "priceaction",
+  "logic",
   "timing",
   "trading",
   "trademanagement",
+  "macro",
 ];
 
 interface NodeToolbarProps {
@@ -94,6 +111,7 @@ export function NodeToolbar({
     new Set(["indicator"])
   );
   const [search, setSearch] = useState("");
+  const { macros } = useUserMacros();
 
   const toggleCategory = (category: NodeCategory) => {
     setExpandedCategories((prev) => {
@@ -111,8 +129,10 @@ export function NodeToolbar({
   const templatesByCategory = useMemo(() => {
     const searchLower = search.toLowerCase().trim();
     const result: Record<NodeCategory, NodeTemplate[]> = {} as Record<NodeCategory, NodeTemplate[]>;
+    // Saved macros are listed like built-in blocks under "My Macros"
+    const templates = [...NODE_TEMPLATES, ...macros.map(macroTemplate)];
     for (const category of CATEGORIES) {
-      result[category] = NODE_TEMPLATES.filter(
+      result[category] = templates.filter(
         (t) =>
           t.category === category &&
           (!searchLower ||
@@ -121,7 +141,7 @@ export function NodeToolbar({
       );
     }
     return result;
-  }, [search]);
+  }, [search, macros]);
 
   return (
     <div
@@ -228,6 +248,11 @@ export function NodeToolbar({
               {/* Block List */}
               {isExpanded && (
                 <div className="mt-2 space-y-1 pl-1">
+                  {category === "macro" && templates.length === 0 && (
+                    <p className="px-3 py-2 text-xs text-[#7C8DB0]">
+                      Select two or more blocks on the canvas and choose Save as macro.
+                    </p>
+                  )}
                   {templates.map((template, index) => {
                     return (
                       <div
@@ -4,6 +4,7 @@ import { memo, useState, useEffect, useCallback, useRef } from "react";
 import { Handle, Position, useReactFlow } from "@xyflow/react";
 import type { NodeCategory } from "@/types/builder";
 import { useNodeValidation } from "../validation-context";
+import { useNodeDiffStatus } from "../diff-highlight-context";
 
 interface BaseNodeProps {
   id: string;
@@ -63,6 +64,18 @@ const categoryStyles: Record<
     header: "bg-gradient-to-r from-[#7C3AED] to-[#A855F7]",
     glow: "shadow-[0_0_16px_rgba(168,85,247,0.25)]",
   },
+  logic: {
+    bg: "bg-[rgba(99,102,241,0.08)]",
+    border: "border-[rgba(99,102,241,0.3)]",
+    header: "bg-gradient-to-r from-[#4F46E5] to-[#6366F1]",
+    glow: "shadow-[0_0_16px_rgba(99,102,241,0.25)]",
+  },
+  macro: {
+    bg: "bg-[rgba(20,184,166,0.08)]",
+    border: "border-[rgba(20,184,166,0.3)]",
+    header: "bg-gradient-to-r from-[#0F766E] to-[#14B8A6]",
+    glow: "shadow-[0_0_16px_rgba(20,184,166,0.25)]",
+  },
 };
 
 export const BaseNode = memo(function BaseNode({
@@ -89,6 +102,9 @@ export const BaseNode = memo(function BaseNode({
   const hasWarnings = warningCount > 0;
   const badgeCount = hasErrors ? errorCount : warningCount;
 
+  // Version comparison highlight
+  const diffStatus = useNodeDiffStatus(id);
+
   const handleDelete = (e: React.MouseEvent | React.KeyboardEvent) => {
     e.stopPropagation();
     deleteElements({ nodes: [{ id }] });
@@ -135,9 +151,19 @@ export const BaseNode = memo(function BaseNode({
         min-w-[180px] rounded-xl border-2 relative transition-all duration-200 group
         ${styles.bg} ${hasErrors ? "border-[#EF4444]/50" : styles.border}
         ${selected ? `ring-2 ring-[#22D3EE] ring-offset-2 ring-offset-[#0F172A] ${styles.glow}` : "shadow-[0_4px_12px_rgba(0,0,0,0.3)]"}
+        ${diffStatus === "added" ? "outline-2 outline-dashed outline-offset-4 outline-[#22D3EE]" : ""}
+        ${diffStatus === "changed" ? "outline-2 outline-dashed outline-offset-4 outline-[#FBBF24]" : ""}
         hover:${styles.glow}
       `}
     >
+      {/* Version comparison badge */}
+      {diffStatus && (
+        <div
+          className={`absolute -bottom-2.5 left-2 z-10 px-1.5 py-0.5 rounded-full text-[9px] font-bold shadow-lg ${diffStatus === "added" ? "bg-[#22D3EE] text-[#0F172A]" : "bg-[#FBBF24] text-[#0F172A]"}`}
+        >
+          {diffStatus === "added" ? "NEW" : "CHANGED"}
+        </div>
+      )}
       {/* Validation badge */}
       {(hasErrors || hasWarnings) && (
         <div
@@ -360,6 +386,26 @@ export const NodeIcons = {
       />
     </svg>
   ),
+  logic: (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4 6h6a6 6 0 010 12H4V6zm12 6h4"
+      />
+    </svg>
+  ),
+  macro: (
+    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M4 5a1 1 0 011-1h5a1 1 0 011 1v5a1 1 0 01-1 1H5a1 1 0 01-1-1V5zm9 0a1 1 0 011-1h5a1 1 0 011 1v5a1 1 0 01-1 1h-5a1 1 0 01-1-1V5zM4 14a1 1 0 011-1h5a1 1 0 011 1v5a1 1 0 01-1 1H5a1 1 0 01-1-1v-5zm9 0a1 1 0 011-1h5a1 1 0 011 1v5a1 1 0 01-1 1h-5a1 1 0 01-1-1v-5z"
+      />
+    </svg>
+  ),
   exit: (
     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
       <path
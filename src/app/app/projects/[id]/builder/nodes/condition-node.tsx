@@ -4,6 +4,7 @@ import { memo } from "react";
 import { Handle, Position } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
 import type { ConditionNodeData } from "@/types/builder";
+import { CONDITION_OPERAND_HANDLES } from "@/types/builder";
 import { BaseNode, NodeIcons } from "./base-node";
 
 type Props = NodeProps & { data: ConditionNodeData };
@@ -18,7 +19,15 @@ const OPERATOR_LABELS: Record<ConditionNodeData["conditionType"], string> = {
   CROSSES_BELOW: "Crosses Below",
 };
 
+function operandSummary(operand: ConditionNodeData["operandA"]): string {
+  if (operand?.source === "PRICE") {
+    return `${operand.priceField ?? "CLOSE"}${operand.timeframe ? ` ${operand.timeframe}` : ""}`;
+  }
+  return operand?.buffer ?? "Input";
+}
+
 export const ConditionNode = memo(function ConditionNode({ id, data, selected }: Props) {
+  const operandMode = data.compareTo === "OPERAND";
   return (
     <div className="relative">
       <BaseNode
@@ -27,7 +36,7 @@ export const ConditionNode = memo(function ConditionNode({ id, data, selected }:
         category="indicator"
         label={data.label}
         icon={NodeIcons.indicator}
-        inputHandles={1}
+        inputHandles={operandMode ? 0 : 1}
         outputHandles={0}
       >
         <div className="space-y-1">
@@ -35,16 +44,46 @@ export const ConditionNode = memo(function ConditionNode({ id, data, selected }:
             <span className="text-[#A1A1AA]">Operator:</span>
             <span className="font-medium">{OPERATOR_LABELS[data.conditionType]}</span>
           </div>
-          <div className="flex justify-between">
-            <span className="text-[#A1A1AA]">Threshold:</span>
-            <span className="font-medium">{data.threshold}</span>
-          </div>
+          {operandMode ? (
+            <div className="flex justify-between">
+              <span className="text-[#A1A1AA]">Compare:</span>
+              <span className="font-medium">
+                A[{data.operandA?.shift ?? 1}] vs B[{data.operandB?.shift ?? 1}]
+              </span>
+            </div>
+          ) : (
+            <div className="flex justify-between">
+              <span className="text-[#A1A1AA]">Threshold:</span>
+              <span className="font-medium">{data.threshold}</span>
+            </div>
+          )}
         </div>
         <div className="flex justify-between mt-2 text-[10px]">
           <span className="text-[#10B981] font-medium">True</span>
           <span className="text-[#EF4444] font-medium">False</span>
         </div>
       </BaseNode>
+      {/* Operand mode: two inputs, A (left) and B (right) */}
+      {operandMode && (
+        <>
+          <Handle
+            type="target"
+            position={Position.Top}
+            id={CONDITION_OPERAND_HANDLES.A}
+            title={`Operand A: ${operandSummary(data.operandA)}`}
+            className="!w-3 !h-3 !bg-[#6366F1] !border-2 !border-[#0F172A] hover:!bg-[#22D3EE] transition-colors duration-200"
+            style={{ left: "30%" }}
+          />
+          <Handle
+            type="target"
+            position={Position.Top}
+            id={CONDITION_OPERAND_HANDLES.B}
+            title={`Operand B: ${operandSummary(data.operandB)}`}
+            className="!w-3 !h-3 !bg-[#6366F1] !border-2 !border-[#0F172A] hover:!bg-[#22D3EE] transition-colors duration-200"
+            style={{ left: "70%" }}
+          />
+        </>
+      )}
       {/* Two output handles: True (left) and False (right) */}
       <Handle
         type="source"
@@ -0,0 +1,41 @@
+"use client";
+
+import { memo } from "react";
+import type { NodeProps } from "@xyflow/react";
+import type { FormulaNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "./base-node";
+
+type Props = NodeProps & { data: FormulaNodeData };
+
+const OPERATOR_LABELS: Record<FormulaNodeData["conditionType"], string> = {
+  GREATER_THAN: ">",
+  LESS_THAN: "<",
+  GREATER_EQUAL: ">=",
+  LESS_EQUAL: "<=",
+  EQUAL: "==",
+  CROSSES_ABOVE: "crosses above",
+  CROSSES_BELOW: "crosses below",
+};
+
+export const FormulaNode = memo(function FormulaNode({ id, data, selected }: Props) {
+  return (
+    <div className="relative">
+      <BaseNode
+        id={id}
+        selected={selected}
+        category="indicator"
+        label={data.label}
+        icon={NodeIcons.indicator}
+      />
+      {/* Expression and comparison summary (display only) */}
+      <div className="mt-1 px-2 py-1 rounded-lg border border-[rgba(79,70,229,0.25)] bg-[rgba(79,70,229,0.05)] text-[10px] max-w-[220px]">
+        <p className="font-mono text-[#22D3EE] truncate" title={data.expression}>
+          {data.expression || "—"}
+        </p>
+        <p className="text-[#A1A1AA]">
+          {OPERATOR_LABELS[data.conditionType]} {data.threshold}
+        </p>
+      </div>
+    </div>
+  );
+});
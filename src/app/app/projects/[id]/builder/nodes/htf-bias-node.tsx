@@ -0,0 +1,39 @@
+"use client";
+
+import { memo } from "react";
+import type { NodeProps } from "@xyflow/react";
+import type { HtfBiasMethod, HtfBiasNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "./base-node";
+
+type Props = NodeProps & { data: HtfBiasNodeData };
+
+function biasLabel(data: HtfBiasNodeData): string {
+  const labels: Record<HtfBiasMethod, string> = {
+    PRICE_VS_MA: `Close vs ${data.maMethod} ${data.period}`,
+    MA_SLOPE: `${data.maMethod} ${data.period} slope`,
+    MACD: `MACD(${data.fastPeriod},${data.slowPeriod}) vs 0`,
+    ADX_DI: `+DI vs -DI (${data.period})`,
+  };
+  return labels[data.biasMethod] ?? data.biasMethod;
+}
+
+export const HtfBiasNode = memo(function HtfBiasNode({ id, data, selected }: Props) {
+  const gated = [data.filterBuys && "Buys", data.filterSells && "Sells"].filter(Boolean);
+  return (
+    <BaseNode
+      id={id}
+      selected={selected}
+      category="timing"
+      label={data.label}
+      icon={NodeIcons.timing}
+      showGlobalBadge
+    >
+      <div className="text-xs text-zinc-400">
+        <div>
+          {data.timeframe}: {biasLabel(data)}
+        </div>
+        <div>{gated.length > 0 ? `Gates ${gated.join(" & ")}` : "Gates nothing"}</div>
+      </div>
+    </BaseNode>
+  );
+});
@@ -20,13 +20,18 @@ import { OBVNode } from "./indicators/obv-node";
 import { VWAPNode } from "./indicators/vwap-node";
 import { BBSqueezeNode } from "./indicators/bb-squeeze-node";
 import { VolumeFilterNode as VolumeFilterNodeComponent } from "./volume-filter-node";
+import { HtfBiasNode } from "./htf-bias-node";
 import { ConditionNode } from "./condition-node";
+import { FormulaNode } from "./formula-node";
 import { CandlestickPatternNode } from "./priceaction/candlestick-pattern-node";
 import { SupportResistanceNode } from "./priceaction/support-resistance-node";
 import { RangeBreakoutNode } from "./priceaction/range-breakout-node";
 import { OrderBlockNode } from "./priceaction/order-block-node";
 import { FairValueGapNode } from "./priceaction/fair-value-gap-node";
 import { MarketStructureNode } from "./priceaction/market-structure-node";
+import { LiquiditySweepNode } from "./priceaction/liquidity-sweep-node";
+import { EqualHighsLowsNode } from "./priceaction/equal-highs-lows-node";
+import { PivotPointsNode } from "./priceaction/pivot-points-node";
 import { PlaceBuyNode, PlaceSellNode } from "./position-sizing-node";
 import { StopLossNode } from "./stop-loss-node";
 import { TakeProfitNode } from "./take-profit-node";
@@ -42,12 +47,15 @@ import {
   MultiLevelTPNode,
 } from "./trademanagement";
 import { AlwaysNode } from "./always-node";
+import { LogicGateNode } from "./logic-gate-node";
+import { MacroNode } from "./macro-node";
 // Register all custom node types
 export const nodeTypes: NodeTypes = {
   "trading-session": TradingTimesNode,
   "max-spread": MaxSpreadNode,
   "volatility-filter": VolatilityFilterNode,
   "volume-filter": VolumeFilterNodeComponent,
+  "htf-bias": HtfBiasNode,
   "friday-close": FridayCloseNode,
   "news-filter": NewsFilterNode,
   "custom-times": TradingTimesNode, // backwards compat: legacy custom-times nodes render as TradingTimesNode
@@ -66,12 +74,16 @@ export const nodeTypes: NodeTypes = {
   vwap: VWAPNode,
   "bb-squeeze": BBSqueezeNode,
   condition: ConditionNode,
+  formula: FormulaNode,
   "candlestick-pattern": CandlestickPatternNode,
   "support-resistance": SupportResistanceNode,
   "range-breakout": RangeBreakoutNode,
   "order-block": OrderBlockNode,
   "fair-value-gap": FairValueGapNode,
   "market-structure": MarketStructureNode,
+  "liquidity-sweep": LiquiditySweepNode,
+  "equal-highs-lows": EqualHighsLowsNode,
+  "pivot-points": PivotPointsNode,
   "place-buy": PlaceBuyNode,
   "place-sell": PlaceSellNode,
   "stop-loss": StopLossNode,
@@ -84,6 +96,10 @@ export const nodeTypes: NodeTypes = {
   "partial-close": PartialCloseNode,
   "lock-profit": LockProfitNode,
   "multi-level-tp": MultiLevelTPNode,
+  "and-gate": LogicGateNode,
+  "or-gate": LogicGateNode,
+  "not-gate": LogicGateNode,
+  macro: MacroNode,
 };
 
 // Re-export individual nodes for direct imports
@@ -92,6 +108,7 @@ export {
   MaxSpreadNode,
   VolatilityFilterNode,
   VolumeFilterNodeComponent as VolumeFilterNode,
+  HtfBiasNode,
   FridayCloseNode,
   NewsFilterNode,
   MovingAverageNode,
@@ -108,12 +125,16 @@ export {
   VWAPNode,
   BBSqueezeNode,
   ConditionNode,
+  FormulaNode,
   CandlestickPatternNode,
   SupportResistanceNode,
   RangeBreakoutNode,
   OrderBlockNode,
   FairValueGapNode,
   MarketStructureNode,
+  LiquiditySweepNode,
+  EqualHighsLowsNode,
+  PivotPointsNode,
   PlaceBuyNode,
   PlaceSellNode,
   StopLossNode,
@@ -127,4 +148,6 @@ export {
   LockProfitNode,
   MultiLevelTPNode,
   AlwaysNode,
+  LogicGateNode,
+  MacroNode,
 };
@@ -0,0 +1,28 @@
+"use client";
+
+import { memo } from "react";
+import type { NodeProps } from "@xyflow/react";
+import type { LogicGateNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "./base-node";
+
+type Props = NodeProps & { data: LogicGateNodeData };
+
+const GATE_DESCRIPTIONS: Record<LogicGateNodeData["logicType"], string> = {
+  AND: "All inputs must be true",
+  OR: "Any input may be true",
+  NOT: "Inverts its input",
+};
+
+export const LogicGateNode = memo(function LogicGateNode({ id, data, selected }: Props) {
+  return (
+    <BaseNode
+      id={id}
+      selected={selected}
+      category="logic"
+      label={data.label}
+      icon={NodeIcons.logic}
+    >
+      <div className="text-xs text-zinc-400">{GATE_DESCRIPTIONS[data.logicType]}</div>
+    </BaseNode>
+  );
+});
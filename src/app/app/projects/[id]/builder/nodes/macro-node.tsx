@@ -0,0 +1,52 @@
+"use client";
+
+import { memo } from "react";
+import { useReactFlow } from "@xyflow/react";
+import type { NodeProps } from "@xyflow/react";
+import type { MacroNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "./base-node";
+
+type Props = NodeProps & { data: MacroNodeData };
+
+export const MacroNode = memo(function MacroNode({ id, data, selected }: Props) {
+  const { updateNodeData } = useReactFlow();
+  const innerNodes = data.definition?.nodes ?? [];
+
+  return (
+    <div className="relative">
+      <BaseNode
+        id={id}
+        selected={selected}
+        category="macro"
+        label={data.label}
+        icon={NodeIcons.macro}
+      />
+      {/* Collapsible list of the blocks inside the macro (display only) */}
+      <div className="mt-1 rounded-lg border border-[rgba(45,212,191,0.25)] bg-[rgba(45,212,191,0.05)] text-[10px]">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            updateNodeData(id, { expanded: !data.expanded });
+          }}
+          className="nodrag w-full flex items-center justify-between px-2 py-1 text-[#2DD4BF] hover:text-white transition-colors duration-150"
+          aria-expanded={!!data.expanded}
+        >
+          <span>
+            v{data.macroVersion} · {innerNodes.length} block{innerNodes.length !== 1 ? "s" : ""}
+          </span>
+          <span>{data.expanded ? "Hide" : "Show"}</span>
+        </button>
+        {data.expanded && (
+          <ul className="px-2 pb-1.5 space-y-0.5">
+            {innerNodes.map((n) => (
+              <li key={n.id} className="flex justify-between gap-2 text-[#A1A1AA]">
+                <span className="truncate">{n.data.label}</span>
+                <span className="text-[#7C8DB0]">{n.type}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+});
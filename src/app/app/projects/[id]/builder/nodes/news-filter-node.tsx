@@ -24,6 +24,10 @@ export const NewsFilterNode = memo(function NewsFilterNode({ id, data, selected
     >
       <div className="text-xs text-zinc-400">
         ±{data.hoursBefore}/{data.hoursAfter}h | {impacts.join(", ") || "None"}
+        {data.currencyMode === "INCLUDE" && ` | ${data.currencies?.join(", ") || "None"}`}
+        {data.currencyMode === "EXCLUDE" &&
+          (data.currencies?.length ?? 0) > 0 &&
+          ` | not ${data.currencies?.join(", ")}`}
       </div>
     </BaseNode>
   );
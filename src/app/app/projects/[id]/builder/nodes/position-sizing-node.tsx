@@ -2,7 +2,7 @@
 
 import { memo } from "react";
 import type { NodeProps } from "@xyflow/react";
-import type { PlaceBuyNodeData, PlaceSellNodeData } from "@/types/builder";
+import type { PlaceBuyNodeData, PlaceSellNodeData, PositionSizingMethod } from "@/types/builder";
 import { BaseNode } from "./base-node";
 
 function formatSL(data: Record<string, unknown>): string {
@@ -23,11 +23,32 @@ function formatTP(data: Record<string, unknown>): string {
   return "\u2014";
 }
 
-const methodLabels = {
+const methodLabels: Record<PositionSizingMethod, string> = {
   FIXED_LOT: "Fixed Lot",
   RISK_PERCENT: "Risk %",
+  VOLATILITY_TARGET: "Volatility Target",
+  FIXED_FRACTIONAL_STEP: "Stepped Risk %",
+  KELLY: "Kelly",
+  FIXED_MONEY: "Fixed Money",
 };
 
+function formatSizing(data: PlaceBuyNodeData | PlaceSellNodeData): string {
+  switch (data.method) {
+    case "FIXED_LOT":
+      return `${data.fixedLot} lots`;
+    case "RISK_PERCENT":
+      return `${data.riskPercent}%`;
+    case "VOLATILITY_TARGET":
+      return `${data.volTargetPercent ?? 1}% / ATR(${data.volAtrPeriod ?? 14})`;
+    case "FIXED_FRACTIONAL_STEP":
+      return `${data.riskPercent}% per ${data.equityStep ?? 1000}`;
+    case "KELLY":
+      return `${data.kellyFraction ?? 0.5}x, max ${data.kellyCapPercent ?? 2}%`;
+    case "FIXED_MONEY":
+      return `${data.riskAmount ?? 100} per trade`;
+  }
+}
+
 const orderTypeLabels: Record<string, string> = {
   MARKET: "Market",
   STOP: "Stop",
@@ -37,15 +58,6 @@ const orderTypeLabels: Record<string, string> = {
 type PlaceBuyProps = NodeProps & { data: PlaceBuyNodeData };
 
 export const PlaceBuyNode = memo(function PlaceBuyNode({ id, data, selected }: PlaceBuyProps) {
-  const getValue = () => {
-    switch (data.method) {
-      case "FIXED_LOT":
-        return `${data.fixedLot} lots`;
-      case "RISK_PERCENT":
-        return `${data.riskPercent}%`;
-    }
-  };
-
   return (
     <BaseNode
       id={id}
@@ -79,7 +91,7 @@ export const PlaceBuyNode = memo(function PlaceBuyNode({ id, data, selected }: P
         </div>
         <div className="flex justify-between">
           <span className="text-zinc-500">Value:</span>
-          <span className="font-medium text-green-400">{getValue()}</span>
+          <span className="font-medium text-green-400">{formatSizing(data)}</span>
         </div>
         <div className="flex justify-between">
           <span className="text-zinc-500">Range:</span>
@@ -107,15 +119,6 @@ export const PlaceBuyNode = memo(function PlaceBuyNode({ id, data, selected }: P
 type PlaceSellProps = NodeProps & { data: PlaceSellNodeData };
 
 export const PlaceSellNode = memo(function PlaceSellNode({ id, data, selected }: PlaceSellProps) {
-  const getValue = () => {
-    switch (data.method) {
-      case "FIXED_LOT":
-        return `${data.fixedLot} lots`;
-      case "RISK_PERCENT":
-        return `${data.riskPercent}%`;
-    }
-  };
-
   return (
     <BaseNode
       id={id}
@@ -151,7 +154,7 @@ export const PlaceSellNode = memo(function PlaceSellNode({ id, data, selected }:
         </div>
         <div className="flex justify-between">
           <span className="text-zinc-500">Value:</span>
-          <span className="font-medium text-red-400">{getValue()}</span>
+          <span className="font-medium text-red-400">{formatSizing(data)}</span>
         </div>
         <div className="flex justify-between">
           <span className="text-zinc-500">Range:</span>
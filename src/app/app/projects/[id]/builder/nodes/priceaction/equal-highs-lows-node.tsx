@@ -0,0 +1,37 @@
+"use client";
+
+import { memo } from "react";
+import type { NodeProps } from "@xyflow/react";
+import type { EqualHighsLowsNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "../base-node";
+
+type Props = NodeProps & { data: EqualHighsLowsNodeData };
+
+export const EqualHighsLowsNode = memo(function EqualHighsLowsNode({ id, data, selected }: Props) {
+  return (
+    <BaseNode
+      id={id}
+      selected={selected}
+      category="priceaction"
+      label={data.label}
+      icon={NodeIcons.priceaction}
+    >
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Timeframe:</span>
+          <span className="font-medium">{data.timeframe}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Tolerance:</span>
+          <span className="font-medium">{data.tolerancePips} pips</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Signal:</span>
+          <span className="font-medium">
+            {data.signalType === "BREAKOUT" ? "Breakout" : "Sweep"}
+          </span>
+        </div>
+      </div>
+    </BaseNode>
+  );
+});
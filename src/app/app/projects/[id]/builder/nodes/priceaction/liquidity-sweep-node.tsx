@@ -0,0 +1,35 @@
+"use client";
+
+import { memo } from "react";
+import type { NodeProps } from "@xyflow/react";
+import type { LiquiditySweepNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "../base-node";
+
+type Props = NodeProps & { data: LiquiditySweepNodeData };
+
+export const LiquiditySweepNode = memo(function LiquiditySweepNode({ id, data, selected }: Props) {
+  return (
+    <BaseNode
+      id={id}
+      selected={selected}
+      category="priceaction"
+      label={data.label}
+      icon={NodeIcons.priceaction}
+    >
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Timeframe:</span>
+          <span className="font-medium">{data.timeframe}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Swing:</span>
+          <span className="font-medium">{data.swingStrength} bars</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Min sweep:</span>
+          <span className="font-medium">{data.minSweepPips} pips</span>
+        </div>
+      </div>
+    </BaseNode>
+  );
+});
@@ -0,0 +1,45 @@
+"use client";
+
+import { memo } from "react";
+import type { NodeProps } from "@xyflow/react";
+import type { PivotPointsNodeData } from "@/types/builder";
+import { BaseNode, NodeIcons } from "../base-node";
+
+const PIVOT_TYPE_LABELS: Record<PivotPointsNodeData["pivotType"], string> = {
+  CLASSIC: "Classic",
+  CAMARILLA: "Camarilla",
+  FIBONACCI: "Fibonacci",
+};
+
+type Props = NodeProps & { data: PivotPointsNodeData };
+
+export const PivotPointsNode = memo(function PivotPointsNode({ id, data, selected }: Props) {
+  return (
+    <BaseNode
+      id={id}
+      selected={selected}
+      category="priceaction"
+      label={data.label}
+      icon={NodeIcons.priceaction}
+    >
+      <div className="space-y-1">
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Type:</span>
+          <span className="font-medium">{PIVOT_TYPE_LABELS[data.pivotType]}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Level:</span>
+          <span className="font-medium">
+            R{data.pivotLevel} / S{data.pivotLevel}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-zinc-500">Entry:</span>
+          <span className="font-medium">
+            {data.entryMode === "BREAKOUT" ? "Breakout" : "Bounce"}
+          </span>
+        </div>
+      </div>
+    </BaseNode>
+  );
+});
@@ -5,6 +5,9 @@ import type {
   RangeSession,
   BreakoutDirection,
   EntryMode,
+  EqualLevelsSignal,
+  PivotType,
+  PivotEntryMode,
   Timeframe,
 } from "@/types/builder";
 
@@ -84,6 +87,28 @@ export const ENTRY_MODE_OPTIONS: { value: EntryMode; label: string }[] = [
   { value: "AFTER_RETEST", label: "After Retest" },
 ];
 
+export const EQUAL_LEVELS_SIGNAL_OPTIONS: { value: EqualLevelsSignal; label: string }[] = [
+  { value: "SWEEP", label: "Sweep (wick through, close back)" },
+  { value: "BREAKOUT", label: "Breakout (close beyond)" },
+];
+
+export const PIVOT_TYPE_OPTIONS: { value: PivotType; label: string }[] = [
+  { value: "CLASSIC", label: "Classic" },
+  { value: "CAMARILLA", label: "Camarilla" },
+  { value: "FIBONACCI", label: "Fibonacci" },
+];
+
+export const PIVOT_LEVEL_OPTIONS: { value: string; label: string }[] = [
+  { value: "1", label: "R1 / S1" },
+  { value: "2", label: "R2 / S2" },
+  { value: "3", label: "R3 / S3" },
+];
+
+export const PIVOT_ENTRY_MODE_OPTIONS: { value: PivotEntryMode; label: string }[] = [
+  { value: "BOUNCE", label: "Bounce (fade the level)" },
+  { value: "BREAKOUT", label: "Breakout (close through the level)" },
+];
+
 export const TRADING_SESSION_OPTIONS_SHORT: { value: TradingSession; label: string }[] = [
   { value: "LONDON", label: "London" },
   { value: "NEW_YORK", label: "New York" },
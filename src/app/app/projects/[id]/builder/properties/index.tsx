@@ -13,6 +13,7 @@ import type {
   MaxSpreadNodeData,
   VolatilityFilterNodeData,
   VolumeFilterNodeData,
+  HtfBiasNodeData,
   FridayCloseFilterNodeData,
   NewsFilterNodeData,
   MovingAverageNodeData,
@@ -28,6 +29,9 @@ import type {
   OrderBlockNodeData,
   FairValueGapNodeData,
   MarketStructureNodeData,
+  LiquiditySweepNodeData,
+  EqualHighsLowsNodeData,
+  PivotPointsNodeData,
   PlaceBuyNodeData,
   PlaceSellNodeData,
   CloseConditionNodeData,
@@ -42,11 +46,14 @@ import type {
   VWAPNodeData,
   BBSqueezeNodeData,
   ConditionNodeData,
+  FormulaNodeData,
   TimeExitNodeData,
   GridPyramidNodeData,
   MultiLevelTPNodeData,
   StopLossNodeData,
   TakeProfitNodeData,
+  LogicGateNodeData,
+  MacroNodeData,
 } from "@/types/builder";
 
 import {
@@ -56,6 +63,7 @@ import {
   MaxSpreadFields,
   VolatilityFilterFields,
   VolumeFilterFields,
+  HtfBiasFields,
   FridayCloseFields,
   NewsFilterFields,
 } from "./timing-fields";
@@ -74,6 +82,7 @@ import {
   VWAPFields,
   BBSqueezeFields,
   ConditionFields,
+  FormulaFields,
 } from "./indicator-fields";
 import {
   CandlestickPatternFields,
@@ -82,6 +91,9 @@ import {
   OrderBlockFields,
   FairValueGapFields,
   MarketStructureFields,
+  LiquiditySweepFields,
+  EqualHighsLowsFields,
+  PivotPointsFields,
 } from "./price-action-fields";
 import {
   PlaceBuyFields,
@@ -99,6 +111,8 @@ import {
   StopLossFields,
   TakeProfitFields,
 } from "./trade-mgmt-fields";
+import { LogicGateFields } from "./logic-fields";
+import { MacroFields } from "./macro-fields";
 import { StrategySettingsPanel } from "../strategy-settings-panel";
 import { OptimizationVisibleContext } from "./shared";
 import type { BuildJsonSettings } from "@/types/builder";
@@ -350,7 +364,7 @@ export const PropertiesPanel = memo(function PropertiesPanel({
 
         {/* Node-specific fields */}
         <OptimizationVisibleContext.Provider value={showOptimization}>
-          <NodeFields data={data} onChange={handleChange} />
+          <NodeFields data={data} nodeId={selectedNode.id} onChange={handleChange} />
         </OptimizationVisibleContext.Provider>
 
         {/* Optimization toggle */}
@@ -392,9 +406,11 @@ export const PropertiesPanel = memo(function PropertiesPanel({
 
 function NodeFields({
   data,
+  nodeId,
   onChange,
 }: {
   data: BuilderNodeData;
+  nodeId: string;
   onChange: (updates: Partial<BuilderNodeData>) => void;
 }) {
   // Timing nodes
@@ -420,6 +436,8 @@ function NodeFields({
         );
       case "volume-filter":
         return <VolumeFilterFields data={data as VolumeFilterNodeData} onChange={onChange} />;
+      case "htf-bias":
+        return <HtfBiasFields data={data as HtfBiasNodeData} onChange={onChange} />;
       case "friday-close":
         return <FridayCloseFields data={data as FridayCloseFilterNodeData} onChange={onChange} />;
       case "news-filter":
@@ -457,7 +475,11 @@ function NodeFields({
       case "bb-squeeze":
         return <BBSqueezeFields data={data as BBSqueezeNodeData} onChange={onChange} />;
       case "condition":
-        return <ConditionFields data={data as ConditionNodeData} onChange={onChange} />;
+        return (
+          <ConditionFields data={data as ConditionNodeData} nodeId={nodeId} onChange={onChange} />
+        );
+      case "formula":
+        return <FormulaFields data={data as FormulaNodeData} nodeId={nodeId} onChange={onChange} />;
     }
   }
 
@@ -480,6 +502,12 @@ function NodeFields({
         return <FairValueGapFields data={data as FairValueGapNodeData} onChange={onChange} />;
       case "market-structure":
         return <MarketStructureFields data={data as MarketStructureNodeData} onChange={onChange} />;
+      case "liquidity-sweep":
+        return <LiquiditySweepFields data={data as LiquiditySweepNodeData} onChange={onChange} />;
+      case "equal-highs-lows":
+        return <EqualHighsLowsFields data={data as EqualHighsLowsNodeData} onChange={onChange} />;
+      case "pivot-points":
+        return <PivotPointsFields data={data as PivotPointsNodeData} onChange={onChange} />;
     }
   }
 
@@ -525,5 +553,15 @@ function NodeFields({
     }
   }
 
+  // Logic gates
+  if ("logicType" in data) {
+    return <LogicGateFields data={data as LogicGateNodeData} onChange={onChange} />;
+  }
+
+  // Macro blocks
+  if ("macroType" in data) {
+    return <MacroFields data={data as MacroNodeData} onChange={onChange} />;
+  }
+
   return null;
 }
@@ -1,7 +1,10 @@
 "use client";
 
+import { useEdges, useNodes } from "@xyflow/react";
 import { SelectField, NumberField } from "../components/form-fields";
 import type {
+  BuilderEdge,
+  BuilderNode,
   MovingAverageNodeData,
   RSINodeData,
   MACDNodeData,
@@ -20,8 +23,19 @@ import type {
   BBSqueezeNodeData,
   ConditionNodeData,
   ConditionOperator,
+  ConditionCompareTo,
+  ConditionOperand,
+  ConditionOperandId,
+  ConditionOperandSource,
+  ConditionPriceField,
+  FormulaNodeData,
   Timeframe,
 } from "@/types/builder";
+import {
+  DEFAULT_CONDITION_OPERAND,
+  INDICATOR_OUTPUT_BUFFERS,
+  getConditionOperandSourceId,
+} from "@/types/builder";
 import {
   SIGNAL_MODE_OPTIONS,
   TIMEFRAME_OPTIONS,
@@ -30,6 +44,7 @@ import {
   STO_PRICE_FIELD_OPTIONS,
 } from "./constants";
 import { OptimizableFieldCheckbox, FieldError } from "./shared";
+import { checkFormula, getFormulaInputs, type FormulaError } from "@/lib/mql5-generator/formula";
 
 export function MovingAverageFields({
   data,
@@ -687,37 +702,284 @@ const CONDITION_OPERATOR_OPTIONS: { value: ConditionOperator; label: string }[]
   { value: "CROSSES_BELOW", label: "Crosses below" },
 ];
 
+const COMPARE_TO_OPTIONS: { value: ConditionCompareTo; label: string }[] = [
+  { value: "THRESHOLD", label: "Indicator vs threshold" },
+  { value: "OPERAND", label: "Operand A vs operand B" },
+];
+
+const OPERAND_SOURCE_OPTIONS: { value: ConditionOperandSource; label: string }[] = [
+  { value: "INDICATOR", label: "Connected indicator" },
+  { value: "PRICE", label: "Price" },
+];
+
+const PRICE_FIELD_OPTIONS: { value: ConditionPriceField; label: string }[] = [
+  { value: "CLOSE", label: "Close" },
+  { value: "OPEN", label: "Open" },
+  { value: "HIGH", label: "High" },
+  { value: "LOW", label: "Low" },
+];
+
+const OPERAND_TIMEFRAME_OPTIONS: { value: Timeframe | ""; label: string }[] = [
+  { value: "", label: "Chart timeframe" },
+  ...TIMEFRAME_OPTIONS,
+];
+
+function OperandFields({
+  id,
+  operand,
+  sourceType,
+  onChange,
+}: {
+  id: ConditionOperandId;
+  operand: ConditionOperand;
+  /** indicatorType of the block wired into this operand's input */
+  sourceType?: string;
+  onChange: (operand: ConditionOperand) => void;
+}) {
+  const buffers = sourceType ? INDICATOR_OUTPUT_BUFFERS[sourceType] : undefined;
+  return (
+    <div className="space-y-2 border border-[rgba(79,70,229,0.2)] rounded-lg p-2">
+      <p className="text-xs font-medium text-[#FAFAFA]">Operand {id}</p>
+      <SelectField
+        label="Source"
+        value={operand.source}
+        options={OPERAND_SOURCE_OPTIONS}
+        onChange={(v) => onChange({ ...operand, source: v as ConditionOperandSource })}
+      />
+      {operand.source === "PRICE" ? (
+        <>
+          <SelectField
+            label="Price"
+            value={operand.priceField ?? "CLOSE"}
+            options={PRICE_FIELD_OPTIONS}
+            onChange={(v) => onChange({ ...operand, priceField: v as ConditionPriceField })}
+          />
+          <SelectField
+            label="Timeframe"
+            value={operand.timeframe ?? ""}
+            options={OPERAND_TIMEFRAME_OPTIONS}
+            onChange={(v) => onChange({ ...operand, timeframe: (v || undefined) as Timeframe })}
+          />
+        </>
+      ) : buffers ? (
+        <SelectField
+          label="Buffer"
+          value={operand.buffer && buffers.includes(operand.buffer) ? operand.buffer : buffers[0]}
+          options={buffers.map((b) => ({ value: b, label: b }))}
+          onChange={(v) => onChange({ ...operand, buffer: v })}
+          tooltip="Which line of the connected indicator to read"
+        />
+      ) : (
+        <FieldError
+          message={
+            sourceType
+              ? "This block has no line a condition can read. Connect a standard indicator."
+              : `Connect an indicator to input ${id} of the condition block.`
+          }
+        />
+      )}
+      <NumberField
+        label="Bar Shift"
+        value={operand.shift}
+        min={0}
+        max={500}
+        step={1}
+        onChange={(v) => onChange({ ...operand, shift: v })}
+        tooltip="Bars back on the operand's own timeframe. 0 = forming bar (repaints), 1 = last closed bar."
+      />
+    </div>
+  );
+}
+
 export function ConditionFields({
   data,
+  nodeId,
   onChange,
 }: {
   data: ConditionNodeData;
+  nodeId: string;
   onChange: (updates: Partial<ConditionNodeData>) => void;
 }) {
+  const edges = useEdges();
+  const nodes = useNodes();
+  const sourceType = (id: ConditionOperandId): string | undefined => {
+    const sourceId = getConditionOperandSourceId(nodeId, id, edges);
+    const source = nodes.find((n) => n.id === sourceId);
+    return source ? ((source.data as Record<string, unknown>).indicatorType as string) : undefined;
+  };
+  const compareTo = data.compareTo ?? "THRESHOLD";
+
   return (
     <>
+      <SelectField
+        label="Compare"
+        value={compareTo}
+        options={COMPARE_TO_OPTIONS}
+        onChange={(v) => onChange({ compareTo: v as ConditionCompareTo })}
+        tooltip="Compare one indicator against a fixed number, or two values against each other (e.g. fast MA vs slow MA)"
+      />
       <SelectField
         label="Condition"
         value={data.conditionType}
         options={CONDITION_OPERATOR_OPTIONS}
         onChange={(v) => onChange({ conditionType: v as ConditionOperator })}
-        tooltip="How to compare the connected indicator value against your threshold"
+        tooltip={
+          compareTo === "OPERAND"
+            ? "How operand A compares to operand B"
+            : "How to compare the connected indicator value against your threshold"
+        }
       />
-      <NumberField
-        label="Threshold"
-        value={data.threshold}
-        min={-999999}
-        max={999999}
-        step={0.1}
-        onChange={(v) => onChange({ threshold: v })}
-        tooltip="The value to compare against (e.g. RSI > 70, price > 1.2000)"
+      {compareTo === "OPERAND" ? (
+        <>
+          <OperandFields
+            id="A"
+            operand={data.operandA ?? DEFAULT_CONDITION_OPERAND}
+            sourceType={sourceType("A")}
+            onChange={(operandA) => onChange({ operandA })}
+          />
+          <OperandFields
+            id="B"
+            operand={data.operandB ?? DEFAULT_CONDITION_OPERAND}
+            sourceType={sourceType("B")}
+            onChange={(operandB) => onChange({ operandB })}
+          />
+          <div
+            className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+            role="note"
+          >
+            Connect indicators to the A (left) and B (right) inputs. Each operand is read on its own
+            timeframe, so an H1 line can be compared with an H4 line.
+          </div>
+        </>
+      ) : (
+        <>
+          <NumberField
+            label="Threshold"
+            value={data.threshold}
+            min={-999999}
+            max={999999}
+            step={0.1}
+            onChange={(v) => onChange({ threshold: v })}
+            tooltip="The value to compare against (e.g. RSI > 70, price > 1.2000)"
+          />
+          <div
+            className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+            role="note"
+          >
+            Connect an indicator block above. The condition compares the indicator value against
+            your threshold and routes to the True or False output.
+          </div>
+        </>
+      )}
+    </>
+  );
+}
+
+/** The formula with the error's span highlighted; an error at the end gets a marker */
+function FormulaErrorSource({ source, error }: { source: string; error: FormulaError }) {
+  const end = Math.max(error.end, error.start + 1);
+  return (
+    <pre className="mt-1.5 px-2 py-1.5 text-[11px] font-mono whitespace-pre-wrap break-all bg-[#0F172A] border border-[rgba(239,68,68,0.3)] rounded text-[#A1A1AA]">
+      {source.slice(0, error.start)}
+      <span className="text-[#EF4444] underline decoration-wavy">
+        {source.slice(error.start, end) || "\u2038"}
+      </span>
+      {source.slice(end)}
+    </pre>
+  );
+}
+
+export function FormulaFields({
+  data,
+  nodeId,
+  onChange,
+}: {
+  data: FormulaNodeData;
+  nodeId: string;
+  onChange: (updates: Partial<FormulaNodeData>) => void;
+}) {
+  const edges = useEdges();
+  const nodes = useNodes();
+  const inputs = getFormulaInputs(nodeId, nodes as BuilderNode[], edges as BuilderEdge[]);
+  const expression = data.expression ?? "";
+  const result = checkFormula(expression, inputs);
+
+  return (
+    <>
+      <div>
+        <label className="block text-xs font-medium text-[#FAFAFA] mb-1">
+          Formula
+          <textarea
+            value={expression}
+            onChange={(e) => {
+              e.stopPropagation();
+              onChange({ expression: e.target.value });
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            spellCheck={false}
+            rows={3}
+            aria-invalid={!result.ok}
+            className="mt-1 w-full px-3 py-2 text-sm font-mono bg-[#1E293B] border border-[rgba(79,70,229,0.3)] rounded-lg text-white focus:ring-2 focus:ring-[#22D3EE] focus:border-transparent focus:outline-none transition-all duration-200 resize-y"
+          />
+        </label>
+        {!result.ok && (
+          <>
+            <FormulaErrorSource source={expression} error={result.errors[0]} />
+            {result.errors.map((error, i) => (
+              <FieldError key={i} message={`Column ${error.start + 1}: ${error.message}`} />
+            ))}
+          </>
+        )}
+      </div>
+      <div className="text-xs text-[#A1A1AA] space-y-0.5">
+        <p className="font-medium text-[#FAFAFA]">Inputs</p>
+        {inputs.length === 0 ? (
+          <p className="text-[#7C8DB0]">Connect indicator blocks to use them as in1, in2, ...</p>
+        ) : (
+          inputs.map((input) => (
+            <p key={input.nodeId}>
+              <span className="font-mono text-[#22D3EE]">{input.name}</span> = {input.label}
+              {input.buffers.length > 1 && (
+                <span className="text-[#7C8DB0]">
+                  {" "}
+                  ({input.buffers.map((b) => `${input.name}.${b}`).join(", ")})
+                </span>
+              )}
+            </p>
+          ))
+        )}
+      </div>
+      <SelectField
+        label="Condition"
+        value={data.conditionType}
+        options={CONDITION_OPERATOR_OPTIONS}
+        onChange={(v) => onChange({ conditionType: v as ConditionOperator })}
+        tooltip="How to compare the formula value against your threshold"
+      />
+      <div>
+        <NumberField
+          label="Threshold"
+          value={data.threshold}
+          min={-999999}
+          max={999999}
+          step={0.1}
+          onChange={(v) => onChange({ threshold: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="threshold" data={data} onChange={onChange} />
+      </div>
+      <SelectField
+        label="Signal Mode"
+        value={data.signalMode ?? "every_tick"}
+        options={[...SIGNAL_MODE_OPTIONS]}
+        onChange={(v) => onChange({ signalMode: v as FormulaNodeData["signalMode"] })}
       />
       <div
         className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
         role="note"
       >
-        Connect an indicator block above. The condition compares the indicator value against your
-        threshold and routes to the True or False output.
+        Use + - * /, min, max, abs and if(condition, a, b) with open, high, low, close, pip and the
+        connected inputs. Add a bar offset in brackets: close[1] is the previous bar, in1[2] two
+        bars back on the input&apos;s own timeframe.
       </div>
     </>
   );
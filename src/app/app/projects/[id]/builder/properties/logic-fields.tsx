@@ -0,0 +1,27 @@
+"use client";
+
+import type { LogicGateNodeData } from "@/types/builder";
+
+const GATE_NOTES: Record<LogicGateNodeData["logicType"], string> = {
+  AND: "True only when every connected condition is true. Connect indicators, price action or other gates as inputs, and connect the output to Buy/Sell or another gate.",
+  OR: "True when at least one connected condition is true. Connect indicators, price action or other gates as inputs, and connect the output to Buy/Sell or another gate.",
+  NOT: "Inverts a single connected condition. Connect one indicator, price action block or gate as the input.",
+};
+
+export function LogicGateFields({
+  data,
+  onChange,
+}: {
+  data: LogicGateNodeData;
+  onChange: (updates: Partial<LogicGateNodeData>) => void;
+}) {
+  void onChange; // nothing to configure
+  return (
+    <div
+      className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+      role="note"
+    >
+      {GATE_NOTES[data.logicType]} Conditions wired into a gate are evaluated only through it.
+    </div>
+  );
+}
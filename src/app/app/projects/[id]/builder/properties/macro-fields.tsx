@@ -0,0 +1,78 @@
+"use client";
+
+import type { MacroNodeData } from "@/types/builder";
+import { resolveMacroParams } from "@/lib/mql5-generator/macros";
+import { NumberField } from "../components/form-fields";
+import { ToggleField } from "./shared";
+
+export function MacroFields({
+  data,
+  onChange,
+}: {
+  data: MacroNodeData;
+  onChange: (updates: Partial<MacroNodeData>) => void;
+}) {
+  const parameters = data.definition?.parameters ?? [];
+  const values = resolveMacroParams(data);
+  const setParam = (key: string, value: number | string | boolean) =>
+    onChange({ params: { ...data.params, [key]: value } });
+
+  return (
+    <>
+      <div
+        className="text-xs text-[#A1A1AA] bg-[rgba(45,212,191,0.08)] border border-[rgba(45,212,191,0.2)] p-3 rounded-lg"
+        role="note"
+      >
+        {data.macroName} v{data.macroVersion} is expanded into its{" "}
+        {data.definition?.nodes.length ?? 0} blocks on export. Saving a new version of the macro
+        does not change this block.
+      </div>
+      {parameters.length === 0 && (
+        <p className="text-xs text-[#7C8DB0]">This macro exposes no parameters.</p>
+      )}
+      {parameters.map((p) => {
+        const value = values[p.key];
+        if (typeof value === "boolean") {
+          return (
+            <ToggleField
+              key={p.key}
+              label={p.label}
+              checked={value}
+              onChange={(v) => setParam(p.key, v)}
+            />
+          );
+        }
+        if (typeof value === "number") {
+          return (
+            <NumberField
+              key={p.key}
+              label={p.label}
+              value={value}
+              min={-1_000_000}
+              max={1_000_000}
+              step={Number.isInteger(value) ? 1 : 0.1}
+              onChange={(v) => setParam(p.key, v)}
+            />
+          );
+        }
+        return (
+          <div key={p.key}>
+            <label className="block text-xs font-medium text-[#FAFAFA] mb-1">
+              {p.label}
+              <input
+                type="text"
+                value={String(value ?? "")}
+                onChange={(e) => {
+                  e.stopPropagation();
+                  setParam(p.key, e.target.value);
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="mt-1 w-full px-3 py-2 text-sm bg-[#1E293B] border border-[rgba(79,70,229,0.3)] rounded-lg text-white focus:ring-2 focus:ring-[#22D3EE] focus:border-transparent focus:outline-none transition-all duration-200"
+              />
+            </label>
+          </div>
+        );
+      })}
+    </>
+  );
+}
@@ -8,11 +8,17 @@ import type {
   OrderBlockNodeData,
   FairValueGapNodeData,
   MarketStructureNodeData,
+  LiquiditySweepNodeData,
+  EqualHighsLowsNodeData,
+  PivotPointsNodeData,
   CandlestickPattern,
   RangeType,
   RangeSession,
   BreakoutDirection,
   EntryMode,
+  EqualLevelsSignal,
+  PivotType,
+  PivotEntryMode,
   Timeframe,
 } from "@/types/builder";
 import {
@@ -23,8 +29,18 @@ import {
   RANGE_SESSION_OPTIONS,
   BREAKOUT_DIRECTION_OPTIONS,
   ENTRY_MODE_OPTIONS,
+  EQUAL_LEVELS_SIGNAL_OPTIONS,
+  PIVOT_TYPE_OPTIONS,
+  PIVOT_LEVEL_OPTIONS,
+  PIVOT_ENTRY_MODE_OPTIONS,
 } from "./constants";
-import { OptimizableFieldCheckbox, FieldWarning, AdvancedToggleSection } from "./shared";
+import {
+  OptimizableFieldCheckbox,
+  FieldWarning,
+  AdvancedToggleSection,
+  PendingExpiryField,
+  ToggleField,
+} from "./shared";
 
 export function CandlestickPatternFields({
   data,
@@ -318,6 +334,17 @@ export function RangeBreakoutFields({
         <OptimizableFieldCheckbox fieldName="bufferPips" data={data} onChange={onChange} />
       </div>
 
+      <PendingExpiryField data={data} fallback="GTC" onChange={onChange} />
+
+      {data.breakoutDirection === "BOTH" && (
+        <ToggleField
+          label="One cancels other"
+          checked={data.ocoBracket ?? true}
+          onChange={(v) => onChange({ ocoBracket: v })}
+          hint="When one stop order fills, delete the opposite one"
+        />
+      )}
+
       <div
         className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg mt-3"
         role="note"
@@ -562,3 +589,208 @@ export function MarketStructureFields({
     </>
   );
 }
+
+export function LiquiditySweepFields({
+  data,
+  onChange,
+}: {
+  data: LiquiditySweepNodeData;
+  onChange: (updates: Partial<LiquiditySweepNodeData>) => void;
+}) {
+  return (
+    <>
+      <div>
+        <SelectField
+          label="Timeframe"
+          value={data.timeframe}
+          options={TIMEFRAME_OPTIONS}
+          onChange={(v) => onChange({ timeframe: v as Timeframe })}
+        />
+        <OptimizableFieldCheckbox fieldName="timeframe" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Swing Strength (bars)"
+          value={data.swingStrength}
+          min={1}
+          max={50}
+          onChange={(v) => onChange({ swingStrength: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="swingStrength" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Lookback Period (bars)"
+          value={data.lookbackPeriod}
+          min={5}
+          max={1000}
+          onChange={(v) => onChange({ lookbackPeriod: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="lookbackPeriod" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Min Sweep (pips)"
+          value={data.minSweepPips}
+          min={0}
+          max={1000}
+          step={0.1}
+          onChange={(v) => onChange({ minSweepPips: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="minSweepPips" data={data} onChange={onChange} />
+      </div>
+      <div
+        className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+        role="note"
+      >
+        Detects stop hunts (SMC). Buy when the last closed candle wicks below an untouched swing low
+        and closes back above it; sell on the mirror image at a swing high.
+      </div>
+    </>
+  );
+}
+
+export function EqualHighsLowsFields({
+  data,
+  onChange,
+}: {
+  data: EqualHighsLowsNodeData;
+  onChange: (updates: Partial<EqualHighsLowsNodeData>) => void;
+}) {
+  return (
+    <>
+      <div>
+        <SelectField
+          label="Timeframe"
+          value={data.timeframe}
+          options={TIMEFRAME_OPTIONS}
+          onChange={(v) => onChange({ timeframe: v as Timeframe })}
+        />
+        <OptimizableFieldCheckbox fieldName="timeframe" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Swing Strength (bars)"
+          value={data.swingStrength}
+          min={1}
+          max={50}
+          onChange={(v) => onChange({ swingStrength: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="swingStrength" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Lookback Period (bars)"
+          value={data.lookbackPeriod}
+          min={5}
+          max={1000}
+          onChange={(v) => onChange({ lookbackPeriod: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="lookbackPeriod" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Tolerance (pips)"
+          value={data.tolerancePips}
+          min={0}
+          max={1000}
+          step={0.1}
+          onChange={(v) => onChange({ tolerancePips: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="tolerancePips" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <NumberField
+          label="Min Touches"
+          value={data.minTouches}
+          min={2}
+          max={10}
+          onChange={(v) => onChange({ minTouches: v })}
+        />
+        <OptimizableFieldCheckbox fieldName="minTouches" data={data} onChange={onChange} />
+      </div>
+      <SelectField
+        label="Signal"
+        value={data.signalType}
+        options={EQUAL_LEVELS_SIGNAL_OPTIONS}
+        onChange={(v) => onChange({ signalType: v as EqualLevelsSignal })}
+      />
+      <div
+        className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+        role="note"
+      >
+        Equal highs/lows are swing points within the tolerance of each other, where stops pool
+        (SMC). Sweep buys when price wicks under equal lows and closes back above; Breakout buys on
+        a close above equal highs.
+      </div>
+    </>
+  );
+}
+
+export function PivotPointsFields({
+  data,
+  onChange,
+}: {
+  data: PivotPointsNodeData;
+  onChange: (updates: Partial<PivotPointsNodeData>) => void;
+}) {
+  return (
+    <>
+      <div>
+        <SelectField
+          label="Pivot Type"
+          value={data.pivotType}
+          options={PIVOT_TYPE_OPTIONS}
+          onChange={(v) => onChange({ pivotType: v as PivotType })}
+        />
+        <OptimizableFieldCheckbox fieldName="pivotType" data={data} onChange={onChange} />
+      </div>
+      <div>
+        <SelectField
+          label="Level"
+          value={String(data.pivotLevel)}
+          options={PIVOT_LEVEL_OPTIONS}
+          onChange={(v) => onChange({ pivotLevel: Number(v) })}
+        />
+        <OptimizableFieldCheckbox fieldName="pivotLevel" data={data} onChange={onChange} />
+      </div>
+      <SelectField
+        label="Entry"
+        value={data.entryMode}
+        options={PIVOT_ENTRY_MODE_OPTIONS}
+        onChange={(v) => onChange({ entryMode: v as PivotEntryMode })}
+      />
+      {data.entryMode === "BREAKOUT" ? (
+        <div>
+          <SelectField
+            label="Confirmation Timeframe"
+            value={data.timeframe}
+            options={TIMEFRAME_OPTIONS}
+            onChange={(v) => onChange({ timeframe: v as Timeframe })}
+          />
+          <OptimizableFieldCheckbox fieldName="timeframe" data={data} onChange={onChange} />
+        </div>
+      ) : (
+        <div>
+          <NumberField
+            label="Zone (pips)"
+            value={data.zonePips}
+            min={0}
+            max={1000}
+            step={0.1}
+            onChange={(v) => onChange({ zonePips: v })}
+          />
+          <OptimizableFieldCheckbox fieldName="zonePips" data={data} onChange={onChange} />
+        </div>
+      )}
+      <div
+        className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+        role="note"
+      >
+        Levels are computed from the previous day&apos;s high, low and close. Bounce buys within the
+        zone above support and sells within the zone below resistance; Breakout trades a candle
+        close through the level.
+      </div>
+    </>
+  );
+}
@@ -1,7 +1,14 @@
 "use client";
 
 import { createContext, useContext, useState } from "react";
-import type { BuilderNodeData } from "@/types/builder";
+import type {
+  BuilderNodeData,
+  PendingExpiryMode,
+  PlaceBuyNodeData,
+  PlaceSellNodeData,
+  RangeBreakoutNodeData,
+} from "@/types/builder";
+import { NumberField, SelectField } from "../components/form-fields";
 
 const OptimizationVisibleContext = createContext(false);
 
@@ -160,3 +167,66 @@ export function AdvancedToggleSection({ children }: { children: React.ReactNode
     </div>
   );
 }
+
+const PENDING_EXPIRY_OPTIONS: { value: PendingExpiryMode; label: string }[] = [
+  { value: "GTC", label: "Until cancelled" },
+  { value: "BARS", label: "After N bars" },
+  { value: "MINUTES", label: "After N minutes" },
+];
+
+/** Expiry of unfilled pending orders, shared by the order and range breakout blocks */
+export function PendingExpiryField<
+  T extends PlaceBuyNodeData | PlaceSellNodeData | RangeBreakoutNodeData,
+>({
+  data,
+  fallback,
+  onChange,
+}: {
+  data: T;
+  fallback: PendingExpiryMode;
+  onChange: (updates: Partial<T>) => void;
+}) {
+  const mode = data.pendingExpiryMode ?? fallback;
+  const update = (updates: Partial<PlaceBuyNodeData>) => onChange(updates as Partial<T>);
+  return (
+    <>
+      <SelectField
+        label="Pending Order Expiry"
+        value={mode}
+        options={PENDING_EXPIRY_OPTIONS}
+        onChange={(v) => update({ pendingExpiryMode: v })}
+        tooltip="The EA deletes unfilled pending orders once they are this old"
+      />
+      {mode === "BARS" && (
+        <div>
+          <NumberField
+            label="Expire After (bars)"
+            value={data.pendingExpiryBars ?? 5}
+            min={1}
+            max={10000}
+            step={1}
+            onChange={(v) => update({ pendingExpiryBars: v })}
+          />
+          <OptimizableFieldCheckbox fieldName="pendingExpiryBars" data={data} onChange={onChange} />
+        </div>
+      )}
+      {mode === "MINUTES" && (
+        <div>
+          <NumberField
+            label="Expire After (minutes)"
+            value={data.pendingExpiryMinutes ?? 1440}
+            min={1}
+            max={525600}
+            step={1}
+            onChange={(v) => update({ pendingExpiryMinutes: v })}
+          />
+          <OptimizableFieldCheckbox
+            fieldName="pendingExpiryMinutes"
+            data={data}
+            onChange={onChange}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -11,13 +11,22 @@ import type {
   VolatilityFilterNodeData,
   VolumeFilterNodeData,
   VolumeFilterMode,
+  HtfBiasNodeData,
+  HtfBiasMethod,
   FridayCloseFilterNodeData,
   NewsFilterNodeData,
+  NewsCurrencyMode,
   TradingDays,
   Timeframe,
+  RiskScaleRule,
 } from "@/types/builder";
 import { SESSION_TIMES } from "@/types/builder";
-import { TRADING_SESSION_OPTIONS, DAY_LABELS, TIMEFRAME_OPTIONS } from "./constants";
+import {
+  TRADING_SESSION_OPTIONS,
+  DAY_LABELS,
+  TIMEFRAME_OPTIONS,
+  MA_METHOD_OPTIONS,
+} from "./constants";
 import { OptimizableFieldCheckbox } from "./shared";
 
 export function TradingSessionFields({
@@ -123,6 +132,12 @@ export function TradingSessionFields({
           clock.
         </div>
       )}
+      <RiskScalingSection
+        windowLabel="session"
+        multiplier={data.riskMultiplier ?? 1}
+        rules={data.riskRules ?? []}
+        onChange={onChange}
+      />
     </>
   );
 }
@@ -282,6 +297,12 @@ export function CustomTimesFields({
           Use GMT time
         </label>
       </div>
+      <RiskScalingSection
+        windowLabel="time slot"
+        multiplier={data.riskMultiplier ?? 1}
+        rules={data.riskRules ?? []}
+        onChange={onChange}
+      />
     </>
   );
 }
@@ -433,6 +454,119 @@ export function VolumeFilterFields({
   );
 }
 
+const HTF_BIAS_METHOD_OPTIONS: { value: HtfBiasMethod; label: string }[] = [
+  { value: "PRICE_VS_MA", label: "Close vs Moving Average" },
+  { value: "MA_SLOPE", label: "Moving Average Slope" },
+  { value: "MACD", label: "MACD Above/Below Zero" },
+  { value: "ADX_DI", label: "+DI vs -DI (ADX)" },
+];
+
+export function HtfBiasFields({
+  data,
+  onChange,
+}: {
+  data: HtfBiasNodeData;
+  onChange: (updates: Partial<HtfBiasNodeData>) => void;
+}) {
+  const usesMa = data.biasMethod === "PRICE_VS_MA" || data.biasMethod === "MA_SLOPE";
+  return (
+    <>
+      <div>
+        <SelectField
+          label="Bias Timeframe"
+          value={data.timeframe}
+          options={TIMEFRAME_OPTIONS}
+          onChange={(v) => onChange({ timeframe: v as Timeframe })}
+          tooltip="Should be higher than the timeframe of your entry indicators."
+        />
+        <OptimizableFieldCheckbox fieldName="timeframe" data={data} onChange={onChange} />
+      </div>
+      <SelectField
+        label="Trend From"
+        value={data.biasMethod}
+        options={HTF_BIAS_METHOD_OPTIONS}
+        onChange={(v) => onChange({ biasMethod: v as HtfBiasMethod })}
+      />
+      {data.biasMethod === "MACD" ? (
+        <>
+          <div>
+            <NumberField
+              label="MACD Fast Period"
+              value={data.fastPeriod}
+              min={1}
+              max={1000}
+              step={1}
+              onChange={(v) => onChange({ fastPeriod: v })}
+            />
+            <OptimizableFieldCheckbox fieldName="fastPeriod" data={data} onChange={onChange} />
+          </div>
+          <div>
+            <NumberField
+              label="MACD Slow Period"
+              value={data.slowPeriod}
+              min={1}
+              max={1000}
+              step={1}
+              onChange={(v) => onChange({ slowPeriod: v })}
+            />
+            <OptimizableFieldCheckbox fieldName="slowPeriod" data={data} onChange={onChange} />
+          </div>
+        </>
+      ) : (
+        <div>
+          <NumberField
+            label={data.biasMethod === "ADX_DI" ? "ADX Period" : "MA Period"}
+            value={data.period}
+            min={1}
+            max={1000}
+            step={1}
+            onChange={(v) => onChange({ period: v })}
+          />
+          <OptimizableFieldCheckbox fieldName="period" data={data} onChange={onChange} />
+        </div>
+      )}
+      {usesMa && (
+        <SelectField
+          label="MA Method"
+          value={data.maMethod}
+          options={MA_METHOD_OPTIONS}
+          onChange={(v) => onChange({ maMethod: v as HtfBiasNodeData["maMethod"] })}
+        />
+      )}
+      {(
+        [
+          ["filterBuys", "Only buy when the bias is up"],
+          ["filterSells", "Only sell when the bias is down"],
+        ] as const
+      ).map(([field, label]) => (
+        <label
+          key={field}
+          className="flex items-center gap-2 text-xs text-[#FAFAFA] cursor-pointer"
+        >
+          <input
+            type="checkbox"
+            checked={data[field]}
+            onChange={(e) => {
+              e.stopPropagation();
+              onChange({ [field]: e.target.checked });
+            }}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="rounded border-[rgba(79,70,229,0.3)] bg-[#1E293B] text-[#22D3EE] focus:ring-[#22D3EE]"
+          />
+          {label}
+        </label>
+      ))}
+      <div
+        className="text-xs text-[#A1A1AA] bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] p-3 rounded-lg"
+        role="note"
+      >
+        The bias is read from the last closed {data.timeframe} bar, so it never changes while that
+        bar is still forming.
+      </div>
+    </>
+  );
+}
+
 export function FridayCloseFields({
   data,
   onChange,
@@ -492,6 +626,14 @@ export function FridayCloseFields({
   );
 }
 
+const NEWS_CURRENCY_MODE_OPTIONS: { value: NewsCurrencyMode; label: string }[] = [
+  { value: "ALL", label: "All currencies of the traded symbols" },
+  { value: "INCLUDE", label: "Only selected currencies" },
+  { value: "EXCLUDE", label: "All except selected currencies" },
+];
+
+const NEWS_CURRENCIES = ["USD", "EUR", "GBP", "JPY", "CHF", "CAD", "AUD", "NZD", "CNY"];
+
 export function NewsFilterFields({
   data,
   onChange,
@@ -503,6 +645,8 @@ export function NewsFilterFields({
   if (data.highImpact) impacts.push("High");
   if (data.mediumImpact) impacts.push("Medium");
   if (data.lowImpact) impacts.push("Low");
+  const currencyMode = data.currencyMode ?? "ALL";
+  const currencies = data.currencies ?? [];
 
   return (
     <>
@@ -570,6 +714,39 @@ export function NewsFilterFields({
           Low Impact
         </label>
       </div>
+      <SelectField
+        label="News Currencies"
+        value={currencyMode}
+        options={NEWS_CURRENCY_MODE_OPTIONS}
+        onChange={(v) => onChange({ currencyMode: v })}
+        helpText="Each symbol only pauses for news in its own base or quote currency."
+      />
+      {currencyMode !== "ALL" && (
+        <div className="grid grid-cols-3 gap-1.5">
+          {NEWS_CURRENCIES.map((currency) => (
+            <label
+              key={currency}
+              className="flex items-center gap-2 text-xs text-[#FAFAFA] cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={currencies.includes(currency)}
+                onChange={(e) => {
+                  e.stopPropagation();
+                  onChange({
+                    currencies: e.target.checked
+                      ? [...currencies, currency]
+                      : currencies.filter((c) => c !== currency),
+                  });
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+                className="rounded border-[rgba(79,70,229,0.3)] bg-[#1E293B] text-[#22D3EE] focus:ring-[#22D3EE]"
+              />
+              {currency}
+            </label>
+          ))}
+        </div>
+      )}
       <label className="flex items-center gap-2 text-xs text-[#FAFAFA] cursor-pointer mt-2">
         <input
           type="checkbox"
@@ -588,9 +765,26 @@ export function NewsFilterFields({
         role="note"
       >
         Blocks new entries {data.hoursBefore}h before and {data.hoursAfter}h after{" "}
-        {impacts.length > 0 ? impacts.join(", ") : "no"} impact news events.
-        {data.closePositions ? " Also closes open positions during news windows." : ""} Live trading
-        uses the MQL5 Calendar API. Backtesting uses embedded static data.
+        {impacts.length > 0 ? impacts.join(", ") : "no"} impact news in each symbol&apos;s own
+        currencies
+        {currencyMode === "INCLUDE" && ` (only ${currencies.join(", ") || "none selected"})`}
+        {currencyMode === "EXCLUDE" &&
+          currencies.length > 0 &&
+          ` (ignoring ${currencies.join(", ")})`}
+        .{data.closePositions ? " Also closes open positions during news windows." : ""} Live
+        trading uses the MQL5 Calendar API. Backtesting uses embedded static data.
+      </div>
+      <div className="text-xs text-[#A1A1AA]">
+        Backtests use the release times of your{" "}
+        <a
+          href="/app/evaluate/news-calendar"
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-[#22D3EE] hover:underline"
+        >
+          imported economic calendar
+        </a>{" "}
+        where it covers the dates, and estimated release times elsewhere.
       </div>
       <div
         className="text-xs text-[#FBBF24] bg-[rgba(251,191,36,0.1)] border border-[rgba(251,191,36,0.2)] p-3 rounded-lg"
@@ -631,3 +825,140 @@ function TradingDaysCheckboxes({
     </div>
   );
 }
+
+const RISK_RULE_DAY_OPTIONS: { value: RiskScaleRule["day"]; label: string }[] = [
+  { value: "everyday", label: "Every day" },
+  ...DAY_LABELS.map(({ key, label }) => ({ value: key, label })),
+];
+
+function RiskScalingSection({
+  windowLabel,
+  multiplier,
+  rules,
+  onChange,
+}: {
+  windowLabel: string;
+  multiplier: number;
+  rules: RiskScaleRule[];
+  onChange: (updates: { riskMultiplier?: number; riskRules?: RiskScaleRule[] }) => void;
+}) {
+  function handleRuleChange<K extends keyof RiskScaleRule>(
+    index: number,
+    field: K,
+    value: RiskScaleRule[K]
+  ): void {
+    onChange({
+      riskRules: rules.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule)),
+    });
+  }
+
+  function handleAddRule(): void {
+    onChange({
+      riskRules: [
+        ...rules,
+        { day: "friday", startHour: 18, startMinute: 0, endHour: 0, endMinute: 0, multiplier: 0 },
+      ],
+    });
+  }
+
+  function handleRemoveRule(index: number): void {
+    onChange({ riskRules: rules.filter((_, i) => i !== index) });
+  }
+
+  return (
+    <div className="mt-3 space-y-3">
+      <span className="text-xs font-medium text-[#FAFAFA]">Risk Scaling</span>
+      <NumberField
+        label="Risk Multiplier"
+        value={multiplier}
+        min={0}
+        max={5}
+        step={0.1}
+        onChange={(v) => onChange({ riskMultiplier: Math.round(v * 100) / 100 })}
+        tooltip={`Position size is multiplied by this value while the ${windowLabel} is active. 1 = normal risk, 0.5 = half risk, 0 = no new entries.`}
+      />
+      {rules.map((rule, index) => (
+        <div
+          key={index}
+          className="bg-[rgba(79,70,229,0.1)] border border-[rgba(79,70,229,0.2)] rounded-lg p-3 space-y-2"
+        >
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-medium text-[#7C8DB0]">Rule {index + 1}</span>
+            <button
+              onClick={() => handleRemoveRule(index)}
+              className="text-[#EF4444] hover:text-[#F87171] p-0.5 rounded transition-colors"
+              aria-label={`Remove risk rule ${index + 1}`}
+            >
+              <svg
+                className="w-3.5 h-3.5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+                aria-hidden="true"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M6 18L18 6M6 6l12 12"
+                />
+              </svg>
+            </button>
+          </div>
+          <SelectField
+            label="Day"
+            value={rule.day}
+            options={RISK_RULE_DAY_OPTIONS}
+            onChange={(v) => handleRuleChange(index, "day", v as RiskScaleRule["day"])}
+          />
+          <div className="flex items-end gap-2">
+            <TimeField
+              label="From"
+              hour={rule.startHour}
+              minute={rule.startMinute}
+              onHourChange={(h) => handleRuleChange(index, "startHour", h)}
+              onMinuteChange={(m) => handleRuleChange(index, "startMinute", m)}
+            />
+            <span className="text-[#7C8DB0] text-xs pb-2">to</span>
+            <TimeField
+              label="Until"
+              hour={rule.endHour}
+              minute={rule.endMinute}
+              onHourChange={(h) => handleRuleChange(index, "endHour", h)}
+              onMinuteChange={(m) => handleRuleChange(index, "endMinute", m)}
+            />
+          </div>
+          <NumberField
+            label="Multiplier"
+            value={rule.multiplier}
+            min={0}
+            max={5}
+            step={0.1}
+            onChange={(v) => handleRuleChange(index, "multiplier", Math.round(v * 100) / 100)}
+          />
+        </div>
+      ))}
+      <button
+        onClick={handleAddRule}
+        className="w-full flex items-center justify-center gap-1.5 px-3 py-2 text-xs font-medium text-[#22D3EE] bg-[rgba(34,211,238,0.1)] border border-[rgba(34,211,238,0.2)] rounded-lg hover:bg-[rgba(34,211,238,0.15)] transition-colors"
+      >
+        <svg
+          className="w-3.5 h-3.5"
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+          aria-hidden="true"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v12m6-6H6" />
+        </svg>
+        Add Day/Time Rule
+      </button>
+      {rules.length > 0 && (
+        <p className="text-[10px] text-[#7C8DB0]">
+          Rules multiply the {windowLabel} multiplier. An end time at or before the start runs
+          overnight into the next day.
+        </p>
+      )}
+    </div>
+  );
+}
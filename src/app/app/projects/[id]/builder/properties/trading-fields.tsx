@@ -10,9 +10,168 @@ import type {
   GridPyramidNodeData,
   Timeframe,
   OrderType,
+  PositionSizingMethod,
 } from "@/types/builder";
 import { TIMEFRAME_OPTIONS } from "./constants";
-import { OptimizableFieldCheckbox, FieldWarning, FieldError } from "./shared";
+import {
+  OptimizableFieldCheckbox,
+  FieldWarning,
+  FieldError,
+  PendingExpiryField,
+  ToggleField,
+} from "./shared";
+import { DEFAULT_SIZING_PARAMS, kellyFraction, kellyRiskPercent } from "@/lib/position-sizing";
+
+const POSITION_SIZE_METHOD_OPTIONS: { value: PositionSizingMethod; label: string }[] = [
+  { value: "FIXED_LOT", label: "Fixed Lot" },
+  { value: "RISK_PERCENT", label: "Risk %" },
+  { value: "VOLATILITY_TARGET", label: "Volatility Target (ATR)" },
+  { value: "FIXED_FRACTIONAL_STEP", label: "Risk % with Equity Steps" },
+  { value: "KELLY", label: "Kelly Fraction" },
+  { value: "FIXED_MONEY", label: "Fixed Money Risk" },
+];
+
+/** Inputs of the sizing methods beyond fixed lot and risk %, shared by buy and sell */
+function RiskSizingFields<T extends PlaceBuyNodeData | PlaceSellNodeData>({
+  data,
+  onChange,
+}: {
+  data: T;
+  onChange: (updates: Partial<T>) => void;
+}) {
+  const update = (updates: Partial<PlaceBuyNodeData>) => onChange(updates as Partial<T>);
+  const d = DEFAULT_SIZING_PARAMS;
+
+  switch (data.method) {
+    case "VOLATILITY_TARGET":
+      return (
+        <>
+          <div>
+            <NumberField
+              label="Risk per ATR Move (%)"
+              value={data.volTargetPercent ?? d.volTargetPercent}
+              min={0.1}
+              max={20}
+              step={0.1}
+              onChange={(v) => update({ volTargetPercent: v })}
+              tooltip="Size so that a move of one ATR against the position costs this share of the balance. Quieter markets get larger positions."
+            />
+            <OptimizableFieldCheckbox
+              fieldName="volTargetPercent"
+              data={data}
+              onChange={onChange}
+            />
+          </div>
+          <div>
+            <NumberField
+              label="ATR Period"
+              value={data.volAtrPeriod ?? d.volAtrPeriod}
+              min={1}
+              max={500}
+              step={1}
+              onChange={(v) => update({ volAtrPeriod: v })}
+            />
+            <OptimizableFieldCheckbox fieldName="volAtrPeriod" data={data} onChange={onChange} />
+          </div>
+          <SelectField
+            label="ATR Timeframe"
+            value={data.volAtrTimeframe ?? "H1"}
+            options={TIMEFRAME_OPTIONS}
+            onChange={(v) => update({ volAtrTimeframe: v as Timeframe })}
+          />
+        </>
+      );
+
+    case "FIXED_FRACTIONAL_STEP":
+      return (
+        <div>
+          <NumberField
+            label="Equity Step"
+            value={data.equityStep ?? d.equityStep}
+            min={1}
+            max={10_000_000}
+            step={100}
+            onChange={(v) => update({ equityStep: v })}
+            tooltip="Risk % applies to the balance rounded down to this step, so size only grows once the account gains a full step."
+          />
+          <OptimizableFieldCheckbox fieldName="equityStep" data={data} onChange={onChange} />
+        </div>
+      );
+
+    case "KELLY": {
+      const fullKelly = kellyFraction(
+        data.kellyWinRate ?? d.kellyWinRate,
+        data.kellyPayoffRatio ?? d.kellyPayoffRatio
+      );
+      return (
+        <>
+          <NumberField
+            label="Win Rate (%)"
+            value={data.kellyWinRate ?? d.kellyWinRate}
+            min={1}
+            max={99}
+            step={1}
+            onChange={(v) => update({ kellyWinRate: v })}
+          />
+          <NumberField
+            label="Avg Win / Avg Loss"
+            value={data.kellyPayoffRatio ?? d.kellyPayoffRatio}
+            min={0.1}
+            max={20}
+            step={0.1}
+            onChange={(v) => update({ kellyPayoffRatio: v })}
+          />
+          <div>
+            <NumberField
+              label="Kelly Fraction"
+              value={data.kellyFraction ?? d.kellyFraction}
+              min={0.05}
+              max={1}
+              step={0.05}
+              onChange={(v) => update({ kellyFraction: v })}
+              tooltip="Share of the full Kelly bet to use. 0.5 (half Kelly) keeps most of the growth with far smaller drawdowns."
+            />
+            <OptimizableFieldCheckbox fieldName="kellyFraction" data={data} onChange={onChange} />
+          </div>
+          <div>
+            <NumberField
+              label="Max Risk %"
+              value={data.kellyCapPercent ?? d.kellyCapPercent}
+              min={0.1}
+              max={20}
+              step={0.1}
+              onChange={(v) => update({ kellyCapPercent: v })}
+            />
+            <OptimizableFieldCheckbox fieldName="kellyCapPercent" data={data} onChange={onChange} />
+          </div>
+          <p className="text-[10px] text-[#7C8DB0] -mt-0.5">
+            Full Kelly {(fullKelly * 100).toFixed(1)}%, risking {kellyRiskPercent(data).toFixed(2)}%
+            per trade
+          </p>
+        </>
+      );
+    }
+
+    case "FIXED_MONEY":
+      return (
+        <div>
+          <NumberField
+            label="Risk Amount"
+            value={data.riskAmount ?? d.riskAmount}
+            min={1}
+            max={1_000_000}
+            step={10}
+            onChange={(v) => update({ riskAmount: v })}
+            tooltip="Account currency lost when the stop loss is hit"
+          />
+          <OptimizableFieldCheckbox fieldName="riskAmount" data={data} onChange={onChange} />
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
 
 export function PlaceBuyFields({
   data,
@@ -56,15 +215,19 @@ export function PlaceBuyFields({
             onChange={(v) => onChange({ pendingOffset: v })}
           />
           <OptimizableFieldCheckbox fieldName="pendingOffset" data={data} onChange={onChange} />
+          <PendingExpiryField data={data} fallback="MINUTES" onChange={onChange} />
+          <ToggleField
+            label="Cancel when the signal is gone"
+            checked={data.cancelOnInvalidate ?? false}
+            onChange={(v) => onChange({ cancelOnInvalidate: v })}
+            hint="Delete unfilled buy orders on any tick the buy condition is false"
+          />
         </div>
       )}
       <SelectField
         label="Position Size Method"
         value={data.method}
-        options={[
-          { value: "FIXED_LOT", label: "Fixed Lot" },
-          { value: "RISK_PERCENT", label: "Risk %" },
-        ]}
+        options={POSITION_SIZE_METHOD_OPTIONS}
         onChange={(v) => onChange({ method: v as PlaceBuyNodeData["method"] })}
       />
       {data.method === "FIXED_LOT" && (
@@ -80,7 +243,7 @@ export function PlaceBuyFields({
           <OptimizableFieldCheckbox fieldName="fixedLot" data={data} onChange={onChange} />
         </div>
       )}
-      {data.method === "RISK_PERCENT" && (
+      {(data.method === "RISK_PERCENT" || data.method === "FIXED_FRACTIONAL_STEP") && (
         <div>
           <NumberField
             label="Risk %"
@@ -93,6 +256,7 @@ export function PlaceBuyFields({
           <OptimizableFieldCheckbox fieldName="riskPercent" data={data} onChange={onChange} />
         </div>
       )}
+      <RiskSizingFields data={data} onChange={onChange} />
       <div>
         <NumberField
           label="Min Lot"
@@ -116,9 +280,10 @@ export function PlaceBuyFields({
         <OptimizableFieldCheckbox fieldName="maxLot" data={data} onChange={onChange} />
       </div>
       {data.minLot > data.maxLot && <FieldError message="Min lot must not exceed max lot" />}
-      {data.method === "RISK_PERCENT" && data.riskPercent > 5 && (
-        <FieldWarning message="Risk above 5% per trade is considered aggressive" />
-      )}
+      {(data.method === "RISK_PERCENT" || data.method === "FIXED_FRACTIONAL_STEP") &&
+        data.riskPercent > 5 && (
+          <FieldWarning message="Risk above 5% per trade is considered aggressive" />
+        )}
 
       {/* Stop Loss */}
       <div className="border-t border-[rgba(79,70,229,0.2)] pt-3 mt-3">
@@ -325,15 +490,19 @@ export function PlaceSellFields({
             onChange={(v) => onChange({ pendingOffset: v })}
           />
           <OptimizableFieldCheckbox fieldName="pendingOffset" data={data} onChange={onChange} />
+          <PendingExpiryField data={data} fallback="MINUTES" onChange={onChange} />
+          <ToggleField
+            label="Cancel when the signal is gone"
+            checked={data.cancelOnInvalidate ?? false}
+            onChange={(v) => onChange({ cancelOnInvalidate: v })}
+            hint="Delete unfilled sell orders on any tick the sell condition is false"
+          />
         </div>
       )}
       <SelectField
         label="Position Size Method"
         value={data.method}
-        options={[
-          { value: "FIXED_LOT", label: "Fixed Lot" },
-          { value: "RISK_PERCENT", label: "Risk %" },
-        ]}
+        options={POSITION_SIZE_METHOD_OPTIONS}
         onChange={(v) => onChange({ method: v as PlaceSellNodeData["method"] })}
       />
       {data.method === "FIXED_LOT" && (
@@ -349,7 +518,7 @@ export function PlaceSellFields({
           <OptimizableFieldCheckbox fieldName="fixedLot" data={data} onChange={onChange} />
         </div>
       )}
-      {data.method === "RISK_PERCENT" && (
+      {(data.method === "RISK_PERCENT" || data.method === "FIXED_FRACTIONAL_STEP") && (
         <div>
           <NumberField
             label="Risk %"
@@ -362,6 +531,7 @@ export function PlaceSellFields({
           <OptimizableFieldCheckbox fieldName="riskPercent" data={data} onChange={onChange} />
         </div>
       )}
+      <RiskSizingFields data={data} onChange={onChange} />
       <div>
         <NumberField
           label="Min Lot"
@@ -385,9 +555,10 @@ export function PlaceSellFields({
         <OptimizableFieldCheckbox fieldName="maxLot" data={data} onChange={onChange} />
       </div>
       {data.minLot > data.maxLot && <FieldError message="Min lot must not exceed max lot" />}
-      {data.method === "RISK_PERCENT" && data.riskPercent > 5 && (
-        <FieldWarning message="Risk above 5% per trade is considered aggressive" />
-      )}
+      {(data.method === "RISK_PERCENT" || data.method === "FIXED_FRACTIONAL_STEP") &&
+        data.riskPercent > 5 && (
+          <FieldWarning message="Risk above 5% per trade is considered aggressive" />
+        )}
 
       {/* Stop Loss */}
       <div className="border-t border-[rgba(79,70,229,0.2)] pt-3 mt-3">
@@ -10,6 +10,7 @@ interface StrategyBuilderProps {
   latestVersion?: {
     id: string;
     versionNo: number;
+    branch?: string;
     buildJson: BuildJsonSchema;
   } | null;
   canExportMQL5?: boolean;
@@ -28,6 +29,7 @@ export function StrategyBuilder({
         <StrategyCanvas
           projectId={projectId}
           initialData={latestVersion?.buildJson ?? null}
+          initialBranch={latestVersion?.branch}
           canExportMQL5={canExportMQL5}
           userTier={tier}
         />
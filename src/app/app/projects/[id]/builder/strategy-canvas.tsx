@@ -20,6 +20,7 @@ import { VersionControls } from "./version-controls";
 import { ValidationStatus } from "./validation-status";
 import { validateStrategy } from "./strategy-validation";
 import { ValidationProvider } from "./validation-context";
+import { DiffHighlightProvider } from "./diff-highlight-context";
 import { StrategySummary, buildNaturalLanguageSummary } from "./strategy-summary";
 import { useUndoRedo } from "./use-undo-redo";
 import { PanelErrorBoundary } from "./error-boundary";
@@ -31,7 +32,9 @@ import {
   useConnectionValidation,
   useOnlineStatus,
   addEdgeLabels,
+  saveUserMacro,
 } from "./hooks";
+import { SaveMacroDialog } from "./components/save-macro-dialog";
 import type {
   BuilderNode,
   BuilderEdge,
@@ -43,6 +46,9 @@ import type {
 } from "@/types/builder";
 import { DEFAULT_SETTINGS, generateMagicNumber } from "@/types/builder";
 import { CURRENT_VERSION } from "@/lib/migrations";
+import { DEFAULT_BRANCH, type DiffHighlights } from "@/lib/versioning";
+
+const NO_DIFF_HIGHLIGHTS = {};
 
 function HelpButton({ onClick }: { onClick: () => void }) {
   const [glowing, setGlowing] = useState(() => {
@@ -199,6 +205,8 @@ function BuilderProgressStepper({
 interface StrategyCanvasProps {
   projectId: string;
   initialData: BuildJsonSchema | null;
+  /** Branch of the version the builder opened with */
+  initialBranch?: string;
   canExportMQL5?: boolean;
   userTier?: string;
 }
@@ -206,6 +214,7 @@ interface StrategyCanvasProps {
 export function StrategyCanvas({
   projectId,
   initialData,
+  initialBranch = DEFAULT_BRANCH,
   canExportMQL5 = false,
   userTier,
 }: StrategyCanvasProps) {
@@ -217,6 +226,7 @@ export function StrategyCanvas({
   const [mobileToolbarOpen, setMobileToolbarOpen] = useState(false);
   const [showShortcuts, setShowShortcuts] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
+  const [showSaveMacro, setShowSaveMacro] = useState(false);
   // Strategy settings state — new projects get a unique magic number
   const [settings, setSettings] = useState<BuildJsonSettings>(() =>
     initialData?.settings
@@ -295,6 +305,9 @@ export function StrategyCanvas({
     }
   }, [nodes, edges, takeSnapshot]);
 
+  // Branch that saves go to; follows the version loaded from the version list
+  const [branch, setBranch] = useState(initialBranch);
+
   // Auto-save hook
   const { autoSaveStatus, hasUnsavedChanges, saveToServer, markAsSaved } = useAutoSave({
     projectId,
@@ -302,6 +315,7 @@ export function StrategyCanvas({
     edges,
     initialData,
     settings,
+    branch,
     debounceMs: 5000,
   });
 
@@ -398,6 +412,11 @@ export function StrategyCanvas({
   // Selected node for properties panel
   const selectedNode = nodes.find((n) => n.selected) ?? null;
 
+  // A multi-block selection can be saved as a macro (macros cannot contain macros)
+  const macroSelection = useMemo(() => nodes.filter((n) => n.selected), [nodes]);
+  const canSaveMacro =
+    macroSelection.length >= 2 && !macroSelection.some((n) => n.data.macroType === "macro");
+
   // Validate strategy (deferred inputs avoid blocking interactions during drag)
   const deferredNodes = useDeferredValue(nodes);
   const deferredEdges = useDeferredValue(edges);
@@ -406,6 +425,23 @@ export function StrategyCanvas({
     [deferredNodes, deferredEdges, settings]
   );
 
+  // Version comparison shown on the canvas: changed blocks and connections are outlined
+  const [diffHighlight, setDiffHighlight] = useState<{
+    highlights: DiffHighlights;
+    label: string;
+  } | null>(null);
+  const onHighlightDiff = useCallback(
+    (highlights: DiffHighlights, label: string) => setDiffHighlight({ highlights, label }),
+    []
+  );
+  const displayEdges = useMemo(() => {
+    if (!diffHighlight) return edges;
+    const changed = new Set(diffHighlight.highlights.edges);
+    return edges.map((e) =>
+      changed.has(e.id) ? { ...e, style: { ...e.style, stroke: "#22D3EE", strokeWidth: 3 } } : e
+    );
+  }, [edges, diffHighlight]);
+
   // Handle drag start from toolbar
   const onDragStart = useCallback((event: React.DragEvent, template: NodeTemplate) => {
     event.dataTransfer.setData("application/reactflow", JSON.stringify(template));
@@ -557,6 +593,9 @@ export function StrategyCanvas({
       const loadedEdges = addEdgeLabels(buildJson.edges as Edge[], loadedNodes);
       setNodes(loadedNodes);
       setEdges(loadedEdges);
+      if (buildJson.settings) {
+        setSettings(buildJson.settings);
+      }
 
       if (buildJson.viewport) {
         setViewport(buildJson.viewport);
@@ -564,8 +603,9 @@ export function StrategyCanvas({
 
       // Reset history when loading a new version
       resetHistory(loadedNodes, loadedEdges);
+      setDiffHighlight(null);
     },
-    [setNodes, setEdges, setViewport, resetHistory]
+    [setNodes, setEdges, setSettings, setViewport, resetHistory]
   );
 
   // Import strategy from JSON
@@ -721,6 +761,8 @@ export function StrategyCanvas({
                 trading: "#3B82F6",
                 priceaction: "#F472B6",
                 riskmanagement: "#34D399",
+                logic: "#818CF8",
+                macro: "#2DD4BF",
               };
               const categoryLabels: Record<string, string> = {
                 timing: "Timing",
@@ -729,6 +771,8 @@ export function StrategyCanvas({
                 trading: "Trading",
                 priceaction: "Price Action",
                 riskmanagement: "Risk Management",
+                logic: "Logic",
+                macro: "Macro",
               };
               const color = categoryColors[data.category] || "#64748B";
               const categoryLabel = categoryLabels[data.category] || data.category;
@@ -838,116 +882,158 @@ export function StrategyCanvas({
         {/* Center: React Flow Canvas */}
         <div id="builder-canvas" ref={reactFlowWrapper} className="flex-1 relative">
           <ValidationProvider value={validation.issuesByNodeId}>
-            <ReactFlow
-              nodes={nodes}
-              edges={edges}
-              onNodesChange={onNodesChange}
-              onEdgesChange={onEdgesChange}
-              onConnect={onConnect}
-              onDragOver={onDragOver}
-              onDragLeave={onDragLeave}
-              onDrop={onDrop}
-              nodeTypes={nodeTypes}
-              isValidConnection={isValidConnection}
-              fitView
-              snapToGrid
-              snapGrid={[15, 15]}
-              defaultEdgeOptions={{
-                animated: true,
-                style: { stroke: "#6366F1", strokeWidth: 2 },
-              }}
-              selectNodesOnDrag={false}
-            >
-              <Background gap={15} size={1} color="rgba(79, 70, 229, 0.15)" />
-              <Controls />
-              {nodes.length === 0 && (
-                <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-[1]">
-                  <div
-                    className={`flex flex-col items-center text-center px-10 py-8 rounded-2xl border-2 border-dashed transition-all duration-300 ${
-                      isDraggingOver
-                        ? "border-[#6366F1] bg-[rgba(79,70,229,0.12)] shadow-[0_0_40px_rgba(79,70,229,0.25)]"
-                        : "border-[rgba(79,70,229,0.25)] bg-[#111114]/60 empty-canvas-pulse"
-                    }`}
-                    style={{ maxWidth: 380 }}
-                  >
-                    {/* Animated drag hand icon */}
-                    <div className="mb-4 relative">
-                      <svg
-                        className="w-12 h-12 text-[#6366F1] drag-hand-anim"
-                        viewBox="0 0 48 48"
-                        fill="none"
-                      >
-                        <rect
-                          x="8"
-                          y="8"
-                          width="20"
-                          height="14"
-                          rx="3"
-                          stroke="currentColor"
-                          strokeWidth="2"
-                          fill="rgba(79,70,229,0.15)"
-                        />
-                        <rect
-                          x="11"
-                          y="11"
-                          width="14"
-                          height="2"
-                          rx="1"
-                          fill="currentColor"
-                          opacity="0.5"
-                        />
-                        <rect
-                          x="11"
-                          y="15"
-                          width="8"
-                          height="2"
-                          rx="1"
+            <DiffHighlightProvider value={diffHighlight?.highlights.nodes ?? NO_DIFF_HIGHLIGHTS}>
+              <ReactFlow
+                nodes={nodes}
+                edges={displayEdges}
+                onNodesChange={onNodesChange}
+                onEdgesChange={onEdgesChange}
+                onConnect={onConnect}
+                onDragOver={onDragOver}
+                onDragLeave={onDragLeave}
+                onDrop={onDrop}
+                nodeTypes={nodeTypes}
+                isValidConnection={isValidConnection}
+                fitView
+                snapToGrid
+                snapGrid={[15, 15]}
+                defaultEdgeOptions={{
+                  animated: true,
+                  style: { stroke: "#6366F1", strokeWidth: 2 },
+                }}
+                selectNodesOnDrag={false}
+              >
+                <Background gap={15} size={1} color="rgba(79, 70, 229, 0.15)" />
+                <Controls />
+                {nodes.length === 0 && (
+                  <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-[1]">
+                    <div
+                      className={`flex flex-col items-center text-center px-10 py-8 rounded-2xl border-2 border-dashed transition-all duration-300 ${
+                        isDraggingOver
+                          ? "border-[#6366F1] bg-[rgba(79,70,229,0.12)] shadow-[0_0_40px_rgba(79,70,229,0.25)]"
+                          : "border-[rgba(79,70,229,0.25)] bg-[#111114]/60 empty-canvas-pulse"
+                      }`}
+                      style={{ maxWidth: 380 }}
+                    >
+                      {/* Animated drag hand icon */}
+                      <div className="mb-4 relative">
+                        <svg
+                          className="w-12 h-12 text-[#6366F1] drag-hand-anim"
+                          viewBox="0 0 48 48"
+                          fill="none"
+                        >
+                          <rect
+                            x="8"
+                            y="8"
+                            width="20"
+                            height="14"
+                            rx="3"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            fill="rgba(79,70,229,0.15)"
+                          />
+                          <rect
+                            x="11"
+                            y="11"
+                            width="14"
+                            height="2"
+                            rx="1"
+                            fill="currentColor"
+                            opacity="0.5"
+                          />
+                          <rect
+                            x="11"
+                            y="15"
+                            width="8"
+                            height="2"
+                            rx="1"
+                            fill="currentColor"
+                            opacity="0.3"
+                          />
+                          <path
+                            d="M34 28 C34 25 36 24 38 24 C40 24 41 25.5 41 27 L41 30 C41.8 29.5 43 29.5 43.5 30.5 L43.5 33 C43.5 37 41 40 37 40 L35 40 C32 40 30 38 30 35 L30 31 C30 29.5 31 28.5 32 28.5 C33 28.5 34 29 34 30"
+                            stroke="currentColor"
+                            strokeWidth="1.5"
+                            strokeLinecap="round"
+                            fill="rgba(79,70,229,0.1)"
+                          />
+                        </svg>
+                      </div>
+
+                      {/* Arrow pointing left toward toolbar — hidden on small screens */}
+                      <div className="hidden md:flex items-center gap-2 mb-3">
+                        <svg
+                          className="w-5 h-5 text-[#A78BFA] arrow-left-anim"
+                          viewBox="0 0 20 20"
                           fill="currentColor"
-                          opacity="0.3"
-                        />
-                        <path
-                          d="M34 28 C34 25 36 24 38 24 C40 24 41 25.5 41 27 L41 30 C41.8 29.5 43 29.5 43.5 30.5 L43.5 33 C43.5 37 41 40 37 40 L35 40 C32 40 30 38 30 35 L30 31 C30 29.5 31 28.5 32 28.5 C33 28.5 34 29 34 30"
-                          stroke="currentColor"
-                          strokeWidth="1.5"
-                          strokeLinecap="round"
-                          fill="rgba(79,70,229,0.1)"
-                        />
-                      </svg>
-                    </div>
+                        >
+                          <path
+                            fillRule="evenodd"
+                            d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z"
+                            clipRule="evenodd"
+                          />
+                        </svg>
+                        <p className="text-base font-semibold text-white">
+                          Drag a block from the toolbar
+                        </p>
+                      </div>
+                      <p className="text-sm text-[#A1A1AA] md:hidden mb-3">
+                        Tap the + button to add your first block
+                      </p>
 
-                    {/* Arrow pointing left toward toolbar — hidden on small screens */}
-                    <div className="hidden md:flex items-center gap-2 mb-3">
-                      <svg
-                        className="w-5 h-5 text-[#A78BFA] arrow-left-anim"
-                        viewBox="0 0 20 20"
-                        fill="currentColor"
-                      >
-                        <path
-                          fillRule="evenodd"
-                          d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z"
-                          clipRule="evenodd"
-                        />
-                      </svg>
-                      <p className="text-base font-semibold text-white">
-                        Drag a block from the toolbar
+                      <p className="text-sm text-[#A1A1AA] mb-2">
+                        Add indicators, trade execution, and filter blocks to build your trading bot
                       </p>
                     </div>
-                    <p className="text-sm text-[#A1A1AA] md:hidden mb-3">
-                      Tap the + button to add your first block
-                    </p>
-
-                    <p className="text-sm text-[#A1A1AA] mb-2">
-                      Add indicators, trade execution, and filter blocks to build your trading bot
-                    </p>
                   </div>
-                </div>
-              )}
-            </ReactFlow>
+                )}
+              </ReactFlow>
+            </DiffHighlightProvider>
           </ValidationProvider>
 
+          {/* Version comparison highlights */}
+          {diffHighlight && (
+            <div className="absolute top-4 right-4 z-10 flex items-center gap-2 px-3 py-1.5 text-xs text-[#FAFAFA] bg-[#111114]/90 border border-[rgba(79,70,229,0.3)] rounded-lg shadow-[0_4px_16px_rgba(0,0,0,0.4)]">
+              <span>
+                Showing changes {diffHighlight.label}: <span className="text-[#22D3EE]">new</span>,{" "}
+                <span className="text-[#FBBF24]">changed</span>
+              </span>
+              <button
+                onClick={() => setDiffHighlight(null)}
+                className="text-[#7C8DB0] hover:text-white transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+
           {/* Builder Progress Stepper */}
           <BuilderProgressStepper nodes={nodes} selectedNode={selectedNode} />
 
+          {/* Save the current multi-block selection as a reusable macro */}
+          {macroSelection.length >= 2 && (
+            <button
+              onClick={() => setShowSaveMacro(true)}
+              disabled={!canSaveMacro}
+              className="absolute top-4 left-1/2 -translate-x-1/2 z-10 px-3 py-1.5 text-xs font-medium text-white bg-[#0F766E] border border-[rgba(45,212,191,0.4)] rounded-lg shadow-[0_4px_16px_rgba(45,212,191,0.25)] hover:bg-[#0D9488] disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              title={
+                canSaveMacro
+                  ? "Save the selected blocks as a reusable macro"
+                  : "Macros cannot contain other macros"
+              }
+            >
+              Save {macroSelection.length} blocks as macro
+            </button>
+          )}
+          {showSaveMacro && canSaveMacro && (
+            <SaveMacroDialog
+              nodes={macroSelection as Node<BuilderNodeData>[]}
+              edges={edges}
+              onSave={saveUserMacro}
+              onClose={() => setShowSaveMacro(false)}
+            />
+          )}
+
           {/* Mobile: Floating button to open blocks toolbar */}
           <button
             onClick={() => setMobileToolbarOpen(true)}
@@ -1312,6 +1398,9 @@ export function StrategyCanvas({
         redoDepth={historyLength - 1 - historyIndex}
         onUndo={handleUndo}
         onRedo={handleRedo}
+        onHighlightDiff={onHighlightDiff}
+        branch={branch}
+        onBranchChange={setBranch}
       />
     </div>
   );
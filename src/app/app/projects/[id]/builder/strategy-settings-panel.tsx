@@ -353,6 +353,17 @@ export function StrategySettingsPanel({ settings, onChange }: StrategySettingsPa
                   hint="Waits X candles before taking another trade to prevent overtrading"
                 />
 
+                {/* Equity Curve Filter */}
+                <SettingsToggleNumberField
+                  label="Equity Curve Filter (trades)"
+                  value={settings.equityCurveMaPeriod ?? 0}
+                  min={2}
+                  max={200}
+                  step={1}
+                  onChange={(v) => update({ equityCurveMaPeriod: v || undefined })}
+                  hint="Pauses market entries while the EA's own trade curve is below its average over the last X trades. Skipped trades are still tracked virtually so the EA can resume."
+                />
+
                 {/* Equity Target */}
                 <SettingsToggleNumberField
                   label="Equity Target (%)"
@@ -1,13 +1,98 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import type { BuilderNode, BuilderEdge } from "@/types/builder";
+import type {
+  BuilderNode,
+  BuilderEdge,
+  CustomTimesNodeData,
+  PlaceBuyNodeData,
+  PlaceSellNodeData,
+  RiskScaleRule,
+  TradingSessionNodeData,
+} from "@/types/builder";
 
 interface StrategySummaryProps {
   nodes: BuilderNode[];
   edges: BuilderEdge[];
 }
 
+export interface RiskScaleRow {
+  window: string;
+  multiplier: number;
+  effectiveRisk: string;
+}
+
+function formatClock(hour: number, minute: number): string {
+  return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+}
+
+function formatRuleWindow(rule: RiskScaleRule): string {
+  const day =
+    rule.day === "everyday" ? "Every day" : rule.day.charAt(0).toUpperCase() + rule.day.slice(1);
+  // An end at or before the start runs overnight; 00:00 reads as the end of the day
+  const end = rule.endHour * 60 + rule.endMinute;
+  const until = end > 0 ? formatClock(rule.endHour, rule.endMinute) : "24:00";
+  return `${day} ${formatClock(rule.startHour, rule.startMinute)}–${until}`;
+}
+
+function roundRisk(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Effective risk per timing window when session/day risk scaling is configured.
+ * Rule rows already include their window's multiplier, as the EA applies both.
+ */
+export function buildRiskScaleTable(nodes: BuilderNode[]): RiskScaleRow[] {
+  const sizing = nodes.find((n) => n.type === "place-buy" || n.type === "place-sell")?.data as
+    | PlaceBuyNodeData
+    | PlaceSellNodeData
+    | undefined;
+
+  function effectiveRisk(multiplier: number): string {
+    if (multiplier === 0) return "No new entries";
+    if (sizing) {
+      if (sizing.method === "RISK_PERCENT") {
+        return `${roundRisk(sizing.riskPercent * multiplier)}% of balance`;
+      }
+      if (sizing.method === "FIXED_LOT") {
+        return `${roundRisk(sizing.fixedLot * multiplier)} lots`;
+      }
+      if (sizing.method === "FIXED_MONEY") {
+        return `${roundRisk((sizing.riskAmount ?? 100) * multiplier)} (account currency)`;
+      }
+    }
+    return `${roundRisk(multiplier)}× base risk`;
+  }
+
+  const rows: RiskScaleRow[] = [];
+  for (const n of nodes) {
+    if (n.type !== "trading-session" && n.type !== "custom-times") continue;
+    const d = n.data as TradingSessionNodeData | CustomTimesNodeData;
+
+    const base = d.riskMultiplier ?? 1;
+    const rules = d.riskRules ?? [];
+    if (base === 1 && rules.length === 0) continue;
+
+    const window =
+      d.timingType === "trading-session"
+        ? d.session === "CUSTOM"
+          ? "Custom session"
+          : `${d.session} session`
+        : "Custom time slots";
+    rows.push({ window, multiplier: base, effectiveRisk: effectiveRisk(base) });
+    for (const rule of rules) {
+      const multiplier = roundRisk(base * rule.multiplier);
+      rows.push({
+        window: `${window}, ${formatRuleWindow(rule)}`,
+        multiplier,
+        effectiveRisk: effectiveRisk(multiplier),
+      });
+    }
+  }
+  return rows;
+}
+
 export function buildNaturalLanguageSummary(nodes: BuilderNode[]): string[] {
   const timingLines: string[] = [];
   const entryLines: string[] = [];
@@ -44,6 +129,11 @@ export function buildNaturalLanguageSummary(nodes: BuilderNode[]): string[] {
       hasTimingNode = true;
     } else if (n.type === "max-spread" && "maxSpreadPips" in d) {
       timingLines.push(`Max spread filter: ${d.maxSpreadPips} pips`);
+    } else if ("filterType" in d && d.filterType === "htf-bias") {
+      const sides = [d.filterBuys && "buys", d.filterSells && "sells"].filter(Boolean);
+      if (sides.length > 0) {
+        timingLines.push(`Only take ${sides.join(" and ")} with the ${d.timeframe} trend`);
+      }
     }
 
     // --- Indicators ---
@@ -233,6 +323,24 @@ export function buildNaturalLanguageSummary(nodes: BuilderNode[]): string[] {
         case "RISK_PERCENT":
           if ("riskPercent" in d) lines.push(`Risk ${d.riskPercent}% of balance per trade`);
           break;
+        case "VOLATILITY_TARGET":
+          lines.push(
+            `Size so one ATR(${d.volAtrPeriod ?? 14}) move costs ${d.volTargetPercent ?? 1}% of balance`
+          );
+          break;
+        case "FIXED_FRACTIONAL_STEP":
+          lines.push(
+            `Risk ${d.riskPercent}% of balance per trade, stepping up every ${d.equityStep ?? 1000}`
+          );
+          break;
+        case "KELLY":
+          lines.push(
+            `Risk ${d.kellyFraction ?? 0.5}x the Kelly fraction per trade, at most ${d.kellyCapPercent ?? 2}%`
+          );
+          break;
+        case "FIXED_MONEY":
+          lines.push(`Risk ${d.riskAmount ?? 100} (account currency) per trade`);
+          break;
       }
     }
   }
@@ -248,6 +356,7 @@ export function buildNaturalLanguageSummary(nodes: BuilderNode[]): string[] {
 export function StrategySummary({ nodes }: StrategySummaryProps): React.ReactNode {
   const [expanded, setExpanded] = useState(false);
   const lines = useMemo(() => buildNaturalLanguageSummary(nodes), [nodes]);
+  const riskRows = useMemo(() => buildRiskScaleTable(nodes), [nodes]);
 
   return (
     <div>
@@ -318,6 +427,36 @@ export function StrategySummary({ nodes }: StrategySummaryProps): React.ReactNod
                   </li>
                 ))}
               </ul>
+              {riskRows.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs font-medium text-[#A1A1AA] mb-2">Risk per window:</p>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-[#7C8DB0]">
+                        <th className="font-medium pb-1 pr-2">Window</th>
+                        <th className="font-medium pb-1 pr-2">Scale</th>
+                        <th className="font-medium pb-1">Effective risk</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {riskRows.map((row, i) => (
+                        <tr
+                          key={i}
+                          className="text-[#FAFAFA] border-t border-[rgba(79,70,229,0.15)]"
+                        >
+                          <td className="py-1 pr-2">{row.window}</td>
+                          <td className="py-1 pr-2">{row.multiplier}×</td>
+                          <td
+                            className={`py-1 ${row.multiplier === 0 ? "text-[#FBBF24]" : "text-[#FAFAFA]"}`}
+                          >
+                            {row.effectiveRisk}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
             </div>
           ) : (
             <p className="text-xs text-[#7C8DB0] leading-relaxed">
@@ -1,5 +1,18 @@
 import type { Node, Edge } from "@xyflow/react";
-import type { BuilderNodeData, BuildJsonSettings } from "@/types/builder";
+import type {
+  BuilderEdge,
+  BuilderNode,
+  BuilderNodeData,
+  BuildJsonSettings,
+  ConditionOperand,
+} from "@/types/builder";
+import {
+  DEFAULT_CONDITION_OPERAND,
+  INDICATOR_OUTPUT_BUFFERS,
+  getConditionOperandSourceId,
+} from "@/types/builder";
+import { expandMacroNodes } from "@/lib/mql5-generator/macros";
+import { checkFormula, getFormulaInputs } from "@/lib/mql5-generator/formula";
 
 export interface ValidationIssue {
   type: "error" | "warning";
@@ -30,19 +43,23 @@ export function validateStrategy(
 ): ValidationResult {
   const issues: ValidationIssue[] = [];
 
+  // Macro blocks count as the blocks they expand into
+  const blockNodes = (expandMacroNodes(nodes as BuilderNode[], edges)?.nodes ??
+    nodes) as Node<BuilderNodeData>[];
+
   // Max nodes check
-  if (nodes.length > 50) {
+  if (blockNodes.length > 50) {
     issues.push({
       type: "error",
-      message: `Too many blocks (${nodes.length}). Maximum is 50.`,
+      message: `Too many blocks (${blockNodes.length}). Maximum is 50.`,
     });
   }
 
   // Check for timing block
-  const hasTiming = nodes.some((n) => "timingType" in n.data);
+  const hasTiming = blockNodes.some((n) => "timingType" in n.data);
 
   // Check for signal nodes (indicators, price action, or trading nodes)
-  const hasSignalNode = nodes.some(
+  const hasSignalNode = blockNodes.some(
     (n) => "indicatorType" in n.data || "priceActionType" in n.data || "tradingType" in n.data
   );
 
@@ -100,6 +117,94 @@ export function validateStrategy(
     }
   }
 
+  // Logic gates: need an input to combine and an output to feed
+  for (const n of nodes) {
+    const d = n.data as Record<string, unknown>;
+    if (!("logicType" in d)) continue;
+    const label = (d.label as string) ?? n.type ?? "Logic gate";
+    const inputCount = edges.filter((e) => e.target === n.id).length;
+    const hasOutput = edges.some((e) => e.source === n.id);
+    if (inputCount === 0) {
+      issues.push({
+        type: "warning",
+        message: `"${label}" has no inputs and will be ignored. Connect indicator or price action blocks to it.`,
+        nodeType: n.type,
+        nodeId: n.id,
+        nodeLabel: label,
+      });
+    } else if (d.logicType === "NOT" && inputCount > 1) {
+      issues.push({
+        type: "error",
+        message: `"${label}" inverts a single condition but has ${inputCount} inputs. Combine them with an AND or OR gate first.`,
+        nodeType: n.type,
+        nodeId: n.id,
+        nodeLabel: label,
+      });
+    }
+    if (!hasOutput) {
+      issues.push({
+        type: "warning",
+        message: `"${label}" is not connected to a Buy/Sell block or another gate, so the conditions wired into it never trigger a trade.`,
+        nodeType: n.type,
+        nodeId: n.id,
+        nodeLabel: label,
+      });
+    }
+  }
+
+  // Condition blocks comparing two operands: every indicator operand needs a readable input
+  for (const n of nodes) {
+    const d = n.data as Record<string, unknown>;
+    if (d.indicatorType !== "condition" || d.compareTo !== "OPERAND") continue;
+    const label = (d.label as string) ?? n.type ?? "Condition";
+    for (const id of ["A", "B"] as const) {
+      const field = id === "A" ? "operandA" : "operandB";
+      const operand = (d[field] as ConditionOperand | undefined) ?? DEFAULT_CONDITION_OPERAND;
+      if (operand.source === "PRICE") continue;
+      const sourceId = getConditionOperandSourceId(n.id, id, edges);
+      const source = nodes.find((o) => o.id === sourceId);
+      const sourceType = source
+        ? ((source.data as Record<string, unknown>).indicatorType as string | undefined)
+        : undefined;
+      let message: string | null = null;
+      if (!source) {
+        message = `"${label}" compares operand ${id}, but no indicator is connected to input ${id}.`;
+      } else if (!sourceType || !INDICATOR_OUTPUT_BUFFERS[sourceType]) {
+        message = `"${label}" operand ${id} reads "${source.data.label}", which has no line a condition can compare. Connect a standard indicator.`;
+      }
+      if (message) {
+        issues.push({
+          type: "error",
+          message,
+          nodeType: n.type,
+          nodeId: n.id,
+          nodeLabel: label,
+          field,
+        });
+      }
+    }
+  }
+
+  // Formula blocks: the expression must parse and type-check against the wired inputs
+  for (const n of nodes) {
+    const d = n.data as Record<string, unknown>;
+    if (d.indicatorType !== "formula") continue;
+    const label = (d.label as string) ?? n.type ?? "Formula";
+    const inputs = getFormulaInputs(n.id, nodes as BuilderNode[], edges as BuilderEdge[]);
+    const result = checkFormula((d.expression as string | undefined) ?? "", inputs);
+    if (!result.ok) {
+      const error = result.errors[0];
+      issues.push({
+        type: "error",
+        message: `"${label}" formula, column ${error.start + 1}: ${error.message}`,
+        nodeType: n.type,
+        nodeId: n.id,
+        nodeLabel: label,
+        field: "expression",
+      });
+    }
+  }
+
   // --- Fix 5c: Disconnected clusters (BFS islands)
   if (nodes.length > 1 && edges.length > 0) {
     // Build undirected adjacency
@@ -3,72 +3,35 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { ExportButton } from "./export-button";
 import type { ValidationResult } from "./strategy-validation";
-import type { BuildJsonSchema, BuilderNode } from "@/types/builder";
+import type { BuildJsonSchema } from "@/types/builder";
 import { buildJsonSchema } from "@/lib/validations";
+import { migrateProjectData } from "@/lib/migrations";
+import { getCsrfHeaders } from "@/lib/api-client";
+import { showError } from "@/lib/toast";
+import {
+  DEFAULT_BRANCH,
+  diffBuildVersions,
+  diffHighlights,
+  formatDiffValue,
+  isEmptyDiff,
+  type BranchSummary,
+  type DiffHighlights,
+  type EdgeRef,
+  type MergeConflict,
+  type MergedField,
+  type MergeResolutions,
+  type SkippedChange,
+  type SkippedChangeKind,
+} from "@/lib/versioning";
 
 interface Version {
   id: string;
   versionNo: number;
   createdAt: string;
+  branch: string;
   buildJson: BuildJsonSchema;
 }
 
-interface DiffResult {
-  nodesAdded: BuilderNode[];
-  nodesRemoved: BuilderNode[];
-  nodesChanged: { node: BuilderNode; changes: string[] }[];
-  edgesAdded: number;
-  edgesRemoved: number;
-}
-
-function computeDiff(older: BuildJsonSchema, newer: BuildJsonSchema): DiffResult {
-  const oldNodeMap = new Map(older.nodes.map((n) => [n.id, n]));
-  const newNodeMap = new Map(newer.nodes.map((n) => [n.id, n]));
-
-  const nodesAdded = newer.nodes.filter((n) => !oldNodeMap.has(n.id));
-  const nodesRemoved = older.nodes.filter((n) => !newNodeMap.has(n.id));
-
-  const nodesChanged: DiffResult["nodesChanged"] = [];
-  for (const newNode of newer.nodes) {
-    const oldNode = oldNodeMap.get(newNode.id);
-    if (!oldNode) continue;
-
-    const changes: string[] = [];
-    if (oldNode.data.label !== newNode.data.label) {
-      changes.push(`Label: "${oldNode.data.label}" → "${newNode.data.label}"`);
-    }
-
-    // Compare data properties (shallow)
-    const oldData = oldNode.data as Record<string, unknown>;
-    const newData = newNode.data as Record<string, unknown>;
-    const allKeys = new Set([...Object.keys(oldData), ...Object.keys(newData)]);
-    for (const key of allKeys) {
-      if (key === "label" || key === "category") continue;
-      const oldVal = JSON.stringify(oldData[key]);
-      const newVal = JSON.stringify(newData[key]);
-      if (oldVal !== newVal) {
-        const fmtVal = (v: unknown) => {
-          if (v === undefined) return "—";
-          if (typeof v === "object") return JSON.stringify(v).slice(0, 40);
-          return String(v);
-        };
-        changes.push(`${key}: ${fmtVal(oldData[key])} → ${fmtVal(newData[key])}`);
-      }
-    }
-
-    if (changes.length > 0) {
-      nodesChanged.push({ node: newNode, changes });
-    }
-  }
-
-  const oldEdgeIds = new Set(older.edges.map((e) => `${e.source}->${e.target}`));
-  const newEdgeIds = new Set(newer.edges.map((e) => `${e.source}->${e.target}`));
-  const edgesAdded = [...newEdgeIds].filter((id) => !oldEdgeIds.has(id)).length;
-  const edgesRemoved = [...oldEdgeIds].filter((id) => !newEdgeIds.has(id)).length;
-
-  return { nodesAdded, nodesRemoved, nodesChanged, edgesAdded, edgesRemoved };
-}
-
 interface VersionControlsProps {
   projectId: string;
   hasUnsavedChanges: boolean;
@@ -89,8 +52,36 @@ interface VersionControlsProps {
   redoDepth?: number;
   onUndo?: () => void;
   onRedo?: () => void;
+  /** Highlight the changes of a version comparison on the canvas */
+  onHighlightDiff?: (highlights: DiffHighlights, label: string) => void;
+  /** Branch the builder saves to */
+  branch?: string;
+  onBranchChange?: (branch: string) => void;
+}
+
+/** Server side of a version comparison: materiality and the generated MQL5 diff */
+interface VersionDiffDetails {
+  material: boolean;
+  mql5Diff: string | null;
 }
 
+/** What merging one branch into another would carry over, from the merge route */
+interface MergePreview {
+  source: { branch: string; versionNo: number };
+  target: { branch: string; versionNo: number };
+  base: { branch: string; versionNo: number };
+  applied: MergedField[];
+  conflicts: MergeConflict[];
+  skipped: SkippedChange[];
+}
+
+const SKIPPED_LABELS: Record<SkippedChangeKind, string> = {
+  "block-added": "Block added",
+  "block-removed": "Block removed",
+  "block-deleted-on-target": "Block changed but deleted on target",
+  connection: "Connection changed",
+};
+
 export function VersionControls({
   projectId,
   hasUnsavedChanges,
@@ -111,27 +102,50 @@ export function VersionControls({
   redoDepth = 0,
   onUndo,
   onRedo,
+  onHighlightDiff,
+  branch = DEFAULT_BRANCH,
+  onBranchChange,
 }: VersionControlsProps) {
   const [versions, setVersions] = useState<Version[]>([]);
   const [saving, setSaving] = useState(false);
   const [showDropdown, setShowDropdown] = useState(false);
   const [diffVersions, setDiffVersions] = useState<[number, number] | null>(null);
+  const [diffTab, setDiffTab] = useState<"blocks" | "mql5">("blocks");
+  const [diffDetails, setDiffDetails] = useState<VersionDiffDetails | null>(null);
+  const [diffDetailsError, setDiffDetailsError] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [importJson, setImportJson] = useState("");
   const [importError, setImportError] = useState<string | null>(null);
   const [exportCopied, setExportCopied] = useState(false);
+  const [branches, setBranches] = useState<BranchSummary[]>([]);
+  const [forkVersionId, setForkVersionId] = useState<string | null>(null);
+  const [forkName, setForkName] = useState("");
+  const [forkError, setForkError] = useState<string | null>(null);
+  const [showMerge, setShowMerge] = useState(false);
+  const [mergeSource, setMergeSource] = useState("");
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [mergePreview, setMergePreview] = useState<MergePreview | null>(null);
+  const [mergeResolutions, setMergeResolutions] = useState<MergeResolutions>({});
+  const [mergeError, setMergeError] = useState<string | null>(null);
+  const [merging, setMerging] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
-  // Fetch versions list
+  // Fetch versions and branches
   const fetchVersions = useCallback(
     async (signal?: AbortSignal) => {
       try {
-        const res = await fetch(`/api/projects/${projectId}/versions?limit=20`, { signal });
+        const [res, branchesRes] = await Promise.all([
+          fetch(`/api/projects/${projectId}/versions?limit=20`, { signal }),
+          fetch(`/api/projects/${projectId}/branches`, { signal }),
+        ]);
         if (res.ok) {
           const json = await res.json();
           // Support both paginated { data: [] } and legacy flat array responses
           setVersions(Array.isArray(json) ? json : json.data);
         }
+        if (branchesRes.ok) {
+          setBranches((await branchesRes.json()).data);
+        }
       } catch (err) {
         // Ignore abort errors, silently fail on others
         if (err instanceof DOMException && err.name === "AbortError") return;
@@ -221,8 +235,9 @@ export function VersionControls({
 
       setShowDropdown(false);
       onLoad(versionId, version.buildJson);
+      onBranchChange?.(version.branch);
     },
-    [versions, onLoad, hasUnsavedChanges]
+    [versions, onLoad, onBranchChange, hasUnsavedChanges]
   );
 
   const confirmLoad = useCallback(() => {
@@ -232,7 +247,135 @@ export function VersionControls({
     setPendingLoadId(null);
     setShowDropdown(false);
     onLoad(pendingLoadId, version.buildJson);
-  }, [pendingLoadId, versions, onLoad]);
+    onBranchChange?.(version.branch);
+  }, [pendingLoadId, versions, onLoad, onBranchChange]);
+
+  // Fetch a version's full buildJson and load it, switching to its branch
+  const loadVersionById = useCallback(
+    async (versionId: string) => {
+      const res = await fetch(`/api/projects/${projectId}/versions/${versionId}`);
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const version = await res.json();
+      onLoad(version.id, migrateProjectData(version.buildJson));
+      onBranchChange?.(version.branch);
+    },
+    [projectId, onLoad, onBranchChange]
+  );
+
+  const switchBranch = useCallback(
+    async (name: string) => {
+      const target = branches.find((b) => b.name === name);
+      if (!target || name === branch) return;
+      setShowDropdown(false);
+      try {
+        await loadVersionById(target.headVersionId);
+      } catch {
+        showError("Failed to switch branch", "Please try again.");
+      }
+    },
+    [branches, branch, loadVersionById]
+  );
+
+  const handleFork = useCallback(async () => {
+    if (!forkVersionId) return;
+    setForkError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/versions/${forkVersionId}/branch`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+        body: JSON.stringify({ name: forkName.trim() }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setForkError(data.error ?? "Could not create the branch.");
+        return;
+      }
+      await loadVersionById(data.id);
+      setForkVersionId(null);
+      setForkName("");
+      setShowDropdown(false);
+      await fetchVersions();
+    } catch {
+      setForkError("Could not create the branch.");
+    }
+  }, [forkVersionId, forkName, projectId, loadVersionById, fetchVersions]);
+
+  // Merge the current branch back into the branch it was forked from by default
+  const openMerge = useCallback(() => {
+    const current = branches.find((b) => b.name === branch && b.name !== DEFAULT_BRANCH);
+    setMergeSource(current?.name ?? branches.find((b) => b.name !== DEFAULT_BRANCH)?.name ?? "");
+    setMergeTarget(current?.forkedFrom?.branch ?? DEFAULT_BRANCH);
+    setShowDropdown(false);
+    setShowMerge(true);
+  }, [branches, branch]);
+
+  // Preview the merge whenever the branch pair changes
+  useEffect(() => {
+    if (!showMerge) return;
+    setMergePreview(null);
+    setMergeResolutions({});
+    setMergeError(null);
+    if (!mergeSource || !mergeTarget || mergeSource === mergeTarget) return;
+    const controller = new AbortController();
+    fetch(`/api/projects/${projectId}/branches/merge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+      body: JSON.stringify({ source: mergeSource, target: mergeTarget, dryRun: true }),
+      signal: controller.signal,
+    })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error ?? `HTTP ${res.status}`);
+        setMergePreview(data as MergePreview);
+      })
+      .catch((err) => {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setMergeError(err instanceof Error ? err.message : "Could not preview the merge.");
+      });
+    return () => controller.abort();
+  }, [showMerge, mergeSource, mergeTarget, projectId]);
+
+  const handleMerge = useCallback(async () => {
+    setMerging(true);
+    setMergeError(null);
+    try {
+      const res = await fetch(`/api/projects/${projectId}/branches/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getCsrfHeaders() },
+        body: JSON.stringify({
+          source: mergeSource,
+          target: mergeTarget,
+          resolutions: mergeResolutions,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setMergeError(data.error ?? "Merge failed.");
+        return;
+      }
+      if (data.version) await loadVersionById(data.version.id);
+      setShowMerge(false);
+      await fetchVersions();
+    } catch {
+      setMergeError("Merge failed.");
+    } finally {
+      setMerging(false);
+    }
+  }, [projectId, mergeSource, mergeTarget, mergeResolutions, loadVersionById, fetchVersions]);
+
+  // Close merge modal on Escape key + scroll lock
+  useEffect(() => {
+    if (!showMerge) return;
+    document.body.style.overflow = "hidden";
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === "Escape") setShowMerge(false);
+    }
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.body.style.overflow = "";
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [showMerge]);
 
   // Close import modal on Escape key
   useEffect(() => {
@@ -288,16 +431,72 @@ export function VersionControls({
 
   const latestVersion = versions[0]?.versionNo ?? 0;
   const nextVersion = latestVersion + 1;
+  const branchVersion = versions.find((v) => v.branch === branch)?.versionNo ?? latestVersion;
+  const forkVersion = versions.find((v) => v.id === forkVersionId);
+  const unresolvedConflicts =
+    mergePreview?.conflicts.filter((c) => !mergeResolutions[c.key]).length ?? 0;
+  const nothingToMerge =
+    mergePreview !== null &&
+    mergePreview.applied.length === 0 &&
+    mergePreview.conflicts.length === 0;
 
   // Compute diff between selected versions
-  const diff = useMemo(() => {
+  const diffPair = useMemo(() => {
     if (!diffVersions) return null;
     const [olderNo, newerNo] = diffVersions;
     const older = versions.find((v) => v.versionNo === olderNo);
     const newer = versions.find((v) => v.versionNo === newerNo);
     if (!older || !newer) return null;
-    return computeDiff(older.buildJson, newer.buildJson);
+    return { older, newer };
   }, [diffVersions, versions]);
+  const diff = useMemo(
+    () => (diffPair ? diffBuildVersions(diffPair.older.buildJson, diffPair.newer.buildJson) : null),
+    [diffPair]
+  );
+
+  // Materiality and the MQL5 diff need the fingerprint and generator on the server
+  useEffect(() => {
+    if (!diffPair) return;
+    const controller = new AbortController();
+    setDiffDetails(null);
+    setDiffDetailsError(false);
+    setDiffTab("blocks");
+    fetch(
+      `/api/projects/${projectId}/versions/${diffPair.newer.id}/diff?base=${diffPair.older.id}`,
+      { signal: controller.signal }
+    )
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        setDiffDetails((await res.json()) as VersionDiffDetails);
+      })
+      .catch((err) => {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setDiffDetailsError(true);
+      });
+    return () => controller.abort();
+  }, [diffPair, projectId]);
+
+  const nodeLabel = useCallback(
+    (nodeId: string) => {
+      const node =
+        diffPair?.newer.buildJson.nodes.find((n) => n.id === nodeId) ??
+        diffPair?.older.buildJson.nodes.find((n) => n.id === nodeId);
+      return node?.data.label ?? nodeId;
+    },
+    [diffPair]
+  );
+  const edgeLabel = (e: EdgeRef) => `${nodeLabel(e.source)} → ${nodeLabel(e.target)}`;
+
+  const showDiffOnCanvas = useCallback(() => {
+    if (!diffPair || !diff || !onHighlightDiff) return;
+    onLoad(diffPair.newer.id, diffPair.newer.buildJson);
+    onBranchChange?.(diffPair.newer.branch);
+    onHighlightDiff(
+      diffHighlights(diff),
+      `v${diffPair.older.versionNo} → v${diffPair.newer.versionNo}`
+    );
+    setDiffVersions(null);
+  }, [diffPair, diff, onHighlightDiff, onLoad, onBranchChange]);
 
   return (
     <div className="h-12 bg-[#111114] border-t border-[rgba(79,70,229,0.2)] px-2 md:px-4 flex items-center justify-between gap-1 md:gap-0">
@@ -375,7 +574,72 @@ export function VersionControls({
           </button>
 
           {showDropdown && versions.length > 0 && (
-            <div className="absolute bottom-full left-0 mb-1 w-72 bg-[#1E293B] rounded-lg shadow-[0_8px_24px_rgba(0,0,0,0.4)] border border-[rgba(79,70,229,0.3)] max-h-48 overflow-y-auto">
+            <div className="absolute bottom-full left-0 mb-1 w-80 bg-[#1E293B] rounded-lg shadow-[0_8px_24px_rgba(0,0,0,0.4)] border border-[rgba(79,70,229,0.3)] max-h-72 overflow-y-auto">
+              {/* Branch switcher */}
+              <div className="px-3 py-2 flex items-center gap-2 border-b border-[rgba(79,70,229,0.3)]">
+                <span className="text-[10px] uppercase tracking-wider text-[#7C8DB0]">Branch</span>
+                <select
+                  value={branch}
+                  onChange={(e) => switchBranch(e.target.value)}
+                  disabled={hasUnsavedChanges || branches.length < 2}
+                  title={
+                    hasUnsavedChanges ? "Save your changes before switching branch" : undefined
+                  }
+                  className="flex-1 min-w-0 px-2 py-1 text-xs bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded text-white disabled:opacity-60"
+                >
+                  {branches.length === 0 && <option value={branch}>{branch}</option>}
+                  {branches.map((b) => (
+                    <option key={b.name} value={b.name}>
+                      {b.name} (v{b.headVersionNo})
+                    </option>
+                  ))}
+                </select>
+                {branches.length > 1 && (
+                  <button
+                    onClick={openMerge}
+                    className="px-2 py-1 text-[10px] text-[#22D3EE] hover:bg-[rgba(34,211,238,0.15)] rounded transition-colors flex-shrink-0"
+                  >
+                    Merge…
+                  </button>
+                )}
+              </div>
+              {forkVersion && (
+                <div className="px-3 py-2.5 bg-[rgba(34,211,238,0.08)] border-b border-[rgba(34,211,238,0.3)]">
+                  <p className="text-xs text-[#22D3EE] mb-2">
+                    New branch from version {forkVersion.versionNo}
+                  </p>
+                  <input
+                    value={forkName}
+                    onChange={(e) => setForkName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && forkName.trim()) handleFork();
+                    }}
+                    placeholder="e.g. tighter SL experiment"
+                    maxLength={60}
+                    autoFocus
+                    className="w-full px-2 py-1 text-xs bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded text-white placeholder-[#52525B] focus:outline-none focus:ring-1 focus:ring-[#22D3EE]"
+                  />
+                  {forkError && <p className="text-[10px] text-[#EF4444] mt-1">{forkError}</p>}
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => {
+                        setForkVersionId(null);
+                        setForkError(null);
+                      }}
+                      className="flex-1 px-2 py-1 text-xs text-[#FAFAFA] hover:text-white bg-[#1E293B] border border-[rgba(79,70,229,0.3)] rounded transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleFork}
+                      disabled={!forkName.trim()}
+                      className="flex-1 px-2 py-1 text-xs font-medium text-[#0F172A] bg-[#22D3EE] hover:bg-[#06B6D4] disabled:opacity-50 rounded transition-colors"
+                    >
+                      Create branch
+                    </button>
+                  </div>
+                </div>
+              )}
               {pendingLoadId && (
                 <div className="px-3 py-2.5 bg-[rgba(251,191,36,0.1)] border-b border-[rgba(251,191,36,0.3)]">
                   <p className="text-xs text-[#FBBF24] mb-2">
@@ -406,7 +670,14 @@ export function VersionControls({
                     onClick={() => handleLoad(version.id)}
                     className="flex-1 px-4 py-2.5 text-left text-sm flex justify-between items-center text-white"
                   >
-                    <span className="font-medium">Version {version.versionNo}</span>
+                    <span className="font-medium">
+                      Version {version.versionNo}
+                      {version.branch !== DEFAULT_BRANCH && (
+                        <span className="ml-1.5 text-[10px] font-normal text-[#22D3EE]">
+                          {version.branch}
+                        </span>
+                      )}
+                    </span>
                     <span className="text-[#7C8DB0] text-xs">
                       {new Date(version.createdAt).toLocaleDateString(undefined, {
                         day: "numeric",
@@ -428,6 +699,22 @@ export function VersionControls({
                       Compare
                     </button>
                   )}
+                  <button
+                    onClick={() => {
+                      setForkVersionId(version.id);
+                      setForkName("");
+                      setForkError(null);
+                    }}
+                    disabled={hasUnsavedChanges}
+                    className="px-2 py-1 mr-2 text-[10px] text-[#22D3EE] hover:bg-[rgba(34,211,238,0.15)] disabled:opacity-40 disabled:cursor-not-allowed rounded transition-colors flex-shrink-0"
+                    title={
+                      hasUnsavedChanges
+                        ? "Save your changes before branching"
+                        : `Start a new branch from v${version.versionNo}`
+                    }
+                  >
+                    Branch
+                  </button>
                 </div>
               ))}
             </div>
@@ -570,6 +857,14 @@ export function VersionControls({
 
       {/* Right side */}
       <div className="flex items-center gap-2 md:gap-4 text-sm">
+        {branch !== DEFAULT_BRANCH && (
+          <span
+            className="hidden sm:inline max-w-[160px] truncate px-2 py-0.5 text-xs text-[#22D3EE] border border-[rgba(34,211,238,0.3)] rounded-full"
+            title={`Saving to branch "${branch}"`}
+          >
+            {branch}
+          </span>
+        )}
         {/* Save status */}
         {autoSaveStatus === "saving" ? (
           <span className="flex items-center gap-1.5 text-[#A1A1AA]" title="Autosaving...">
@@ -632,7 +927,7 @@ export function VersionControls({
         ) : versions.length > 0 ? (
           <span
             className="flex items-center gap-1.5 text-[#22D3EE]"
-            title={`Saved (v${latestVersion})`}
+            title={`Saved (v${branchVersion})`}
           >
             <svg
               className="w-4 h-4 flex-shrink-0"
@@ -648,7 +943,7 @@ export function VersionControls({
               />
             </svg>
             <span className="hidden sm:inline">Saved</span>{" "}
-            <span className="hidden md:inline">(v{latestVersion})</span>
+            <span className="hidden md:inline">(v{branchVersion})</span>
           </span>
         ) : (
           <span className="text-[#7C8DB0] hidden md:inline">No versions saved yet</span>
@@ -719,7 +1014,7 @@ export function VersionControls({
       )}
 
       {/* Version not found message */}
-      {!diff && diffVersions && (
+      {!diffPair && diffVersions && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
           <div
             role="dialog"
@@ -740,19 +1035,244 @@ export function VersionControls({
       )}
 
       {/* Version Diff Modal */}
-      {diff && diffVersions && (
+      {diff && diffPair && (
         <div className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50">
           <div
             role="dialog"
             aria-modal="true"
-            className="bg-[#111114] border border-[rgba(79,70,229,0.3)] rounded-xl shadow-[0_8px_32px_rgba(0,0,0,0.5)] w-full max-w-lg mx-4 max-h-[70vh] flex flex-col"
+            className="bg-[#111114] border border-[rgba(79,70,229,0.3)] rounded-xl shadow-[0_8px_32px_rgba(0,0,0,0.5)] w-full max-w-3xl mx-4 max-h-[80vh] flex flex-col"
           >
             <div className="p-4 border-b border-[rgba(79,70,229,0.2)] flex items-center justify-between">
               <h3 className="text-sm font-semibold text-white">
-                Changes: v{diffVersions[0]} → v{diffVersions[1]}
+                Changes: v{diffPair.older.versionNo} → v{diffPair.newer.versionNo}
               </h3>
+              <div className="flex items-center gap-1">
+                {(["blocks", "mql5"] as const).map((tab) => (
+                  <button
+                    key={tab}
+                    onClick={() => setDiffTab(tab)}
+                    className={`px-2.5 py-1 text-xs rounded-md transition-colors ${
+                      diffTab === tab
+                        ? "bg-[rgba(79,70,229,0.25)] text-white"
+                        : "text-[#7C8DB0] hover:text-white"
+                    }`}
+                  >
+                    {tab === "blocks" ? "Blocks" : "MQL5"}
+                  </button>
+                ))}
+                <button
+                  onClick={() => setDiffVersions(null)}
+                  className="ml-2 text-[#7C8DB0] hover:text-white p-1 transition-colors"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M6 18L18 6M6 6l12 12"
+                    />
+                  </svg>
+                </button>
+              </div>
+            </div>
+
+            {/* Materiality note */}
+            {diffDetails && (
+              <div
+                className={`mx-4 mt-4 px-3 py-2 rounded-lg text-xs border ${
+                  diffDetails.material
+                    ? "text-[#FBBF24] bg-[rgba(251,191,36,0.08)] border-[rgba(251,191,36,0.3)]"
+                    : "text-[#A1A1AA] bg-[rgba(79,70,229,0.08)] border-[rgba(79,70,229,0.2)]"
+                }`}
+              >
+                {diffDetails.material
+                  ? "Material change: the strategy fingerprint differs, so exporting this version records a new strategy version with its own track record."
+                  : "Not material: the strategy fingerprint is unchanged (layout, labels or magic number only)."}
+              </div>
+            )}
+
+            {diffTab === "blocks" ? (
+              <div className="p-4 overflow-y-auto space-y-4 text-sm">
+                {isEmptyDiff(diff) ? (
+                  <p className="text-[#7C8DB0] text-center py-4">No differences found</p>
+                ) : (
+                  <>
+                    {diff.nodesAdded.length > 0 && (
+                      <div>
+                        <h4 className="text-[#22D3EE] font-medium mb-2 flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full bg-[#22D3EE]" />
+                          Blocks added ({diff.nodesAdded.length})
+                        </h4>
+                        <ul className="space-y-1 pl-4">
+                          {diff.nodesAdded.map((n) => (
+                            <li key={n.id} className="text-[#FAFAFA]">
+                              {n.data.label} <span className="text-[#7C8DB0]">({n.type})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {diff.nodesRemoved.length > 0 && (
+                      <div>
+                        <h4 className="text-[#EF4444] font-medium mb-2 flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full bg-[#EF4444]" />
+                          Blocks removed ({diff.nodesRemoved.length})
+                        </h4>
+                        <ul className="space-y-1 pl-4">
+                          {diff.nodesRemoved.map((n) => (
+                            <li key={n.id} className="text-[#FAFAFA]">
+                              {n.data.label} <span className="text-[#7C8DB0]">({n.type})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {diff.nodesChanged.length > 0 && (
+                      <div>
+                        <h4 className="text-[#FBBF24] font-medium mb-2 flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full bg-[#FBBF24]" />
+                          Blocks modified ({diff.nodesChanged.length})
+                        </h4>
+                        <ul className="space-y-2 pl-4">
+                          {diff.nodesChanged.map(({ nodeId, label, changes }) => (
+                            <li key={nodeId}>
+                              <span className="text-[#FAFAFA] font-medium">{label}</span>
+                              <ul className="mt-1 space-y-0.5">
+                                {changes.map((c) => (
+                                  <li key={c.field} className="text-xs text-[#A1A1AA] pl-3">
+                                    {c.field}: {formatDiffValue(c.before)} →{" "}
+                                    {formatDiffValue(c.after)}
+                                  </li>
+                                ))}
+                              </ul>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {(diff.edgesAdded.length > 0 ||
+                      diff.edgesRemoved.length > 0 ||
+                      diff.edgesRewired.length > 0) && (
+                      <div>
+                        <h4 className="text-[#A78BFA] font-medium mb-2 flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full bg-[#A78BFA]" />
+                          Connections
+                        </h4>
+                        <ul className="pl-4 text-xs text-[#FAFAFA] space-y-1">
+                          {diff.edgesAdded.map((e) => (
+                            <li key={`+${e.id}`}>+ {edgeLabel(e)}</li>
+                          ))}
+                          {diff.edgesRemoved.map((e) => (
+                            <li key={`-${e.id}`}>− {edgeLabel(e)}</li>
+                          ))}
+                          {diff.edgesRewired.map((r) => (
+                            <li key={`~${r.before.id}`}>
+                              ~ {edgeLabel(r.before)} <span className="text-[#7C8DB0]">now</span>{" "}
+                              {edgeLabel(r.after)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {diff.settingsChanged.length > 0 && (
+                      <div>
+                        <h4 className="text-[#7C8DB0] font-medium mb-2 flex items-center gap-1.5">
+                          <span className="w-2 h-2 rounded-full bg-[#7C8DB0]" />
+                          Settings ({diff.settingsChanged.length})
+                        </h4>
+                        <ul className="pl-4 space-y-0.5">
+                          {diff.settingsChanged.map((c) => (
+                            <li key={c.field} className="text-xs text-[#A1A1AA]">
+                              {c.field}: {formatDiffValue(c.before)} → {formatDiffValue(c.after)}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            ) : (
+              <div className="p-4 overflow-auto">
+                {diffDetailsError ? (
+                  <p className="text-[#EF4444] text-sm text-center py-4">
+                    Could not generate the MQL5 diff.
+                  </p>
+                ) : !diffDetails ? (
+                  <p className="text-[#7C8DB0] text-sm text-center py-4">Generating MQL5…</p>
+                ) : diffDetails.mql5Diff === null ? (
+                  <p className="text-[#7C8DB0] text-sm text-center py-4">
+                    One of the versions is not a valid strategy, so it has no MQL5 to compare.
+                  </p>
+                ) : diffDetails.mql5Diff === "" ? (
+                  <p className="text-[#7C8DB0] text-sm text-center py-4">
+                    Both versions generate the same MQL5.
+                  </p>
+                ) : (
+                  <pre className="text-[11px] leading-4 font-mono">
+                    {diffDetails.mql5Diff.split("\n").map((line, i) => (
+                      <div
+                        key={i}
+                        className={
+                          line.startsWith("@@")
+                            ? "text-[#A78BFA]"
+                            : line.startsWith("+")
+                              ? "text-[#22D3EE] bg-[rgba(34,211,238,0.06)]"
+                              : line.startsWith("-")
+                                ? "text-[#EF4444] bg-[rgba(239,68,68,0.06)]"
+                                : "text-[#7C8DB0]"
+                        }
+                      >
+                        {line || " "}
+                      </div>
+                    ))}
+                  </pre>
+                )}
+              </div>
+            )}
+
+            <div className="p-3 border-t border-[rgba(79,70,229,0.2)] flex justify-end gap-2">
+              {onHighlightDiff && (
+                <button
+                  onClick={showDiffOnCanvas}
+                  disabled={hasUnsavedChanges}
+                  title={
+                    hasUnsavedChanges
+                      ? "Save your changes first: this loads the newer version onto the canvas"
+                      : `Load v${diffPair.newer.versionNo} and highlight what changed`
+                  }
+                  className="px-4 py-1.5 text-sm font-medium text-white bg-[#6366F1] rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                  Show on canvas
+                </button>
+              )}
               <button
                 onClick={() => setDiffVersions(null)}
+                className="px-4 py-1.5 text-sm text-[#FAFAFA] hover:text-white transition-colors"
+              >
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Merge Branches Modal */}
+      {showMerge && (
+        <div
+          className="fixed inset-0 bg-black/80 backdrop-blur-sm flex items-center justify-center z-50"
+          onClick={() => setShowMerge(false)}
+        >
+          <div
+            role="dialog"
+            aria-modal="true"
+            className="bg-[#111114] border border-[rgba(79,70,229,0.3)] rounded-xl shadow-[0_8px_32px_rgba(0,0,0,0.5)] w-full max-w-2xl mx-4 max-h-[80vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="p-4 border-b border-[rgba(79,70,229,0.2)] flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-white">Merge branches</h3>
+              <button
+                onClick={() => setShowMerge(false)}
                 className="text-[#7C8DB0] hover:text-white p-1 transition-colors"
               >
                 <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -765,88 +1285,158 @@ export function VersionControls({
                 </svg>
               </button>
             </div>
+
             <div className="p-4 overflow-y-auto space-y-4 text-sm">
-              {diff.nodesAdded.length === 0 &&
-              diff.nodesRemoved.length === 0 &&
-              diff.nodesChanged.length === 0 &&
-              diff.edgesAdded === 0 &&
-              diff.edgesRemoved === 0 ? (
-                <p className="text-[#7C8DB0] text-center py-4">No differences found</p>
+              <div className="flex items-center gap-2 text-xs text-[#A1A1AA]">
+                <span>Merge</span>
+                <select
+                  value={mergeSource}
+                  onChange={(e) => setMergeSource(e.target.value)}
+                  className="px-2 py-1 bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded text-white"
+                >
+                  {branches.map((b) => (
+                    <option key={b.name} value={b.name}>
+                      {b.name}
+                    </option>
+                  ))}
+                </select>
+                <span>into</span>
+                <select
+                  value={mergeTarget}
+                  onChange={(e) => setMergeTarget(e.target.value)}
+                  className="px-2 py-1 bg-[#0F172A] border border-[rgba(79,70,229,0.3)] rounded text-white"
+                >
+                  {branches.map((b) => (
+                    <option key={b.name} value={b.name}>
+                      {b.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-[#7C8DB0]">
+                Block parameters and settings changed on the source branch are copied to the target.
+                Added or removed blocks and connections are not merged.
+              </p>
+
+              {mergeSource === mergeTarget ? (
+                <p className="text-[#7C8DB0] text-center py-4">Pick two different branches.</p>
+              ) : mergeError && !mergePreview ? (
+                <p className="text-[#EF4444] text-center py-4">{mergeError}</p>
+              ) : !mergePreview ? (
+                <p className="text-[#7C8DB0] text-center py-4">Comparing branches…</p>
+              ) : nothingToMerge ? (
+                <p className="text-[#7C8DB0] text-center py-4">
+                  Nothing to merge: {mergePreview.target.branch} already has every parameter change
+                  from {mergePreview.source.branch}.
+                </p>
               ) : (
                 <>
-                  {diff.nodesAdded.length > 0 && (
+                  <p className="text-xs text-[#A1A1AA]">
+                    {mergePreview.source.branch} v{mergePreview.source.versionNo} →{" "}
+                    {mergePreview.target.branch} v{mergePreview.target.versionNo}, compared from v
+                    {mergePreview.base.versionNo}
+                  </p>
+                  {mergePreview.applied.length > 0 && (
                     <div>
                       <h4 className="text-[#22D3EE] font-medium mb-2 flex items-center gap-1.5">
                         <span className="w-2 h-2 rounded-full bg-[#22D3EE]" />
-                        Blocks added ({diff.nodesAdded.length})
+                        Changes to merge ({mergePreview.applied.length})
                       </h4>
-                      <ul className="space-y-1 pl-4">
-                        {diff.nodesAdded.map((n) => (
-                          <li key={n.id} className="text-[#FAFAFA]">
-                            {n.data.label} <span className="text-[#7C8DB0]">({n.type})</span>
+                      <ul className="pl-4 space-y-0.5">
+                        {mergePreview.applied.map((c) => (
+                          <li key={`${c.nodeId}:${c.field}`} className="text-xs text-[#A1A1AA]">
+                            <span className="text-[#FAFAFA]">{c.label}</span> · {c.field}:{" "}
+                            {formatDiffValue(c.before)} → {formatDiffValue(c.after)}
                           </li>
                         ))}
                       </ul>
                     </div>
                   )}
-                  {diff.nodesRemoved.length > 0 && (
-                    <div>
-                      <h4 className="text-[#EF4444] font-medium mb-2 flex items-center gap-1.5">
-                        <span className="w-2 h-2 rounded-full bg-[#EF4444]" />
-                        Blocks removed ({diff.nodesRemoved.length})
-                      </h4>
-                      <ul className="space-y-1 pl-4">
-                        {diff.nodesRemoved.map((n) => (
-                          <li key={n.id} className="text-[#FAFAFA]">
-                            {n.data.label} <span className="text-[#7C8DB0]">({n.type})</span>
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-                  {diff.nodesChanged.length > 0 && (
+                  {mergePreview.conflicts.length > 0 && (
                     <div>
                       <h4 className="text-[#FBBF24] font-medium mb-2 flex items-center gap-1.5">
                         <span className="w-2 h-2 rounded-full bg-[#FBBF24]" />
-                        Blocks modified ({diff.nodesChanged.length})
+                        Conflicts ({mergePreview.conflicts.length})
                       </h4>
-                      <ul className="space-y-2 pl-4">
-                        {diff.nodesChanged.map(({ node, changes }) => (
-                          <li key={node.id}>
-                            <span className="text-[#FAFAFA] font-medium">{node.data.label}</span>
-                            <ul className="mt-1 space-y-0.5">
-                              {changes.map((c, i) => (
-                                <li key={i} className="text-xs text-[#A1A1AA] pl-3">
-                                  {c}
-                                </li>
+                      <ul className="pl-4 space-y-2">
+                        {mergePreview.conflicts.map((c) => (
+                          <li key={c.key} className="text-xs">
+                            <p className="text-[#A1A1AA]">
+                              <span className="text-[#FAFAFA]">{c.label}</span> · {c.field} (was{" "}
+                              {formatDiffValue(c.base)})
+                            </p>
+                            <div className="mt-1 flex gap-2">
+                              {(["target", "source"] as const).map((side) => (
+                                <button
+                                  key={side}
+                                  onClick={() =>
+                                    setMergeResolutions((prev) => ({ ...prev, [c.key]: side }))
+                                  }
+                                  className={`px-2 py-1 rounded border transition-colors ${
+                                    mergeResolutions[c.key] === side
+                                      ? "border-[#FBBF24] text-white bg-[rgba(251,191,36,0.12)]"
+                                      : "border-[rgba(79,70,229,0.3)] text-[#A1A1AA] hover:text-white"
+                                  }`}
+                                >
+                                  Keep {side === "target" ? mergeTarget : mergeSource}:{" "}
+                                  {formatDiffValue(side === "target" ? c.target : c.source)}
+                                </button>
                               ))}
-                            </ul>
+                            </div>
                           </li>
                         ))}
                       </ul>
                     </div>
                   )}
-                  {(diff.edgesAdded > 0 || diff.edgesRemoved > 0) && (
+                  {mergePreview.skipped.length > 0 && (
                     <div>
-                      <h4 className="text-[#A78BFA] font-medium mb-2 flex items-center gap-1.5">
-                        <span className="w-2 h-2 rounded-full bg-[#A78BFA]" />
-                        Connections
+                      <h4 className="text-[#7C8DB0] font-medium mb-2 flex items-center gap-1.5">
+                        <span className="w-2 h-2 rounded-full bg-[#7C8DB0]" />
+                        Not merged ({mergePreview.skipped.length})
                       </h4>
-                      <div className="pl-4 text-[#FAFAFA] space-y-1">
-                        {diff.edgesAdded > 0 && <p>+{diff.edgesAdded} added</p>}
-                        {diff.edgesRemoved > 0 && <p>-{diff.edgesRemoved} removed</p>}
-                      </div>
+                      <ul className="pl-4 space-y-0.5">
+                        {mergePreview.skipped.map((c, i) => (
+                          <li key={i} className="text-xs text-[#7C8DB0]">
+                            {SKIPPED_LABELS[c.kind]}: {c.label}
+                          </li>
+                        ))}
+                      </ul>
                     </div>
                   )}
                 </>
               )}
+              {mergeError && mergePreview && <p className="text-xs text-[#EF4444]">{mergeError}</p>}
             </div>
-            <div className="p-3 border-t border-[rgba(79,70,229,0.2)] flex justify-end">
+
+            <div className="p-3 border-t border-[rgba(79,70,229,0.2)] flex items-center justify-end gap-2">
+              {unresolvedConflicts > 0 && (
+                <span className="mr-auto text-xs text-[#FBBF24]">
+                  {unresolvedConflicts} conflict{unresolvedConflicts !== 1 ? "s" : ""} to resolve
+                </span>
+              )}
               <button
-                onClick={() => setDiffVersions(null)}
+                onClick={() => setShowMerge(false)}
                 className="px-4 py-1.5 text-sm text-[#FAFAFA] hover:text-white transition-colors"
               >
-                Close
+                Cancel
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={
+                  !mergePreview ||
+                  nothingToMerge ||
+                  unresolvedConflicts > 0 ||
+                  merging ||
+                  hasUnsavedChanges
+                }
+                title={
+                  hasUnsavedChanges
+                    ? "Save your changes first: the merged version is loaded onto the canvas"
+                    : undefined
+                }
+                className="px-4 py-1.5 text-sm font-medium text-white bg-[#6366F1] rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {merging ? "Merging…" : `Merge into ${mergeTarget}`}
               </button>
             </div>
           </div>
@@ -46,6 +46,7 @@ export default async function ProjectPage({ params }: Props) {
     ? {
         id: project.versions[0].id,
         versionNo: project.versions[0].versionNo,
+        branch: project.versions[0].branch,
         buildJson: migrateProjectData(project.versions[0].buildJson),
       }
     : null;
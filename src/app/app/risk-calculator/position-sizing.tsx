@@ -1,6 +1,14 @@
 "use client";
 
 import { useState, useMemo } from "react";
+import type { PositionSizingMethod } from "@/types/builder";
+import {
+  DEFAULT_SIZING_PARAMS,
+  kellyRiskPercent,
+  previewLotSize,
+  sizingRiskAmount,
+  type PositionSizingParams,
+} from "@/lib/position-sizing";
 
 // ============================================
 // TYPES
@@ -213,6 +221,164 @@ function ComparisonBars({ results }: { results: SizingResults }) {
   );
 }
 
+// ============================================
+// EA SIZING PREVIEW
+// ============================================
+
+const EA_METHODS: { value: PositionSizingMethod; label: string }[] = [
+  { value: "FIXED_LOT", label: "Fixed Lot" },
+  { value: "RISK_PERCENT", label: "Risk %" },
+  { value: "VOLATILITY_TARGET", label: "Volatility Target (ATR)" },
+  { value: "FIXED_FRACTIONAL_STEP", label: "Risk % with Equity Steps" },
+  { value: "KELLY", label: "Kelly Fraction" },
+  { value: "FIXED_MONEY", label: "Fixed Money Risk" },
+];
+
+/**
+ * Lot size the exported EA opens for the Buy/Sell block's sizing method, using the
+ * calculator's balance, stop loss and pip value (lot step 0.01, 0.01 to 100 lots).
+ */
+function EaSizingPreview({ inputs }: { inputs: PositionSizingInputs }) {
+  const [params, setParams] = useState<PositionSizingParams & { atrPips: number }>({
+    method: "VOLATILITY_TARGET",
+    fixedLot: 0.1,
+    riskPercent: inputs.riskPercent,
+    ...DEFAULT_SIZING_PARAMS,
+    atrPips: 20,
+  });
+  const update = (updates: Partial<typeof params>) => setParams((p) => ({ ...p, ...updates }));
+
+  // Kelly inputs come from the calculator's win rate and average win / loss
+  const sizing: PositionSizingParams = {
+    ...params,
+    riskPercent: inputs.riskPercent,
+    kellyWinRate: inputs.winRate,
+    kellyPayoffRatio: inputs.avgLoss > 0 ? inputs.avgWin / inputs.avgLoss : 0,
+  };
+  const distancePips = params.method === "VOLATILITY_TARGET" ? params.atrPips : inputs.slDistance;
+  const lots = previewLotSize(sizing, {
+    balance: inputs.accountBalance,
+    distancePips,
+    pipValue: inputs.pipValue,
+  });
+  const amount = sizingRiskAmount(sizing, inputs.accountBalance);
+
+  return (
+    <div className="bg-[#111114] border border-[rgba(79,70,229,0.2)] rounded-xl p-6">
+      <h3 className="text-sm font-semibold text-white mb-1">EA Lot Size Preview</h3>
+      <p className="text-xs text-[#7C8DB0] mb-4">
+        The lot size an exported EA opens with the same inputs, using the sizing methods of the
+        Buy/Sell blocks.
+      </p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-[#FAFAFA] mb-1">Sizing Method</label>
+          <select
+            value={params.method}
+            onChange={(e) => update({ method: e.target.value as PositionSizingMethod })}
+            className="w-full px-4 py-2.5 bg-[#1E293B] border border-[rgba(79,70,229,0.3)] rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#22D3EE] focus:border-transparent transition-all duration-200"
+          >
+            {EA_METHODS.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {params.method === "FIXED_LOT" && (
+          <SizingInput
+            label="Lot Size"
+            value={params.fixedLot}
+            onChange={(v) => update({ fixedLot: v })}
+            min={0.01}
+            max={100}
+            step={0.01}
+          />
+        )}
+        {params.method === "VOLATILITY_TARGET" && (
+          <>
+            <SizingInput
+              label="Risk per ATR Move"
+              value={params.volTargetPercent ?? DEFAULT_SIZING_PARAMS.volTargetPercent}
+              onChange={(v) => update({ volTargetPercent: v })}
+              min={0.1}
+              max={20}
+              step={0.1}
+              suffix="%"
+            />
+            <SizingInput
+              label="Current ATR"
+              value={params.atrPips}
+              onChange={(v) => update({ atrPips: v })}
+              min={0.1}
+              max={5000}
+              step={1}
+              suffix="pips"
+              hint="ATR of the last closed bar on the sizing timeframe."
+            />
+          </>
+        )}
+        {params.method === "FIXED_FRACTIONAL_STEP" && (
+          <SizingInput
+            label="Equity Step"
+            value={params.equityStep ?? DEFAULT_SIZING_PARAMS.equityStep}
+            onChange={(v) => update({ equityStep: v })}
+            min={1}
+            max={10000000}
+            step={100}
+            prefix="$"
+            hint="Fixed Risk % applies to the balance rounded down to this step."
+          />
+        )}
+        {params.method === "KELLY" && (
+          <>
+            <SizingInput
+              label="Kelly Fraction"
+              value={params.kellyFraction ?? DEFAULT_SIZING_PARAMS.kellyFraction}
+              onChange={(v) => update({ kellyFraction: v })}
+              min={0.05}
+              max={1}
+              step={0.05}
+              hint="Uses the win rate and average win / loss above."
+            />
+            <SizingInput
+              label="Max Risk"
+              value={params.kellyCapPercent ?? DEFAULT_SIZING_PARAMS.kellyCapPercent}
+              onChange={(v) => update({ kellyCapPercent: v })}
+              min={0.1}
+              max={20}
+              step={0.1}
+              suffix="%"
+            />
+          </>
+        )}
+        {params.method === "FIXED_MONEY" && (
+          <SizingInput
+            label="Risk Amount"
+            value={params.riskAmount ?? DEFAULT_SIZING_PARAMS.riskAmount}
+            onChange={(v) => update({ riskAmount: v })}
+            min={1}
+            max={1000000}
+            step={10}
+            prefix="$"
+          />
+        )}
+      </div>
+      <div className="mt-4 pt-4 border-t border-[rgba(79,70,229,0.15)] flex flex-wrap items-baseline gap-x-6 gap-y-1">
+        <p className="text-2xl font-bold text-white">
+          {lots.toFixed(2)} <span className="text-sm text-[#7C8DB0]">lots</span>
+        </p>
+        {amount !== null && (
+          <p className="text-xs text-[#7C8DB0]">
+            Risking ${amount.toFixed(2)} over {distancePips} pips
+            {params.method === "KELLY" && ` (${kellyRiskPercent(sizing).toFixed(2)}% of balance)`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ============================================
 // MAIN COMPONENT
 // ============================================
@@ -391,6 +557,8 @@ export function PositionSizing() {
         </div>
       </div>
 
+      <EaSizingPreview inputs={inputs} />
+
       {/* Visual Comparison */}
       <div className="bg-[#111114] border border-[rgba(79,70,229,0.2)] rounded-xl p-6">
         <h3 className="text-sm font-semibold text-white mb-4">Lot Size Comparison</h3>
@@ -8,6 +8,22 @@ interface CorrelationData {
   labels: string[];
 }
 
+interface PortfolioRiskData {
+  simulation: {
+    ruinProbability: number;
+    ruinDrawdownPct: number;
+    simulationsRun: number;
+    horizonDays: number;
+    blockLength: number;
+    historyDays: number;
+    maxDrawdownPct: { p50: number; p90: number; p95: number; p99: number };
+    returnPct: { p5: number; p50: number; p95: number };
+  } | null;
+  /** First day of the joint history (YYYY-MM-DD) */
+  historyStart: string | null;
+  instances: { id: string; eaName: string; totalPnl: number; worstDay: number }[];
+}
+
 interface DailyPnlEntry {
   date: string;
   pnl: number;
@@ -48,6 +64,7 @@ function calculateMaxDrawdown(heartbeats: { equity: number; createdAt: string }[
 export function RiskDashboardClient() {
   const [instances, setInstances] = useState<EAInstance[]>([]);
   const [correlation, setCorrelation] = useState<CorrelationData | null>(null);
+  const [portfolioRisk, setPortfolioRisk] = useState<PortfolioRiskData | null>(null);
   const [dailyPnl, setDailyPnl] = useState<DailyPnlEntry[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -55,9 +72,10 @@ export function RiskDashboardClient() {
     let cancelled = false;
     async function fetchData() {
       try {
-        const [statusRes, corrRes, pnlRes] = await Promise.all([
+        const [statusRes, corrRes, riskRes, pnlRes] = await Promise.all([
           fetch("/api/live/status"),
           fetch("/api/live/correlation"),
+          fetch("/api/live/portfolio-risk"),
           fetch("/api/live/daily-pnl"),
         ]);
 
@@ -69,6 +87,9 @@ export function RiskDashboardClient() {
           if (corrRes.ok) {
             setCorrelation(await corrRes.json());
           }
+          if (riskRes.ok) {
+            setPortfolioRisk(await riskRes.json());
+          }
           if (pnlRes.ok) {
             const json = await pnlRes.json();
             setDailyPnl(json.dailyPnl ?? []);
@@ -256,6 +277,81 @@ export function RiskDashboardClient() {
         </div>
       )}
 
+      {/* Portfolio Monte Carlo */}
+      {portfolioRisk?.simulation && (
+        <div className="bg-[#111114] border border-[rgba(255,255,255,0.06)] rounded-xl p-6">
+          <h3 className="text-sm font-medium text-white mb-4">Portfolio Monte Carlo</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-[#71717A] mb-1">
+                Ruin Probability
+              </p>
+              <p
+                className={`text-lg font-semibold ${portfolioRisk.simulation.ruinProbability > 0.05 ? "text-[#EF4444]" : "text-white"}`}
+              >
+                {(portfolioRisk.simulation.ruinProbability * 100).toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-[#71717A] mb-1">Median DD</p>
+              <p className="text-lg font-semibold text-white">
+                {portfolioRisk.simulation.maxDrawdownPct.p50.toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-[#71717A] mb-1">
+                95th pct DD
+              </p>
+              <p className="text-lg font-semibold text-[#F59E0B]">
+                {portfolioRisk.simulation.maxDrawdownPct.p95.toFixed(1)}%
+              </p>
+            </div>
+            <div>
+              <p className="text-[10px] uppercase tracking-wider text-[#71717A] mb-1">
+                99th pct DD
+              </p>
+              <p className="text-lg font-semibold text-[#EF4444]">
+                {portfolioRisk.simulation.maxDrawdownPct.p99.toFixed(1)}%
+              </p>
+            </div>
+          </div>
+          <p className="text-xs text-[#A1A1AA] mt-4">
+            {portfolioRisk.simulation.horizonDays}-day return range:{" "}
+            {portfolioRisk.simulation.returnPct.p5.toFixed(1)}% (5th pct) to{" "}
+            {portfolioRisk.simulation.returnPct.p95.toFixed(1)}% (95th pct), median{" "}
+            {portfolioRisk.simulation.returnPct.p50.toFixed(1)}%.
+          </p>
+          <p className="text-[10px] text-[#71717A] mt-3">
+            {portfolioRisk.simulation.simulationsRun.toLocaleString()} paths resampled from the
+            joint daily P&L of {portfolioRisk.instances.length} EA
+            {portfolioRisk.instances.length === 1 ? "" : "s"} over the{" "}
+            {portfolioRisk.simulation.historyDays} days since {portfolioRisk.historyStart} (the
+            first day every EA was running), in {portfolioRisk.simulation.blockLength}
+            -day blocks so correlated losing days stay together. Ruin = equity{" "}
+            {portfolioRisk.simulation.ruinDrawdownPct}% below today&apos;s balance.
+          </p>
+          <div className="mt-3 space-y-1">
+            {portfolioRisk.instances.map((inst) => (
+              <div key={inst.id} className="flex justify-between text-[10px] text-[#71717A]">
+                <span className="truncate pr-3">{inst.eaName}</span>
+                <span>
+                  P&L {formatCurrency(inst.totalPnl)} · worst day {formatCurrency(inst.worstDay)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      {portfolioRisk && !portfolioRisk.simulation && portfolioRisk.instances.length > 0 && (
+        <div className="bg-[#111114] border border-[rgba(255,255,255,0.06)] rounded-xl p-6">
+          <h3 className="text-sm font-medium text-white mb-2">Portfolio Monte Carlo</h3>
+          <p className="text-xs text-[#71717A]">
+            Not enough joint history yet: every EA has been running together since{" "}
+            {portfolioRisk.historyStart}. The simulation needs a few weeks of common trading days.
+          </p>
+        </div>
+      )}
+
       {/* Daily P&L Calendar */}
       <div className="bg-[#111114] border border-[rgba(255,255,255,0.06)] rounded-xl p-6">
         <h3 className="text-sm font-medium text-white mb-4">Daily P&L (Last 90 Days)</h3>
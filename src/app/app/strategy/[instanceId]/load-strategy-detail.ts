@@ -499,6 +499,7 @@ export async function loadStrategyDetail(
         select: {
           currentVersionId: true,
           origin: true,
+          projectId: true,
           versions: {
             orderBy: { versionNo: "desc" as const },
             select: {
@@ -507,6 +508,7 @@ export async function loadStrategyDetail(
               status: true,
               fingerprint: true,
               createdAt: true,
+              buildVersion: { select: { versionNo: true, branch: true } },
             },
           },
         },
@@ -552,6 +554,17 @@ export async function loadStrategyDetail(
       versionNo = thisVersion?.versionNo ?? null;
       versionCurrency = resolveDeploymentCurrency(instance.strategyVersionId, currentVersionId);
 
+      // Fork points of the project's version branches
+      const forkedVersions = identityData.projectId
+        ? await prisma.buildVersion.findMany({
+            where: { projectId: identityData.projectId, forkedFromId: { not: null } },
+            select: {
+              branch: true,
+              forkedFrom: { select: { branch: true, versionNo: true } },
+            },
+          })
+        : [];
+
       // Full lineage read-model
       strategyLineage = buildStrategyLineage(
         strategyId,
@@ -563,13 +576,26 @@ export async function loadStrategyDetail(
           status: v.status,
           fingerprint: v.fingerprint,
           createdAt: v.createdAt.toISOString(),
+          branch: v.buildVersion?.branch,
+          buildVersionNo: v.buildVersion?.versionNo ?? null,
         })),
         siblingInstances.map((sib) => ({
           id: sib.id,
           eaName: sib.eaName,
           strategyVersionId: sib.strategyVersionId,
           status: sib.status,
-        }))
+        })),
+        forkedVersions.flatMap((fv) =>
+          fv.forkedFrom
+            ? [
+                {
+                  branch: fv.branch,
+                  parentBranch: fv.forkedFrom.branch,
+                  forkedAtBuildVersionNo: fv.forkedFrom.versionNo,
+                },
+              ]
+            : []
+        )
       );
     }
   }
@@ -60,6 +60,8 @@ const PAYLOAD_WHITELIST = new Set([
   "daysSinceLastTrade",
   "baselineMissing",
   "consecutiveDriftSnapshots",
+  "liveExpectedShortfallPct",
+  "baselineExpectedShortfallPct",
   // Lifecycle transition events
   "from",
   "to",
@@ -19,6 +19,8 @@ const CATEGORY_COLORS: Record<string, string> = {
   trademanagement: "#A78BFA",
   trading: "#6366F1",
   filter: "#64748B",
+  logic: "#818CF8",
+  macro: "#2DD4BF",
 };
 
 function ReadOnlyCanvas({ buildJson }: { buildJson: BuildJsonSchema }) {
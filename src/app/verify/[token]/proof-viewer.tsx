@@ -27,6 +27,7 @@ interface VerificationResult {
     notarized: boolean;
     notarizationTimestamp: string | null;
     provider: string | null;
+    tsaCertificateFingerprint?: string | null;
   } | null;
   verified: boolean;
   summary: string;
@@ -405,6 +406,11 @@ export function ProofViewer({
                 Timestamp: {new Date(verification.l3.notarizationTimestamp).toLocaleString()}
               </p>
             )}
+            {verification.l3.tsaCertificateFingerprint && (
+              <p className="text-xs text-[#7C8DB0] mt-1 font-mono break-all">
+                TSA certificate SHA-256: {verification.l3.tsaCertificateFingerprint}
+              </p>
+            )}
           </div>
         )}
 
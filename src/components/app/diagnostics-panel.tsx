@@ -24,6 +24,7 @@ const REASON_LABELS: Record<string, string> = {
   MONITORING_LOSS_STREAK: "Losing Streak",
   MONITORING_INACTIVITY: "Inactivity",
   MONITORING_CUSUM_DRIFT: "CUSUM Drift",
+  MONITORING_EXPECTED_SHORTFALL_BREACH: "Tail Loss Breach",
   MONITORING_BASELINE_MISSING: "Baseline Missing",
   MONITORING_INVALID_INPUT: "Invalid Input",
 };
@@ -33,6 +33,7 @@ interface HealthSnapshotData {
   primaryDriver: string | null;
   scoreTrend: string | null;
   expectancy: number | null;
+  volatilityRegime: "LOW" | "MID" | "HIGH" | null;
   createdAt: string;
 }
 
@@ -77,6 +78,12 @@ const METRIC_LABELS: Record<
   tradeFrequency: { label: "Trade Frequency", unit: "/day", format: (v) => v.toFixed(2) },
 };
 
+const REGIME_LABELS = {
+  LOW: "Low volatility",
+  MID: "Normal volatility",
+  HIGH: "High volatility",
+} as const;
+
 const METRIC_TOOLTIPS: Record<string, string> = {
   "Health Score":
     "Composite score (0–100%) measuring live performance against backtest baseline. Above 70% is healthy, below 40% is edge at risk.",
@@ -98,6 +105,8 @@ const METRIC_TOOLTIPS: Record<string, string> = {
     "Measures consistency of live returns. Lower volatility relative to baseline scores higher.",
   "Trade Frequency":
     "Compares live trading frequency to backtest. Large deviations may indicate missed signals or changed market structure.",
+  "Volatility Regime":
+    "Current market volatility relative to the backtest. Return, win rate and trade frequency are compared against backtest trades taken in the same regime.",
 };
 
 function MetricTooltip({ metric }: { metric: string }) {
@@ -524,7 +533,15 @@ export function HealthDetailPanel({ instanceId, strategyStatus }: HealthDetailPa
 
       {/* Live vs Baseline Comparison */}
       <div className="pt-3 border-t border-[rgba(79,70,229,0.1)]">
-        <p className="text-[10px] uppercase tracking-wider text-[#7C8DB0] mb-2">Live vs Baseline</p>
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-[10px] uppercase tracking-wider text-[#7C8DB0]">Live vs Baseline</p>
+          {health.volatilityRegime && (
+            <span className="text-[10px] text-[#7C8DB0] flex items-center">
+              {REGIME_LABELS[health.volatilityRegime]} regime
+              <MetricTooltip metric="Volatility Regime" />
+            </span>
+          )}
+        </div>
         <MetricRow
           label="Return"
           liveValue={health.liveReturnPct}
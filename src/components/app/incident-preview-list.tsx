@@ -20,6 +20,7 @@ const REASON_LABELS: Record<string, string> = {
   MONITORING_LOSS_STREAK: "Loss Streak",
   MONITORING_INACTIVITY: "Inactivity",
   MONITORING_CUSUM_DRIFT: "Drift",
+  MONITORING_EXPECTED_SHORTFALL_BREACH: "Tail Loss",
   MONITORING_BASELINE_MISSING: "No Baseline",
   MONITORING_INVALID_INPUT: "Invalid Input",
 };
@@ -3,7 +3,7 @@
  *
  * Displays on the instance detail page, clearly separated from monitoring truth.
  * Shows: this deployment's version, whether it's current/outdated, version history,
- * and deployment distribution across versions.
+ * deployment distribution across versions, and the branches versions were built on.
  *
  * This is informational lineage context — it never replaces or overrides the
  * instance-level monitoring verdict (Layer 1).
@@ -56,6 +56,13 @@ export function VersionLineagePanel({ versionNo, currency, lineage }: VersionLin
   // Don't render if no versions exist
   if (lineage.versions.length === 0) return null;
 
+  // Branch tags only matter once there is more than one line of work
+  const branched = lineage.branches.length > 1;
+  const branchOf = new Map(
+    lineage.branches.flatMap((b) => b.versionIds.map((id) => [id, b.name] as const))
+  );
+  const versionNoOf = new Map(lineage.versions.map((e) => [e.version.id, e.version.versionNo]));
+
   return (
     <details className="rounded-xl bg-[#111114] border border-[rgba(255,255,255,0.06)]">
       <summary className="px-4 py-3 cursor-pointer select-none flex items-center justify-between hover:bg-[rgba(255,255,255,0.02)] transition-colors rounded-xl">
@@ -87,8 +94,36 @@ export function VersionLineagePanel({ versionNo, currency, lineage }: VersionLin
           {lineage.unlinkedDeployments > 0 && (
             <CountItem label="Unlinked" value={lineage.unlinkedDeployments} color="#71717A" />
           )}
+          {branched && (
+            <CountItem label="Branches" value={lineage.branches.length} color="#22D3EE" />
+          )}
         </div>
 
+        {/* Branches — where each line of work forked */}
+        {branched && (
+          <div className="space-y-1 mb-3">
+            {lineage.branches.map((b) => {
+              const forkedFromNo = b.forkedFromVersionId
+                ? versionNoOf.get(b.forkedFromVersionId)
+                : undefined;
+              return (
+                <div key={b.name} className="flex items-center justify-between px-2 text-[10px]">
+                  <span
+                    className="font-medium"
+                    style={{ color: b.isCurrent ? "#10B981" : "#22D3EE" }}
+                  >
+                    {b.name}
+                  </span>
+                  <span className="text-[#71717A]">
+                    {b.versionIds.length === 1 ? "1 version" : `${b.versionIds.length} versions`}
+                    {forkedFromNo !== undefined && ` · forked from v${forkedFromNo}`}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Version list — only show if more than one version */}
         {lineage.versions.length > 1 && (
           <div className="space-y-1.5">
@@ -108,6 +143,11 @@ export function VersionLineagePanel({ versionNo, currency, lineage }: VersionLin
                     <span className="text-xs text-[#FAFAFA] font-medium">
                       v{entry.version.versionNo}
                     </span>
+                    {branched && (
+                      <span className="text-[9px] text-[#22D3EE]">
+                        {branchOf.get(entry.version.id)}
+                      </span>
+                    )}
                     {entry.isCurrent && (
                       <span className="text-[9px] text-[#10B981] font-medium uppercase">
                         current
@@ -32,6 +32,14 @@ export const MONITORING = {
   WIN_RATE_MIN_RATIO: 0.7,
   /** Consecutive HEALTHY runs required to recover from EDGE_AT_RISK */
   RECOVERY_RUNS_REQUIRED: 3,
+  /** Live expected shortfall > baseline × multiplier → AT_RISK */
+  EXPECTED_SHORTFALL_MULTIPLIER: 1.5,
+
+  // ── Expected shortfall methodology (fixed per config version) ─────
+  /** Tail fraction averaged for expected shortfall — the worst 5% of trades */
+  EXPECTED_SHORTFALL_TAIL: 0.05,
+  /** Minimum closed trades before expected shortfall is estimated */
+  EXPECTED_SHORTFALL_MIN_TRADES: 20,
 
   // ── Incident SLA thresholds (included in thresholdsHash) ─────────
   /** Minutes before operator ACK is expected */
@@ -49,3 +57,25 @@ export const MONITORING = {
   /** Minutes after override apply during which monitoring is suppressed */
   OVERRIDE_SUPPRESSION_MINUTES: 10,
 } as const;
+
+/**
+ * Bounds for user-authored threshold profiles (see threshold-profile.ts).
+ *
+ * Only rule thresholds are overridable per strategy — incident SLA and
+ * override governance stay platform-wide. Bounds keep a profile from
+ * disabling a rule outright (e.g. a 0 Sharpe ratio floor never fires).
+ */
+export const THRESHOLD_PROFILE_BOUNDS = {
+  drawdownBreachMultiplier: { min: 1, max: 5, integer: false },
+  sharpeMinRatio: { min: 0.1, max: 1, integer: false },
+  profitFactorMinRatio: { min: 0.1, max: 1, integer: false },
+  winRateMinRatio: { min: 0.1, max: 1, integer: false },
+  maxLosingStreak: { min: 2, max: 100, integer: true },
+  maxInactivityDays: { min: 1, max: 365, integer: true },
+  cusumDriftConsecutiveSnapshots: { min: 1, max: 20, integer: true },
+  recoveryRunsRequired: { min: 1, max: 20, integer: true },
+  expectedShortfallMultiplier: { min: 1, max: 5, integer: false },
+} as const;
+
+/** Maximum length of a threshold profile's display name */
+export const THRESHOLD_PROFILE_NAME_MAX_LENGTH = 80;
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { evaluateMonitoring } from "./evaluate-monitoring";
+import { BUILT_IN_MONITORING_RULES, createMonitoringRuleRegistry } from "./rule-registry";
 import type { MonitoringContext } from "./types";
 import type { MonitoringThresholds } from "@/domain/verification/config-snapshot";
 
@@ -18,6 +19,7 @@ const baseThresholds: MonitoringThresholds = {
   overrideApprovalPolicy: "DIFFERENT_REQUIRED",
   overrideExpiryMinutes: 60,
   overrideSuppressionMinutes: 10,
+  expectedShortfallMultiplier: 1.5,
 };
 
 /** All-pass context: everything within limits */
@@ -39,6 +41,8 @@ const healthyCtx: MonitoringContext = {
   baselineWinRate: 0.65,
   baselineMissing: false,
   consecutiveDriftSnapshots: 0,
+  liveExpectedShortfallPct: 1.1,
+  baselineExpectedShortfallPct: 1.0,
 };
 
 describe("evaluateMonitoring", () => {
@@ -47,7 +51,7 @@ describe("evaluateMonitoring", () => {
 
     expect(result.verdict).toBe("HEALTHY");
     expect(result.reasons).toEqual([]);
-    expect(result.ruleResults).toHaveLength(7);
+    expect(result.ruleResults).toHaveLength(8);
     expect(result.ruleResults.every((r) => r.status === "PASS")).toBe(true);
   });
 
@@ -152,9 +156,20 @@ describe("evaluateMonitoring", () => {
     expect(result.reasons).toContain("MONITORING_CUSUM_DRIFT");
   });
 
-  it("always returns exactly 7 rule results", () => {
+  it("single expected shortfall breach → AT_RISK with MONITORING_EXPECTED_SHORTFALL_BREACH", () => {
+    const ctx: MonitoringContext = {
+      ...healthyCtx,
+      liveExpectedShortfallPct: 3.2, // 3.2 > 1.0 × 1.5
+    };
+    const result = evaluateMonitoring(ctx, baseThresholds);
+
+    expect(result.verdict).toBe("AT_RISK");
+    expect(result.reasons).toEqual(["MONITORING_EXPECTED_SHORTFALL_BREACH"]);
+  });
+
+  it("always returns exactly 8 rule results", () => {
     const result = evaluateMonitoring(healthyCtx, baseThresholds);
-    expect(result.ruleResults).toHaveLength(7);
+    expect(result.ruleResults).toHaveLength(8);
 
     const ruleIds = result.ruleResults.map((r) => r.ruleId);
     expect(ruleIds).toEqual([
@@ -165,6 +180,37 @@ describe("evaluateMonitoring", () => {
       "losing-streak",
       "inactivity",
       "cusum-drift",
+      "expected-shortfall",
     ]);
   });
 });
+
+describe("evaluateMonitoring with a custom rule registry", () => {
+  it("runs registered rules after the built-ins and folds them into the verdict", () => {
+    const registry = createMonitoringRuleRegistry(BUILT_IN_MONITORING_RULES);
+    registry.register({
+      id: "max-live-trades",
+      evaluate: (ctx) => ({
+        ruleId: "max-live-trades",
+        status: ctx.liveFactCount > 40 ? "AT_RISK" : "PASS",
+        reasonCode: ctx.liveFactCount > 40 ? "MONITORING_INVALID_INPUT" : null,
+        measured: ctx.liveFactCount,
+        threshold: 40,
+        message: "test rule",
+      }),
+    });
+
+    const result = evaluateMonitoring(healthyCtx, baseThresholds, registry);
+
+    expect(result.ruleResults).toHaveLength(9);
+    expect(result.ruleResults[8].ruleId).toBe("max-live-trades");
+    expect(result.verdict).toBe("AT_RISK");
+    expect(result.reasons).toEqual(["MONITORING_INVALID_INPUT"]);
+  });
+
+  it("an empty registry yields HEALTHY with no rule results", () => {
+    const result = evaluateMonitoring(healthyCtx, baseThresholds, createMonitoringRuleRegistry());
+
+    expect(result).toEqual({ verdict: "HEALTHY", reasons: [], ruleResults: [] });
+  });
+});
@@ -1,7 +1,7 @@
 /**
  * Monitoring evaluation — pure, deterministic rule layer.
  *
- * Runs 5 rules in fixed order, collects results, composes verdict.
+ * Runs the registered rules in order, collects results, composes verdict.
  * Fail-closed: if evaluation itself throws, the orchestrator treats it as FAILED.
  */
 
@@ -12,13 +12,7 @@ import type {
   RuleResult,
 } from "./types";
 import type { MonitoringThresholds } from "@/domain/verification/config-snapshot";
-import { evaluateDrawdownBreach } from "./rules/drawdown-breach";
-import { evaluateSharpeDegradation } from "./rules/sharpe-degradation";
-import { evaluateProfitFactorDegradation } from "./rules/profit-factor-degradation";
-import { evaluateWinRateDegradation } from "./rules/win-rate-degradation";
-import { evaluateLosingStreak } from "./rules/losing-streak";
-import { evaluateInactivity } from "./rules/inactivity";
-import { evaluateCusumDrift } from "./rules/cusum-drift";
+import { defaultMonitoringRuleRegistry, type MonitoringRuleRegistry } from "./rule-registry";
 
 /**
  * Evaluate monitoring rules against the provided context and thresholds.
@@ -26,7 +20,8 @@ import { evaluateCusumDrift } from "./rules/cusum-drift";
  * Pure function — no IO, no side effects, no randomness.
  * Same inputs → same outputs (deterministic).
  *
- * Fixed evaluation order:
+ * Evaluation order is the registry's registration order. The default
+ * registry holds the built-in rules (see BUILT_IN_MONITORING_RULES):
  *   1. Drawdown breach
  *   2. Sharpe degradation
  *   3. Profit factor degradation
@@ -34,6 +29,7 @@ import { evaluateCusumDrift } from "./rules/cusum-drift";
  *   5. Losing streak
  *   6. Inactivity
  *   7. CUSUM drift
+ *   8. Expected shortfall
  *
  * Verdict composition:
  *   - any INVALIDATED → INVALIDATED
@@ -42,7 +38,8 @@ import { evaluateCusumDrift } from "./rules/cusum-drift";
  */
 export function evaluateMonitoring(
   ctx: MonitoringContext,
-  thresholds: MonitoringThresholds
+  thresholds: MonitoringThresholds,
+  registry: MonitoringRuleRegistry = defaultMonitoringRuleRegistry
 ): MonitoringEvaluationResult {
   if (!ctx.instanceId) {
     throw new Error("MonitoringContext.instanceId is required");
@@ -54,53 +51,8 @@ export function evaluateMonitoring(
     throw new Error("MonitoringContext.liveFactCount must be non-negative");
   }
 
-  // Fixed evaluation order — deterministic
-  const ruleResults: RuleResult[] = [
-    evaluateDrawdownBreach(
-      {
-        liveMaxDrawdownPct: ctx.liveMaxDrawdownPct,
-        baselineMaxDrawdownPct: ctx.baselineMaxDrawdownPct,
-        baselineMissing: ctx.baselineMissing,
-      },
-      { drawdownBreachMultiplier: thresholds.drawdownBreachMultiplier }
-    ),
-    evaluateSharpeDegradation(
-      {
-        liveRollingSharpe: ctx.liveRollingSharpe,
-        baselineSharpeRatio: ctx.baselineSharpeRatio,
-        baselineMissing: ctx.baselineMissing,
-      },
-      { sharpeMinRatio: thresholds.sharpeMinRatio }
-    ),
-    evaluateProfitFactorDegradation(
-      {
-        liveProfitFactor: ctx.liveProfitFactor,
-        baselineProfitFactor: ctx.baselineProfitFactor,
-        baselineMissing: ctx.baselineMissing,
-      },
-      { profitFactorMinRatio: thresholds.profitFactorMinRatio }
-    ),
-    evaluateWinRateDegradation(
-      {
-        liveWinRate: ctx.liveWinRate,
-        baselineWinRate: ctx.baselineWinRate,
-        baselineMissing: ctx.baselineMissing,
-      },
-      { winRateMinRatio: thresholds.winRateMinRatio }
-    ),
-    evaluateLosingStreak(
-      { currentLosingStreak: ctx.currentLosingStreak },
-      { maxLosingStreak: thresholds.maxLosingStreak }
-    ),
-    evaluateInactivity(
-      { daysSinceLastTrade: ctx.daysSinceLastTrade },
-      { maxInactivityDays: thresholds.maxInactivityDays }
-    ),
-    evaluateCusumDrift(
-      { consecutiveDriftSnapshots: ctx.consecutiveDriftSnapshots },
-      { cusumDriftConsecutiveSnapshots: thresholds.cusumDriftConsecutiveSnapshots }
-    ),
-  ];
+  // Registry order — deterministic
+  const ruleResults: RuleResult[] = registry.rules().map((rule) => rule.evaluate(ctx, thresholds));
 
   // Collect reason codes in evaluation order (stable, deduplicated)
   const seen = new Set<MonitoringReasonCode>();
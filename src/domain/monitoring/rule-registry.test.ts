@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUILT_IN_MONITORING_RULES,
+  createMonitoringRuleRegistry,
+  defaultMonitoringRuleRegistry,
+  type MonitoringRule,
+} from "./rule-registry";
+
+const stubRule = (id: string): MonitoringRule => ({
+  id,
+  evaluate: () => ({
+    ruleId: id,
+    status: "PASS",
+    reasonCode: null,
+    measured: 0,
+    threshold: 0,
+    message: "ok",
+  }),
+});
+
+describe("createMonitoringRuleRegistry", () => {
+  it("keeps registration order as evaluation order", () => {
+    const registry = createMonitoringRuleRegistry([stubRule("b")]);
+    registry.register(stubRule("a"));
+    registry.register(stubRule("c"));
+
+    expect(registry.rules().map((r) => r.id)).toEqual(["b", "a", "c"]);
+  });
+
+  it("rejects duplicate rule ids", () => {
+    const registry = createMonitoringRuleRegistry([stubRule("a")]);
+    expect(() => registry.register(stubRule("a"))).toThrow(
+      'Monitoring rule "a" is already registered'
+    );
+  });
+
+  it("returns a copy — callers cannot reorder the registry", () => {
+    const registry = createMonitoringRuleRegistry([stubRule("a"), stubRule("b")]);
+    (registry.rules() as MonitoringRule[]).reverse();
+
+    expect(registry.rules().map((r) => r.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("defaultMonitoringRuleRegistry", () => {
+  it("holds the built-in rules in canonical order", () => {
+    expect(defaultMonitoringRuleRegistry.rules().map((r) => r.id)).toEqual([
+      "drawdown-breach",
+      "sharpe-degradation",
+      "profit-factor-degradation",
+      "win-rate-degradation",
+      "losing-streak",
+      "inactivity",
+      "cusum-drift",
+      "expected-shortfall",
+    ]);
+    expect(defaultMonitoringRuleRegistry.rules()).toHaveLength(BUILT_IN_MONITORING_RULES.length);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Monitoring rule registry — the ordered set of rules evaluateMonitoring runs.
+ *
+ * Each entry adapts a pure rule function (rules/*.ts) to the shared
+ * MonitoringContext + MonitoringThresholds shape, so adding a rule means
+ * registering one entry instead of editing the evaluator.
+ *
+ * Registration order IS evaluation order — it determines ruleResults order
+ * and reason-code order, both of which are recorded in proof events.
+ */
+
+import type { MonitoringContext, RuleResult } from "./types";
+import type { MonitoringThresholds } from "@/domain/verification/config-snapshot";
+import { evaluateDrawdownBreach } from "./rules/drawdown-breach";
+import { evaluateSharpeDegradation } from "./rules/sharpe-degradation";
+import { evaluateProfitFactorDegradation } from "./rules/profit-factor-degradation";
+import { evaluateWinRateDegradation } from "./rules/win-rate-degradation";
+import { evaluateLosingStreak } from "./rules/losing-streak";
+import { evaluateInactivity } from "./rules/inactivity";
+import { evaluateCusumDrift } from "./rules/cusum-drift";
+import { evaluateExpectedShortfall } from "./rules/expected-shortfall";
+
+export interface MonitoringRule {
+  /** Stable identifier — must match the ruleId the rule reports in its RuleResult */
+  id: string;
+  /** Pure evaluation — no IO, no side effects, no randomness */
+  evaluate(ctx: MonitoringContext, thresholds: MonitoringThresholds): RuleResult;
+}
+
+export interface MonitoringRuleRegistry {
+  /** Append a rule. Throws if a rule with the same id is already registered. */
+  register(rule: MonitoringRule): void;
+  /** Registered rules in evaluation order. */
+  rules(): readonly MonitoringRule[];
+}
+
+export function createMonitoringRuleRegistry(
+  initial: readonly MonitoringRule[] = []
+): MonitoringRuleRegistry {
+  const entries: MonitoringRule[] = [];
+
+  const registry: MonitoringRuleRegistry = {
+    register(rule) {
+      if (entries.some((r) => r.id === rule.id)) {
+        throw new Error(`Monitoring rule "${rule.id}" is already registered`);
+      }
+      entries.push(rule);
+    },
+    rules() {
+      return [...entries];
+    },
+  };
+
+  for (const rule of initial) registry.register(rule);
+  return registry;
+}
+
+/** Built-in rules in their canonical evaluation order. */
+export const BUILT_IN_MONITORING_RULES: readonly MonitoringRule[] = [
+  {
+    id: "drawdown-breach",
+    evaluate: (ctx, thresholds) =>
+      evaluateDrawdownBreach(
+        {
+          liveMaxDrawdownPct: ctx.liveMaxDrawdownPct,
+          baselineMaxDrawdownPct: ctx.baselineMaxDrawdownPct,
+          baselineMissing: ctx.baselineMissing,
+        },
+        { drawdownBreachMultiplier: thresholds.drawdownBreachMultiplier }
+      ),
+  },
+  {
+    id: "sharpe-degradation",
+    evaluate: (ctx, thresholds) =>
+      evaluateSharpeDegradation(
+        {
+          liveRollingSharpe: ctx.liveRollingSharpe,
+          baselineSharpeRatio: ctx.baselineSharpeRatio,
+          baselineMissing: ctx.baselineMissing,
+        },
+        { sharpeMinRatio: thresholds.sharpeMinRatio }
+      ),
+  },
+  {
+    id: "profit-factor-degradation",
+    evaluate: (ctx, thresholds) =>
+      evaluateProfitFactorDegradation(
+        {
+          liveProfitFactor: ctx.liveProfitFactor,
+          baselineProfitFactor: ctx.baselineProfitFactor,
+          baselineMissing: ctx.baselineMissing,
+        },
+        { profitFactorMinRatio: thresholds.profitFactorMinRatio }
+      ),
+  },
+  {
+    id: "win-rate-degradation",
+    evaluate: (ctx, thresholds) =>
+      evaluateWinRateDegradation(
+        {
+          liveWinRate: ctx.liveWinRate,
+          baselineWinRate: ctx.baselineWinRate,
+          baselineMissing: ctx.baselineMissing,
+        },
+        { winRateMinRatio: thresholds.winRateMinRatio }
+      ),
+  },
+  {
+    id: "losing-streak",
+    evaluate: (ctx, thresholds) =>
+      evaluateLosingStreak(
+        { currentLosingStreak: ctx.currentLosingStreak },
+        { maxLosingStreak: thresholds.maxLosingStreak }
+      ),
+  },
+  {
+    id: "inactivity",
+    evaluate: (ctx, thresholds) =>
+      evaluateInactivity(
+        { daysSinceLastTrade: ctx.daysSinceLastTrade },
+        { maxInactivityDays: thresholds.maxInactivityDays }
+      ),
+  },
+  {
+    id: "cusum-drift",
+    evaluate: (ctx, thresholds) =>
+      evaluateCusumDrift(
+        { consecutiveDriftSnapshots: ctx.consecutiveDriftSnapshots },
+        { cusumDriftConsecutiveSnapshots: thresholds.cusumDriftConsecutiveSnapshots }
+      ),
+  },
+  {
+    id: "expected-shortfall",
+    evaluate: (ctx, thresholds) =>
+      evaluateExpectedShortfall(
+        {
+          liveExpectedShortfallPct: ctx.liveExpectedShortfallPct,
+          baselineExpectedShortfallPct: ctx.baselineExpectedShortfallPct,
+          baselineMissing: ctx.baselineMissing,
+        },
+        { expectedShortfallMultiplier: thresholds.expectedShortfallMultiplier }
+      ),
+  },
+];
+
+/** Registry used by evaluateMonitoring when no registry is passed. */
+export const defaultMonitoringRuleRegistry =
+  createMonitoringRuleRegistry(BUILT_IN_MONITORING_RULES);
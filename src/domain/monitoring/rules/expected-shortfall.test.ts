@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { evaluateExpectedShortfall } from "./expected-shortfall";
+import type { ExpectedShortfallInput, ExpectedShortfallThresholds } from "./expected-shortfall";
+
+const thresholds: ExpectedShortfallThresholds = { expectedShortfallMultiplier: 1.5 };
+
+const input = (overrides: Partial<ExpectedShortfallInput> = {}): ExpectedShortfallInput => ({
+  liveExpectedShortfallPct: 1.2,
+  baselineExpectedShortfallPct: 1.0,
+  baselineMissing: false,
+  ...overrides,
+});
+
+describe("evaluateExpectedShortfall", () => {
+  it("PASS when live tail loss is within baseline × multiplier", () => {
+    const result = evaluateExpectedShortfall(input(), thresholds);
+    expect(result.status).toBe("PASS");
+    expect(result.reasonCode).toBeNull();
+    expect(result.measured).toBe(1.2);
+    expect(result.threshold).toBe(1.5);
+  });
+
+  it("AT_RISK when live tail loss exceeds baseline × multiplier", () => {
+    const result = evaluateExpectedShortfall(input({ liveExpectedShortfallPct: 4.2 }), thresholds);
+    expect(result.status).toBe("AT_RISK");
+    expect(result.reasonCode).toBe("MONITORING_EXPECTED_SHORTFALL_BREACH");
+    expect(result.measured).toBe(4.2);
+    expect(result.threshold).toBe(1.5);
+  });
+
+  it("PASS at exact boundary (equal to threshold)", () => {
+    const result = evaluateExpectedShortfall(input({ liveExpectedShortfallPct: 1.5 }), thresholds);
+    expect(result.status).toBe("PASS");
+  });
+
+  it("AT_RISK with MONITORING_BASELINE_MISSING when baseline is missing", () => {
+    const result = evaluateExpectedShortfall(input({ baselineMissing: true }), thresholds);
+    expect(result.status).toBe("AT_RISK");
+    expect(result.reasonCode).toBe("MONITORING_BASELINE_MISSING");
+  });
+
+  it("PASS (inactive) when the config predates the multiplier", () => {
+    const result = evaluateExpectedShortfall(input({ liveExpectedShortfallPct: 50 }), {
+      expectedShortfallMultiplier: undefined,
+    });
+    expect(result.status).toBe("PASS");
+    expect(result.message).toContain("rule inactive");
+  });
+
+  it("PASS when there are too few live trades to estimate the tail", () => {
+    const result = evaluateExpectedShortfall(input({ liveExpectedShortfallPct: null }), thresholds);
+    expect(result.status).toBe("PASS");
+    expect(result.measured).toBe(0);
+  });
+
+  it("PASS when backtest trades are unavailable", () => {
+    const result = evaluateExpectedShortfall(
+      input({ baselineExpectedShortfallPct: null }),
+      thresholds
+    );
+    expect(result.status).toBe("PASS");
+  });
+
+  it("PASS when the backtest tail holds no losses", () => {
+    const result = evaluateExpectedShortfall(
+      input({ baselineExpectedShortfallPct: 0 }),
+      thresholds
+    );
+    expect(result.status).toBe("PASS");
+  });
+
+  it("AT_RISK with MONITORING_INVALID_INPUT for NaN or negative values", () => {
+    expect(
+      evaluateExpectedShortfall(input({ liveExpectedShortfallPct: NaN }), thresholds).reasonCode
+    ).toBe("MONITORING_INVALID_INPUT");
+    expect(
+      evaluateExpectedShortfall(input({ baselineExpectedShortfallPct: -1 }), thresholds).reasonCode
+    ).toBe("MONITORING_INVALID_INPUT");
+  });
+});
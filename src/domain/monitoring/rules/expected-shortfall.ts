@@ -0,0 +1,131 @@
+/**
+ * Expected shortfall rule — compares the live tail loss (CVaR of per-trade
+ * returns) against the backtest baseline's tail × multiplier.
+ *
+ * Catches grid/martingale blow-ups where a few outsized losses appear long
+ * before the equity curve reaches the drawdown breach threshold.
+ *
+ * Pure function — no IO, no side effects.
+ */
+
+import type { RuleResult } from "../types";
+
+export interface ExpectedShortfallInput {
+  /** Live expected shortfall in % (null = too few live trades to estimate) */
+  liveExpectedShortfallPct: number | null;
+  /** Baseline expected shortfall in % (null = backtest trades unavailable) */
+  baselineExpectedShortfallPct: number | null;
+  baselineMissing: boolean;
+}
+
+export interface ExpectedShortfallThresholds {
+  /** Absent in configs that predate the rule (< 3.1.0) — rule is inactive */
+  expectedShortfallMultiplier: number | undefined;
+}
+
+const RULE_ID = "expected-shortfall";
+
+export function evaluateExpectedShortfall(
+  input: ExpectedShortfallInput,
+  thresholds: ExpectedShortfallThresholds
+): RuleResult {
+  const { liveExpectedShortfallPct, baselineExpectedShortfallPct, baselineMissing } = input;
+  const { expectedShortfallMultiplier } = thresholds;
+  const measured = liveExpectedShortfallPct ?? 0;
+
+  // Fail-closed: baseline missing
+  if (baselineMissing) {
+    return {
+      ruleId: RULE_ID,
+      status: "AT_RISK",
+      reasonCode: "MONITORING_BASELINE_MISSING",
+      measured,
+      threshold: 0,
+      message: "BacktestBaseline not found — cannot evaluate expected shortfall",
+    };
+  }
+
+  if (expectedShortfallMultiplier == null) {
+    return {
+      ruleId: RULE_ID,
+      status: "PASS",
+      reasonCode: null,
+      measured,
+      threshold: 0,
+      message: "Expected shortfall multiplier not governed by this config version — rule inactive",
+    };
+  }
+
+  if (liveExpectedShortfallPct == null) {
+    return {
+      ruleId: RULE_ID,
+      status: "PASS",
+      reasonCode: null,
+      measured,
+      threshold: 0,
+      message: "Not enough live trades to estimate expected shortfall",
+    };
+  }
+
+  if (baselineExpectedShortfallPct == null) {
+    return {
+      ruleId: RULE_ID,
+      status: "PASS",
+      reasonCode: null,
+      measured,
+      threshold: 0,
+      message: "Backtest trades unavailable — no baseline tail to compare",
+    };
+  }
+
+  // Invalid input guard (NaN, Infinity, negative)
+  if (
+    !Number.isFinite(liveExpectedShortfallPct) ||
+    !Number.isFinite(baselineExpectedShortfallPct) ||
+    liveExpectedShortfallPct < 0 ||
+    baselineExpectedShortfallPct < 0
+  ) {
+    return {
+      ruleId: RULE_ID,
+      status: "AT_RISK",
+      reasonCode: "MONITORING_INVALID_INPUT",
+      measured,
+      threshold: 0,
+      message: "Invalid input: NaN, non-finite or negative expected shortfall",
+    };
+  }
+
+  // No losses in the backtest tail — no meaningful comparison
+  if (baselineExpectedShortfallPct === 0) {
+    return {
+      ruleId: RULE_ID,
+      status: "PASS",
+      reasonCode: null,
+      measured,
+      threshold: 0,
+      message: "Baseline expected shortfall is 0 — no meaningful comparison",
+    };
+  }
+
+  const maxAcceptable = baselineExpectedShortfallPct * expectedShortfallMultiplier;
+
+  if (liveExpectedShortfallPct > maxAcceptable) {
+    return {
+      ruleId: RULE_ID,
+      status: "AT_RISK",
+      reasonCode: "MONITORING_EXPECTED_SHORTFALL_BREACH",
+      measured,
+      threshold: maxAcceptable,
+      message: `Live expected shortfall ${liveExpectedShortfallPct.toFixed(2)}% exceeds baseline ${baselineExpectedShortfallPct.toFixed(2)}% × ${expectedShortfallMultiplier}`,
+    };
+  }
+
+  return {
+    ruleId: RULE_ID,
+    status: "PASS",
+    reasonCode: null,
+    measured,
+    threshold: maxAcceptable,
+    message: "Expected shortfall within acceptable range",
+  };
+}
@@ -9,12 +9,14 @@ const mockMonitoringRunFindMany = vi.fn();
 const mockTradeFactFindMany = vi.fn();
 const mockBacktestBaselineFindFirst = vi.fn();
 const mockBacktestBaselineFindUnique = vi.fn();
+const mockBacktestRunFindUnique = vi.fn();
 const mockHealthSnapshotFindMany = vi.fn();
 const mockLiveEAInstanceFindFirst = vi.fn();
 const mockLiveEAInstanceFindUnique = vi.fn();
 const mockTransaction = vi.fn();
 const mockAppendProofEvent = vi.fn();
 const mockLoadActiveConfigWithFallback = vi.fn();
+const mockResolveMonitoringThresholds = vi.fn();
 const mockBuildTradeSnapshot = vi.fn();
 const mockEvaluateMonitoring = vi.fn();
 const mockPerformLifecycleTransitionInTx = vi.fn();
@@ -58,6 +60,9 @@ vi.mock("@/lib/prisma", () => ({
       findFirst: (...args: unknown[]) => mockBacktestBaselineFindFirst(...args),
       findUnique: (...args: unknown[]) => mockBacktestBaselineFindUnique(...args),
     },
+    backtestRun: {
+      findUnique: (...args: unknown[]) => mockBacktestRunFindUnique(...args),
+    },
     healthSnapshot: {
       findMany: (...args: unknown[]) => mockHealthSnapshotFindMany(...args),
     },
@@ -110,6 +115,10 @@ vi.mock("@/domain/trade-ingest", () => ({
   buildTradeSnapshot: (...args: unknown[]) => mockBuildTradeSnapshot(...args),
 }));
 
+vi.mock("./threshold-profile-store", () => ({
+  resolveMonitoringThresholds: (...args: unknown[]) => mockResolveMonitoringThresholds(...args),
+}));
+
 vi.mock("./evaluate-monitoring", () => ({
   evaluateMonitoring: (...args: unknown[]) => mockEvaluateMonitoring(...args),
 }));
@@ -128,6 +137,8 @@ vi.mock("./constants", () => ({
     ACK_DEADLINE_MINUTES: 60,
     ESCALATION_INTERVAL_MINUTES: 120,
     AUTO_INVALIDATE_MINUTES: null,
+    EXPECTED_SHORTFALL_TAIL: 0.05,
+    EXPECTED_SHORTFALL_MIN_TRADES: 20,
   },
 }));
 
@@ -184,6 +195,14 @@ function setupDefaults() {
     source: "active",
   });
 
+  // Default: no per-strategy threshold profile → config thresholds unchanged
+  mockResolveMonitoringThresholds.mockImplementation(
+    async (_strategyId: string, base: typeof MONITORING_THRESHOLDS) => ({
+      thresholds: base,
+      profile: null,
+    })
+  );
+
   const now = new Date();
   mockTradeFactFindMany.mockResolvedValue([
     { id: "f1", profit: 100, executedAt: new Date(now.getTime() - 86400000), source: "LIVE" },
@@ -362,6 +381,104 @@ describe("runMonitoring", () => {
     );
   });
 
+  // ── Per-strategy threshold profile ────────────────────────────────
+  it("evaluates against the ACTIVE threshold profile and records its version + hash", async () => {
+    mockResolveMonitoringThresholds.mockResolvedValue({
+      thresholds: { ...MONITORING_THRESHOLDS, maxLosingStreak: 25 },
+      profile: {
+        strategyId: "strat_1",
+        version: 3,
+        name: "Scalper",
+        overrides: { maxLosingStreak: 25 },
+        thresholdsHash: "profile_hash",
+      },
+    });
+    mockLiveEAInstanceFindFirst.mockResolvedValue({
+      strategyVersionId: "sv_1",
+      lifecycleState: "LIVE_MONITORING",
+    });
+
+    const run = await importRunMonitoring();
+    await run(params);
+
+    expect(mockResolveMonitoringThresholds).toHaveBeenCalledWith("strat_1", MONITORING_THRESHOLDS);
+    expect(mockEvaluateMonitoring).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ maxLosingStreak: 25 })
+    );
+    expect(mockAppendProofEvent).toHaveBeenCalledWith(
+      "strat_1",
+      "MONITORING_RUN_COMPLETED",
+      expect.objectContaining({
+        thresholdsHash: "th_hash",
+        profileVersion: 3,
+        profileHash: "profile_hash",
+      })
+    );
+    expect(mockMonitoringRunUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          status: "COMPLETED",
+          profileVersion: 3,
+          profileHash: "profile_hash",
+        }),
+      })
+    );
+  });
+
+  it("tampered threshold profile: fails closed with CONFIG_UNAVAILABLE", async () => {
+    const { ConfigIntegrityError } = await import("@/domain/verification/config-loader");
+    mockResolveMonitoringThresholds.mockRejectedValue(
+      new ConfigIntegrityError("profile hash mismatch", { expected: "abc", actual: "def" })
+    );
+
+    const run = await importRunMonitoring();
+    const result = await run(params);
+
+    expect(result.verdict).toBe("AT_RISK");
+    expect(result.reasons).toEqual(["CONFIG_UNAVAILABLE"]);
+    expect(mockEvaluateMonitoring).not.toHaveBeenCalled();
+  });
+
+  // ── Tail risk ─────────────────────────────────────────────────────
+  it("derives baseline expected shortfall from the backtest's closed trades", async () => {
+    mockBacktestBaselineFindUnique.mockResolvedValue({
+      maxDrawdownPct: 8,
+      sharpeRatio: 1.5,
+      profitFactor: 2.0,
+      winRate: 0.65,
+      backtestResultId: "bt_run_1",
+    });
+    mockBacktestRunFindUnique.mockResolvedValue({
+      initialDeposit: 10_000,
+      trades: [
+        { type: "balance", profit: 10_000 },
+        ...Array.from({ length: 19 }, () => ({ type: "buy", profit: 20 })),
+        { type: "sell", profit: -100 },
+      ],
+    });
+
+    const run = await importRunMonitoring();
+    await run(params);
+
+    expect(mockBacktestRunFindUnique).toHaveBeenCalledWith({
+      where: { id: "bt_run_1" },
+      select: { trades: true, initialDeposit: true },
+    });
+    const ctx = mockEvaluateMonitoring.mock.calls[0][0];
+    expect(ctx.baselineExpectedShortfallPct).toBeCloseTo((100 / 10_380) * 100, 4);
+    // Only 2 live trades — below the minimum sample for a live tail estimate
+    expect(ctx.liveExpectedShortfallPct).toBeNull();
+  });
+
+  it("leaves baseline expected shortfall null when the baseline has no backtest run", async () => {
+    const run = await importRunMonitoring();
+    await run(params);
+
+    expect(mockBacktestRunFindUnique).not.toHaveBeenCalled();
+    expect(mockEvaluateMonitoring.mock.calls[0][0].baselineExpectedShortfallPct).toBeNull();
+  });
+
   // ── Baseline missing — fail-safe early return ────────────────────
   it("aborts with NO_VERIFIED_BASELINE when no BacktestBaseline found", async () => {
     mockBacktestBaselineFindUnique.mockResolvedValue(null);
@@ -5,12 +5,13 @@
  * strategyId is retained for proof chain continuity and TradeFact queries.
  *
  * Phases:
- *   0.  Load config (reuse verification config-loader)
+ *   0.  Load config (reuse verification config-loader) + per-strategy threshold profile
  *   1.  Build LIVE trade snapshot (scoped to source=LIVE, strategyId — TradeFact is strategy-scoped)
  *   1b. Compute live metrics from trade PnLs
  *   1c. Load baselines from BacktestBaseline (via instance's strategyVersionId)
+ *   1c'. Compute live vs baseline expected shortfall (tail risk)
  *   1d. Load CUSUM drift from HealthSnapshots (scoped to this instance)
- *   2.  Evaluate monitoring rules (5 deterministic rules)
+ *   2.  Evaluate monitoring rules (deterministic, in rule-registry order)
  *   3+3b+4. Atomic transaction (Serializable):
  *       - Mark run COMPLETED
  *       - Count consecutive healthy runs (per instance)
@@ -31,6 +32,7 @@ import {
 import type { MonitoringThresholds } from "@/domain/verification/config-snapshot";
 import { appendProofEvent, appendProofEventInTx } from "@/lib/proof/events";
 import { evaluateMonitoring } from "./evaluate-monitoring";
+import { resolveMonitoringThresholds } from "./threshold-profile-store";
 import { MONITORING } from "./constants";
 import {
   computeLiveMaxDrawdownPct,
@@ -40,6 +42,12 @@ import {
   computeCurrentLosingStreak,
   computeDaysSinceLastTrade,
 } from "./live-metrics";
+import {
+  closedTradePnlsFromDeals,
+  computeExpectedShortfallPct,
+  inferStartingBalance,
+} from "./tail-risk";
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
 import { MonitoringConfigError } from "./types";
 import type { MonitoringVerdict } from "./types";
 import { decideMonitoringTransition } from "./decide-monitoring-transition";
@@ -137,6 +145,8 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
     let thresholdsHash: string;
     let configSource: string;
     let monitoringThresholds: MonitoringThresholds;
+    let profileVersion: number | null;
+    let profileHash: string | null;
 
     try {
       const loaded = await loadActiveConfigWithFallback();
@@ -149,7 +159,16 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
       if (!loaded.config.monitoringThresholds) {
         throw new MonitoringConfigError(`Config ${configVersion} missing monitoringThresholds`);
       }
-      monitoringThresholds = loaded.config.monitoringThresholds;
+
+      // Per-strategy threshold profile (if any) overrides the config's rule thresholds.
+      // A tampered profile throws ConfigIntegrityError — same fail-closed path as config.
+      const resolved = await resolveMonitoringThresholds(
+        strategyId,
+        loaded.config.monitoringThresholds
+      );
+      monitoringThresholds = resolved.thresholds;
+      profileVersion = resolved.profile?.version ?? null;
+      profileHash = resolved.profile?.thresholdsHash ?? null;
     } catch (err) {
       if (
         err instanceof NoActiveConfigError ||
@@ -262,18 +281,25 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
     // version linked to this instance, not the latest version of the strategy.
     const instanceForBaseline = await prisma.liveEAInstance.findUnique({
       where: { id: instanceId },
-      select: { strategyVersionId: true },
+      select: { strategyVersionId: true, balance: true },
     });
     let baseline: {
       maxDrawdownPct: number;
       sharpeRatio: number | null;
       profitFactor: number;
       winRate: number;
+      backtestResultId: string | null;
     } | null = null;
     if (instanceForBaseline?.strategyVersionId) {
       baseline = await prisma.backtestBaseline.findUnique({
         where: { strategyVersionId: instanceForBaseline.strategyVersionId },
-        select: { maxDrawdownPct: true, sharpeRatio: true, profitFactor: true, winRate: true },
+        select: {
+          maxDrawdownPct: true,
+          sharpeRatio: true,
+          profitFactor: true,
+          winRate: true,
+          backtestResultId: true,
+        },
       });
     }
     const baselineMissing = !baseline;
@@ -301,6 +327,34 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
       };
     }
 
+    // Phase 1c': Tail risk — expected shortfall of per-trade returns, live vs the
+    // backtest the baseline was derived from (BacktestRun.trades).
+    const liveExpectedShortfallPct = computeExpectedShortfallPct(
+      snapshot.tradePnls,
+      inferStartingBalance(
+        instanceForBaseline?.balance,
+        snapshot.tradePnls,
+        LIVE_SNAPSHOT_INITIAL_BALANCE
+      ),
+      MONITORING.EXPECTED_SHORTFALL_TAIL,
+      MONITORING.EXPECTED_SHORTFALL_MIN_TRADES
+    );
+    let baselineExpectedShortfallPct: number | null = null;
+    if (baseline?.backtestResultId) {
+      const backtestRun = await prisma.backtestRun.findUnique({
+        where: { id: baseline.backtestResultId },
+        select: { trades: true, initialDeposit: true },
+      });
+      if (backtestRun && Array.isArray(backtestRun.trades)) {
+        baselineExpectedShortfallPct = computeExpectedShortfallPct(
+          closedTradePnlsFromDeals(backtestRun.trades as unknown as ParsedDeal[]),
+          backtestRun.initialDeposit,
+          MONITORING.EXPECTED_SHORTFALL_TAIL,
+          MONITORING.EXPECTED_SHORTFALL_MIN_TRADES
+        );
+      }
+    }
+
     // Phase 1d: Load CUSUM drift from HealthSnapshots scoped to THIS instance.
     // Previously queried through strategyId which could blend multiple instances.
     const driftSnapshots = await prisma.healthSnapshot.findMany({
@@ -335,6 +389,8 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
         baselineWinRate: baseline?.winRate ?? null,
         baselineMissing,
         consecutiveDriftSnapshots,
+        liveExpectedShortfallPct,
+        baselineExpectedShortfallPct,
       },
       monitoringThresholds
     );
@@ -358,6 +414,8 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
             configVersion,
             thresholdsHash,
             configSource,
+            profileVersion,
+            profileHash,
           },
         });
 
@@ -433,12 +491,16 @@ export async function runMonitoring(params: RunMonitoringParams): Promise<RunMon
           configVersion,
           thresholdsHash,
           configSource,
+          profileVersion,
+          profileHash,
           liveMaxDrawdownPct,
           liveRollingSharpe,
           currentLosingStreak,
           daysSinceLastTrade,
           baselineMissing,
           consecutiveDriftSnapshots,
+          liveExpectedShortfallPct,
+          baselineExpectedShortfallPct,
           transitionDecision: JSON.stringify({
             type: transitionDecision.type,
             ...(transitionDecision.type === "TRANSITION"
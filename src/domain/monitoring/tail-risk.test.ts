@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  closedTradePnlsFromDeals,
+  computeExpectedShortfallPct,
+  computeTradeReturnsPct,
+  inferStartingBalance,
+} from "./tail-risk";
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
+
+describe("computeTradeReturnsPct", () => {
+  it("measures each trade against the equity before it", () => {
+    expect(computeTradeReturnsPct([100, -220], 1000)).toEqual([10, -20]);
+  });
+
+  it("stops once the account is blown", () => {
+    expect(computeTradeReturnsPct([-1000, 50], 1000)).toEqual([-100]);
+  });
+});
+
+describe("computeExpectedShortfallPct", () => {
+  it("averages the worst tail of returns as a positive loss", () => {
+    // 20 trades on 10_000: 18 × +10, then -200 and -400 (≈ -2% and ≈ -4%)
+    const pnls = [...Array(18).fill(10), -200, -400];
+    const es = computeExpectedShortfallPct(pnls, 10_000, 0.1, 20)!;
+
+    // Worst 10% = 2 trades: -200/10180 and -400/9980
+    const expected = -((-200 / 10_180) * 100 + (-400 / 9_980) * 100) / 2;
+    expect(es).toBeCloseTo(expected, 4);
+  });
+
+  it("uses at least one trade for the tail", () => {
+    const pnls = [...Array(19).fill(10), -500];
+    const es = computeExpectedShortfallPct(pnls, 10_000, 0.01, 20)!;
+    expect(es).toBeCloseTo((500 / 10_190) * 100, 4);
+  });
+
+  it("returns 0 when the tail holds no losses", () => {
+    expect(computeExpectedShortfallPct(Array(20).fill(10), 10_000, 0.05, 20)).toBe(0);
+  });
+
+  it("returns null below the minimum trade count or without a balance", () => {
+    expect(computeExpectedShortfallPct([-10, 10], 10_000, 0.05, 20)).toBeNull();
+    expect(computeExpectedShortfallPct(Array(20).fill(-10), 0, 0.05, 20)).toBeNull();
+  });
+
+  it("flags a martingale blow-up that drawdown alone sees late", () => {
+    const steady = [...Array(40).fill(25), -30, -30];
+    const martingale = [...Array(40).fill(25), -30, -480];
+
+    const baseline = computeExpectedShortfallPct(steady, 10_000, 0.05, 20)!;
+    const live = computeExpectedShortfallPct(martingale, 10_000, 0.05, 20)!;
+    expect(live).toBeGreaterThan(baseline * 1.5);
+  });
+});
+
+describe("closedTradePnlsFromDeals", () => {
+  it("keeps closing deals only", () => {
+    const deals = [
+      { type: "balance", profit: 10_000 },
+      { type: "buy", profit: 0 },
+      { type: "sell", profit: -42.5 },
+      { type: "sell", profit: 0 },
+      { type: "buy", profit: 18 },
+    ] as ParsedDeal[];
+
+    expect(closedTradePnlsFromDeals(deals)).toEqual([-42.5, 18]);
+  });
+});
+
+describe("inferStartingBalance", () => {
+  it("subtracts the window's PnL from the current balance", () => {
+    expect(inferStartingBalance(1_050, [100, -50], 10_000)).toBe(1_000);
+  });
+
+  it("falls back when the balance is unknown or the start is not positive", () => {
+    expect(inferStartingBalance(null, [100], 10_000)).toBe(10_000);
+    expect(inferStartingBalance(50, [100], 10_000)).toBe(10_000);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tail-risk metrics — expected shortfall (CVaR) of per-trade returns.
+ *
+ * Pure functions — no IO. Used for both the live side (TradeFact PnLs) and
+ * the baseline side (BacktestRun.trades), so both tails are measured the
+ * same way: each trade's PnL as a percentage of equity before that trade.
+ */
+
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
+
+/**
+ * Per-trade returns in percent of the equity before each trade.
+ * Stops at the first trade that starts from non-positive equity
+ * (the account is blown — later returns are undefined).
+ */
+export function computeTradeReturnsPct(tradePnls: number[], initialBalance: number): number[] {
+  const returns: number[] = [];
+  let equity = initialBalance;
+  for (const pnl of tradePnls) {
+    if (equity <= 0) break;
+    returns.push((pnl / equity) * 100);
+    equity += pnl;
+  }
+  return returns;
+}
+
+/**
+ * Expected shortfall: mean loss of the worst `tail` fraction of per-trade
+ * returns, as a positive percentage (a 2.5 means the average tail trade
+ * lost 2.5% of equity). Returns 0 when the tail holds no losses.
+ *
+ * Returns null when fewer than `minTrades` returns are available — a tail
+ * estimated from a handful of trades is noise.
+ */
+export function computeExpectedShortfallPct(
+  tradePnls: number[],
+  initialBalance: number,
+  tail: number,
+  minTrades: number
+): number | null {
+  if (initialBalance <= 0) return null;
+  const returns = computeTradeReturnsPct(tradePnls, initialBalance);
+  if (returns.length < minTrades) return null;
+
+  const sorted = [...returns].sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.ceil(sorted.length * tail));
+  const tailMean = sorted.slice(0, tailCount).reduce((sum, r) => sum + r, 0) / tailCount;
+
+  return Math.round(Math.max(0, -tailMean) * 10000) / 10000;
+}
+
+/**
+ * Closed-trade PnLs from an MT5 deal list, in report order.
+ * Balance operations are excluded, as are zero-profit deals (entry legs
+ * of a position carry no profit — only the closing deal does).
+ */
+export function closedTradePnlsFromDeals(deals: ParsedDeal[]): number[] {
+  return deals.filter((d) => d.type !== "balance" && d.profit !== 0).map((d) => d.profit);
+}
+
+/**
+ * Equity at the start of a live trade window: current account balance minus
+ * the window's PnL. Falls back to `fallback` when the balance is unknown or
+ * the implied starting equity is not positive (deposits/withdrawals inside
+ * the window can make it so).
+ */
+export function inferStartingBalance(
+  currentBalance: number | null | undefined,
+  tradePnls: number[],
+  fallback: number
+): number {
+  if (currentBalance == null || !Number.isFinite(currentBalance)) return fallback;
+  const start = currentBalance - tradePnls.reduce((sum, pnl) => sum + pnl, 0);
+  return start > 0 ? start : fallback;
+}
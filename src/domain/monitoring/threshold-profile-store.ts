@@ -0,0 +1,152 @@
+/**
+ * Persistence for per-strategy monitoring threshold profiles.
+ *
+ * Profiles are append-only: publishing supersedes the current ACTIVE row and
+ * inserts version N+1; retiring falls back to the config defaults. Loading is
+ * fail-closed — a profile whose stored hash does not match its overrides
+ * throws ConfigIntegrityError, exactly like a tampered VerificationConfig.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { ConfigIntegrityError } from "@/domain/verification/config-loader";
+import type { MonitoringThresholds } from "@/domain/verification/config-snapshot";
+import {
+  applyThresholdProfile,
+  buildThresholdProfileSnapshot,
+  verifyThresholdProfile,
+  type ThresholdProfileOverrides,
+  type ThresholdProfileSnapshot,
+} from "./threshold-profile";
+
+interface ThresholdProfileRow {
+  strategyId: string;
+  version: number;
+  name: string;
+  overrides: unknown;
+  thresholdsHash: string;
+}
+
+function toSnapshot(row: ThresholdProfileRow): ThresholdProfileSnapshot {
+  return {
+    strategyId: row.strategyId,
+    version: row.version,
+    name: row.name,
+    overrides: row.overrides as ThresholdProfileOverrides,
+    thresholdsHash: row.thresholdsHash,
+  };
+}
+
+/**
+ * Load and verify the ACTIVE profile for a strategy.
+ * Returns null when the strategy uses the config defaults.
+ *
+ * Throws ConfigIntegrityError if the stored profile fails verification.
+ */
+export async function loadActiveThresholdProfile(
+  strategyId: string
+): Promise<ThresholdProfileSnapshot | null> {
+  const row = await prisma.monitoringThresholdProfile.findFirst({
+    where: { strategyId, status: "ACTIVE" },
+  });
+  if (!row) return null;
+
+  const profile = toSnapshot(row);
+  const check = verifyThresholdProfile(profile);
+  if (!check.valid) {
+    throw new ConfigIntegrityError(
+      `Threshold profile v${profile.version} for ${strategyId} failed integrity check — profile may be tampered`,
+      { expected: check.expected, actual: check.actual }
+    );
+  }
+
+  return profile;
+}
+
+/**
+ * Effective monitoring thresholds for a strategy: config thresholds with the
+ * ACTIVE profile applied. `profile` is null when no profile is active.
+ */
+export async function resolveMonitoringThresholds(
+  strategyId: string,
+  base: MonitoringThresholds
+): Promise<{ thresholds: MonitoringThresholds; profile: ThresholdProfileSnapshot | null }> {
+  const profile = await loadActiveThresholdProfile(strategyId);
+  return { thresholds: applyThresholdProfile(base, profile), profile };
+}
+
+/** All versions for a strategy, newest first. */
+export async function listThresholdProfiles(strategyId: string) {
+  return prisma.monitoringThresholdProfile.findMany({
+    where: { strategyId },
+    orderBy: { version: "desc" },
+    select: {
+      version: true,
+      name: true,
+      overrides: true,
+      thresholdsHash: true,
+      status: true,
+      createdAt: true,
+      supersededAt: true,
+    },
+  });
+}
+
+/**
+ * Publish a new profile version and make it ACTIVE.
+ *
+ * Concurrent publishes for the same strategy race on the
+ * (strategyId, version) unique constraint — the loser gets P2002.
+ */
+export async function publishThresholdProfile(params: {
+  strategyId: string;
+  name: string;
+  overrides: ThresholdProfileOverrides;
+  createdBy: string;
+}): Promise<ThresholdProfileSnapshot> {
+  const { strategyId, name, overrides, createdBy } = params;
+
+  return prisma.$transaction(async (tx) => {
+    const latest = await tx.monitoringThresholdProfile.findFirst({
+      where: { strategyId },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    await tx.monitoringThresholdProfile.updateMany({
+      where: { strategyId, status: "ACTIVE" },
+      data: { status: "SUPERSEDED", supersededAt: new Date() },
+    });
+
+    const snapshot = buildThresholdProfileSnapshot(
+      strategyId,
+      (latest?.version ?? 0) + 1,
+      name,
+      overrides
+    );
+
+    await tx.monitoringThresholdProfile.create({
+      data: {
+        strategyId,
+        version: snapshot.version,
+        name: snapshot.name,
+        overrides: snapshot.overrides,
+        thresholdsHash: snapshot.thresholdsHash,
+        createdBy,
+      },
+    });
+
+    return snapshot;
+  });
+}
+
+/**
+ * Retire the ACTIVE profile so the strategy falls back to config defaults.
+ * Returns false when there was no ACTIVE profile.
+ */
+export async function retireThresholdProfile(strategyId: string): Promise<boolean> {
+  const { count } = await prisma.monitoringThresholdProfile.updateMany({
+    where: { strategyId, status: "ACTIVE" },
+    data: { status: "RETIRED", supersededAt: new Date() },
+  });
+  return count > 0;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyThresholdProfile,
+  buildThresholdProfileSnapshot,
+  thresholdProfileInputSchema,
+  verifyThresholdProfile,
+} from "./threshold-profile";
+import {
+  buildConfigSnapshot,
+  computeThresholdProfileHash,
+} from "@/domain/verification/config-snapshot";
+
+const base = buildConfigSnapshot().monitoringThresholds!;
+
+describe("buildThresholdProfileSnapshot", () => {
+  it("hashes overrides independent of key order and metadata", () => {
+    const a = buildThresholdProfileSnapshot("AS-1", 1, "Scalper", {
+      maxLosingStreak: 20,
+      maxInactivityDays: 3,
+    });
+    const b = buildThresholdProfileSnapshot("AS-2", 7, "Other name", {
+      maxInactivityDays: 3,
+      maxLosingStreak: 20,
+    });
+
+    expect(a.thresholdsHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.thresholdsHash).toBe(b.thresholdsHash);
+  });
+
+  it("changes the hash when any override value changes", () => {
+    expect(computeThresholdProfileHash({ maxLosingStreak: 20 })).not.toBe(
+      computeThresholdProfileHash({ maxLosingStreak: 21 })
+    );
+  });
+});
+
+describe("verifyThresholdProfile", () => {
+  it("accepts an untouched profile", () => {
+    const profile = buildThresholdProfileSnapshot("AS-1", 1, "Swing grid", { sharpeMinRatio: 0.3 });
+    expect(verifyThresholdProfile(profile).valid).toBe(true);
+  });
+
+  it("rejects a profile whose overrides were edited after hashing", () => {
+    const profile = buildThresholdProfileSnapshot("AS-1", 1, "Swing grid", { sharpeMinRatio: 0.3 });
+    profile.overrides = { sharpeMinRatio: 0.2 };
+
+    const result = verifyThresholdProfile(profile);
+    expect(result.valid).toBe(false);
+    expect(result.actual).not.toBe(result.expected);
+  });
+
+  it("rejects governance fields and out-of-bounds values even with a matching hash", () => {
+    const governance = { ackDeadlineMinutes: 1 } as never;
+    const forged = buildThresholdProfileSnapshot("AS-1", 2, "Forged", governance);
+    expect(verifyThresholdProfile(forged).actual).toMatch(/^STRUCTURAL:/);
+
+    const disabled = buildThresholdProfileSnapshot("AS-1", 3, "Disabled", { sharpeMinRatio: 0 });
+    expect(verifyThresholdProfile(disabled).valid).toBe(false);
+  });
+});
+
+describe("thresholdProfileInputSchema", () => {
+  it("requires a name and at least one override", () => {
+    expect(thresholdProfileInputSchema.safeParse({ name: "x", overrides: {} }).success).toBe(false);
+    expect(
+      thresholdProfileInputSchema.safeParse({ name: " ", overrides: { maxLosingStreak: 5 } })
+        .success
+    ).toBe(false);
+    expect(
+      thresholdProfileInputSchema.safeParse({ name: "Scalper", overrides: { maxLosingStreak: 5 } })
+        .success
+    ).toBe(true);
+  });
+
+  it("rejects fractional counts", () => {
+    const parsed = thresholdProfileInputSchema.safeParse({
+      name: "Scalper",
+      overrides: { maxLosingStreak: 5.5 },
+    });
+    expect(parsed.success).toBe(false);
+  });
+});
+
+describe("applyThresholdProfile", () => {
+  it("returns the base thresholds when no profile is active", () => {
+    expect(applyThresholdProfile(base, null)).toBe(base);
+  });
+
+  it("overrides only the profile's fields", () => {
+    const profile = buildThresholdProfileSnapshot("AS-1", 1, "Scalper", { maxLosingStreak: 25 });
+    const effective = applyThresholdProfile(base, profile);
+
+    expect(effective.maxLosingStreak).toBe(25);
+    expect(effective.drawdownBreachMultiplier).toBe(base.drawdownBreachMultiplier);
+    expect(effective.overrideApprovalPolicy).toBe(base.overrideApprovalPolicy);
+  });
+});
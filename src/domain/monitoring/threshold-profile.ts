@@ -0,0 +1,116 @@
+/**
+ * Per-strategy monitoring threshold profiles — pure module.
+ *
+ * A profile overrides a subset of the governed rule thresholds for one
+ * strategy (a scalper tolerates longer losing streaks than a swing grid
+ * tolerates inactivity). Profiles are immutable and versioned: editing a
+ * profile publishes version N+1. Each version carries a thresholdsHash
+ * computed the same way as VerificationConfig's, and every monitoring run
+ * records the version + hash it evaluated against.
+ *
+ * No DB, no env, no time. Persistence lives in threshold-profile-store.ts.
+ */
+
+import { z } from "zod";
+import {
+  computeThresholdProfileHash,
+  type MonitoringThresholds,
+  type SnapshotVerificationResult,
+} from "@/domain/verification/config-snapshot";
+import { THRESHOLD_PROFILE_BOUNDS, THRESHOLD_PROFILE_NAME_MAX_LENGTH } from "./constants";
+
+export type ProfileThresholdKey = keyof typeof THRESHOLD_PROFILE_BOUNDS;
+
+/** The overridable rule thresholds — any subset, never SLA or governance fields. */
+export type ThresholdProfileOverrides = Partial<Pick<MonitoringThresholds, ProfileThresholdKey>>;
+
+/** Immutable snapshot of one profile version. */
+export interface ThresholdProfileSnapshot {
+  strategyId: string;
+  version: number;
+  name: string;
+  overrides: ThresholdProfileOverrides;
+  thresholdsHash: string;
+}
+
+function bounded(key: ProfileThresholdKey) {
+  const { min, max, integer } = THRESHOLD_PROFILE_BOUNDS[key];
+  const schema = z.number().min(min).max(max);
+  return integer ? schema.int() : schema;
+}
+
+export const thresholdProfileOverridesSchema = z
+  .object({
+    drawdownBreachMultiplier: bounded("drawdownBreachMultiplier").optional(),
+    sharpeMinRatio: bounded("sharpeMinRatio").optional(),
+    profitFactorMinRatio: bounded("profitFactorMinRatio").optional(),
+    winRateMinRatio: bounded("winRateMinRatio").optional(),
+    maxLosingStreak: bounded("maxLosingStreak").optional(),
+    maxInactivityDays: bounded("maxInactivityDays").optional(),
+    cusumDriftConsecutiveSnapshots: bounded("cusumDriftConsecutiveSnapshots").optional(),
+    recoveryRunsRequired: bounded("recoveryRunsRequired").optional(),
+    expectedShortfallMultiplier: bounded("expectedShortfallMultiplier").optional(),
+  })
+  .strict();
+
+/** Request body for authoring a new profile version. */
+export const thresholdProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(THRESHOLD_PROFILE_NAME_MAX_LENGTH),
+  overrides: thresholdProfileOverridesSchema.refine((o) => Object.keys(o).length > 0, {
+    message: "At least one threshold override is required",
+  }),
+});
+
+export type ThresholdProfileInput = z.infer<typeof thresholdProfileInputSchema>;
+
+/** Build a profile snapshot with its thresholdsHash. */
+export function buildThresholdProfileSnapshot(
+  strategyId: string,
+  version: number,
+  name: string,
+  overrides: ThresholdProfileOverrides
+): ThresholdProfileSnapshot {
+  return {
+    strategyId,
+    version,
+    name,
+    overrides,
+    thresholdsHash: computeThresholdProfileHash(overrides),
+  };
+}
+
+/**
+ * Verify a stored profile: overrides must be structurally valid (known keys,
+ * within bounds) and the stored hash must match the recomputed one.
+ */
+export function verifyThresholdProfile(
+  profile: ThresholdProfileSnapshot
+): SnapshotVerificationResult {
+  const parsed = thresholdProfileOverridesSchema.safeParse(profile.overrides);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      expected: profile.thresholdsHash,
+      actual: `STRUCTURAL:invalid overrides in profile v${profile.version}`,
+    };
+  }
+
+  const actual = computeThresholdProfileHash(profile.overrides);
+  return {
+    valid: actual === profile.thresholdsHash,
+    expected: profile.thresholdsHash,
+    actual,
+  };
+}
+
+/**
+ * Effective thresholds for a run: the config's monitoring thresholds with
+ * the profile's overrides applied. A null profile returns the base unchanged.
+ */
+export function applyThresholdProfile(
+  base: MonitoringThresholds,
+  profile: ThresholdProfileSnapshot | null
+): MonitoringThresholds {
+  if (!profile) return base;
+  return { ...base, ...profile.overrides };
+}
@@ -12,6 +12,7 @@ export type MonitoringReasonCode =
   | "MONITORING_LOSS_STREAK"
   | "MONITORING_INACTIVITY"
   | "MONITORING_CUSUM_DRIFT"
+  | "MONITORING_EXPECTED_SHORTFALL_BREACH"
   | "MONITORING_BASELINE_MISSING"
   | "MONITORING_INVALID_INPUT";
 
@@ -51,6 +52,9 @@ export interface MonitoringContext {
   baselineMissing: boolean;
   // CUSUM (from HealthSnapshots scoped to this instance)
   consecutiveDriftSnapshots: number;
+  // Tail risk — expected shortfall of per-trade returns in % (null = not estimable)
+  liveExpectedShortfallPct: number | null;
+  baselineExpectedShortfallPct: number | null;
 }
 
 export interface MonitoringEvaluationResult {
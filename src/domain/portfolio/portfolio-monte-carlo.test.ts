@@ -0,0 +1,253 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildJointDailyPnl,
+  jointHistoryStart,
+  portfolioStartingBalance,
+  summarizeInstanceColumns,
+  simulatePortfolioMonteCarlo,
+  PORTFOLIO_MC_MIN_DAYS,
+  PORTFOLIO_RUIN_DRAWDOWN_PCT,
+} from "./portfolio-monte-carlo";
+
+/** Alternating win/loss day series of `days` rows for one instance. */
+function zigzag(days: number, win: number, loss: number): number[] {
+  return Array.from({ length: days }, (_, d) => (d % 3 === 2 ? -loss : win));
+}
+
+function columns(...series: number[][]): number[][] {
+  return series[0].map((_, d) => series.map((s) => s[d]));
+}
+
+describe("buildJointDailyPnl", () => {
+  const from = new Date("2024-03-01T00:00:00Z");
+  const to = new Date("2024-03-05T23:59:59Z");
+
+  it("builds one zero-filled row per calendar day and one column per instance", () => {
+    const joint = buildJointDailyPnl(
+      [
+        { instanceId: "a", closeTime: new Date("2024-03-01T10:00:00Z"), profit: 50 },
+        { instanceId: "a", closeTime: new Date("2024-03-01T15:00:00Z"), profit: -20 },
+        { instanceId: "b", closeTime: new Date("2024-03-04T09:00:00Z"), profit: -40 },
+      ],
+      ["a", "b"],
+      from,
+      to
+    );
+
+    expect(joint.dates).toEqual([
+      "2024-03-01",
+      "2024-03-02",
+      "2024-03-03",
+      "2024-03-04",
+      "2024-03-05",
+    ]);
+    expect(joint.rows).toEqual([
+      [30, 0],
+      [0, 0],
+      [0, 0],
+      [0, -40],
+      [0, 0],
+    ]);
+  });
+
+  it("ignores unknown instances, non-finite profits and trades outside the window", () => {
+    const joint = buildJointDailyPnl(
+      [
+        { instanceId: "x", closeTime: new Date("2024-03-02T10:00:00Z"), profit: 10 },
+        { instanceId: "a", closeTime: new Date("2024-03-02T10:00:00Z"), profit: NaN },
+        { instanceId: "a", closeTime: new Date("2024-02-28T10:00:00Z"), profit: 10 },
+        { instanceId: "a", closeTime: new Date("2024-03-06T10:00:00Z"), profit: 10 },
+      ],
+      ["a"],
+      from,
+      to
+    );
+
+    expect(joint.rows.flat().every((pnl) => pnl === 0)).toBe(true);
+  });
+});
+
+describe("jointHistoryStart", () => {
+  const earliest = new Date("2024-01-01T00:00:00Z");
+
+  it("starts at the day every instance has data, not at the fixed window start", () => {
+    const start = jointHistoryStart(
+      [
+        { id: "a", createdAt: new Date("2023-06-01T00:00:00Z") },
+        { id: "b", createdAt: new Date("2024-02-10T18:30:00Z") },
+      ],
+      [{ instanceId: "a", closeTime: new Date("2024-01-05T10:00:00Z"), profit: 10 }],
+      earliest
+    );
+
+    expect(start.toISOString()).toBe("2024-02-10T00:00:00.000Z");
+  });
+
+  it("uses a first trade that predates the connection, clipped to the earliest day", () => {
+    const instances = [{ id: "a", createdAt: new Date("2024-03-01T00:00:00Z") }];
+    const trade = (closeTime: string) => [
+      { instanceId: "a", closeTime: new Date(closeTime), profit: 10 },
+    ];
+
+    expect(jointHistoryStart(instances, trade("2024-02-20T08:00:00Z"), earliest)).toEqual(
+      new Date("2024-02-20T00:00:00Z")
+    );
+    expect(jointHistoryStart(instances, trade("2023-12-01T08:00:00Z"), earliest)).toEqual(earliest);
+  });
+});
+
+describe("portfolioStartingBalance", () => {
+  const from = new Date("2024-03-01T00:00:00Z");
+  const account = (id: string, accountNumber: string | null, balance: number) => ({
+    id,
+    broker: "Broker",
+    accountNumber,
+    balance,
+    equity: balance,
+  });
+  const trade = (instanceId: string, closeTime: string, profit: number) => ({
+    instanceId,
+    closeTime: new Date(closeTime),
+    profit,
+  });
+
+  it("counts a shared account once and walks it back by the PnL since the window start", () => {
+    const balance = portfolioStartingBalance(
+      [account("a", "1001", 10_500), account("b", "1001", 10_500), account("c", null, 2_000)],
+      [
+        trade("a", "2024-02-20T10:00:00Z", 1_000),
+        trade("a", "2024-03-02T10:00:00Z", 300),
+        trade("b", "2024-03-05T10:00:00Z", 200),
+        trade("c", "2024-03-03T10:00:00Z", -100),
+      ],
+      from
+    );
+
+    expect(balance).toBe(10_000 + 2_100);
+  });
+
+  it("leaves out instances that do not contribute a column", () => {
+    const balance = portfolioStartingBalance(
+      [account("a", "1001", 5_000)],
+      [trade("a", "2024-03-02T10:00:00Z", 500), trade("idle", "2024-03-02T10:00:00Z", 900)],
+      from
+    );
+
+    expect(balance).toBe(4_500);
+  });
+});
+
+describe("summarizeInstanceColumns", () => {
+  it("totals each instance's own column", () => {
+    const summary = summarizeInstanceColumns({
+      dates: ["2024-03-01", "2024-03-02", "2024-03-03"],
+      instanceIds: ["a", "b"],
+      rows: [
+        [30, 0],
+        [-10, 5],
+        [-25, 0],
+      ],
+    });
+
+    expect(summary).toEqual([
+      { instanceId: "a", totalPnl: -5, worstDay: -25 },
+      { instanceId: "b", totalPnl: 5, worstDay: 0 },
+    ]);
+  });
+});
+
+describe("simulatePortfolioMonteCarlo", () => {
+  const days = 60;
+
+  it("is deterministic for the same seed", () => {
+    const rows = columns(zigzag(days, 100, 150), zigzag(days, 80, 120));
+    const a = simulatePortfolioMonteCarlo({ rows, startingBalance: 10_000 }, { iterations: 500 });
+    const b = simulatePortfolioMonteCarlo({ rows, startingBalance: 10_000 }, { iterations: 500 });
+
+    expect(a).toEqual(b);
+  });
+
+  it("keeps hedged instances hedged — perfectly offsetting days carry no risk", () => {
+    const a = zigzag(days, 300, 500);
+    const hedge = a.map((pnl) => -pnl);
+    const result = simulatePortfolioMonteCarlo(
+      { rows: columns(a, hedge), startingBalance: 10_000 },
+      { iterations: 500 }
+    );
+
+    expect(result!.ruinProbability).toBe(0);
+    expect(result!.maxDrawdownPct.p99).toBe(0);
+    expect(result!.returnPct.p50).toBe(0);
+  });
+
+  it("shows more tail drawdown for correlated instances than for offsetting ones", () => {
+    const a = zigzag(days, 300, 500);
+    const correlated = simulatePortfolioMonteCarlo(
+      { rows: columns(a, a), startingBalance: 10_000 },
+      { iterations: 500 }
+    );
+    const independent = simulatePortfolioMonteCarlo(
+      { rows: columns(a, [...a.slice(1), a[0]]), startingBalance: 10_000 },
+      { iterations: 500 }
+    );
+
+    expect(correlated!.maxDrawdownPct.p95).toBeGreaterThan(independent!.maxDrawdownPct.p95);
+  });
+
+  it("counts ruin at the configured drawdown from the starting balance", () => {
+    const losing = Array.from({ length: days }, () => -200);
+    const result = simulatePortfolioMonteCarlo(
+      { rows: columns(losing), startingBalance: 10_000 },
+      { iterations: 200 }
+    );
+
+    // 60 days × -200 = -12,000 → every path passes the 50% ruin line
+    expect(result!.ruinProbability).toBe(1);
+    expect(result!.ruinDrawdownPct).toBe(PORTFOLIO_RUIN_DRAWDOWN_PCT);
+    expect(result!.maxDrawdownPct.p50).toBe(100);
+  });
+
+  it("orders percentiles", () => {
+    const rows = columns(zigzag(days, 100, 180), zigzag(days, 60, 90));
+    const result = simulatePortfolioMonteCarlo(
+      { rows, startingBalance: 5_000 },
+      { iterations: 1_000, horizonDays: 120, blockLength: 5 }
+    );
+
+    const { p50, p90, p95, p99 } = result!.maxDrawdownPct;
+    expect(p50).toBeLessThanOrEqual(p90);
+    expect(p90).toBeLessThanOrEqual(p95);
+    expect(p95).toBeLessThanOrEqual(p99);
+    expect(result!.returnPct.p5).toBeLessThanOrEqual(result!.returnPct.p95);
+    expect(result!.horizonDays).toBe(120);
+    expect(result!.blockLength).toBe(5);
+  });
+
+  it("defaults the block length to the cube root of the history", () => {
+    const rows = columns(zigzag(64, 100, 150));
+    const result = simulatePortfolioMonteCarlo(
+      { rows, startingBalance: 10_000 },
+      { iterations: 10 }
+    );
+
+    expect(result!.blockLength).toBe(4);
+    expect(result!.historyDays).toBe(64);
+  });
+
+  it("returns null for too little history", () => {
+    const rows = columns(zigzag(PORTFOLIO_MC_MIN_DAYS - 1, 100, 150));
+    expect(simulatePortfolioMonteCarlo({ rows, startingBalance: 10_000 })).toBeNull();
+  });
+
+  it("returns null for invalid inputs", () => {
+    const rows = columns(zigzag(days, 100, 150));
+    expect(simulatePortfolioMonteCarlo({ rows, startingBalance: 0 })).toBeNull();
+    expect(simulatePortfolioMonteCarlo({ rows, startingBalance: NaN })).toBeNull();
+    expect(
+      simulatePortfolioMonteCarlo({ rows, startingBalance: 10_000 }, { iterations: 0 })
+    ).toBeNull();
+
+    const withNaN = rows.map((row, d) => (d === 3 ? [NaN] : row));
+    expect(simulatePortfolioMonteCarlo({ rows: withNaN, startingBalance: 10_000 })).toBeNull();
+  });
+});
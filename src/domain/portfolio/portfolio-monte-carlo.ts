@@ -0,0 +1,283 @@
+/**
+ * Portfolio Monte Carlo — block-bootstrap simulation of the joint daily PnL
+ * of every live instance trading for a user.
+ *
+ * Single-strategy ruin (verification/rules/monte-carlo-ruin.ts) resamples one
+ * strategy's trades independently. EAs sharing an account lose together on the
+ * same days, so resampling each strategy on its own understates portfolio risk.
+ * Here whole calendar days are resampled, all instances at once, in blocks of
+ * consecutive days (circular moving-block bootstrap): same-day cross-strategy
+ * correlation is kept exactly and short-range autocorrelation (losing weeks)
+ * is kept within each block.
+ *
+ * Deterministic: mulberry32 PRNG seeded explicitly. Pure function — no IO.
+ */
+
+import { mulberry32 } from "@/domain/verification/rules/monte-carlo-ruin";
+
+/** Simulation paths per run */
+export const PORTFOLIO_MC_ITERATIONS = 5_000;
+/** Fewer days of joint history than this cannot support a block bootstrap */
+export const PORTFOLIO_MC_MIN_DAYS = 20;
+/** A path is ruined once equity falls this far below the starting balance */
+export const PORTFOLIO_RUIN_DRAWDOWN_PCT = 50;
+/** Default seed — same history, same answer */
+export const PORTFOLIO_MC_SEED = 20_240_101;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PortfolioTrade {
+  instanceId: string;
+  closeTime: Date;
+  profit: number;
+}
+
+export interface JointDailyPnl {
+  /** ISO dates (YYYY-MM-DD), one per calendar day, chronological */
+  dates: string[];
+  instanceIds: string[];
+  /** rows[day][instance] — zero on days an instance closed nothing */
+  rows: number[][];
+}
+
+/** An instance's last reported account figures, for the starting balance */
+export interface PortfolioInstanceAccount {
+  id: string;
+  broker: string | null;
+  accountNumber: string | null;
+  balance: number | null;
+  equity: number | null;
+}
+
+/** One instance's own column of a joint matrix, summed over the window */
+export interface InstanceDailySummary {
+  instanceId: string;
+  totalPnl: number;
+  /** Most negative single day (0 when the instance never had a losing day) */
+  worstDay: number;
+}
+
+export interface PortfolioMonteCarloInput {
+  /** Joint daily PnL, one row per calendar day */
+  rows: number[][];
+  startingBalance: number;
+}
+
+export interface PortfolioMonteCarloOptions {
+  iterations?: number;
+  /** Days per simulated path (default: length of the history) */
+  horizonDays?: number;
+  /** Days per resampled block (default: cube root of the history length) */
+  blockLength?: number;
+  seed?: number;
+}
+
+export interface PortfolioMonteCarloResult {
+  /** Fraction of paths whose equity fell PORTFOLIO_RUIN_DRAWDOWN_PCT below the start */
+  ruinProbability: number;
+  ruinDrawdownPct: number;
+  simulationsRun: number;
+  horizonDays: number;
+  blockLength: number;
+  historyDays: number;
+  /** Percentiles of each path's max peak-to-trough drawdown, in % */
+  maxDrawdownPct: { p50: number; p90: number; p95: number; p99: number };
+  /** Percentiles of each path's total return over the horizon, in % */
+  returnPct: { p5: number; p50: number; p95: number };
+}
+
+/**
+ * Build the joint daily PnL matrix from closed trades: one row per UTC calendar
+ * day from `from` to `to` inclusive, one column per instance. Flat days stay in
+ * the history — a portfolio that trades twice a week is not risky every day.
+ */
+export function buildJointDailyPnl(
+  trades: PortfolioTrade[],
+  instanceIds: string[],
+  from: Date,
+  to: Date
+): JointDailyPnl {
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  const end = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+  const dayCount = end >= start ? Math.floor((end - start) / DAY_MS) + 1 : 0;
+
+  const column = new Map(instanceIds.map((id, i) => [id, i]));
+  const rows = Array.from({ length: dayCount }, () =>
+    new Array<number>(instanceIds.length).fill(0)
+  );
+  const dates = Array.from({ length: dayCount }, (_, d) =>
+    new Date(start + d * DAY_MS).toISOString().slice(0, 10)
+  );
+
+  for (const trade of trades) {
+    const col = column.get(trade.instanceId);
+    if (col === undefined || !Number.isFinite(trade.profit)) continue;
+    const day = Math.floor((trade.closeTime.getTime() - start) / DAY_MS);
+    if (day < 0 || day >= dayCount) continue;
+    rows[day][col] += trade.profit;
+  }
+
+  return { dates, instanceIds, rows };
+}
+
+/**
+ * First UTC day of history common to every instance. Each instance's series starts
+ * when it was connected, or at its first closed trade if that is earlier; days before
+ * that are not flat days and would understate volatility if zero-filled. The result
+ * is never before `earliest`.
+ */
+export function jointHistoryStart(
+  instances: Array<{ id: string; createdAt: Date }>,
+  trades: PortfolioTrade[],
+  earliest: Date
+): Date {
+  const firstTrade = new Map<string, number>();
+  for (const trade of trades) {
+    const t = trade.closeTime.getTime();
+    firstTrade.set(trade.instanceId, Math.min(firstTrade.get(trade.instanceId) ?? t, t));
+  }
+
+  let start = earliest.getTime();
+  for (const inst of instances) {
+    const seriesStart = Math.min(inst.createdAt.getTime(), firstTrade.get(inst.id) ?? Infinity);
+    start = Math.max(start, seriesStart);
+  }
+  const day = new Date(start);
+  return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()));
+}
+
+/**
+ * Portfolio balance on `from`, the first day of the joint history. EAs on the same
+ * trading account each report that account's balance, so balances are counted once
+ * per broker account, and each account's current balance is walked back by the PnL
+ * its instances closed since `from`. Pass only the instances that contribute a
+ * column: an account that did not trade in the window is not part of the portfolio.
+ */
+export function portfolioStartingBalance(
+  instances: PortfolioInstanceAccount[],
+  trades: PortfolioTrade[],
+  from: Date
+): number {
+  const accountOf = new Map<string, string>();
+  const byAccount = new Map<string, number>();
+  for (const inst of instances) {
+    const key = inst.accountNumber ? `${inst.broker ?? ""}|${inst.accountNumber}` : inst.id;
+    accountOf.set(inst.id, key);
+    const balance = inst.balance ?? inst.equity ?? 0;
+    byAccount.set(key, Math.max(byAccount.get(key) ?? 0, balance));
+  }
+
+  let pnlSince = 0;
+  for (const trade of trades) {
+    if (!accountOf.has(trade.instanceId) || !Number.isFinite(trade.profit)) continue;
+    if (trade.closeTime.getTime() < from.getTime()) continue;
+    pnlSince += trade.profit;
+  }
+
+  const current = [...byAccount.values()].reduce((sum, b) => sum + b, 0);
+  return round2(current - pnlSince);
+}
+
+/** Total and worst day of each instance's column, in column order. */
+export function summarizeInstanceColumns(joint: JointDailyPnl): InstanceDailySummary[] {
+  return joint.instanceIds.map((instanceId, col) => {
+    let totalPnl = 0;
+    let worstDay = 0;
+    for (const row of joint.rows) {
+      totalPnl += row[col];
+      worstDay = Math.min(worstDay, row[col]);
+    }
+    return { instanceId, totalPnl: round2(totalPnl), worstDay: round2(worstDay) };
+  });
+}
+
+/** Nearest-rank percentile of an ascending-sorted array. */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Simulate portfolio equity paths by resampling blocks of joint daily PnL.
+ *
+ * Returns null when the history is too short (< PORTFOLIO_MC_MIN_DAYS), the
+ * starting balance is not positive, any PnL is non-finite, or fewer than one
+ * iteration is requested.
+ */
+export function simulatePortfolioMonteCarlo(
+  input: PortfolioMonteCarloInput,
+  options: PortfolioMonteCarloOptions = {}
+): PortfolioMonteCarloResult | null {
+  const { rows, startingBalance } = input;
+  const historyDays = rows.length;
+
+  if (historyDays < PORTFOLIO_MC_MIN_DAYS) return null;
+  if (!Number.isFinite(startingBalance) || startingBalance <= 0) return null;
+  if (rows.some((row) => row.some((pnl) => !Number.isFinite(pnl)))) return null;
+
+  const iterations = options.iterations ?? PORTFOLIO_MC_ITERATIONS;
+  const horizonDays = options.horizonDays ?? historyDays;
+  if (!(iterations >= 1) || !(horizonDays >= 1)) return null;
+  const blockLength = Math.min(
+    historyDays,
+    Math.max(1, options.blockLength ?? Math.round(Math.cbrt(historyDays)))
+  );
+  const rng = mulberry32(options.seed ?? PORTFOLIO_MC_SEED);
+
+  // Rows are resampled whole, so only the portfolio total of each day matters
+  const dailyTotals = rows.map((row) => row.reduce((sum, pnl) => sum + pnl, 0));
+  const ruinEquity = startingBalance * (1 - PORTFOLIO_RUIN_DRAWDOWN_PCT / 100);
+
+  let ruinCount = 0;
+  const maxDrawdowns: number[] = [];
+  const returns: number[] = [];
+
+  for (let sim = 0; sim < iterations; sim++) {
+    let equity = startingBalance;
+    let peak = equity;
+    let maxDD = 0;
+    let ruined = false;
+    let day = 0;
+
+    while (day < horizonDays) {
+      const blockStart = Math.floor(rng() * historyDays);
+      for (let k = 0; k < blockLength && day < horizonDays; k++, day++) {
+        equity += dailyTotals[(blockStart + k) % historyDays];
+        if (equity > peak) peak = equity;
+        if (peak > 0) maxDD = Math.max(maxDD, ((peak - equity) / peak) * 100);
+        if (!ruined && equity <= ruinEquity) ruined = true;
+      }
+    }
+
+    if (ruined) ruinCount++;
+    maxDrawdowns.push(Math.min(maxDD, 100));
+    returns.push(((equity - startingBalance) / startingBalance) * 100);
+  }
+
+  maxDrawdowns.sort((a, b) => a - b);
+  returns.sort((a, b) => a - b);
+
+  return {
+    ruinProbability: ruinCount / iterations,
+    ruinDrawdownPct: PORTFOLIO_RUIN_DRAWDOWN_PCT,
+    simulationsRun: iterations,
+    horizonDays,
+    blockLength,
+    historyDays,
+    maxDrawdownPct: {
+      p50: round2(percentile(maxDrawdowns, 50)),
+      p90: round2(percentile(maxDrawdowns, 90)),
+      p95: round2(percentile(maxDrawdowns, 95)),
+      p99: round2(percentile(maxDrawdowns, 99)),
+    },
+    returnPct: {
+      p5: round2(percentile(returns, 5)),
+      p50: round2(percentile(returns, 50)),
+      p95: round2(percentile(returns, 95)),
+    },
+  };
+}
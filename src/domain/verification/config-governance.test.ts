@@ -29,7 +29,7 @@ describe("VerificationConfig governance", () => {
 
     // Snapshot has the expected shape
     expect(snapshot).toEqual({
-      configVersion: "3.0.0",
+      configVersion: "3.1.0",
       thresholds: expect.objectContaining({
         minTradeCount: 30,
         readyConfidenceThreshold: 0.75,
@@ -44,6 +44,7 @@ describe("VerificationConfig governance", () => {
         maxInactivityDays: 14,
         cusumDriftConsecutiveSnapshots: 3,
         recoveryRunsRequired: 3,
+        expectedShortfallMultiplier: 1.5,
       }),
       thresholdsHash: expect.stringMatching(/^[a-f0-9]{64}$/),
     });
@@ -82,7 +83,7 @@ describe("VerificationConfig governance", () => {
     });
 
     expect(activeConfigs).toHaveLength(1);
-    expect(activeConfigs[0].configVersion).toBe("3.0.0");
+    expect(activeConfigs[0].configVersion).toBe("3.1.0");
     expect(activeConfigs[0].status).toBe("ACTIVE");
   });
 
@@ -34,6 +34,7 @@ const BASE_MONITORING: MonitoringThresholds = {
   overrideApprovalPolicy: "DIFFERENT_REQUIRED",
   overrideExpiryMinutes: 60,
   overrideSuppressionMinutes: 10,
+  expectedShortfallMultiplier: 1.5,
 };
 
 describe("computeThresholdsHash", () => {
@@ -128,7 +129,7 @@ describe("buildConfigSnapshot", () => {
   it("returns configVersion, thresholds, monitoringThresholds, and thresholdsHash", () => {
     const snapshot = buildConfigSnapshot();
 
-    expect(snapshot.configVersion).toBe("3.0.0");
+    expect(snapshot.configVersion).toBe("3.1.0");
     expect(snapshot.thresholds).toEqual(BASE_THRESHOLDS);
     expect(snapshot.monitoringThresholds).toEqual(BASE_MONITORING);
     expect(snapshot.thresholdsHash).toMatch(/^[a-f0-9]{64}$/);
@@ -35,6 +35,8 @@ export interface MonitoringThresholds {
   overrideApprovalPolicy: "SAME_OK" | "DIFFERENT_REQUIRED";
   overrideExpiryMinutes: number;
   overrideSuppressionMinutes: number;
+  /** Absent in configs before 3.1.0 — the expected-shortfall rule is inactive there */
+  expectedShortfallMultiplier?: number;
 }
 
 /** Immutable snapshot of a config version — anchors every verification run. */
@@ -100,6 +102,19 @@ export function computeThresholdsHash(
   return createHash("sha256").update(json, "utf8").digest("hex");
 }
 
+/**
+ * Compute SHA-256 hash of a per-strategy monitoring threshold profile.
+ *
+ * Same preimage rules as computeThresholdsHash: canonical JSON of the
+ * override values only (sorted keys). Profile metadata (strategyId,
+ * version, name) is excluded — two versions with identical overrides
+ * hash identically, like two config versions with identical thresholds.
+ */
+export function computeThresholdProfileHash(overrides: Partial<MonitoringThresholds>): string {
+  const json = canonicalJSON({ ...overrides } as Record<string, unknown>);
+  return createHash("sha256").update(json, "utf8").digest("hex");
+}
+
 /**
  * Build a complete snapshot from the current hardcoded constants.
  * Returns configVersion + all thresholds + computed hash.
@@ -128,6 +143,7 @@ export function buildConfigSnapshot(): VerificationThresholdsSnapshot {
     overrideApprovalPolicy: MONITORING.OVERRIDE_APPROVAL_POLICY,
     overrideExpiryMinutes: MONITORING.OVERRIDE_EXPIRY_MINUTES,
     overrideSuppressionMinutes: MONITORING.OVERRIDE_SUPPRESSION_MINUTES,
+    expectedShortfallMultiplier: MONITORING.EXPECTED_SHORTFALL_MULTIPLIER,
   };
 
   return {
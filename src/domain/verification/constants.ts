@@ -4,5 +4,5 @@ export const VERIFICATION = {
   READY_CONFIDENCE_THRESHOLD: 0.75,
   NOT_DEPLOYABLE_THRESHOLD: 0.45,
   RUIN_PROBABILITY_CEILING: 0.15,
-  CONFIG_VERSION: "3.0.0",
+  CONFIG_VERSION: "3.1.0",
 } as const;
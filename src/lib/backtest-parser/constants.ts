@@ -141,6 +141,9 @@ export const HEALTH_SCORE_VERSION = 4;
 /** Maximum upload file size in bytes (5MB) */
 export const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
+/** Maximum optimization report size in bytes (20MB — one row per pass, full sweeps get large) */
+export const OPTIMIZATION_MAX_FILE_SIZE = 20 * 1024 * 1024;
+
 /** Minimum number of tables expected in a Strategy Tester report (MT4 uses 1 large table) */
 export const MIN_TABLES_FOR_MT5 = 1;
 
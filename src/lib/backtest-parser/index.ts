@@ -3,6 +3,8 @@
  */
 
 export { parseMT5Report } from "./html-parser";
+export { parseMT5OptimizationReport, OptimizationReportParseError } from "./optimization-parser";
+export { analyzeParameterSensitivity, measureNeighborhood } from "./parameter-sensitivity";
 export { computeHealthScore } from "./health-scorer";
 export { detectLocale, parseLocalizedNumber } from "./locale-detector";
 export { lookupMetricKey } from "./metric-labels";
@@ -10,6 +12,7 @@ export { extractSymbolFromFileName } from "./symbol-detector";
 export {
   SCORE_WEIGHTS,
   MAX_FILE_SIZE,
+  OPTIMIZATION_MAX_FILE_SIZE,
   MIN_TABLES_FOR_MT5,
   MT5_IDENTIFIER,
   STRATEGY_TESTER_IDENTIFIERS,
@@ -22,4 +25,12 @@ export type {
   ParsedDeal,
   HealthScoreResult,
   HealthScoreBreakdown,
+  ParsedOptimizationReport,
+  OptimizationPass,
+  OptimizationMetric,
 } from "./types";
+export type {
+  ParameterSensitivity,
+  ParameterSensitivityReport,
+  SensitivityClassification,
+} from "./parameter-sensitivity";
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { parseMT5OptimizationReport, OptimizationReportParseError } from "./optimization-parser";
+
+function xmlCell(value: string | number): string {
+  const type = typeof value === "number" ? "Number" : "String";
+  return `<Cell><Data ss:Type="${type}">${value}</Data></Cell>`;
+}
+
+function xmlReport(rows: (string | number)[][]): string {
+  return `<?xml version="1.0"?>
+<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">
+<DocumentProperties xmlns="urn:schemas-microsoft-com:office:office">
+<Title>MA Cross &amp; Filter EURUSD.r,H1 2021.01.01-2023.12.31</Title>
+</DocumentProperties>
+<Worksheet ss:Name="Tester Optimizator Results">
+<Table>
+${rows.map((r) => `<Row>${r.map(xmlCell).join("")}</Row>`).join("\n")}
+</Table>
+</Worksheet>
+</Workbook>`;
+}
+
+const HEADER = [
+  "Pass",
+  "Result",
+  "Profit",
+  "Expected Payoff",
+  "Profit Factor",
+  "Recovery Factor",
+  "Sharpe Ratio",
+  "Custom",
+  "Equity DD %",
+  "Trades",
+  "InpMA0Period",
+  "InpMA0Method",
+];
+
+describe("parseMT5OptimizationReport", () => {
+  it("parses an MT5 XML (SpreadsheetML) export", () => {
+    const report = parseMT5OptimizationReport(
+      xmlReport([
+        HEADER,
+        [12, 1520.5, 1520.5, 12.3, 1.45, 2.1, 0.8, 0, 7.25, 124, 20, "MODE_EMA"],
+        [7, 880, 880, 8.1, 1.2, 1.3, 0.5, 0, 9.5, 109, 30, "MODE_SMA"],
+      ])
+    );
+
+    expect(report.format).toBe("xml");
+    expect(report.metadata).toEqual({
+      eaName: "MA Cross & Filter",
+      symbol: "EURUSD",
+      timeframe: "H1",
+      period: "2021.01.01-2023.12.31",
+    });
+    expect(report.inputNames).toEqual(["InpMA0Period", "InpMA0Method"]);
+    expect(report.passes).toHaveLength(2);
+    expect(report.passes[0]).toEqual({
+      pass: 12,
+      result: 1520.5,
+      profit: 1520.5,
+      expectedPayoff: 12.3,
+      profitFactor: 1.45,
+      recoveryFactor: 2.1,
+      sharpeRatio: 0.8,
+      custom: 0,
+      equityDrawdownPct: 7.25,
+      trades: 124,
+      inputs: { InpMA0Period: 20, InpMA0Method: "MODE_EMA" },
+    });
+    expect(report.parseWarnings).toEqual([]);
+  });
+
+  it("honours ss:Index gaps in XML rows", () => {
+    const xml = xmlReport([["Pass", "Profit", "InpA", "InpB"]]).replace(
+      "</Table>",
+      `<Row>${xmlCell(1)}${xmlCell(50)}<Cell ss:Index="4"><Data ss:Type="Number">3</Data></Cell></Row></Table>`
+    );
+    const report = parseMT5OptimizationReport(xml);
+    expect(report.passes[0].inputs).toEqual({ InpA: "", InpB: 3 });
+  });
+
+  it("parses an HTML export with localized numbers and falls back to Profit as result", () => {
+    const html = `<html><head><title>Trend EA GBPUSD,M15 2022.01.01-2022.12.31</title></head><body>
+      <table>
+        <tr><th>Pass</th><th>Profit</th><th>Trades</th><th>Equity DD %</th><th>InpStopLoss</th></tr>
+        <tr><td>1</td><td>1 234,50</td><td>80</td><td>5,25</td><td>25,5</td></tr>
+        <tr><td>2</td><td>-312,75</td><td>92</td><td>11,00</td><td>30,5</td></tr>
+      </table></body></html>`;
+    const report = parseMT5OptimizationReport(html);
+
+    expect(report.format).toBe("html");
+    expect(report.metadata.symbol).toBe("GBPUSD");
+    expect(report.metadata.timeframe).toBe("M15");
+    expect(report.passes[0].profit).toBe(1234.5);
+    expect(report.passes[0].result).toBe(1234.5);
+    expect(report.passes[1].inputs.InpStopLoss).toBe(30.5);
+    expect(report.passes[1].sharpeRatio).toBeNull();
+    expect(report.parseWarnings[0]).toMatch(/No "Result" column/);
+  });
+
+  it("skips rows without a pass number and ignores forward-test columns", () => {
+    const report = parseMT5OptimizationReport(
+      xmlReport([
+        ["Pass", "Forward Result", "Back Result", "Profit", "InpA"],
+        [1, 10, 20, 100, 5],
+        ["", 0, 0, 0, 0],
+        ["n/a", 0, 0, 50, 6],
+      ])
+    );
+    expect(report.inputNames).toEqual(["InpA"]);
+    expect(report.passes).toHaveLength(1);
+    expect(report.parseWarnings).toContain("2 row(s) skipped: missing pass number or profit.");
+  });
+
+  it("rejects files without a results table", () => {
+    expect(() => parseMT5OptimizationReport("<html><table><tr><td>x</td></tr></table>")).toThrow(
+      OptimizationReportParseError
+    );
+    expect(() => parseMT5OptimizationReport(xmlReport([["Pass", "Result", "InpA"]]))).toThrow(
+      /no passes/
+    );
+    expect(() =>
+      parseMT5OptimizationReport(
+        xmlReport([
+          ["Pass", "Result", "InpA"],
+          [1, 2, 3],
+        ])
+      )
+    ).toThrow(/Profit/);
+  });
+});
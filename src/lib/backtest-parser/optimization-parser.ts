@@ -0,0 +1,219 @@
+/**
+ * MT5 optimization results parser.
+ *
+ * Pure function — no side effects, no DB calls.
+ *
+ * The Strategy Tester "Optimization Results" tab can be exported as:
+ * 1. XML (Excel 2003 SpreadsheetML) — one <Row> per pass, <Title> holds "EA SYMBOL,TF FROM-TO"
+ * 2. HTML — one results table with a "Pass" header column
+ *
+ * Both share the same column layout: fixed result columns (Pass, Result, Profit, ...)
+ * followed by one column per optimized EA input, headed by the input variable name.
+ */
+
+import { parse as parseHTML } from "node-html-parser";
+import { detectLocale, parseLocalizedNumber, type NumberLocale } from "./locale-detector";
+import type { OptimizationPass, OptimizationPassMetrics, ParsedOptimizationReport } from "./types";
+
+export class OptimizationReportParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OptimizationReportParseError";
+  }
+}
+
+/** Result column headers (lowercase) → pass metric. Anything not listed here is an EA input. */
+const RESULT_COLUMNS: Record<string, keyof OptimizationPassMetrics | "pass"> = {
+  pass: "pass",
+  result: "result",
+  profit: "profit",
+  "expected payoff": "expectedPayoff",
+  "profit factor": "profitFactor",
+  "recovery factor": "recoveryFactor",
+  "sharpe ratio": "sharpeRatio",
+  custom: "custom",
+  "equity dd %": "equityDrawdownPct",
+  "drawdown %": "equityDrawdownPct",
+  trades: "trades",
+  "total trades": "trades",
+};
+
+/** Result columns MT5 emits for forward optimization or in MT4-style reports — not EA inputs. */
+const IGNORED_COLUMNS = new Set(["forward result", "back result", "drawdown $", "equity dd"]);
+
+const NUMERIC_PATTERN = /^-?[\d\s.,]+(?:[eE][-+]?\d+)?\s*%?$/;
+
+/**
+ * Parse an MT5 optimization results export (XML or HTML).
+ * Throws OptimizationReportParseError when no results table can be found.
+ */
+export function parseMT5OptimizationReport(content: string): ParsedOptimizationReport {
+  const cleaned = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  const isXml =
+    /<Workbook\b/i.test(cleaned) || /urn:schemas-microsoft-com:office:spreadsheet/i.test(cleaned);
+  const warnings: string[] = [];
+
+  const { rows, title } = isXml ? readSpreadsheetRows(cleaned) : readHtmlRows(cleaned);
+
+  const headerIndex = rows.findIndex((r) => r.some((c) => c.trim().toLowerCase() === "pass"));
+  if (headerIndex < 0) {
+    throw new OptimizationReportParseError(
+      'No optimization results table found (expected a "Pass" column).'
+    );
+  }
+
+  const header = rows[headerIndex].map((c) => c.trim());
+  const dataRows = rows.slice(headerIndex + 1).filter((r) => r.some((c) => c.trim() !== ""));
+  if (dataRows.length === 0) {
+    throw new OptimizationReportParseError("The optimization report contains no passes.");
+  }
+
+  const metricColumns = new Map<number, keyof OptimizationPassMetrics | "pass">();
+  const inputColumns: { index: number; name: string }[] = [];
+  header.forEach((label, index) => {
+    const key = label.toLowerCase();
+    if (RESULT_COLUMNS[key]) metricColumns.set(index, RESULT_COLUMNS[key]);
+    else if (label && !IGNORED_COLUMNS.has(key)) inputColumns.push({ index, name: label });
+  });
+
+  const mapped = new Set(metricColumns.values());
+  if (!mapped.has("profit")) {
+    throw new OptimizationReportParseError('Optimization report is missing the "Profit" column.');
+  }
+  if (!mapped.has("result")) {
+    warnings.push('No "Result" column found — using Profit as the optimization result.');
+  }
+  if (inputColumns.length === 0) {
+    warnings.push("No EA input columns found — parameter sensitivity cannot be computed.");
+  }
+
+  // XML cells are typed numbers with "." decimals; HTML follows the terminal locale
+  const locale: NumberLocale | null = isXml
+    ? "EN"
+    : detectLocale(dataRows.flatMap((r) => [...metricColumns.keys()].map((i) => r[i] ?? "")));
+
+  const passes: OptimizationPass[] = [];
+  let skipped = 0;
+  for (const row of dataRows) {
+    const pass = toPass(row, metricColumns, inputColumns, locale);
+    if (pass) passes.push(pass);
+    else skipped++;
+  }
+  if (skipped > 0) {
+    warnings.push(`${skipped} row(s) skipped: missing pass number or profit.`);
+  }
+  if (passes.length === 0) {
+    throw new OptimizationReportParseError("No valid passes found in the optimization report.");
+  }
+
+  const metadata = parseTitle(title);
+  if (metadata.symbol === "UNKNOWN") {
+    warnings.push("Could not detect symbol from report");
+  }
+
+  return {
+    format: isXml ? "xml" : "html",
+    metadata,
+    inputNames: inputColumns.map((c) => c.name),
+    passes,
+    parseWarnings: warnings,
+  };
+}
+
+function toPass(
+  row: string[],
+  metricColumns: Map<number, keyof OptimizationPassMetrics | "pass">,
+  inputColumns: { index: number; name: string }[],
+  locale: NumberLocale | null
+): OptimizationPass | null {
+  const values: Partial<Record<keyof OptimizationPassMetrics | "pass", number>> = {};
+  for (const [index, key] of metricColumns) {
+    const raw = (row[index] ?? "").trim();
+    if (NUMERIC_PATTERN.test(raw)) values[key] = parseLocalizedNumber(raw, locale);
+  }
+  if (values.pass === undefined || values.profit === undefined) return null;
+
+  const inputs: Record<string, number | string> = {};
+  for (const { index, name } of inputColumns) {
+    const raw = (row[index] ?? "").trim();
+    inputs[name] = NUMERIC_PATTERN.test(raw) ? parseLocalizedNumber(raw, locale) : raw;
+  }
+
+  return {
+    pass: values.pass,
+    result: values.result ?? values.profit,
+    profit: values.profit,
+    expectedPayoff: values.expectedPayoff ?? null,
+    profitFactor: values.profitFactor ?? null,
+    recoveryFactor: values.recoveryFactor ?? null,
+    sharpeRatio: values.sharpeRatio ?? null,
+    custom: values.custom ?? null,
+    equityDrawdownPct: values.equityDrawdownPct ?? null,
+    trades: values.trades ?? 0,
+    inputs,
+  };
+}
+
+// ============================================
+// ROW EXTRACTION
+// ============================================
+
+/** SpreadsheetML rows. Cells may skip columns with ss:Index (1-based). */
+function readSpreadsheetRows(xml: string): { rows: string[][]; title: string } {
+  const rows: string[][] = [];
+  for (const rowMatch of xml.matchAll(/<Row\b[^>]*>([\s\S]*?)<\/Row>/gi)) {
+    const cells: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<Cell\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Cell>)/gi)) {
+      const indexAttr = cellMatch[1].match(/ss:Index\s*=\s*"(\d+)"/i);
+      if (indexAttr) {
+        while (cells.length < Number(indexAttr[1]) - 1) cells.push("");
+      }
+      const data = (cellMatch[2] ?? "").match(/<Data\b[^>]*>([\s\S]*?)<\/Data>/i);
+      cells.push(data ? decodeEntities(data[1].replace(/<[^>]+>/g, "")) : "");
+    }
+    rows.push(cells);
+  }
+  const title = xml.match(/<Title>([\s\S]*?)<\/Title>/i);
+  return { rows, title: title ? decodeEntities(title[1]).trim() : "" };
+}
+
+/** HTML rows from the first table that has a "Pass" header cell. */
+function readHtmlRows(html: string): { rows: string[][]; title: string } {
+  const root = parseHTML(html, { lowerCaseTagName: true });
+  const title = root.querySelector("title")?.text.trim() ?? "";
+  for (const table of root.querySelectorAll("table")) {
+    const rows = table
+      .querySelectorAll("tr")
+      .map((tr) => tr.querySelectorAll("td, th").map((cell) => cell.text.trim()));
+    if (rows.some((r) => r.some((c) => c.toLowerCase() === "pass"))) {
+      return { rows, title };
+    }
+  }
+  return { rows: [], title };
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+/** "MA Cross EURUSD,H1 2021.01.01-2021.12.31" → EA name, symbol, timeframe, period. */
+function parseTitle(title: string): ParsedOptimizationReport["metadata"] {
+  const match = title.match(
+    /^(.*?)\s*([A-Za-z0-9._#]+),\s*([A-Z]{1,2}\d{0,2})\s+(\d{4}\.\d{2}\.\d{2}\s*-\s*\d{4}\.\d{2}\.\d{2})/
+  );
+  if (!match) {
+    return { eaName: title || null, symbol: "UNKNOWN", timeframe: "UNKNOWN", period: "UNKNOWN" };
+  }
+  return {
+    eaName: match[1].trim() || null,
+    symbol: match[2].replace(/[._].*$/, "").toUpperCase(),
+    timeframe: match[3].toUpperCase(),
+    period: match[4].replace(/\s+/g, ""),
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { analyzeParameterSensitivity, PLATEAU_RETENTION_THRESHOLD } from "./parameter-sensitivity";
+import type { OptimizationPass } from "./types";
+
+function makePass(pass: number, result: number, inputs: Record<string, number | string>) {
+  return {
+    pass,
+    result,
+    profit: result,
+    expectedPayoff: null,
+    profitFactor: null,
+    recoveryFactor: null,
+    sharpeRatio: null,
+    custom: null,
+    equityDrawdownPct: null,
+    trades: 100,
+    inputs,
+  } satisfies OptimizationPass;
+}
+
+/** Full 2-D grid over period × stop loss with the result computed by `fn`. */
+function grid(fn: (period: number, sl: number) => number): OptimizationPass[] {
+  const passes: OptimizationPass[] = [];
+  for (const period of [10, 20, 30, 40, 50]) {
+    for (const sl of [20, 30, 40]) {
+      passes.push(makePass(passes.length, fn(period, sl), { InpPeriod: period, InpSL: sl }));
+    }
+  }
+  return passes;
+}
+
+const PROJECT_INPUTS = [
+  { name: "InpPeriod", comment: "MA Period", isOptimizable: true },
+  { name: "InpSL", comment: "Stop Loss (pips)", isOptimizable: true },
+  { name: "InpTP", comment: "Take Profit (pips)", isOptimizable: true },
+  { name: "InpMagicNumber", comment: "Magic Number", isOptimizable: false },
+];
+
+describe("analyzeParameterSensitivity", () => {
+  it("classifies a broad optimum as a plateau and ties inputs back to the project", () => {
+    const passes = grid((period, sl) => 1000 - Math.abs(period - 30) * 5 - Math.abs(sl - 30) * 2);
+    const report = analyzeParameterSensitivity(
+      { inputNames: ["InpPeriod", "InpSL"], passes },
+      PROJECT_INPUTS
+    );
+
+    expect(report.bestPass.inputs).toEqual({ InpPeriod: 30, InpSL: 30 });
+    expect(report.neighborhood.size).toBe(8);
+    expect(report.neighborhood.classification).toBe("PLATEAU");
+    expect(report.neighborhood.medianRetention).toBeGreaterThan(PLATEAU_RETENTION_THRESHOLD);
+
+    const period = report.parameters.find((p) => p.name === "InpPeriod")!;
+    expect(period.matched).toBe(true);
+    expect(period.label).toBe("MA Period");
+    expect(period.classification).toBe("PLATEAU");
+    expect(period.values.map((v) => v.value)).toEqual([10, 20, 30, 40, 50]);
+    expect(period.values[2]).toMatchObject({ passes: 3, bestResult: 1000 });
+
+    expect(report.unmatchedProjectInputs).toEqual(["InpTP"]);
+    expect(report.warnings).toEqual([]);
+  });
+
+  it("flags an isolated peak that collapses one step away", () => {
+    const passes = grid((period, sl) => (period === 30 && sl === 30 ? 5000 : 200));
+    const report = analyzeParameterSensitivity(
+      { inputNames: ["InpPeriod", "InpSL"], passes },
+      PROJECT_INPUTS
+    );
+
+    expect(report.neighborhood.classification).toBe("ISOLATED_PEAK");
+    expect(report.neighborhood.medianRetention).toBeCloseTo(0.04);
+    expect(report.parameters.every((p) => p.classification === "PEAK")).toBe(true);
+  });
+
+  it("handles categorical inputs and sparse genetic runs", () => {
+    const passes = [
+      makePass(1, 900, { InpMethod: "MODE_EMA", InpPeriod: 20 }),
+      makePass(2, 400, { InpMethod: "MODE_SMA", InpPeriod: 50 }),
+    ];
+    const report = analyzeParameterSensitivity({ inputNames: ["InpMethod", "InpPeriod"], passes });
+
+    expect(report.parameters[0].classification).toBe("CATEGORICAL");
+    expect(report.parameters[1].classification).toBe("INSUFFICIENT_DATA");
+    expect(report.neighborhood.classification).toBe("INSUFFICIENT_DATA");
+    expect(report.parameters[0].matched).toBe(false);
+  });
+
+  it("warns when no report column matches the project inputs", () => {
+    const passes = grid(() => 100);
+    const report = analyzeParameterSensitivity({ inputNames: ["InpPeriod", "InpSL"], passes }, [
+      { name: "InpOther", comment: "Other", isOptimizable: true },
+    ]);
+    expect(report.warnings[0]).toMatch(/different EA/);
+  });
+
+  it("warns when the best pass is not profitable", () => {
+    const passes = grid(() => -50);
+    const report = analyzeParameterSensitivity({ inputNames: ["InpPeriod", "InpSL"], passes });
+    expect(report.neighborhood.medianRetention).toBeNull();
+    expect(report.warnings[0]).toMatch(/non-positive result/);
+  });
+
+  it("analyses an alternative metric", () => {
+    const passes = grid(() => 100).map((p, i) => ({ ...p, profitFactor: i === 7 ? 3 : 1 }));
+    const report = analyzeParameterSensitivity(
+      { inputNames: ["InpPeriod", "InpSL"], passes },
+      [],
+      "profitFactor"
+    );
+    expect(report.metric).toBe("profitFactor");
+    expect(report.bestPass.pass).toBe(7);
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Parameter sensitivity analysis for MT5 optimization results.
+ *
+ * Pure function — no side effects, no DB calls.
+ *
+ * A robust parameter set sits on a plateau: passes one grid step away from the best
+ * pass keep most of its result. An isolated peak collapses as soon as any input moves,
+ * which is the classic signature of curve fitting.
+ */
+
+import type { OptimizableInput } from "@/lib/mql5-generator/types";
+import type { OptimizationMetric, OptimizationPass, ParsedOptimizationReport } from "./types";
+
+/** Neighbours must keep at least this share of the best result to count as a plateau. */
+export const PLATEAU_RETENTION_THRESHOLD = 0.8;
+
+/** Minimum neighbouring passes needed before the neighbourhood is classified. */
+export const MIN_NEIGHBORHOOD_PASSES = 3;
+
+export type SensitivityClassification = "PLATEAU" | "PEAK" | "CATEGORICAL" | "INSUFFICIENT_DATA";
+
+export interface ParameterValueStats {
+  value: number | string;
+  passes: number;
+  meanResult: number;
+  bestResult: number;
+}
+
+export interface ParameterSensitivity {
+  /** Input name as it appears in the report header. */
+  name: string;
+  /** Generator comment for the matching OptimizableInput, null when the column is unknown. */
+  label: string | null;
+  matched: boolean;
+  numeric: boolean;
+  values: ParameterValueStats[];
+  bestValue: number | string;
+  /** Mean result of passes one step away on this input (others near best) ÷ best result. */
+  neighborRetention: number | null;
+  classification: SensitivityClassification;
+}
+
+export interface ParameterSensitivityReport {
+  metric: OptimizationMetric;
+  passCount: number;
+  bestPass: OptimizationPass;
+  parameters: ParameterSensitivity[];
+  neighborhood: {
+    size: number;
+    medianRetention: number | null;
+    classification: "PLATEAU" | "ISOLATED_PEAK" | "INSUFFICIENT_DATA";
+  };
+  /** Optimizable generator inputs that were not swept in this report. */
+  unmatchedProjectInputs: string[];
+  warnings: string[];
+}
+
+/**
+ * Analyse how sensitive the optimization result is to each swept input.
+ * `projectInputs` ties report columns back to the inputs the generator emitted for the project.
+ */
+export function analyzeParameterSensitivity(
+  report: Pick<ParsedOptimizationReport, "inputNames" | "passes">,
+  projectInputs: Pick<OptimizableInput, "name" | "comment" | "isOptimizable">[] = [],
+  metric: OptimizationMetric = "result"
+): ParameterSensitivityReport {
+  const warnings: string[] = [];
+  const passes = report.passes.filter((p) => p[metric] !== null);
+  if (passes.length === 0) {
+    throw new Error(`No passes report the "${metric}" metric`);
+  }
+
+  const score = (p: OptimizationPass): number => p[metric] as number;
+  const bestPass = passes.reduce((best, p) => (score(p) > score(best) ? p : best));
+  const bestScore = score(bestPass);
+  if (bestScore <= 0) {
+    warnings.push(
+      `Best pass has a non-positive ${metric} (${bestScore}) — retention ratios are not meaningful.`
+    );
+  }
+
+  const grids = buildGrids(report.inputNames, passes);
+  const stepDistance = stepDistanceFn(grids);
+
+  const inputsByName = new Map(projectInputs.map((i) => [i.name, i]));
+  const parameters: ParameterSensitivity[] = report.inputNames.map((name) => {
+    const grid = grids.get(name)!;
+    const numeric = grid.every((v) => typeof v === "number");
+    const bestValue = bestPass.inputs[name];
+
+    const values = grid.map((value) => {
+      const scores = passes.filter((p) => p.inputs[name] === value).map(score);
+      return {
+        value,
+        passes: scores.length,
+        meanResult: scores.reduce((s, v) => s + v, 0) / scores.length,
+        bestResult: Math.max(...scores),
+      };
+    });
+
+    // One step away on this input, every other input within one step of the best pass
+    const axisNeighbors = passes.filter(
+      (p) =>
+        stepDistance(name, p.inputs[name], bestValue) === 1 &&
+        report.inputNames.every(
+          (other) =>
+            other === name || stepDistance(other, p.inputs[other], bestPass.inputs[other]) <= 1
+        )
+    );
+    const neighborRetention =
+      numeric && axisNeighbors.length > 0 && bestScore > 0
+        ? mean(axisNeighbors.map(score)) / bestScore
+        : null;
+
+    let classification: SensitivityClassification;
+    if (!numeric) classification = "CATEGORICAL";
+    else if (neighborRetention === null) classification = "INSUFFICIENT_DATA";
+    else classification = neighborRetention >= PLATEAU_RETENTION_THRESHOLD ? "PLATEAU" : "PEAK";
+
+    const projectInput = inputsByName.get(name);
+    return {
+      name,
+      label: projectInput?.comment ?? null,
+      matched: projectInput !== undefined,
+      numeric,
+      values,
+      bestValue,
+      neighborRetention,
+      classification,
+    };
+  });
+
+  const { size, medianRetention } = measureNeighborhood(report, bestPass, metric);
+  let neighborhoodClass: ParameterSensitivityReport["neighborhood"]["classification"] =
+    "INSUFFICIENT_DATA";
+  if (medianRetention !== null && size >= MIN_NEIGHBORHOOD_PASSES) {
+    neighborhoodClass =
+      medianRetention >= PLATEAU_RETENTION_THRESHOLD ? "PLATEAU" : "ISOLATED_PEAK";
+  }
+
+  const unmatchedColumns = parameters.filter((p) => !p.matched).map((p) => p.name);
+  if (projectInputs.length > 0 && unmatchedColumns.length === report.inputNames.length) {
+    warnings.push(
+      "None of the report inputs match this project's generated inputs — was the report produced by a different EA?"
+    );
+  } else if (projectInputs.length > 0 && unmatchedColumns.length > 0) {
+    warnings.push(`Report inputs not found in the project: ${unmatchedColumns.join(", ")}`);
+  }
+
+  const swept = new Set(report.inputNames);
+  const unmatchedProjectInputs = projectInputs
+    .filter((i) => i.isOptimizable && !swept.has(i.name))
+    .map((i) => i.name);
+
+  return {
+    metric,
+    passCount: passes.length,
+    bestPass,
+    parameters,
+    neighborhood: {
+      size,
+      medianRetention,
+      classification: neighborhoodClass,
+    },
+    unmatchedProjectInputs,
+    warnings,
+  };
+}
+
+/**
+ * Neighbourhood of `anchor`: passes within one grid step of it on every input.
+ * `medianRetention` is the median of neighbour score ÷ anchor score, null when the
+ * anchor is not profitable or has no neighbours.
+ */
+export function measureNeighborhood(
+  report: Pick<ParsedOptimizationReport, "inputNames" | "passes">,
+  anchor: OptimizationPass,
+  metric: OptimizationMetric = "result"
+): { size: number; medianRetention: number | null } {
+  const passes = report.passes.filter((p) => p[metric] !== null);
+  const stepDistance = stepDistanceFn(buildGrids(report.inputNames, passes));
+  const anchorScore = anchor[metric];
+
+  const neighbors = passes.filter(
+    (p) =>
+      p.pass !== anchor.pass &&
+      report.inputNames.every(
+        (name) => stepDistance(name, p.inputs[name], anchor.inputs[name]) <= 1
+      )
+  );
+  const medianRetention =
+    anchorScore !== null && anchorScore > 0 && neighbors.length > 0
+      ? median(neighbors.map((p) => (p[metric] as number) / anchorScore))
+      : null;
+  return { size: neighbors.length, medianRetention };
+}
+
+/** Sorted distinct values per input define the grid steps. */
+function buildGrids(
+  inputNames: string[],
+  passes: OptimizationPass[]
+): Map<string, (number | string)[]> {
+  const grids = new Map<string, (number | string)[]>();
+  for (const name of inputNames) {
+    const distinct = [...new Set(passes.map((p) => p.inputs[name]))];
+    const numeric = distinct.every((v) => typeof v === "number");
+    grids.set(
+      name,
+      numeric ? (distinct as number[]).sort((a, b) => a - b) : distinct.map(String).sort()
+    );
+  }
+  return grids;
+}
+
+function stepDistanceFn(grids: Map<string, (number | string)[]>) {
+  return (name: string, a: number | string, b: number | string): number => {
+    const grid = grids.get(name)!;
+    if (typeof a !== "number" || typeof b !== "number") return a === b ? 0 : Infinity;
+    return Math.abs(grid.indexOf(a) - grid.indexOf(b));
+  };
+}
+
+function mean(values: number[]): number {
+  return values.reduce((s, v) => s + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
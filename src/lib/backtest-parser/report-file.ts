@@ -0,0 +1,52 @@
+/**
+ * Helpers for uploaded Strategy Tester files (backtest and optimization reports).
+ *
+ * Pure functions — no side effects, no DB calls.
+ */
+
+/** Strip script tags, event handlers, and other XSS vectors from HTML before storage */
+export function sanitizeHtmlForStorage(html: string): string {
+  return html
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, "")
+    .replace(/<iframe\b[^>]*>.*?<\/iframe>/gi, "")
+    .replace(/<object\b[^>]*>.*?<\/object>/gi, "")
+    .replace(/<embed\b[^>]*\/?>/gi, "")
+    .replace(/<form\b[^>]*>.*?<\/form>/gi, "")
+    .replace(/<base\b[^>]*\/?>/gi, "")
+    .replace(/<link\b[^>]*\/?>/gi, "")
+    .replace(/<meta\b[^>]*\/?>/gi, "")
+    .replace(/\bon\w+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi, "")
+    .replace(/javascript\s*:/gi, "removed:")
+    .replace(/data\s*:\s*text\/html/gi, "removed:");
+}
+
+/** Sanitize a client-provided filename */
+export function sanitizeFileName(name: string): string {
+  return name.replace(/[^\w.\-\s()]/g, "_").slice(0, 255);
+}
+
+/**
+ * Decode raw file bytes into a string with BOM-aware encoding detection.
+ * MT5 exports are sometimes saved as UTF-16LE (BOM: FF FE). The default
+ * File.text() assumes UTF-8, producing interleaved null bytes that break
+ * all downstream string matching. This function detects encoding from the
+ * BOM and decodes correctly, stripping the BOM from the result.
+ */
+export function decodeReportBytes(buf: ArrayBuffer): string {
+  const bytes = new Uint8Array(buf);
+
+  let encoding: string = "utf-8";
+  if (bytes.length >= 2) {
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+      encoding = "utf-16le";
+    } else if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+      encoding = "utf-16be";
+    }
+    // UTF-8 BOM (EF BB BF) is handled natively by TextDecoder('utf-8')
+  }
+
+  const decoded = new TextDecoder(encoding).decode(bytes);
+
+  // Strip BOM character if present after decoding (U+FEFF)
+  return decoded.charCodeAt(0) === 0xfeff ? decoded.slice(1) : decoded;
+}
@@ -74,3 +74,42 @@ export interface HealthScoreResult {
   /** Confidence interval (±margin) based on sample size. Wider with fewer trades. */
   confidenceInterval: { lower: number; upper: number };
 }
+
+// ============================================
+// Optimization reports (parameter sweeps)
+// ============================================
+
+/** Result metrics MT5 reports for every optimization pass. */
+export interface OptimizationPassMetrics {
+  result: number;
+  profit: number;
+  expectedPayoff: number | null;
+  profitFactor: number | null;
+  recoveryFactor: number | null;
+  sharpeRatio: number | null;
+  custom: number | null;
+  equityDrawdownPct: number | null;
+  trades: number;
+}
+
+export type OptimizationMetric = keyof OptimizationPassMetrics;
+
+export interface OptimizationPass extends OptimizationPassMetrics {
+  pass: number;
+  /** Input values keyed by the EA input name as it appears in the report header. */
+  inputs: Record<string, number | string>;
+}
+
+export interface ParsedOptimizationReport {
+  format: "xml" | "html";
+  metadata: {
+    eaName: string | null;
+    symbol: string;
+    timeframe: string;
+    period: string;
+  };
+  /** EA input columns, in report order. */
+  inputNames: string[];
+  passes: OptimizationPass[];
+  parseWarnings: string[];
+}
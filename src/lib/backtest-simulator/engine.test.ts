@@ -0,0 +1,406 @@
+import { describe, it, expect } from "vitest";
+import { runSimulation } from "./engine";
+import { SimulationError, type OhlcBar } from "./types";
+import { computeHealthScore } from "@/lib/backtest-parser/health-scorer";
+import { runWalkForward } from "@/lib/backtest-parser/walk-forward";
+import type { BuildJsonSchema, BuilderNode, BuildJsonSettings } from "@/types/builder";
+
+// ============================================
+// HELPERS
+// ============================================
+
+const DEFAULT_SETTINGS: BuildJsonSettings = {
+  magicNumber: 123456,
+  comment: "Test EA",
+  maxOpenTrades: 1,
+  allowHedging: false,
+  maxTradesPerDay: 0,
+};
+
+const START = Date.UTC(2024, 0, 1); // Monday
+const HOUR_MS = 60 * 60 * 1000;
+
+function makeBuild(
+  nodes: BuilderNode[],
+  settings: Partial<BuildJsonSettings> = {}
+): BuildJsonSchema {
+  return {
+    version: "1.3",
+    nodes,
+    edges: [],
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: { createdAt: "2024-01-01T00:00:00Z", updatedAt: "2024-01-01T00:00:00Z" },
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+  };
+}
+
+function makeNode(id: string, type: string, data: Record<string, unknown>): BuilderNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label: type, ...data },
+  } as BuilderNode;
+}
+
+function placeNode(side: "buy" | "sell", extra: Record<string, unknown> = {}): BuilderNode {
+  const type = side === "buy" ? "place-buy" : "place-sell";
+  return makeNode(side, type, {
+    category: "trading",
+    tradingType: type,
+    method: "FIXED_LOT",
+    fixedLot: 0.1,
+    riskPercent: 1,
+    minLot: 0.01,
+    maxLot: 10,
+    slMethod: "FIXED_PIPS",
+    slFixedPips: 20,
+    tpMethod: "FIXED_PIPS",
+    tpFixedPips: 15,
+    ...extra,
+  });
+}
+
+/** H1 bars from a close series; each bar opens at the previous close with a 2-pip wick. */
+function makeBars(closes: number[], spread = 0): OhlcBar[] {
+  return closes.map((close, i) => {
+    const open = i === 0 ? close : closes[i - 1];
+    return {
+      time: START + i * HOUR_MS,
+      open,
+      high: Math.max(open, close) + 0.0002,
+      low: Math.min(open, close) - 0.0002,
+      close,
+      tickVolume: 100,
+      spread,
+    };
+  });
+}
+
+function linear(n: number, start: number, step: number): number[] {
+  return Array.from({ length: n }, (_, i) => Number((start + i * step).toFixed(5)));
+}
+
+function sine(n: number): number[] {
+  return Array.from({ length: n }, (_, i) =>
+    Number((1.1 + 0.01 * Math.sin((2 * Math.PI * i) / 40)).toFixed(5))
+  );
+}
+
+const OPTIONS = { initialDeposit: 10000, symbol: "EURUSD", digits: 5 };
+
+// ============================================
+// TESTS
+// ============================================
+
+describe("runSimulation", () => {
+  it("takes profit on a steady uptrend and starts with a balance deal", () => {
+    const result = runSimulation(
+      makeBuild([placeNode("buy")]),
+      makeBars(linear(60, 1.1, 0.001)),
+      OPTIONS
+    );
+
+    expect(result.deals[0].type).toBe("balance");
+    expect(result.deals[0].profit).toBe(10000);
+    const trades = result.deals.slice(1, -1);
+    expect(trades.length).toBeGreaterThan(10);
+    for (const d of trades) {
+      expect(d.type).toBe("buy");
+      expect(d.comment).toBe("take-profit");
+      expect(d.profit).toBeCloseTo(15, 2);
+    }
+    expect(result.metrics.totalTrades).toBe(result.deals.length - 1);
+    expect(result.metadata.timeframe).toBe("H1");
+    expect(result.metadata.symbol).toBe("EURUSD");
+  });
+
+  it("assumes the stop loss fills first when SL and TP fall inside one bar", () => {
+    const bars = makeBars(new Array(60).fill(1.1));
+    bars[10] = { ...bars[10], high: 1.105, low: 1.095 };
+
+    const result = runSimulation(makeBuild([placeNode("buy")]), bars, OPTIONS);
+
+    const stopped = result.deals.find((d) => d.comment === "stop-loss");
+    expect(stopped?.openTime).toBe(new Date(bars[10].time).toISOString().slice(0, 19));
+    expect(stopped?.profit).toBeCloseTo(-20, 2);
+    expect(result.deals.some((d) => d.comment === "take-profit")).toBe(false);
+  });
+
+  it("closes positions still open at the end of data with a warning", () => {
+    const result = runSimulation(
+      makeBuild([placeNode("buy")]),
+      makeBars(new Array(60).fill(1.1)),
+      OPTIONS
+    );
+
+    expect(result.deals[result.deals.length - 1].comment).toBe("end-of-data");
+    expect(result.warnings.some((w) => w.includes("closed at the last bar"))).toBe(true);
+  });
+
+  it("buys at the ask so spread is paid on entry", () => {
+    const flat = runSimulation(
+      makeBuild([placeNode("buy")]),
+      makeBars(new Array(60).fill(1.1)),
+      OPTIONS
+    );
+    const spread = runSimulation(
+      makeBuild([placeNode("buy")]),
+      makeBars(new Array(60).fill(1.1), 10),
+      OPTIONS
+    );
+
+    expect(flat.deals[1].profit).toBeCloseTo(0, 2);
+    expect(spread.deals[1].profit).toBeCloseTo(-1, 2);
+  });
+
+  it("stops trading once the total drawdown limit is reached", () => {
+    const build = makeBuild([placeNode("buy", { fixedLot: 1 })], { maxTotalDrawdownPercent: 50 });
+    const result = runSimulation(build, makeBars(linear(60, 1.2, -0.001)), {
+      ...OPTIONS,
+      initialDeposit: 1000,
+    });
+
+    const trades = result.deals.filter((d) => d.type !== "balance");
+    expect(trades).toHaveLength(3);
+    expect(trades.every((d) => d.comment === "stop-loss")).toBe(true);
+  });
+
+  it("trades both sides of an MA strategy and feeds the health score and walk-forward", () => {
+    const ma = makeNode("ma1", "moving-average", {
+      category: "indicator",
+      indicatorType: "moving-average",
+      timeframe: "H1",
+      period: 10,
+      method: "SMA",
+      appliedPrice: "CLOSE",
+      shift: 0,
+    });
+    const build = makeBuild([
+      ma,
+      placeNode("buy", { tpFixedPips: 60, slFixedPips: 40 }),
+      placeNode("sell", { tpFixedPips: 60, slFixedPips: 40 }),
+    ]);
+    const result = runSimulation(build, makeBars(sine(400)), OPTIONS);
+
+    expect(result.deals.some((d) => d.type === "buy")).toBe(true);
+    expect(result.deals.some((d) => d.type === "sell")).toBe(true);
+
+    const score = computeHealthScore(result.metrics, OPTIONS.initialDeposit);
+    expect(score.score).toBeGreaterThanOrEqual(0);
+    expect(() => runWalkForward(result.deals, OPTIONS.initialDeposit)).not.toThrow();
+  });
+
+  it("evaluates logic gates like the generated EA", () => {
+    const ma = makeNode("ma1", "moving-average", {
+      category: "indicator",
+      indicatorType: "moving-average",
+      timeframe: "H1",
+      period: 10,
+      method: "SMA",
+      appliedPrice: "CLOSE",
+      shift: 0,
+    });
+    const not = makeNode("not1", "not-gate", { category: "logic", logicType: "NOT" });
+    const bars = makeBars(linear(60, 1.1, 0.001));
+
+    const plain = runSimulation(makeBuild([ma, placeNode("buy")]), bars, OPTIONS);
+    const inverted = runSimulation(
+      {
+        ...makeBuild([ma, not, placeNode("buy")]),
+        edges: [
+          { id: "e1", source: "ma1", target: "not1" },
+          { id: "e2", source: "not1", target: "buy" },
+        ],
+      },
+      bars,
+      OPTIONS
+    );
+
+    // Price stays above its MA on a steady uptrend — NOT(price above MA) never buys
+    expect(plain.deals.some((d) => d.type === "buy")).toBe(true);
+    expect(inverted.deals.some((d) => d.type === "buy")).toBe(false);
+  });
+
+  it("gates an entry strategy wired into a logic gate as a whole", () => {
+    const entry = makeNode("entry1", "ema-crossover-entry", {
+      category: "entrystrategy",
+      entryType: "ema-crossover",
+      direction: "BUY",
+      fastEma: 5,
+      slowEma: 20,
+      appliedPrice: "CLOSE",
+      timeframe: "H1",
+      riskPercent: 1,
+      slMethod: "FIXED_PIPS",
+      slFixedPips: 30,
+      tpRMultiple: 2,
+    });
+    const not = makeNode("not1", "not-gate", { category: "logic", logicType: "NOT" });
+    const bars = makeBars(linear(80, 1.1, 0.001));
+
+    const plain = runSimulation(makeBuild([entry]), bars, OPTIONS);
+    const inverted = runSimulation(
+      {
+        ...makeBuild([entry, not, placeNode("buy")]),
+        edges: [
+          { id: "e1", source: "entry1", target: "not1" },
+          { id: "e2", source: "not1", target: "buy" },
+        ],
+      },
+      bars,
+      OPTIONS
+    );
+
+    // The fast EMA never crosses the slow one on a steady uptrend — its negation always holds
+    expect(plain.deals.some((d) => d.type === "buy")).toBe(false);
+    expect(inverted.deals.some((d) => d.type === "buy")).toBe(true);
+  });
+
+  it("compares condition operands on their own timeframes", () => {
+    const ma = makeNode("ma1", "moving-average", {
+      category: "indicator",
+      indicatorType: "moving-average",
+      timeframe: "H4",
+      period: 3,
+      method: "SMA",
+      appliedPrice: "CLOSE",
+      shift: 0,
+    });
+    const condition = (conditionType: string) =>
+      makeNode("cond1", "condition", {
+        category: "indicator",
+        indicatorType: "condition",
+        conditionType,
+        threshold: 0,
+        compareTo: "OPERAND",
+        operandA: { source: "INDICATOR", buffer: "Main", shift: 1 },
+        operandB: { source: "PRICE", priceField: "CLOSE", shift: 1 },
+      });
+    const run = (conditionType: string) =>
+      runSimulation(
+        {
+          ...makeBuild([ma, condition(conditionType), placeNode("buy")]),
+          edges: [
+            { id: "e1", source: "ma1", target: "cond1", targetHandle: "operand-a" },
+            { id: "e2", source: "cond1", sourceHandle: "true", target: "buy" },
+          ],
+        },
+        makeBars(linear(120, 1.1, 0.001)),
+        OPTIONS
+      );
+
+    // On a steady uptrend the last closed H4 average trails the last H1 close
+    expect(run("LESS_THAN").deals.some((d) => d.type === "buy")).toBe(true);
+    expect(run("GREATER_THAN").deals.some((d) => d.type === "buy")).toBe(false);
+  });
+
+  it("gates directions on the closed higher-timeframe bias", () => {
+    const bias = makeNode("htf", "htf-bias", {
+      category: "timing",
+      filterType: "htf-bias",
+      timeframe: "D1",
+      biasMethod: "PRICE_VS_MA",
+      period: 3,
+      maMethod: "EMA",
+      filterBuys: true,
+      filterSells: true,
+    });
+    const bars = makeBars(linear(240, 1.1, 0.0005));
+    const result = runSimulation(
+      makeBuild([bias, placeNode("buy"), placeNode("sell")]),
+      bars,
+      OPTIONS
+    );
+
+    const trades = result.deals.slice(1);
+    expect(trades.length).toBeGreaterThan(0);
+    expect(trades.every((d) => d.type === "buy")).toBe(true);
+    // No bias until a D1 bar has closed above a warmed-up EMA
+    expect(new Date(`${trades[0].openTime}Z`).getTime()).toBeGreaterThanOrEqual(bars[48].time);
+  });
+
+  it("scales lots by the timing window and skips entries in zero-risk rules", () => {
+    const window = (extra: Record<string, unknown>) =>
+      makeNode("t1", "custom-times", {
+        category: "timing",
+        timingType: "custom-times",
+        days: {
+          monday: true,
+          tuesday: true,
+          wednesday: true,
+          thursday: true,
+          friday: true,
+          saturday: true,
+          sunday: true,
+        },
+        timeSlots: [],
+        ...extra,
+      });
+    const bars = makeBars(sine(240));
+    const trades = (extra: Record<string, unknown>) =>
+      runSimulation(
+        {
+          ...makeBuild([window(extra), placeNode("buy")]),
+          edges: [{ id: "e1", source: "t1", target: "buy" }],
+        },
+        bars,
+        OPTIONS
+      ).deals.slice(1);
+
+    const full = trades({});
+    const halved = trades({ riskMultiplier: 0.5 });
+    expect(full.every((d) => d.volume === 0.1)).toBe(true);
+    expect(halved.every((d) => d.volume === 0.05)).toBe(true);
+
+    // 22:00-02:00 wraps past midnight: four of every 24 hourly bars open nothing
+    const overnight = trades({
+      riskRules: [
+        { day: "everyday", startHour: 22, startMinute: 0, endHour: 2, endMinute: 0, multiplier: 0 },
+      ],
+    });
+    const toMidnight = trades({
+      riskRules: [
+        { day: "everyday", startHour: 22, startMinute: 0, endHour: 0, endMinute: 0, multiplier: 0 },
+      ],
+    });
+    expect(overnight.length).toBeGreaterThan(0);
+    expect(toMidnight.length).toBeLessThan(full.length);
+    expect(overnight.length).toBeLessThan(toMidnight.length);
+  });
+
+  it("rejects nodes the simulator cannot evaluate", () => {
+    const build = makeBuild([
+      makeNode("ich", "ichimoku", {
+        category: "indicator",
+        indicatorType: "ichimoku",
+        timeframe: "H1",
+        tenkanPeriod: 9,
+        kijunPeriod: 26,
+        senkouBPeriod: 52,
+      }),
+      placeNode("buy"),
+    ]);
+
+    expect(() => runSimulation(build, makeBars(new Array(60).fill(1.1)), OPTIONS)).toThrow(
+      SimulationError
+    );
+  });
+
+  it("rejects the equity curve filter instead of trading through it", () => {
+    const bars = makeBars(new Array(60).fill(1.1));
+    const build = makeBuild([placeNode("buy")], { equityCurveMaPeriod: 20 });
+    expect(() => runSimulation(build, bars, OPTIONS)).toThrow(/equity curve filter/);
+    expect(() => runSimulation(makeBuild([placeNode("buy")]), bars, OPTIONS)).not.toThrow();
+  });
+
+  it("requires a minimum number of bars and a positive deposit", () => {
+    const build = makeBuild([placeNode("buy")]);
+    expect(() => runSimulation(build, makeBars(new Array(10).fill(1.1)), OPTIONS)).toThrow(
+      /At least/
+    );
+    expect(() =>
+      runSimulation(build, makeBars(new Array(60).fill(1.1)), { ...OPTIONS, initialDeposit: 0 })
+    ).toThrow(SimulationError);
+  });
+});
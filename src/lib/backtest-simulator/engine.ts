@@ -0,0 +1,469 @@
+/**
+ * Bar-by-bar simulator — runs a BuildJsonSchema directly against OHLC bars.
+ *
+ * Execution model (one pass per bar, oldest first):
+ *   1. At the bar open: account limits from BuildJsonSettings (total drawdown, equity
+ *      target, daily P&L, cooldown, min bars between trades), timing, filters, exit
+ *      signals, time exits, then new entries at the open price (ask for buys).
+ *   2. Inside the bar: stop loss / take profit against the bar high/low. When both
+ *      levels fall inside one bar the stop loss is assumed to fill first (pessimistic).
+ *   3. At the bar close: trade management (breakeven, trailing, lock profit,
+ *      partial close, multi-level TP) using the close as the current price.
+ *
+ * Output is a ParsedDeal[] (one exit deal per full or partial close, preceded by the
+ * deposit as a balance deal) plus ParsedMetrics, so it can flow into computeHealthScore,
+ * runWalkForward and the verification pipeline like an uploaded MT5 report.
+ */
+
+import type {
+  BreakevenStopNodeData,
+  BuildJsonSchema,
+  LockProfitNodeData,
+  MultiLevelTPNodeData,
+  PartialCloseNodeData,
+  TrailingStopNodeData,
+} from "@/types/builder";
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
+import { computeSimulationMetrics } from "./metrics";
+import {
+  compileStrategy,
+  inferChartMinutes,
+  timeframeLabel,
+  type CompiledStrategy,
+  type Side,
+  type SizingRule,
+} from "./strategy";
+import {
+  SimulationError,
+  type ExitReason,
+  type OhlcBar,
+  type SimulationOptions,
+  type SimulationResult,
+} from "./types";
+
+/** Default units per lot (standard FX contract). */
+export const DEFAULT_CONTRACT_SIZE = 100_000;
+
+/** Default volume step for risk-based sizing and partial closes. */
+export const DEFAULT_LOT_STEP = 0.01;
+
+/** Minimum number of bars required to run a simulation. */
+export const MIN_SIMULATION_BARS = 50;
+
+/** Risk-percent clamp used by the generated CalculateLotSize(). */
+const MIN_RISK_PERCENT = 0.1;
+const MAX_RISK_PERCENT = 100;
+
+const DAY_MS = 86_400_000;
+
+interface Position {
+  ticket: number;
+  side: Side;
+  entryPrice: number;
+  volume: number;
+  sl: number;
+  tp: number;
+  openTime: number;
+  partialClosed: boolean;
+  mltpLevel: number;
+}
+
+function roundVolume(volume: number, step: number): number {
+  const steps = Math.floor(volume / step + 1e-9);
+  return Number((steps * step).toFixed(8));
+}
+
+function toDealTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 19);
+}
+
+/**
+ * Simulate a strategy build against OHLC bars.
+ * Throws SimulationError when the build or the data cannot be simulated.
+ */
+export function runSimulation(
+  buildJson: BuildJsonSchema,
+  bars: OhlcBar[],
+  options: SimulationOptions
+): SimulationResult {
+  if (!(options.initialDeposit > 0)) {
+    throw new SimulationError("Initial deposit must be positive");
+  }
+  if (bars.length < MIN_SIMULATION_BARS) {
+    throw new SimulationError(`At least ${MIN_SIMULATION_BARS} bars are required`);
+  }
+
+  const digits = options.digits ?? 5;
+  const point = 10 ** -digits;
+  const pipFactor = digits === 3 || digits === 5 ? 10 : 1;
+  const pip = point * pipFactor;
+  const contractSize = options.contractSize ?? DEFAULT_CONTRACT_SIZE;
+  const rate = options.quoteToAccountRate ?? 1;
+  const lotStep = options.lotStep ?? DEFAULT_LOT_STEP;
+  const defaultSpread = options.defaultSpreadPoints ?? 0;
+  const spreadPoints = (t: number) => bars[t].spread ?? defaultSpread;
+  const chartMinutes = inferChartMinutes(bars);
+
+  const strategy: CompiledStrategy = compileStrategy(buildJson, {
+    bars,
+    chartMinutes,
+    point,
+    pipFactor,
+    spreadPoints,
+  });
+  const warnings = [...strategy.warnings];
+
+  const settings = buildJson.settings ?? ({} as BuildJsonSchema["settings"]);
+  const maxOpenTrades = settings.maxOpenTrades ?? 1;
+  const maxBuy = settings.maxBuyPositions ?? maxOpenTrades;
+  const maxSell = settings.maxSellPositions ?? maxOpenTrades;
+  const allowHedging = settings.allowHedging ?? false;
+  const maxTradesPerDay = settings.maxTradesPerDay ?? 0;
+  const maxDailyProfit = settings.maxDailyProfitPercent ?? 0;
+  const maxDailyLoss = settings.maxDailyLossPercent ?? 0;
+  const cooldownMs = (settings.cooldownAfterLossMinutes ?? 0) * 60_000;
+  const minBarsBetween = settings.minBarsBetweenTrades ?? 0;
+  const maxTotalDrawdown = settings.maxTotalDrawdownPercent ?? 0;
+  const equityTarget = settings.equityTargetPercent ?? 0;
+
+  const deals: ParsedDeal[] = [
+    {
+      ticket: 1,
+      openTime: toDealTime(bars[0].time),
+      type: "balance",
+      volume: 0,
+      price: 0,
+      profit: options.initialDeposit,
+      comment: "Initial deposit",
+      ...(options.symbol ? { symbol: options.symbol } : {}),
+    },
+  ];
+
+  let balance = options.initialDeposit;
+  let peakEquity = balance;
+  let nextTicket = 2;
+  let positions: Position[] = [];
+  let currentDay = -1;
+  let dayStartDealIndex = deals.length;
+  let dailyLimitHit = false;
+  let tradesToday = 0;
+  let lastLossTime = -Infinity;
+  let lastTradeBar = -Infinity;
+
+  const profitOf = (p: Position, exitPrice: number, volume: number) =>
+    (p.side === "buy" ? exitPrice - p.entryPrice : p.entryPrice - exitPrice) *
+    volume *
+    contractSize *
+    rate;
+
+  const bidAsk = (price: number, t: number) => ({
+    bid: price,
+    ask: price + spreadPoints(t) * point,
+  });
+
+  const exitPriceOf = (p: Position, price: number, t: number) => {
+    const { bid, ask } = bidAsk(price, t);
+    return p.side === "buy" ? bid : ask;
+  };
+
+  const floating = (price: number, t: number) =>
+    positions.reduce((s, p) => s + profitOf(p, exitPriceOf(p, price, t), p.volume), 0);
+
+  const recordExit = (
+    p: Position,
+    exitPrice: number,
+    volume: number,
+    time: number,
+    reason: ExitReason
+  ) => {
+    const profit = Number(profitOf(p, exitPrice, volume).toFixed(2));
+    balance += profit;
+    if (profit < 0) lastLossTime = time;
+    deals.push({
+      ticket: nextTicket++,
+      openTime: toDealTime(time),
+      type: p.side,
+      volume,
+      price: Number(exitPrice.toFixed(digits)),
+      ...(p.sl > 0 ? { sl: Number(p.sl.toFixed(digits)) } : {}),
+      ...(p.tp > 0 ? { tp: Number(p.tp.toFixed(digits)) } : {}),
+      profit,
+      comment: reason,
+      ...(options.symbol ? { symbol: options.symbol } : {}),
+    });
+  };
+
+  const closePosition = (p: Position, exitPrice: number, time: number, reason: ExitReason) => {
+    recordExit(p, exitPrice, p.volume, time, reason);
+    positions = positions.filter((o) => o !== p);
+  };
+
+  const closeAll = (price: number, t: number, time: number, reason: ExitReason) => {
+    for (const p of [...positions]) closePosition(p, exitPriceOf(p, price, t), time, reason);
+  };
+
+  const partialClose = (p: Position, volume: number, exitPrice: number, time: number) => {
+    recordExit(p, exitPrice, volume, time, p.mltpLevel > 0 ? "multi-level-tp" : "partial-close");
+    p.volume = Number((p.volume - volume).toFixed(8));
+  };
+
+  const lotSize = (sizing: SizingRule, stopDist: number, scale: number): number => {
+    let lots = sizing.fixedLot;
+    if (sizing.method === "RISK_PERCENT") {
+      const risk = Math.min(MAX_RISK_PERCENT, Math.max(MIN_RISK_PERCENT, sizing.riskPercent));
+      const lossPerLot = stopDist * contractSize * rate;
+      lots = lossPerLot > 0 ? roundVolume((balance * risk) / 100 / lossPerLot, lotStep) : lotStep;
+    }
+    const clamp = (v: number) => Math.max(sizing.minLot, Math.min(sizing.maxLot, v));
+    // Like the EA's ScaleLotSize: scale the sized lot, floor to the step, clamp again
+    return scale === 1 ? clamp(lots) : clamp(roundVolume(clamp(lots) * scale, lotStep));
+  };
+
+  const manage = (t: number) => {
+    const bar = bars[t];
+    for (const p of [...positions]) {
+      const { bid, ask } = bidAsk(bar.close, t);
+      const price = p.side === "buy" ? bid : ask;
+      const dir = p.side === "buy" ? 1 : -1;
+      const profitDist = (price - p.entryPrice) * dir;
+      const tighten = (level: number) => {
+        if (p.sl === 0 || (level - p.sl) * dir > 0) p.sl = level;
+      };
+
+      for (const node of strategy.managementNodes) {
+        if (!positions.includes(p)) break;
+        const d = node.data as Record<string, unknown>;
+        const type = (d.managementType as string | undefined) ?? d.tradeManagementType;
+
+        if (type === "breakeven-stop") {
+          const be = node.data as BreakevenStopNodeData;
+          let reached = false;
+          if (be.trigger === "PERCENTAGE") {
+            reached = (profitOf(p, price, p.volume) / balance) * 100 >= be.triggerPercent;
+          } else if (be.trigger === "ATR") {
+            const a = strategy.chartAtr(be.triggerAtrPeriod ?? 14, t);
+            reached = Number.isFinite(a) && profitDist >= a * be.triggerAtrMultiplier;
+          } else {
+            reached = profitDist >= be.triggerPips * pip;
+          }
+          if (reached) tighten(p.entryPrice + dir * (be.lockPips ?? 0) * pip);
+        } else if (type === "trailing-stop") {
+          const ts = node.data as TrailingStopNodeData;
+          let trail = ts.trailPips * pip;
+          if (ts.method === "ATR_BASED") {
+            trail = strategy.chartAtr(ts.trailAtrPeriod ?? 14, t) * ts.trailAtrMultiplier;
+          } else if (ts.method === "PERCENTAGE") {
+            trail = Math.max((profitDist * ts.trailPercent) / 100, pip);
+          }
+          if (Number.isFinite(trail) && profitDist >= (ts.startAfterPips ?? 0) * pip) {
+            tighten(price - dir * trail);
+          }
+        } else if (type === "lock-profit") {
+          const lp = node.data as LockProfitNodeData;
+          if (profitDist > lp.checkIntervalPips * pip) {
+            const lock =
+              lp.method === "PERCENTAGE" ? (profitDist * lp.lockPercent) / 100 : lp.lockPips * pip;
+            const level = p.entryPrice + dir * lock;
+            // Never place the stop beyond the current price
+            if ((price - level) * dir > 0) tighten(level);
+          }
+        } else if (type === "partial-close" && !p.partialClosed) {
+          const pc = node.data as PartialCloseNodeData;
+          const reached =
+            pc.triggerMethod === "PERCENT"
+              ? (profitOf(p, price, p.volume) / balance) * 100 >= pc.triggerPercent
+              : profitDist >= pc.triggerPips * pip;
+          if (reached) {
+            let vol = roundVolume((p.volume * pc.closePercent) / 100, lotStep);
+            if (p.volume - vol < lotStep) vol = roundVolume(p.volume - lotStep, lotStep);
+            if (vol >= lotStep) {
+              partialClose(p, vol, price, bar.time);
+              p.partialClosed = true;
+              if (pc.moveSLToBreakeven) tighten(p.entryPrice);
+            }
+          }
+        } else if (type === "multi-level-tp") {
+          const ml = node.data as MultiLevelTPNodeData;
+          if (p.mltpLevel < 1 && profitDist >= ml.tp1Pips * pip) {
+            let vol = roundVolume((p.volume * ml.tp1Percent) / 100, lotStep);
+            if (p.volume - vol < lotStep) vol = roundVolume(p.volume - lotStep, lotStep);
+            if (vol >= lotStep) {
+              p.mltpLevel = 1;
+              partialClose(p, vol, price, bar.time);
+              if (ml.moveSLAfterTP1 !== "NONE") tighten(p.entryPrice);
+            }
+          } else if (p.mltpLevel === 1 && profitDist >= ml.tp2Pips * pip) {
+            const denom = ml.tp2Percent + ml.tp3Percent;
+            let vol = denom > 0 ? roundVolume((p.volume * ml.tp2Percent) / denom, lotStep) : 0;
+            if (p.volume - vol < lotStep) vol = roundVolume(p.volume - lotStep, lotStep);
+            if (vol >= lotStep) {
+              p.mltpLevel = 2;
+              partialClose(p, vol, price, bar.time);
+            }
+          } else if (p.mltpLevel === 2 && profitDist >= ml.tp3Pips * pip) {
+            p.mltpLevel = 3;
+            closePosition(p, price, bar.time, "multi-level-tp");
+          }
+        }
+      }
+    }
+  };
+
+  /** Resolve SL/TP inside bar t. Returns nothing; closes hit positions. */
+  const checkStops = (t: number) => {
+    const bar = bars[t];
+    const spread = spreadPoints(t) * point;
+    for (const p of [...positions]) {
+      if (p.side === "buy") {
+        if (p.sl > 0 && bar.low <= p.sl) {
+          closePosition(p, Math.min(p.sl, bar.open), bar.time, "stop-loss");
+        } else if (p.tp > 0 && bar.high >= p.tp) {
+          closePosition(p, Math.max(p.tp, bar.open), bar.time, "take-profit");
+        }
+      } else {
+        const askHigh = bar.high + spread;
+        const askLow = bar.low + spread;
+        const askOpen = bar.open + spread;
+        if (p.sl > 0 && askHigh >= p.sl) {
+          closePosition(p, Math.max(p.sl, askOpen), bar.time, "stop-loss");
+        } else if (p.tp > 0 && askLow <= p.tp) {
+          closePosition(p, Math.min(p.tp, askOpen), bar.time, "take-profit");
+        }
+      }
+    }
+  };
+
+  for (let t = 0; t < bars.length; t++) {
+    const bar = bars[t];
+    const time = bar.time;
+    let blocked = false;
+
+    // --- Day rollover ---
+    const day = Math.floor(time / DAY_MS);
+    if (day !== currentDay) {
+      currentDay = day;
+      dayStartDealIndex = deals.length;
+      dailyLimitHit = false;
+      tradesToday = 0;
+    }
+
+    // --- Account limits (mirror the generated OnTick guards) ---
+    const equity = balance + floating(bar.open, t);
+    if (equity > peakEquity) peakEquity = equity;
+    if (maxTotalDrawdown > 0 && ((peakEquity - equity) / peakEquity) * 100 >= maxTotalDrawdown) {
+      closeAll(bar.open, t, time, "risk-limit");
+      blocked = true;
+    }
+    if (
+      !blocked &&
+      equityTarget > 0 &&
+      ((equity - options.initialDeposit) / options.initialDeposit) * 100 >= equityTarget
+    ) {
+      closeAll(bar.open, t, time, "risk-limit");
+      blocked = true;
+    }
+    if (!blocked && (maxDailyProfit > 0 || maxDailyLoss > 0)) {
+      if (dailyLimitHit) {
+        blocked = true;
+      } else {
+        const closedToday = deals.slice(dayStartDealIndex).reduce((s, d) => s + d.profit, 0);
+        const pnlPct = ((closedToday + floating(bar.open, t)) / balance) * 100;
+        if (
+          (maxDailyProfit > 0 && pnlPct >= maxDailyProfit) ||
+          (maxDailyLoss > 0 && pnlPct <= -maxDailyLoss)
+        ) {
+          closeAll(bar.open, t, time, "risk-limit");
+          dailyLimitHit = true;
+          blocked = true;
+        }
+      }
+    }
+    if (!blocked && cooldownMs > 0 && time - lastLossTime < cooldownMs) blocked = true;
+    if (!blocked && minBarsBetween > 0 && t - lastTradeBar < minBarsBetween) blocked = true;
+
+    // --- Timing and filters ---
+    if (!blocked && !strategy.isTradingTime(time)) {
+      if (strategy.closeOnSessionEnd) closeAll(bar.open, t, time, "session-end");
+      blocked = true;
+    }
+    if (!blocked && strategy.isFridayClose(time)) {
+      closeAll(bar.open, t, time, "friday-close");
+      blocked = true;
+    }
+    if (!blocked && strategy.isFiltered(t)) blocked = true;
+
+    if (!blocked) {
+      // --- Exit signals and time exits ---
+      const closeBuy = strategy.closeBuySignal(t);
+      const closeSell = strategy.closeSellSignal(t);
+      for (const p of [...positions]) {
+        if ((p.side === "buy" && closeBuy) || (p.side === "sell" && closeSell)) {
+          closePosition(p, exitPriceOf(p, bar.open, t), time, "close-condition");
+        } else if (strategy.timeExitMs !== null && time - p.openTime >= strategy.timeExitMs) {
+          closePosition(p, exitPriceOf(p, bar.open, t), time, "time-exit");
+        }
+      }
+
+      // --- Entries ---
+      const tryOpen = (side: Side, sizing: SizingRule | null) => {
+        if (!sizing) return;
+        const buys = positions.filter((p) => p.side === "buy").length;
+        const sells = positions.length - buys;
+        if (positions.length >= maxOpenTrades) return;
+        if (side === "buy" && (buys >= maxBuy || (!allowHedging && sells > 0))) return;
+        if (side === "sell" && (sells >= maxSell || (!allowHedging && buys > 0))) return;
+        if (maxTradesPerDay > 0 && tradesToday >= maxTradesPerDay) return;
+        // A zero-risk window keeps managing open trades but opens nothing new
+        const scale = strategy.riskScale(time);
+        if (scale <= 0) return;
+
+        const { bid, ask } = bidAsk(bar.open, t);
+        const entry = side === "buy" ? ask : bid;
+        const stopDist = strategy.stopDistance(t, side, entry);
+        const takeDist = strategy.takeDistance(t, stopDist);
+        if (!Number.isFinite(stopDist) || !Number.isFinite(takeDist)) return;
+        const dir = side === "buy" ? 1 : -1;
+        positions.push({
+          ticket: nextTicket++,
+          side,
+          entryPrice: entry,
+          volume: lotSize(sizing, stopDist, scale),
+          sl: stopDist > 0 ? entry - dir * stopDist : 0,
+          tp: takeDist > 0 ? entry + dir * takeDist : 0,
+          openTime: time,
+          partialClosed: false,
+          mltpLevel: 0,
+        });
+        tradesToday++;
+        lastTradeBar = t;
+      };
+      if (strategy.hasBuy && strategy.buySignal(t)) tryOpen("buy", strategy.buySizing);
+      if (strategy.hasSell && strategy.sellSignal(t)) tryOpen("sell", strategy.sellSizing);
+    }
+
+    // --- Intrabar stops, then bar-close management ---
+    checkStops(t);
+    if (!blocked) manage(t);
+  }
+
+  if (positions.length > 0) {
+    const last = bars.length - 1;
+    warnings.push(`${positions.length} open position(s) closed at the last bar`);
+    closeAll(bars[last].close, last, bars[last].time, "end-of-data");
+  }
+
+  const first = new Date(bars[0].time).toISOString().slice(0, 10);
+  const lastDate = new Date(bars[bars.length - 1].time).toISOString().slice(0, 10);
+  return {
+    metadata: {
+      eaName: null,
+      symbol: options.symbol ?? "UNKNOWN",
+      timeframe: timeframeLabel(chartMinutes),
+      period: `${first} - ${lastDate}`,
+      initialDeposit: options.initialDeposit,
+    },
+    metrics: computeSimulationMetrics(deals, options.initialDeposit),
+    deals,
+    warnings,
+  };
+}
@@ -0,0 +1,21 @@
+/**
+ * Backtest Simulator — barrel export.
+ */
+
+export {
+  runSimulation,
+  DEFAULT_CONTRACT_SIZE,
+  DEFAULT_LOT_STEP,
+  MIN_SIMULATION_BARS,
+} from "./engine";
+export { parseOhlcCsv, OhlcCsvParseError, MAX_OHLC_BARS } from "./ohlc-csv";
+export { computeSimulationMetrics } from "./metrics";
+export { SimulationError } from "./types";
+
+export type {
+  OhlcBar,
+  OhlcParseResult,
+  SimulationOptions,
+  SimulationResult,
+  ExitReason,
+} from "./types";
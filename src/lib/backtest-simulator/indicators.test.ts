@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { sma, ema, rsi, atr, bollinger, macd, stochastic, adx } from "./indicators";
+import type { OhlcBar } from "./types";
+
+function bar(open: number, high: number, low: number, close: number): OhlcBar {
+  return { time: 0, open, high, low, close, tickVolume: 0, spread: 0 };
+}
+
+describe("indicators", () => {
+  it("sma and ema are NaN during warm-up and seed the EMA with the SMA", () => {
+    const values = [1, 2, 3, 4, 5];
+    const s = sma(values, 3);
+    const e = ema(values, 3);
+
+    expect(Number.isNaN(s[1])).toBe(true);
+    expect(s.slice(2)).toEqual([2, 3, 4]);
+    expect(e[2]).toBe(2);
+    expect(e[3]).toBeCloseTo(3, 10); // 4 * 0.5 + 2 * 0.5
+    expect(e[4]).toBeCloseTo(4, 10);
+  });
+
+  it("rsi is 100 on a strictly rising series and 0 on a falling one", () => {
+    const up = Array.from({ length: 20 }, (_, i) => i + 1);
+    const down = [...up].reverse();
+
+    expect(rsi(up, 14)[19]).toBe(100);
+    expect(rsi(down, 14)[19]).toBe(0);
+    expect(Number.isNaN(rsi(up, 14)[13])).toBe(true);
+  });
+
+  it("atr averages the true range including gaps", () => {
+    const bars = [bar(10, 11, 9, 10), bar(12, 13, 12, 12.5), bar(12.5, 13, 12, 12.5)];
+    // TR: 2, max(13,10)-min(12,10)=3, 1
+    expect(atr(bars, 3)[2]).toBeCloseTo(2, 10);
+  });
+
+  it("bollinger bands are symmetric around the SMA", () => {
+    const { upper, middle, lower } = bollinger([1, 2, 3, 4, 5], 5, 2);
+    expect(middle[4]).toBe(3);
+    expect(upper[4] - middle[4]).toBeCloseTo(middle[4] - lower[4], 10);
+    expect(upper[4] - middle[4]).toBeCloseTo(2 * Math.sqrt(2), 10);
+  });
+
+  it("macd is zero on a constant series", () => {
+    const { main, signal } = macd(new Array(60).fill(1.1), 12, 26, 9);
+    expect(main[59]).toBeCloseTo(0, 10);
+    expect(signal[59]).toBeCloseTo(0, 10);
+  });
+
+  it("stochastic reads 100 when the close sits at the top of the range", () => {
+    const bars = Array.from({ length: 20 }, (_, i) => bar(i, i + 1, i - 1, i + 1));
+    const { main } = stochastic(bars, 5, 3, 3);
+    expect(main[19]).toBe(100);
+  });
+
+  it("adx favours +DI in an uptrend and masks its warm-up", () => {
+    const bars = Array.from({ length: 60 }, (_, i) => bar(i, i + 1.5, i - 0.5, i + 1));
+    const { main, plusDi, minusDi } = adx(bars, 14);
+
+    expect(Number.isNaN(main[5])).toBe(true);
+    expect(plusDi[59]).toBeGreaterThan(minusDi[59]);
+    expect(main[59]).toBeGreaterThan(50);
+  });
+});
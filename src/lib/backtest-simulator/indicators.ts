@@ -0,0 +1,299 @@
+/**
+ * Indicator math for the bar-by-bar simulator.
+ *
+ * Every function takes oldest-first series and returns a series of the same length,
+ * with NaN during warm-up. Formulas follow the MT5 built-in indicators that the
+ * generated EA reads through iMA / iRSI / iMACD / iBands / iATR / iADX / iStochastic / iCCI,
+ * so simulated signals line up with the exported EA as closely as bar data allows.
+ */
+
+import type { OhlcBar } from "./types";
+
+export type MaMethod = "SMA" | "EMA" | "SMMA" | "LWMA";
+export type PriceSource = "CLOSE" | "OPEN" | "HIGH" | "LOW" | "MEDIAN" | "TYPICAL" | "WEIGHTED";
+
+/** MT5 CCI constant (Lambert). */
+const CCI_CONSTANT = 0.015;
+
+export function appliedPrice(bars: OhlcBar[], source: PriceSource = "CLOSE"): number[] {
+  return bars.map((b) => {
+    switch (source) {
+      case "OPEN":
+        return b.open;
+      case "HIGH":
+        return b.high;
+      case "LOW":
+        return b.low;
+      case "MEDIAN":
+        return (b.high + b.low) / 2;
+      case "TYPICAL":
+        return (b.high + b.low + b.close) / 3;
+      case "WEIGHTED":
+        return (b.high + b.low + 2 * b.close) / 4;
+      case "CLOSE":
+      default:
+        return b.close;
+    }
+  });
+}
+
+function firstFinite(values: number[]): number {
+  const idx = values.findIndex((v) => Number.isFinite(v));
+  return idx < 0 ? values.length : idx;
+}
+
+function nanSeries(length: number): number[] {
+  return new Array<number>(length).fill(NaN);
+}
+
+export function sma(values: number[], period: number): number[] {
+  const out = nanSeries(values.length);
+  const start = firstFinite(values);
+  let sum = 0;
+  for (let i = start; i < values.length; i++) {
+    sum += values[i];
+    if (i - start >= period) sum -= values[i - period];
+    if (i - start >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+/** EMA seeded with the SMA of the first `period` values. */
+export function ema(values: number[], period: number): number[] {
+  const out = nanSeries(values.length);
+  const start = firstFinite(values);
+  const seedEnd = start + period - 1;
+  if (seedEnd >= values.length) return out;
+  let seed = 0;
+  for (let i = start; i <= seedEnd; i++) seed += values[i];
+  out[seedEnd] = seed / period;
+  const alpha = 2 / (period + 1);
+  for (let i = seedEnd + 1; i < values.length; i++) {
+    out[i] = values[i] * alpha + out[i - 1] * (1 - alpha);
+  }
+  return out;
+}
+
+/** EMA seeded with the first value — the smoothing MT5 uses inside iADX. */
+function emaFromFirst(values: number[], period: number): number[] {
+  const out = nanSeries(values.length);
+  const start = firstFinite(values);
+  if (start >= values.length) return out;
+  const alpha = 2 / (period + 1);
+  out[start] = values[start];
+  for (let i = start + 1; i < values.length; i++) {
+    out[i] = values[i] * alpha + out[i - 1] * (1 - alpha);
+  }
+  return out;
+}
+
+export function smma(values: number[], period: number): number[] {
+  const out = sma(values, period);
+  const start = firstFinite(out);
+  for (let i = start + 1; i < values.length; i++) {
+    out[i] = (out[i - 1] * (period - 1) + values[i]) / period;
+  }
+  return out;
+}
+
+export function lwma(values: number[], period: number): number[] {
+  const out = nanSeries(values.length);
+  const start = firstFinite(values);
+  const weightSum = (period * (period + 1)) / 2;
+  for (let i = start + period - 1; i < values.length; i++) {
+    let acc = 0;
+    for (let k = 0; k < period; k++) acc += values[i - k] * (period - k);
+    out[i] = acc / weightSum;
+  }
+  return out;
+}
+
+export function movingAverage(values: number[], period: number, method: MaMethod): number[] {
+  switch (method) {
+    case "EMA":
+      return ema(values, period);
+    case "SMMA":
+      return smma(values, period);
+    case "LWMA":
+      return lwma(values, period);
+    case "SMA":
+    default:
+      return sma(values, period);
+  }
+}
+
+/** RSI with Wilder smoothing (first average is a simple mean of `period` changes). */
+export function rsi(values: number[], period: number): number[] {
+  const out = nanSeries(values.length);
+  if (values.length <= period) return out;
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = values[i] - values[i - 1];
+    if (diff > 0) gain += diff;
+    else loss -= diff;
+  }
+  gain /= period;
+  loss /= period;
+  out[period] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  for (let i = period + 1; i < values.length; i++) {
+    const diff = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(diff, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-diff, 0)) / period;
+    out[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+  return out;
+}
+
+function trueRange(bars: OhlcBar[]): number[] {
+  return bars.map((b, i) => {
+    if (i === 0) return b.high - b.low;
+    const prevClose = bars[i - 1].close;
+    return Math.max(b.high, prevClose) - Math.min(b.low, prevClose);
+  });
+}
+
+/** ATR as a simple average of true range (MT5 iATR). */
+export function atr(bars: OhlcBar[], period: number): number[] {
+  return sma(trueRange(bars), period);
+}
+
+export interface BandsSeries {
+  upper: number[];
+  middle: number[];
+  lower: number[];
+}
+
+export function bollinger(values: number[], period: number, deviation: number): BandsSeries {
+  const middle = sma(values, period);
+  const upper = nanSeries(values.length);
+  const lower = nanSeries(values.length);
+  for (let i = period - 1; i < values.length; i++) {
+    if (!Number.isFinite(middle[i])) continue;
+    let sq = 0;
+    for (let k = 0; k < period; k++) sq += (values[i - k] - middle[i]) ** 2;
+    const sd = Math.sqrt(sq / period);
+    upper[i] = middle[i] + deviation * sd;
+    lower[i] = middle[i] - deviation * sd;
+  }
+  return { upper, middle, lower };
+}
+
+export interface MacdSeries {
+  main: number[];
+  signal: number[];
+}
+
+/** MACD main = EMA(fast) - EMA(slow); signal = SMA of main (MT5 iMACD). */
+export function macd(
+  values: number[],
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): MacdSeries {
+  const fast = ema(values, fastPeriod);
+  const slow = ema(values, slowPeriod);
+  const main = fast.map((f, i) => f - slow[i]);
+  return { main, signal: sma(main, signalPeriod) };
+}
+
+export interface StochasticSeries {
+  main: number[];
+  signal: number[];
+}
+
+export function stochastic(
+  bars: OhlcBar[],
+  kPeriod: number,
+  dPeriod: number,
+  slowing: number,
+  maMethod: "SMA" | "EMA" = "SMA",
+  priceField: "LOWHIGH" | "CLOSECLOSE" = "LOWHIGH"
+): StochasticSeries {
+  const n = bars.length;
+  const highs = bars.map((b) => (priceField === "CLOSECLOSE" ? b.close : b.high));
+  const lows = bars.map((b) => (priceField === "CLOSECLOSE" ? b.close : b.low));
+  const numer = nanSeries(n);
+  const denom = nanSeries(n);
+  for (let i = kPeriod - 1; i < n; i++) {
+    let hh = -Infinity;
+    let ll = Infinity;
+    for (let k = 0; k < kPeriod; k++) {
+      hh = Math.max(hh, highs[i - k]);
+      ll = Math.min(ll, lows[i - k]);
+    }
+    numer[i] = bars[i].close - ll;
+    denom[i] = hh - ll;
+  }
+  const main = nanSeries(n);
+  for (let i = kPeriod + slowing - 2; i < n; i++) {
+    let num = 0;
+    let den = 0;
+    for (let k = 0; k < slowing; k++) {
+      num += numer[i - k];
+      den += denom[i - k];
+    }
+    main[i] = den === 0 ? 100 : (num / den) * 100;
+  }
+  return { main, signal: movingAverage(main, dPeriod, maMethod) };
+}
+
+export function cci(bars: OhlcBar[], period: number, source: PriceSource = "TYPICAL"): number[] {
+  const price = appliedPrice(bars, source);
+  const mean = sma(price, period);
+  const out = nanSeries(bars.length);
+  for (let i = period - 1; i < bars.length; i++) {
+    let dev = 0;
+    for (let k = 0; k < period; k++) dev += Math.abs(price[i - k] - mean[i]);
+    dev /= period;
+    out[i] = dev === 0 ? 0 : (price[i] - mean[i]) / (CCI_CONSTANT * dev);
+  }
+  return out;
+}
+
+export interface AdxSeries {
+  main: number[];
+  plusDi: number[];
+  minusDi: number[];
+}
+
+/** ADX as computed by MT5 iADX (EMA-smoothed directional indices). */
+export function adx(bars: OhlcBar[], period: number): AdxSeries {
+  const n = bars.length;
+  const pdi = nanSeries(n);
+  const ndi = nanSeries(n);
+  for (let i = 1; i < n; i++) {
+    const b = bars[i];
+    const prev = bars[i - 1];
+    let pdm = b.high - prev.high;
+    let ndm = prev.low - b.low;
+    if (pdm < 0) pdm = 0;
+    if (ndm < 0) ndm = 0;
+    if (pdm === ndm) {
+      pdm = 0;
+      ndm = 0;
+    } else if (pdm < ndm) {
+      pdm = 0;
+    } else {
+      ndm = 0;
+    }
+    const tr = Math.max(b.high, prev.close) - Math.min(b.low, prev.close);
+    pdi[i] = tr === 0 ? 0 : (100 * pdm) / tr;
+    ndi[i] = tr === 0 ? 0 : (100 * ndm) / tr;
+  }
+  const plusDi = emaFromFirst(pdi, period);
+  const minusDi = emaFromFirst(ndi, period);
+  const dx = plusDi.map((p, i) => {
+    const m = minusDi[i];
+    const sum = p + m;
+    return sum === 0 ? 0 : (100 * Math.abs(p - m)) / sum;
+  });
+  const main = emaFromFirst(dx, period);
+  // Mask the warm-up so early values are not mistaken for a settled reading
+  for (let i = 0; i < Math.min(period, n); i++) {
+    main[i] = NaN;
+    plusDi[i] = NaN;
+    minusDi[i] = NaN;
+  }
+  return { main, plusDi, minusDi };
+}
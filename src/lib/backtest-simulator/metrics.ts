@@ -0,0 +1,87 @@
+/**
+ * Summary metrics for simulated deals.
+ *
+ * Produces the same ParsedMetrics shape the MT5 report parser emits, computed from
+ * exit deals only (balance deals are ignored). Drawdown is measured on the closed-trade
+ * balance curve because the simulator does not model intrabar equity.
+ */
+
+import type { ParsedDeal, ParsedMetrics } from "@/lib/backtest-parser/types";
+
+export function computeSimulationMetrics(
+  deals: ParsedDeal[],
+  initialDeposit: number
+): ParsedMetrics {
+  const trades = deals.filter((d) => d.type !== "balance");
+  const profits = trades.map((d) => d.profit);
+  const wins = profits.filter((p) => p > 0);
+  const losses = profits.filter((p) => p < 0);
+
+  const grossProfit = wins.reduce((s, p) => s + p, 0);
+  const grossLoss = losses.reduce((s, p) => s + p, 0);
+  const totalNetProfit = grossProfit + grossLoss;
+
+  let balance = initialDeposit;
+  let peak = balance;
+  let maxDrawdownAbs = 0;
+  let maxDrawdownPct = 0;
+  for (const p of profits) {
+    balance += p;
+    if (balance > peak) peak = balance;
+    const dd = peak - balance;
+    if (dd > maxDrawdownAbs) maxDrawdownAbs = dd;
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (dd / peak) * 100);
+  }
+
+  let sharpeRatio: number | null = null;
+  if (profits.length >= 2) {
+    const mean = totalNetProfit / profits.length;
+    const variance = profits.reduce((s, p) => s + (p - mean) ** 2, 0) / (profits.length - 1);
+    const std = Math.sqrt(variance);
+    sharpeRatio = std > 0 ? mean / std : null;
+  }
+
+  let maxConsecutiveWins = 0;
+  let maxConsecutiveLosses = 0;
+  let runWins = 0;
+  let runLosses = 0;
+  for (const p of profits) {
+    if (p > 0) {
+      runWins++;
+      runLosses = 0;
+    } else if (p < 0) {
+      runLosses++;
+      runWins = 0;
+    }
+    maxConsecutiveWins = Math.max(maxConsecutiveWins, runWins);
+    maxConsecutiveLosses = Math.max(maxConsecutiveLosses, runLosses);
+  }
+
+  const sideWinRate = (side: string): number | null => {
+    const sideTrades = trades.filter((d) => d.type === side);
+    if (sideTrades.length === 0) return null;
+    return (sideTrades.filter((d) => d.profit > 0).length / sideTrades.length) * 100;
+  };
+
+  return {
+    totalNetProfit,
+    profitFactor: grossLoss < 0 ? grossProfit / Math.abs(grossLoss) : 0,
+    maxDrawdownPct,
+    maxDrawdownAbs: trades.length > 0 ? maxDrawdownAbs : null,
+    sharpeRatio,
+    recoveryFactor: maxDrawdownAbs > 0 ? totalNetProfit / maxDrawdownAbs : null,
+    expectedPayoff: trades.length > 0 ? totalNetProfit / trades.length : 0,
+    totalTrades: trades.length,
+    winRate: trades.length > 0 ? (wins.length / trades.length) * 100 : 0,
+    longWinRate: sideWinRate("buy"),
+    shortWinRate: sideWinRate("sell"),
+    grossProfit,
+    grossLoss,
+    largestProfitTrade: wins.reduce((m, p) => Math.max(m, p), 0),
+    largestLossTrade: losses.reduce((m, p) => Math.min(m, p), 0),
+    avgProfitTrade: wins.length > 0 ? grossProfit / wins.length : 0,
+    avgLossTrade: losses.length > 0 ? grossLoss / losses.length : 0,
+    maxConsecutiveWins,
+    maxConsecutiveLosses,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { parseOhlcCsv, OhlcCsvParseError } from "./ohlc-csv";
+
+const MT5_EXPORT = [
+  "<DATE>\t<TIME>\t<OPEN>\t<HIGH>\t<LOW>\t<CLOSE>\t<TICKVOL>\t<VOL>\t<SPREAD>",
+  "2024.01.02\t00:00:00\t1.10410\t1.10450\t1.10390\t1.10420\t512\t0\t7",
+  "2024.01.02\t01:00:00\t1.10420\t1.10500\t1.10400\t1.10480\t640\t0\t6",
+].join("\n");
+
+describe("parseOhlcCsv", () => {
+  it("parses an MT5 History Center export", () => {
+    const result = parseOhlcCsv(MT5_EXPORT);
+
+    expect(result.bars).toHaveLength(2);
+    expect(result.bars[0]).toEqual({
+      time: Date.UTC(2024, 0, 2, 0, 0, 0),
+      open: 1.1041,
+      high: 1.1045,
+      low: 1.1039,
+      close: 1.1042,
+      tickVolume: 512,
+      spread: 7,
+    });
+    expect(result.digits).toBe(5);
+    expect(result.warnings).toHaveLength(0);
+  });
+
+  it("parses a generic datetime CSV with a BOM and warns about missing spread", () => {
+    const csv =
+      "\uFEFFdatetime,open,high,low,close,volume\n" +
+      "2024-01-02 00:00,150.10,150.30,150.00,150.20,10\n" +
+      "2024-01-02 01:00,150.20,150.40,150.10,150.35,12\n";
+    const result = parseOhlcCsv(csv);
+
+    expect(result.bars).toHaveLength(2);
+    expect(result.bars[1].time).toBe(Date.UTC(2024, 0, 2, 1, 0));
+    expect(result.bars[1].spread).toBeNull();
+    expect(result.digits).toBe(2);
+    expect(result.warnings[0]).toMatch(/Spread column missing/);
+  });
+
+  it("accepts daily exports without a time column", () => {
+    const csv =
+      "date;open;high;low;close\n2024.01.02;1.1;1.2;1.0;1.15\n2024.01.03;1.15;1.2;1.1;1.12";
+    expect(parseOhlcCsv(csv).bars[1].time).toBe(Date.UTC(2024, 0, 3));
+  });
+
+  it("rejects a file without required columns", () => {
+    expect(() => parseOhlcCsv("date,open,close\n2024.01.02,1.1,1.2")).toThrow(
+      /Missing required column\(s\): high, low/
+    );
+  });
+
+  it("rejects out-of-order bars with the offending line", () => {
+    const csv = [
+      "date,time,open,high,low,close",
+      "2024.01.02,01:00,1.1,1.2,1.0,1.15",
+      "2024.01.02,00:00,1.1,1.2,1.0,1.15",
+    ].join("\n");
+    try {
+      parseOhlcCsv(csv);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(OhlcCsvParseError);
+      expect((err as OhlcCsvParseError).line).toBe(3);
+    }
+  });
+
+  it("rejects bars whose high/low do not bracket open/close", () => {
+    const csv = "date,time,open,high,low,close\n2024.01.02,00:00,1.1,1.12,1.0,1.15";
+    expect(() => parseOhlcCsv(csv)).toThrow(/bracket/);
+  });
+
+  it("rejects non-numeric prices and empty files", () => {
+    expect(() => parseOhlcCsv("date,time,open,high,low,close\n2024.01.02,00:00,1,1,abc,1")).toThrow(
+      /Invalid low/
+    );
+    expect(() => parseOhlcCsv("   \n")).toThrow(/empty/);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Deterministic OHLC CSV → OhlcBar[] parser.
+ *
+ * Accepted layouts (header row required, case-insensitive, tab/comma/semicolon separated):
+ *   - MT5 History Center export:
+ *       <DATE> <TIME> <OPEN> <HIGH> <LOW> <CLOSE> <TICKVOL> <VOL> <SPREAD>
+ *     (<TIME> is omitted by MT5 for D1 and higher)
+ *   - Generic: date,time,open,high,low,close[,volume][,spread]
+ *     or datetime|timestamp,open,high,low,close[,volume][,spread]
+ *
+ * Rules:
+ *   - Dates are "YYYY.MM.DD" or "YYYY-MM-DD", times "HH:mm" or "HH:mm:ss"
+ *   - Timestamps are taken as broker server time and stored as UTC epoch ms
+ *   - Decimal separator must be "." (no locale-dependent commas)
+ *   - Bars must be strictly ascending in time (fail-closed)
+ *   - Each bar must satisfy low <= min(open, close) and high >= max(open, close)
+ */
+
+import type { OhlcBar, OhlcParseResult } from "./types";
+
+export class OhlcCsvParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number | null
+  ) {
+    super(message);
+    this.name = "OhlcCsvParseError";
+  }
+}
+
+/** Maximum number of bars accepted in a single file (~10 years of M5 data). */
+export const MAX_OHLC_BARS = 750_000;
+
+const HEADER_ALIASES: Record<string, string> = {
+  date: "date",
+  time: "time",
+  datetime: "datetime",
+  timestamp: "datetime",
+  open: "open",
+  high: "high",
+  low: "low",
+  close: "close",
+  tickvol: "tickVolume",
+  tick_volume: "tickVolume",
+  tickvolume: "tickVolume",
+  volume: "volume",
+  vol: "volume",
+  spread: "spread",
+};
+
+const DATE_RE = /^(\d{4})[.\-/](\d{2})[.\-/](\d{2})$/;
+const TIME_RE = /^(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+function detectDelimiter(headerLine: string): string {
+  if (headerLine.includes("\t")) return "\t";
+  if (headerLine.includes(";")) return ";";
+  return ",";
+}
+
+function normalizeHeader(cell: string): string {
+  return cell.trim().replace(/^<|>$/g, "").toLowerCase();
+}
+
+function parseDateTime(date: string, time: string | undefined, line: number): number {
+  const dm = DATE_RE.exec(date.trim());
+  if (!dm) {
+    throw new OhlcCsvParseError(`Invalid date "${date.trim()}"`, line);
+  }
+  let hours = 0;
+  let minutes = 0;
+  let seconds = 0;
+  if (time !== undefined && time.trim() !== "") {
+    const tm = TIME_RE.exec(time.trim());
+    if (!tm) {
+      throw new OhlcCsvParseError(`Invalid time "${time.trim()}"`, line);
+    }
+    hours = Number(tm[1]);
+    minutes = Number(tm[2]);
+    seconds = tm[3] ? Number(tm[3]) : 0;
+  }
+  const ms = Date.UTC(Number(dm[1]), Number(dm[2]) - 1, Number(dm[3]), hours, minutes, seconds);
+  if (!Number.isFinite(ms) || hours > 23 || minutes > 59 || seconds > 59) {
+    throw new OhlcCsvParseError(`Invalid timestamp "${date} ${time ?? ""}"`, line);
+  }
+  return ms;
+}
+
+function parsePrice(value: string | undefined, field: string, line: number): number {
+  const trimmed = (value ?? "").trim();
+  const num = trimmed === "" ? NaN : Number(trimmed);
+  if (!Number.isFinite(num) || num <= 0) {
+    throw new OhlcCsvParseError(`Invalid ${field} "${trimmed}"`, line);
+  }
+  return num;
+}
+
+function decimalsOf(value: string): number {
+  const dot = value.indexOf(".");
+  return dot < 0 ? 0 : value.trim().length - dot - 1;
+}
+
+/**
+ * Parse an OHLC CSV export into ascending bars.
+ * Throws OhlcCsvParseError on the first structural problem (fail-closed).
+ */
+export function parseOhlcCsv(text: string): OhlcParseResult {
+  const content = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const lines = content.split(/\r?\n/);
+  const headerIndex = lines.findIndex((l) => l.trim() !== "");
+  if (headerIndex < 0) {
+    throw new OhlcCsvParseError("File is empty", null);
+  }
+
+  const delimiter = detectDelimiter(lines[headerIndex]);
+  const columns = new Map<string, number>();
+  lines[headerIndex].split(delimiter).forEach((cell, idx) => {
+    const key = HEADER_ALIASES[normalizeHeader(cell)];
+    if (key && !columns.has(key)) columns.set(key, idx);
+  });
+
+  const hasDate = columns.has("date") || columns.has("datetime");
+  const missing = ["open", "high", "low", "close"].filter((c) => !columns.has(c));
+  if (!hasDate) missing.unshift("date");
+  if (missing.length > 0) {
+    throw new OhlcCsvParseError(`Missing required column(s): ${missing.join(", ")}`, 1);
+  }
+
+  const warnings: string[] = [];
+  const bars: OhlcBar[] = [];
+  let digits = 0;
+  let missingSpread = !columns.has("spread");
+
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const raw = lines[i];
+    if (raw.trim() === "") continue;
+    const lineNo = i + 1;
+    const cells = raw.split(delimiter);
+    const cell = (key: string) => {
+      const idx = columns.get(key);
+      return idx === undefined ? undefined : cells[idx];
+    };
+
+    let time: number;
+    if (columns.has("datetime")) {
+      const [d, t] = (cell("datetime") ?? "").trim().split(/[ T]/);
+      time = parseDateTime(d ?? "", t, lineNo);
+    } else {
+      time = parseDateTime(cell("date") ?? "", cell("time"), lineNo);
+    }
+
+    const open = parsePrice(cell("open"), "open", lineNo);
+    const high = parsePrice(cell("high"), "high", lineNo);
+    const low = parsePrice(cell("low"), "low", lineNo);
+    const close = parsePrice(cell("close"), "close", lineNo);
+    if (high < Math.max(open, close) || low > Math.min(open, close)) {
+      throw new OhlcCsvParseError("High/low do not bracket open/close", lineNo);
+    }
+
+    for (const key of ["open", "high", "low", "close"]) {
+      digits = Math.max(digits, decimalsOf(cell(key) ?? ""));
+    }
+
+    const volumeCell = cell("tickVolume") ?? cell("volume");
+    const tickVolume =
+      volumeCell !== undefined && volumeCell.trim() !== "" ? Number(volumeCell) : 0;
+    const spreadCell = cell("spread");
+    let spread: number | null = null;
+    if (spreadCell !== undefined && spreadCell.trim() !== "") {
+      spread = Number(spreadCell);
+      if (!Number.isFinite(spread) || spread < 0) {
+        throw new OhlcCsvParseError(`Invalid spread "${spreadCell.trim()}"`, lineNo);
+      }
+    } else {
+      missingSpread = true;
+    }
+
+    const prev = bars[bars.length - 1];
+    if (prev && time <= prev.time) {
+      throw new OhlcCsvParseError("Bars must be in strictly ascending time order", lineNo);
+    }
+
+    bars.push({
+      time,
+      open,
+      high,
+      low,
+      close,
+      tickVolume: Number.isFinite(tickVolume) ? tickVolume : 0,
+      spread,
+    });
+
+    if (bars.length > MAX_OHLC_BARS) {
+      throw new OhlcCsvParseError(`Too many bars (max ${MAX_OHLC_BARS})`, lineNo);
+    }
+  }
+
+  if (bars.length === 0) {
+    throw new OhlcCsvParseError("No bars found after header", null);
+  }
+  if (missingSpread) {
+    warnings.push(
+      "Spread column missing or incomplete — the default spread is used for those bars"
+    );
+  }
+
+  return { bars, digits, warnings };
+}
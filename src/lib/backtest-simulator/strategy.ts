@@ -0,0 +1,1183 @@
+/**
+ * Compiles a BuildJsonSchema into evaluable per-bar rules for the simulator.
+ *
+ * The rules mirror what generateMQL5Code emits (entry conditions, exit signals,
+ * filters, SL/TP distances) so a simulated run answers the same question as a
+ * Strategy Tester run of the exported EA. Two deliberate differences:
+ *
+ *   1. Every signal is evaluated once per bar, at the bar open, with candle_close
+ *      bar offsets — an "every_tick" node has no intrabar ticks to look at, and reading
+ *      the forming bar would leak future prices into the decision.
+ *   2. Higher-timeframe values are only read from fully closed HTF bars.
+ *
+ * Nodes the simulator cannot reproduce faithfully are rejected with a SimulationError
+ * rather than silently approximated.
+ */
+
+import type {
+  ADXNodeData,
+  BollingerBandsNodeData,
+  BuildJsonSchema,
+  BuilderEdge,
+  BuilderNode,
+  CCINodeData,
+  CloseConditionNodeData,
+  ConditionNodeData,
+  ConditionOperandId,
+  ConditionOperator,
+  CustomTimesNodeData,
+  FridayCloseFilterNodeData,
+  HtfBiasNodeData,
+  LogicGateType,
+  MACDNodeData,
+  MovingAverageNodeData,
+  PlaceBuyNodeData,
+  RiskScaleRule,
+  RSINodeData,
+  StochasticNodeData,
+  StopLossMethod,
+  TakeProfitMethod,
+  Timeframe,
+  TimeExitNodeData,
+  TradingDays,
+  TradingSessionNodeData,
+  VolatilityFilterNodeData,
+  VolumeFilterNodeData,
+} from "@/types/builder";
+import {
+  DEFAULT_CONDITION_OPERAND,
+  INDICATOR_OUTPUT_BUFFERS,
+  SESSION_TIMES,
+  getConditionOperandSourceId,
+} from "@/types/builder";
+import { decomposeEntryStrategyNodes, getConnectedNodeIds } from "@/lib/mql5-generator/generator";
+import { applyLogicGates, type ConditionMark } from "@/lib/mql5-generator/logic-gates";
+import type { LogicExpression } from "@/lib/mql5-generator/types";
+import {
+  adx,
+  appliedPrice,
+  atr,
+  bollinger,
+  cci,
+  macd,
+  movingAverage,
+  rsi,
+  stochastic,
+  type PriceSource,
+} from "./indicators";
+import { SimulationError, type OhlcBar } from "./types";
+
+// ============================================
+// Timeframes
+// ============================================
+
+export const TIMEFRAME_MINUTES: Record<Timeframe, number> = {
+  M1: 1,
+  M5: 5,
+  M15: 15,
+  M30: 30,
+  H1: 60,
+  H4: 240,
+  D1: 1440,
+  W1: 10080,
+  MN1: 43200,
+};
+
+const MINUTE_MS = 60_000;
+/** 1970-01-01 was a Thursday; MT5 weeks start on Sunday, three days later. */
+const FIRST_SUNDAY_MS = 3 * 1440 * MINUTE_MS;
+
+export interface TimeframeView {
+  bars: OhlcBar[];
+  /** For each chart bar, the index of the bar in `bars` that contains it. */
+  index: Int32Array;
+}
+
+function bucketOf(time: number, minutes: number): number {
+  if (minutes >= TIMEFRAME_MINUTES.MN1) {
+    const d = new Date(time);
+    return d.getUTCFullYear() * 12 + d.getUTCMonth();
+  }
+  if (minutes === TIMEFRAME_MINUTES.W1) {
+    return Math.floor((time - FIRST_SUNDAY_MS) / (minutes * MINUTE_MS));
+  }
+  return Math.floor(time / (minutes * MINUTE_MS));
+}
+
+/** Aggregate chart bars into a higher timeframe, keeping a chart→HTF index map. */
+export function resampleBars(bars: OhlcBar[], minutes: number): TimeframeView {
+  const out: OhlcBar[] = [];
+  const index = new Int32Array(bars.length);
+  let currentBucket: number | null = null;
+  for (let i = 0; i < bars.length; i++) {
+    const b = bars[i];
+    const bucket = bucketOf(b.time, minutes);
+    if (bucket !== currentBucket) {
+      out.push({ ...b });
+      currentBucket = bucket;
+    } else {
+      const agg = out[out.length - 1];
+      agg.high = Math.max(agg.high, b.high);
+      agg.low = Math.min(agg.low, b.low);
+      agg.close = b.close;
+      agg.tickVolume += b.tickVolume;
+      agg.spread = b.spread;
+    }
+    index[i] = out.length - 1;
+  }
+  return { bars: out, index };
+}
+
+/** Smallest gap between consecutive bars, in minutes. */
+export function inferChartMinutes(bars: OhlcBar[]): number {
+  let min = Infinity;
+  for (let i = 1; i < bars.length; i++) {
+    min = Math.min(min, bars[i].time - bars[i - 1].time);
+  }
+  return Number.isFinite(min) ? Math.max(1, Math.round(min / MINUTE_MS)) : 1;
+}
+
+export function timeframeLabel(minutes: number): string {
+  const match = (Object.keys(TIMEFRAME_MINUTES) as Timeframe[]).find(
+    (tf) => TIMEFRAME_MINUTES[tf] === minutes
+  );
+  return match ?? `M${minutes}`;
+}
+
+// ============================================
+// Compiled strategy
+// ============================================
+
+export type Side = "buy" | "sell";
+type BarRule = (t: number) => boolean;
+type BarValue = (t: number) => number;
+
+export interface SizingRule {
+  method: "FIXED_LOT" | "RISK_PERCENT";
+  fixedLot: number;
+  riskPercent: number;
+  minLot: number;
+  maxLot: number;
+}
+
+export interface CompiledStrategy {
+  hasBuy: boolean;
+  hasSell: boolean;
+  buySizing: SizingRule | null;
+  sellSizing: SizingRule | null;
+  buySignal: BarRule;
+  sellSignal: BarRule;
+  closeBuySignal: BarRule;
+  closeSellSignal: BarRule;
+  /** Stop distance in price units at bar t (0 = no stop). */
+  stopDistance: (t: number, side: Side, entryPrice: number) => number;
+  /** Take-profit distance in price units at bar t (0 = no target). */
+  takeDistance: (t: number, stopDistance: number) => number;
+  isTradingTime: (time: number) => boolean;
+  /** Lot multiplier of the timing windows and risk rules at `time` (0 = no new entries). */
+  riskScale: (time: number) => number;
+  closeOnSessionEnd: boolean;
+  /** True when filters block new activity at bar t (spread, volatility, volume). */
+  isFiltered: BarRule;
+  /** True when the Friday close window is active at `time`. */
+  isFridayClose: (time: number) => boolean;
+  /** Max holding time in ms, or null when no time-exit node is connected. */
+  timeExitMs: number | null;
+  /** ATR of the closed chart bar `i`, for ATR-based trade management. */
+  chartAtr: (period: number, i: number) => number;
+  managementNodes: BuilderNode[];
+  warnings: string[];
+}
+
+export interface CompileEnv {
+  bars: OhlcBar[];
+  chartMinutes: number;
+  point: number;
+  pipFactor: number;
+  spreadPoints: (t: number) => number;
+}
+
+const INDICATOR_TYPES = new Set([
+  "moving-average",
+  "rsi",
+  "macd",
+  "bollinger-bands",
+  "atr",
+  "adx",
+  "stochastic",
+  "cci",
+  "ichimoku",
+  "custom-indicator",
+  "obv",
+  "vwap",
+  "bb-squeeze",
+]);
+const SUPPORTED_INDICATORS = new Set([
+  "moving-average",
+  "rsi",
+  "macd",
+  "bollinger-bands",
+  "atr",
+  "adx",
+  "stochastic",
+  "cci",
+  "condition",
+]);
+const MANAGEMENT_TYPES = new Set([
+  "breakeven-stop",
+  "trailing-stop",
+  "partial-close",
+  "lock-profit",
+  "multi-level-tp",
+]);
+const PRICE_ACTION_TYPES = new Set([
+  "candlestick-pattern",
+  "support-resistance",
+  "range-breakout",
+  "order-block",
+  "fair-value-gap",
+  "market-structure",
+  "liquidity-sweep",
+  "equal-highs-lows",
+  "pivot-points",
+]);
+const SUPPORTED_SL: ReadonlySet<StopLossMethod> = new Set(["FIXED_PIPS", "PERCENT", "ATR_BASED"]);
+const SUPPORTED_TP: ReadonlySet<TakeProfitMethod> = new Set([
+  "FIXED_PIPS",
+  "RISK_REWARD",
+  "ATR_BASED",
+]);
+
+type Buffers = Record<string, number[]>;
+
+interface IndicatorView {
+  node: BuilderNode;
+  tf: TimeframeView;
+  buffers: Buffers;
+  /** Indicator line shift (MA/BB "shift" field), in bars of the indicator timeframe. */
+  lineShift: number;
+}
+
+function tradingTypeOf(node: BuilderNode): string | undefined {
+  const d = node.data as Record<string, unknown>;
+  return (d.tradingType as string | undefined) ?? undefined;
+}
+
+function minutesOfDay(time: number): number {
+  const d = new Date(time);
+  return d.getUTCHours() * 60 + d.getUTCMinutes();
+}
+
+function dayOfWeek(time: number): number {
+  return new Date(time).getUTCDay();
+}
+
+const DAY_INDEX: Record<keyof TradingDays, number> = {
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+const WEEKDAYS: TradingDays = {
+  monday: true,
+  tuesday: true,
+  wednesday: true,
+  thursday: true,
+  friday: true,
+  saturday: false,
+  sunday: false,
+};
+
+function activeDays(days: TradingDays | undefined): Set<number> {
+  return new Set(
+    Object.entries(days ?? WEEKDAYS)
+      .filter(([, on]) => on)
+      .map(([day]) => DAY_INDEX[day as keyof TradingDays])
+  );
+}
+
+function inWindow(
+  time: number,
+  startMinutes: number,
+  endMinutes: number,
+  days: Set<number>
+): boolean {
+  const minutes = minutesOfDay(time);
+  const dow = dayOfWeek(time);
+  if (endMinutes > startMinutes) {
+    return days.has(dow) && minutes >= startMinutes && minutes < endMinutes;
+  }
+  // Overnight window: evening part belongs to today, early-morning part to the previous day
+  if (minutes >= startMinutes) return days.has(dow);
+  if (minutes < endMinutes) return days.size === 7 || days.has((dow + 6) % 7);
+  return false;
+}
+
+/** Mirrors generateRiskScaleCode: an end at or before the start runs into the next morning. */
+function riskRuleMatches(rule: RiskScaleRule, time: number): boolean {
+  const minutes = minutesOfDay(time);
+  const dow = dayOfWeek(time);
+  const start = rule.startHour * 60 + rule.startMinute;
+  const end = rule.endHour * 60 + rule.endMinute;
+  const day = rule.day === "everyday" ? null : DAY_INDEX[rule.day];
+  if (end > start) return (day === null || dow === day) && minutes >= start && minutes < end;
+  if (minutes >= start) return day === null || dow === day;
+  return minutes < end && (day === null || dow === (day + 1) % 7);
+}
+
+function timingRule(node: BuilderNode): (time: number) => boolean {
+  const d = node.data as Record<string, unknown>;
+  const timingType = (d.timingType as string | undefined) ?? node.type;
+  if (timingType === "always") return () => true;
+
+  if (timingType === "custom-times") {
+    const data = node.data as CustomTimesNodeData;
+    const days = activeDays(data.days);
+    const slots = data.timeSlots ?? [];
+    return (time) => {
+      if (slots.length === 0) return days.has(dayOfWeek(time));
+      return slots.some((s) =>
+        inWindow(time, s.startHour * 60 + s.startMinute, s.endHour * 60 + s.endMinute, days)
+      );
+    };
+  }
+
+  const data = node.data as TradingSessionNodeData;
+  const info = SESSION_TIMES[data.session] ?? SESSION_TIMES.LONDON;
+  const isCustom = data.session === "CUSTOM";
+  const start = isCustom
+    ? (data.customStartHour ?? 8) * 60 + (data.customStartMinute ?? 0)
+    : Number(info.start.split(":")[0]) * 60 + Number(info.start.split(":")[1]);
+  const end = isCustom
+    ? (data.customEndHour ?? 17) * 60 + (data.customEndMinute ?? 0)
+    : Number(info.end.split(":")[0]) * 60 + Number(info.end.split(":")[1]);
+  const days = activeDays(data.tradingDays);
+  return (time) => inWindow(time, start, end, days);
+}
+
+/**
+ * Compile a build into per-bar rules. Throws SimulationError when the build contains
+ * nodes that cannot be simulated bar-by-bar.
+ */
+export function compileStrategy(buildJson: BuildJsonSchema, env: CompileEnv): CompiledStrategy {
+  const warnings: string[] = [];
+  let nodes = buildJson.nodes;
+  let edges: BuilderEdge[] = buildJson.edges;
+  let entryLogic: LogicExpression[] = [];
+  const decomposed = decomposeEntryStrategyNodes(nodes, edges);
+  if (decomposed) {
+    nodes = decomposed.nodes;
+    edges = decomposed.edges;
+    entryLogic = decomposed.entryLogic;
+  }
+
+  // Same reachability rule as the generator: timing nodes start the graph
+  const connectedIds = getConnectedNodeIds(nodes, edges, ["trading-session", "custom-times"]);
+  const isConnected = (n: BuilderNode) => connectedIds.size === 0 || connectedIds.has(n.id);
+
+  const indicatorNodes: BuilderNode[] = [];
+  const timingNodes: BuilderNode[] = [];
+  const filterNodes: BuilderNode[] = [];
+  const managementNodes: BuilderNode[] = [];
+  const buyNodes: BuilderNode[] = [];
+  const sellNodes: BuilderNode[] = [];
+  const closeNodes: BuilderNode[] = [];
+  const stopLossNodes: BuilderNode[] = [];
+  const takeProfitNodes: BuilderNode[] = [];
+  const timeExitNodes: BuilderNode[] = [];
+  const unsupported: string[] = [];
+
+  for (const n of nodes) {
+    const type = n.type as string;
+    const d = n.data as Record<string, unknown>;
+    if (type === "max-spread" || "filterType" in d) {
+      filterNodes.push(n);
+      continue;
+    }
+    if (type === "trading-session" || type === "custom-times" || "timingType" in d) {
+      timingNodes.push(n);
+      continue;
+    }
+    if (!isConnected(n)) continue;
+
+    if (INDICATOR_TYPES.has(type) || "indicatorType" in d) {
+      const indType = (d.indicatorType as string | undefined) ?? type;
+      if (!SUPPORTED_INDICATORS.has(indType)) unsupported.push(indType);
+      else if (d._divergenceMode) unsupported.push(`${indType} divergence`);
+      else if (d._entryStrategyType === "fibonacci-entry") unsupported.push("fibonacci entry");
+      else if (d._entryStrategyType === "pivot-point-entry") unsupported.push("pivot point entry");
+      indicatorNodes.push(n);
+    } else if (PRICE_ACTION_TYPES.has(type) || "priceActionType" in d) {
+      unsupported.push((d.priceActionType as string | undefined) ?? type);
+    } else if (MANAGEMENT_TYPES.has(type) || "managementType" in d || "tradeManagementType" in d) {
+      managementNodes.push(n);
+    } else {
+      switch (tradingTypeOf(n) ?? type) {
+        case "grid-pyramid":
+          unsupported.push("grid-pyramid");
+          break;
+        case "place-buy":
+          buyNodes.push(n);
+          break;
+        case "place-sell":
+          sellNodes.push(n);
+          break;
+        case "close-condition":
+          closeNodes.push(n);
+          break;
+        case "stop-loss":
+          stopLossNodes.push(n);
+          break;
+        case "take-profit":
+          takeProfitNodes.push(n);
+          break;
+        case "time-exit":
+          timeExitNodes.push(n);
+          break;
+      }
+    }
+  }
+
+  for (const n of [...buyNodes, ...sellNodes]) {
+    const orderType = (n.data as PlaceBuyNodeData).orderType ?? "MARKET";
+    if (orderType !== "MARKET") unsupported.push(`${orderType} orders`);
+  }
+  if (buildJson.settings?.multiPair?.enabled) unsupported.push("multi-pair mode");
+  // The EA's virtual trade curve would pause entries the simulator keeps taking
+  if ((buildJson.settings?.equityCurveMaPeriod ?? 0) > 0) unsupported.push("equity curve filter");
+  if (unsupported.length > 0) {
+    throw new SimulationError(
+      `Cannot simulate this strategy: unsupported ${[...new Set(unsupported)].join(", ")}`
+    );
+  }
+
+  const { bars, chartMinutes, point, pipFactor } = env;
+  const pip = point * pipFactor;
+
+  // --- Timeframe views (cached per timeframe) ---
+  const chartView: TimeframeView = {
+    bars,
+    index: Int32Array.from(bars, (_, i) => i),
+  };
+  const tfCache = new Map<number, TimeframeView>();
+  const lowerTfWarned = new Set<string>();
+  const viewFor = (tf: Timeframe | undefined): TimeframeView => {
+    const minutes = tf ? (TIMEFRAME_MINUTES[tf] ?? chartMinutes) : chartMinutes;
+    if (minutes <= chartMinutes) {
+      if (minutes < chartMinutes && tf && !lowerTfWarned.has(tf)) {
+        lowerTfWarned.add(tf);
+        warnings.push(
+          `${tf} is below the data timeframe (${timeframeLabel(chartMinutes)}); chart bars were used instead`
+        );
+      }
+      return chartView;
+    }
+    let view = tfCache.get(minutes);
+    if (!view) {
+      view = resampleBars(bars, minutes);
+      tfCache.set(minutes, view);
+    }
+    return view;
+  };
+
+  const atrCache = new Map<TimeframeView, Map<number, number[]>>();
+  const atrSeries = (view: TimeframeView, period: number): number[] => {
+    let byPeriod = atrCache.get(view);
+    if (!byPeriod) {
+      byPeriod = new Map();
+      atrCache.set(view, byPeriod);
+    }
+    let series = byPeriod.get(period);
+    if (!series) {
+      series = atr(view.bars, period);
+      byPeriod.set(period, series);
+    }
+    return series;
+  };
+  /** Last closed ATR value at chart bar t. */
+  const atrAt = (tf: Timeframe | undefined, period: number, t: number): number => {
+    const view = viewFor(tf);
+    const idx = view.index[t] - 1;
+    return idx >= 0 ? atrSeries(view, period)[idx] : NaN;
+  };
+
+  // --- Indicator buffers ---
+  let everyTickWarned = false;
+  const views: IndicatorView[] = indicatorNodes.map((node) => {
+    const d = node.data as Record<string, unknown>;
+    if (!everyTickWarned && d.indicatorType !== "condition" && d.signalMode !== "candle_close") {
+      everyTickWarned = true;
+      warnings.push(
+        "Signals are evaluated on closed bars only; every-tick nodes use candle-close offsets"
+      );
+    }
+    const tf = viewFor(d.timeframe as Timeframe | undefined);
+    const tfBars = tf.bars;
+    const price = (src: unknown, fallback: PriceSource = "CLOSE") =>
+      appliedPrice(tfBars, (src as PriceSource | undefined) ?? fallback);
+    let buffers: Buffers = {};
+    let lineShift = 0;
+    switch (d.indicatorType) {
+      case "moving-average": {
+        const m = node.data as MovingAverageNodeData;
+        buffers = {
+          Buffer: movingAverage(price(m.appliedPrice), m.period, m.method ?? "SMA"),
+        };
+        lineShift = m.shift ?? 0;
+        break;
+      }
+      case "rsi": {
+        const r = node.data as RSINodeData;
+        buffers = { Buffer: rsi(price(r.appliedPrice), r.period) };
+        break;
+      }
+      case "macd": {
+        const m = node.data as MACDNodeData;
+        const series = macd(price(m.appliedPrice), m.fastPeriod, m.slowPeriod, m.signalPeriod);
+        buffers = { Main: series.main, Signal: series.signal };
+        break;
+      }
+      case "bollinger-bands": {
+        const b = node.data as BollingerBandsNodeData;
+        const series = bollinger(price(b.appliedPrice), b.period, b.deviation);
+        buffers = { Upper: series.upper, Middle: series.middle, Lower: series.lower };
+        lineShift = b.shift ?? 0;
+        break;
+      }
+      case "atr":
+        buffers = { Buffer: atrSeries(tf, (d.period as number) ?? 14) };
+        break;
+      case "adx": {
+        const a = node.data as ADXNodeData;
+        const series = adx(tfBars, a.period);
+        buffers = { Main: series.main, PlusDI: series.plusDi, MinusDI: series.minusDi };
+        break;
+      }
+      case "stochastic": {
+        const s = node.data as StochasticNodeData;
+        const series = stochastic(
+          tfBars,
+          s.kPeriod,
+          s.dPeriod,
+          s.slowing,
+          s.maMethod ?? "SMA",
+          s.priceField ?? "LOWHIGH"
+        );
+        buffers = { Main: series.main, Signal: series.signal };
+        break;
+      }
+      case "cci": {
+        const c = node.data as CCINodeData;
+        buffers = { Buffer: cci(tfBars, c.period, c.appliedPrice ?? "TYPICAL") };
+        break;
+      }
+    }
+    return { node, tf, buffers, lineShift };
+  });
+
+  /** Buffer value `k` bars back on the indicator's own timeframe (MQL series indexing). */
+  const val = (v: IndicatorView, buffer: string, k: number, t: number): number => {
+    const idx = v.tf.index[t] - k - v.lineShift;
+    const series = v.buffers[buffer];
+    return series && idx >= 0 ? series[idx] : NaN;
+  };
+  const close = (k: number, t: number) => (t - k >= 0 ? bars[t - k].close : NaN);
+  const high = (k: number, t: number) => (t - k >= 0 ? bars[t - k].high : NaN);
+  const low = (k: number, t: number) => (t - k >= 0 ? bars[t - k].low : NaN);
+
+  // --- Entry conditions (mirrors generateEntryLogic with candle_close offsets) ---
+  const buyRules: BarRule[] = [];
+  const sellRules: BarRule[] = [];
+
+  /** Condition node comparison of a against b; sell mirrors the operator (generator's conditionComparison). */
+  const pushComparison = (
+    op: ConditionOperator,
+    aCur: BarValue,
+    aPrev: BarValue,
+    bCur: BarValue,
+    bPrev: BarValue
+  ): void => {
+    switch (op) {
+      case "GREATER_THAN":
+        buyRules.push((t) => aCur(t) > bCur(t));
+        sellRules.push((t) => aCur(t) < bCur(t));
+        break;
+      case "LESS_THAN":
+        buyRules.push((t) => aCur(t) < bCur(t));
+        sellRules.push((t) => aCur(t) > bCur(t));
+        break;
+      case "GREATER_EQUAL":
+        buyRules.push((t) => aCur(t) >= bCur(t));
+        sellRules.push((t) => aCur(t) <= bCur(t));
+        break;
+      case "LESS_EQUAL":
+        buyRules.push((t) => aCur(t) <= bCur(t));
+        sellRules.push((t) => aCur(t) >= bCur(t));
+        break;
+      case "EQUAL": {
+        const eq = (t: number) => Math.abs(aCur(t) - bCur(t)) < 1e-8;
+        buyRules.push(eq);
+        sellRules.push(eq);
+        break;
+      }
+      case "CROSSES_ABOVE":
+        buyRules.push((t) => aPrev(t) <= bPrev(t) && aCur(t) > bCur(t));
+        sellRules.push((t) => aPrev(t) >= bPrev(t) && aCur(t) < bCur(t));
+        break;
+      case "CROSSES_BELOW":
+        buyRules.push((t) => aPrev(t) >= bPrev(t) && aCur(t) < bCur(t));
+        sellRules.push((t) => aPrev(t) <= bPrev(t) && aCur(t) > bCur(t));
+        break;
+    }
+  };
+
+  /**
+   * Reader of one condition operand: value `shift` bars back on the operand's
+   * timeframe, from the bar containing chart bar t - chartBar. Bars that have not
+   * closed at t read the last closed bar instead, like every other simulated signal.
+   */
+  const operandReader = (
+    node: BuilderNode,
+    id: ConditionOperandId
+  ): ((chartBar: number, t: number) => number) | null => {
+    const cond = node.data as ConditionNodeData;
+    const operand = (id === "A" ? cond.operandA : cond.operandB) ?? DEFAULT_CONDITION_OPERAND;
+    const shift = Math.max(0, Math.floor(Number(operand.shift) || 0));
+    const closedIndex = (tf: TimeframeView, chartBar: number, t: number): number =>
+      t - chartBar >= 0 ? Math.min(tf.index[t - chartBar] - shift, tf.index[t] - 1) : -1;
+
+    if (operand.source === "PRICE") {
+      const tf = viewFor(operand.timeframe);
+      const field = (operand.priceField ?? "CLOSE").toLowerCase() as
+        | "open"
+        | "high"
+        | "low"
+        | "close";
+      return (chartBar, t) => {
+        const idx = closedIndex(tf, chartBar, t);
+        return idx >= 0 ? tf.bars[idx][field] : NaN;
+      };
+    }
+
+    const sourceId = getConditionOperandSourceId(node.id, id, edges);
+    const src = views.find((o) => o.node.id === sourceId);
+    if (!src) return null;
+    const srcType = (src.node.data as Record<string, unknown>).indicatorType as string;
+    const name = operand.buffer ?? INDICATOR_OUTPUT_BUFFERS[srcType]?.[0] ?? "Main";
+    const series = src.buffers[name] ?? (name === "Main" ? src.buffers.Buffer : undefined);
+    if (!series) return null;
+    return (chartBar, t) => {
+      const idx = closedIndex(src.tf, chartBar, t) - src.lineShift;
+      return idx >= 0 ? series[idx] : NaN;
+    };
+  };
+  const handled = new Set<number>();
+  // Where each node's rules start, so logic gates can pick them out
+  const buyMarks: ConditionMark[] = [];
+  const sellMarks: ConditionMark[] = [];
+  const mark = (nodeId: string): void => {
+    buyMarks.push({ nodeId, start: buyRules.length });
+    sellMarks.push({ nodeId, start: sellRules.length });
+  };
+
+  const crossGroups = new Map<string, { fast?: number; slow?: number; minSep?: number }>();
+  views.forEach((v, i) => {
+    const d = v.node.data as Record<string, unknown>;
+    if (d._entryStrategyType !== "ema-crossover" || !d._entryStrategyId) return;
+    const key = d._entryStrategyId as string;
+    const group = crossGroups.get(key) ?? {};
+    if (d._role === "fast") {
+      group.fast = i;
+      group.minSep = Number(d._minEmaSeparation) || 0;
+    }
+    if (d._role === "slow") group.slow = i;
+    crossGroups.set(key, group);
+  });
+  for (const group of crossGroups.values()) {
+    if (group.fast === undefined || group.slow === undefined) continue;
+    const f = views[group.fast];
+    const s = views[group.slow];
+    const minSep = group.minSep ?? 0;
+    const separated = (t: number) =>
+      minSep <= 0 || Math.abs(val(f, "Buffer", 2, t) - val(s, "Buffer", 2, t)) / pip >= minSep;
+    mark(f.node.id);
+    buyRules.push(
+      (t) =>
+        val(f, "Buffer", 3, t) <= val(s, "Buffer", 3, t) &&
+        val(f, "Buffer", 2, t) > val(s, "Buffer", 2, t) &&
+        separated(t)
+    );
+    sellRules.push(
+      (t) =>
+        val(f, "Buffer", 3, t) >= val(s, "Buffer", 3, t) &&
+        val(f, "Buffer", 2, t) < val(s, "Buffer", 2, t) &&
+        separated(t)
+    );
+    handled.add(group.fast);
+    handled.add(group.slow);
+  }
+
+  views.forEach((v, i) => {
+    const d = v.node.data as Record<string, unknown>;
+    if (d._filterRole) mark(v.node.id);
+    if (d._filterRole === "htf-trend") {
+      buyRules.push((t) => close(1, t) > val(v, "Buffer", 1, t));
+      sellRules.push((t) => close(1, t) < val(v, "Buffer", 1, t));
+      handled.add(i);
+    } else if (d._filterRole === "rsi-confirm") {
+      const ob = d.overboughtLevel as number;
+      const os = d.oversoldLevel as number;
+      buyRules.push((t) => val(v, "Buffer", 1, t) < ob);
+      sellRules.push((t) => val(v, "Buffer", 1, t) > os);
+      handled.add(i);
+    } else if (d._filterRole === "adx-trend-strength") {
+      const level = d.trendLevel as number;
+      buyRules.push((t) => val(v, "Main", 1, t) > level);
+      sellRules.push((t) => val(v, "Main", 1, t) > level);
+      handled.add(i);
+    }
+  });
+
+  const crossUp = (v: IndicatorView, buf: string, level: number) => (t: number) =>
+    val(v, buf, 2, t) <= level && val(v, buf, 1, t) > level;
+  const crossDown = (v: IndicatorView, buf: string, level: number) => (t: number) =>
+    val(v, buf, 2, t) >= level && val(v, buf, 1, t) < level;
+
+  views.forEach((v, i) => {
+    if (handled.has(i)) return;
+    mark(v.node.id);
+    const d = v.node.data as Record<string, unknown>;
+    switch (d.indicatorType) {
+      case "moving-average": {
+        if (d._requireEmaBuffer) {
+          const maxDist = Number(d._pullbackMaxDistance || 2.0) / 100;
+          buyRules.push((t) => {
+            const ma = val(v, "Buffer", 2, t);
+            return close(2, t) > ma && (close(2, t) - ma) / ma < maxDist;
+          });
+          sellRules.push((t) => {
+            const ma = val(v, "Buffer", 2, t);
+            return close(2, t) < ma && (ma - close(2, t)) / ma < maxDist;
+          });
+        } else {
+          buyRules.push((t) => close(2, t) > val(v, "Buffer", 2, t));
+          sellRules.push((t) => close(2, t) < val(v, "Buffer", 2, t));
+        }
+        break;
+      }
+      case "rsi":
+      case "cci":
+        buyRules.push(crossUp(v, "Buffer", d.oversoldLevel as number));
+        sellRules.push(crossDown(v, "Buffer", d.overboughtLevel as number));
+        break;
+      case "stochastic":
+        buyRules.push(crossUp(v, "Main", d.oversoldLevel as number));
+        sellRules.push(crossDown(v, "Main", d.overboughtLevel as number));
+        break;
+      case "macd":
+        buyRules.push(
+          (t) =>
+            val(v, "Main", 2, t) <= val(v, "Signal", 2, t) &&
+            val(v, "Main", 1, t) > val(v, "Signal", 1, t)
+        );
+        sellRules.push(
+          (t) =>
+            val(v, "Main", 2, t) >= val(v, "Signal", 2, t) &&
+            val(v, "Main", 1, t) < val(v, "Signal", 1, t)
+        );
+        break;
+      case "bollinger-bands":
+        buyRules.push((t) => low(2, t) <= val(v, "Lower", 2, t));
+        sellRules.push((t) => high(2, t) >= val(v, "Upper", 2, t));
+        break;
+      case "atr": {
+        const rising = (t: number) => val(v, "Buffer", 1, t) > val(v, "Buffer", 2, t);
+        buyRules.push(rising);
+        sellRules.push(rising);
+        break;
+      }
+      case "adx": {
+        const level = d.trendLevel as number;
+        buyRules.push(
+          (t) => val(v, "Main", 1, t) > level && val(v, "PlusDI", 1, t) > val(v, "MinusDI", 1, t)
+        );
+        sellRules.push(
+          (t) => val(v, "Main", 1, t) > level && val(v, "MinusDI", 1, t) > val(v, "PlusDI", 1, t)
+        );
+        break;
+      }
+      case "condition": {
+        const cond = v.node.data as ConditionNodeData;
+        if (cond.compareTo === "OPERAND") {
+          const a = operandReader(v.node, "A");
+          const b = operandReader(v.node, "B");
+          if (!a || !b) break;
+          pushComparison(
+            cond.conditionType,
+            (t) => a(0, t),
+            (t) => a(1, t),
+            (t) => b(0, t),
+            (t) => b(1, t)
+          );
+          break;
+        }
+        const edge = edges.find((e) => e.target === v.node.id);
+        const src = edge ? views.find((o) => o.node.id === edge.source) : undefined;
+        if (!src) break;
+        const srcType = (src.node.data as Record<string, unknown>).indicatorType;
+        const buf =
+          srcType === "macd" || srcType === "adx" || srcType === "stochastic"
+            ? "Main"
+            : srcType === "bollinger-bands"
+              ? "Middle"
+              : "Buffer";
+        const x = cond.threshold;
+        pushComparison(
+          cond.conditionType,
+          (t) => val(src, buf, 1, t),
+          (t) => val(src, buf, 2, t),
+          () => x,
+          () => x
+        );
+        break;
+      }
+    }
+  });
+
+  const orMode = (buildJson.settings?.conditionMode ?? "AND") === "OR";
+  // The EA skips entry logic until every indicator buffer has data. Rules on missing
+  // values are false by NaN comparison, so only an inverted rule needs the explicit check.
+  const warmedUp = (t: number) =>
+    views.every((v) => Object.keys(v.buffers).every((b) => Number.isFinite(val(v, b, 2, t))));
+  const gateRule = (op: LogicGateType, operands: BarRule[]): BarRule => {
+    if (op === "NOT") return (t) => warmedUp(t) && !operands[0](t);
+    return op === "AND" ? (t) => operands.every((r) => r(t)) : (t) => operands.some((r) => r(t));
+  };
+  const combine = (rules: BarRule[], marks: ConditionMark[]): BarRule => {
+    if (indicatorNodes.length === 0) return () => true;
+    if (entryLogic.length > 0) rules = applyLogicGates(rules, marks, entryLogic, gateRule);
+    if (rules.length === 0) return () => false;
+    return orMode ? (t) => rules.some((r) => r(t)) : (t) => rules.every((r) => r(t));
+  };
+
+  // --- Exit signals (mirrors generateCloseConditionCode) ---
+  const closeBuyRules: BarRule[] = [];
+  const closeSellRules: BarRule[] = [];
+  for (const closeNode of closeNodes) {
+    const dir = (closeNode.data as CloseConditionNodeData).closeDirection ?? "BOTH";
+    const linked = views.filter((v) =>
+      edges.some(
+        (e) =>
+          (e.target === closeNode.id && e.source === v.node.id) ||
+          (e.source === closeNode.id && e.target === v.node.id)
+      )
+    );
+    for (const v of linked) {
+      const d = v.node.data as Record<string, unknown>;
+      let cb: BarRule | null = null;
+      let cs: BarRule | null = null;
+      switch (d.indicatorType) {
+        case "moving-average":
+          cb = (t) => close(2, t) < val(v, "Buffer", 2, t);
+          cs = (t) => close(2, t) > val(v, "Buffer", 2, t);
+          break;
+        case "rsi":
+        case "cci": {
+          const ob = d.overboughtLevel as number;
+          const os = d.oversoldLevel as number;
+          cb = (t) => val(v, "Buffer", 2, t) < ob && val(v, "Buffer", 1, t) >= ob;
+          cs = (t) => val(v, "Buffer", 2, t) > os && val(v, "Buffer", 1, t) <= os;
+          break;
+        }
+        case "stochastic": {
+          const ob = d.overboughtLevel as number;
+          const os = d.oversoldLevel as number;
+          cb = (t) => val(v, "Main", 2, t) < ob && val(v, "Main", 1, t) >= ob;
+          cs = (t) => val(v, "Main", 2, t) > os && val(v, "Main", 1, t) <= os;
+          break;
+        }
+        case "macd":
+          cb = (t) =>
+            val(v, "Main", 2, t) >= val(v, "Signal", 2, t) &&
+            val(v, "Main", 1, t) < val(v, "Signal", 1, t);
+          cs = (t) =>
+            val(v, "Main", 2, t) <= val(v, "Signal", 2, t) &&
+            val(v, "Main", 1, t) > val(v, "Signal", 1, t);
+          break;
+        case "bollinger-bands":
+          cb = (t) => high(2, t) >= val(v, "Upper", 2, t);
+          cs = (t) => low(2, t) <= val(v, "Lower", 2, t);
+          break;
+        case "adx": {
+          const level = d.trendLevel as number;
+          cb = (t) => val(v, "Main", 1, t) < level;
+          cs = cb;
+          break;
+        }
+        case "atr":
+          cb = (t) => val(v, "Buffer", 1, t) < val(v, "Buffer", 2, t);
+          cs = cb;
+          break;
+      }
+      if (cb && (dir === "BUY" || dir === "BOTH")) closeBuyRules.push(cb);
+      if (cs && (dir === "SELL" || dir === "BOTH")) closeSellRules.push(cs);
+    }
+  }
+
+  // --- Stop loss / take profit ---
+  const slSource = (buyNodes[0] ?? sellNodes[0])?.data as Record<string, unknown> | undefined;
+  const slData = stopLossNodes[0]?.data as Record<string, unknown> | undefined;
+  const tpData = takeProfitNodes[0]?.data as Record<string, unknown> | undefined;
+  const sl = slData
+    ? {
+        method: slData.method as StopLossMethod,
+        pips: slData.fixedPips as number,
+        percent: slData.slPercent as number,
+        atrMult: slData.atrMultiplier as number,
+        atrPeriod: slData.atrPeriod as number,
+        atrTf: slData.atrTimeframe as Timeframe | undefined,
+      }
+    : slSource
+      ? {
+          method: slSource.slMethod as StopLossMethod,
+          pips: slSource.slFixedPips as number,
+          percent: slSource.slPercent as number,
+          atrMult: slSource.slAtrMultiplier as number,
+          atrPeriod: slSource.slAtrPeriod as number,
+          atrTf: slSource.slAtrTimeframe as Timeframe | undefined,
+        }
+      : null;
+  const tp = tpData
+    ? {
+        method: tpData.method as TakeProfitMethod,
+        pips: tpData.fixedPips as number,
+        rr: tpData.riskRewardRatio as number,
+        atrMult: tpData.atrMultiplier as number,
+        atrPeriod: tpData.atrPeriod as number,
+        multiple: tpData.multipleTPEnabled === true,
+      }
+    : slSource
+      ? {
+          method: slSource.tpMethod as TakeProfitMethod,
+          pips: slSource.tpFixedPips as number,
+          rr: slSource.tpRiskRewardRatio as number,
+          atrMult: slSource.tpAtrMultiplier as number,
+          atrPeriod: slSource.tpAtrPeriod as number,
+          multiple: slSource.tpMultipleTPEnabled === true,
+        }
+      : null;
+
+  if (sl?.method && !SUPPORTED_SL.has(sl.method)) {
+    throw new SimulationError(`Cannot simulate this strategy: unsupported ${sl.method} stop loss`);
+  }
+  if (tp?.multiple) {
+    throw new SimulationError("Cannot simulate this strategy: unsupported multiple take-profits");
+  }
+  if (tp?.method && !SUPPORTED_TP.has(tp.method)) {
+    throw new SimulationError(
+      `Cannot simulate this strategy: unsupported ${tp.method} take profit`
+    );
+  }
+
+  const stopDistance = (t: number, _side: Side, entryPrice: number): number => {
+    if (!sl?.method) return 0;
+    switch (sl.method) {
+      case "FIXED_PIPS":
+        return (sl.pips ?? 0) * pip;
+      case "PERCENT":
+        return (entryPrice * (sl.percent ?? 1)) / 100;
+      case "ATR_BASED": {
+        const a = atrAt(sl.atrTf, sl.atrPeriod ?? 14, t);
+        return Number.isFinite(a) ? Math.max(a * (sl.atrMult ?? 1.5), pip) : NaN;
+      }
+      default:
+        return 0;
+    }
+  };
+
+  const takeDistance = (t: number, stopDist: number): number => {
+    if (!tp?.method) return 0;
+    switch (tp.method) {
+      case "FIXED_PIPS":
+        return (tp.pips ?? 0) * pip;
+      case "RISK_REWARD":
+        return stopDist * (tp.rr ?? 2);
+      case "ATR_BASED": {
+        // The generator reuses the SL ATR handle when one exists
+        const a =
+          sl?.method === "ATR_BASED"
+            ? atrAt(sl.atrTf, sl.atrPeriod ?? 14, t)
+            : atrAt(undefined, tp.atrPeriod ?? 14, t);
+        return Number.isFinite(a) ? Math.max(a * (tp.atrMult ?? 2), pip) : NaN;
+      }
+      default:
+        return 0;
+    }
+  };
+
+  // --- Timing ---
+  const timingRules = timingNodes.map(timingRule);
+  const isTradingTime =
+    timingRules.length === 0 ? () => true : (time: number) => timingRules.some((r) => r(time));
+  // The lowest multiplier among the windows trading right now, times every matching rule
+  const riskWindows = timingNodes.map((n, i) => {
+    const d = n.data as Partial<TradingSessionNodeData | CustomTimesNodeData>;
+    return { active: timingRules[i], multiplier: d.riskMultiplier ?? 1, rules: d.riskRules ?? [] };
+  });
+  const riskScale = (time: number): number => {
+    let scale = 1;
+    if (riskWindows.length === 1) {
+      scale = riskWindows[0].multiplier;
+    } else {
+      const active = riskWindows.filter((w) => w.active(time)).map((w) => w.multiplier);
+      if (active.length > 0) scale = Math.min(...active);
+    }
+    for (const w of riskWindows) {
+      for (const rule of w.rules) if (riskRuleMatches(rule, time)) scale *= rule.multiplier;
+    }
+    return scale;
+  };
+  const closeOnSessionEnd = timingNodes.some(
+    (n) => (n.data as Record<string, unknown>).closeOnSessionEnd === true
+  );
+
+  // --- Filters ---
+  const filterRules: BarRule[] = [];
+  let fridayClose: ((time: number) => boolean) | null = null;
+  const byFilter = (type: string) =>
+    filterNodes.find((n) => (n.data as Record<string, unknown>).filterType === type);
+
+  const spreadNode = byFilter("max-spread");
+  if (spreadNode) {
+    const maxPips = ((spreadNode.data as Record<string, unknown>).maxSpreadPips as number) ?? 30;
+    filterRules.push((t) => env.spreadPoints(t) > maxPips * pipFactor);
+  }
+  const volNode = byFilter("volatility-filter");
+  if (volNode) {
+    const v = volNode.data as VolatilityFilterNodeData;
+    const minPips = v.minAtrPips ?? 0;
+    const maxPips = v.maxAtrPips ?? 50;
+    filterRules.push((t) => {
+      const a = atrAt(v.atrTimeframe ?? "H1", v.atrPeriod ?? 14, t);
+      if (!Number.isFinite(a)) return false;
+      const atrPips = a / pip;
+      return (minPips > 0 && atrPips < minPips) || (maxPips > 0 && atrPips > maxPips);
+    });
+  }
+  const volumeNode = byFilter("volume-filter");
+  if (volumeNode) {
+    const v = volumeNode.data as VolumeFilterNodeData;
+    const view = viewFor(v.timeframe ?? "H1");
+    const period = v.volumePeriod ?? 20;
+    const mult = v.volumeMultiplier ?? 1.5;
+    filterRules.push((t) => {
+      const cur = view.index[t];
+      if (cur - period - 1 < 0) return false;
+      let sum = 0;
+      for (let k = 2; k <= period + 1; k++) sum += view.bars[cur - k].tickVolume;
+      const threshold = (sum / period) * mult;
+      const vol = view.bars[cur - 1].tickVolume;
+      return v.filterMode === "BELOW_AVERAGE" ? vol > threshold : vol < threshold;
+    });
+  }
+  const fridayNode = byFilter("friday-close");
+  if (fridayNode) {
+    const f = fridayNode.data as FridayCloseFilterNodeData;
+    const cutoff = (f.closeHour ?? 17) * 60 + (f.closeMinute ?? 0);
+    fridayClose = (time) => dayOfWeek(time) === 5 && minutesOfDay(time) >= cutoff;
+  }
+  if (byFilter("news-filter")) {
+    warnings.push(
+      "News filter is not applied in simulation (no event calendar for the data range)"
+    );
+  }
+
+  // HTF bias: direction of the last closed higher-timeframe bar (mirrors generateHtfBiasCode)
+  const biasNode = byFilter("htf-bias");
+  const bias = biasNode?.data as HtfBiasNodeData | undefined;
+  let biasAt: (t: number) => number = () => 0;
+  if (bias) {
+    const view = viewFor(bias.timeframe ?? "D1");
+    const closes = view.bars.map((b) => b.close);
+    const at = (series: number[], k: number, t: number) => {
+      const idx = view.index[t] - k;
+      return idx >= 0 ? series[idx] : NaN;
+    };
+    // 0 when equal or either value is missing, like the EA before HTF data loads
+    const sign = (a: number, b: number) => (a > b ? 1 : a < b ? -1 : 0);
+    switch (bias.biasMethod ?? "PRICE_VS_MA") {
+      case "PRICE_VS_MA": {
+        const ma = movingAverage(closes, bias.period ?? 50, bias.maMethod ?? "EMA");
+        biasAt = (t) => sign(at(closes, 1, t), at(ma, 1, t));
+        break;
+      }
+      case "MA_SLOPE": {
+        const ma = movingAverage(closes, bias.period ?? 50, bias.maMethod ?? "EMA");
+        biasAt = (t) => sign(at(ma, 1, t), at(ma, 2, t));
+        break;
+      }
+      case "MACD": {
+        const main = macd(closes, bias.fastPeriod ?? 12, bias.slowPeriod ?? 26, 9).main;
+        biasAt = (t) => sign(at(main, 1, t), 0);
+        break;
+      }
+      case "ADX_DI": {
+        const series = adx(view.bars, bias.period ?? 50);
+        biasAt = (t) => sign(at(series.plusDi, 1, t), at(series.minusDi, 1, t));
+        break;
+      }
+    }
+  }
+  const buySignal = combine(buyRules, buyMarks);
+  const sellSignal = combine(sellRules, sellMarks);
+
+  const timeExit = timeExitNodes[0]?.data as TimeExitNodeData | undefined;
+
+  const sizingOf = (n: BuilderNode | undefined): SizingRule | null => {
+    if (!n) return null;
+    const d = n.data as PlaceBuyNodeData;
+    if (d.method !== "FIXED_LOT" && d.method !== "RISK_PERCENT") {
+      warnings.push(
+        `"${d.label}" sizes with ${d.method}, which is simulated as a fixed ${d.fixedLot ?? 0.1} lot`
+      );
+    }
+    return {
+      method: d.method === "RISK_PERCENT" ? "RISK_PERCENT" : "FIXED_LOT",
+      fixedLot: d.fixedLot ?? 0.1,
+      riskPercent: d.riskPercent ?? 1,
+      minLot: d.minLot ?? 0.01,
+      maxLot: d.maxLot ?? 100,
+    };
+  };
+
+  return {
+    hasBuy: buyNodes.length > 0,
+    hasSell: sellNodes.length > 0,
+    buySizing: sizingOf(buyNodes[0]),
+    sellSizing: sizingOf(sellNodes[0]),
+    buySignal: bias && bias.filterBuys !== false ? (t) => biasAt(t) > 0 && buySignal(t) : buySignal,
+    sellSignal:
+      bias && bias.filterSells !== false ? (t) => biasAt(t) < 0 && sellSignal(t) : sellSignal,
+    closeBuySignal: (t) => closeBuyRules.some((r) => r(t)),
+    closeSellSignal: (t) => closeSellRules.some((r) => r(t)),
+    stopDistance,
+    takeDistance,
+    isTradingTime,
+    riskScale,
+    closeOnSessionEnd,
+    isFiltered: (t) => filterRules.some((r) => r(t)),
+    isFridayClose: (time) => (fridayClose ? fridayClose(time) : false),
+    timeExitMs: timeExit
+      ? timeExit.exitAfterBars *
+        (TIMEFRAME_MINUTES[timeExit.exitTimeframe] ?? chartMinutes) *
+        MINUTE_MS
+      : null,
+    chartAtr: (period, i) => atrSeries(chartView, period)[i] ?? NaN,
+    managementNodes,
+    warnings,
+  };
+}
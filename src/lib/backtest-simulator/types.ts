@@ -0,0 +1,70 @@
+/**
+ * Types for the bar-by-bar strategy simulator.
+ *
+ * The simulator output deliberately reuses the backtest-parser types so a simulated
+ * run can be fed into computeHealthScore, runWalkForward and the verification
+ * pipeline exactly like an uploaded MT5 Strategy Tester report.
+ */
+
+import type { ParsedDeal, ParsedMetadata, ParsedMetrics } from "@/lib/backtest-parser/types";
+
+export interface OhlcBar {
+  /** Bar open time in epoch milliseconds (interpreted as broker server time). */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  tickVolume: number;
+  /** Spread in points, or null when the source file has no spread column. */
+  spread: number | null;
+}
+
+export interface OhlcParseResult {
+  bars: OhlcBar[];
+  /** Max decimals seen in the price columns — used to infer symbol digits. */
+  digits: number;
+  warnings: string[];
+}
+
+export interface SimulationOptions {
+  initialDeposit: number;
+  symbol?: string;
+  /** Symbol digits — pass OhlcParseResult.digits for CSV data. Defaults to 5. */
+  digits?: number;
+  /** Units per 1.0 lot. Defaults to 100,000 (standard FX lot). */
+  contractSize?: number;
+  /** Conversion rate from quote currency to account currency. Defaults to 1. */
+  quoteToAccountRate?: number;
+  /** Spread in points used when a bar carries no spread of its own. Defaults to 0. */
+  defaultSpreadPoints?: number;
+  /** Volume step used when rounding risk-based lot sizes. Defaults to 0.01. */
+  lotStep?: number;
+}
+
+export interface SimulationResult {
+  metadata: ParsedMetadata;
+  metrics: ParsedMetrics;
+  deals: ParsedDeal[];
+  warnings: string[];
+}
+
+export type ExitReason =
+  | "stop-loss"
+  | "take-profit"
+  | "partial-close"
+  | "multi-level-tp"
+  | "close-condition"
+  | "time-exit"
+  | "session-end"
+  | "friday-close"
+  | "risk-limit"
+  | "end-of-data";
+
+/** Thrown when a build cannot be simulated (unsupported node, invalid input data). */
+export class SimulationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SimulationError";
+  }
+}
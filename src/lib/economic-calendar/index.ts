@@ -0,0 +1,17 @@
+export {
+  parseEconomicCalendar,
+  detectCalendarFormat,
+  normalizeCurrency,
+  normalizeImpact,
+  isValidTimeZone,
+  CalendarParseError,
+  MAX_CALENDAR_EVENTS,
+} from "./parser";
+export type {
+  CalendarEvent,
+  CalendarFormat,
+  CalendarDateOrder,
+  CalendarImpact,
+  CalendarParseOptions,
+  ParsedCalendar,
+} from "./parser";
@@ -0,0 +1,65 @@
+/**
+ * Loads imported economic calendar events for EA export.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { ImportedNewsCalendar } from "@/lib/news-calendar";
+
+const DAY_MS = 86_400_000;
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Events from the user's own and the global calendar imports between `from` and `to`,
+ * with the ranges those imports cover per currency and impact level. Undefined when no
+ * import overlaps the period, so the generator falls back to the synthetic schedule.
+ */
+export async function loadImportedNewsCalendar(
+  userId: string,
+  from: Date,
+  to: Date
+): Promise<ImportedNewsCalendar | undefined> {
+  const imports = await prisma.economicCalendarImport.findMany({
+    where: {
+      OR: [{ userId }, { userId: null }],
+      coverageStart: { lte: to },
+      coverageEnd: { gte: from },
+    },
+    select: { id: true },
+  });
+  if (imports.length === 0) return undefined;
+
+  const importIds = imports.map((i) => i.id);
+  const [events, ranges] = await Promise.all([
+    prisma.economicEvent.findMany({
+      where: { importId: { in: importIds }, time: { gte: from, lte: to } },
+      orderBy: { time: "asc" },
+      select: { time: true, currency: true, impact: true },
+    }),
+    // Each import covers a currency and impact level from its first to its last release
+    prisma.economicEvent.groupBy({
+      by: ["importId", "currency", "impact"],
+      where: { importId: { in: importIds } },
+      _min: { time: true },
+      _max: { time: true },
+    }),
+  ]);
+
+  return {
+    events: events.map((e) => ({ time: e.time, currency: e.currency, importance: e.impact })),
+    coverage: ranges.flatMap((r) =>
+      r._min.time && r._max.time
+        ? [
+            {
+              currency: r.currency,
+              importance: r.impact,
+              start: startOfUtcDay(r._min.time),
+              end: new Date(startOfUtcDay(r._max.time).getTime() + DAY_MS - 1),
+            },
+          ]
+        : []
+    ),
+  };
+}
@@ -0,0 +1,217 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseEconomicCalendar,
+  CalendarParseError,
+  normalizeCurrency,
+  normalizeImpact,
+  detectCalendarFormat,
+} from "./parser";
+
+describe("normalizeCurrency / normalizeImpact", () => {
+  it("accepts currency codes and country names", () => {
+    expect(normalizeCurrency("usd")).toBe("USD");
+    expect(normalizeCurrency("Euro Zone")).toBe("EUR");
+    expect(normalizeCurrency("ALL")).toBeNull();
+  });
+
+  it("maps impact labels to the 1–3 scale", () => {
+    expect(normalizeImpact("High Impact Expected")).toBe(3);
+    expect(normalizeImpact("Medium")).toBe(2);
+    expect(normalizeImpact("***")).toBe(3);
+    expect(normalizeImpact("Low")).toBe(1);
+    expect(normalizeImpact("Holiday")).toBeNull();
+    expect(normalizeImpact("Non-Economic")).toBeNull();
+  });
+});
+
+describe("parseEconomicCalendar — CSV", () => {
+  it("parses a ForexFactory-style export with US dates and 12h times", () => {
+    const csv = [
+      "Title,Country,Date,Time,Impact,Forecast,Previous",
+      "Non-Farm Employment Change,USD,01-05-2024,1:30pm,High,170K,199K",
+      '"Unemployment Rate, s.a.",USD,01-05-2024,1:30pm,High,3.8%,3.7%',
+      "Bank Holiday,JPY,01-08-2024,All Day,Holiday,,",
+      "German Prelim CPI m/m,EUR,01-04-2024,8:00am,Medium,0.2%,-0.4%",
+    ].join("\n");
+
+    const parsed = parseEconomicCalendar(csv, "ff_calendar.csv");
+
+    expect(parsed.format).toBe("csv");
+    expect(parsed.events).toHaveLength(3);
+    expect(parsed.events[0]).toEqual({
+      time: new Date("2024-01-04T08:00:00Z"),
+      currency: "EUR",
+      impact: 2,
+      title: "German Prelim CPI m/m",
+    });
+    expect(parsed.events[2].title).toBe("Unemployment Rate, s.a.");
+    expect(parsed.coverageStart).toEqual(new Date("2024-01-04T00:00:00Z"));
+    expect(parsed.coverageEnd).toEqual(new Date("2024-01-05T23:59:59.999Z"));
+    expect(parsed.parseWarnings).toEqual([
+      "Every date could be day/month or month/day; they were read as month/day. Choose the date order at upload if the file uses day/month.",
+      "1 row(s) without a usable date and time (all-day, tentative) skipped",
+    ]);
+  });
+
+  it("reads semicolon-separated ISO dates, carries blank dates forward and applies the time zone", () => {
+    const csv = [
+      "Date;Time;Currency;Importance;Event",
+      "2024.03.20;14:00;USD;3;FOMC Statement",
+      ";14:30;USD;3;FOMC Press Conference",
+    ].join("\n");
+
+    const parsed = parseEconomicCalendar(csv, "calendar.csv", { timeZone: "America/New_York" });
+
+    expect(parsed.events.map((e) => e.time.toISOString())).toEqual([
+      "2024-03-20T18:00:00.000Z",
+      "2024-03-20T18:30:00.000Z",
+    ]);
+  });
+
+  it("takes zoned ISO datetimes as is", () => {
+    const csv = ["datetime,currency,impact,event", "2024-06-06T12:15:00Z,EUR,high,ECB Rate"].join(
+      "\n"
+    );
+    const parsed = parseEconomicCalendar(csv, undefined, { timeZone: "Europe/Berlin" });
+    expect(parsed.events[0].time).toEqual(new Date("2024-06-06T12:15:00Z"));
+  });
+
+  it("follows daylight saving changes of the time zone", () => {
+    const csv = [
+      "Date,Time,Currency,Impact",
+      "2024-01-05,08:30,USD,High",
+      "2024-03-08,08:30,USD,High",
+      "2024-03-11,08:30,USD,High",
+      "2024-07-05,08:30,USD,High",
+    ].join("\n");
+    const parsed = parseEconomicCalendar(csv, undefined, { timeZone: "America/New_York" });
+    expect(parsed.events.map((e) => e.time.toISOString())).toEqual([
+      "2024-01-05T13:30:00.000Z",
+      "2024-03-08T13:30:00.000Z",
+      "2024-03-11T12:30:00.000Z",
+      "2024-07-05T12:30:00.000Z",
+    ]);
+  });
+
+  it("detects day/month dates and honours an explicit date order", () => {
+    const dayFirst = [
+      "Date,Time,Currency,Impact",
+      "31/01/2024,10:00,EUR,High",
+      "05/02/2024,10:00,EUR,High",
+    ];
+    const detected = parseEconomicCalendar(dayFirst.join("\n"));
+    expect(detected.events.map((e) => e.time.toISOString())).toEqual([
+      "2024-01-31T10:00:00.000Z",
+      "2024-02-05T10:00:00.000Z",
+    ]);
+    expect(detected.parseWarnings).toEqual([]);
+
+    const ambiguous = ["Date,Time,Currency,Impact", "05/02/2024,10:00,EUR,High"].join("\n");
+    expect(parseEconomicCalendar(ambiguous).events[0].time).toEqual(
+      new Date("2024-05-02T10:00:00Z")
+    );
+    expect(
+      parseEconomicCalendar(ambiguous, undefined, { dateOrder: "DMY" }).events[0].time
+    ).toEqual(new Date("2024-02-05T10:00:00Z"));
+  });
+
+  it("rejects files that mix day/month and month/day dates", () => {
+    const csv = [
+      "Date,Time,Currency,Impact",
+      "31/01/2024,10:00,EUR,High",
+      "02/15/2024,10:00,EUR,High",
+    ];
+    expect(() => parseEconomicCalendar(csv.join("\n"))).toThrow(/mixes day\/month and month\/day/);
+  });
+
+  it("rejects files without the required columns", () => {
+    expect(() => parseEconomicCalendar("Date,Event\n2024-01-01,Test")).toThrow(
+      /Missing column\(s\): date and time, currency, impact/
+    );
+  });
+
+  it("rejects files where no row is usable", () => {
+    const csv = ["Date,Time,Currency,Impact", "2024-01-01,All Day,USD,Holiday"].join("\n");
+    expect(() => parseEconomicCalendar(csv)).toThrow(CalendarParseError);
+  });
+});
+
+describe("parseEconomicCalendar — ICS", () => {
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    "DTSTART:20240112T133000Z",
+    "SUMMARY:USD - Core CPI m/m",
+    "CATEGORIES:High Impact",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "DTSTART;TZID=Europe/London:20240117T070000",
+    "SUMMARY:[GBP] CPI y/y (Medium)",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "DTSTART:20240118T003000Z",
+    "SUMMARY:Employment Change",
+    "X-CURRENCY:AUD",
+    "PRIORITY:7",
+    "DESCRIPTION:Long description that is folded across",
+    "  two lines",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "DTSTART;VALUE=DATE:20240101",
+    "SUMMARY:USD - New Year's Day",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  it("detects iCalendar content regardless of file name", () => {
+    expect(detectCalendarFormat(ics, "export.txt")).toBe("ics");
+    expect(detectCalendarFormat("Date,Time", "calendar.ics")).toBe("ics");
+  });
+
+  it("reads currency and impact from properties, categories and summary markers", () => {
+    const parsed = parseEconomicCalendar(ics);
+
+    expect(parsed.format).toBe("ics");
+    expect(parsed.events).toEqual([
+      {
+        time: new Date("2024-01-12T13:30:00Z"),
+        currency: "USD",
+        impact: 3,
+        title: "Core CPI m/m",
+      },
+      { time: new Date("2024-01-17T07:00:00Z"), currency: "GBP", impact: 2, title: "CPI y/y" },
+      {
+        time: new Date("2024-01-18T00:30:00Z"),
+        currency: "AUD",
+        impact: 1,
+        title: "Employment Change",
+      },
+    ]);
+    expect(parsed.parseWarnings).toEqual(["1 all-day or undated event(s) skipped"]);
+  });
+
+  it("reads TZID times in the named zone and falls back to the upload zone for unknown ones", () => {
+    const zoned = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=America/New_York:20240705T083000",
+      "SUMMARY:USD - Non-Farm Employment Change (High)",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;TZID=Eastern Standard Time:20240705T083000",
+      "SUMMARY:USD - Unemployment Rate (High)",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const parsed = parseEconomicCalendar(zoned, undefined, { timeZone: "Europe/London" });
+    expect(parsed.events.map((e) => e.time.toISOString())).toEqual([
+      "2024-07-05T07:30:00.000Z",
+      "2024-07-05T12:30:00.000Z",
+    ]);
+    expect(parsed.parseWarnings).toEqual([
+      "Unknown time zone(s) Eastern Standard Time: those times were read in Europe/London",
+    ]);
+  });
+});
@@ -0,0 +1,678 @@
+/**
+ * Economic calendar import — parses CSV and iCalendar (ICS) exports into normalised events.
+ *
+ * CSV: header row required (case-insensitive, order-independent), comma, semicolon or tab
+ * separated. Recognised columns:
+ *   date + time, or a single datetime column
+ *   currency (or country)
+ *   impact (or importance / volatility)
+ *   event (or title / name)
+ * Dates: YYYY-MM-DD, YYYY.MM.DD, DD.MM.YYYY, or MM/DD/YYYY and DD/MM/YYYY (slashes or
+ * dashes). The order of slash dates is detected from days above 12 unless given at upload;
+ * files where every date is ambiguous are read in US order with a warning.
+ * Times: 24h "13:30" or 12h "1:30pm".
+ *
+ * ICS: one VEVENT per release. Currency from X-CURRENCY, CATEGORIES or a "USD"/"[USD]"
+ * summary prefix; impact from X-IMPACT, CATEGORIES, a "(High)" summary marker or PRIORITY.
+ *
+ * Times without an explicit zone are read in the IANA `timeZone` given at upload, so daylight
+ * saving changes are followed. ICS times with a TZID use that zone instead.
+ * All-day, tentative and non-economic (holiday) entries are skipped with a warning.
+ *
+ * Pure functions — no side effects, no DB calls.
+ */
+
+// ── Types ────────────────────────────────────────────────
+
+/** 1 = low, 2 = medium, 3 = high — the importance scale of the MQL5 calendar */
+export type CalendarImpact = 1 | 2 | 3;
+
+export type CalendarFormat = "csv" | "ics";
+
+export interface CalendarEvent {
+  /** Release time, UTC */
+  time: Date;
+  /** ISO 4217 code, e.g. "USD" */
+  currency: string;
+  impact: CalendarImpact;
+  title: string;
+}
+
+export interface ParsedCalendar {
+  format: CalendarFormat;
+  /** Sorted by time */
+  events: CalendarEvent[];
+  /** First covered day, 00:00 UTC */
+  coverageStart: Date;
+  /** Last covered day, 23:59:59.999 UTC */
+  coverageEnd: Date;
+  parseWarnings: string[];
+}
+
+/** Order of day and month in slash or dash dates such as 01/05/2024 */
+export type CalendarDateOrder = "MDY" | "DMY";
+
+export interface CalendarParseOptions {
+  /** IANA zone of times in the file that carry none, e.g. "America/New_York" (default UTC) */
+  timeZone?: string;
+  /** Order of slash and dash dates; detected from the file when omitted */
+  dateOrder?: CalendarDateOrder;
+}
+
+export class CalendarParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarParseError";
+  }
+}
+
+/** Guards against runaway files; a decade of every release is well below this */
+export const MAX_CALENDAR_EVENTS = 100_000;
+
+// ── Normalisation ────────────────────────────────────────
+
+const KNOWN_CURRENCIES = new Set([
+  "USD",
+  "EUR",
+  "GBP",
+  "JPY",
+  "CHF",
+  "CAD",
+  "AUD",
+  "NZD",
+  "CNY",
+  "HKD",
+  "SGD",
+  "SEK",
+  "NOK",
+  "DKK",
+  "PLN",
+  "CZK",
+  "HUF",
+  "TRY",
+  "ZAR",
+  "MXN",
+  "BRL",
+  "INR",
+  "KRW",
+  "RUB",
+]);
+
+/** Country names used by some calendar exports instead of currency codes */
+const COUNTRY_CURRENCIES: Record<string, string> = {
+  "united states": "USD",
+  us: "USD",
+  usa: "USD",
+  "euro zone": "EUR",
+  eurozone: "EUR",
+  "euro area": "EUR",
+  "european union": "EUR",
+  emu: "EUR",
+  germany: "EUR",
+  france: "EUR",
+  italy: "EUR",
+  spain: "EUR",
+  "united kingdom": "GBP",
+  uk: "GBP",
+  japan: "JPY",
+  switzerland: "CHF",
+  canada: "CAD",
+  australia: "AUD",
+  "new zealand": "NZD",
+  china: "CNY",
+};
+
+/** Currency code for a currency or country cell, or null if not recognised */
+export function normalizeCurrency(raw: string): string | null {
+  const value = raw.trim();
+  const code = value.toUpperCase();
+  if (KNOWN_CURRENCIES.has(code)) return code;
+  return COUNTRY_CURRENCIES[value.toLowerCase()] ?? null;
+}
+
+const IMPACT_WORDS: Record<string, CalendarImpact> = {
+  high: 3,
+  h: 3,
+  "3": 3,
+  red: 3,
+  "***": 3,
+  "★★★": 3,
+  medium: 2,
+  moderate: 2,
+  med: 2,
+  m: 2,
+  "2": 2,
+  orange: 2,
+  "**": 2,
+  "★★": 2,
+  low: 1,
+  l: 1,
+  "1": 1,
+  yellow: 1,
+  "*": 1,
+  "★": 1,
+};
+
+/**
+ * Impact level for an impact cell ("High", "High Impact Expected", "***", "2"), or null for
+ * holidays, non-economic entries and anything unrecognised.
+ */
+export function normalizeImpact(raw: string): CalendarImpact | null {
+  const value = raw
+    .trim()
+    .toLowerCase()
+    .replace(/\b(impact|expected|volatility|importance)\b/g, "")
+    .trim();
+  return IMPACT_WORDS[value] ?? null;
+}
+
+// ── Time zones ───────────────────────────────────────────
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** True for IANA zone names the runtime knows, e.g. "Europe/London" */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Milliseconds the zone is ahead of UTC at the given instant */
+function zoneOffsetMs(timeZone: string, instant: number): number {
+  const parts: Record<string, number> = {};
+  for (const p of zoneFormatter(timeZone).formatToParts(new Date(instant))) {
+    parts[p.type] = Number(p.value);
+  }
+  const wall = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/** UTC instant of a wall-clock time in `timeZone` (wall time given as a UTC timestamp) */
+function zonedToUtc(wall: number, timeZone: string): number {
+  if (timeZone === "UTC") return wall;
+  // Second pass settles times next to a daylight saving change
+  const guess = wall - zoneOffsetMs(timeZone, wall);
+  return wall - zoneOffsetMs(timeZone, guess);
+}
+
+// ── Dates ────────────────────────────────────────────────
+
+function utc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  // Reject rollovers such as 31 February
+  if (date.getUTCDate() !== day) return null;
+  return new Date(zonedToUtc(date.getTime(), timeZone));
+}
+
+const SLASH_DATE = /^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/;
+
+/** [year, month, day] for the supported date layouts */
+function parseDateParts(value: string, order: CalendarDateOrder): [number, number, number] | null {
+  let m = value.match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})$/);
+  if (m) return [Number(m[1]), Number(m[2]), Number(m[3])];
+  // Dots with the year last are European (DD.MM.YYYY)
+  m = value.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+  if (m) return [Number(m[3]), Number(m[2]), Number(m[1])];
+  m = value.match(SLASH_DATE);
+  if (m && order === "DMY") return [Number(m[3]), Number(m[2]), Number(m[1])];
+  if (m) return [Number(m[3]), Number(m[1]), Number(m[2])];
+  return null;
+}
+
+/**
+ * Order of the slash and dash dates in `values`: a first number above 12 means day first,
+ * a second number above 12 month first. Null when every date is ambiguous (or there are none).
+ */
+function detectDateOrder(values: string[]): CalendarDateOrder | null {
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const value of values) {
+    const m = value.trim().match(SLASH_DATE);
+    if (!m) continue;
+    if (Number(m[1]) > 12) dayFirst = true;
+    if (Number(m[2]) > 12) monthFirst = true;
+  }
+  if (dayFirst && monthFirst) {
+    throw new CalendarParseError(
+      "The file mixes day/month and month/day dates. Export it with one date format."
+    );
+  }
+  return dayFirst ? "DMY" : monthFirst ? "MDY" : null;
+}
+
+/** [hour, minute] for "13:30", "13:30:00" or "1:30pm" */
+function parseTimeParts(value: string): [number, number] | null {
+  const m = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*(am|pm)?$/);
+  if (!m) return null;
+  let hour = Number(m[1]);
+  if (m[3]) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (m[3] === "pm" ? 12 : 0);
+  }
+  return [hour, Number(m[2])];
+}
+
+interface DateReading {
+  timeZone: string;
+  order: CalendarDateOrder;
+}
+
+function parseDateTime(date: string, time: string, reading: DateReading): Date | null {
+  const d = parseDateParts(date.trim(), reading.order);
+  const t = parseTimeParts(time);
+  if (!d || !t) return null;
+  return utc(d[0], d[1], d[2], t[0], t[1], reading.timeZone);
+}
+
+/** Single-cell datetimes: ISO 8601 with a zone is taken as is, anything else as local */
+function parseCombinedDateTime(value: string, reading: DateReading): Date | null {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  const m = trimmed.match(/^(\S+)[T\s]+(.+)$/);
+  return m ? parseDateTime(m[1], m[2], reading) : null;
+}
+
+// ── CSV ──────────────────────────────────────────────────
+
+const CSV_COLUMNS: Record<string, keyof CsvColumns> = {
+  date: "date",
+  day: "date",
+  time: "time",
+  datetime: "datetime",
+  "date/time": "datetime",
+  "date time": "datetime",
+  timestamp: "datetime",
+  currency: "currency",
+  cur: "currency",
+  "cur.": "currency",
+  country: "currency",
+  impact: "impact",
+  importance: "impact",
+  volatility: "impact",
+  "imp.": "impact",
+  event: "title",
+  title: "title",
+  name: "title",
+  "event name": "title",
+  description: "title",
+};
+
+interface CsvColumns {
+  date: number;
+  time: number;
+  datetime: number;
+  currency: number;
+  impact: number;
+  title: number;
+}
+
+function detectDelimiter(header: string): string {
+  const counts = [",", ";", "\t"].map((d) => [d, header.split(d).length] as const);
+  return counts.reduce((best, c) => (c[1] > best[1] ? c : best))[0];
+}
+
+/** Split one CSV line, honouring double-quoted cells with "" escapes */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+function parseCsv(
+  content: string,
+  options: CalendarParseOptions,
+  warnings: string[]
+): CalendarEvent[] {
+  const lines = content.split(/\r?\n/).filter((l) => l.trim() !== "");
+  if (lines.length < 2) {
+    throw new CalendarParseError("The file has no event rows.");
+  }
+
+  const delimiter = detectDelimiter(lines[0]);
+  const columns: Partial<CsvColumns> = {};
+  splitCsvLine(lines[0], delimiter).forEach((name, i) => {
+    const key = CSV_COLUMNS[name.toLowerCase()];
+    if (key && columns[key] === undefined) columns[key] = i;
+  });
+
+  const hasTime =
+    columns.datetime !== undefined || (columns.date !== undefined && columns.time !== undefined);
+  const missing = [
+    !hasTime && "date and time",
+    columns.currency === undefined && "currency",
+    columns.impact === undefined && "impact",
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    throw new CalendarParseError(`Missing column(s): ${missing.join(", ")}.`);
+  }
+
+  const rows = lines.slice(1).map((line) => splitCsvLine(line, delimiter));
+  const dateColumn = columns.datetime ?? columns.date!;
+  let order = options.dateOrder;
+  if (!order) {
+    const dates = rows.map((cells) => (cells[dateColumn] ?? "").split(/[T\s]/)[0]);
+    const detected = detectDateOrder(dates);
+    order = detected ?? "MDY";
+    if (!detected && dates.some((d) => SLASH_DATE.test(d.trim()))) {
+      warnings.push(
+        "Every date could be day/month or month/day; they were read as month/day. Choose the date order at upload if the file uses day/month."
+      );
+    }
+  }
+  const reading: DateReading = { timeZone: options.timeZone ?? "UTC", order };
+
+  const events: CalendarEvent[] = [];
+  let noTime = 0;
+  let noCurrency = 0;
+  let noImpact = 0;
+  // Calendar exports often leave the date blank on rows after the first event of a day
+  let lastDate = "";
+
+  for (const cells of rows) {
+    const cell = (idx: number | undefined) => (idx === undefined ? "" : (cells[idx] ?? ""));
+
+    let time: Date | null;
+    if (columns.datetime !== undefined) {
+      time = parseCombinedDateTime(cell(columns.datetime), reading);
+    } else {
+      const date = cell(columns.date) || lastDate;
+      lastDate = date;
+      time = parseDateTime(date, cell(columns.time), reading);
+    }
+    if (!time) {
+      noTime++;
+      continue;
+    }
+
+    const currency = normalizeCurrency(cell(columns.currency));
+    if (!currency) {
+      noCurrency++;
+      continue;
+    }
+
+    const impact = normalizeImpact(cell(columns.impact));
+    if (!impact) {
+      noImpact++;
+      continue;
+    }
+
+    events.push({ time, currency, impact, title: cell(columns.title).slice(0, 200) });
+  }
+
+  if (noTime > 0) {
+    warnings.push(`${noTime} row(s) without a usable date and time (all-day, tentative) skipped`);
+  }
+  if (noCurrency > 0) warnings.push(`${noCurrency} row(s) with an unknown currency skipped`);
+  if (noImpact > 0) {
+    warnings.push(`${noImpact} row(s) without an impact level (holidays, speeches) skipped`);
+  }
+  return events;
+}
+
+// ── ICS ──────────────────────────────────────────────────
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Unfold continuation lines and split a calendar into VEVENT property maps */
+function readVEvents(content: string): Map<string, IcsProperty>[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: Map<string, IcsProperty>[] = [];
+  let current: Map<string, IcsProperty> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = new Map();
+      continue;
+    }
+    if (line === "END:VEVENT") {
+      if (current) events.push(current);
+      current = null;
+      continue;
+    }
+    if (!current) continue;
+
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const [name, ...paramParts] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, val = ""] = part.split("=");
+      params[key.toUpperCase()] = val;
+    }
+    current.set(name.toUpperCase(), { params, value: line.slice(colon + 1) });
+  }
+  return events;
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim();
+}
+
+/**
+ * DTSTART value → Date; null for all-day (DATE) values. UTC ("Z") and TZID times keep
+ * their zone, floating times use `timeZone`.
+ */
+function parseIcsDate(prop: IcsProperty, timeZone: string): Date | null {
+  if (prop.params.VALUE === "DATE") return null;
+  const m = prop.value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})\d{2}(Z?)$/);
+  if (!m) return null;
+  return utc(
+    Number(m[1]),
+    Number(m[2]),
+    Number(m[3]),
+    Number(m[4]),
+    Number(m[5]),
+    m[6] === "Z" ? "UTC" : timeZone
+  );
+}
+
+/** IANA zone named by a TZID parameter, or null when the runtime does not know it */
+function icsTimeZone(tzid: string): string | null {
+  const name = tzid.replace(/^"|"$/g, "");
+  return isValidTimeZone(name) ? name : null;
+}
+
+const SUMMARY_CURRENCY = /^\[?([A-Z]{3})\]?\s*[-:–|]?\s+/;
+const SUMMARY_IMPACT = /\((high|medium|low)(?: impact)?\)|\[(high|medium|low)(?: impact)?\]/i;
+
+/** RFC 5545 PRIORITY: 1–4 high, 5 medium, 6–9 low, 0 undefined */
+function priorityImpact(value: string | undefined): CalendarImpact | null {
+  const priority = Number(value);
+  if (!Number.isInteger(priority) || priority < 1 || priority > 9) return null;
+  return priority <= 4 ? 3 : priority === 5 ? 2 : 1;
+}
+
+function parseIcs(
+  content: string,
+  options: CalendarParseOptions,
+  warnings: string[]
+): CalendarEvent[] {
+  const vevents = readVEvents(content);
+  if (vevents.length === 0) {
+    throw new CalendarParseError("The calendar has no events.");
+  }
+
+  const events: CalendarEvent[] = [];
+  let noTime = 0;
+  let noCurrency = 0;
+  let noImpact = 0;
+  const defaultZone = options.timeZone ?? "UTC";
+  const unknownZones = new Set<string>();
+
+  for (const vevent of vevents) {
+    const dtstart = vevent.get("DTSTART");
+    const tzid = dtstart?.params.TZID;
+    const zone = tzid ? icsTimeZone(tzid) : null;
+    if (tzid && !zone) unknownZones.add(tzid);
+    const time = dtstart ? parseIcsDate(dtstart, zone ?? defaultZone) : null;
+    if (!time) {
+      noTime++;
+      continue;
+    }
+
+    let summary = unescapeIcsText(vevent.get("SUMMARY")?.value ?? "");
+    const categories = unescapeIcsText(vevent.get("CATEGORIES")?.value ?? "")
+      .split(",")
+      .map((c) => c.trim())
+      .filter(Boolean);
+
+    let currency = normalizeCurrency(vevent.get("X-CURRENCY")?.value ?? "");
+    for (const c of categories) currency ??= normalizeCurrency(c);
+    const prefix = summary.match(SUMMARY_CURRENCY);
+    if (prefix && normalizeCurrency(prefix[1])) {
+      currency ??= normalizeCurrency(prefix[1]);
+      summary = summary.slice(prefix[0].length);
+    }
+    if (!currency) {
+      noCurrency++;
+      continue;
+    }
+
+    let impact = normalizeImpact(vevent.get("X-IMPACT")?.value ?? "");
+    for (const c of categories) impact ??= normalizeImpact(c);
+    const marker = summary.match(SUMMARY_IMPACT);
+    if (marker) {
+      impact ??= normalizeImpact(marker[1] ?? marker[2]);
+      summary = summary.replace(marker[0], "").trim();
+    }
+    impact ??= priorityImpact(vevent.get("PRIORITY")?.value);
+    if (!impact) {
+      noImpact++;
+      continue;
+    }
+
+    events.push({ time, currency, impact, title: summary.slice(0, 200) });
+  }
+
+  if (unknownZones.size > 0) {
+    warnings.push(
+      `Unknown time zone(s) ${[...unknownZones].join(", ")}: those times were read in ${defaultZone}`
+    );
+  }
+  if (noTime > 0) warnings.push(`${noTime} all-day or undated event(s) skipped`);
+  if (noCurrency > 0) warnings.push(`${noCurrency} event(s) with an unknown currency skipped`);
+  if (noImpact > 0) warnings.push(`${noImpact} event(s) without an impact level skipped`);
+  return events;
+}
+
+// ── Entry point ──────────────────────────────────────────
+
+/** ICS when the content is a VCALENDAR or the file is named *.ics, otherwise CSV */
+export function detectCalendarFormat(content: string, fileName?: string): CalendarFormat {
+  if (/^\s*BEGIN:VCALENDAR/i.test(content)) return "ics";
+  return fileName?.toLowerCase().endsWith(".ics") ? "ics" : "csv";
+}
+
+/**
+ * Parse an economic calendar export. The covered range spans whole UTC days from the
+ * first to the last event: an import replaces the synthetic schedule for those days only.
+ */
+export function parseEconomicCalendar(
+  content: string,
+  fileName?: string,
+  options: CalendarParseOptions = {}
+): ParsedCalendar {
+  const format = detectCalendarFormat(content, fileName);
+  const parseWarnings: string[] = [];
+  const events =
+    format === "ics"
+      ? parseIcs(content, options, parseWarnings)
+      : parseCsv(content, options, parseWarnings);
+
+  if (events.length === 0) {
+    throw new CalendarParseError(
+      `No usable events found.${parseWarnings.length > 0 ? ` ${parseWarnings.join("; ")}.` : ""}`
+    );
+  }
+  if (events.length > MAX_CALENDAR_EVENTS) {
+    throw new CalendarParseError(
+      `Too many events (${events.length}). Split the calendar into files of at most ${MAX_CALENDAR_EVENTS} events.`
+    );
+  }
+
+  events.sort((a, b) => a.time.getTime() - b.time.getTime());
+  const first = events[0].time;
+  const last = events[events.length - 1].time;
+
+  return {
+    format,
+    events,
+    coverageStart: new Date(
+      Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate())
+    ),
+    coverageEnd: new Date(
+      Date.UTC(last.getUTCFullYear(), last.getUTCMonth(), last.getUTCDate() + 1) - 1
+    ),
+    parseWarnings,
+  };
+}
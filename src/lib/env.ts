@@ -102,6 +102,10 @@ const envSchema = z.object({
   // Track Record HMAC secret (required in production — generate with: openssl rand -hex 32)
   TRACK_RECORD_SECRET: z.string().min(16).optional(),
 
+  // RFC 3161 timestamping for ledger commitments (optional — enables L3 notarization)
+  TRACK_RECORD_TSA_URL: z.string().url().optional().or(z.literal("")),
+  TRACK_RECORD_TSA_CERT: z.string().optional(),
+
   // Web Push VAPID keys (optional — required for browser push notifications)
   VAPID_PUBLIC_KEY: z.string().optional(),
   VAPID_PRIVATE_KEY: z.string().optional(),
@@ -323,6 +327,8 @@ function validateEnv() {
       ENCRYPTION_SALT: undefined,
       TRACK_RECORD_SIGNING_KEY: undefined,
       TRACK_RECORD_SECRET: undefined,
+      TRACK_RECORD_TSA_URL: undefined,
+      TRACK_RECORD_TSA_CERT: undefined,
       VAPID_PUBLIC_KEY: undefined,
       VAPID_PRIVATE_KEY: undefined,
       VAPID_SUBJECT: undefined,
@@ -400,6 +406,8 @@ function validateEnv() {
         ENCRYPTION_SALT: process.env.ENCRYPTION_SALT,
         TRACK_RECORD_SIGNING_KEY: process.env.TRACK_RECORD_SIGNING_KEY,
         TRACK_RECORD_SECRET: process.env.TRACK_RECORD_SECRET,
+        TRACK_RECORD_TSA_URL: process.env.TRACK_RECORD_TSA_URL,
+        TRACK_RECORD_TSA_CERT: process.env.TRACK_RECORD_TSA_CERT,
         VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY,
         VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY,
         VAPID_SUBJECT: process.env.VAPID_SUBJECT,
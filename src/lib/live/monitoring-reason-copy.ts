@@ -11,6 +11,7 @@ const REASON_COPY: Record<string, string> = {
   MONITORING_LOSS_STREAK: "Losing streak detected",
   MONITORING_INACTIVITY: "No recent trading activity",
   MONITORING_CUSUM_DRIFT: "Drift detected (CUSUM)",
+  MONITORING_EXPECTED_SHORTFALL_BREACH: "Tail losses larger than baseline",
   MONITORING_BASELINE_MISSING: "No baseline available for monitoring",
   MONITORING_INVALID_INPUT: "Invalid monitoring input",
 };
@@ -43,4 +43,90 @@ describe("migrateProjectData", () => {
     expect(result.edges).toHaveLength(1);
     expect(result.metadata.createdAt).toBe("2024-06-01");
   });
+
+  describe("1.4 — global condition mode to logic gates", () => {
+    const base = (conditionMode: "AND" | "OR" | undefined, extraNodes: unknown[] = []) => ({
+      version: "1.3",
+      nodes: [
+        { id: "t1", type: "always", position: { x: 0, y: 0 }, data: { timingType: "always" } },
+        {
+          id: "rsi1",
+          type: "rsi",
+          position: { x: 0, y: 100 },
+          data: { category: "indicator", indicatorType: "rsi" },
+        },
+        {
+          id: "c1",
+          type: "condition",
+          position: { x: 0, y: 200 },
+          data: { category: "indicator", indicatorType: "condition" },
+        },
+        {
+          id: "ob1",
+          type: "order-block",
+          position: { x: 200, y: 100 },
+          data: { category: "priceaction", priceActionType: "order-block" },
+        },
+        {
+          id: "b1",
+          type: "place-buy",
+          position: { x: 100, y: 400 },
+          data: { category: "trading", tradingType: "place-buy" },
+        },
+        ...extraNodes,
+      ],
+      edges: [
+        { id: "e1", source: "t1", target: "rsi1" },
+        { id: "e2", source: "rsi1", target: "c1" },
+        { id: "e3", source: "c1", sourceHandle: "true", target: "b1" },
+        { id: "e4", source: "ob1", target: "b1" },
+      ],
+      viewport: { x: 0, y: 0, zoom: 1 },
+      metadata: { createdAt: "2024-01-01", updatedAt: "2024-01-01" },
+      settings: { magicNumber: 1, comment: "Test", ...(conditionMode ? { conditionMode } : {}) },
+    });
+
+    it("wires every condition into an OR gate feeding the Buy/Sell nodes", () => {
+      const result = migrateProjectData(base("OR"));
+
+      expect(result.settings.conditionMode).toBeUndefined();
+      const gate = result.nodes.find((n) => n.type === "or-gate");
+      expect(gate).toBeDefined();
+      expect(gate!.data).toMatchObject({ category: "logic", logicType: "OR" });
+      expect(gate!.position).toEqual({ x: 100, y: 280 });
+
+      const into = result.edges.filter((e) => e.target === gate!.id);
+      expect(into.map((e) => e.source).sort()).toEqual(["c1", "ob1", "rsi1"]);
+      expect(into.find((e) => e.source === "c1")!.sourceHandle).toBe("true");
+      expect(result.edges.filter((e) => e.target === "b1").map((e) => e.source)).toEqual([
+        gate!.id,
+      ]);
+      // Indicator → condition wiring is untouched
+      expect(result.edges.some((e) => e.source === "rsi1" && e.target === "c1")).toBe(true);
+    });
+
+    it("drops an AND mode without adding gates", () => {
+      const result = migrateProjectData(base("AND"));
+
+      expect(result.settings.conditionMode).toBeUndefined();
+      expect(result.nodes.some((n) => n.type === "or-gate")).toBe(false);
+      expect(result.edges).toHaveLength(4);
+    });
+
+    it("keeps the global mode for legacy entry strategy nodes", () => {
+      const result = migrateProjectData(
+        base("OR", [
+          {
+            id: "es1",
+            type: "ema-crossover-entry",
+            position: { x: 0, y: 0 },
+            data: { category: "entrystrategy", entryType: "ema-crossover" },
+          },
+        ])
+      );
+
+      expect(result.settings.conditionMode).toBe("OR");
+      expect(result.nodes.some((n) => n.type === "or-gate")).toBe(false);
+    });
+  });
 });
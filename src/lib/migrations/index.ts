@@ -166,12 +166,96 @@ const migrations: Migration[] = [
         }
       }
 
+      return data;
+    },
+  },
+  {
+    version: "1.4",
+    up: (data) => {
+      // Replace the global entry condition mode with explicit logic gates
+      const settings = data.settings as Record<string, unknown> | undefined;
+      const nodes = data.nodes as Array<Record<string, unknown>> | undefined;
+      if (!settings || settings.conditionMode === undefined) return data;
+      if (settings.conditionMode !== "OR" || !nodes) {
+        // AND is how ungated conditions combine anyway
+        delete settings.conditionMode;
+        return data;
+      }
+
+      // Legacy entry strategy nodes expand into conditions that cannot be wired into a gate;
+      // those projects keep the global mode
+      if (nodes.some((n) => "entryType" in ((n.data as Record<string, unknown>) ?? {}))) {
+        return data;
+      }
+
+      const edges = (data.edges as Array<Record<string, unknown>> | undefined) ?? [];
+      const conditionIds = new Set<string>();
+      const conditionNodeIds = new Set<string>();
+      const tradeNodes: Array<Record<string, unknown>> = [];
+      for (const node of nodes) {
+        const nd = (node.data as Record<string, unknown>) ?? {};
+        const isCondition =
+          "indicatorType" in nd ||
+          ("priceActionType" in nd && nd.priceActionType !== "range-breakout");
+        if (isCondition) conditionIds.add(node.id as string);
+        if (nd.indicatorType === "condition") conditionNodeIds.add(node.id as string);
+        if (
+          (nd.tradingType === "place-buy" || nd.tradingType === "place-sell") &&
+          edges.some((e) => e.target === node.id)
+        ) {
+          tradeNodes.push(node);
+        }
+      }
+
+      // With fewer than two conditions OR and AND are the same
+      if (conditionIds.size < 2 || tradeNodes.length === 0) {
+        delete settings.conditionMode;
+        return data;
+      }
+
+      const nodeIds = new Set(nodes.map((n) => n.id as string));
+      let gateId = "or-gate-migrated";
+      for (let i = 2; nodeIds.has(gateId); i++) gateId = `or-gate-migrated-${i}`;
+
+      const tradeIds = new Set(tradeNodes.map((n) => n.id as string));
+      const positions = tradeNodes.map(
+        (n) => (n.position as { x: number; y: number }) ?? { x: 0, y: 0 }
+      );
+      nodes.push({
+        id: gateId,
+        type: "or-gate",
+        position: {
+          x: positions.reduce((sum, p) => sum + p.x, 0) / positions.length,
+          y: Math.min(...positions.map((p) => p.y)) - 120,
+        },
+        data: { label: "OR", category: "logic", logicType: "OR" },
+      });
+
+      // Every condition feeds the gate (condition nodes through their True output);
+      // direct condition → Buy/Sell wires are replaced by the gate's outputs
+      const rewired = edges.filter(
+        (e) => !(conditionIds.has(e.source as string) && tradeIds.has(e.target as string))
+      );
+      for (const id of conditionIds) {
+        rewired.push({
+          id: `e-${id}-${gateId}`,
+          source: id,
+          target: gateId,
+          ...(conditionNodeIds.has(id) ? { sourceHandle: "true" } : {}),
+        });
+      }
+      for (const id of tradeIds) {
+        rewired.push({ id: `e-${gateId}-${id}`, source: gateId, target: id });
+      }
+      data.edges = rewired;
+      delete settings.conditionMode;
+
       return data;
     },
   },
 ];
 
-export const CURRENT_VERSION = "1.3";
+export const CURRENT_VERSION = "1.4";
 
 function compareVersions(a: string, b: string): number {
   const [aMajor, aMinor] = a.split(".").map(Number);
@@ -0,0 +1,434 @@
+import { describe, it, expect } from "vitest";
+import { generateMQL4Code, validateMQL4Build, MQL4ValidationError } from "./generator";
+import {
+  DEFAULT_MULTI_PAIR,
+  type BuildJsonSchema,
+  type BuilderNode,
+  type BuilderEdge,
+  type BuildJsonSettings,
+} from "@/types/builder";
+
+// ============================================
+// HELPERS
+// ============================================
+
+const DEFAULT_SETTINGS: BuildJsonSettings = {
+  magicNumber: 123456,
+  comment: "Test EA",
+  maxOpenTrades: 1,
+  allowHedging: false,
+  maxTradesPerDay: 0,
+};
+
+function makeBuild(nodes: BuilderNode[], edges: BuilderEdge[] = []): BuildJsonSchema {
+  // Auto-generate edges: chain all nodes sequentially if none provided
+  if (edges.length === 0 && nodes.length > 1) {
+    edges = nodes.slice(0, -1).map((n, i) => ({
+      id: `e${i}`,
+      source: n.id,
+      target: nodes[i + 1].id,
+    }));
+  }
+
+  return {
+    version: "1.3",
+    nodes,
+    edges,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: {
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    },
+    settings: DEFAULT_SETTINGS,
+  };
+}
+
+function makeNode(id: string, type: string, data: Record<string, unknown>): BuilderNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label: type, ...data },
+  } as BuilderNode;
+}
+
+const ALWAYS = makeNode("t1", "always", { category: "timing", timingType: "always" });
+
+const BUY = makeNode("b1", "place-buy", {
+  category: "trading",
+  tradingType: "place-buy",
+  method: "FIXED_LOT",
+  fixedLot: 0.1,
+  riskPercent: 2,
+  minLot: 0.01,
+  maxLot: 100,
+});
+
+/** MT5-only APIs that must never appear in an .mq4 file. */
+function expectNoMQL5OnlyApis(code: string): void {
+  expect(code).not.toContain("#include <Trade");
+  expect(code).not.toContain("HistorySelect");
+  expect(code).not.toContain("HistoryDeal");
+  expect(code).not.toContain("CalendarValueHistory");
+  expect(code).not.toContain("OrderCalcMargin");
+  expect(code).not.toContain("TRADE_RETCODE_");
+  expect(code).not.toContain("SetTypeFillingBySymbol");
+  expect(code).not.toMatch(/\biMA\(_Symbol/);
+  expect(code).not.toContain("HistoryOrder");
+  expect(code).not.toContain("ORDER_TIME_SETUP");
+  expect(code).not.toContain("ORDER_TYPE_BUY_STOP");
+  expect(code).not.toMatch(/\bOrderSelect\([^,()]+\)/);
+  expect(code).not.toContain("ArrayRemove");
+}
+
+// ============================================
+// TESTS
+// ============================================
+
+describe("generateMQL4Code", () => {
+  describe("basic structure", () => {
+    it("generates strict MQL4 with the compatibility layer and no MT5-only APIs", () => {
+      const code = generateMQL4Code(makeBuild([ALWAYS, BUY]), "TestEA");
+
+      expect(code).toContain("#property copyright");
+      expect(code).toMatch(/#property version\s+"1\.00"\n#property strict/);
+      expect(code).toContain("class CTrade");
+      expect(code).toContain("CTrade trade;");
+      expect(code).toContain("int PositionsTotal()");
+      expect(code).toContain("int OnInit()");
+      expect(code).toContain("void OnDeinit(");
+      expect(code).toContain("void OnTick()");
+      expect(code).toContain("bool OpenBuy(");
+      expect(code).toContain("AccountFreeMarginCheck(_Symbol, OP_BUY, lots)");
+      expect(code).toContain("EnumToString((ENUM_TIMEFRAMES)Period())");
+      expect(code).not.toContain("EnumToString(Period())");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("declares the compatibility layer before the strategy inputs", () => {
+      const code = generateMQL4Code(makeBuild([ALWAYS, BUY]), "TestEA");
+      expect(code.indexOf("class CTrade")).toBeLessThan(code.indexOf("Input Parameters"));
+    });
+
+    it("omits timeframes MT4 does not have from the optimization enum", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("ma1", "moving-average", {
+          category: "indicator",
+          indicatorType: "moving-average",
+          timeframe: "H4",
+          period: 20,
+          method: "EMA",
+          appliedPrice: "CLOSE",
+          shift: 0,
+          optimizableFields: ["timeframe"],
+        }),
+        BUY,
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("enum ENUM_AS_TIMEFRAMES");
+      expect(code).toContain("TF_H4  = PERIOD_H4");
+      expect(code).not.toContain("PERIOD_H2");
+      expect(code).not.toContain("PERIOD_H12");
+    });
+  });
+
+  describe("indicators", () => {
+    it("maps MQL5 indicator handles onto the MQL4 handle registry", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("ma1", "moving-average", {
+          category: "indicator",
+          indicatorType: "moving-average",
+          timeframe: "H1",
+          period: 20,
+          method: "EMA",
+          appliedPrice: "CLOSE",
+          shift: 0,
+        }),
+        BUY,
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("ind0Handle = HandleMA(_Symbol");
+      expect(code).toContain("CopyBuffer(ind0Handle");
+      expect(code).toContain("int CopyBuffer(int handle");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("replays custom indicator arguments through CustomIndicatorValue", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("ci1", "custom-indicator", {
+          category: "indicator",
+          indicatorType: "custom-indicator",
+          timeframe: "H1",
+          indicatorName: "MyIndicator",
+          bufferIndex: 0,
+          signalMode: "every_tick",
+          params: [{ name: "intParam", value: "14", type: "int" }],
+        }),
+        BUY,
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toMatch(/= HandleCustom\(0, _Symbol, /);
+      expect(code).toMatch(/case 0: return iCustom\(_Symbol, .*"MyIndicator".*, buffer, shift\);/);
+      expect(code).not.toMatch(/Handle = iCustom\(/);
+    });
+  });
+
+  describe("price action and trade management", () => {
+    it("generates Range Breakout", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("rb1", "range-breakout", {
+          category: "priceaction",
+          priceActionType: "range-breakout",
+          timeframe: "H1",
+          rangeType: "PREVIOUS_CANDLES",
+          lookbackCandles: 20,
+          rangeSession: "ASIAN",
+          sessionStartHour: 0,
+          sessionStartMinute: 0,
+          sessionEndHour: 8,
+          sessionEndMinute: 0,
+          breakoutDirection: "BOTH",
+          entryMode: "ON_CLOSE",
+          bufferPips: 2,
+          minRangePips: 10,
+          maxRangePips: 0,
+        }),
+        BUY,
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("Range Breakout");
+      expect(code).toContain("pa0BreakoutUp");
+      expect(code).toContain("iHighest(_Symbol");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("expires and cancels pending orders from the MT4 order pool", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("b1", "place-buy", {
+          ...BUY.data,
+          orderType: "STOP",
+          pendingOffset: 10,
+          cancelOnInvalidate: true,
+        }),
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("ExpirePendingOrders(_Symbol, true, 0, InpBuyPendingExpiryMinutes);");
+      expect(code).toContain("void ExpirePendingOrders(string sym, bool buySide");
+      expect(code).toContain("iBarShift(OrderSymbol(), PERIOD_CURRENT, placed)");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("brackets two-sided range breakouts by ticket", () => {
+      const build = makeBuild([
+        makeNode("rb1", "range-breakout", {
+          category: "priceaction",
+          priceActionType: "range-breakout",
+          timeframe: "H1",
+          rangeType: "PREVIOUS_CANDLES",
+          lookbackCandles: 20,
+          breakoutDirection: "BOTH",
+          entryMode: "IMMEDIATE",
+          bufferPips: 2,
+          minRangePips: 0,
+          maxRangePips: 0,
+          pendingExpiryMode: "MINUTES",
+          pendingExpiryMinutes: 240,
+        }),
+        BUY,
+        makeNode("s1", "place-sell", { ...BUY.data, tradingType: "place-sell" }),
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("g_rangeBuyTicket = trade.ResultOrder();");
+      expect(code).toContain("ulong    ResultOrder()");
+      expect(code).toContain("if(PendingOrderClosed(g_rangeSellTicket))");
+      expect(code).toContain("bool PendingOrderFilled(ulong ticket)");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("generates Order Block detection", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("ob1", "order-block", {
+          category: "priceaction",
+          priceActionType: "order-block",
+          timeframe: "H1",
+          lookbackPeriod: 50,
+          minBlockSize: 10,
+          maxBlockAge: 100,
+        }),
+        BUY,
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("Order Block Detection");
+      expect(code).toContain("pa0BuySignal");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("generates multi-level TP with partial closes tracked across MT4 ticket changes", () => {
+      const build = makeBuild([
+        ALWAYS,
+        BUY,
+        makeNode("mltp1", "multi-level-tp", {
+          category: "trademanagement",
+          tradeManagementType: "multi-level-tp",
+          tp1Pips: 20,
+          tp1Percent: 40,
+          tp2Pips: 40,
+          tp2Percent: 30,
+          tp3Pips: 60,
+          tp3Percent: 30,
+          moveSLAfterTP1: "BREAKEVEN",
+        }),
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("Multi-Level TP Management");
+      expect(code).toContain("trade.PositionClosePartial");
+      expect(code).toContain("void TrackPartialClose(int positionId, int closedTicket)");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("generates grid management", () => {
+      const build = makeBuild([
+        ALWAYS,
+        BUY,
+        makeNode("gp1", "grid-pyramid", {
+          category: "trading",
+          tradingType: "grid-pyramid",
+          gridMode: "GRID",
+          gridSpacing: 20,
+          maxGridLevels: 5,
+          lotMultiplier: 1.0,
+          direction: "BOTH",
+        }),
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("Grid/Pyramid Management");
+      expect(code).toContain("InpGridSpacing");
+      expectNoMQL5OnlyApis(code);
+    });
+  });
+
+  describe("risk management", () => {
+    it("reads daily P&L and loss cooldown from the MT4 order history", () => {
+      const build = makeBuild([ALWAYS, BUY]);
+      build.settings = {
+        ...DEFAULT_SETTINGS,
+        maxDailyLossPercent: 5,
+        cooldownAfterLossMinutes: 30,
+      };
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("Daily P&L Protection");
+      expect(code).toContain("Cooldown After Loss");
+      expect(code).toContain("OrderSelect(i, SELECT_BY_POS, MODE_HISTORY)");
+      expect(code).toContain("OrderSelect(d, SELECT_BY_POS, MODE_HISTORY)");
+      expectNoMQL5OnlyApis(code);
+    });
+
+    it("keeps the equity curve filter free of MT5-only array functions", () => {
+      const build = makeBuild([ALWAYS, BUY]);
+      build.settings = { ...DEFAULT_SETTINGS, equityCurveMaPeriod: 20 };
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("bool EquityCurveAllowsEntry()");
+      expect(code).toContain("void EquityCurveCloseVirtual(int index, double exitPrice)");
+      expect(code).toContain("string symbols = _Symbol;");
+      expectNoMQL5OnlyApis(code);
+    });
+  });
+
+  describe("news filter", () => {
+    it("uses the embedded calendar for live trading", () => {
+      const build = makeBuild([
+        ALWAYS,
+        makeNode("nf1", "news-filter", {
+          category: "timing",
+          filterType: "news-filter",
+          hoursBefore: 0.5,
+          hoursAfter: 0.5,
+          highImpact: true,
+          mediumImpact: false,
+          lowImpact: false,
+          closePositions: false,
+        }),
+        BUY,
+      ]);
+      const code = generateMQL4Code(build, "Test");
+      expect(code).toContain("MetaTrader 4 has no economic calendar API");
+      expect(code).toContain("g_embeddedNews");
+      expect(code).toMatch(/void RefreshNewsCache\(\)\s+\{[\s\S]*?LoadEmbeddedNews\(\);/);
+      expectNoMQL5OnlyApis(code);
+    });
+  });
+
+  describe("telemetry", () => {
+    it("reports trades from the order history without the MQL5 track record", () => {
+      const code = generateMQL4Code(makeBuild([ALWAYS, BUY]), "Test", undefined, {
+        apiKey: "key",
+        baseUrl: "https://example.com/api/telemetry",
+      });
+      expect(code).toContain("void TelemetrySendHeartbeat()");
+      expect(code).toContain("void TelemetrySendTradeUpdate()");
+      expect(code).toContain("OrdersHistoryTotal()");
+      expectNoMQL5OnlyApis(code);
+    });
+  });
+
+  describe("strategy presets", () => {
+    it("every preset exports to MQL4", async () => {
+      const { STRATEGY_PRESETS } = await import("@/lib/strategy-presets");
+      for (const preset of STRATEGY_PRESETS) {
+        expect(validateMQL4Build(preset.buildJson)).toEqual([]);
+        const code = generateMQL4Code(preset.buildJson, preset.name);
+        expect(code).toContain("#property strict");
+        expect(code).toContain("OnTick");
+        expectNoMQL5OnlyApis(code);
+      }
+    });
+  });
+});
+
+describe("validateMQL4Build", () => {
+  it("rejects multi-pair builds", () => {
+    const build = makeBuild([ALWAYS, BUY]);
+    build.settings = {
+      ...DEFAULT_SETTINGS,
+      multiPair: { ...DEFAULT_MULTI_PAIR, enabled: true, symbols: ["EURUSD", "GBPUSD"] },
+    };
+    expect(validateMQL4Build(build)).toEqual([expect.stringMatching(/Multi-pair mode/)]);
+    expect(() => generateMQL4Code(build, "Test")).toThrow(MQL4ValidationError);
+  });
+
+  it("rejects timeframes that do not exist in MetaTrader 4", () => {
+    const build = makeBuild([
+      ALWAYS,
+      makeNode("ma1", "moving-average", {
+        label: "Slow MA",
+        category: "indicator",
+        indicatorType: "moving-average",
+        timeframe: "H2",
+        period: 20,
+        method: "EMA",
+        appliedPrice: "CLOSE",
+        shift: 0,
+      }),
+      BUY,
+    ]);
+    try {
+      generateMQL4Code(build, "Test");
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(MQL4ValidationError);
+      expect((err as MQL4ValidationError).errors).toEqual([
+        '"Slow MA" uses timeframe H2, which does not exist in MetaTrader 4.',
+      ]);
+    }
+  });
+
+  it("accepts single-symbol builds on MT4 timeframes", () => {
+    expect(validateMQL4Build(makeBuild([ALWAYS, BUY]))).toEqual([]);
+  });
+});
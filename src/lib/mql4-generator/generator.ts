@@ -0,0 +1,122 @@
+// MQL4 Code Generator - Converts the same node graph as the MQL5 generator to MetaTrader 4 code.
+// Strategy logic is produced by the shared MQL5 sub-generators and then adapted to MT4
+// through the compatibility layer (see generators/compat.ts).
+
+import type { BuildJsonSchema } from "@/types/builder";
+import { buildStrategyCode } from "@/lib/mql5-generator/generator";
+import type { TelemetryConfig } from "@/lib/mql5-generator/generators/telemetry";
+import type { ImportedNewsCalendar } from "@/lib/news-calendar";
+import { adaptCodeForMQL4, generateCompatibilityLayer } from "./generators/compat";
+import { generateTelemetryCode } from "./generators/telemetry";
+import {
+  generateFileHeader,
+  generateInputsSection,
+  generateGlobalVariablesSection,
+  generateOnInit,
+  generateOnDeinit,
+  generateOnTick,
+  generateHelperFunctions,
+} from "./templates";
+
+/** Chart periods available in MetaTrader 4 (MQL5 adds H2, H3, H6, H8, H12 and the minute variants). */
+const MT4_TIMEFRAMES = new Set(["M1", "M5", "M15", "M30", "H1", "H4", "D1", "W1", "MN1"]);
+
+/** Thrown when a build uses features that cannot be expressed in MQL4. */
+export class MQL4ValidationError extends Error {
+  constructor(public readonly errors: string[]) {
+    super(`Strategy cannot be exported to MQL4: ${errors.join("; ")}`);
+    this.name = "MQL4ValidationError";
+  }
+}
+
+/**
+ * Check a build for features MetaTrader 4 cannot run.
+ * Returns human-readable errors; an empty array means the build can be exported as .mq4.
+ */
+export function validateMQL4Build(buildJson: BuildJsonSchema): string[] {
+  const errors: string[] = [];
+
+  if (buildJson.settings?.multiPair?.enabled) {
+    errors.push(
+      "Multi-pair mode is not supported in MQL4 (the MT4 Strategy Tester runs a single symbol). Disable multi-pair or export as MQL5."
+    );
+  }
+
+  for (const node of buildJson.nodes) {
+    const data = node.data as unknown as Record<string, unknown>;
+    const label = typeof data.label === "string" && data.label ? data.label : node.type;
+    for (const [key, value] of Object.entries(data)) {
+      if (!/timeframe$/i.test(key) || typeof value !== "string") continue;
+      if (!MT4_TIMEFRAMES.has(value)) {
+        errors.push(`"${label}" uses timeframe ${value}, which does not exist in MetaTrader 4.`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+export function generateMQL4Code(
+  buildJson: BuildJsonSchema,
+  projectName: string,
+  description?: string,
+  telemetry?: TelemetryConfig,
+  projectId?: string,
+  newsCalendar?: ImportedNewsCalendar
+): string {
+  const errors = validateMQL4Build(buildJson);
+  if (errors.length > 0) {
+    throw new MQL4ValidationError(errors);
+  }
+
+  const { ctx, code, hasNewsFilter } = buildStrategyCode(
+    buildJson,
+    projectName,
+    description,
+    projectId,
+    newsCalendar
+  );
+
+  // Rewrite MQL5 calls that clash with MQL4 built-ins before anything else is appended
+  adaptCodeForMQL4(code);
+
+  if (telemetry) {
+    generateTelemetryCode(code, telemetry);
+  }
+
+  const newsSetupGuide = hasNewsFilter
+    ? `//+------------------------------------------------------------------+
+//| NEWS FILTER — HOW IT WORKS                                       |
+//+------------------------------------------------------------------+
+//| This EA uses a News Filter that avoids trading around economic    |
+//| news events.                                                      |
+//|                                                                   |
+//| MetaTrader 4 has no economic calendar API. News data is embedded  |
+//| in this EA at export time and used for both live trading and      |
+//| backtesting. Re-export the EA to refresh the news calendar.       |
+//| Event dates come from your imported economic calendar             |
+//| where it covers them, otherwise from the regular                  |
+//| release schedule.                                                 |
+//|                                                                   |
+//| Only news in the base and quote currencies of each traded symbol  |
+//| pauses that symbol.                                               |
+//+------------------------------------------------------------------+
+
+`
+    : "";
+
+  const parts = [
+    generateFileHeader(ctx),
+    newsSetupGuide,
+    generateCompatibilityLayer(),
+    generateInputsSection(code.inputs),
+    generateGlobalVariablesSection(code.globalVariables),
+    generateOnInit(ctx, code.onInit),
+    generateOnDeinit(code.onDeinit),
+    generateOnTick(ctx, code.onTick, code.maxIndicatorPeriod),
+    generateHelperFunctions(),
+    code.helperFunctions.join("\n\n"),
+  ];
+
+  return parts.join("");
+}
@@ -0,0 +1,625 @@
+// MT4 compatibility layer for MQL4 export
+// The shared node sub-generators emit MQL5 position, pending-order and indicator-handle calls.
+// This module rewrites the calls whose names clash with MQL4 built-ins (post-processing) and
+// emits MQL4 implementations of the remaining MQL5 APIs on top of the MT4 order pool.
+
+import type { GeneratedCode } from "@/lib/mql5-generator/types";
+import { PENDING_LIFECYCLE_MARKER } from "@/lib/mql5-generator/generators/trading";
+
+/** MQL5 handle constructors → MQL4 handle registry functions (MQL4 reuses the names for value getters). */
+const HANDLE_CONSTRUCTORS: Record<string, string> = {
+  iMA: "HandleMA",
+  iRSI: "HandleRSI",
+  iMACD: "HandleMACD",
+  iBands: "HandleBands",
+  iATR: "HandleATR",
+  iADX: "HandleADX",
+  iStochastic: "HandleStochastic",
+  iCCI: "HandleCCI",
+  iIchimoku: "HandleIchimoku",
+  iOBV: "HandleOBV",
+};
+
+const HANDLE_CONSTRUCTOR_PATTERN = new RegExp(
+  `\\b(${Object.keys(HANDLE_CONSTRUCTORS).join("|")})\\(`,
+  "g"
+);
+
+/** Matches `xHandle = iCustom(_Symbol, tf, "Name", params...);` as emitted by the indicator generator. */
+const CUSTOM_HANDLE_PATTERN = /^(\s*)(\w+) = iCustom\((\w+), ([^,]+), (.+)\);$/;
+
+function rewriteLine(line: string): string {
+  return line
+    .replace(HANDLE_CONSTRUCTOR_PATTERN, (_, fn: string) => `${HANDLE_CONSTRUCTORS[fn]}(`)
+    .replace(/\bVOLUME_TICK\b/g, "PRICE_CLOSE");
+}
+
+/**
+ * MQL4 iCustom takes the buffer and shift on every call, so each custom indicator handle
+ * gets a case in CustomIndicatorValue() that replays its original arguments.
+ */
+function rewriteCustomIndicators(code: GeneratedCode): void {
+  const cases: string[] = [];
+
+  code.onInit = code.onInit.map((line) => {
+    const match = line.match(CUSTOM_HANDLE_PATTERN);
+    if (!match) return line;
+    const [, indent, handleVar, symbol, timeframe, rest] = match;
+    const id = cases.length;
+    cases.push(
+      `      case ${id}: return iCustom(${symbol}, ${timeframe}, ${rest}, buffer, shift);`
+    );
+    return `${indent}${handleVar} = HandleCustom(${id}, ${symbol}, ${timeframe});`;
+  });
+
+  code.helperFunctions.push(`//+------------------------------------------------------------------+
+//| Custom indicator values (MQL4 iCustom with buffer and shift)      |
+//+------------------------------------------------------------------+
+double CustomIndicatorValue(int id, int buffer, int shift)
+{
+${cases.length > 0 ? `   switch(id)\n   {\n${cases.join("\n")}\n   }\n` : ""}   return EMPTY_VALUE;
+}`);
+}
+
+/**
+ * MetaTrader 4 has no economic calendar API: the live news refresh falls back to the
+ * calendar embedded at export time (the same data the Strategy Tester uses).
+ */
+function rewriteNewsRefresh(code: GeneratedCode): void {
+  const start = code.helperFunctions.indexOf("void RefreshNewsCache()");
+  if (start < 0) return;
+  const end = code.helperFunctions.indexOf("}", start);
+  code.helperFunctions.splice(
+    start,
+    end - start + 1,
+    "void RefreshNewsCache()",
+    "{",
+    "   // No calendar API in MT4 — use the embedded calendar for live trading as well",
+    "   if(g_newsCount == 0) LoadEmbeddedNews();",
+    "   g_lastNewsRefresh = TimeCurrent();",
+    "}"
+  );
+}
+
+/**
+ * The pending-order housekeeping helpers select orders by ticket and read the MQL5 order
+ * history, neither of which the compatibility layer can shim (OrderSelect clashes with the
+ * MQL4 built-in). MT4 keeps a filled pending order under the same ticket as a market order,
+ * so the MQL4 versions read everything from the order pool.
+ */
+function rewritePendingLifecycle(code: GeneratedCode): void {
+  const index = code.helperFunctions.findIndex((h) => h.includes(PENDING_LIFECYCLE_MARKER));
+  if (index < 0) return;
+  code.helperFunctions[index] =
+    `//+------------------------------------------------------------------+
+//| Is the selected order a pending order of this EA on the given side|
+//+------------------------------------------------------------------+
+bool IsOwnPendingOrder(string sym, bool buySide)
+{
+   if(OrderMagicNumber() != InpMagicNumber || OrderSymbol() != sym || OrderType() <= OP_SELL)
+      return false;
+   bool isBuy = (OrderType() == OP_BUYSTOP || OrderType() == OP_BUYLIMIT);
+   return isBuy == buySide;
+}
+
+//+------------------------------------------------------------------+
+//| Is the order still pending (selects it)                            |
+//+------------------------------------------------------------------+
+bool PendingOrderActive(ulong ticket)
+{
+   return ticket > 0 && OrderSelect((int)ticket, SELECT_BY_TICKET)
+      && OrderCloseTime() == 0 && OrderType() > OP_SELL;
+}
+
+//+------------------------------------------------------------------+
+//| Has the order left the order book (filled, cancelled or expired)   |
+//+------------------------------------------------------------------+
+bool PendingOrderClosed(ulong ticket)
+{
+   return ticket > 0 && OrderSelect((int)ticket, SELECT_BY_TICKET)
+      && (OrderType() <= OP_SELL || OrderCloseTime() > 0);
+}
+
+//+------------------------------------------------------------------+
+//| Was an order that left the order book filled (not cancelled)       |
+//+------------------------------------------------------------------+
+bool PendingOrderFilled(ulong ticket)
+{
+   return ticket > 0 && OrderSelect((int)ticket, SELECT_BY_TICKET) && OrderType() <= OP_SELL;
+}
+
+//+------------------------------------------------------------------+
+//| Has a pending order outlived its expiry (0 = no limit)             |
+//+------------------------------------------------------------------+
+bool PendingOrderExpired(ulong ticket, int expiryBars, int expiryMinutes)
+{
+   if(!PendingOrderActive(ticket)) return false;
+   datetime placed = OrderOpenTime();
+   if(expiryBars > 0 && iBarShift(OrderSymbol(), PERIOD_CURRENT, placed) >= expiryBars) return true;
+   return expiryMinutes > 0 && TimeCurrent() - placed >= (long)expiryMinutes * 60;
+}
+
+//+------------------------------------------------------------------+
+//| Delete expired pending orders of one side                          |
+//+------------------------------------------------------------------+
+void ExpirePendingOrders(string sym, bool buySide, int expiryBars, int expiryMinutes)
+{
+   for(int i = OrdersTotal() - 1; i >= 0; i--)
+   {
+      if(!OrderSelect(i, SELECT_BY_POS, MODE_TRADES) || !IsOwnPendingOrder(sym, buySide)) continue;
+      int ticket = OrderTicket();
+      if(PendingOrderExpired(ticket, expiryBars, expiryMinutes) && trade.OrderDelete(ticket))
+         Print("Pending order ", ticket, " expired");
+   }
+}
+
+//+------------------------------------------------------------------+
+//| Delete all pending orders of one side                              |
+//+------------------------------------------------------------------+
+void CancelPendingOrders(string sym, bool buySide)
+{
+   for(int i = OrdersTotal() - 1; i >= 0; i--)
+   {
+      if(OrderSelect(i, SELECT_BY_POS, MODE_TRADES) && IsOwnPendingOrder(sym, buySide))
+         trade.OrderDelete(OrderTicket());
+   }
+}`;
+}
+
+/**
+ * Post-process the shared sub-generator output so it compiles against the MT4 compatibility layer.
+ * Must run after all sub-generators and before final assembly.
+ */
+export function adaptCodeForMQL4(code: GeneratedCode): void {
+  rewriteCustomIndicators(code);
+  rewriteNewsRefresh(code);
+  rewritePendingLifecycle(code);
+
+  code.globalVariables = code.globalVariables.map(rewriteLine);
+  code.onInit = code.onInit.map(rewriteLine);
+  code.onDeinit = code.onDeinit.map(rewriteLine);
+  code.onTick = code.onTick.map(rewriteLine);
+  code.helperFunctions = code.helperFunctions.map(rewriteLine);
+  if (code._managementPreLoop) code._managementPreLoop = code._managementPreLoop.map(rewriteLine);
+}
+
+export function generateCompatibilityLayer(): string {
+  return `//+------------------------------------------------------------------+
+//| MT4 compatibility layer                                            |
+//| Implements the MQL5 position, pending order and indicator buffer  |
+//| calls used by the strategy logic on top of the MT4 order pool.    |
+//+------------------------------------------------------------------+
+enum ENUM_POSITION_PROPERTY
+{
+   POSITION_TICKET,
+   POSITION_TIME,
+   POSITION_TYPE,
+   POSITION_MAGIC,
+   POSITION_VOLUME,
+   POSITION_PRICE_OPEN,
+   POSITION_SL,
+   POSITION_TP,
+   POSITION_PROFIT,
+   POSITION_SWAP,
+   POSITION_SYMBOL,
+   POSITION_COMMENT
+};
+
+enum ENUM_POSITION_TYPE
+{
+   POSITION_TYPE_BUY  = OP_BUY,
+   POSITION_TYPE_SELL = OP_SELL
+};
+
+enum ENUM_ORDER_PROPERTY
+{
+   ORDER_TICKET,
+   ORDER_TYPE,
+   ORDER_MAGIC,
+   ORDER_PRICE_OPEN,
+   ORDER_SYMBOL
+};
+
+enum ENUM_ORDER_TYPE_TIME
+{
+   ORDER_TIME_GTC,
+   ORDER_TIME_SPECIFIED
+};
+
+//--- MT4 reissues a position under a new ticket after a partial close.
+//--- Positions keep the ticket they were opened with (as in MQL5); these map it to the live ticket.
+int  g_positionIds[];
+int  g_positionTickets[];
+bool g_positionSelected = false;
+bool g_orderSelected = false;
+
+int PositionTicketById(int positionId)
+{
+   for(int i = ArraySize(g_positionIds) - 1; i >= 0; i--)
+      if(g_positionIds[i] == positionId) return g_positionTickets[i];
+   return positionId;
+}
+
+int PositionIdByTicket(int ticket)
+{
+   for(int i = ArraySize(g_positionTickets) - 1; i >= 0; i--)
+      if(g_positionTickets[i] == ticket) return g_positionIds[i];
+   return ticket;
+}
+
+void TrackPartialClose(int positionId, int closedTicket)
+{
+   string marker = "from #" + IntegerToString(closedTicket);
+   for(int i = OrdersTotal() - 1; i >= 0; i--)
+   {
+      if(!OrderSelect(i, SELECT_BY_POS, MODE_TRADES)) continue;
+      string comment = OrderComment();
+      int pos = StringFind(comment, marker);
+      if(pos < 0) continue;
+      ushort next = StringGetCharacter(comment, pos + StringLen(marker));
+      if(next >= '0' && next <= '9') continue;
+
+      int n = ArraySize(g_positionIds);
+      for(int j = 0; j < n; j++)
+      {
+         if(g_positionIds[j] == positionId)
+         {
+            g_positionTickets[j] = OrderTicket();
+            return;
+         }
+      }
+      ArrayResize(g_positionIds, n + 1);
+      ArrayResize(g_positionTickets, n + 1);
+      g_positionIds[n] = positionId;
+      g_positionTickets[n] = OrderTicket();
+      return;
+   }
+}
+
+//--- Positions (market orders)
+int PositionsTotal()
+{
+   return OrdersTotal();
+}
+
+ulong PositionGetTicket(int index)
+{
+   g_orderSelected = false;
+   g_positionSelected = OrderSelect(index, SELECT_BY_POS, MODE_TRADES) && OrderType() <= OP_SELL;
+   return g_positionSelected ? (ulong)PositionIdByTicket(OrderTicket()) : 0;
+}
+
+bool PositionSelectByTicket(ulong ticket)
+{
+   g_orderSelected = false;
+   g_positionSelected = ticket > 0
+      && OrderSelect(PositionTicketById((int)ticket), SELECT_BY_TICKET)
+      && OrderCloseTime() == 0 && OrderType() <= OP_SELL;
+   return g_positionSelected;
+}
+
+long PositionGetInteger(ENUM_POSITION_PROPERTY property)
+{
+   if(!g_positionSelected) return 0;
+   switch(property)
+   {
+      case POSITION_TICKET: return PositionIdByTicket(OrderTicket());
+      case POSITION_TIME:   return (long)OrderOpenTime();
+      case POSITION_TYPE:   return OrderType();
+      case POSITION_MAGIC:  return OrderMagicNumber();
+   }
+   return 0;
+}
+
+double PositionGetDouble(ENUM_POSITION_PROPERTY property)
+{
+   if(!g_positionSelected) return 0;
+   switch(property)
+   {
+      case POSITION_VOLUME:     return OrderLots();
+      case POSITION_PRICE_OPEN: return OrderOpenPrice();
+      case POSITION_SL:         return OrderStopLoss();
+      case POSITION_TP:         return OrderTakeProfit();
+      case POSITION_PROFIT:     return OrderProfit();
+      case POSITION_SWAP:       return OrderSwap();
+   }
+   return 0;
+}
+
+string PositionGetString(ENUM_POSITION_PROPERTY property)
+{
+   if(!g_positionSelected) return "";
+   switch(property)
+   {
+      case POSITION_SYMBOL:  return OrderSymbol();
+      case POSITION_COMMENT: return OrderComment();
+   }
+   return "";
+}
+
+//--- Pending orders (OrdersTotal() also counts market orders; OrderGetTicket returns 0 for them)
+ulong OrderGetTicket(int index)
+{
+   g_positionSelected = false;
+   g_orderSelected = OrderSelect(index, SELECT_BY_POS, MODE_TRADES) && OrderType() > OP_SELL;
+   return g_orderSelected ? (ulong)OrderTicket() : 0;
+}
+
+long OrderGetInteger(ENUM_ORDER_PROPERTY property)
+{
+   if(!g_orderSelected) return 0;
+   switch(property)
+   {
+      case ORDER_TICKET: return OrderTicket();
+      case ORDER_TYPE:   return OrderType();
+      case ORDER_MAGIC:  return OrderMagicNumber();
+   }
+   return 0;
+}
+
+double OrderGetDouble(ENUM_ORDER_PROPERTY property)
+{
+   if(!g_orderSelected) return 0;
+   if(property == ORDER_PRICE_OPEN) return OrderOpenPrice();
+   return 0;
+}
+
+string OrderGetString(ENUM_ORDER_PROPERTY property)
+{
+   if(!g_orderSelected) return "";
+   if(property == ORDER_SYMBOL) return OrderSymbol();
+   return "";
+}
+
+//--- CTrade subset used by the strategy logic, implemented with OrderSend/OrderClose/OrderModify
+class CTrade
+{
+private:
+   int      m_magic;
+   int      m_deviation;
+   int      m_retcode;
+   int      m_order;
+
+   bool     Result(bool ok)
+   {
+      m_retcode = ok ? 0 : GetLastError();
+      return ok;
+   }
+
+   bool     Market(int cmd, double volume, string symbol, double sl, double tp, string comment)
+   {
+      double price = (cmd == OP_BUY) ? SymbolInfoDouble(symbol, SYMBOL_ASK) : SymbolInfoDouble(symbol, SYMBOL_BID);
+      m_order = OrderSend(symbol, cmd, volume, price, m_deviation, sl, tp, comment, m_magic, 0, clrNONE);
+      return Result(m_order > 0);
+   }
+
+   bool     Pending(int cmd, double volume, double price, string symbol, double sl, double tp,
+                    ENUM_ORDER_TYPE_TIME typeTime, datetime expiration, string comment)
+   {
+      datetime expiry = (typeTime == ORDER_TIME_SPECIFIED) ? expiration : 0;
+      m_order = OrderSend(symbol, cmd, volume, price, m_deviation, sl, tp, comment, m_magic, expiry, clrNONE);
+      return Result(m_order > 0);
+   }
+
+public:
+            CTrade() : m_magic(0), m_deviation(10), m_retcode(0), m_order(0) {}
+
+   void     SetExpertMagicNumber(int magic) { m_magic = magic; }
+   void     SetDeviationInPoints(int deviation) { m_deviation = deviation; }
+   uint     ResultRetcode() { return (uint)m_retcode; }
+   ulong    ResultOrder() { return m_order > 0 ? (ulong)m_order : 0; }
+   string   ResultRetcodeDescription() { return "MT4 error " + IntegerToString(m_retcode); }
+
+   bool     Buy(double volume, string symbol, double price, double sl, double tp, string comment = "")
+   {
+      return Market(OP_BUY, volume, symbol, sl, tp, comment);
+   }
+
+   bool     Sell(double volume, string symbol, double price, double sl, double tp, string comment = "")
+   {
+      return Market(OP_SELL, volume, symbol, sl, tp, comment);
+   }
+
+   bool     BuyStop(double volume, double price, string symbol, double sl, double tp,
+                    ENUM_ORDER_TYPE_TIME typeTime = ORDER_TIME_GTC, datetime expiration = 0, string comment = "")
+   {
+      return Pending(OP_BUYSTOP, volume, price, symbol, sl, tp, typeTime, expiration, comment);
+   }
+
+   bool     BuyLimit(double volume, double price, string symbol, double sl, double tp,
+                     ENUM_ORDER_TYPE_TIME typeTime = ORDER_TIME_GTC, datetime expiration = 0, string comment = "")
+   {
+      return Pending(OP_BUYLIMIT, volume, price, symbol, sl, tp, typeTime, expiration, comment);
+   }
+
+   bool     SellStop(double volume, double price, string symbol, double sl, double tp,
+                     ENUM_ORDER_TYPE_TIME typeTime = ORDER_TIME_GTC, datetime expiration = 0, string comment = "")
+   {
+      return Pending(OP_SELLSTOP, volume, price, symbol, sl, tp, typeTime, expiration, comment);
+   }
+
+   bool     SellLimit(double volume, double price, string symbol, double sl, double tp,
+                      ENUM_ORDER_TYPE_TIME typeTime = ORDER_TIME_GTC, datetime expiration = 0, string comment = "")
+   {
+      return Pending(OP_SELLLIMIT, volume, price, symbol, sl, tp, typeTime, expiration, comment);
+   }
+
+   bool     PositionClose(ulong ticket)
+   {
+      if(!PositionSelectByTicket(ticket)) return Result(false);
+      double price = (OrderType() == OP_BUY) ? SymbolInfoDouble(OrderSymbol(), SYMBOL_BID) : SymbolInfoDouble(OrderSymbol(), SYMBOL_ASK);
+      return Result(OrderClose(OrderTicket(), OrderLots(), price, m_deviation, clrNONE));
+   }
+
+   bool     PositionClosePartial(ulong ticket, double volume)
+   {
+      if(!PositionSelectByTicket(ticket)) return Result(false);
+      int current = OrderTicket();
+      double price = (OrderType() == OP_BUY) ? SymbolInfoDouble(OrderSymbol(), SYMBOL_BID) : SymbolInfoDouble(OrderSymbol(), SYMBOL_ASK);
+      if(!Result(OrderClose(current, volume, price, m_deviation, clrNONE))) return false;
+      TrackPartialClose((int)ticket, current);
+      PositionSelectByTicket(ticket);
+      return true;
+   }
+
+   bool     PositionModify(ulong ticket, double sl, double tp)
+   {
+      if(!PositionSelectByTicket(ticket)) return Result(false);
+      return Result(OrderModify(OrderTicket(), OrderOpenPrice(), sl, tp, 0, clrNONE));
+   }
+
+   bool     OrderDelete(ulong ticket)
+   {
+      return Result(::OrderDelete((int)ticket, clrNONE));
+   }
+};
+
+//--- Trade object
+CTrade trade;
+
+//--- Indicator handles: MQL4 indicators return values directly, so a handle stores the
+//--- call parameters and CopyBuffer() replays them per bar.
+enum ENUM_MT4_INDICATOR
+{
+   MT4_IND_MA,
+   MT4_IND_RSI,
+   MT4_IND_MACD,
+   MT4_IND_BANDS,
+   MT4_IND_ATR,
+   MT4_IND_ADX,
+   MT4_IND_STOCHASTIC,
+   MT4_IND_CCI,
+   MT4_IND_ICHIMOKU,
+   MT4_IND_OBV,
+   MT4_IND_CUSTOM
+};
+
+struct SIndicatorHandle
+{
+   int    type;
+   string symbol;
+   int    timeframe;
+   double p[5];
+};
+
+SIndicatorHandle g_indicatorHandles[];
+
+int RegisterHandle(ENUM_MT4_INDICATOR type, string symbol, int timeframe,
+                   double p0 = 0, double p1 = 0, double p2 = 0, double p3 = 0, double p4 = 0)
+{
+   int h = ArraySize(g_indicatorHandles);
+   ArrayResize(g_indicatorHandles, h + 1);
+   g_indicatorHandles[h].type = type;
+   g_indicatorHandles[h].symbol = symbol;
+   g_indicatorHandles[h].timeframe = timeframe;
+   g_indicatorHandles[h].p[0] = p0;
+   g_indicatorHandles[h].p[1] = p1;
+   g_indicatorHandles[h].p[2] = p2;
+   g_indicatorHandles[h].p[3] = p3;
+   g_indicatorHandles[h].p[4] = p4;
+   return h;
+}
+
+int HandleMA(string symbol, int timeframe, int period, int maShift, int method, int price)
+{
+   return RegisterHandle(MT4_IND_MA, symbol, timeframe, period, maShift, method, price);
+}
+
+int HandleRSI(string symbol, int timeframe, int period, int price)
+{
+   return RegisterHandle(MT4_IND_RSI, symbol, timeframe, period, price);
+}
+
+int HandleMACD(string symbol, int timeframe, int fast, int slow, int signal, int price)
+{
+   return RegisterHandle(MT4_IND_MACD, symbol, timeframe, fast, slow, signal, price);
+}
+
+int HandleBands(string symbol, int timeframe, int period, int bandsShift, double deviation, int price)
+{
+   return RegisterHandle(MT4_IND_BANDS, symbol, timeframe, period, bandsShift, deviation, price);
+}
+
+int HandleATR(string symbol, int timeframe, int period)
+{
+   return RegisterHandle(MT4_IND_ATR, symbol, timeframe, period);
+}
+
+int HandleADX(string symbol, int timeframe, int period)
+{
+   return RegisterHandle(MT4_IND_ADX, symbol, timeframe, period);
+}
+
+int HandleStochastic(string symbol, int timeframe, int kPeriod, int dPeriod, int slowing, int method, int priceField)
+{
+   return RegisterHandle(MT4_IND_STOCHASTIC, symbol, timeframe, kPeriod, dPeriod, slowing, method, priceField);
+}
+
+int HandleCCI(string symbol, int timeframe, int period, int price)
+{
+   return RegisterHandle(MT4_IND_CCI, symbol, timeframe, period, price);
+}
+
+int HandleIchimoku(string symbol, int timeframe, int tenkan, int kijun, int senkouB)
+{
+   return RegisterHandle(MT4_IND_ICHIMOKU, symbol, timeframe, tenkan, kijun, senkouB);
+}
+
+int HandleOBV(string symbol, int timeframe, int price)
+{
+   return RegisterHandle(MT4_IND_OBV, symbol, timeframe, price);
+}
+
+int HandleCustom(int id, string symbol, int timeframe)
+{
+   return RegisterHandle(MT4_IND_CUSTOM, symbol, timeframe, id);
+}
+
+double IndicatorValue(int handle, int buffer, int shift)
+{
+   string s = g_indicatorHandles[handle].symbol;
+   int tf = g_indicatorHandles[handle].timeframe;
+   int p0 = (int)g_indicatorHandles[handle].p[0];
+   int p1 = (int)g_indicatorHandles[handle].p[1];
+   int p2 = (int)g_indicatorHandles[handle].p[2];
+   int p3 = (int)g_indicatorHandles[handle].p[3];
+   int p4 = (int)g_indicatorHandles[handle].p[4];
+   switch(g_indicatorHandles[handle].type)
+   {
+      case MT4_IND_MA:         return iMA(s, tf, p0, p1, p2, p3, shift);
+      case MT4_IND_RSI:        return iRSI(s, tf, p0, p1, shift);
+      case MT4_IND_MACD:       return iMACD(s, tf, p0, p1, p2, p3, buffer, shift);
+      case MT4_IND_BANDS:      return iBands(s, tf, p0, g_indicatorHandles[handle].p[2], p1, p3, buffer, shift);
+      case MT4_IND_ATR:        return iATR(s, tf, p0, shift);
+      case MT4_IND_ADX:        return iADX(s, tf, p0, PRICE_CLOSE, buffer, shift);
+      case MT4_IND_STOCHASTIC: return iStochastic(s, tf, p0, p1, p2, p3, p4, buffer, shift);
+      case MT4_IND_CCI:        return iCCI(s, tf, p0, p1, shift);
+      case MT4_IND_ICHIMOKU:   return iIchimoku(s, tf, p0, p1, p2, buffer + 1, shift); // MQL4 modes start at 1
+      case MT4_IND_OBV:        return iOBV(s, tf, p0, shift);
+      case MT4_IND_CUSTOM:     return CustomIndicatorValue(p0, buffer, shift);
+   }
+   return EMPTY_VALUE;
+}
+
+int CopyBuffer(int handle, int buffer, int start, int count, double &values[])
+{
+   if(handle < 0 || handle >= ArraySize(g_indicatorHandles)) return -1;
+   if(iBars(g_indicatorHandles[handle].symbol, g_indicatorHandles[handle].timeframe) < start + count) return -1;
+   ArrayResize(values, count);
+   bool series = ArrayGetAsSeries(values);
+   for(int k = 0; k < count; k++)
+   {
+      double value = IndicatorValue(handle, buffer, start + k);
+      if(series) values[k] = value;
+      else values[count - 1 - k] = value;
+   }
+   return count;
+}
+
+bool IndicatorRelease(int handle)
+{
+   return true;
+}
+
+`;
+}
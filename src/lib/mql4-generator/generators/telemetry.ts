@@ -0,0 +1,177 @@
+// MQL4 Telemetry Code Generator
+// Heartbeat and closed-trade updates for exported MT4 EAs. MT4 has no deal history, so trades are
+// read from the order history pool. The event-sourced track record is MQL5-only and not emitted.
+
+import type { GeneratedCode } from "@/lib/mql5-generator/types";
+import {
+  buildHttpPostMQL5,
+  buildJsonHelperMQL5,
+  buildSendErrorMQL5,
+  type TelemetryConfig,
+} from "@/lib/mql5-generator/generators/telemetry";
+
+/**
+ * Inject telemetry inputs, globals, OnInit, OnTick, and helper functions
+ * into the generated MQL4 code.
+ */
+export function generateTelemetryCode(code: GeneratedCode, config: TelemetryConfig): void {
+  code.inputs.push(
+    {
+      name: "InpTelemetryKey",
+      type: "string",
+      value: config.apiKey,
+      comment: "Telemetry API Key",
+      isOptimizable: false,
+      group: "Telemetry",
+    },
+    {
+      name: "InpTelemetryURL",
+      type: "string",
+      value: config.baseUrl,
+      comment: "Telemetry Server",
+      isOptimizable: false,
+      group: "Telemetry",
+    },
+    {
+      name: "InpHeartbeatInterval",
+      type: "int",
+      value: 300,
+      comment: "Heartbeat Interval (seconds)",
+      isOptimizable: false,
+      group: "Telemetry",
+    }
+  );
+
+  code.globalVariables.push(
+    "datetime g_lastHeartbeat = 0;",
+    "bool     g_telemetryEnabled = false;",
+    "int      g_prevTotalTrades = 0;"
+  );
+
+  code.onInit.push(
+    "g_telemetryEnabled = (StringLen(InpTelemetryKey) > 0 && !MQLInfoInteger(MQL_TESTER));"
+  );
+
+  code.onTick.push("");
+  code.onTick.push("//--- Telemetry heartbeat & trade detection");
+  code.onTick.push("if(g_telemetryEnabled)");
+  code.onTick.push("{");
+  code.onTick.push("   if(TimeCurrent() - g_lastHeartbeat >= InpHeartbeatInterval)");
+  code.onTick.push("   {");
+  code.onTick.push("      TelemetrySendHeartbeat();");
+  code.onTick.push("      g_lastHeartbeat = TimeCurrent();");
+  code.onTick.push("   }");
+  code.onTick.push("   int currentTotal = OrdersHistoryTotal();");
+  code.onTick.push("   if(currentTotal != g_prevTotalTrades)");
+  code.onTick.push("   {");
+  code.onTick.push("      TelemetrySendTradeUpdate();");
+  code.onTick.push("      g_prevTotalTrades = currentTotal;");
+  code.onTick.push("   }");
+  code.onTick.push("}");
+
+  code.helperFunctions.push(buildSendHeartbeatMQL4());
+  code.helperFunctions.push(buildSendTradeUpdateMQL4());
+  code.helperFunctions.push(buildSendErrorMQL5());
+  code.helperFunctions.push(buildJsonHelperMQL5());
+  code.helperFunctions.push(buildHttpPostMQL5());
+}
+
+function buildSendHeartbeatMQL4(): string {
+  return `void TelemetrySendHeartbeat()
+{
+   double bal = AccountInfoDouble(ACCOUNT_BALANCE);
+   double eq  = AccountInfoDouble(ACCOUNT_EQUITY);
+   double dd  = (bal > 0) ? ((bal - eq) / bal * 100.0) : 0;
+   int spread = (int)SymbolInfoInteger(_Symbol, SYMBOL_SPREAD);
+
+   // Mean absolute daily close-to-close move in % over the last 14 days (health regime)
+   double volatility = 0;
+   int volDays = 0;
+   for(int d = 1; d <= 14; d++)
+   {
+      double prevClose = iClose(_Symbol, PERIOD_D1, d + 1);
+      double close = iClose(_Symbol, PERIOD_D1, d);
+      if(prevClose <= 0 || close <= 0) continue;
+      volatility += MathAbs(MathLog(close / prevClose)) * 100.0;
+      volDays++;
+   }
+   if(volDays > 0) volatility /= volDays;
+
+   // Count own positions
+   int myOpen = 0;
+   for(int i = PositionsTotal() - 1; i >= 0; i--)
+   {
+      ulong ticket = PositionGetTicket(i);
+      if(ticket > 0 && PositionGetInteger(POSITION_MAGIC) == InpMagicNumber
+         && PositionGetString(POSITION_SYMBOL) == _Symbol)
+         myOpen++;
+   }
+
+   // Count closed orders for total trades
+   int totalDeals = 0;
+   double totalPL = 0;
+   for(int i = OrdersHistoryTotal() - 1; i >= 0; i--)
+   {
+      if(!OrderSelect(i, SELECT_BY_POS, MODE_HISTORY)) continue;
+      if(OrderType() > OP_SELL || OrderMagicNumber() != InpMagicNumber || OrderSymbol() != _Symbol) continue;
+      totalDeals++;
+      totalPL += OrderProfit();
+   }
+
+   ENUM_ACCOUNT_TRADE_MODE tradeMode = (ENUM_ACCOUNT_TRADE_MODE)AccountInfoInteger(ACCOUNT_TRADE_MODE);
+   string accMode = (tradeMode == ACCOUNT_TRADE_MODE_DEMO || tradeMode == ACCOUNT_TRADE_MODE_CONTEST) ? "PAPER" : "LIVE";
+
+   string json = "{"
+      + TelemetryJsonPair("mode", accMode) + ","
+      + TelemetryJsonPair("symbol", _Symbol) + ","
+      + TelemetryJsonPair("timeframe", EnumToString((ENUM_TIMEFRAMES)Period())) + ","
+      + TelemetryJsonPair("broker", AccountInfoString(ACCOUNT_COMPANY)) + ","
+      + TelemetryJsonPair("accountNumber", IntegerToString(AccountInfoInteger(ACCOUNT_LOGIN))) + ","
+      + TelemetryJsonNum("balance", bal) + ","
+      + TelemetryJsonNum("equity", eq) + ","
+      + TelemetryJsonInt("openTrades", myOpen) + ","
+      + TelemetryJsonInt("totalTrades", totalDeals) + ","
+      + TelemetryJsonNum("totalProfit", totalPL) + ","
+      + TelemetryJsonNum("drawdown", dd) + ","
+      + TelemetryJsonInt("spread", spread) + ","
+      + "\\"volatility\\":" + DoubleToString(volatility, 4)
+      + "}";
+
+   TelemetryHttpPost("/heartbeat", json);
+}`;
+}
+
+function buildSendTradeUpdateMQL4(): string {
+  return `void TelemetrySendTradeUpdate()
+{
+   int total = OrdersHistoryTotal();
+
+   // Send last few closed orders
+   for(int i = MathMax(0, total - 5); i < total; i++)
+   {
+      if(!OrderSelect(i, SELECT_BY_POS, MODE_HISTORY)) continue;
+      if(OrderType() > OP_SELL) continue;
+      if(OrderMagicNumber() != InpMagicNumber) continue;
+      if(OrderSymbol() != _Symbol) continue;
+
+      ENUM_ACCOUNT_TRADE_MODE tradeMode = (ENUM_ACCOUNT_TRADE_MODE)AccountInfoInteger(ACCOUNT_TRADE_MODE);
+      string accMode = (tradeMode == ACCOUNT_TRADE_MODE_DEMO || tradeMode == ACCOUNT_TRADE_MODE_CONTEST) ? "PAPER" : "LIVE";
+
+      string json = "{"
+         + TelemetryJsonPair("mode", accMode) + ","
+         + TelemetryJsonPair("ticket", IntegerToString(OrderTicket())) + ","
+         + TelemetryJsonPair("symbol", OrderSymbol()) + ","
+         + TelemetryJsonPair("type", (OrderType() == OP_BUY) ? "BUY" : "SELL") + ","
+         + TelemetryJsonNum("openPrice", OrderOpenPrice()) + ","
+         + TelemetryJsonNum("closePrice", OrderClosePrice()) + ","
+         + TelemetryJsonNum("lots", OrderLots()) + ","
+         + TelemetryJsonNum("profit", OrderProfit()) + ","
+         + TelemetryJsonInt("magicNumber", OrderMagicNumber()) + ","
+         + TelemetryJsonPair("openTime", TimeToString(OrderOpenTime())) + ","
+         + TelemetryJsonPair("closeTime", TimeToString(OrderCloseTime()))
+         + "}";
+
+      TelemetryHttpPost("/trade", json);
+   }
+}`;
+}
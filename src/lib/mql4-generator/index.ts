@@ -0,0 +1,3 @@
+// MQL4 Generator - Main Export
+
+export { generateMQL4Code, validateMQL4Build, MQL4ValidationError } from "./generator";
@@ -0,0 +1,407 @@
+// MQL4 Code Templates
+// Wraps the MQL5 templates where the emitted code is valid MQL4 and replaces the sections that
+// depend on MT5-only APIs (deal history, OrderCalcMargin, trade server return codes).
+
+import type { GeneratorContext, OptimizableInput } from "@/lib/mql5-generator/types";
+import {
+  buildRiskManagementCode,
+  generateFileHeader as generateMQL5FileHeader,
+  generateInputsSection as generateMQL5InputsSection,
+  generateSharedHelperFunctions,
+} from "@/lib/mql5-generator/templates";
+
+export { generateGlobalVariablesSection, generateOnDeinit } from "@/lib/mql5-generator/templates";
+
+/** Timeframes present in MQL5 but missing from the MT4 ENUM_TIMEFRAMES. */
+const MT5_ONLY_TIMEFRAME_ENUM_LINE = /^ {3}TF_H(2|3|6|8|12) +=/;
+
+export function generateFileHeader(ctx: GeneratorContext): string {
+  return generateMQL5FileHeader(ctx).replace(/^(#property version .*)$/m, "$1\n#property strict");
+}
+
+export function generateInputsSection(inputs: OptimizableInput[]): string {
+  return generateMQL5InputsSection(inputs)
+    .split("\n")
+    .filter((line) => !MT5_ONLY_TIMEFRAME_ENUM_LINE.test(line))
+    .join("\n");
+}
+
+export function generateOnInit(ctx: GeneratorContext, initCode: string[]): string {
+  return `//+------------------------------------------------------------------+
+//| Expert initialization function                                     |
+//+------------------------------------------------------------------+
+int OnInit()
+{
+   //--- Validate symbol allows full trading
+   if(SymbolInfoInteger(_Symbol, SYMBOL_TRADE_MODE) != SYMBOL_TRADE_MODE_FULL)
+   {
+      Print("Symbol ", _Symbol, " does not allow full trading (mode: ",
+            EnumToString((ENUM_SYMBOL_TRADE_MODE)SymbolInfoInteger(_Symbol, SYMBOL_TRADE_MODE)), ")");
+      return(INIT_FAILED);
+   }
+
+   //--- Set magic number for trade operations
+   trade.SetExpertMagicNumber(InpMagicNumber);
+
+   //--- Set allowed slippage
+   trade.SetDeviationInPoints(InpMaxSlippage);
+
+${initCode.map((line) => "   " + line).join("\n")}
+
+   //--- Display strategy info on chart
+   ShowStrategyOverlay();
+
+   Print("${ctx.projectName} initialized successfully on ", _Symbol, " ", EnumToString((ENUM_TIMEFRAMES)Period()));
+   return(INIT_SUCCEEDED);
+}
+
+`;
+}
+
+export function generateOnTick(
+  ctx: GeneratorContext,
+  tickCode: string[],
+  maxIndicatorPeriod: number = 0
+): string {
+  const riskMgmt = buildRiskManagementCode(ctx);
+  const dailyPnlCode = riskMgmt.dailyPnlCode ? buildDailyPnlCode(ctx) : "";
+  const cooldownCode = riskMgmt.cooldownCode ? buildCooldownCode(ctx) : "";
+  const minBars = Math.max(maxIndicatorPeriod * 3, 100);
+
+  return `//+------------------------------------------------------------------+
+//| Expert tick function                                               |
+//+------------------------------------------------------------------+
+void OnTick()
+{
+   //--- Check if trading is allowed
+   if(!TerminalInfoInteger(TERMINAL_TRADE_ALLOWED)) return;
+   if(!MQLInfoInteger(MQL_TRADE_ALLOWED)) return;
+
+   //--- Check for new bar (optional: only trade on new bars)
+   static datetime lastBarTime = 0;
+   datetime currentBarTime = iTime(_Symbol, PERIOD_CURRENT, 0);
+   bool isNewBar = (currentBarTime != lastBarTime);
+   if(isNewBar) lastBarTime = currentBarTime;
+
+   //--- Check minimum bars available
+   if(iBars(_Symbol, PERIOD_CURRENT) < ${minBars})
+   {
+      static bool barsWarned = false;
+      if(!barsWarned) { Print("Waiting for minimum bars (${minBars}) on ", _Symbol); barsWarned = true; }
+      return;
+   }
+
+${riskMgmt.totalDrawdownCode}${riskMgmt.equityTargetCode}${dailyPnlCode}${cooldownCode}${riskMgmt.minBarsCode}
+   //--- Count current positions
+   int positionsCount = CountPositions();
+
+${tickCode.map((line) => "   " + line).join("\n")}
+}
+
+`;
+}
+
+/** Daily P&L from the MT4 order history pool (MQL5 reads deal history instead). */
+function buildDailyPnlCode(ctx: GeneratorContext): string {
+  let code = `
+   //--- Daily P&L Protection
+   {
+      double dailyPnL = 0;
+      datetime todayStart = iTime(_Symbol, PERIOD_D1, 0);
+
+      // Sum closed trades today
+      for(int i = OrdersHistoryTotal() - 1; i >= 0; i--)
+      {
+         if(!OrderSelect(i, SELECT_BY_POS, MODE_HISTORY)) continue;
+         if(OrderType() <= OP_SELL && OrderMagicNumber() == InpMagicNumber
+            && OrderSymbol() == _Symbol && OrderCloseTime() >= todayStart)
+         {
+            dailyPnL += OrderProfit() + OrderSwap() + OrderCommission();
+         }
+      }
+
+      // Add floating P&L
+      for(int i = PositionsTotal() - 1; i >= 0; i--)
+      {
+         ulong ticket = PositionGetTicket(i);
+         if(ticket > 0 && PositionGetInteger(POSITION_MAGIC) == InpMagicNumber
+            && PositionGetString(POSITION_SYMBOL) == _Symbol)
+            dailyPnL += PositionGetDouble(POSITION_PROFIT) + PositionGetDouble(POSITION_SWAP);
+      }
+
+      double balance = AccountInfoDouble(ACCOUNT_BALANCE);
+      double dailyPnLPercent = (balance > 0) ? (dailyPnL / balance) * 100.0 : 0;
+
+      // Reset daily limit flags on new day
+      static datetime lastPnLDay = 0;
+      static bool profitLimitHit = false;
+      static bool lossLimitHit = false;
+      if(todayStart != lastPnLDay)
+      {
+         lastPnLDay = todayStart;
+         profitLimitHit = false;
+         lossLimitHit = false;
+      }
+      if(profitLimitHit || lossLimitHit) return;
+`;
+  if (ctx.maxDailyProfitPercent > 0) {
+    code += `
+      if(dailyPnLPercent >= ${ctx.maxDailyProfitPercent})
+      {
+         CloseAllPositions();
+         Print("Daily profit target reached: ", DoubleToString(dailyPnLPercent, 2), "%");
+         profitLimitHit = true;
+         return;
+      }
+`;
+  }
+  if (ctx.maxDailyLossPercent > 0) {
+    code += `
+      if(dailyPnLPercent <= -${ctx.maxDailyLossPercent})
+      {
+         CloseAllPositions();
+         Print("Daily loss limit reached: ", DoubleToString(dailyPnLPercent, 2), "%");
+         lossLimitHit = true;
+         return;
+      }
+`;
+  }
+  return code + "   }\n";
+}
+
+/** Cooldown after loss. The MT4 history pool is not sorted by close time, so every order is scanned. */
+function buildCooldownCode(ctx: GeneratorContext): string {
+  return `
+   //--- Cooldown After Loss
+   {
+      static datetime gLastLossTime = 0;
+      datetime todayStart = iTime(_Symbol, PERIOD_D1, 0);
+      for(int d = OrdersHistoryTotal() - 1; d >= 0; d--)
+      {
+         if(!OrderSelect(d, SELECT_BY_POS, MODE_HISTORY)) continue;
+         if(OrderType() <= OP_SELL && OrderMagicNumber() == InpMagicNumber
+            && OrderSymbol() == _Symbol && OrderCloseTime() >= todayStart)
+         {
+            double dealProfit = OrderProfit() + OrderSwap() + OrderCommission();
+            if(dealProfit < 0 && OrderCloseTime() > gLastLossTime)
+               gLastLossTime = OrderCloseTime();
+         }
+      }
+      if(gLastLossTime > 0 && TimeCurrent() - gLastLossTime < ${ctx.cooldownAfterLossMinutes} * 60)
+         return;
+   }
+`;
+}
+
+export function generateHelperFunctions(): string {
+  const shared = generateSharedHelperFunctions().replace(
+    /EnumToString\(Period\(\)\)/g,
+    "EnumToString((ENUM_TIMEFRAMES)Period())"
+  );
+  return generateCoreHelperFunctions() + "\n\n" + shared;
+}
+
+function buildOpenFunction(side: "Buy" | "Sell"): string {
+  const isBuy = side === "Buy";
+  const priceVar = isBuy ? "ask" : "bid";
+  const priceSym = isBuy ? "SYMBOL_ASK" : "SYMBOL_BID";
+  const slSign = isBuy ? "-" : "+";
+  const tpSign = isBuy ? "+" : "-";
+  const slGap = isBuy ? `${priceVar} - slPrice` : `slPrice - ${priceVar}`;
+  const tpGap = isBuy ? `tpPrice - ${priceVar}` : `${priceVar} - tpPrice`;
+
+  return `//+------------------------------------------------------------------+
+//| ${`Open ${side} Position`.padEnd(67)}|
+//+------------------------------------------------------------------+
+bool Open${side}(double lots, double sl = 0, double tp = 0)
+{
+   //--- Pre-trade margin check
+   ResetLastError();
+   double freeAfter = AccountFreeMarginCheck(_Symbol, ${isBuy ? "OP_BUY" : "OP_SELL"}, lots);
+   if(freeAfter <= 0 || GetLastError() == ERR_NOT_ENOUGH_MONEY)
+   {
+      Print("Open${side}: insufficient margin for ", DoubleToString(lots, 2),
+            " lots. Free: ", DoubleToString(AccountInfoDouble(ACCOUNT_MARGIN_FREE), 2));
+      return false;
+   }
+
+   int retries = 3;
+   for(int attempt = 0; attempt < retries; attempt++)
+   {
+      RefreshRates();
+      double ${priceVar} = SymbolInfoDouble(_Symbol, ${priceSym});
+      double slPrice = (sl > 0) ? NormalizeDouble(${priceVar} ${slSign} sl * _Point, _Digits) : 0;
+      double tpPrice = (tp > 0) ? NormalizeDouble(${priceVar} ${tpSign} tp * _Point, _Digits) : 0;
+
+      //--- Enforce minimum stops level
+      double stopsLvl = (double)SymbolInfoInteger(_Symbol, SYMBOL_TRADE_STOPS_LEVEL) * _Point;
+      if(stopsLvl > 0)
+      {
+         if(slPrice > 0 && ${slGap} < stopsLvl) slPrice = NormalizeDouble(${priceVar} ${slSign} stopsLvl, _Digits);
+         if(tpPrice > 0 && ${tpGap} < stopsLvl) tpPrice = NormalizeDouble(${priceVar} ${tpSign} stopsLvl, _Digits);
+      }
+
+      if(trade.${side}(lots, _Symbol, ${priceVar}, slPrice, tpPrice, InpTradeComment))
+         return true;
+
+      uint resultCode = trade.ResultRetcode();
+      //--- Retryable errors
+      if(resultCode == ERR_REQUOTE || resultCode == ERR_PRICE_CHANGED || resultCode == ERR_OFF_QUOTES
+         || resultCode == ERR_NO_CONNECTION || resultCode == ERR_TRADE_CONTEXT_BUSY)
+      {
+         Print("Open${side} retry ", attempt + 1, "/", retries, ": ", trade.ResultRetcodeDescription());
+         Sleep(200 * (attempt + 1));
+         continue;
+      }
+      //--- Non-retryable errors
+      if(resultCode == ERR_NOT_ENOUGH_MONEY)
+         Print("Open${side}: insufficient funds for ", DoubleToString(lots, 2), " lots");
+      else if(resultCode == ERR_INVALID_TRADE_VOLUME)
+         Print("Open${side}: invalid volume ", DoubleToString(lots, 2),
+               " (min=", DoubleToString(SymbolInfoDouble(_Symbol, SYMBOL_VOLUME_MIN), 2),
+               " max=", DoubleToString(SymbolInfoDouble(_Symbol, SYMBOL_VOLUME_MAX), 2), ")");
+      else
+         Print("Open${side} failed: ", trade.ResultRetcodeDescription(), " (code: ", resultCode, ")");
+      return false;
+   }
+   Print("Open${side} failed after ", retries, " retries");
+   return false;
+}`;
+}
+
+function buildCloseFunction(name: string, title: string, typeFilter: string | null): string {
+  return `//+------------------------------------------------------------------+
+//| ${title.padEnd(67)}|
+//+------------------------------------------------------------------+
+void ${name}()
+{
+   for(int i = PositionsTotal() - 1; i >= 0; i--)
+   {
+      ulong ticket = PositionGetTicket(i);
+      if(ticket > 0)
+      {
+         if(PositionGetInteger(POSITION_MAGIC) == InpMagicNumber &&
+            PositionGetString(POSITION_SYMBOL) == _Symbol${
+              typeFilter
+                ? ` &&\n            PositionGetInteger(POSITION_TYPE) == ${typeFilter}`
+                : ""
+            })
+         {
+            if(!trade.PositionClose(ticket))
+               Print("${name}: failed to close ticket ", ticket, " - ", trade.ResultRetcodeDescription());
+         }
+      }
+   }
+}`;
+}
+
+function generateCoreHelperFunctions(): string {
+  return `//+------------------------------------------------------------------+
+//| Count positions for this EA                                        |
+//+------------------------------------------------------------------+
+int CountPositions()
+{
+   int count = 0;
+   for(int i = PositionsTotal() - 1; i >= 0; i--)
+   {
+      ulong ticket = PositionGetTicket(i);
+      if(ticket > 0)
+      {
+         if(PositionGetInteger(POSITION_MAGIC) == InpMagicNumber &&
+            PositionGetString(POSITION_SYMBOL) == _Symbol)
+         {
+            count++;
+         }
+      }
+   }
+   return count;
+}
+
+//+------------------------------------------------------------------+
+//| Count positions by type                                            |
+//+------------------------------------------------------------------+
+int CountPositionsByType(ENUM_POSITION_TYPE posType)
+{
+   int count = 0;
+   for(int i = PositionsTotal() - 1; i >= 0; i--)
+   {
+      ulong ticket = PositionGetTicket(i);
+      if(ticket > 0)
+      {
+         if(PositionGetInteger(POSITION_MAGIC) == InpMagicNumber &&
+            PositionGetString(POSITION_SYMBOL) == _Symbol &&
+            PositionGetInteger(POSITION_TYPE) == posType)
+         {
+            count++;
+         }
+      }
+   }
+   return count;
+}
+
+${buildOpenFunction("Buy")}
+
+${buildOpenFunction("Sell")}
+
+${buildCloseFunction("CloseAllPositions", "Close All Positions", null)}
+
+${buildCloseFunction("CloseBuyPositions", "Close Buy Positions", "POSITION_TYPE_BUY")}
+
+${buildCloseFunction("CloseSellPositions", "Close Sell Positions", "POSITION_TYPE_SELL")}
+
+//+------------------------------------------------------------------+
+//| Calculate Lot Size based on Risk Percentage                        |
+//| Note: slPips parameter is in POINTS (not pips).                    |
+//+------------------------------------------------------------------+
+double CalculateLotSize(double riskPercent, double slPips)
+{
+   double minLot = SymbolInfoDouble(_Symbol, SYMBOL_VOLUME_MIN);
+   //--- Clamp risk percent to valid range
+   if(riskPercent < 0.1 || riskPercent > 100.0)
+   {
+      Print("WARNING: Risk percent ", DoubleToString(riskPercent, 2), " out of range [0.1..100]. Clamping.");
+      riskPercent = MathMax(0.1, MathMin(100.0, riskPercent));
+   }
+   if(slPips <= 0)
+   {
+      Print("WARNING: CalculateLotSize called with slPips=0, using minimum lot. Check SL configuration.");
+      return minLot;
+   }
+
+   if(minLot <= 0)
+   {
+      Print("WARNING: SYMBOL_VOLUME_MIN is 0 for ", _Symbol, ", defaulting to 0.01");
+      minLot = 0.01;
+   }
+
+   double balance = InpUseEquityForRisk ? AccountInfoDouble(ACCOUNT_EQUITY) : AccountInfoDouble(ACCOUNT_BALANCE);
+   if(balance <= 0)
+   {
+      Print("WARNING: Account balance/equity is 0, using minimum lot.");
+      return minLot;
+   }
+
+   double tickValue = SymbolInfoDouble(_Symbol, SYMBOL_TRADE_TICK_VALUE);
+   double tickSize = SymbolInfoDouble(_Symbol, SYMBOL_TRADE_TICK_SIZE);
+   double lotStep = SymbolInfoDouble(_Symbol, SYMBOL_VOLUME_STEP);
+   double maxLot = SymbolInfoDouble(_Symbol, SYMBOL_VOLUME_MAX);
+
+   double pipValue = (tickSize > 0) ? tickValue * (_Point / tickSize) : 0;
+   if(pipValue <= 0)
+   {
+      Print("WARNING: Pip value is 0 (tickValue=", DoubleToString(tickValue, 8),
+            " tickSize=", DoubleToString(tickSize, 8), "), using minimum lot.");
+      return minLot;
+   }
+
+   double riskAmount = balance * riskPercent / 100.0;
+   double lots = riskAmount / (slPips * pipValue);
+
+   //--- Normalize lot size
+   lots = MathFloor(lots / lotStep) * lotStep;
+   lots = MathMax(minLot, MathMin(maxLot, lots));
+   int lotDigits = (int)MathMax(-MathLog10(lotStep), 0);
+
+   return NormalizeDouble(lots, lotDigits);
+}`;
+}
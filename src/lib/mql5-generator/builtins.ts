@@ -0,0 +1,329 @@
+/**
+ * MQL5 names the linter treats as declared: the built-in functions, constants, predefined
+ * variables and types the generated EAs use, plus the standard library classes they include.
+ * Add a name here when the generator starts calling a new platform API.
+ */
+
+export const MQL5_BUILTIN_TYPES = new Set([
+  "CTrade",
+  "CPositionInfo",
+  "COrderInfo",
+  "CSymbolInfo",
+  "CAccountInfo",
+  "MqlDateTime",
+  "MqlRates",
+  "MqlTick",
+  "MqlTradeRequest",
+  "MqlTradeResult",
+  "MqlTradeCheckResult",
+  "MqlTradeTransaction",
+  "MqlCalendarValue",
+  "MqlCalendarEvent",
+  "MqlCalendarCountry",
+  "ENUM_TIMEFRAMES",
+  "ENUM_MA_METHOD",
+  "ENUM_APPLIED_PRICE",
+  "ENUM_APPLIED_VOLUME",
+  "ENUM_STO_PRICE",
+  "ENUM_ORDER_TYPE",
+  "ENUM_ORDER_TYPE_TIME",
+  "ENUM_ORDER_TYPE_FILLING",
+  "ENUM_ORDER_STATE",
+  "ENUM_POSITION_TYPE",
+  "ENUM_DEAL_TYPE",
+  "ENUM_DEAL_ENTRY",
+  "ENUM_DEAL_REASON",
+  "ENUM_SYMBOL_TRADE_MODE",
+  "ENUM_ACCOUNT_MARGIN_MODE",
+  "ENUM_TRADE_TRANSACTION_TYPE",
+  "ENUM_DAY_OF_WEEK",
+  "ENUM_OBJECT",
+  "ENUM_ANCHOR_POINT",
+  "ENUM_BASE_CORNER",
+]);
+
+export const MQL5_BUILTIN_FUNCTIONS = new Set([
+  // Account, symbol and terminal
+  "AccountInfoDouble",
+  "AccountInfoInteger",
+  "AccountInfoString",
+  "SymbolInfoDouble",
+  "SymbolInfoInteger",
+  "SymbolInfoString",
+  "SymbolInfoTick",
+  "SymbolSelect",
+  "SymbolsTotal",
+  "SymbolName",
+  "TerminalInfoInteger",
+  "TerminalInfoString",
+  "MQLInfoInteger",
+  "MQLInfoString",
+  "Period",
+  "Symbol",
+  "Digits",
+  "Point",
+  "Bars",
+  "BarsCalculated",
+  "PeriodSeconds",
+  "GetLastError",
+  "ResetLastError",
+  "IsStopped",
+  // Series access
+  "iTime",
+  "iOpen",
+  "iHigh",
+  "iLow",
+  "iClose",
+  "iVolume",
+  "iTickVolume",
+  "iRealVolume",
+  "iSpread",
+  "iBars",
+  "iBarShift",
+  "iHighest",
+  "iLowest",
+  "CopyBuffer",
+  "CopyRates",
+  "CopyTime",
+  "CopyOpen",
+  "CopyHigh",
+  "CopyLow",
+  "CopyClose",
+  "CopyTickVolume",
+  "CopyRealVolume",
+  "CopySpread",
+  "CopyTicks",
+  "SeriesInfoInteger",
+  "IndicatorRelease",
+  // Indicators
+  "iAC",
+  "iAD",
+  "iADX",
+  "iADXWilder",
+  "iAlligator",
+  "iAMA",
+  "iAO",
+  "iATR",
+  "iBands",
+  "iBearsPower",
+  "iBullsPower",
+  "iBWMFI",
+  "iCCI",
+  "iChaikin",
+  "iCustom",
+  "iDEMA",
+  "iDeMarker",
+  "iEnvelopes",
+  "iForce",
+  "iFractals",
+  "iFrAMA",
+  "iGator",
+  "iIchimoku",
+  "iMA",
+  "iMACD",
+  "iMFI",
+  "iMomentum",
+  "iOBV",
+  "iOsMA",
+  "iRSI",
+  "iRVI",
+  "iSAR",
+  "iStdDev",
+  "iStochastic",
+  "iTEMA",
+  "iTriX",
+  "iVIDyA",
+  "iVolumes",
+  "iWPR",
+  // Positions, orders, deals and history
+  "PositionsTotal",
+  "PositionGetTicket",
+  "PositionGetSymbol",
+  "PositionSelect",
+  "PositionSelectByTicket",
+  "PositionGetDouble",
+  "PositionGetInteger",
+  "PositionGetString",
+  "OrdersTotal",
+  "OrderGetTicket",
+  "OrderSelect",
+  "OrderGetDouble",
+  "OrderGetInteger",
+  "OrderGetString",
+  "OrderCalcProfit",
+  "OrderCalcMargin",
+  "OrderSend",
+  "OrderCheck",
+  "HistorySelect",
+  "HistorySelectByPosition",
+  "HistoryOrderSelect",
+  "HistoryOrdersTotal",
+  "HistoryOrderGetTicket",
+  "HistoryOrderGetDouble",
+  "HistoryOrderGetInteger",
+  "HistoryOrderGetString",
+  "HistoryDealSelect",
+  "HistoryDealsTotal",
+  "HistoryDealGetTicket",
+  "HistoryDealGetDouble",
+  "HistoryDealGetInteger",
+  "HistoryDealGetString",
+  // Time
+  "TimeCurrent",
+  "TimeLocal",
+  "TimeGMT",
+  "TimeTradeServer",
+  "TimeToStruct",
+  "StructToTime",
+  "TimeToString",
+  "StringToTime",
+  "GetTickCount",
+  "GetMicrosecondCount",
+  // Math
+  "MathAbs",
+  "MathMax",
+  "MathMin",
+  "MathPow",
+  "MathSqrt",
+  "MathRound",
+  "MathFloor",
+  "MathCeil",
+  "MathLog",
+  "MathLog10",
+  "MathExp",
+  "MathMod",
+  "MathIsValidNumber",
+  "MathRand",
+  "MathSrand",
+  "MathArctan",
+  "MathSin",
+  "MathCos",
+  "MathTan",
+  "NormalizeDouble",
+  "fabs",
+  "fmax",
+  "fmin",
+  // Strings and conversion
+  "StringLen",
+  "StringFind",
+  "StringSubstr",
+  "StringReplace",
+  "StringSplit",
+  "StringFormat",
+  "StringToLower",
+  "StringToUpper",
+  "StringTrimLeft",
+  "StringTrimRight",
+  "StringToDouble",
+  "StringToInteger",
+  "StringCompare",
+  "StringConcatenate",
+  "StringGetCharacter",
+  "StringToCharArray",
+  "CharArrayToString",
+  "ShortToString",
+  "IntegerToString",
+  "DoubleToString",
+  "EnumToString",
+  "ColorToString",
+  "CharToString",
+  "PrintFormat",
+  "Print",
+  "Alert",
+  "Comment",
+  // Arrays
+  "ArraySize",
+  "ArrayResize",
+  "ArraySetAsSeries",
+  "ArrayGetAsSeries",
+  "ArrayInitialize",
+  "ArrayFill",
+  "ArrayCopy",
+  "ArrayFree",
+  "ArrayRemove",
+  "ArraySort",
+  "ArrayMaximum",
+  "ArrayMinimum",
+  "ArrayRange",
+  // Chart objects
+  "ObjectCreate",
+  "ObjectDelete",
+  "ObjectFind",
+  "ObjectSetInteger",
+  "ObjectSetDouble",
+  "ObjectSetString",
+  "ObjectGetInteger",
+  "ObjectGetDouble",
+  "ObjectGetString",
+  "ObjectsDeleteAll",
+  "ObjectsTotal",
+  "ChartRedraw",
+  "ChartID",
+  "ChartGetInteger",
+  "ChartSetInteger",
+  // Files, globals, web and calendar
+  "FileOpen",
+  "FileClose",
+  "FileWrite",
+  "FileWriteString",
+  "FileReadString",
+  "FileIsEnding",
+  "FileIsExist",
+  "FileDelete",
+  "FileFlush",
+  "FileSeek",
+  "FileSize",
+  "GlobalVariableSet",
+  "GlobalVariableGet",
+  "GlobalVariableCheck",
+  "GlobalVariableDel",
+  "GlobalVariableTemp",
+  "WebRequest",
+  "CryptEncode",
+  "EventSetTimer",
+  "EventKillTimer",
+  "Sleep",
+  "SendNotification",
+  "SendMail",
+  "CalendarValueHistory",
+  "CalendarEventById",
+  "CalendarCountryById",
+  "ExpertRemove",
+]);
+
+/** Predefined variables and constants */
+const MQL5_BUILTIN_IDENTIFIERS = new Set([
+  "_Symbol",
+  "_Period",
+  "_Point",
+  "_Digits",
+  "_LastError",
+  "_StopFlag",
+  "INVALID_HANDLE",
+  "EMPTY_VALUE",
+  "WRONG_VALUE",
+  "WHOLE_ARRAY",
+  "CHARTS_MAX",
+  "clrNONE",
+  "DBL_MAX",
+  "DBL_MIN",
+  "DBL_EPSILON",
+  "INT_MAX",
+  "INT_MIN",
+  "LONG_MAX",
+  "ULONG_MAX",
+  "M_PI",
+  "CP_ACP",
+  "CP_UTF8",
+  "INIT_SUCCEEDED",
+  "INIT_FAILED",
+  "INIT_PARAMETERS_INCORRECT",
+]);
+
+/** Prefixes of the platform enums (PERIOD_H1, ORDER_TYPE_BUY_STOP, OBJPROP_COLOR, clrRed, ...) */
+const BUILTIN_ENUM_CONSTANT =
+  /^((PERIOD|ORDER|POSITION|SYMBOL|DEAL|ACCOUNT|MODE|PRICE|REASON|TERMINAL|MQL|OBJ|OBJPROP|CORNER|ANCHOR|STO|VOLUME|TRADE|FILE|SERIES|STYLE|ALIGN|BORDER|CHART|CALENDAR|SEEK|TIME)_[A-Z0-9_]+|clr[A-Z][A-Za-z]*)$/;
+
+export function isBuiltinConstant(name: string): boolean {
+  return MQL5_BUILTIN_IDENTIFIERS.has(name) || BUILTIN_ENUM_CONSTANT.test(name);
+}
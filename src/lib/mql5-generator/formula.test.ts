@@ -0,0 +1,203 @@
+import { describe, it, expect } from "vitest";
+import type { BuildJsonSchema, BuilderEdge, BuilderNode } from "@/types/builder";
+import { generateMQL5Code } from "./generator";
+import { checkFormula, getFormulaInputs, parseFormula, type FormulaInput } from "./formula";
+
+function makeNode(id: string, type: string, data: Record<string, unknown> = {}): BuilderNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { label: type, ...data } } as BuilderNode;
+}
+
+function edge(source: string, target: string): BuilderEdge {
+  return { id: `${source}-${target}`, source, target };
+}
+
+const rsi = makeNode("rsi", "rsi", {
+  label: "RSI",
+  category: "indicator",
+  indicatorType: "rsi",
+  timeframe: "H1",
+  period: 14,
+  appliedPrice: "CLOSE",
+  overboughtLevel: 70,
+  oversoldLevel: 30,
+});
+const macd = makeNode("macd", "macd", {
+  label: "MACD",
+  category: "indicator",
+  indicatorType: "macd",
+  timeframe: "H4",
+  fastPeriod: 12,
+  slowPeriod: 26,
+  signalPeriod: 9,
+  appliedPrice: "CLOSE",
+});
+const buy = makeNode("buy", "place-buy", {
+  category: "trading",
+  tradingType: "place-buy",
+  method: "FIXED_LOT",
+  fixedLot: 0.1,
+  riskPercent: 1,
+  minLot: 0.01,
+  maxLot: 10,
+});
+
+function formulaNode(expression: string): BuilderNode {
+  return makeNode("f", "formula", {
+    label: "Formula",
+    category: "indicator",
+    indicatorType: "formula",
+    expression,
+    conditionType: "CROSSES_ABOVE",
+    threshold: 0.5,
+    signalMode: "candle_close",
+  });
+}
+
+const inputs: FormulaInput[] = [
+  { name: "in1", nodeId: "rsi", label: "RSI", buffers: ["Main"] },
+  { name: "in2", nodeId: "macd", label: "MACD", buffers: ["Main", "Signal"] },
+];
+
+function makeBuild(nodes: BuilderNode[], edges: BuilderEdge[]): BuildJsonSchema {
+  return {
+    version: "1.3",
+    nodes,
+    edges,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: { createdAt: "2024-01-01T00:00:00Z", updatedAt: "2024-01-01T00:00:00Z" },
+    settings: { magicNumber: 1, comment: "Test", maxOpenTrades: 1, allowHedging: false },
+  };
+}
+
+describe("parseFormula", () => {
+  it("respects precedence and records source spans", () => {
+    const result = parseFormula("1 + 2 * close[3]");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.ast).toMatchObject({
+      kind: "binary",
+      op: "+",
+      start: 0,
+      end: 16,
+      right: { kind: "binary", op: "*", right: { kind: "price", field: "close", offset: 3 } },
+    });
+  });
+
+  it("parses input lines, offsets and function calls", () => {
+    const result = parseFormula("max(in2.Signal[1], -abs(in1)) / pip");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.ast).toMatchObject({
+      kind: "binary",
+      op: "/",
+      left: {
+        kind: "call",
+        fn: "max",
+        args: [
+          { kind: "input", input: 2, buffer: "Signal", offset: 1 },
+          { kind: "unary", op: "-", operand: { kind: "call", fn: "abs" } },
+        ],
+      },
+      right: { kind: "pip" },
+    });
+  });
+
+  it("points at the offending token", () => {
+    expect(parseFormula("close + $")).toEqual({
+      ok: false,
+      error: { message: 'Unexpected character "$"', start: 8, end: 9 },
+    });
+    expect(parseFormula("close[1.5]")).toMatchObject({ ok: false, error: { start: 6, end: 9 } });
+    expect(parseFormula("(close - open")).toMatchObject({
+      ok: false,
+      error: { message: 'Expected ")" before the end', start: 13, end: 13 },
+    });
+    expect(parseFormula("volume * 2")).toMatchObject({ ok: false, error: { start: 0, end: 6 } });
+    expect(parseFormula("  ")).toMatchObject({ ok: false, error: { message: "Formula is empty" } });
+  });
+});
+
+describe("checkFormula", () => {
+  it("accepts a numeric formula and reports its deepest bar offset", () => {
+    const result = checkFormula("if(in1 > 50 and close > close[4], in2.Signal, 0)", inputs);
+    expect(result).toMatchObject({ ok: true, maxOffset: 4 });
+  });
+
+  it("rejects unconnected inputs and unknown output lines at their position", () => {
+    const result = checkFormula("in3 + in2.Upper", inputs);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors.map((e) => [e.start, e.end])).toEqual([
+      [0, 3],
+      [6, 15],
+    ]);
+    expect(result.errors[0].message).toContain("in3 is not connected");
+    expect(result.errors[1].message).toContain('no "Upper" line');
+  });
+
+  it("checks types of operators, functions and the result", () => {
+    const mixed = checkFormula("close + (open > low)", inputs);
+    expect(mixed).toMatchObject({ ok: false, errors: [{ start: 8, end: 20 }] });
+
+    const arity = checkFormula("min(close)", inputs);
+    expect(arity).toMatchObject({
+      ok: false,
+      errors: [{ message: "min() takes 2 to 8 arguments" }],
+    });
+
+    const bool = checkFormula("close > open", inputs);
+    expect(bool).toMatchObject({ ok: false, errors: [{ start: 0, end: 12 }] });
+  });
+});
+
+describe("getFormulaInputs", () => {
+  it("numbers wired blocks in connection order with their readable lines", () => {
+    const f = formulaNode("in1");
+    expect(
+      getFormulaInputs("f", [rsi, macd, f], [edge("macd", "f"), edge("rsi", "f"), edge("f", "buy")])
+    ).toEqual([
+      { name: "in1", nodeId: "macd", label: "MACD", buffers: ["Main", "Signal"] },
+      { name: "in2", nodeId: "rsi", label: "RSI", buffers: ["Main"] },
+    ]);
+  });
+});
+
+describe("formula code generation", () => {
+  const generate = (expression: string) =>
+    generateMQL5Code(
+      makeBuild(
+        [rsi, macd, formulaNode(expression), buy],
+        [edge("rsi", "f"), edge("macd", "f"), edge("f", "buy")]
+      ),
+      "Test"
+    );
+
+  it("compiles the formula into a guarded helper and compares it against the threshold", () => {
+    const code = generate("(close - close[2]) / pip + in2.Signal[1] * 2");
+
+    expect(code).toContain("const double InpFormula2Threshold = 0.5; // Formula 3 Threshold");
+    expect(code).toContain("double Formula2Value(int bar)");
+    expect(code).toContain("double v0 = ConditionPriceValue(3, PERIOD_CURRENT, bar, 0);");
+    expect(code).toContain("double v1 = ConditionPriceValue(3, PERIOD_CURRENT, bar, 2);");
+    expect(code).toContain(
+      "double v2 = ConditionBufferValue(ind1Handle, 1, (ENUM_TIMEFRAMES)InpMACD1Timeframe, bar, 1);"
+    );
+    expect(code).toContain(
+      "if(v0 == EMPTY_VALUE || v1 == EMPTY_VALUE || v2 == EMPTY_VALUE) return EMPTY_VALUE;"
+    );
+    expect(code).toContain(
+      "double result = (FormulaDiv((v0 - v1), (_pipFactor * _Point)) + (v2 * 2.0));"
+    );
+    expect(code).toContain("double FormulaDiv(double a, double b)");
+    expect(code).toContain("for(int k = 0; k < 3; k++) ind2Buffer[k] = Formula2Value(k);");
+    expect(code).toContain(
+      "(DoubleLE(ind2Buffer[2], InpFormula2Threshold) && DoubleGT(ind2Buffer[1], InpFormula2Threshold))"
+    );
+  });
+
+  it("leaves an invalid formula out of the entry logic", () => {
+    const code = generate("close +");
+    expect(code).not.toContain("Formula2Value");
+    expect(code).not.toContain("InpFormula2Threshold");
+  });
+});
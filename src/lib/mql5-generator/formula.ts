@@ -0,0 +1,560 @@
+// Formula — a small typed expression language for custom numeric signals
+//
+//   (close - in1) / in2            price minus the first input, over the second input
+//   max(high[1], high[2]) - low    bar offsets in brackets, 0 = the bar being evaluated
+//   if(in1.Signal > 0, in1, 0)     named output lines of multi-line indicators
+//
+// Values are numbers or booleans. Arithmetic, min/max/abs and the formula result are
+// numbers; comparisons produce booleans, combined with and/or/not and consumed by if().
+// Inputs in1, in2, ... are the blocks wired into the formula node, in connection order.
+// Errors carry [start, end) offsets into the source so the editor can point at them.
+
+import type { BuilderEdge, BuilderNode } from "@/types/builder";
+import { INDICATOR_OUTPUT_BUFFERS } from "@/types/builder";
+
+export type FormulaType = "number" | "bool";
+
+export type FormulaPriceField = "open" | "high" | "low" | "close";
+
+export type FormulaBinaryOp =
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "<"
+  | ">"
+  | "<="
+  | ">="
+  | "=="
+  | "!="
+  | "and"
+  | "or";
+
+export type FormulaFunction = "min" | "max" | "abs" | "if";
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export type FormulaNode = Span &
+  (
+    | { kind: "number"; value: number }
+    | { kind: "pip" }
+    | { kind: "price"; field: FormulaPriceField; offset: number }
+    | { kind: "input"; input: number; buffer?: string; offset: number }
+    | { kind: "unary"; op: "-" | "not"; operand: FormulaNode }
+    | { kind: "binary"; op: FormulaBinaryOp; left: FormulaNode; right: FormulaNode }
+    | { kind: "call"; fn: FormulaFunction; args: FormulaNode[] }
+  );
+
+export interface FormulaError extends Span {
+  message: string;
+}
+
+/** A block wired into a formula node, referenced as in1, in2, ... */
+export interface FormulaInput {
+  name: string;
+  nodeId: string;
+  label: string;
+  /** Output lines the block exposes; empty when it has none a formula can read */
+  buffers: readonly string[];
+}
+
+export type FormulaCheckResult =
+  | { ok: true; ast: FormulaNode; maxOffset: number }
+  | { ok: false; errors: FormulaError[] };
+
+/** Longest accepted formula */
+export const MAX_FORMULA_LENGTH = 500;
+/** Deepest bar offset a reference may use */
+export const MAX_FORMULA_OFFSET = 500;
+
+const PRICE_FIELDS = new Set<string>(["open", "high", "low", "close"]);
+const FUNCTIONS = new Set<string>(["min", "max", "abs", "if"]);
+
+// ============================================
+// TOKENIZER
+// ============================================
+
+type Token = Span & {
+  type: "number" | "ident" | "op" | "eof";
+  text: string;
+};
+
+const OPERATORS = [
+  "<=",
+  ">=",
+  "==",
+  "!=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "<",
+  ">",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ".",
+];
+
+class FormulaSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly span: Span
+  ) {
+    super(message);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const start = i;
+    if (/[0-9]/.test(ch) || (ch === "." && /[0-9]/.test(source[i + 1] ?? ""))) {
+      while (i < source.length && /[0-9]/.test(source[i])) i++;
+      if (source[i] === "." && /[0-9]/.test(source[i + 1] ?? "")) {
+        i++;
+        while (i < source.length && /[0-9]/.test(source[i])) i++;
+      }
+      tokens.push({ type: "number", text: source.slice(start, i), start, end: i });
+      continue;
+    }
+    if (/[A-Za-z_]/.test(ch)) {
+      while (i < source.length && /[A-Za-z0-9_]/.test(source[i])) i++;
+      tokens.push({ type: "ident", text: source.slice(start, i), start, end: i });
+      continue;
+    }
+    const op = OPERATORS.find((o) => source.startsWith(o, i));
+    if (!op) {
+      throw new FormulaSyntaxError(`Unexpected character "${ch}"`, { start, end: start + 1 });
+    }
+    i += op.length;
+    tokens.push({ type: "op", text: op, start, end: i });
+  }
+  tokens.push({ type: "eof", text: "", start: source.length, end: source.length });
+  return tokens;
+}
+
+// ============================================
+// PARSER (recursive descent, lowest precedence first)
+// ============================================
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FormulaNode {
+    const node = this.or();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new FormulaSyntaxError(`Unexpected "${next.text}"`, next);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    return this.tokens[this.pos++];
+  }
+
+  private isOp(text: string): boolean {
+    const t = this.peek();
+    return t.type === "op" && t.text === text;
+  }
+
+  private isWord(text: string): boolean {
+    const t = this.peek();
+    return t.type === "ident" && t.text.toLowerCase() === text;
+  }
+
+  private expectOp(text: string): Token {
+    const t = this.peek();
+    if (t.type !== "op" || t.text !== text) {
+      throw new FormulaSyntaxError(
+        t.type === "eof" ? `Expected "${text}" before the end` : `Expected "${text}"`,
+        t
+      );
+    }
+    return this.next();
+  }
+
+  private binary(
+    left: FormulaNode,
+    op: FormulaBinaryOp,
+    right: FormulaNode
+  ): FormulaNode & { kind: "binary" } {
+    return { kind: "binary", op, left, right, start: left.start, end: right.end };
+  }
+
+  private or(): FormulaNode {
+    let left = this.and();
+    while (this.isWord("or")) {
+      this.next();
+      left = this.binary(left, "or", this.and());
+    }
+    return left;
+  }
+
+  private and(): FormulaNode {
+    let left = this.comparison();
+    while (this.isWord("and")) {
+      this.next();
+      left = this.binary(left, "and", this.comparison());
+    }
+    return left;
+  }
+
+  private comparison(): FormulaNode {
+    const left = this.additive();
+    for (const op of ["<=", ">=", "==", "!=", "<", ">"] as const) {
+      if (this.isOp(op)) {
+        this.next();
+        return this.binary(left, op, this.additive());
+      }
+    }
+    return left;
+  }
+
+  private additive(): FormulaNode {
+    let left = this.multiplicative();
+    while (this.isOp("+") || this.isOp("-")) {
+      const op = this.next().text as "+" | "-";
+      left = this.binary(left, op, this.multiplicative());
+    }
+    return left;
+  }
+
+  private multiplicative(): FormulaNode {
+    let left = this.unary();
+    while (this.isOp("*") || this.isOp("/")) {
+      const op = this.next().text as "*" | "/";
+      left = this.binary(left, op, this.unary());
+    }
+    return left;
+  }
+
+  private unary(): FormulaNode {
+    if (this.isOp("-") || this.isWord("not")) {
+      const token = this.next();
+      const operand = this.unary();
+      const op = token.text === "-" ? "-" : "not";
+      return { kind: "unary", op, operand, start: token.start, end: operand.end };
+    }
+    return this.primary();
+  }
+
+  private offset(): { offset: number; end?: number } {
+    if (!this.isOp("[")) return { offset: 0 };
+    this.next();
+    const t = this.next();
+    if (t.type !== "number" || t.text.includes(".")) {
+      throw new FormulaSyntaxError("Bar offset must be a whole number, e.g. close[1]", t);
+    }
+    const offset = Number(t.text);
+    if (offset > MAX_FORMULA_OFFSET) {
+      throw new FormulaSyntaxError(`Bar offset must be at most ${MAX_FORMULA_OFFSET}`, t);
+    }
+    const close = this.expectOp("]");
+    return { offset, end: close.end };
+  }
+
+  private primary(): FormulaNode {
+    const t = this.next();
+
+    if (t.type === "number") {
+      return { kind: "number", value: Number(t.text), start: t.start, end: t.end };
+    }
+
+    if (t.type === "op" && t.text === "(") {
+      const inner = this.or();
+      const close = this.expectOp(")");
+      return { ...inner, start: t.start, end: close.end };
+    }
+
+    if (t.type === "ident") {
+      const name = t.text.toLowerCase();
+
+      if (FUNCTIONS.has(name)) {
+        this.expectOp("(");
+        const args: FormulaNode[] = [];
+        if (!this.isOp(")")) {
+          args.push(this.or());
+          while (this.isOp(",")) {
+            this.next();
+            args.push(this.or());
+          }
+        }
+        const close = this.expectOp(")");
+        return { kind: "call", fn: name as FormulaFunction, args, start: t.start, end: close.end };
+      }
+
+      if (name === "pip") return { kind: "pip", start: t.start, end: t.end };
+
+      if (PRICE_FIELDS.has(name)) {
+        const { offset, end } = this.offset();
+        return {
+          kind: "price",
+          field: name as FormulaPriceField,
+          offset,
+          start: t.start,
+          end: end ?? t.end,
+        };
+      }
+
+      const input = /^in([1-9][0-9]?)$/.exec(name);
+      if (input) {
+        let buffer: string | undefined;
+        let end = t.end;
+        if (this.isOp(".")) {
+          this.next();
+          const b = this.next();
+          if (b.type !== "ident") {
+            throw new FormulaSyntaxError(`Expected an output line name after "${t.text}."`, b);
+          }
+          buffer = b.text;
+          end = b.end;
+        }
+        const offset = this.offset();
+        return {
+          kind: "input",
+          input: Number(input[1]),
+          buffer,
+          offset: offset.offset,
+          start: t.start,
+          end: offset.end ?? end,
+        };
+      }
+
+      throw new FormulaSyntaxError(
+        `Unknown name "${t.text}". Use open, high, low, close, pip, in1, in2, ... or min, max, abs, if`,
+        t
+      );
+    }
+
+    if (t.type === "eof") {
+      throw new FormulaSyntaxError("Formula ends unexpectedly", t);
+    }
+    throw new FormulaSyntaxError(`Unexpected "${t.text}"`, t);
+  }
+}
+
+/** Parse a formula into an expression tree. Syntax errors are returned, not thrown. */
+export function parseFormula(
+  source: string
+): { ok: true; ast: FormulaNode } | { ok: false; error: FormulaError } {
+  if (!source.trim()) {
+    return { ok: false, error: { message: "Formula is empty", start: 0, end: 0 } };
+  }
+  if (source.length > MAX_FORMULA_LENGTH) {
+    return {
+      ok: false,
+      error: {
+        message: `Formula must be ${MAX_FORMULA_LENGTH} characters or less`,
+        start: MAX_FORMULA_LENGTH,
+        end: source.length,
+      },
+    };
+  }
+  try {
+    return { ok: true, ast: new Parser(tokenize(source)).parse() };
+  } catch (err) {
+    if (err instanceof FormulaSyntaxError) {
+      return { ok: false, error: { message: err.message, ...err.span } };
+    }
+    throw err;
+  }
+}
+
+// ============================================
+// TYPE CHECKER
+// ============================================
+
+const FUNCTION_ARITY: Record<FormulaFunction, { min: number; max: number }> = {
+  min: { min: 2, max: 8 },
+  max: { min: 2, max: 8 },
+  abs: { min: 1, max: 1 },
+  if: { min: 3, max: 3 },
+};
+
+function typeOf(
+  node: FormulaNode,
+  inputs: FormulaInput[],
+  errors: FormulaError[]
+): FormulaType | null {
+  const expect = (child: FormulaNode, type: FormulaType, what: string): void => {
+    const actual = typeOf(child, inputs, errors);
+    if (actual && actual !== type) {
+      errors.push({
+        message: `${what} must be a ${type === "number" ? "number" : "true/false condition"}`,
+        start: child.start,
+        end: child.end,
+      });
+    }
+  };
+
+  switch (node.kind) {
+    case "number":
+    case "pip":
+    case "price":
+      return "number";
+
+    case "input": {
+      const input = inputs[node.input - 1];
+      if (!input) {
+        errors.push({
+          message:
+            inputs.length === 0
+              ? `in${node.input} is not connected. Wire a block into the formula first`
+              : `in${node.input} is not connected (connected: ${inputs.map((i) => i.name).join(", ")})`,
+          start: node.start,
+          end: node.end,
+        });
+        return "number";
+      }
+      if (input.buffers.length === 0) {
+        errors.push({
+          message: `${input.name} ("${input.label}") has no output line a formula can read`,
+          start: node.start,
+          end: node.end,
+        });
+      } else if (node.buffer !== undefined && !input.buffers.includes(node.buffer)) {
+        errors.push({
+          message: `${input.name} ("${input.label}") has no "${node.buffer}" line (lines: ${input.buffers.join(", ")})`,
+          start: node.start,
+          end: node.end,
+        });
+      }
+      return "number";
+    }
+
+    case "unary":
+      if (node.op === "-") {
+        expect(node.operand, "number", "The value after -");
+        return "number";
+      }
+      expect(node.operand, "bool", "The value after not");
+      return "bool";
+
+    case "binary":
+      switch (node.op) {
+        case "and":
+        case "or":
+          expect(node.left, "bool", `Each side of ${node.op}`);
+          expect(node.right, "bool", `Each side of ${node.op}`);
+          return "bool";
+        case "<":
+        case ">":
+        case "<=":
+        case ">=":
+        case "==":
+        case "!=":
+          expect(node.left, "number", `Each side of ${node.op}`);
+          expect(node.right, "number", `Each side of ${node.op}`);
+          return "bool";
+        default:
+          expect(node.left, "number", `Each side of ${node.op}`);
+          expect(node.right, "number", `Each side of ${node.op}`);
+          return "number";
+      }
+
+    case "call": {
+      const arity = FUNCTION_ARITY[node.fn];
+      if (node.args.length < arity.min || node.args.length > arity.max) {
+        const count = arity.min === arity.max ? `${arity.min}` : `${arity.min} to ${arity.max}`;
+        errors.push({
+          message: `${node.fn}() takes ${count} argument${arity.max === 1 ? "" : "s"}`,
+          start: node.start,
+          end: node.end,
+        });
+      }
+      if (node.fn === "if") {
+        if (node.args[0]) expect(node.args[0], "bool", "The first argument of if()");
+        for (const arg of node.args.slice(1)) expect(arg, "number", "The result of if()");
+        return "number";
+      }
+      for (const arg of node.args) expect(arg, "number", `Each argument of ${node.fn}()`);
+      return "number";
+    }
+  }
+}
+
+function maxOffsetOf(node: FormulaNode): number {
+  switch (node.kind) {
+    case "price":
+    case "input":
+      return node.offset;
+    case "unary":
+      return maxOffsetOf(node.operand);
+    case "binary":
+      return Math.max(maxOffsetOf(node.left), maxOffsetOf(node.right));
+    case "call":
+      return Math.max(0, ...node.args.map(maxOffsetOf));
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Parse and type-check a formula against the blocks wired into it. The result must be
+ * a number. Returns every type error found, or the checked tree.
+ */
+export function checkFormula(source: string, inputs: FormulaInput[]): FormulaCheckResult {
+  const parsed = parseFormula(source);
+  if (!parsed.ok) return { ok: false, errors: [parsed.error] };
+
+  const errors: FormulaError[] = [];
+  const type = typeOf(parsed.ast, inputs, errors);
+  if (errors.length === 0 && type === "bool") {
+    errors.push({
+      message:
+        "The formula must produce a number. Use if(condition, a, b) to turn a condition into one",
+      start: parsed.ast.start,
+      end: parsed.ast.end,
+    });
+  }
+  if (errors.length > 0) {
+    return { ok: false, errors: errors.sort((a, b) => a.start - b.start) };
+  }
+  return { ok: true, ast: parsed.ast, maxOffset: maxOffsetOf(parsed.ast) };
+}
+
+/**
+ * Blocks wired into a formula node, in connection order (in1 is the first connection).
+ * A block's readable lines are the condition operand buffers of its indicator type;
+ * blocks that are not in `nodes` have none.
+ */
+export function getFormulaInputs(
+  formulaNodeId: string,
+  nodes: BuilderNode[],
+  edges: BuilderEdge[]
+): FormulaInput[] {
+  const inputs: FormulaInput[] = [];
+  for (const edge of edges) {
+    if (edge.target !== formulaNodeId) continue;
+    if (inputs.some((i) => i.nodeId === edge.source)) continue;
+    // Blocks missing from `nodes` still take their place in the numbering
+    const source = nodes.find((n) => n.id === edge.source);
+    const d = (source?.data ?? {}) as Record<string, unknown>;
+    inputs.push({
+      name: `in${inputs.length + 1}`,
+      nodeId: edge.source,
+      label: (d.label as string | undefined) ?? source?.type ?? edge.source,
+      buffers: INDICATOR_OUTPUT_BUFFERS[(d.indicatorType as string | undefined) ?? ""] ?? [],
+    });
+  }
+  return inputs;
+}
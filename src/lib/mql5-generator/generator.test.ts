@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { generateMQL5Code } from "./generator";
+import { lintMQL5 } from "./lint";
+import { resolveIndicatorOutput } from "./generators/indicators";
+import { INDICATOR_OUTPUT_BUFFERS } from "@/types/builder";
 import type { BuildJsonSchema, BuilderNode, BuilderEdge, BuildJsonSettings } from "@/types/builder";
 
 // ============================================
@@ -1154,6 +1157,181 @@ describe("generateMQL5Code", () => {
       expect(code).toMatch(/buyCondition\s*=.*pa0BuySignal/);
       expect(code).toMatch(/buyCondition\s*=.*pa1BuySignal/);
     });
+
+    const buyWithExits = [
+      makeNode("b1", "place-buy", {
+        category: "trading",
+        tradingType: "place-buy",
+        method: "FIXED_LOT",
+        fixedLot: 0.1,
+        riskPercent: 2,
+        minLot: 0.01,
+        maxLot: 100,
+      }),
+      makeNode("sl1", "stop-loss", {
+        category: "trading",
+        tradingType: "stop-loss",
+        method: "FIXED_PIPS",
+        fixedPips: 50,
+      }),
+      makeNode("tp1", "take-profit", {
+        category: "trading",
+        tradingType: "take-profit",
+        method: "FIXED_PIPS",
+        fixedPips: 100,
+      }),
+    ];
+    const liquiditySweep = makeNode("ls1", "liquidity-sweep", {
+      category: "priceaction",
+      priceActionType: "liquidity-sweep",
+      timeframe: "H1",
+      swingStrength: 3,
+      lookbackPeriod: 50,
+      minSweepPips: 1,
+    });
+    const equalLevels = (signalType: string) =>
+      makeNode("eq1", "equal-highs-lows", {
+        category: "priceaction",
+        priceActionType: "equal-highs-lows",
+        timeframe: "H1",
+        swingStrength: 3,
+        lookbackPeriod: 100,
+        tolerancePips: 3,
+        minTouches: 2,
+        signalType,
+      });
+    const pivotPoints = (pivotType: string, entryMode: string) =>
+      makeNode("pp1", "pivot-points", {
+        category: "priceaction",
+        priceActionType: "pivot-points",
+        timeframe: "H1",
+        pivotType,
+        pivotLevel: 2,
+        entryMode,
+        zonePips: 5,
+      });
+
+    it("generates a Liquidity Sweep detection function for swing lows and highs", () => {
+      const build = makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        liquiditySweep,
+        ...buyWithExits,
+      ]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain(
+        "bool DetectLiquiditySweep(ENUM_TIMEFRAMES tf, int strength, int lookback, double minPenetration, bool bullish, double &level)"
+      );
+      expect(code).toContain(
+        "bool IsSwingPoint(ENUM_TIMEFRAMES tf, int i, int strength, bool high)"
+      );
+      // Wick beyond the swing, close back inside, and the swing was untouched until bar 1
+      expect(code).toContain("if(low1 <= swingLow - minPenetration && close1 > swingLow)");
+      expect(code).toContain("if(high1 >= swingHigh + minPenetration && close1 < swingHigh)");
+      expect(code).toContain("iLowest(_Symbol, tf, MODE_LOW, i - 2, 2)");
+      expect(code).toContain(
+        "pa0BuySignal = DetectLiquiditySweep((ENUM_TIMEFRAMES)InpLS0Timeframe, InpLS0Strength, InpLS0Lookback, pa0MinSweep, true, pa0SweptLow);"
+      );
+      expect(code).toContain("pa0SellSignal = DetectLiquiditySweep(");
+      expect(code).toContain("InpLS0MinSweep * _pipFactor * _Point");
+      expect(code).toMatch(/buyCondition\s*=.*pa0BuySignal/);
+      expect(lintMQL5(code)).toEqual([]);
+    });
+
+    it("generates Equal Highs/Lows pool detection with sweep or breakout signals", () => {
+      const sweep = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          equalLevels("SWEEP"),
+          ...buyWithExits,
+        ]),
+        "Test"
+      );
+      expect(sweep).toContain(
+        "bool FindEqualLevel(ENUM_TIMEFRAMES tf, int strength, int lookback, double tolerance, int minTouches, bool highs, double &level)"
+      );
+      expect(sweep).toContain("if(MathAbs(prices[b] - prices[a]) > tolerance) continue;");
+      expect(sweep).toContain("if(touches < MathMax(2, minTouches)) continue;");
+      expect(sweep).toContain("InpEQ0Tolerance * _pipFactor * _Point");
+      expect(sweep).toContain(
+        "pa0BuySignal = (pa0HasLows && pa0L1 < pa0EqualLow && pa0C1 > pa0EqualLow);"
+      );
+      expect(sweep).toContain(
+        "pa0SellSignal = (pa0HasHighs && pa0H1 > pa0EqualHigh && pa0C1 < pa0EqualHigh);"
+      );
+      expect(lintMQL5(sweep)).toEqual([]);
+
+      const breakout = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          equalLevels("BREAKOUT"),
+          ...buyWithExits,
+        ]),
+        "Test"
+      );
+      expect(breakout).toContain("pa0BuySignal = (pa0HasHighs && pa0C1 > pa0EqualHigh);");
+      expect(breakout).toContain("pa0SellSignal = (pa0HasLows && pa0C1 < pa0EqualLow);");
+    });
+
+    it("generates daily pivot levels for the classic, Camarilla and Fibonacci formulas", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          pivotPoints("CAMARILLA", "BOUNCE"),
+          ...buyWithExits,
+        ]),
+        "Test"
+      );
+      expect(code).toContain(
+        "bool CalcDailyPivots(int pivotType, double &pivot, double &res[], double &sup[])"
+      );
+      expect(code).toContain("double dayHigh = iHigh(_Symbol, PERIOD_D1, 1);");
+      expect(code).toContain("pivot = (dayHigh + dayLow + dayClose) / 3.0;");
+      // Classic
+      expect(code).toContain("res[0] = 2.0 * pivot - dayLow;");
+      expect(code).toContain("sup[2] = dayLow - 2.0 * (dayHigh - pivot);");
+      // Camarilla
+      expect(code).toContain("res[2] = dayClose + range * 1.1 / 4.0;");
+      // Fibonacci
+      expect(code).toContain("sup[1] = pivot - range * 0.618;");
+      expect(code).toMatch(/InpPivot0Type = 1;/);
+      expect(code).toMatch(/InpPivot0Level = 2;/);
+      expect(code).toContain(
+        "if(isNewBar) pa0PivotsValid = CalcDailyPivots(InpPivot0Type, pa0Pivot, pa0Res, pa0Sup);"
+      );
+      expect(code).toContain("pa0BuySignal = (pa0Bid >= pa0S && pa0Bid <= pa0S + pa0Zone);");
+      expect(code).toContain("pa0SellSignal = (pa0Ask <= pa0R && pa0Ask >= pa0R - pa0Zone);");
+      expect(lintMQL5(code)).toEqual([]);
+    });
+
+    it("trades pivot breakouts on a closed candle crossing the level", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          pivotPoints("CLASSIC", "BREAKOUT"),
+          ...buyWithExits,
+        ]),
+        "Test"
+      );
+      expect(code).toMatch(/InpPivot0Type = 0;/);
+      expect(code).toContain("pa0BuySignal = (pa0C1 > pa0R && pa0C2 <= pa0R);");
+      expect(code).toContain("pa0SellSignal = (pa0C1 < pa0S && pa0C2 >= pa0S);");
+      expect(code).not.toContain("InpPivot0Zone");
+    });
+
+    it("emits the shared swing helper once when several liquidity detectors are used", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          liquiditySweep,
+          equalLevels("SWEEP"),
+          ...buyWithExits,
+        ]),
+        "Test"
+      );
+      expect(code.match(/bool IsSwingPoint\(/g)).toHaveLength(1);
+      expect(code).toMatch(/buyCondition\s*=.*pa0BuySignal.*pa1BuySignal/);
+      expect(lintMQL5(code)).toEqual([]);
+    });
   });
 
   // ============================================
@@ -2141,6 +2319,263 @@ describe("generateMQL5Code", () => {
     });
   });
 
+  describe("session and day risk scaling", () => {
+    const weekdays = {
+      monday: true,
+      tuesday: true,
+      wednesday: true,
+      thursday: true,
+      friday: true,
+      saturday: false,
+      sunday: false,
+    };
+    const session = (id: string, name: string, extra: Record<string, unknown> = {}) =>
+      makeNode(id, "trading-session", {
+        category: "timing",
+        timingType: "trading-session",
+        session: name,
+        tradingDays: weekdays,
+        ...extra,
+      });
+    const riskBuy = makeNode("b1", "place-buy", {
+      category: "trading",
+      tradingType: "place-buy",
+      method: "RISK_PERCENT",
+      fixedLot: 0.1,
+      riskPercent: 2,
+      minLot: 0.01,
+      maxLot: 100,
+      slMethod: "FIXED_PIPS",
+      slFixedPips: 50,
+      tpMethod: "FIXED_PIPS",
+      tpFixedPips: 100,
+    });
+
+    it("scales lot size by the session multiplier", () => {
+      const build = makeBuild([session("t1", "TOKYO", { riskMultiplier: 0.5 }), riskBuy]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain("double riskScale = 1.0;");
+      expect(code).toContain("riskScale = 0.5;");
+      expect(code).toContain(
+        "buyLotSize = MathMax(InpBuyMinLot, MathMin(InpBuyMaxLot, ScaleLotSize(_Symbol, buyLotSize, riskScale)));"
+      );
+      expect(code).toContain("double ScaleLotSize(string sym, double lots, double scale)");
+      expect(code).toContain("lots = MathFloor(lots / lotStep) * lotStep;");
+      expect(code).toMatch(/bool buyCondition = riskScale > 0;/);
+      expect(lintMQL5(code).filter((i) => i.severity === "error")).toEqual([]);
+    });
+
+    it("multiplies in day/time rules, running to midnight when the end is 00:00", () => {
+      const build = makeBuild([
+        session("t1", "LONDON", {
+          riskRules: [
+            {
+              day: "friday",
+              startHour: 18,
+              startMinute: 0,
+              endHour: 0,
+              endMinute: 0,
+              multiplier: 0,
+            },
+            {
+              day: "everyday",
+              startHour: 8,
+              startMinute: 0,
+              endHour: 9,
+              endMinute: 30,
+              multiplier: 0.75,
+            },
+          ],
+        }),
+        riskBuy,
+      ]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).not.toMatch(/^\s*riskScale = /m);
+      expect(code).toContain(
+        "if(dt.day_of_week == 5 && currentMinutes >= 1080) riskScale *= 0.0; // Friday 18:00-24:00"
+      );
+      expect(code).toContain(
+        "if(currentMinutes >= 480 && currentMinutes < 570) riskScale *= 0.75; // Every day 08:00-09:30"
+      );
+      expect(lintMQL5(code).filter((i) => i.severity === "error")).toEqual([]);
+    });
+
+    it("wraps a rule ending before its start into the next morning", () => {
+      const build = makeBuild([
+        session("t1", "LONDON", {
+          riskRules: [
+            {
+              day: "friday",
+              startHour: 22,
+              startMinute: 0,
+              endHour: 2,
+              endMinute: 0,
+              multiplier: 0.5,
+            },
+            {
+              day: "saturday",
+              startHour: 23,
+              startMinute: 30,
+              endHour: 1,
+              endMinute: 0,
+              multiplier: 0.25,
+            },
+            {
+              day: "everyday",
+              startHour: 22,
+              startMinute: 0,
+              endHour: 2,
+              endMinute: 0,
+              multiplier: 0,
+            },
+          ],
+        }),
+        riskBuy,
+      ]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain(
+        "if((dt.day_of_week == 5 && currentMinutes >= 1320) || (dt.day_of_week == 6 && currentMinutes < 120)) riskScale *= 0.5; // Friday 22:00-02:00"
+      );
+      expect(code).toContain(
+        "if((dt.day_of_week == 6 && currentMinutes >= 1410) || (dt.day_of_week == 0 && currentMinutes < 60)) riskScale *= 0.25; // Saturday 23:30-01:00"
+      );
+      expect(code).toContain(
+        "if(currentMinutes >= 1320 || currentMinutes < 120) riskScale *= 0.0; // Every day 22:00-02:00"
+      );
+      expect(lintMQL5(code).filter((i) => i.severity === "error")).toEqual([]);
+    });
+
+    it("takes the lowest multiplier among active windows", () => {
+      const build = makeBuild([
+        session("t1", "LONDON", { riskMultiplier: 1.5 }),
+        session("t2", "NEW_YORK", { riskMultiplier: 0.5 }),
+        riskBuy,
+      ]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain("double windowRiskScale = DBL_MAX;");
+      expect(code).toContain("if(isTradingTime0) windowRiskScale = MathMin(windowRiskScale, 1.5);");
+      expect(code).toContain("if(isTradingTime1) windowRiskScale = MathMin(windowRiskScale, 0.5);");
+      expect(code).toContain("if(windowRiskScale < DBL_MAX) riskScale = windowRiskScale;");
+    });
+
+    it("leaves lot sizing untouched without a multiplier or rules", () => {
+      const build = makeBuild([session("t1", "LONDON", { riskMultiplier: 1 }), riskBuy]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).not.toContain("riskScale");
+      expect(code).not.toContain("ScaleLotSize");
+    });
+  });
+
+  describe("equity curve filter", () => {
+    const makeFilteredBuild = (equityCurveMaPeriod?: number) => {
+      const build = makeBuild([
+        makeNode("t1", "trading-session", {
+          category: "timing",
+          timingType: "trading-session",
+          session: "LONDON",
+          tradingDays: {
+            monday: true,
+            tuesday: true,
+            wednesday: true,
+            thursday: true,
+            friday: true,
+            saturday: false,
+            sunday: false,
+          },
+        }),
+        makeNode("b1", "place-buy", {
+          category: "trading",
+          tradingType: "place-buy",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          riskPercent: 2,
+          minLot: 0.01,
+          maxLot: 100,
+          slMethod: "FIXED_PIPS",
+          slFixedPips: 50,
+          tpMethod: "FIXED_PIPS",
+          tpFixedPips: 100,
+        }),
+        makeNode("s1", "place-sell", {
+          category: "trading",
+          tradingType: "place-sell",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          riskPercent: 2,
+          minLot: 0.01,
+          maxLot: 100,
+          slMethod: "FIXED_PIPS",
+          slFixedPips: 50,
+          tpMethod: "FIXED_PIPS",
+          tpFixedPips: 100,
+        }),
+      ]);
+      build.settings = { ...build.settings, maxTradesPerDay: 0, equityCurveMaPeriod };
+      return build;
+    };
+
+    it("tracks every market signal virtually and opens real trades only above the MA", () => {
+      const code = generateMQL5Code(makeFilteredBuild(20), "Test");
+      expect(code).toMatch(/input int InpEquityCurvePeriod = 20;/);
+      expect(code).toContain("EquityCurveOpenVirtual(_Symbol, 1, slPips, tpPips, 1);");
+      expect(code).toContain("EquityCurveOpenVirtual(_Symbol, -1, slPips, tpPips, 1);");
+      expect(code).toContain(
+        "if(!EquityCurveAllowsEntry()) lastEntryBar = currentBarTime; // Tracked virtually only"
+      );
+      expect(code).toContain(
+        "else if(OpenBuy(buyLotSize, slPips, tpPips)) { lastEntryBar = currentBarTime; }"
+      );
+      expect(code).toContain("return g_ecEquity >= sum / n;");
+      // Virtual trades settle before the session filter can return early
+      expect(code.indexOf("EquityCurveUpdate();")).toBeLessThan(
+        code.indexOf("if(!isTradingTime) return;")
+      );
+      expect(lintMQL5(code).filter((i) => i.severity === "error")).toEqual([]);
+    });
+
+    it("persists the curve and open virtual trades outside the strategy tester", () => {
+      const code = generateMQL5Code(makeFilteredBuild(20), "Test");
+      expect(code).toContain("string symbols = _Symbol;");
+      expect(code).toContain(
+        'return "AlgoStudio_EC_" + IntegerToString(InpMagicNumber) + "_" + symbols + ".dat";'
+      );
+      expect(code).not.toContain("ArrayRemove");
+      expect(code).toMatch(
+        /void EquityCurveSaveState\(\)\s*\{\s*if\(MQLInfoInteger\(MQL_TESTER\)\) return;/
+      );
+      expect(code).toMatch(/OnInit[\s\S]*EquityCurveLoadState\(\);/);
+      expect(code).toMatch(/OnDeinit[\s\S]*EquityCurveSaveState\(\);/);
+    });
+
+    it("routes virtual trades through the traded symbol in multi-pair mode", () => {
+      const build = makeFilteredBuild(10);
+      build.settings = {
+        ...build.settings,
+        multiPair: {
+          enabled: true,
+          symbols: ["EURUSD", "GBPUSD"],
+          perSymbolOverrides: [],
+          correlationFilter: false,
+          correlationThreshold: 0.7,
+          correlationPeriod: 50,
+          maxTotalPositions: 4,
+          maxPositionsPerPair: 1,
+        },
+      };
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain("EquityCurveOpenVirtual(tradeSym, 1, slPips, tpPips, 1);");
+      expect(code).toContain("else if(OpenBuy(tradeSym, buyLotSize, slPips, tpPips))");
+      // One state file per symbol set, not one shared by every chart with the same magic
+      expect(code).toContain("string symbols = InpSymbols;");
+    });
+
+    it("is not generated when disabled", () => {
+      const code = generateMQL5Code(makeFilteredBuild(), "Test");
+      expect(code).not.toContain("InpEquityCurvePeriod");
+      expect(code).not.toContain("EquityCurve");
+    });
+  });
+
   // ============================================
   // ENHANCEMENT: Task 1 — AND/OR condition mode
   // ============================================
@@ -2224,6 +2659,161 @@ describe("generateMQL5Code", () => {
     });
   });
 
+  describe("logic gates", () => {
+    const gateNodes = () => [
+      makeNode("t1", "always", { category: "timing", timingType: "always" }),
+      makeNode("ma1", "moving-average", {
+        category: "indicator",
+        indicatorType: "moving-average",
+        timeframe: "H1",
+        period: 20,
+        method: "SMA",
+        appliedPrice: "CLOSE",
+        shift: 0,
+      }),
+      makeNode("rsi1", "rsi", {
+        category: "indicator",
+        indicatorType: "rsi",
+        timeframe: "H1",
+        period: 14,
+        appliedPrice: "CLOSE",
+        overboughtLevel: 70,
+        oversoldLevel: 30,
+      }),
+      makeNode("ob1", "order-block", {
+        category: "priceaction",
+        priceActionType: "order-block",
+        timeframe: "H1",
+        lookbackPeriod: 50,
+        minBlockSize: 10,
+        maxBlockAge: 100,
+      }),
+      makeNode("and1", "and-gate", { category: "logic", logicType: "AND" }),
+      makeNode("or1", "or-gate", { category: "logic", logicType: "OR" }),
+      makeNode("not1", "not-gate", { category: "logic", logicType: "NOT" }),
+      makeNode("b1", "place-buy", {
+        category: "trading",
+        tradingType: "place-buy",
+        method: "FIXED_LOT",
+        fixedLot: 0.1,
+        riskPercent: 2,
+        minLot: 0.01,
+        maxLot: 100,
+      }),
+    ];
+    const edge = (source: string, target: string): BuilderEdge => ({
+      id: `${source}-${target}`,
+      source,
+      target,
+    });
+    const buyLineOf = (code: string) =>
+      code.split("\n").find((l: string) => l.includes("bool buyCondition"));
+
+    it("compiles (MA AND RSI) OR order block into a nested expression", () => {
+      const build = makeBuild(gateNodes(), [
+        edge("t1", "ma1"),
+        edge("t1", "rsi1"),
+        edge("t1", "ob1"),
+        edge("ma1", "and1"),
+        edge("rsi1", "and1"),
+        edge("and1", "or1"),
+        edge("ob1", "or1"),
+        edge("or1", "b1"),
+      ]);
+      const buyLine = buyLineOf(generateMQL5Code(build, "Test"));
+      expect(buyLine).toBeDefined();
+      expect(buyLine).toMatch(
+        /^\s*bool buyCondition = \(\(\(.+\) && \(.+\)\) \|\| \(pa0BuySignal\)\);$/
+      );
+    });
+
+    it("negates the input of a NOT gate and ANDs it with ungated conditions", () => {
+      const build = makeBuild(gateNodes(), [
+        edge("t1", "ma1"),
+        edge("t1", "rsi1"),
+        edge("rsi1", "not1"),
+        edge("not1", "b1"),
+        edge("ma1", "b1"),
+      ]);
+      // Ungated conditions and gate outputs still combine through the global mode
+      build.settings = { ...build.settings, conditionMode: "AND" };
+      const buyLine = buyLineOf(generateMQL5Code(build, "Test"));
+      expect(buyLine).toBeDefined();
+      expect(buyLine).toMatch(/ && \(!\(.+\)\);$/);
+      expect(buyLine).not.toContain("||");
+    });
+
+    it("negates a condition node wired in through its False output", () => {
+      const nodes = [
+        ...gateNodes(),
+        makeNode("c1", "condition", {
+          category: "indicator",
+          indicatorType: "condition",
+          conditionType: "GREATER_THAN",
+          threshold: 50,
+        }),
+      ];
+      const build = makeBuild(nodes, [
+        edge("t1", "rsi1"),
+        edge("t1", "ob1"),
+        edge("rsi1", "c1"),
+        { id: "c1-or1", source: "c1", sourceHandle: "false", target: "or1" },
+        edge("ob1", "or1"),
+        edge("or1", "b1"),
+      ]);
+      const buyLine = buyLineOf(generateMQL5Code(build, "Test"));
+      expect(buyLine).toContain("(!(DoubleGT(ind0Buffer[0], 50)))");
+      expect(buyLine).toContain(" || (pa0BuySignal)");
+    });
+
+    it("gates the conditions of an entry strategy wired into it, filters included", () => {
+      const nodes = [
+        ...gateNodes(),
+        makeNode("entry1", "ema-crossover-entry", {
+          category: "entrystrategy",
+          entryType: "ema-crossover",
+          direction: "BUY",
+          fastEma: 50,
+          slowEma: 200,
+          appliedPrice: "CLOSE",
+          timeframe: "H1",
+          riskPercent: 1,
+          slMethod: "FIXED_PIPS",
+          slFixedPips: 50,
+          tpRMultiple: 2,
+          htfTrendFilter: true,
+          htfTimeframe: "H4",
+          htfEma: 200,
+        }),
+      ];
+      const build = makeBuild(nodes, [
+        edge("t1", "entry1"),
+        edge("t1", "ob1"),
+        edge("entry1", "or1"),
+        edge("ob1", "or1"),
+        edge("or1", "b1"),
+      ]);
+      const buyLine = buyLineOf(generateMQL5Code(build, "Test"));
+      expect(buyLine).toBeDefined();
+      // (cross AND HTF trend) OR order block — nothing left ANDed outside the gate
+      expect(buyLine).toMatch(
+        /^\s*bool buyCondition = \(\(\(DoubleLE\(.+\)\) && \(DoubleGT\(iClose.+\)\)\) \|\| \(pa0BuySignal\)\);$/
+      );
+    });
+
+    it("drops gates without inputs", () => {
+      const build = makeBuild(gateNodes(), [
+        edge("t1", "ma1"),
+        edge("ma1", "b1"),
+        edge("and1", "b1"),
+      ]);
+      const buyLine = buyLineOf(generateMQL5Code(build, "Test"));
+      expect(buyLine).toBeDefined();
+      expect(buyLine).not.toContain("&&");
+      expect(buyLine).not.toContain("false");
+    });
+  });
+
   // ============================================
   // FEATURE: Task 3 — Close conditions
   // ============================================
@@ -2989,7 +3579,7 @@ describe("generateMQL5Code", () => {
       expect(code).toContain("InpBuyPendingOffset");
       expect(code).toContain("bool PlaceBuyStop");
       expect(code).toContain("trade.BuyStop");
-      expect(code).toContain("DeletePendingOrders");
+      expect(code).toContain("CancelPendingOrders(_Symbol, true);");
       expect(code).not.toContain("OpenBuy(buyLotSize");
     });
 
@@ -3030,7 +3620,7 @@ describe("generateMQL5Code", () => {
       expect(code).toContain("InpSellPendingOffset");
       expect(code).toContain("bool PlaceSellLimit");
       expect(code).toContain("trade.SellLimit");
-      expect(code).toContain("DeletePendingOrders");
+      expect(code).toContain("CancelPendingOrders(_Symbol, false);");
       expect(code).not.toContain("OpenSell(sellLotSize");
     });
 
@@ -3107,7 +3697,247 @@ describe("generateMQL5Code", () => {
       expect(code).toContain("PlaceSellStop");
       expect(code).toContain("InpBuyPendingOffset");
       expect(code).toContain("InpSellPendingOffset");
-      expect(code).toContain("DeletePendingOrders");
+      // Each new order replaces its own side's standing order and the opposite one
+      expect(code).toMatch(
+        /CancelPendingOrders\(_Symbol, true\);\s+CancelPendingOrders\(_Symbol, false\);\s+if\(PlaceBuyStop\(/
+      );
+      expect(code).toMatch(
+        /CancelPendingOrders\(_Symbol, false\);\s+CancelPendingOrders\(_Symbol, true\);\s+if\(PlaceSellStop\(/
+      );
+    });
+  });
+
+  describe("pending order lifecycle", () => {
+    const order = (type: "place-buy" | "place-sell", data: Record<string, unknown> = {}) =>
+      makeNode(type === "place-buy" ? "b1" : "s1", type, {
+        category: "trading",
+        tradingType: type,
+        method: "FIXED_LOT",
+        fixedLot: 0.1,
+        riskPercent: 2,
+        minLot: 0.01,
+        maxLot: 100,
+        orderType: "STOP",
+        pendingOffset: 10,
+        ...data,
+      });
+    const rsi = makeNode("rsi1", "rsi", {
+      category: "indicator",
+      indicatorType: "rsi",
+      timeframe: "H1",
+      period: 14,
+      appliedPrice: "CLOSE",
+      overboughtLevel: 70,
+      oversoldLevel: 30,
+      signalMode: "candle_close",
+    });
+    const range = (data: Record<string, unknown> = {}) =>
+      makeNode("rb1", "range-breakout", {
+        category: "priceaction",
+        priceActionType: "range-breakout",
+        timeframe: "H1",
+        rangeType: "PREVIOUS_CANDLES",
+        lookbackCandles: 20,
+        breakoutDirection: "BOTH",
+        entryMode: "IMMEDIATE",
+        bufferPips: 2,
+        minRangePips: 0,
+        maxRangePips: 0,
+        ...data,
+      });
+    const onTickOf = (code: string) => code.slice(code.indexOf("void OnTick()"));
+
+    it("expires pending orders after a number of bars in the OnTick housekeeping", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          order("place-buy", { pendingExpiryMode: "BARS", pendingExpiryBars: 3 }),
+        ]),
+        "Test"
+      );
+      const onTick = onTickOf(code);
+      expect(code).toContain("InpBuyPendingExpiryBars = 3;");
+      expect(onTick).toContain(
+        "//--- Pending order housekeeping: expiry, cancel on invalidation, OCO"
+      );
+      expect(onTick).toContain("ExpirePendingOrders(_Symbol, true, InpBuyPendingExpiryBars, 0);");
+      expect(code).toContain(
+        "bool PendingOrderExpired(ulong ticket, int expiryBars, int expiryMinutes)"
+      );
+      expect(code).toContain(
+        "iBarShift(OrderGetString(ORDER_SYMBOL), PERIOD_CURRENT, placed) >= expiryBars"
+      );
+      // Expiry is enforced by the EA; orders go to the broker as GTC
+      expect(code).toContain(
+        'trade.BuyStop(lots, entryPrice, _Symbol, slPrice, tpPrice, ORDER_TIME_GTC, 0, "Test EA")'
+      );
+      expect(code).not.toContain("GetPendingExpiry");
+      expect(onTick.indexOf("ExpirePendingOrders(")).toBeGreaterThan(
+        onTick.indexOf("//--- Execute Entry")
+      );
+    });
+
+    it("leaves unfilled orders to their expiry instead of deleting them every new bar", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          order("place-buy", { pendingExpiryMode: "BARS", pendingExpiryBars: 3 }),
+        ]),
+        "Test"
+      );
+      const onTick = onTickOf(code);
+      const entryBlock = onTick.slice(
+        onTick.indexOf("//--- Execute Entry"),
+        onTick.indexOf("//--- Pending order housekeeping")
+      );
+      expect(code).not.toContain("DeletePendingOrders()");
+      expect(entryBlock).toMatch(
+        /CancelPendingOrders\(_Symbol, true\);\s+if\(PlaceBuyStop\(buyLotSize/
+      );
+      expect(entryBlock).not.toContain("CancelPendingOrders(_Symbol, false)");
+    });
+
+    it("keeps the 24 hour expiry of order nodes saved without an expiry mode", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          order("place-sell"),
+        ]),
+        "Test"
+      );
+      expect(code).toContain("InpSellPendingExpiryMinutes = 1440;");
+      expect(onTickOf(code)).toContain(
+        "ExpirePendingOrders(_Symbol, false, 0, InpSellPendingExpiryMinutes);"
+      );
+    });
+
+    it("leaves good-till-cancelled orders and market orders out of the housekeeping", () => {
+      const gtc = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          order("place-buy", { pendingExpiryMode: "GTC" }),
+        ]),
+        "Test"
+      );
+      expect(gtc).not.toContain("ExpirePendingOrders(_Symbol");
+      expect(gtc).not.toContain("Pending order housekeeping");
+
+      const market = generateMQL5Code(
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          order("place-buy", { orderType: "MARKET", cancelOnInvalidate: true }),
+        ]),
+        "Test"
+      );
+      expect(market).not.toContain("CancelPendingOrders");
+    });
+
+    it("cancels a side's pending orders on every tick its condition is false", () => {
+      const code = generateMQL5Code(
+        makeBuild(
+          [
+            rsi,
+            order("place-buy", { cancelOnInvalidate: true }),
+            order("place-sell", { pendingExpiryMode: "GTC" }),
+          ],
+          [
+            { id: "e1", source: "rsi1", target: "b1" },
+            { id: "e2", source: "rsi1", target: "s1" },
+          ]
+        ),
+        "Test"
+      );
+      const onTick = onTickOf(code);
+      expect(onTick).toContain("if(!buyCondition) CancelPendingOrders(_Symbol, true);");
+      expect(onTick).not.toContain("if(!sellCondition) CancelPendingOrders");
+      expect(code).toContain("void CancelPendingOrders(string sym, bool buySide)");
+      // Buy and sell orders without a range breakout node are not a range bracket
+      expect(code).not.toContain("g_rangeBuyTicket");
+      // Runs after the candle_close block so it is not limited to new bars
+      expect(onTick.indexOf("if(!buyCondition) CancelPendingOrders")).toBeGreaterThan(
+        onTick.indexOf("} // end candle_close signal evaluation")
+      );
+    });
+
+    it("brackets two-sided range breakouts with one-cancels-other by ticket", () => {
+      const code = generateMQL5Code(
+        makeBuild([
+          range({ pendingExpiryMode: "BARS", pendingExpiryBars: 8 }),
+          order("place-buy", { orderType: "MARKET" }),
+          order("place-sell", { orderType: "MARKET" }),
+        ]),
+        "Test"
+      );
+      const onTick = onTickOf(code);
+      expect(code).toContain("ulong g_rangeBuyTicket = 0;");
+      expect(code).toContain("InpRange0ExpiryBars = 8;");
+      expect(onTick).toContain("g_rangeBuyTicket = trade.ResultOrder();");
+      expect(onTick).toContain("g_rangeSellTicket = trade.ResultOrder();");
+      expect(onTick).toContain(
+        "if(PendingOrderExpired(g_rangeBuyTicket, InpRange0ExpiryBars, 0) && trade.OrderDelete(g_rangeBuyTicket)) g_rangeBuyTicket = 0;"
+      );
+      expect(onTick).toContain("if(PendingOrderClosed(g_rangeBuyTicket))");
+      expect(onTick).toContain(
+        "if(PendingOrderFilled(g_rangeBuyTicket) && PendingOrderActive(g_rangeSellTicket))"
+      );
+      expect(onTick).toContain(
+        "if(PendingOrderFilled(g_rangeSellTicket) && PendingOrderActive(g_rangeBuyTicket))"
+      );
+      expect(onTick).not.toContain("OCO: Cancel pending orders when a position is open");
+    });
+
+    it("tracks range tickets and pending orders per symbol in multi-pair mode", () => {
+      const build = makeBuild([
+        range({ pendingExpiryMode: "BARS", pendingExpiryBars: 8 }),
+        order("place-buy", { orderType: "MARKET" }),
+        order("place-sell", { cancelOnInvalidate: true }),
+      ]);
+      build.settings = {
+        ...build.settings,
+        multiPair: {
+          enabled: true,
+          symbols: ["EURUSD", "GBPUSD"],
+          perSymbolOverrides: [],
+          correlationFilter: false,
+          correlationThreshold: 0.7,
+          correlationPeriod: 50,
+          maxTotalPositions: 4,
+          maxPositionsPerPair: 1,
+        },
+      };
+      const code = generateMQL5Code(build, "Test");
+      const onTick = onTickOf(code);
+
+      expect(code).toContain("ulong g_rangeBuyTicket[];");
+      expect(code).toContain("ArrayResize(g_rangeBuyTicket, g_symbolCount);");
+      expect(code).toContain("ArrayResize(g_rangeSellTicket, g_symbolCount);");
+      expect(onTick).toContain("g_rangeBuyTicket[sym] = trade.ResultOrder();");
+      expect(onTick).toContain(
+        "if(PendingOrderFilled(g_rangeBuyTicket[sym]) && PendingOrderActive(g_rangeSellTicket[sym]))"
+      );
+      expect(onTick).not.toMatch(/g_rangeBuyTicket(?!\[sym\])/);
+      expect(code).toContain("bool IsOwnPendingOrder(string sym, bool buySide)");
+    });
+
+    it("keeps one-sided range orders on the position-based OCO and honours ocoBracket off", () => {
+      const oneSided = generateMQL5Code(
+        makeBuild([range({ breakoutDirection: "BUY_ON_HIGH" }), order("place-buy")]),
+        "Test"
+      );
+      expect(oneSided).toContain("OCO: Cancel pending orders when a position is open");
+      expect(oneSided).not.toContain("PendingOrderFilled");
+      expect(oneSided).not.toContain("PendingOrderExpired(g_rangeBuyTicket");
+
+      const noOco = generateMQL5Code(
+        makeBuild([
+          range({ ocoBracket: false }),
+          order("place-buy", { orderType: "MARKET" }),
+          order("place-sell", { orderType: "MARKET" }),
+        ]),
+        "Test"
+      );
+      expect(noOco).not.toContain("PendingOrderFilled");
+      expect(noOco).not.toContain("OCO: Cancel pending orders when a position is open");
     });
   });
 
@@ -3387,6 +4217,306 @@ describe("generateMQL5Code", () => {
     });
   });
 
+  describe("HTF bias filter", () => {
+    const biasBuild = (
+      bias: Record<string, unknown>,
+      conditionMode?: "AND" | "OR",
+      settings?: Partial<BuildJsonSchema["settings"]>
+    ) => {
+      const build = makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        makeNode("rsi1", "rsi", {
+          category: "indicator",
+          indicatorType: "rsi",
+          timeframe: "H1",
+          period: 14,
+          overboughtLevel: 70,
+          oversoldLevel: 30,
+        }),
+        makeNode("b1", "place-buy", {
+          category: "trading",
+          tradingType: "place-buy",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+        makeNode("s1", "place-sell", {
+          category: "trading",
+          tradingType: "place-sell",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+      ]);
+      build.nodes.push(
+        makeNode("htf", "htf-bias", {
+          category: "timing",
+          filterType: "htf-bias",
+          timeframe: "D1",
+          biasMethod: "PRICE_VS_MA",
+          period: 50,
+          maMethod: "EMA",
+          fastPeriod: 12,
+          slowPeriod: 26,
+          filterBuys: true,
+          filterSells: true,
+          ...bias,
+        })
+      );
+      if (conditionMode) build.settings = { ...build.settings, conditionMode };
+      if (settings) build.settings = { ...build.settings, ...settings };
+      return generateMQL5Code(build, "Test");
+    };
+
+    it("reads the bias from the last closed HTF bar", () => {
+      const code = biasBuild({});
+      expect(code).toContain("InpHtfBiasTimeframe = TF_D1");
+      expect(code).toContain(
+        "htfBiasHandle = iMA(_Symbol, (ENUM_TIMEFRAMES)InpHtfBiasTimeframe, MathMax(1, InpHtfBiasPeriod), 0, InpHtfBiasMAMethod, PRICE_CLOSE);"
+      );
+      expect(code).toContain(
+        "double htfClose = iClose(_Symbol, (ENUM_TIMEFRAMES)InpHtfBiasTimeframe, 1);"
+      );
+      expect(code).toContain("CopyBuffer(htfBiasHandle, 0, 1, 1, htfBiasBuf) == 1");
+      expect(code).not.toContain("CopyBuffer(htfBiasHandle, 0, 0,");
+      expect(code).toContain("IndicatorRelease(htfBiasHandle)");
+    });
+
+    it("gates each direction even when conditions are OR'ed", () => {
+      const code = biasBuild({ filterSells: false }, "OR");
+      expect(code).toMatch(/bool buyCondition = .* && htfBias > 0;/);
+      expect(code).not.toContain("htfBias < 0");
+    });
+
+    it("reads the bias of each traded symbol in multi-pair mode", () => {
+      const code = biasBuild({}, undefined, {
+        multiPair: {
+          enabled: true,
+          symbols: ["EURUSD", "GBPUSD"],
+          perSymbolOverrides: [],
+          correlationFilter: false,
+          correlationThreshold: 0.7,
+          correlationPeriod: 50,
+          maxTotalPositions: 4,
+          maxPositionsPerPair: 2,
+        },
+      });
+      expect(code).toContain("g_htfBiasHandle[sym] = iMA(g_symbols[sym], ");
+      expect(code).toContain(
+        "double htfClose = iClose(tradeSym, (ENUM_TIMEFRAMES)InpHtfBiasTimeframe, 1);"
+      );
+      expect(code).toContain("CopyBuffer(g_htfBiasHandle[sym], 0, 1, 1, htfBiasBuf) == 1");
+    });
+
+    const rangeBuild = (extra: BuilderNode[]) =>
+      makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        makeNode("rb1", "range-breakout", {
+          category: "priceaction",
+          priceActionType: "range-breakout",
+          timeframe: "H1",
+          rangeType: "PREVIOUS_CANDLES",
+          lookbackCandles: 20,
+          breakoutDirection: "BOTH",
+          entryMode: "ON_CLOSE",
+          bufferPips: 2,
+          minRangePips: 10,
+          maxRangePips: 0,
+        }),
+        ...extra,
+        makeNode("b1", "place-buy", {
+          category: "trading",
+          tradingType: "place-buy",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+        makeNode("s1", "place-sell", {
+          category: "trading",
+          tradingType: "place-sell",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+      ]);
+
+    it("keeps a range breakout's ungated side open", () => {
+      const code = generateMQL5Code(
+        rangeBuild([
+          makeNode("htf", "htf-bias", {
+            category: "timing",
+            filterType: "htf-bias",
+            timeframe: "D1",
+            biasMethod: "MA_SLOPE",
+            period: 50,
+            filterBuys: true,
+            filterSells: false,
+          }),
+        ]),
+        "Test"
+      );
+      expect(code).toMatch(/bool buyCondition = htfBias > 0;/);
+      expect(code).toMatch(/bool sellCondition = true;/);
+    });
+
+    it("leaves range breakout filter conditions unchanged without a bias", () => {
+      const code = generateMQL5Code(
+        rangeBuild([
+          makeNode("ema1", "moving-average", {
+            category: "indicator",
+            indicatorType: "moving-average",
+            timeframe: "H4",
+            period: 200,
+            method: "EMA",
+            _filterRole: "htf-trend",
+          }),
+        ]),
+        "Test"
+      );
+      expect(code).toMatch(/bool buyCondition = \(DoubleGT\(iClose\(_Symbol.+\)\);/);
+      expect(code).toMatch(/bool sellCondition = \(DoubleLT\(iClose\(_Symbol.+\)\);/);
+      expect(code).not.toMatch(/bool (buy|sell)Condition = true;/);
+    });
+
+    it("reads both DI lines for the ADX method", () => {
+      const code = biasBuild({ biasMethod: "ADX_DI", period: 14 });
+      expect(code).toContain("htfBiasHandle = iADX(");
+      expect(code).toContain(
+        "CopyBuffer(htfBiasHandle, 1, 1, 1, htfBiasBuf) == 1 && CopyBuffer(htfBiasHandle, 2, 1, 1, htfBiasBuf2) == 1"
+      );
+      expect(code).toContain("bool sellCondition = ");
+      expect(code).toMatch(/bool sellCondition = .* && htfBias < 0;/);
+    });
+  });
+
+  describe("risk-amount position sizing", () => {
+    const sizingBuild = (sizing: Record<string, unknown>) =>
+      makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        makeNode("sl1", "stop-loss", {
+          category: "trading",
+          tradingType: "stop-loss",
+          method: "FIXED_PIPS",
+          fixedPips: 50,
+          atrMultiplier: 1.5,
+          atrPeriod: 14,
+        }),
+        makeNode("b1", "place-buy", {
+          category: "trading",
+          tradingType: "place-buy",
+          fixedLot: 0.1,
+          riskPercent: 1,
+          minLot: 0.01,
+          maxLot: 100,
+          ...sizing,
+        }),
+        makeNode("s1", "place-sell", {
+          category: "trading",
+          tradingType: "place-sell",
+          fixedLot: 0.1,
+          riskPercent: 1,
+          minLot: 0.01,
+          maxLot: 100,
+          ...sizing,
+        }),
+      ]);
+
+    it("sizes volatility-targeted trades from the last closed ATR bar", () => {
+      const code = generateMQL5Code(
+        sizingBuild({ method: "VOLATILITY_TARGET", volTargetPercent: 0.5, volAtrPeriod: 20 }),
+        "Test"
+      );
+      expect(code).toContain("InpBuyVolTarget = 0.5");
+      expect(code).toContain(
+        "buySizingAtrHandle = iATR(_Symbol, (ENUM_TIMEFRAMES)InpBuyVolAtrTimeframe, InpBuyVolAtrPeriod);"
+      );
+      expect(code).toContain(
+        "if(CopyBuffer(buySizingAtrHandle, 0, 1, 1, buySizingAtr) < 1) return;"
+      );
+      expect(code).toContain(
+        "double buyLotSize = RiskAmountLotSize(_Symbol, SizingBalance() * InpBuyVolTarget / 100.0, buySizingAtr[0] / _Point);"
+      );
+      expect(code).toContain("IndicatorRelease(sellSizingAtrHandle)");
+      expect(code).toContain(
+        "double RiskAmountLotSize(string sym, double riskAmount, double slPoints)"
+      );
+    });
+
+    it("steps the balance down for fixed-fractional sizing", () => {
+      const code = generateMQL5Code(
+        sizingBuild({ method: "FIXED_FRACTIONAL_STEP", equityStep: 5000 }),
+        "Test"
+      );
+      expect(code).toContain("InpBuyEquityStep = 5000");
+      expect(code).toContain(
+        "double sellLotSize = RiskAmountLotSize(_Symbol, MathFloor(SizingBalance() / MathMax(InpSellEquityStep, 1.0)) * MathMax(InpSellEquityStep, 1.0) * InpSellStepRiskPercent / 100.0, slPips);"
+      );
+    });
+
+    it("caps the Kelly risk and adds the helper once", () => {
+      const code = generateMQL5Code(sizingBuild({ method: "KELLY", kellyCapPercent: 1.5 }), "Test");
+      expect(code).toContain("InpBuyKellyCap = 1.5");
+      expect(code).toContain(
+        "KellyRiskPercent(InpBuyKellyWinRate, InpBuyKellyPayoff, InpBuyKellyFraction, InpBuyKellyCap)"
+      );
+      expect(code.match(/double KellyRiskPercent\(/g)).toHaveLength(1);
+      expect(code.match(/double RiskAmountLotSize\(/g)).toHaveLength(1);
+    });
+
+    it("sizes range-breakout pending orders from their own SL distance", () => {
+      const build = makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        makeNode("rb1", "range-breakout", {
+          category: "priceaction",
+          priceActionType: "range-breakout",
+          rangePeriod: 20,
+          breakoutMode: "CLOSE",
+          rangeTimeframe: "H1",
+          rangeMethod: "CANDLES",
+        }),
+        makeNode("sl1", "stop-loss", {
+          category: "trading",
+          tradingType: "stop-loss",
+          method: "RANGE_OPPOSITE",
+          fixedPips: 50,
+          atrMultiplier: 1.5,
+          atrPeriod: 14,
+        }),
+        makeNode("s1", "place-sell", {
+          category: "trading",
+          tradingType: "place-sell",
+          method: "FIXED_MONEY",
+          fixedLot: 0.1,
+          riskPercent: 1,
+          riskAmount: 50,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+      ]);
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain(
+        "double pendSellLot = RiskAmountLotSize(_Symbol, InpSellRiskAmount, pendSellSLDist);"
+      );
+      expect(code).not.toContain("double sellLotSize = RiskAmountLotSize");
+    });
+
+    it("risks a fixed amount of account currency", () => {
+      const code = generateMQL5Code(
+        sizingBuild({ method: "FIXED_MONEY", riskAmount: 250 }),
+        "Test"
+      );
+      expect(code).toContain("InpBuyRiskAmount = 250");
+      expect(code).toContain(
+        "double buyLotSize = RiskAmountLotSize(_Symbol, InpBuyRiskAmount, slPips);"
+      );
+      expect(code).not.toContain("CalculateLotSize(InpBuyRiskPercent");
+    });
+  });
+
   // ============================================
   // AUDIT: Missing indicator tests
   // ============================================
@@ -3759,6 +4889,143 @@ describe("generateMQL5Code", () => {
       expect(code).toContain("SYMBOL_CURRENCY_BASE");
     });
 
+    it("embeds imported calendar events for the dates the import covers", () => {
+      const build = makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        makeNode("nf1", "news-filter", {
+          category: "timing",
+          filterType: "news-filter",
+          hoursBefore: 0.5,
+          hoursAfter: 0.5,
+          highImpact: true,
+          mediumImpact: false,
+          lowImpact: false,
+          closePositions: false,
+        }),
+        makeNode("b1", "place-buy", {
+          category: "trading",
+          tradingType: "place-buy",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          riskPercent: 2,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+      ]);
+      const code = generateMQL5Code(build, "Test", undefined, undefined, undefined, {
+        events: [{ time: new Date("2024-05-03T12:30:00Z"), currency: "USD", importance: 3 }],
+        coverage: [
+          {
+            currency: "USD",
+            importance: 3,
+            start: new Date("2024-05-01T00:00:00Z"),
+            end: new Date("2024-05-31T23:59:59.999Z"),
+          },
+        ],
+      });
+      expect(code).toContain('"2024.05.03 12:30,3,USD"');
+      // Rule-based NFP estimate (first Friday 13:30) is replaced inside the covered month
+      expect(code).not.toContain('"2024.05.03 13:30,3,USD"');
+      expect(code).toContain('"2024.06.07 13:30,3,USD"');
+      expect(code).toContain("Events: 1 from your imported economic calendar");
+    });
+
+    it("filters news by each symbol's currencies and the include/exclude list", () => {
+      const newsFilter = (data: Record<string, unknown>) =>
+        makeBuild([
+          makeNode("t1", "always", { category: "timing", timingType: "always" }),
+          makeNode("nf1", "news-filter", {
+            category: "timing",
+            filterType: "news-filter",
+            hoursBefore: 0.5,
+            hoursAfter: 0.5,
+            highImpact: true,
+            mediumImpact: false,
+            lowImpact: false,
+            closePositions: false,
+            ...data,
+          }),
+          makeNode("b1", "place-buy", {
+            category: "trading",
+            tradingType: "place-buy",
+            method: "FIXED_LOT",
+            fixedLot: 0.1,
+            riskPercent: 2,
+            minLot: 0.01,
+            maxLot: 100,
+          }),
+        ]);
+
+      const code = generateMQL5Code(newsFilter({}), "Test");
+      expect(code).toContain("if(IsNewsTime(_Symbol))");
+      expect(code).toContain("bool IsNewsTime(string sym)");
+      expect(code).toContain(
+        "if(g_newsEvents[i].currency != symBase && g_newsEvents[i].currency != symQuote) continue;"
+      );
+      expect(code).toContain("AddNewsCurrency(SymbolInfoString(_Symbol, SYMBOL_CURRENCY_BASE));");
+      expect(code).toContain('InpNewsIncludeCurrencies = "";');
+
+      const excluding = generateMQL5Code(
+        newsFilter({ currencyMode: "EXCLUDE", currencies: ["GBP", "JPY"] }),
+        "Test"
+      );
+      expect(excluding).toContain('InpNewsExcludeCurrencies = "GBP,JPY";');
+      expect(excluding).toContain('InpNewsIncludeCurrencies = "";');
+
+      const including = generateMQL5Code(
+        newsFilter({ currencyMode: "INCLUDE", currencies: ["USD"] }),
+        "Test"
+      );
+      expect(including).toContain('InpNewsIncludeCurrencies = "USD";');
+    });
+
+    it("collects news currencies from every symbol in multi-pair mode", () => {
+      const build = makeBuild([
+        makeNode("t1", "always", { category: "timing", timingType: "always" }),
+        makeNode("nf1", "news-filter", {
+          category: "timing",
+          filterType: "news-filter",
+          hoursBefore: 0.5,
+          hoursAfter: 0.5,
+          highImpact: true,
+          mediumImpact: false,
+          lowImpact: false,
+          closePositions: true,
+        }),
+        makeNode("b1", "place-buy", {
+          category: "trading",
+          tradingType: "place-buy",
+          method: "FIXED_LOT",
+          fixedLot: 0.1,
+          riskPercent: 2,
+          minLot: 0.01,
+          maxLot: 100,
+        }),
+      ]);
+      build.settings = {
+        ...build.settings,
+        multiPair: {
+          enabled: true,
+          symbols: ["AUDJPY", "GBPUSD"],
+          perSymbolOverrides: [],
+          correlationFilter: false,
+          correlationThreshold: 0.7,
+          correlationPeriod: 50,
+          maxTotalPositions: 4,
+          maxPositionsPerPair: 2,
+        },
+      };
+      const code = generateMQL5Code(build, "Test");
+      expect(code).toContain(
+        "AddNewsCurrency(SymbolInfoString(g_symbols[s], SYMBOL_CURRENCY_BASE));"
+      );
+      expect(code).toContain("if(IsNewsTime(tradeSym))");
+      // Symbol list is parsed before the news currencies are collected
+      expect(code.indexOf("ParseSymbolList(InpSymbols")).toBeLessThan(
+        code.indexOf("BuildNewsCurrencies();")
+      );
+    });
+
     it("generates close positions code when closePositions is true", () => {
       const build = makeBuild([
         makeNode("t1", "always", { category: "timing", timingType: "always" }),
@@ -4133,6 +5400,150 @@ describe("generateMQL5Code", () => {
       expect(code).toContain("void OnTick()");
       expect(code).not.toContain("DoubleGT(ind");
     });
+
+    describe("operand mode", () => {
+      const buyNode = makeNode("b1", "place-buy", {
+        category: "trading",
+        tradingType: "place-buy",
+        method: "FIXED_LOT",
+        fixedLot: 0.1,
+        riskPercent: 2,
+        minLot: 0.01,
+        maxLot: 100,
+      });
+      const ma = (id: string, timeframe: string, period: number) =>
+        makeNode(id, "moving-average", {
+          category: "indicator",
+          indicatorType: "moving-average",
+          timeframe,
+          period,
+          method: "EMA",
+          appliedPrice: "CLOSE",
+          shift: 0,
+        });
+      const condition = (conditionType: string, operandA: object, operandB: object) =>
+        makeNode("cond1", "condition", {
+          category: "indicator",
+          indicatorType: "condition",
+          conditionType,
+          threshold: 0,
+          compareTo: "OPERAND",
+          operandA,
+          operandB,
+        });
+
+      it("compares a fast H1 MA crossing above a slow H4 MA", () => {
+        const build = makeBuild(
+          [
+            makeNode("t1", "always", { category: "timing", timingType: "always" }),
+            ma("fast", "H1", 9),
+            ma("slow", "H4", 21),
+            condition(
+              "CROSSES_ABOVE",
+              { source: "INDICATOR", buffer: "Main", shift: 1 },
+              { source: "INDICATOR", buffer: "Main", shift: 1 }
+            ),
+            buyNode,
+          ],
+          [
+            { id: "e1", source: "t1", target: "fast" },
+            { id: "e2", source: "t1", target: "slow" },
+            { id: "e3", source: "fast", target: "cond1", targetHandle: "operand-a" },
+            { id: "e4", source: "slow", target: "cond1", targetHandle: "operand-b" },
+            { id: "e5", source: "cond1", sourceHandle: "true", target: "b1" },
+          ]
+        );
+        const code = generateMQL5Code(build, "Test");
+
+        expect(code).toContain("InpMA1Timeframe = TF_H4");
+        // Each operand is read on its own timeframe at the current and previous chart bar
+        expect(code).toContain(
+          "double ind2A0 = ConditionBufferValue(ind0Handle, 0, (ENUM_TIMEFRAMES)InpMA0Timeframe, 0, 1);"
+        );
+        expect(code).toContain(
+          "double ind2B1 = ConditionBufferValue(ind1Handle, 0, (ENUM_TIMEFRAMES)InpMA1Timeframe, 1, 1);"
+        );
+        expect(code).toContain(
+          "int bar = iBarShift(_Symbol, tf, iTime(_Symbol, PERIOD_CURRENT, chartBar)) + shift;"
+        );
+        expect(code).toContain("(DoubleLE(ind2A1, ind2B1) && DoubleGT(ind2A0, ind2B0))");
+      });
+
+      it("compares the close against the upper Bollinger band", () => {
+        const build = makeBuild(
+          [
+            makeNode("t1", "always", { category: "timing", timingType: "always" }),
+            makeNode("bb1", "bollinger-bands", {
+              category: "indicator",
+              indicatorType: "bollinger-bands",
+              timeframe: "H4",
+              period: 20,
+              deviation: 2,
+              appliedPrice: "CLOSE",
+              shift: 0,
+            }),
+            condition(
+              "GREATER_THAN",
+              { source: "PRICE", priceField: "CLOSE", timeframe: "D1", shift: 0 },
+              { source: "INDICATOR", buffer: "Upper", shift: 1 }
+            ),
+            buyNode,
+          ],
+          [
+            { id: "e1", source: "t1", target: "bb1" },
+            { id: "e2", source: "t1", target: "cond1" },
+            { id: "e3", source: "bb1", target: "cond1", targetHandle: "operand-b" },
+            { id: "e4", source: "cond1", sourceHandle: "true", target: "b1" },
+          ]
+        );
+        const code = generateMQL5Code(build, "Test");
+
+        expect(code).toContain("double ind1A0 = ConditionPriceValue(3, PERIOD_D1, 0, 0);");
+        // BB upper line is buffer 1
+        expect(code).toContain(
+          "double ind1B0 = ConditionBufferValue(ind0Handle, 1, (ENUM_TIMEFRAMES)InpBB0Timeframe, 0, 1);"
+        );
+        expect(code).toContain("ind1B1 == EMPTY_VALUE) return;");
+        expect(code).toContain("(DoubleGT(ind1A0, ind1B0))");
+      });
+
+      it("defaults an unset output line to the one the builder and simulator pick", () => {
+        for (const [type, names] of Object.entries(INDICATOR_OUTPUT_BUFFERS)) {
+          if (type === "custom-indicator" || !names) continue;
+          const nodes = [makeNode("ind", type, { category: "indicator", indicatorType: type })];
+          expect(resolveIndicatorOutput("ind", undefined, 1, nodes), type).toEqual(
+            resolveIndicatorOutput("ind", names[0], 1, nodes)
+          );
+        }
+        // Bollinger upper band (buffer 1), not the middle line (buffer 0)
+        const bb = [makeNode("bb1", "bollinger-bands", { indicatorType: "bollinger-bands" })];
+        expect(resolveIndicatorOutput("bb1", undefined, 1, bb)).toMatchObject({ bufferIndex: "1" });
+      });
+
+      it("skips the comparison when an indicator operand is not connected", () => {
+        const build = makeBuild(
+          [
+            makeNode("t1", "always", { category: "timing", timingType: "always" }),
+            ma("fast", "H1", 9),
+            condition(
+              "GREATER_THAN",
+              { source: "INDICATOR", shift: 1 },
+              { source: "INDICATOR", shift: 1 }
+            ),
+            buyNode,
+          ],
+          [
+            { id: "e1", source: "t1", target: "fast" },
+            { id: "e2", source: "fast", target: "cond1", targetHandle: "operand-a" },
+            { id: "e3", source: "cond1", target: "b1" },
+          ]
+        );
+        const code = generateMQL5Code(build, "Test");
+
+        expect(code).not.toContain("ConditionBufferValue");
+        expect(code).not.toContain("ind1A0");
+      });
+    });
   });
 
   // ============================================
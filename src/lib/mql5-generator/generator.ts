@@ -9,10 +9,18 @@ import type {
   VolatilityFilterNodeData,
   FridayCloseFilterNodeData,
   NewsFilterNodeData,
+  NewsCurrencyMode,
   VolumeFilterNodeData,
 } from "@/types/builder";
 
-import { type GeneratorContext, type GeneratedCode, getTimeframeEnum } from "./types";
+import {
+  type GeneratorContext,
+  type GeneratedCode,
+  type LogicExpression,
+  getTimeframeEnum,
+} from "./types";
+import { compileLogicGates, isLogicGateNode } from "./logic-gates";
+import { expandMacroNodes } from "./macros";
 
 import {
   generateFileHeader,
@@ -26,9 +34,16 @@ import {
 } from "./templates";
 
 import { sanitizeName, sanitizeMQL5String, isFieldOptimizable } from "./generators/shared";
-import { generateEmbeddedNewsData } from "../news-calendar";
+import {
+  buildEmbeddedNewsData,
+  EMBEDDED_NEWS_END_YEAR,
+  EMBEDDED_NEWS_START_YEAR,
+  type ImportedNewsCalendar,
+} from "../news-calendar";
 import { generateMultipleTimingCode } from "./generators/timing";
-import { generateIndicatorCode } from "./generators/indicators";
+import { generateConditionOperandCode, generateIndicatorCode } from "./generators/indicators";
+import { generateFormulaCode } from "./generators/formula";
+import { generateHtfBiasCode } from "./generators/htf-bias";
 import { generatePriceActionCode } from "./generators/price-action";
 import {
   generatePlaceBuyCode,
@@ -47,6 +62,7 @@ import {
 } from "./generators/trade-management";
 import { generateCloseConditionCode } from "./generators/close-conditions";
 import { generateTelemetryCode, type TelemetryConfig } from "./generators/telemetry";
+import { generateEquityCurveFilterCode } from "./generators/equity-curve";
 import { transformCodeForMultiPair } from "./generators/multi-pair";
 
 /**
@@ -63,7 +79,7 @@ function hashStringToMagic(name: string): number {
 }
 
 // Helper function to get all connected node IDs starting from source nodes
-function getConnectedNodeIds(
+export function getConnectedNodeIds(
   nodes: BuilderNode[],
   edges: BuilderEdge[],
   startNodeTypes: string[]
@@ -162,11 +178,17 @@ function buildStrategyOverlayArray(nodes: BuilderNode[], ctx: GeneratorContext):
  * Decompose entry strategy nodes into virtual indicator + buy/sell nodes.
  * Entry strategy nodes (ema-crossover-entry, trend-pullback-entry, divergence-entry)
  * are composite nodes that must be split into the component parts the generator expects.
+ * Logic gate nodes are compiled into `entryLogic`, nested boolean expressions over the
+ * (decomposed) condition nodes. Returns null when there is nothing to decompose.
  */
-function decomposeEntryStrategyNodes(
+export function decomposeEntryStrategyNodes(
   nodes: BuilderNode[],
   edges: BuilderEdge[]
-): { nodes: BuilderNode[]; edges: BuilderEdge[] } | null {
+): { nodes: BuilderNode[]; edges: BuilderEdge[]; entryLogic: LogicExpression[] } | null {
+  // Macro blocks expand first — their inner nodes may themselves need decomposing
+  const expanded = expandMacroNodes(nodes, edges);
+  if (expanded) ({ nodes, edges } = expanded);
+
   const entryStrategyTypes = new Set([
     "ema-crossover-entry",
     "trend-pullback-entry",
@@ -176,10 +198,11 @@ function decomposeEntryStrategyNodes(
   ]);
 
   const hasEntryStrategy = nodes.some((n) => entryStrategyTypes.has(n.type as string));
-  if (!hasEntryStrategy) return null;
+  if (!hasEntryStrategy && !expanded && !nodes.some(isLogicGateNode)) return null;
 
   const newNodes: BuilderNode[] = [];
   const newEdges: BuilderEdge[] = [...edges];
+  const gateIds = new Set(nodes.filter(isLogicGateNode).map((n) => n.id));
 
   for (const node of nodes) {
     if (!entryStrategyTypes.has(node.type as string)) {
@@ -448,18 +471,58 @@ function decomposeEntryStrategyNodes(
         target: virtualIds[i],
       } as BuilderEdge);
     }
+
+    // Wired into a logic gate (e.g. through a macro), the entry strategy enters it as the
+    // AND of its own conditions, through a virtual AND gate over its indicators
+    if (newEdges.some((e) => e.source === esId && gateIds.has(e.target))) {
+      const groupId = `${esId}_gate`;
+      newNodes.push({
+        id: groupId,
+        type: "and-gate",
+        position: { x: 0, y: 0 },
+        data: { label: "Entry Strategy", category: "logic", logicType: "AND" },
+      } as unknown as BuilderNode);
+      for (const id of virtualIds) {
+        if (id === `${esId}_buy` || id === `${esId}_sell`) continue;
+        newEdges.push({ id: `${groupId}_${id}`, source: id, target: groupId } as BuilderEdge);
+      }
+      for (let i = 0; i < newEdges.length; i++) {
+        if (newEdges[i].source === esId && gateIds.has(newEdges[i].target)) {
+          newEdges[i] = { ...newEdges[i], source: groupId };
+        }
+      }
+    }
   }
 
-  return { nodes: newNodes, edges: newEdges };
+  return { nodes: newNodes, edges: newEdges, entryLogic: compileLogicGates(newNodes, newEdges) };
 }
 
-export function generateMQL5Code(
+/** Code sections produced from a build, before platform-specific assembly. */
+export interface StrategyCode {
+  ctx: GeneratorContext;
+  code: GeneratedCode;
+  /** Build after entry strategy decomposition */
+  buildJson: BuildJsonSchema;
+  hasNewsFilter: boolean;
+}
+
+/**
+ * Run every node sub-generator and collect the resulting code sections.
+ * Shared by the MQL5 and MQL4 generators; telemetry, multi-pair and file assembly happen in the callers.
+ */
+export function buildStrategyCode(
   buildJson: BuildJsonSchema,
   projectName: string,
   description?: string,
-  telemetry?: TelemetryConfig,
-  projectId?: string
-): string {
+  projectId?: string,
+  newsCalendar?: ImportedNewsCalendar
+): StrategyCode {
+  // Expand macro blocks before anything reads the node list
+  const expandedMacros = expandMacroNodes(buildJson.nodes, buildJson.edges);
+  if (expandedMacros) {
+    buildJson = { ...buildJson, nodes: expandedMacros.nodes, edges: expandedMacros.edges };
+  }
+
   const ctx: GeneratorContext = {
     projectName: sanitizeName(projectName),
     description: sanitizeMQL5String(description ?? ""),
@@ -480,6 +543,7 @@ export function generateMQL5Code(
     minBarsBetweenTrades: buildJson.settings?.minBarsBetweenTrades ?? 0,
     maxTotalDrawdownPercent: buildJson.settings?.maxTotalDrawdownPercent ?? 0,
     equityTargetPercent: buildJson.settings?.equityTargetPercent ?? 0,
+    equityCurveMaPeriod: buildJson.settings?.equityCurveMaPeriod ?? 0,
     maxSlippage: buildJson.settings?.maxSlippage ?? 10,
     symbolVar: buildJson.settings?.multiPair?.enabled ? "tradeSym" : "_Symbol",
     multiPairEnabled: buildJson.settings?.multiPair?.enabled ?? false,
@@ -546,6 +610,7 @@ export function generateMQL5Code(
   const decomposed = decomposeEntryStrategyNodes(buildJson.nodes, buildJson.edges);
   if (decomposed) {
     buildJson = { ...buildJson, nodes: decomposed.nodes, edges: decomposed.edges };
+    ctx.entryLogic = decomposed.entryLogic;
   }
 
   // Get all nodes that are connected to the strategy (starting from timing nodes)
@@ -589,6 +654,9 @@ export function generateMQL5Code(
     "order-block",
     "fair-value-gap",
     "market-structure",
+    "liquidity-sweep",
+    "equal-highs-lows",
+    "pivot-points",
   ]);
 
   const indicatorNodes: BuilderNode[] = [];
@@ -671,6 +739,11 @@ export function generateMQL5Code(
     }
   }
 
+  // Equity curve filter: settle virtual trades before any timing/filter early return
+  if (ctx.equityCurveMaPeriod > 0) {
+    generateEquityCurveFilterCode(code, ctx);
+  }
+
   // Generate timing code (supports multiple timing nodes OR'd together)
   if (timingNodes.length > 0) {
     generateMultipleTimingCode(timingNodes, code);
@@ -847,6 +920,11 @@ export function generateMQL5Code(
     const mediumImpact = nfData.mediumImpact ?? false;
     const lowImpact = nfData.lowImpact ?? false;
     const closePositions = nfData.closePositions ?? false;
+    const currencyMode = nfData.currencyMode ?? "ALL";
+    const currencyList = (mode: NewsCurrencyMode) =>
+      currencyMode === mode
+        ? (nfData.currencies ?? []).filter((c) => /^[A-Z]{3}$/.test(c)).join(",")
+        : "";
 
     // Inputs (MQL5 uses minutes internally)
     code.inputs.push(
@@ -898,6 +976,22 @@ export function generateMQL5Code(
         isOptimizable: false,
         group: "News Filter",
       },
+      {
+        name: "InpNewsIncludeCurrencies",
+        type: "string",
+        value: currencyList("INCLUDE"),
+        comment: "Only These Currencies (comma-separated, empty = all)",
+        isOptimizable: false,
+        group: "News Filter",
+      },
+      {
+        name: "InpNewsExcludeCurrencies",
+        type: "string",
+        value: currencyList("EXCLUDE"),
+        comment: "Ignore These Currencies (comma-separated)",
+        isOptimizable: false,
+        group: "News Filter",
+      },
       {
         name: "InpBrokerUTCOffset",
         type: "int",
@@ -909,26 +1003,39 @@ export function generateMQL5Code(
     );
 
     // Global variables
-    code.globalVariables.push("struct SNewsEvent { datetime time; int importance; };");
+    code.globalVariables.push(
+      "struct SNewsEvent { datetime time; int importance; string currency; };"
+    );
     code.globalVariables.push("SNewsEvent g_newsEvents[];");
     code.globalVariables.push("int        g_newsCount = 0;");
     code.globalVariables.push("bool       g_isTesting = false;");
     code.globalVariables.push("datetime   g_lastNewsRefresh = 0;");
-    code.globalVariables.push("string     g_baseCurrency, g_quoteCurrency;");
+    code.globalVariables.push(
+      "string     g_newsCurrencies[]; // currencies of every traded symbol"
+    );
 
-    // Embedded news data for backtesting (generated at export time)
+    // Embedded news data for backtesting (generated at export time). Imported calendar
+    // events replace the rule-based schedule wherever an import covers the date.
     const newsGenerationDate = new Date().toISOString().split("T")[0];
-    const newsData = generateEmbeddedNewsData(2015, 2030);
-    const newsArrayEntries = newsData.map((entry) => `   "${entry}"`).join(",\n");
+    const newsData = buildEmbeddedNewsData(
+      EMBEDDED_NEWS_START_YEAR,
+      EMBEDDED_NEWS_END_YEAR,
+      newsCalendar
+    );
+    const newsArrayEntries = newsData.entries.map((entry) => `   "${entry}"`).join(",\n");
     code.globalVariables.push(`// NEWS CALENDAR DATA — Generated on ${newsGenerationDate}`);
+    code.globalVariables.push(
+      newsData.importedCount > 0
+        ? `// Events: ${newsData.importedCount} from your imported economic calendar, ${newsData.syntheticCount} estimated from the regular release schedule.`
+        : `// Event dates are estimated from the regular release schedule.`
+    );
     code.globalVariables.push(`// This data is static and was embedded at the time of EA export.`);
     code.globalVariables.push(`// Re-export the EA to refresh news calendar data for backtesting.`);
     code.globalVariables.push(`const string g_embeddedNews[] = {\n${newsArrayEntries}\n};`);
 
     // OnInit
     code.onInit.push(`   g_isTesting = (bool)MQLInfoInteger(MQL_TESTER);`);
-    code.onInit.push(`   g_baseCurrency = SymbolInfoString(_Symbol, SYMBOL_CURRENCY_BASE);`);
-    code.onInit.push(`   g_quoteCurrency = SymbolInfoString(_Symbol, SYMBOL_CURRENCY_PROFIT);`);
+    code.onInit.push(`   BuildNewsCurrencies();`);
     code.onInit.push(``);
     code.onInit.push(`   if(g_isTesting)`);
     code.onInit.push(`   {`);
@@ -945,7 +1052,7 @@ export function generateMQL5Code(
     code.onTick.push(`   if(!g_isTesting && TimeCurrent() - g_lastNewsRefresh > 3600)`);
     code.onTick.push(`      RefreshNewsCache();`);
     code.onTick.push(``);
-    code.onTick.push(`   if(IsNewsTime())`);
+    code.onTick.push(`   if(IsNewsTime(_Symbol))`);
     code.onTick.push(`   {`);
     if (closePositions) {
       code.onTick.push(`      if(InpNewsClosePos)`);
@@ -985,9 +1092,7 @@ export function generateMQL5Code(
     code.helperFunctions.push(
       `         if(!CalendarCountryById(event.country_id, country)) continue;`
     );
-    code.helperFunctions.push(
-      `         if(country.currency != g_baseCurrency && country.currency != g_quoteCurrency) continue;`
-    );
+    code.helperFunctions.push(`         if(!IsNewsCurrency(country.currency)) continue;`);
     code.helperFunctions.push(`         int imp = (int)event.importance;`);
     code.helperFunctions.push(
       `         if((imp==1 && !InpNewsLow) || (imp==2 && !InpNewsMedium) || (imp==3 && !InpNewsHigh)) continue;`
@@ -996,17 +1101,26 @@ export function generateMQL5Code(
     code.helperFunctions.push(`         ArrayResize(g_newsEvents, g_newsCount);`);
     code.helperFunctions.push(`         g_newsEvents[idx].time = values[i].time;`);
     code.helperFunctions.push(`         g_newsEvents[idx].importance = imp;`);
+    code.helperFunctions.push(`         g_newsEvents[idx].currency = country.currency;`);
     code.helperFunctions.push(`      }`);
     code.helperFunctions.push(`   }`);
     code.helperFunctions.push(`   g_lastNewsRefresh = TimeCurrent();`);
     code.helperFunctions.push(`}`);
     code.helperFunctions.push(``);
 
-    code.helperFunctions.push(`bool IsNewsTime()`);
+    // Only events in the symbol's own currencies block it: GBP news does not halt AUDJPY
+    code.helperFunctions.push(`bool IsNewsTime(string sym)`);
     code.helperFunctions.push(`{`);
+    code.helperFunctions.push(`   string symBase = SymbolInfoString(sym, SYMBOL_CURRENCY_BASE);`);
+    code.helperFunctions.push(
+      `   string symQuote = SymbolInfoString(sym, SYMBOL_CURRENCY_PROFIT);`
+    );
     code.helperFunctions.push(`   datetime now = TimeCurrent();`);
     code.helperFunctions.push(`   for(int i = 0; i < g_newsCount; i++)`);
     code.helperFunctions.push(`   {`);
+    code.helperFunctions.push(
+      `      if(g_newsEvents[i].currency != symBase && g_newsEvents[i].currency != symQuote) continue;`
+    );
     code.helperFunctions.push(`      if(now >= g_newsEvents[i].time - InpNewsMinBefore*60`);
     code.helperFunctions.push(`         && now <= g_newsEvents[i].time + InpNewsMinAfter*60)`);
     code.helperFunctions.push(`      {`);
@@ -1021,6 +1135,62 @@ export function generateMQL5Code(
     code.helperFunctions.push(`}`);
     code.helperFunctions.push(``);
 
+    // The event cache holds the currencies of every traded symbol, after the include/exclude lists
+    code.helperFunctions.push(`bool CurrencyInList(string cur, string list)`);
+    code.helperFunctions.push(`{`);
+    code.helperFunctions.push(`   string padded = "," + list + ",";`);
+    code.helperFunctions.push(`   StringReplace(padded, " ", "");`);
+    code.helperFunctions.push(`   StringToUpper(padded);`);
+    code.helperFunctions.push(`   return StringFind(padded, "," + cur + ",") >= 0;`);
+    code.helperFunctions.push(`}`);
+    code.helperFunctions.push(``);
+
+    code.helperFunctions.push(`void AddNewsCurrency(string cur)`);
+    code.helperFunctions.push(`{`);
+    code.helperFunctions.push(`   if(cur == "") return;`);
+    code.helperFunctions.push(
+      `   if(InpNewsIncludeCurrencies != "" && !CurrencyInList(cur, InpNewsIncludeCurrencies)) return;`
+    );
+    code.helperFunctions.push(`   if(CurrencyInList(cur, InpNewsExcludeCurrencies)) return;`);
+    code.helperFunctions.push(`   if(IsNewsCurrency(cur)) return;`);
+    code.helperFunctions.push(`   int n = ArraySize(g_newsCurrencies);`);
+    code.helperFunctions.push(`   ArrayResize(g_newsCurrencies, n + 1);`);
+    code.helperFunctions.push(`   g_newsCurrencies[n] = cur;`);
+    code.helperFunctions.push(`}`);
+    code.helperFunctions.push(``);
+
+    code.helperFunctions.push(`void BuildNewsCurrencies()`);
+    code.helperFunctions.push(`{`);
+    code.helperFunctions.push(`   ArrayResize(g_newsCurrencies, 0);`);
+    if (ctx.multiPairEnabled) {
+      code.helperFunctions.push(`   for(int s = 0; s < g_symbolCount; s++)`);
+      code.helperFunctions.push(`   {`);
+      code.helperFunctions.push(
+        `      AddNewsCurrency(SymbolInfoString(g_symbols[s], SYMBOL_CURRENCY_BASE));`
+      );
+      code.helperFunctions.push(
+        `      AddNewsCurrency(SymbolInfoString(g_symbols[s], SYMBOL_CURRENCY_PROFIT));`
+      );
+      code.helperFunctions.push(`   }`);
+    } else {
+      code.helperFunctions.push(
+        `   AddNewsCurrency(SymbolInfoString(_Symbol, SYMBOL_CURRENCY_BASE));`
+      );
+      code.helperFunctions.push(
+        `   AddNewsCurrency(SymbolInfoString(_Symbol, SYMBOL_CURRENCY_PROFIT));`
+      );
+    }
+    code.helperFunctions.push(`}`);
+    code.helperFunctions.push(``);
+
+    code.helperFunctions.push(`bool IsNewsCurrency(string cur)`);
+    code.helperFunctions.push(`{`);
+    code.helperFunctions.push(`   for(int i = 0; i < ArraySize(g_newsCurrencies); i++)`);
+    code.helperFunctions.push(`      if(g_newsCurrencies[i] == cur) return true;`);
+    code.helperFunctions.push(`   return false;`);
+    code.helperFunctions.push(`}`);
+    code.helperFunctions.push(``);
+
     code.helperFunctions.push(`void LoadEmbeddedNews()`);
     code.helperFunctions.push(`{`);
     code.helperFunctions.push(`   ArrayResize(g_newsEvents, 0);`);
@@ -1031,9 +1201,7 @@ export function generateMQL5Code(
     code.helperFunctions.push(`      StringSplit(g_embeddedNews[i], ',', parts);`);
     code.helperFunctions.push(`      if(ArraySize(parts) < 3) continue;`);
     code.helperFunctions.push(`      string cur = parts[2];`);
-    code.helperFunctions.push(
-      `      if(cur != g_baseCurrency && cur != g_quoteCurrency) continue;`
-    );
+    code.helperFunctions.push(`      if(!IsNewsCurrency(cur)) continue;`);
     code.helperFunctions.push(`      int imp = (int)StringToInteger(parts[1]);`);
     code.helperFunctions.push(
       `      if((imp==1 && !InpNewsLow) || (imp==2 && !InpNewsMedium) || (imp==3 && !InpNewsHigh)) continue;`
@@ -1044,6 +1212,7 @@ export function generateMQL5Code(
       `      g_newsEvents[idx].time = StringToTime(parts[0]) + InpBrokerUTCOffset*3600;`
     );
     code.helperFunctions.push(`      g_newsEvents[idx].importance = imp;`);
+    code.helperFunctions.push(`      g_newsEvents[idx].currency = cur;`);
     code.helperFunctions.push(`   }`);
     code.helperFunctions.push(
       `   Print("Loaded ", g_newsCount, " news events from embedded data");`
@@ -1122,10 +1291,25 @@ export function generateMQL5Code(
     code.onTick.push(`}`);
   }
 
+  // Generate higher-timeframe bias filter (gates buy/sell directions in the entry logic)
+  const htfBiasNode = maxSpreadNodes.find(
+    (n) => (n.data as { filterType?: string }).filterType === "htf-bias"
+  );
+  if (htfBiasNode) {
+    generateHtfBiasCode(htfBiasNode, code);
+  }
+
   // Generate indicator code (only connected indicators)
   indicatorNodes.forEach((node, index) => {
     generateIndicatorCode(node, index, code);
   });
+  // Condition operand reads and formulas, after the indicators whose handles they use
+  indicatorNodes.forEach((node, index) => {
+    generateConditionOperandCode(node, index, indicatorNodes, buildJson.edges, code);
+    if ((node.data as Record<string, unknown>).indicatorType === "formula") {
+      generateFormulaCode(node, index, indicatorNodes, buildJson.edges, code);
+    }
+  });
 
   // Generate price action code (only connected nodes)
   priceActionNodes.forEach((node, index) => {
@@ -1188,21 +1372,23 @@ export function generateMQL5Code(
     );
 
   // Generate position sizing code for buy/sell (after SL/TP so hasDirectionalSL is available)
-  // Skip onTick lot sizing when range breakout is the only entry and method is RISK_PERCENT,
+  // Skip onTick lot sizing when range breakout is the only entry and the method sizes from risk,
   // because the pending order section calculates lots from the actual SL distance independently.
   // When both buy and sell use RISK_PERCENT, consolidate into a single InpRiskPercent input.
-  const buyUsesRiskPercent =
-    hasBuy && (placeBuyNodes[0].data as Record<string, unknown>).method === "RISK_PERCENT";
-  const sellUsesRiskPercent =
-    hasSell && (placeSellNodes[0].data as Record<string, unknown>).method === "RISK_PERCENT";
+  const buyMethod = hasBuy ? (placeBuyNodes[0].data as Record<string, unknown>).method : undefined;
+  const sellMethod = hasSell
+    ? (placeSellNodes[0].data as Record<string, unknown>).method
+    : undefined;
+  const buyUsesRiskPercent = buyMethod === "RISK_PERCENT";
+  const sellUsesRiskPercent = sellMethod === "RISK_PERCENT";
   const useSharedRisk = buyUsesRiskPercent && sellUsesRiskPercent;
 
   if (hasBuy) {
-    const skipBuyLot = isRangeBreakoutOnly && buyUsesRiskPercent;
+    const skipBuyLot = isRangeBreakoutOnly && buyMethod !== "FIXED_LOT";
     generatePlaceBuyCode(placeBuyNodes[0], code, skipBuyLot, useSharedRisk);
   }
   if (hasSell) {
-    const skipSellLot = isRangeBreakoutOnly && sellUsesRiskPercent;
+    const skipSellLot = isRangeBreakoutOnly && sellMethod !== "FIXED_LOT";
     generatePlaceSellCode(placeSellNodes[0], code, skipSellLot, useSharedRisk);
   }
 
@@ -1302,6 +1488,21 @@ export function generateMQL5Code(
     generateGridPyramidCode(node, code, ctx);
   });
 
+  return { ctx, code, buildJson, hasNewsFilter: newsFilterNodes.length > 0 };
+}
+
+export function generateMQL5Code(
+  buildJson: BuildJsonSchema,
+  projectName: string,
+  description?: string,
+  telemetry?: TelemetryConfig,
+  projectId?: string,
+  newsCalendar?: ImportedNewsCalendar
+): string {
+  const strategy = buildStrategyCode(buildJson, projectName, description, projectId, newsCalendar);
+  const { ctx, code } = strategy;
+  buildJson = strategy.buildJson;
+
   // Generate telemetry code (live EA tracking)
   if (telemetry) {
     generateTelemetryCode(code, telemetry);
@@ -1314,9 +1515,8 @@ export function generateMQL5Code(
   }
 
   // News filter setup instructions (only when news filter is used)
-  const newsSetupGuide =
-    newsFilterNodes.length > 0
-      ? `//+------------------------------------------------------------------+
+  const newsSetupGuide = strategy.hasNewsFilter
+    ? `//+------------------------------------------------------------------+
 //| NEWS FILTER — HOW IT WORKS                                       |
 //+------------------------------------------------------------------+
 //| This EA uses a News Filter that avoids trading around economic    |
@@ -1330,13 +1530,16 @@ export function generateMQL5Code(
 //|   News data is embedded in this EA at export time. The EA         |
 //|   detects Strategy Tester mode and uses the embedded data.        |
 //|   To refresh the news calendar, re-export the EA.                 |
+//|   Event dates come from your imported economic calendar           |
+//|   where it covers them, otherwise from the regular                |
+//|   release schedule.                                               |
 //|                                                                   |
-//| News events are filtered by your symbol's base and quote          |
-//| currencies automatically.                                         |
+//| Only news in the base and quote currencies of each traded symbol  |
+//| pauses that symbol.                                               |
 //+------------------------------------------------------------------+
 
 `
-      : "";
+    : "";
 
   // Assemble final code (array join avoids repeated string allocation)
   const parts = [
@@ -0,0 +1,249 @@
+// MQL5 Equity Curve Filter Code Generator
+// Suspends live entries while the EA's own trade curve is below its moving average
+
+import type { GeneratedCode, GeneratorContext } from "../types";
+
+/**
+ * Every market entry signal opens a virtual trade, whether or not the filter lets the real
+ * order through, so the curve keeps moving (and can recover) while entries are suspended.
+ * Virtual trades close at their SL/TP levels, or on the next opposite signal when they have
+ * neither. The curve is kept in pips so it does not depend on position sizing, and its state
+ * is saved to a file per magic number and symbol (set) so restarts of the terminal pick up
+ * where they left off. Pending and range breakout orders are not routed through the filter;
+ * validateStrategyForExport rejects them alongside it.
+ */
+export function generateEquityCurveFilterCode(code: GeneratedCode, ctx: GeneratorContext): void {
+  code.inputs.push({
+    name: "InpEquityCurvePeriod",
+    type: "int",
+    value: ctx.equityCurveMaPeriod,
+    comment: "Equity Curve MA Period (closed trades)",
+    isOptimizable: true,
+    group: "Risk Management",
+  });
+
+  code.globalVariables.push(
+    "double   g_ecEquity = 0; // Virtual trade curve in pips",
+    "double   g_ecCurve[]; // Last InpEquityCurvePeriod curve points",
+    "bool     g_ecAllowed = true;",
+    "// Open virtual trades",
+    "string   g_ecSym[];",
+    "int      g_ecDir[];",
+    "double   g_ecEntry[];",
+    "double   g_ecSL[];",
+    "double   g_ecTP[];"
+  );
+
+  code.onInit.push("EquityCurveLoadState();", "g_ecAllowed = EquityCurveAllowsEntry();");
+  code.onDeinit.push("EquityCurveSaveState();");
+
+  code.onTick.push("//--- Equity curve filter: settle virtual trades");
+  code.onTick.push("EquityCurveUpdate();");
+  code.onTick.push("");
+
+  code.helperFunctions.push(
+    buildVirtualTradeHelpers(),
+    buildStateHelpers(ctx.multiPairEnabled ? "InpSymbols" : "_Symbol")
+  );
+}
+
+/**
+ * Market entry lines routed through the filter: the virtual trade always opens, the real
+ * order only while the curve is at or above its MA. `onOpened` runs after a real fill.
+ */
+export function equityCurveEntry(
+  dir: 1 | -1,
+  slVar: string,
+  tpVar: string,
+  maxOpen: number,
+  openCall: string,
+  onOpened: string
+): string[] {
+  return [
+    `      EquityCurveOpenVirtual(_Symbol, ${dir}, ${slVar}, ${tpVar}, ${maxOpen});`,
+    "      if(!EquityCurveAllowsEntry()) lastEntryBar = currentBarTime; // Tracked virtually only",
+    `      else if(${openCall}) { ${onOpened} }`,
+  ];
+}
+
+function buildVirtualTradeHelpers(): string {
+  return `//+------------------------------------------------------------------+
+//| Equity curve filter: virtual trades and their P&L curve (pips)   |
+//+------------------------------------------------------------------+
+bool EquityCurveAllowsEntry()
+{
+   int n = ArraySize(g_ecCurve);
+   if(InpEquityCurvePeriod <= 0 || n < InpEquityCurvePeriod) return true; // MA not formed yet
+   double sum = 0;
+   for(int i = 0; i < n; i++) sum += g_ecCurve[i];
+   return g_ecEquity >= sum / n;
+}
+
+void EquityCurveOpenVirtual(string sym, int dir, double slPoints, double tpPoints, int maxOpen)
+{
+   //--- Virtual trades without SL and TP close on the next opposite signal
+   for(int i = ArraySize(g_ecSym) - 1; i >= 0; i--)
+   {
+      if(g_ecSym[i] == sym && g_ecDir[i] != dir && g_ecSL[i] == 0 && g_ecTP[i] == 0)
+         EquityCurveCloseVirtual(i, g_ecDir[i] == 1 ? SymbolInfoDouble(sym, SYMBOL_BID)
+                                                    : SymbolInfoDouble(sym, SYMBOL_ASK));
+   }
+
+   int open = 0;
+   for(int i = 0; i < ArraySize(g_ecSym); i++)
+      if(g_ecSym[i] == sym) open++;
+   if(open >= maxOpen) return;
+
+   double point = SymbolInfoDouble(sym, SYMBOL_POINT);
+   double entry = (dir == 1) ? SymbolInfoDouble(sym, SYMBOL_ASK) : SymbolInfoDouble(sym, SYMBOL_BID);
+   if(entry <= 0) return;
+
+   int n = ArraySize(g_ecSym);
+   ArrayResize(g_ecSym, n + 1);
+   ArrayResize(g_ecDir, n + 1);
+   ArrayResize(g_ecEntry, n + 1);
+   ArrayResize(g_ecSL, n + 1);
+   ArrayResize(g_ecTP, n + 1);
+   g_ecSym[n] = sym;
+   g_ecDir[n] = dir;
+   g_ecEntry[n] = entry;
+   g_ecSL[n] = (slPoints > 0) ? entry - dir * slPoints * point : 0;
+   g_ecTP[n] = (tpPoints > 0) ? entry + dir * tpPoints * point : 0;
+   EquityCurveSaveState();
+}
+
+void EquityCurveCloseVirtual(int index, double exitPrice)
+{
+   string sym = g_ecSym[index];
+   int digits = (int)SymbolInfoInteger(sym, SYMBOL_DIGITS);
+   double pip = SymbolInfoDouble(sym, SYMBOL_POINT) * ((digits == 3 || digits == 5) ? 10 : 1);
+   if(pip > 0) g_ecEquity += g_ecDir[index] * (exitPrice - g_ecEntry[index]) / pip;
+
+   //--- Keep only the points the moving average needs (shifted by hand so MQL4 builds compile)
+   int n = ArraySize(g_ecCurve);
+   int drop = (InpEquityCurvePeriod > 0) ? n - InpEquityCurvePeriod + 1 : 0;
+   if(drop > 0)
+   {
+      for(int i = drop; i < n; i++) g_ecCurve[i - drop] = g_ecCurve[i];
+      n -= drop;
+   }
+   ArrayResize(g_ecCurve, n + 1);
+   g_ecCurve[n] = g_ecEquity;
+
+   int last = ArraySize(g_ecSym) - 1;
+   for(int i = index; i < last; i++)
+   {
+      g_ecSym[i] = g_ecSym[i + 1];
+      g_ecDir[i] = g_ecDir[i + 1];
+      g_ecEntry[i] = g_ecEntry[i + 1];
+      g_ecSL[i] = g_ecSL[i + 1];
+      g_ecTP[i] = g_ecTP[i + 1];
+   }
+   ArrayResize(g_ecSym, last);
+   ArrayResize(g_ecDir, last);
+   ArrayResize(g_ecEntry, last);
+   ArrayResize(g_ecSL, last);
+   ArrayResize(g_ecTP, last);
+   EquityCurveSaveState();
+}
+
+void EquityCurveUpdate()
+{
+   for(int i = ArraySize(g_ecSym) - 1; i >= 0; i--)
+   {
+      string sym = g_ecSym[i];
+      double price = (g_ecDir[i] == 1) ? SymbolInfoDouble(sym, SYMBOL_BID) : SymbolInfoDouble(sym, SYMBOL_ASK);
+      if(price <= 0) continue;
+      if(g_ecSL[i] > 0 && g_ecDir[i] * (price - g_ecSL[i]) <= 0)
+         EquityCurveCloseVirtual(i, g_ecSL[i]);
+      else if(g_ecTP[i] > 0 && g_ecDir[i] * (price - g_ecTP[i]) >= 0)
+         EquityCurveCloseVirtual(i, g_ecTP[i]);
+   }
+
+   bool allowed = EquityCurveAllowsEntry();
+   if(allowed != g_ecAllowed)
+   {
+      g_ecAllowed = allowed;
+      if(allowed)
+         Print("Equity curve back above its ", InpEquityCurvePeriod, "-trade MA, entries resumed");
+      else
+         Print("Equity curve below its ", InpEquityCurvePeriod, "-trade MA, entries suspended (",
+               DoubleToString(g_ecEquity, 1), " pips)");
+   }
+}`;
+}
+
+/** `symbols` is the chart symbol, or the symbol list input of a multi-pair EA */
+function buildStateHelpers(symbols: string): string {
+  return `//+------------------------------------------------------------------+
+//| Equity curve filter: persist the curve and open virtual trades    |
+//+------------------------------------------------------------------+
+string EquityCurveFileName()
+{
+   //--- One curve per magic number and symbol (set)
+   string symbols = ${symbols};
+   StringReplace(symbols, " ", "");
+   StringReplace(symbols, ",", "_");
+   return "AlgoStudio_EC_" + IntegerToString(InpMagicNumber) + "_" + symbols + ".dat";
+}
+
+void EquityCurveSaveState()
+{
+   if(MQLInfoInteger(MQL_TESTER)) return;
+   int handle = FileOpen(EquityCurveFileName(), FILE_WRITE|FILE_TXT);
+   if(handle == INVALID_HANDLE)
+   {
+      Print("Equity curve filter: cannot save state (error ", GetLastError(), ")");
+      return;
+   }
+   string curve = "";
+   for(int i = 0; i < ArraySize(g_ecCurve); i++)
+      curve += (i > 0 ? "," : "") + DoubleToString(g_ecCurve[i], 2);
+   FileWriteString(handle, DoubleToString(g_ecEquity, 2) + "\\n");
+   FileWriteString(handle, curve + "\\n");
+   for(int i = 0; i < ArraySize(g_ecSym); i++)
+   {
+      FileWriteString(handle, g_ecSym[i] + "," + IntegerToString(g_ecDir[i]) + ","
+                      + DoubleToString(g_ecEntry[i], 8) + "," + DoubleToString(g_ecSL[i], 8) + ","
+                      + DoubleToString(g_ecTP[i], 8) + "\\n");
+   }
+   FileClose(handle);
+}
+
+void EquityCurveLoadState()
+{
+   if(MQLInfoInteger(MQL_TESTER)) return;
+   int handle = FileOpen(EquityCurveFileName(), FILE_READ|FILE_TXT);
+   if(handle == INVALID_HANDLE) return;
+
+   g_ecEquity = StringToDouble(FileReadString(handle));
+   string parts[];
+   int n = StringSplit(FileReadString(handle), ',', parts);
+   ArrayResize(g_ecCurve, 0);
+   for(int i = MathMax(0, n - InpEquityCurvePeriod); i < n; i++)
+   {
+      int k = ArraySize(g_ecCurve);
+      ArrayResize(g_ecCurve, k + 1);
+      g_ecCurve[k] = StringToDouble(parts[i]);
+   }
+
+   while(!FileIsEnding(handle))
+   {
+      if(StringSplit(FileReadString(handle), ',', parts) != 5) continue;
+      int k = ArraySize(g_ecSym);
+      ArrayResize(g_ecSym, k + 1);
+      ArrayResize(g_ecDir, k + 1);
+      ArrayResize(g_ecEntry, k + 1);
+      ArrayResize(g_ecSL, k + 1);
+      ArrayResize(g_ecTP, k + 1);
+      g_ecSym[k] = parts[0];
+      g_ecDir[k] = (int)StringToInteger(parts[1]);
+      g_ecEntry[k] = StringToDouble(parts[2]);
+      g_ecSL[k] = StringToDouble(parts[3]);
+      g_ecTP[k] = StringToDouble(parts[4]);
+   }
+   FileClose(handle);
+   Print("Equity curve filter: restored ", ArraySize(g_ecCurve), " curve points and ",
+         ArraySize(g_ecSym), " open virtual trades");
+}`;
+}
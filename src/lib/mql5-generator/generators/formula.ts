@@ -0,0 +1,198 @@
+import type { BuilderEdge, BuilderNode, FormulaNodeData } from "@/types/builder";
+import type { GeneratedCode } from "../types";
+import { checkFormula, getFormulaInputs, type FormulaNode } from "../formula";
+import { addConditionOperandHelpers, operandCall, resolveIndicatorOutput } from "./indicators";
+import { createInput } from "./shared";
+
+const PRICE_FIELD_INDEX = { open: 0, high: 1, low: 2, close: 3 } as const;
+
+/** Chart bars of the formula value the entry logic reads (current, previous, +1 for candle close) */
+const FORMULA_BARS = 3;
+
+function doubleLiteral(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+/**
+ * Compile a formula node into the body of `double Formula{index}Value(int bar)`.
+ * Every price and indicator read becomes a local that is checked for EMPTY_VALUE
+ * before the expression is evaluated. Returns null when the formula does not check
+ * or an input is not an indicator the generator can read.
+ */
+export function compileFormula(
+  node: BuilderNode,
+  indicatorNodes: BuilderNode[],
+  edges: BuilderEdge[]
+): { reads: string[]; expression: string; maxOffset: number } | null {
+  const data = node.data as FormulaNodeData;
+  const inputs = getFormulaInputs(node.id, indicatorNodes, edges);
+  const checked = checkFormula(data.expression ?? "", inputs);
+  if (!checked.ok) return null;
+
+  const reads: string[] = [];
+  const readVar = (call: string): string => {
+    const existing = reads.indexOf(call);
+    if (existing >= 0) return `v${existing}`;
+    reads.push(call);
+    return `v${reads.length - 1}`;
+  };
+
+  const emit = (n: FormulaNode): string | null => {
+    switch (n.kind) {
+      case "number":
+        return doubleLiteral(n.value);
+      case "pip":
+        return "(_pipFactor * _Point)";
+      case "price":
+        return readVar(
+          operandCall(
+            {
+              kind: "price",
+              field: PRICE_FIELD_INDEX[n.field],
+              timeframe: "PERIOD_CURRENT",
+              shift: n.offset,
+            },
+            "bar"
+          )
+        );
+      case "input": {
+        const read = resolveIndicatorOutput(
+          inputs[n.input - 1]?.nodeId,
+          n.buffer,
+          n.offset,
+          indicatorNodes
+        );
+        return read ? readVar(operandCall(read, "bar")) : null;
+      }
+      case "unary": {
+        const operand = emit(n.operand);
+        if (operand === null) return null;
+        return n.op === "-" ? `(-${operand})` : `(!${operand})`;
+      }
+      case "binary": {
+        const left = emit(n.left);
+        const right = emit(n.right);
+        if (left === null || right === null) return null;
+        switch (n.op) {
+          case "/":
+            return `FormulaDiv(${left}, ${right})`;
+          case "<":
+            return `DoubleLT(${left}, ${right})`;
+          case ">":
+            return `DoubleGT(${left}, ${right})`;
+          case "<=":
+            return `DoubleLE(${left}, ${right})`;
+          case ">=":
+            return `DoubleGE(${left}, ${right})`;
+          case "==":
+            return `(MathAbs(${left} - ${right}) < 1e-8)`;
+          case "!=":
+            return `(MathAbs(${left} - ${right}) >= 1e-8)`;
+          case "and":
+            return `(${left} && ${right})`;
+          case "or":
+            return `(${left} || ${right})`;
+          default:
+            return `(${left} ${n.op} ${right})`;
+        }
+      }
+      case "call": {
+        const args = n.args.map(emit);
+        if (args.some((a) => a === null)) return null;
+        switch (n.fn) {
+          case "abs":
+            return `MathAbs(${args[0]})`;
+          case "if":
+            return `(${args[0]} ? ${args[1]} : ${args[2]})`;
+          default: {
+            const fn = n.fn === "min" ? "MathMin" : "MathMax";
+            return args.slice(1).reduce((acc, arg) => `${fn}(${acc}, ${arg})`, args[0] as string);
+          }
+        }
+      }
+    }
+  };
+
+  const expression = emit(checked.ast);
+  return expression === null ? null : { reads, expression, maxOffset: checked.maxOffset };
+}
+
+/**
+ * Generate a formula node: a Formula{index}Value(bar) helper and, on every tick, the
+ * values of the last chart bars in ind{index}Buffer for the entry logic to compare
+ * against the threshold. Division by zero or a missing bar makes the value EMPTY_VALUE,
+ * which skips the tick like a missing indicator value.
+ */
+export function generateFormulaCode(
+  node: BuilderNode,
+  index: number,
+  indicatorNodes: BuilderNode[],
+  edges: BuilderEdge[],
+  code: GeneratedCode
+): void {
+  const data = node.data as FormulaNodeData;
+  const compiled = compileFormula(node, indicatorNodes, edges);
+  if (!compiled) return;
+
+  const varPrefix = `ind${index}`;
+  const s = data.signalMode === "candle_close" ? 1 : 0;
+  const source = data.expression.replace(/\s+/g, " ").trim();
+
+  code.inputs.push(
+    createInput(
+      node,
+      "threshold",
+      `InpFormula${index}Threshold`,
+      "double",
+      data.threshold,
+      `Formula ${index + 1} Threshold`,
+      `Formula ${index + 1}`
+    )
+  );
+
+  addConditionOperandHelpers(code);
+  if (!code.globalVariables.some((g) => g.includes("g_formulaError"))) {
+    code.globalVariables.push(
+      "bool g_formulaError = false; // Set by FormulaDiv on division by zero"
+    );
+    code.helperFunctions
+      .push(`//+------------------------------------------------------------------+
+//| Formula division: flags division by zero instead of returning inf |
+//+------------------------------------------------------------------+
+double FormulaDiv(double a, double b)
+{
+   if(MathAbs(b) < 1e-12) { g_formulaError = true; return 0.0; }
+   return a / b;
+}`);
+  }
+
+  const lines = [
+    `//--- Formula ${index + 1}: ${source}`,
+    `double Formula${index}Value(int bar)`,
+    "{",
+  ];
+  compiled.reads.forEach((read, i) => lines.push(`   double v${i} = ${read};`));
+  if (compiled.reads.length > 0) {
+    const guard = compiled.reads.map((_, i) => `v${i} == EMPTY_VALUE`).join(" || ");
+    lines.push(`   if(${guard}) return EMPTY_VALUE;`);
+  }
+  lines.push(
+    "   g_formulaError = false;",
+    `   double result = ${compiled.expression};`,
+    "   if(g_formulaError || !MathIsValidNumber(result)) return EMPTY_VALUE;",
+    "   return result;",
+    "}"
+  );
+  code.helperFunctions.push(lines.join("\n"));
+
+  code.onTick.push(`//--- Formula ${index + 1}: ${source}`);
+  code.onTick.push(`double ${varPrefix}Buffer[${FORMULA_BARS}];`);
+  code.onTick.push(
+    `for(int k = 0; k < ${FORMULA_BARS}; k++) ${varPrefix}Buffer[k] = Formula${index}Value(k);`
+  );
+  code.onTick.push(
+    `if(${varPrefix}Buffer[${s}] == EMPTY_VALUE || ${varPrefix}Buffer[${1 + s}] == EMPTY_VALUE) return;`
+  );
+
+  code.maxIndicatorPeriod = Math.max(code.maxIndicatorPeriod, compiled.maxOffset + FORMULA_BARS);
+}
@@ -0,0 +1,150 @@
+import type { BuilderNode, HtfBiasNodeData } from "@/types/builder";
+import { type GeneratedCode, MA_METHOD_MAP, getTimeframeEnum } from "../types";
+import { createInput } from "./shared";
+
+const GROUP = "HTF Bias";
+const TF = "(ENUM_TIMEFRAMES)InpHtfBiasTimeframe";
+
+/**
+ * Higher-timeframe bias filter. The bias is read from the last closed bar of the higher
+ * timeframe (shift 1), never the forming one, so it cannot change until that bar closes.
+ * `htfBias` is 1 (up), -1 (down) or 0 (flat or HTF data not loaded yet); the entry logic
+ * ANDs the direction gates onto buyCondition/sellCondition regardless of condition mode.
+ */
+export function generateHtfBiasCode(node: BuilderNode, code: GeneratedCode): void {
+  const data = node.data as HtfBiasNodeData;
+  const method = data.biasMethod ?? "PRICE_VS_MA";
+
+  code.inputs.push(
+    createInput(
+      node,
+      "timeframe",
+      "InpHtfBiasTimeframe",
+      "ENUM_AS_TIMEFRAMES",
+      getTimeframeEnum(data.timeframe ?? "D1"),
+      "HTF Bias Timeframe",
+      GROUP
+    )
+  );
+  if (method === "MACD") {
+    code.inputs.push(
+      createInput(
+        node,
+        "fastPeriod",
+        "InpHtfBiasFast",
+        "int",
+        data.fastPeriod ?? 12,
+        "HTF Bias MACD Fast",
+        GROUP
+      ),
+      createInput(
+        node,
+        "slowPeriod",
+        "InpHtfBiasSlow",
+        "int",
+        data.slowPeriod ?? 26,
+        "HTF Bias MACD Slow",
+        GROUP
+      )
+    );
+  } else {
+    code.inputs.push(
+      createInput(
+        node,
+        "period",
+        "InpHtfBiasPeriod",
+        "int",
+        data.period ?? 50,
+        method === "ADX_DI" ? "HTF Bias ADX Period" : "HTF Bias MA Period",
+        GROUP
+      )
+    );
+  }
+  if (method === "PRICE_VS_MA" || method === "MA_SLOPE") {
+    code.inputs.push(
+      createInput(
+        node,
+        "maMethod",
+        "InpHtfBiasMAMethod",
+        "ENUM_MA_METHOD",
+        MA_METHOD_MAP[data.maMethod ?? "EMA"],
+        "HTF Bias MA Method",
+        GROUP
+      )
+    );
+  }
+
+  code.globalVariables.push("int htfBiasHandle = INVALID_HANDLE;");
+  code.globalVariables.push("double htfBiasBuf[];");
+  let create: string;
+  switch (method) {
+    case "MACD":
+      // Signal period does not affect the main line the bias reads
+      create = `iMACD(_Symbol, ${TF}, InpHtfBiasFast, InpHtfBiasSlow, 9, PRICE_CLOSE)`;
+      break;
+    case "ADX_DI":
+      code.globalVariables.push("double htfBiasBuf2[];");
+      code.onInit.push("ArraySetAsSeries(htfBiasBuf2, true);");
+      create = `iADX(_Symbol, ${TF}, MathMax(1, InpHtfBiasPeriod))`;
+      break;
+    default:
+      create = `iMA(_Symbol, ${TF}, MathMax(1, InpHtfBiasPeriod), 0, InpHtfBiasMAMethod, PRICE_CLOSE)`;
+  }
+  code.onInit.push(
+    `if(PeriodSeconds(${TF}) <= PeriodSeconds(PERIOD_CURRENT)) Print("WARNING: HTF bias timeframe is not higher than the chart timeframe; the bias changes as often as the entry signals.");`
+  );
+  code.onInit.push(`htfBiasHandle = ${create};`);
+  code.onInit.push(
+    'if(htfBiasHandle == INVALID_HANDLE) { Print("Failed to create HTF bias indicator handle"); return(INIT_FAILED); }'
+  );
+  code.onInit.push("ArraySetAsSeries(htfBiasBuf, true);");
+  code.onDeinit.push("if(htfBiasHandle != INVALID_HANDLE) IndicatorRelease(htfBiasHandle);");
+
+  code.onTick.push("//--- HTF bias (last closed higher-timeframe bar)");
+  code.onTick.push("int htfBias = 0; // 1 = up, -1 = down, 0 = flat or no HTF data yet");
+  switch (method) {
+    case "PRICE_VS_MA":
+      code.onTick.push("{");
+      code.onTick.push(`   double htfClose = iClose(_Symbol, ${TF}, 1);`);
+      code.onTick.push(
+        "   if(htfClose > 0 && CopyBuffer(htfBiasHandle, 0, 1, 1, htfBiasBuf) == 1)"
+      );
+      code.onTick.push(
+        "      htfBias = DoubleGT(htfClose, htfBiasBuf[0]) ? 1 : (DoubleLT(htfClose, htfBiasBuf[0]) ? -1 : 0);"
+      );
+      code.onTick.push("}");
+      break;
+    case "MA_SLOPE":
+      code.onTick.push("if(CopyBuffer(htfBiasHandle, 0, 1, 2, htfBiasBuf) == 2)");
+      code.onTick.push(
+        "   htfBias = DoubleGT(htfBiasBuf[0], htfBiasBuf[1]) ? 1 : (DoubleLT(htfBiasBuf[0], htfBiasBuf[1]) ? -1 : 0);"
+      );
+      break;
+    case "MACD":
+      code.onTick.push("if(CopyBuffer(htfBiasHandle, 0, 1, 1, htfBiasBuf) == 1)");
+      code.onTick.push(
+        "   htfBias = DoubleGT(htfBiasBuf[0], 0.0) ? 1 : (DoubleLT(htfBiasBuf[0], 0.0) ? -1 : 0);"
+      );
+      break;
+    case "ADX_DI":
+      code.onTick.push(
+        "if(CopyBuffer(htfBiasHandle, 1, 1, 1, htfBiasBuf) == 1 && CopyBuffer(htfBiasHandle, 2, 1, 1, htfBiasBuf2) == 1)"
+      );
+      code.onTick.push(
+        "   htfBias = DoubleGT(htfBiasBuf[0], htfBiasBuf2[0]) ? 1 : (DoubleLT(htfBiasBuf[0], htfBiasBuf2[0]) ? -1 : 0);"
+      );
+      break;
+  }
+  code.onTick.push("");
+
+  code.directionGates = {
+    buy: [
+      ...(code.directionGates?.buy ?? []),
+      ...(data.filterBuys !== false ? ["htfBias > 0"] : []),
+    ],
+    sell: [
+      ...(code.directionGates?.sell ?? []),
+      ...(data.filterSells !== false ? ["htfBias < 0"] : []),
+    ],
+  };
+}
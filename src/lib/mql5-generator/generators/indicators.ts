@@ -13,9 +13,18 @@ import type {
   OBVNodeData,
   VWAPNodeData,
   BBSqueezeNodeData,
+  BuilderEdge,
+  ConditionNodeData,
+  ConditionOperandId,
+  ConditionPriceField,
+} from "@/types/builder";
+import {
+  DEFAULT_CONDITION_OPERAND,
+  INDICATOR_OUTPUT_BUFFERS,
+  getConditionOperandSourceId,
 } from "@/types/builder";
 import type { GeneratedCode } from "../types";
-import { MA_METHOD_MAP, APPLIED_PRICE_MAP, getTimeframeEnum } from "../types";
+import { MA_METHOD_MAP, APPLIED_PRICE_MAP, getTimeframe, getTimeframeEnum } from "../types";
 import { createInput, sanitizeMQL5String, sanitizeName } from "./shared";
 
 // Helper to add handle validation after creation.
@@ -1243,10 +1252,189 @@ export function generateIndicatorCode(node: BuilderNode, index: number, code: Ge
 
       case "condition": {
         // Condition nodes don't create indicator handles themselves.
-        // They reference a connected indicator's buffer value and compare against a threshold.
+        // They reference a connected indicator's buffer value and compare against a threshold,
+        // or read two operands via generateConditionOperandCode.
         // The entry logic generator handles the condition comparison.
         break;
       }
+
+      case "formula": {
+        // Formula nodes are evaluated by generateFormulaCode, after the indicators they read.
+        break;
+      }
     }
   }
 }
+
+// Timeframe input and MQL5 buffer index of each output line a condition operand can read
+const OUTPUT_SOURCES: Record<string, { timeframeInput: string; buffers: Record<string, number> }> =
+  {
+    "moving-average": { timeframeInput: "InpMA", buffers: { Main: 0 } },
+    rsi: { timeframeInput: "InpRSI", buffers: { Main: 0 } },
+    atr: { timeframeInput: "InpATR", buffers: { Main: 0 } },
+    cci: { timeframeInput: "InpCCI", buffers: { Main: 0 } },
+    obv: { timeframeInput: "InpOBV", buffers: { Main: 0 } },
+    "custom-indicator": { timeframeInput: "InpCustom", buffers: { Main: 0 } },
+    macd: { timeframeInput: "InpMACD", buffers: { Main: 0, Signal: 1 } },
+    stochastic: { timeframeInput: "InpStoch", buffers: { Main: 0, Signal: 1 } },
+    adx: { timeframeInput: "InpADX", buffers: { Main: 0, PlusDI: 1, MinusDI: 2 } },
+    "bollinger-bands": { timeframeInput: "InpBB", buffers: { Middle: 0, Upper: 1, Lower: 2 } },
+    ichimoku: { timeframeInput: "InpIchi", buffers: { Tenkan: 0, Kijun: 1, SpanA: 2, SpanB: 3 } },
+  };
+
+/** MQL5 expressions that read one side of a condition node's comparison */
+export type ConditionOperandRead =
+  | { kind: "buffer"; handle: string; bufferIndex: string; timeframe: string; shift: number }
+  | { kind: "price"; field: number; timeframe: string; shift: number };
+
+const PRICE_FIELD_INDEX: Record<ConditionPriceField, number> = {
+  OPEN: 0,
+  HIGH: 1,
+  LOW: 2,
+  CLOSE: 3,
+};
+
+function resolveOperand(
+  condNode: BuilderNode,
+  operandId: ConditionOperandId,
+  indicatorNodes: BuilderNode[],
+  edges: BuilderEdge[]
+): ConditionOperandRead | null {
+  const data = condNode.data as ConditionNodeData;
+  const operand = (operandId === "A" ? data.operandA : data.operandB) ?? DEFAULT_CONDITION_OPERAND;
+  const shift = Math.max(0, Math.floor(Number(operand.shift) || 0));
+
+  if (operand.source === "PRICE") {
+    return {
+      kind: "price",
+      field: PRICE_FIELD_INDEX[operand.priceField ?? "CLOSE"] ?? 3,
+      timeframe: getTimeframe(operand.timeframe),
+      shift,
+    };
+  }
+
+  const sourceId = getConditionOperandSourceId(condNode.id, operandId, edges);
+  return resolveIndicatorOutput(sourceId, operand.buffer, shift, indicatorNodes);
+}
+
+/**
+ * Read of one output line of an indicator block, shift bars back on its own timeframe.
+ * Unset or unknown line names fall back to the default line of INDICATOR_OUTPUT_BUFFERS,
+ * the same one the builder and the simulator pick. Returns null when the block is not
+ * an indicator with readable output lines.
+ */
+export function resolveIndicatorOutput(
+  sourceId: string | undefined,
+  bufferName: string | undefined,
+  shift: number,
+  indicatorNodes: BuilderNode[]
+): ConditionOperandRead | null {
+  const sourceIndex = indicatorNodes.findIndex((n) => n.id === sourceId);
+  if (sourceIndex < 0) return null;
+  const sourceType = (indicatorNodes[sourceIndex].data as Record<string, unknown>).indicatorType;
+  const output = OUTPUT_SOURCES[sourceType as string];
+  if (!output) return null;
+
+  const defaultName = INDICATOR_OUTPUT_BUFFERS[sourceType as string]?.[0] ?? "";
+  const buffer =
+    output.buffers[bufferName ?? ""] ??
+    output.buffers[defaultName] ??
+    Object.values(output.buffers)[0];
+  return {
+    kind: "buffer",
+    handle: `ind${sourceIndex}Handle`,
+    bufferIndex:
+      sourceType === "custom-indicator"
+        ? `MathMin(MathMax(0, InpCustom${sourceIndex}Buffer), 511)`
+        : String(buffer),
+    timeframe: `(ENUM_TIMEFRAMES)${output.timeframeInput}${sourceIndex}Timeframe`,
+    shift,
+  };
+}
+
+/**
+ * Resolve both operands of a condition node in OPERAND mode.
+ * Returns null when an indicator operand has no readable block wired into its input.
+ */
+export function resolveConditionOperands(
+  condNode: BuilderNode,
+  indicatorNodes: BuilderNode[],
+  edges: BuilderEdge[]
+): { a: ConditionOperandRead; b: ConditionOperandRead } | null {
+  const a = resolveOperand(condNode, "A", indicatorNodes, edges);
+  const b = resolveOperand(condNode, "B", indicatorNodes, edges);
+  return a && b ? { a, b } : null;
+}
+
+/** MQL5 call reading an operand at chart bar chartBar (a number or an expression) */
+export function operandCall(read: ConditionOperandRead, chartBar: number | string): string {
+  return read.kind === "buffer"
+    ? `ConditionBufferValue(${read.handle}, ${read.bufferIndex}, ${read.timeframe}, ${chartBar}, ${read.shift})`
+    : `ConditionPriceValue(${read.field}, ${read.timeframe}, ${chartBar}, ${read.shift})`;
+}
+
+/**
+ * Read the operands of an OPERAND-mode condition node into ind{index}A0/A1/B0/B1
+ * (current and previous chart bar). Each operand is read on its own timeframe, at
+ * the bar that contains the chart bar, so a cross between an H1 and an H4 line is
+ * detected on the chart bar where it happens.
+ */
+export function generateConditionOperandCode(
+  node: BuilderNode,
+  index: number,
+  indicatorNodes: BuilderNode[],
+  edges: BuilderEdge[],
+  code: GeneratedCode
+): void {
+  const data = node.data as ConditionNodeData;
+  if (data.compareTo !== "OPERAND") return;
+  const operands = resolveConditionOperands(node, indicatorNodes, edges);
+  if (!operands) return;
+
+  const varPrefix = `ind${index}`;
+  code.onTick.push(`//--- Condition ${index + 1}: operand A vs operand B`);
+  for (const [name, read] of [
+    ["A", operands.a],
+    ["B", operands.b],
+  ] as const) {
+    for (const chartBar of [0, 1]) {
+      code.onTick.push(`double ${varPrefix}${name}${chartBar} = ${operandCall(read, chartBar)};`);
+    }
+  }
+  code.onTick.push(
+    `if(${varPrefix}A0 == EMPTY_VALUE || ${varPrefix}A1 == EMPTY_VALUE || ${varPrefix}B0 == EMPTY_VALUE || ${varPrefix}B1 == EMPTY_VALUE) return;`
+  );
+
+  addConditionOperandHelpers(code);
+}
+
+/** Add ConditionBufferValue and ConditionPriceValue to the helper functions once. */
+export function addConditionOperandHelpers(code: GeneratedCode): void {
+  if (!code.helperFunctions.some((f) => f.includes("ConditionBufferValue"))) {
+    code.helperFunctions
+      .push(`//+------------------------------------------------------------------+
+//| Condition operand: value shift bars back on timeframe tf,        |
+//| counted from the bar of tf that contains chart bar chartBar      |
+//+------------------------------------------------------------------+
+double ConditionBufferValue(int handle, int buffer, ENUM_TIMEFRAMES tf, int chartBar, int shift)
+{
+   int bar = iBarShift(_Symbol, tf, iTime(_Symbol, PERIOD_CURRENT, chartBar)) + shift;
+   double value[1];
+   if(bar < shift || CopyBuffer(handle, buffer, bar, 1, value) < 1) return EMPTY_VALUE;
+   return value[0];
+}
+
+double ConditionPriceValue(int field, ENUM_TIMEFRAMES tf, int chartBar, int shift)
+{
+   int bar = iBarShift(_Symbol, tf, iTime(_Symbol, PERIOD_CURRENT, chartBar)) + shift;
+   if(bar < shift) return EMPTY_VALUE;
+   switch(field)
+   {
+      case 0: return iOpen(_Symbol, tf, bar);
+      case 1: return iHigh(_Symbol, tf, bar);
+      case 2: return iLow(_Symbol, tf, bar);
+   }
+   return iClose(_Symbol, tf, bar);
+}`);
+  }
+}
@@ -19,6 +19,19 @@ function collectHandleNames(globals: string[]): string[] {
   return names;
 }
 
+/**
+ * Collects order ticket globals that belong to one symbol.
+ * Pattern: `ulong g_rangeBuyTicket = 0; // comment`
+ */
+function collectTicketNames(globals: string[]): string[] {
+  const names: string[] = [];
+  for (const line of globals) {
+    const match = line.match(/^ulong (g_\w+Ticket) = 0;/);
+    if (match) names.push(match[1]);
+  }
+  return names;
+}
+
 /**
  * Replace all occurrences of handle variable names with their global array-indexed version.
  * e.g. `ind0Handle` → `g_ind0Handle[sym]`
@@ -328,6 +341,12 @@ export function transformCodeForMultiPair(
     return line;
   });
 
+  // Order tickets are tracked per symbol: `g_rangeBuyTicket` → `g_rangeBuyTicket[sym]`
+  const ticketNames = collectTicketNames(code.globalVariables);
+  code.globalVariables = code.globalVariables.map((line) =>
+    line.replace(/^ulong (g_\w+Ticket) = 0;/, "ulong $1[];")
+  );
+
   // Add multi-pair globals at the start
   code.globalVariables.unshift("string g_symbols[];", "int g_symbolCount = 0;");
 
@@ -364,8 +383,22 @@ export function transformCodeForMultiPair(
     );
   }
 
+  // 3d. Size the per-symbol ticket arrays
+  if (ticketNames.length > 0) {
+    code.onInit.push("", "//--- Per-symbol order tickets");
+    for (const t of ticketNames) {
+      code.onInit.push(`ArrayResize(${t}, g_symbolCount);`, `ArrayInitialize(${t}, 0);`);
+    }
+  }
+
   // 4. Transform OnTick (symbol references + function calls)
   transformOnTick(code, handleNames);
+  code.onTick = code.onTick.map((line) =>
+    ticketNames.reduce(
+      (t, name) => t.replace(new RegExp(`\\b${name}\\b`, "g"), `${name}[sym]`),
+      line
+    )
+  );
 
   // 4b. Transform ManageOpenPositions for multi-pair via global management context
   code.globalVariables.push('string g_mgmtSym = "";');
@@ -6,6 +6,9 @@ import type {
   OrderBlockNodeData,
   FairValueGapNodeData,
   MarketStructureNodeData,
+  LiquiditySweepNodeData,
+  EqualHighsLowsNodeData,
+  PivotPointsNodeData,
 } from "@/types/builder";
 import type { GeneratedCode } from "../types";
 import { getTimeframeEnum } from "../types";
@@ -1172,6 +1175,411 @@ void ${fnName}(ENUM_TIMEFRAMES tf, int lookback, int minTouches, double zonePips
         code.onTick.push("");
         break;
       }
+
+      case "liquidity-sweep": {
+        const ls = data as LiquiditySweepNodeData;
+
+        code.inputs.push(
+          createInput(
+            node,
+            "timeframe",
+            `InpLS${index}Timeframe`,
+            "ENUM_AS_TIMEFRAMES",
+            getTimeframeEnum(ls.timeframe),
+            `Liquidity Sweep ${index + 1} Timeframe`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "swingStrength",
+            `InpLS${index}Strength`,
+            "int",
+            ls.swingStrength,
+            `Liquidity Sweep ${index + 1} Swing Strength`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "lookbackPeriod",
+            `InpLS${index}Lookback`,
+            "int",
+            ls.lookbackPeriod,
+            `Liquidity Sweep ${index + 1} Lookback (bars)`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "minSweepPips",
+            `InpLS${index}MinSweep`,
+            "double",
+            ls.minSweepPips,
+            `Liquidity Sweep ${index + 1} Min Sweep (pips)`
+          )
+        );
+        addSwingPointHelper(code);
+        addLiquiditySweepHelper(code);
+
+        code.globalVariables.push(`double ${varPrefix}SweptLow, ${varPrefix}SweptHigh;`);
+        code.globalVariables.push(`bool ${varPrefix}BuySignal, ${varPrefix}SellSignal;`);
+
+        // The sweep is confirmed by the close of bar 1, so the signal holds for the whole bar
+        code.onTick.push(`// Liquidity Sweep Detection ${index + 1}`);
+        code.onTick.push(`if(isNewBar) {`);
+        code.onTick.push(
+          `   double ${varPrefix}MinSweep = InpLS${index}MinSweep * _pipFactor * _Point;`
+        );
+        code.onTick.push(
+          `   ${varPrefix}BuySignal = DetectLiquiditySweep((ENUM_TIMEFRAMES)InpLS${index}Timeframe, InpLS${index}Strength, InpLS${index}Lookback, ${varPrefix}MinSweep, true, ${varPrefix}SweptLow);`
+        );
+        code.onTick.push(
+          `   ${varPrefix}SellSignal = DetectLiquiditySweep((ENUM_TIMEFRAMES)InpLS${index}Timeframe, InpLS${index}Strength, InpLS${index}Lookback, ${varPrefix}MinSweep, false, ${varPrefix}SweptHigh);`
+        );
+        code.onTick.push(`}`);
+        code.onTick.push("");
+        break;
+      }
+
+      case "equal-highs-lows": {
+        const eq = data as EqualHighsLowsNodeData;
+
+        code.inputs.push(
+          createInput(
+            node,
+            "timeframe",
+            `InpEQ${index}Timeframe`,
+            "ENUM_AS_TIMEFRAMES",
+            getTimeframeEnum(eq.timeframe),
+            `Equal Highs/Lows ${index + 1} Timeframe`
+          )
+        );
+        const eqTf = `(ENUM_TIMEFRAMES)InpEQ${index}Timeframe`;
+        code.inputs.push(
+          createInput(
+            node,
+            "swingStrength",
+            `InpEQ${index}Strength`,
+            "int",
+            eq.swingStrength,
+            `Equal Highs/Lows ${index + 1} Swing Strength`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "lookbackPeriod",
+            `InpEQ${index}Lookback`,
+            "int",
+            eq.lookbackPeriod,
+            `Equal Highs/Lows ${index + 1} Lookback (bars)`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "tolerancePips",
+            `InpEQ${index}Tolerance`,
+            "double",
+            eq.tolerancePips,
+            `Equal Highs/Lows ${index + 1} Tolerance (pips)`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "minTouches",
+            `InpEQ${index}MinTouches`,
+            "int",
+            eq.minTouches,
+            `Equal Highs/Lows ${index + 1} Min Touches`
+          )
+        );
+        addSwingPointHelper(code);
+        addEqualLevelHelper(code);
+
+        code.globalVariables.push(`double ${varPrefix}EqualHigh, ${varPrefix}EqualLow;`);
+        code.globalVariables.push(`bool ${varPrefix}BuySignal, ${varPrefix}SellSignal;`);
+
+        code.onTick.push(`// Equal Highs/Lows Detection ${index + 1}`);
+        code.onTick.push(`if(isNewBar) {`);
+        code.onTick.push(
+          `   double ${varPrefix}Tol = InpEQ${index}Tolerance * _pipFactor * _Point;`
+        );
+        code.onTick.push(
+          `   bool ${varPrefix}HasHighs = FindEqualLevel(${eqTf}, InpEQ${index}Strength, InpEQ${index}Lookback, ${varPrefix}Tol, InpEQ${index}MinTouches, true, ${varPrefix}EqualHigh);`
+        );
+        code.onTick.push(
+          `   bool ${varPrefix}HasLows = FindEqualLevel(${eqTf}, InpEQ${index}Strength, InpEQ${index}Lookback, ${varPrefix}Tol, InpEQ${index}MinTouches, false, ${varPrefix}EqualLow);`
+        );
+        code.onTick.push(`   double ${varPrefix}H1 = iHigh(_Symbol, ${eqTf}, 1);`);
+        code.onTick.push(`   double ${varPrefix}L1 = iLow(_Symbol, ${eqTf}, 1);`);
+        code.onTick.push(`   double ${varPrefix}C1 = iClose(_Symbol, ${eqTf}, 1);`);
+        if (eq.signalType === "BREAKOUT") {
+          code.onTick.push(`   // Breakout: bar 1 closed beyond the pool`);
+          code.onTick.push(
+            `   ${varPrefix}BuySignal = (${varPrefix}HasHighs && ${varPrefix}C1 > ${varPrefix}EqualHigh);`
+          );
+          code.onTick.push(
+            `   ${varPrefix}SellSignal = (${varPrefix}HasLows && ${varPrefix}C1 < ${varPrefix}EqualLow);`
+          );
+        } else {
+          code.onTick.push(`   // Sweep: bar 1 took the pool's stops and closed back inside`);
+          code.onTick.push(
+            `   ${varPrefix}BuySignal = (${varPrefix}HasLows && ${varPrefix}L1 < ${varPrefix}EqualLow && ${varPrefix}C1 > ${varPrefix}EqualLow);`
+          );
+          code.onTick.push(
+            `   ${varPrefix}SellSignal = (${varPrefix}HasHighs && ${varPrefix}H1 > ${varPrefix}EqualHigh && ${varPrefix}C1 < ${varPrefix}EqualHigh);`
+          );
+        }
+        code.onTick.push(`}`);
+        code.onTick.push("");
+        break;
+      }
+
+      case "pivot-points": {
+        const pp = data as PivotPointsNodeData;
+        const pivotTypeIndex = { CLASSIC: 0, CAMARILLA: 1, FIBONACCI: 2 }[pp.pivotType] ?? 0;
+
+        code.inputs.push(
+          createInput(
+            node,
+            "timeframe",
+            `InpPivot${index}Timeframe`,
+            "ENUM_AS_TIMEFRAMES",
+            getTimeframeEnum(pp.timeframe),
+            `Pivot Points ${index + 1} Confirmation Timeframe`
+          )
+        );
+        const pivotTf = `(ENUM_TIMEFRAMES)InpPivot${index}Timeframe`;
+        code.inputs.push(
+          createInput(
+            node,
+            "pivotType",
+            `InpPivot${index}Type`,
+            "int",
+            pivotTypeIndex,
+            `Pivot Points ${index + 1} Type (0=Classic, 1=Camarilla, 2=Fibonacci)`
+          )
+        );
+        code.inputs.push(
+          createInput(
+            node,
+            "pivotLevel",
+            `InpPivot${index}Level`,
+            "int",
+            pp.pivotLevel,
+            `Pivot Points ${index + 1} Level (1-3)`
+          )
+        );
+        if (pp.entryMode !== "BREAKOUT") {
+          code.inputs.push(
+            createInput(
+              node,
+              "zonePips",
+              `InpPivot${index}Zone`,
+              "double",
+              pp.zonePips,
+              `Pivot Points ${index + 1} Zone (pips)`
+            )
+          );
+        }
+        addPivotHelper(code);
+
+        code.globalVariables.push(
+          `double ${varPrefix}Pivot, ${varPrefix}Res[], ${varPrefix}Sup[];`
+        );
+        code.globalVariables.push(`bool ${varPrefix}PivotsValid;`);
+        code.globalVariables.push(`bool ${varPrefix}BuySignal, ${varPrefix}SellSignal;`);
+
+        code.onTick.push(`// Pivot Points ${index + 1}`);
+        code.onTick.push(`${varPrefix}BuySignal = false;`);
+        code.onTick.push(`${varPrefix}SellSignal = false;`);
+        code.onTick.push(
+          `if(isNewBar) ${varPrefix}PivotsValid = CalcDailyPivots(InpPivot${index}Type, ${varPrefix}Pivot, ${varPrefix}Res, ${varPrefix}Sup);`
+        );
+        code.onTick.push(`if(${varPrefix}PivotsValid) {`);
+        code.onTick.push(
+          `   int ${varPrefix}Lvl = (int)MathMax(1, MathMin(3, InpPivot${index}Level)) - 1;`
+        );
+        code.onTick.push(`   double ${varPrefix}R = ${varPrefix}Res[${varPrefix}Lvl];`);
+        code.onTick.push(`   double ${varPrefix}S = ${varPrefix}Sup[${varPrefix}Lvl];`);
+        if (pp.entryMode === "BREAKOUT") {
+          code.onTick.push(`   // Breakout: the last closed candle crossed the level`);
+          code.onTick.push(`   double ${varPrefix}C1 = iClose(_Symbol, ${pivotTf}, 1);`);
+          code.onTick.push(`   double ${varPrefix}C2 = iClose(_Symbol, ${pivotTf}, 2);`);
+          code.onTick.push(
+            `   ${varPrefix}BuySignal = (${varPrefix}C1 > ${varPrefix}R && ${varPrefix}C2 <= ${varPrefix}R);`
+          );
+          code.onTick.push(
+            `   ${varPrefix}SellSignal = (${varPrefix}C1 < ${varPrefix}S && ${varPrefix}C2 >= ${varPrefix}S);`
+          );
+        } else {
+          code.onTick.push(`   // Bounce: buy just above support, sell just below resistance`);
+          code.onTick.push(
+            `   double ${varPrefix}Zone = InpPivot${index}Zone * _pipFactor * _Point;`
+          );
+          code.onTick.push(`   double ${varPrefix}Bid = SymbolInfoDouble(_Symbol, SYMBOL_BID);`);
+          code.onTick.push(`   double ${varPrefix}Ask = SymbolInfoDouble(_Symbol, SYMBOL_ASK);`);
+          code.onTick.push(
+            `   ${varPrefix}BuySignal = (${varPrefix}Bid >= ${varPrefix}S && ${varPrefix}Bid <= ${varPrefix}S + ${varPrefix}Zone);`
+          );
+          code.onTick.push(
+            `   ${varPrefix}SellSignal = (${varPrefix}Ask <= ${varPrefix}R && ${varPrefix}Ask >= ${varPrefix}R - ${varPrefix}Zone);`
+          );
+        }
+        code.onTick.push(`}`);
+        code.onTick.push("");
+        break;
+      }
     }
   }
 }
+
+function addSwingPointHelper(code: GeneratedCode): void {
+  if (code.helperFunctions.some((f) => f.includes("bool IsSwingPoint("))) return;
+  code.helperFunctions.push(`
+//+------------------------------------------------------------------+
+//| True when bar i is a swing high (or low) with strength bars on    |
+//| each side that do not exceed it                                   |
+//+------------------------------------------------------------------+
+bool IsSwingPoint(ENUM_TIMEFRAMES tf, int i, int strength, bool high)
+{
+   double price = high ? iHigh(_Symbol, tf, i) : iLow(_Symbol, tf, i);
+   if(price <= 0) return false;
+   for(int j = 1; j <= strength; j++) {
+      if(high) {
+         if(iHigh(_Symbol, tf, i - j) > price || iHigh(_Symbol, tf, i + j) > price) return false;
+      } else {
+         if(iLow(_Symbol, tf, i - j) < price || iLow(_Symbol, tf, i + j) < price) return false;
+      }
+   }
+   return true;
+}`);
+}
+
+function addLiquiditySweepHelper(code: GeneratedCode): void {
+  if (code.helperFunctions.some((f) => f.includes("bool DetectLiquiditySweep("))) return;
+  code.helperFunctions.push(`
+//+------------------------------------------------------------------+
+//| Liquidity sweep: bar 1 wicked through a swing that no earlier bar |
+//| had taken out, then closed back inside                            |
+//+------------------------------------------------------------------+
+bool DetectLiquiditySweep(ENUM_TIMEFRAMES tf, int strength, int lookback, double minPenetration, bool bullish, double &level)
+{
+   level = 0;
+   double high1 = iHigh(_Symbol, tf, 1);
+   double low1 = iLow(_Symbol, tf, 1);
+   double close1 = iClose(_Symbol, tf, 1);
+   // Start past bar 1 so the sweeping candle is never part of the swing itself
+   for(int i = strength + 2; i <= lookback; i++) {
+      if(!IsSwingPoint(tf, i, strength, !bullish)) continue;
+      if(bullish) {
+         double swingLow = iLow(_Symbol, tf, i);
+         int lowest = iLowest(_Symbol, tf, MODE_LOW, i - 2, 2);
+         if(lowest < 0 || iLow(_Symbol, tf, lowest) <= swingLow) continue; // already swept
+         if(low1 <= swingLow - minPenetration && close1 > swingLow) { level = swingLow; return true; }
+      } else {
+         double swingHigh = iHigh(_Symbol, tf, i);
+         int highest = iHighest(_Symbol, tf, MODE_HIGH, i - 2, 2);
+         if(highest < 0 || iHigh(_Symbol, tf, highest) >= swingHigh) continue; // already swept
+         if(high1 >= swingHigh + minPenetration && close1 < swingHigh) { level = swingHigh; return true; }
+      }
+   }
+   return false;
+}`);
+}
+
+function addEqualLevelHelper(code: GeneratedCode): void {
+  if (code.helperFunctions.some((f) => f.includes("bool FindEqualLevel("))) return;
+  code.helperFunctions.push(`
+//+------------------------------------------------------------------+
+//| Most recent pool of equal highs (or lows): at least minTouches    |
+//| swings within tolerance, not yet traded through before bar 1      |
+//+------------------------------------------------------------------+
+bool FindEqualLevel(ENUM_TIMEFRAMES tf, int strength, int lookback, double tolerance, int minTouches, bool highs, double &level)
+{
+   level = 0;
+   double prices[];
+   int bars[];
+   int count = 0;
+   for(int i = strength + 2; i <= lookback; i++) {
+      if(!IsSwingPoint(tf, i, strength, highs)) continue;
+      ArrayResize(prices, count + 1);
+      ArrayResize(bars, count + 1);
+      prices[count] = highs ? iHigh(_Symbol, tf, i) : iLow(_Symbol, tf, i);
+      bars[count] = i;
+      count++;
+   }
+   for(int a = 0; a < count; a++) {
+      int touches = 1;
+      double extreme = prices[a];
+      for(int b = a + 1; b < count; b++) {
+         if(MathAbs(prices[b] - prices[a]) > tolerance) continue;
+         touches++;
+         extreme = highs ? MathMax(extreme, prices[b]) : MathMin(extreme, prices[b]);
+      }
+      if(touches < MathMax(2, minTouches)) continue;
+      // The pool only holds liquidity while no bar after its newest swing went beyond it
+      if(bars[a] > 2) {
+         if(highs) {
+            int highest = iHighest(_Symbol, tf, MODE_HIGH, bars[a] - 2, 2);
+            if(highest < 0 || iHigh(_Symbol, tf, highest) > extreme) continue;
+         } else {
+            int lowest = iLowest(_Symbol, tf, MODE_LOW, bars[a] - 2, 2);
+            if(lowest < 0 || iLow(_Symbol, tf, lowest) < extreme) continue;
+         }
+      }
+      level = extreme;
+      return true;
+   }
+   return false;
+}`);
+}
+
+function addPivotHelper(code: GeneratedCode): void {
+  if (code.helperFunctions.some((f) => f.includes("bool CalcDailyPivots("))) return;
+  code.helperFunctions.push(`
+//+------------------------------------------------------------------+
+//| Daily pivot levels from the previous day's high, low and close    |
+//| pivotType: 0 = Classic, 1 = Camarilla, 2 = Fibonacci              |
+//+------------------------------------------------------------------+
+bool CalcDailyPivots(int pivotType, double &pivot, double &res[], double &sup[])
+{
+   double dayHigh = iHigh(_Symbol, PERIOD_D1, 1);
+   double dayLow = iLow(_Symbol, PERIOD_D1, 1);
+   double dayClose = iClose(_Symbol, PERIOD_D1, 1);
+   if(dayHigh <= 0 || dayLow <= 0 || dayHigh < dayLow) return false;
+   double range = dayHigh - dayLow;
+   pivot = (dayHigh + dayLow + dayClose) / 3.0;
+   ArrayResize(res, 3);
+   ArrayResize(sup, 3);
+   if(pivotType == 1) {
+      // Camarilla: H1-H3 / L1-L3 around the previous close
+      res[0] = dayClose + range * 1.1 / 12.0;
+      res[1] = dayClose + range * 1.1 / 6.0;
+      res[2] = dayClose + range * 1.1 / 4.0;
+      sup[0] = dayClose - range * 1.1 / 12.0;
+      sup[1] = dayClose - range * 1.1 / 6.0;
+      sup[2] = dayClose - range * 1.1 / 4.0;
+   } else if(pivotType == 2) {
+      // Fibonacci: 38.2%, 61.8% and 100% of the range from the pivot
+      res[0] = pivot + range * 0.382;
+      res[1] = pivot + range * 0.618;
+      res[2] = pivot + range;
+      sup[0] = pivot - range * 0.382;
+      sup[1] = pivot - range * 0.618;
+      sup[2] = pivot - range;
+   } else {
+      // Classic floor pivots
+      res[0] = 2.0 * pivot - dayLow;
+      res[1] = pivot + range;
+      res[2] = dayHigh + 2.0 * (pivot - dayLow);
+      sup[0] = 2.0 * pivot - dayHigh;
+      sup[1] = pivot - range;
+      sup[2] = dayLow - 2.0 * (dayHigh - pivot);
+   }
+   return true;
+}`);
+}
@@ -94,6 +94,19 @@ function buildSendHeartbeatMQL5(): string {
    int openPos = PositionsTotal();
    int spread = (int)SymbolInfoInteger(_Symbol, SYMBOL_SPREAD);
 
+   // Mean absolute daily close-to-close move in % over the last 14 days (health regime)
+   double volatility = 0;
+   int volDays = 0;
+   for(int d = 1; d <= 14; d++)
+   {
+      double prevClose = iClose(_Symbol, PERIOD_D1, d + 1);
+      double close = iClose(_Symbol, PERIOD_D1, d);
+      if(prevClose <= 0 || close <= 0) continue;
+      volatility += MathAbs(MathLog(close / prevClose)) * 100.0;
+      volDays++;
+   }
+   if(volDays > 0) volatility /= volDays;
+
    // Count own positions
    int myOpen = 0;
    double myProfit = 0;
@@ -139,7 +152,8 @@ function buildSendHeartbeatMQL5(): string {
       + TelemetryJsonInt("totalTrades", totalDeals) + ","
       + TelemetryJsonNum("totalProfit", totalPL) + ","
       + TelemetryJsonNum("drawdown", dd) + ","
-      + TelemetryJsonInt("spread", spread)
+      + TelemetryJsonInt("spread", spread) + ","
+      + "\\"volatility\\":" + DoubleToString(volatility, 4)
       + "}";
 
    TelemetryHttpPost("/heartbeat", json);
@@ -207,7 +221,7 @@ function buildSendTradeUpdateMQL5(): string {
 }`;
 }
 
-function buildSendErrorMQL5(): string {
+export function buildSendErrorMQL5(): string {
   return `void TelemetrySendError(int code, string msg, string ctx)
 {
    if(!g_telemetryEnabled) return;
@@ -222,7 +236,7 @@ function buildSendErrorMQL5(): string {
 }`;
 }
 
-function buildJsonHelperMQL5(): string {
+export function buildJsonHelperMQL5(): string {
   return `string TelemetryJsonPair(string key, string val)
 {
    // Escape backslashes and quotes in value
@@ -242,7 +256,7 @@ string TelemetryJsonInt(string key, int val)
 }`;
 }
 
-function buildHttpPostMQL5(): string {
+export function buildHttpPostMQL5(): string {
   return `void TelemetryHttpPost(string endpoint, string jsonBody)
 {
    string url = InpTelemetryURL + endpoint;
@@ -3,6 +3,7 @@ import type {
   TradingSessionNodeData,
   CustomTimesNodeData,
   TradingDays,
+  RiskScaleRule,
 } from "@/types/builder";
 import { SESSION_TIMES } from "@/types/builder";
 import type { GeneratedCode } from "../types";
@@ -16,6 +17,7 @@ export function generateTimingCode(node: BuilderNode, code: GeneratedCode): void
     code.onTick.push("if(!isTradingTime) return;");
   }
   code.onTick.push("");
+  generateRiskScaleCode([node], ["isTradingTime"], code);
 }
 
 export function generateMultipleTimingCode(nodes: BuilderNode[], code: GeneratedCode): void {
@@ -39,6 +41,11 @@ export function generateMultipleTimingCode(nodes: BuilderNode[], code: Generated
     code.onTick.push("if(!isTradingTime) return;");
   }
   code.onTick.push("");
+  generateRiskScaleCode(
+    nodes,
+    nodes.map((_, i) => `isTradingTime${i}`),
+    code
+  );
 }
 
 function generateSingleTimingCode(node: BuilderNode, varName: string, code: GeneratedCode): void {
@@ -217,6 +224,110 @@ function generateCustomTimesCode(
   code.onTick.push("");
 }
 
+const RISK_RULE_DAYS: Record<RiskScaleRule["day"], number | null> = {
+  everyday: null,
+  sunday: 0,
+  monday: 1,
+  tuesday: 2,
+  wednesday: 3,
+  thursday: 4,
+  friday: 5,
+  saturday: 6,
+};
+
+function formatMultiplier(value: number): string {
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+/**
+ * Risk scaling: `riskScale` starts at the lowest riskMultiplier among the timing windows
+ * active right now and is multiplied by every matching day/time rule. Lot sizing scales by it,
+ * and a scale of 0 gates off new entries without touching open positions.
+ */
+function generateRiskScaleCode(
+  nodes: BuilderNode[],
+  varNames: string[],
+  code: GeneratedCode
+): void {
+  const scaled = nodes.map((node) => {
+    const data = node.data as Partial<TradingSessionNodeData | CustomTimesNodeData>;
+    return {
+      multiplier: data.riskMultiplier ?? 1,
+      rules: data.riskRules ?? [],
+      timeSource: (data.useServerTime ?? true) ? "TimeCurrent()" : "TimeGMT()",
+    };
+  });
+  const hasMultiplier = scaled.some((s) => s.multiplier !== 1);
+  const hasRules = scaled.some((s) => s.rules.length > 0);
+  if (!hasMultiplier && !hasRules) return;
+
+  code.hasRiskScale = true;
+  code.onTick.push("// Risk scaling per trading window");
+  code.onTick.push("double riskScale = 1.0;");
+  if (hasMultiplier) {
+    if (nodes.length === 1) {
+      code.onTick.push(`riskScale = ${formatMultiplier(scaled[0].multiplier)};`);
+    } else {
+      code.onTick.push("// The lowest multiplier among the windows trading right now");
+      code.onTick.push("double windowRiskScale = DBL_MAX;");
+      scaled.forEach((s, i) => {
+        code.onTick.push(
+          `if(${varNames[i]}) windowRiskScale = MathMin(windowRiskScale, ${formatMultiplier(s.multiplier)});`
+        );
+      });
+      code.onTick.push("if(windowRiskScale < DBL_MAX) riskScale = windowRiskScale;");
+    }
+  }
+
+  for (const s of scaled) {
+    if (s.rules.length === 0) continue;
+    code.onTick.push(`TimeToStruct(${s.timeSource}, dt);`);
+    code.onTick.push("currentMinutes = dt.hour * 60 + dt.min;");
+    for (const rule of s.rules) {
+      const start = rule.startHour * 60 + rule.startMinute;
+      const end = rule.endHour * 60 + rule.endMinute;
+      const day = RISK_RULE_DAYS[rule.day];
+      const onDay = (d: number | null, checks: string[]): string[] =>
+        d === null ? checks : [`dt.day_of_week == ${d}`, ...checks];
+      const from = start > 0 ? [`currentMinutes >= ${start}`] : [];
+      let condition: string;
+      if (end > start) {
+        condition = onDay(day, [...from, `currentMinutes < ${end}`]).join(" && ");
+      } else {
+        // Overnight rule (spans midnight), like custom time slots: the evening on the rule's
+        // day, then the early morning of the next day
+        const evening = onDay(day, from);
+        const morning =
+          end > 0 ? onDay(day === null ? null : (day + 1) % 7, [`currentMinutes < ${end}`]) : [];
+        const part = (checks: string[]) =>
+          checks.length > 1 ? `(${checks.join(" && ")})` : checks.join("");
+        condition =
+          evening.length === 0
+            ? "true"
+            : morning.length === 0
+              ? evening.join(" && ")
+              : `${part(evening)} || ${part(morning)}`;
+      }
+      const pad = (n: number) => String(n).padStart(2, "0");
+      const dayLabel =
+        rule.day === "everyday"
+          ? "Every day"
+          : rule.day.charAt(0).toUpperCase() + rule.day.slice(1);
+      const window = `${dayLabel} ${pad(rule.startHour)}:${pad(rule.startMinute)}-${end > 0 ? `${pad(rule.endHour)}:${pad(rule.endMinute)}` : "24:00"}`;
+      code.onTick.push(
+        `if(${condition}) riskScale *= ${formatMultiplier(rule.multiplier)}; // ${window}`
+      );
+    }
+  }
+
+  // Zero-risk windows keep managing open trades but open nothing new
+  code.directionGates = {
+    buy: [...(code.directionGates?.buy ?? []), "riskScale > 0"],
+    sell: [...(code.directionGates?.sell ?? []), "riskScale > 0"],
+  };
+  code.onTick.push("");
+}
+
 function hasCloseOnSessionEnd(nodes: BuilderNode[]): boolean {
   return nodes.some((n) => {
     const data = n.data;
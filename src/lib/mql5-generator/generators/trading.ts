@@ -3,6 +3,8 @@ import type {
   BuilderEdge,
   PlaceBuyNodeData,
   PlaceSellNodeData,
+  PendingExpiryMode,
+  RangeBreakoutNodeData,
   StopLossNodeData,
   TakeProfitNodeData,
   TPLevel,
@@ -10,12 +12,19 @@ import type {
   EmbeddedTakeProfitFields,
   TimeExitNodeData,
   ConditionNodeData,
+  ConditionOperator,
+  FormulaNodeData,
   GridPyramidNodeData,
+  LogicGateType,
 } from "@/types/builder";
 import type { GeneratorContext, GeneratedCode } from "../types";
 import { getTimeframeEnum } from "../types";
+import { applyLogicGates, type ConditionMark } from "../logic-gates";
 import { createInput, sanitizeMQL5String } from "./shared";
 import { generateDivergenceHelpers } from "./divergence";
+import { resolveConditionOperands } from "./indicators";
+import { compileFormula } from "./formula";
+import { equityCurveEntry } from "./equity-curve";
 
 export function generatePlaceBuyCode(
   node: BuilderNode,
@@ -40,6 +49,7 @@ export function generatePlaceBuyCode(
         group
       )
     );
+    addPendingExpiryInput(node, code, "InpBuyPending", "Buy Pending", group, "MINUTES");
   }
 
   switch (data.method) {
@@ -90,6 +100,9 @@ export function generatePlaceBuyCode(
       }
       break;
     }
+
+    default:
+      generateRiskAmountLotSizing(node, "Buy", "slPips", code, skipOnTickLotSizing);
   }
 
   code.inputs.push(
@@ -98,8 +111,11 @@ export function generatePlaceBuyCode(
   code.inputs.push(
     createInput(node, "maxLot", "InpBuyMaxLot", "double", data.maxLot, "Buy Maximum Lot", group)
   );
-  if (!skipOnTickLotSizing)
-    code.onTick.push("buyLotSize = MathMax(InpBuyMinLot, MathMin(InpBuyMaxLot, buyLotSize));");
+  if (!skipOnTickLotSizing) {
+    code.onTick.push(
+      `buyLotSize = MathMax(InpBuyMinLot, MathMin(InpBuyMaxLot, ${scaledLot(code, "buyLotSize")}));`
+    );
+  }
 }
 
 export function generatePlaceSellCode(
@@ -125,6 +141,7 @@ export function generatePlaceSellCode(
         group
       )
     );
+    addPendingExpiryInput(node, code, "InpSellPending", "Sell Pending", group, "MINUTES");
   }
 
   switch (data.method) {
@@ -180,6 +197,15 @@ export function generatePlaceSellCode(
       }
       break;
     }
+
+    default:
+      generateRiskAmountLotSizing(
+        node,
+        "Sell",
+        code.hasDirectionalSL ? "slSellPips" : "slPips",
+        code,
+        skipOnTickLotSizing
+      );
   }
 
   code.inputs.push(
@@ -188,8 +214,207 @@ export function generatePlaceSellCode(
   code.inputs.push(
     createInput(node, "maxLot", "InpSellMaxLot", "double", data.maxLot, "Sell Maximum Lot", group)
   );
-  if (!skipOnTickLotSizing)
-    code.onTick.push("sellLotSize = MathMax(InpSellMinLot, MathMin(InpSellMaxLot, sellLotSize));");
+  if (!skipOnTickLotSizing) {
+    code.onTick.push(
+      `sellLotSize = MathMax(InpSellMinLot, MathMin(InpSellMaxLot, ${scaledLot(code, "sellLotSize")}));`
+    );
+  }
+}
+
+/**
+ * Lot sizing for the methods that work out a money amount to risk and size it over a
+ * distance in points: the stop loss, or one ATR for VOLATILITY_TARGET. Risk-percent
+ * inputs get method-specific names so pending-order sizing (which looks for
+ * Inp{Side}RiskPercent) keeps using the lot computed here.
+ */
+function generateRiskAmountLotSizing(
+  node: BuilderNode,
+  side: "Buy" | "Sell",
+  slVar: string,
+  code: GeneratedCode,
+  skipOnTickLotSizing: boolean
+): void {
+  const data = node.data as PlaceBuyNodeData | PlaceSellNodeData;
+  const group = `${side} Order`;
+  const p = `Inp${side}`;
+  const lower = side.toLowerCase();
+  const input = (
+    field: string,
+    name: string,
+    type: "int" | "double",
+    value: number | undefined,
+    fallback: number,
+    comment: string
+  ) =>
+    code.inputs.push(
+      createInput(node, field, `${p}${name}`, type, value ?? fallback, `${side} ${comment}`, group)
+    );
+
+  let amount: string;
+  let distance = slVar;
+  switch (data.method) {
+    case "VOLATILITY_TARGET": {
+      input(
+        "volTargetPercent",
+        "VolTarget",
+        "double",
+        data.volTargetPercent,
+        1,
+        "Risk per ATR move (%)"
+      );
+      input("volAtrPeriod", "VolAtrPeriod", "int", data.volAtrPeriod, 14, "Sizing ATR Period");
+      code.inputs.push(
+        createInput(
+          node,
+          "volAtrTimeframe",
+          `${p}VolAtrTimeframe`,
+          "ENUM_AS_TIMEFRAMES",
+          getTimeframeEnum(data.volAtrTimeframe),
+          `${side} Sizing ATR Timeframe`,
+          group
+        )
+      );
+      const handle = `${lower}SizingAtrHandle`;
+      code.globalVariables.push(`int ${handle} = INVALID_HANDLE;`);
+      code.globalVariables.push(`double ${lower}SizingAtr[];`);
+      code.onInit.push(
+        `${handle} = iATR(_Symbol, (ENUM_TIMEFRAMES)${p}VolAtrTimeframe, ${p}VolAtrPeriod);`
+      );
+      code.onInit.push(
+        `if(${handle} == INVALID_HANDLE) { Print("Failed to create ATR handle for ${lower} sizing"); return(INIT_FAILED); }`
+      );
+      code.onInit.push(`ArraySetAsSeries(${lower}SizingAtr, true);`);
+      code.onDeinit.push(`if(${handle} != INVALID_HANDLE) IndicatorRelease(${handle});`);
+      // Last closed bar, so the size does not change while the bar forms
+      code.onTick.push(`if(CopyBuffer(${handle}, 0, 1, 1, ${lower}SizingAtr) < 1) return;`);
+      amount = `SizingBalance() * ${p}VolTarget / 100.0`;
+      distance = `${lower}SizingAtr[0] / _Point`;
+      break;
+    }
+
+    case "FIXED_FRACTIONAL_STEP":
+      input("riskPercent", "StepRiskPercent", "double", data.riskPercent, 1, "Risk %");
+      input("equityStep", "EquityStep", "double", data.equityStep, 1000, "Equity Step");
+      amount = `MathFloor(SizingBalance() / MathMax(${p}EquityStep, 1.0)) * MathMax(${p}EquityStep, 1.0) * ${p}StepRiskPercent / 100.0`;
+      break;
+
+    case "KELLY":
+      input("kellyWinRate", "KellyWinRate", "double", data.kellyWinRate, 50, "Kelly Win Rate (%)");
+      input(
+        "kellyPayoffRatio",
+        "KellyPayoff",
+        "double",
+        data.kellyPayoffRatio,
+        1.5,
+        "Kelly Avg Win / Avg Loss"
+      );
+      input("kellyFraction", "KellyFraction", "double", data.kellyFraction, 0.5, "Kelly Fraction");
+      input("kellyCapPercent", "KellyCap", "double", data.kellyCapPercent, 2, "Kelly Max Risk %");
+      amount = `SizingBalance() * KellyRiskPercent(${p}KellyWinRate, ${p}KellyPayoff, ${p}KellyFraction, ${p}KellyCap) / 100.0`;
+      addKellyHelper(code);
+      break;
+
+    case "FIXED_MONEY":
+      input("riskAmount", "RiskAmount", "double", data.riskAmount, 100, "Risk Amount");
+      amount = `${p}RiskAmount`;
+      break;
+
+    default:
+      return;
+  }
+
+  addRiskAmountHelpers(code);
+  code.riskAmountSizing = {
+    ...code.riskAmountSizing,
+    [side]: { amount, distance: distance === slVar ? undefined : distance },
+  };
+  if (!skipOnTickLotSizing) {
+    code.onTick.push(
+      `double ${lower}LotSize = RiskAmountLotSize(_Symbol, ${amount}, ${distance});`
+    );
+  }
+}
+
+function addRiskAmountHelpers(code: GeneratedCode): void {
+  if (code.helperFunctions.some((f) => f.includes("double RiskAmountLotSize("))) return;
+  code.helperFunctions.push(`//+------------------------------------------------------------------+
+//| Balance (or equity) that risk-based sizing works from             |
+//+------------------------------------------------------------------+
+double SizingBalance()
+{
+   return InpUseEquityForRisk ? AccountInfoDouble(ACCOUNT_EQUITY) : AccountInfoDouble(ACCOUNT_BALANCE);
+}
+
+//+------------------------------------------------------------------+
+//| Lot size that loses riskAmount over slPoints on sym.               |
+//| Falls back to the minimum lot when the size cannot be computed.    |
+//+------------------------------------------------------------------+
+double RiskAmountLotSize(string sym, double riskAmount, double slPoints)
+{
+   double minLot = SymbolInfoDouble(sym, SYMBOL_VOLUME_MIN);
+   if(minLot <= 0) minLot = 0.01;
+   if(riskAmount <= 0 || slPoints <= 0)
+   {
+      Print("WARNING: RiskAmountLotSize called with riskAmount=", DoubleToString(riskAmount, 2),
+            " slPoints=", DoubleToString(slPoints, 1), ", using minimum lot.");
+      return minLot;
+   }
+
+   double point = SymbolInfoDouble(sym, SYMBOL_POINT);
+   double tickValue = SymbolInfoDouble(sym, SYMBOL_TRADE_TICK_VALUE);
+   double tickSize = SymbolInfoDouble(sym, SYMBOL_TRADE_TICK_SIZE);
+   double lotStep = SymbolInfoDouble(sym, SYMBOL_VOLUME_STEP);
+   double maxLot = SymbolInfoDouble(sym, SYMBOL_VOLUME_MAX);
+   double pointValue = (tickSize > 0) ? tickValue * (point / tickSize) : 0;
+   if(pointValue <= 0 || lotStep <= 0)
+   {
+      Print("WARNING: Point value or lot step is 0 for ", sym, ", using minimum lot.");
+      return minLot;
+   }
+
+   double lots = MathFloor(riskAmount / (slPoints * pointValue) / lotStep) * lotStep;
+   lots = MathMax(minLot, MathMin(maxLot, lots));
+   int lotDigits = (int)MathMax(-MathLog10(lotStep), 0);
+   return NormalizeDouble(lots, lotDigits);
+}`);
+}
+
+/**
+ * Wraps a lot-size expression in the session/day risk multiplier when timing
+ * nodes configured one, re-aligned to the symbol's volume step.
+ */
+function scaledLot(code: GeneratedCode, lots: string): string {
+  if (!code.hasRiskScale) return lots;
+  if (!code.helperFunctions.some((f) => f.includes("double ScaleLotSize("))) {
+    code.helperFunctions
+      .push(`//+------------------------------------------------------------------+
+//| Lot size scaled by the active risk window, floored to volume step |
+//+------------------------------------------------------------------+
+double ScaleLotSize(string sym, double lots, double scale)
+{
+   if(scale == 1.0) return lots;
+   lots *= scale;
+   double lotStep = SymbolInfoDouble(sym, SYMBOL_VOLUME_STEP);
+   if(lotStep > 0) lots = MathFloor(lots / lotStep) * lotStep;
+   return lots;
+}`);
+  }
+  return `ScaleLotSize(_Symbol, ${lots}, riskScale)`;
+}
+
+function addKellyHelper(code: GeneratedCode): void {
+  if (code.helperFunctions.some((f) => f.includes("double KellyRiskPercent("))) return;
+  code.helperFunctions.push(`//+------------------------------------------------------------------+
+//| Risk % from the Kelly criterion f* = (W*R - L) / R, scaled by       |
+//| fraction and capped at capPercent. 0 when the inputs show no edge.  |
+//+------------------------------------------------------------------+
+double KellyRiskPercent(double winRatePercent, double payoffRatio, double fraction, double capPercent)
+{
+   if(payoffRatio <= 0) return 0;
+   double w = winRatePercent / 100.0;
+   double f = (w * payoffRatio - (1.0 - w)) / payoffRatio;
+   return MathMax(0, MathMin(capPercent, f * fraction * 100.0));
+}`);
 }
 
 export function generateStopLossCode(
@@ -936,6 +1161,48 @@ export function generateTakeProfitFromBuySell(
   generateTakeProfitCode(virtualNode, code);
 }
 
+/**
+ * Buy/sell expressions of a condition node comparing `a` against `b`.
+ * The sell side mirrors the operator; EQUAL is the same for both.
+ */
+function conditionComparison(
+  op: ConditionOperator,
+  a: { cur: string; prev: string },
+  b: { cur: string; prev: string }
+): { buy: string; sell: string } | null {
+  switch (op) {
+    case "GREATER_THAN":
+      return { buy: `(DoubleGT(${a.cur}, ${b.cur}))`, sell: `(DoubleLT(${a.cur}, ${b.cur}))` };
+    case "LESS_THAN":
+      return { buy: `(DoubleLT(${a.cur}, ${b.cur}))`, sell: `(DoubleGT(${a.cur}, ${b.cur}))` };
+    case "GREATER_EQUAL":
+      return { buy: `(DoubleGE(${a.cur}, ${b.cur}))`, sell: `(DoubleLE(${a.cur}, ${b.cur}))` };
+    case "LESS_EQUAL":
+      return { buy: `(DoubleLE(${a.cur}, ${b.cur}))`, sell: `(DoubleGE(${a.cur}, ${b.cur}))` };
+    case "EQUAL": {
+      const eq = `(MathAbs(${a.cur} - ${b.cur}) < 1e-8)`;
+      return { buy: eq, sell: eq };
+    }
+    case "CROSSES_ABOVE":
+      return {
+        buy: `(DoubleLE(${a.prev}, ${b.prev}) && DoubleGT(${a.cur}, ${b.cur}))`,
+        sell: `(DoubleGE(${a.prev}, ${b.prev}) && DoubleLT(${a.cur}, ${b.cur}))`,
+      };
+    case "CROSSES_BELOW":
+      return {
+        buy: `(DoubleGE(${a.prev}, ${b.prev}) && DoubleLT(${a.cur}, ${b.cur}))`,
+        sell: `(DoubleLE(${a.prev}, ${b.prev}) && DoubleGT(${a.cur}, ${b.cur}))`,
+      };
+  }
+  return null;
+}
+
+/** MQL5 expression for a logic gate over already-parenthesized conditions. */
+function joinLogic(op: LogicGateType, operands: string[]): string {
+  if (op === "NOT") return `(!${operands[0]})`;
+  return `(${operands.join(op === "AND" ? " && " : " || ")})`;
+}
+
 export function generateEntryLogic(
   indicatorNodes: BuilderNode[],
   priceActionNodes: BuilderNode[],
@@ -959,20 +1226,32 @@ export function generateEntryLogic(
   let rangeBreakoutOnly = false;
   let hasFilterConditions = false;
 
+  // Direction gates (HTF bias, zero-risk windows) hold in both AND and OR condition modes
+  const buyGates = code.directionGates?.buy ?? [];
+  const sellGates = code.directionGates?.sell ?? [];
+
   if (!hasConditions) {
     // No indicator/price-action conditions — declare always-true conditions
     // so filter-only or unconditional EAs can still reference buyCondition/sellCondition
     if (hasBuyNode) {
-      code.onTick.push("bool buyCondition = true;");
+      code.onTick.push(`bool buyCondition = ${buyGates.join(" && ") || "true"};`);
     }
     if (hasSellNode) {
-      code.onTick.push("bool sellCondition = true;");
+      code.onTick.push(`bool sellCondition = ${sellGates.join(" && ") || "true"};`);
     }
   } else {
     // Generate conditions based on all indicators and price action
     const buyConditions: string[] = [];
     const sellConditions: string[] = [];
 
+    // Where each node's conditions start, so logic gates can pick them out
+    const buyMarks: ConditionMark[] = [];
+    const sellMarks: ConditionMark[] = [];
+    const markConditions = (nodeId: string): void => {
+      buyMarks.push({ nodeId, start: buyConditions.length });
+      sellMarks.push({ nodeId, start: sellConditions.length });
+    };
+
     // Handle EMA Crossover entry strategies (need cross-indicator comparison, not price vs MA)
     const handledIndices = new Set<number>();
     const emaCrossGroups = new Map<
@@ -1020,6 +1299,8 @@ export function generateEntryLogic(
           buyCross = `(${buyCross} && ${sepCondition})`;
           sellCross = `(${sellCross} && ${sepCondition})`;
         }
+        // The cross belongs to the fast EMA node
+        markConditions(indicatorNodes[group.fast].id);
         buyConditions.push(buyCross);
         sellConditions.push(sellCross);
         handledIndices.add(group.fast);
@@ -1030,6 +1311,7 @@ export function generateEntryLogic(
     // Process filter nodes (HTF trend, RSI confirmation) — these add additional conditions
     indicatorNodes.forEach((indNode, indIndex) => {
       const d = indNode.data as Record<string, unknown>;
+      if (d._filterRole) markConditions(indNode.id);
       if (d._filterRole === "htf-trend") {
         // Price above HTF EMA = allow buy, below = allow sell
         // Use buffer[0] for current HTF bar value and current-TF close for price
@@ -1130,6 +1412,7 @@ export function generateEntryLogic(
         `if(ArraySize(${indBuffer}) < InpDivLookback${indIndex}+2) return; // Indicator buffer too small for divergence lookback`
       );
 
+      markConditions(indNode.id);
       buyConditions.push(
         `(CheckBullishDivergence(${divPriceVar}Low, ${indBuffer}, InpDivLookback${indIndex}, InpDivMinSwing${indIndex}))`
       );
@@ -1142,6 +1425,7 @@ export function generateEntryLogic(
     // Process indicator conditions (skip EMA crossover indicators and filters already handled above)
     indicatorNodes.forEach((indNode, indIndex) => {
       if (handledIndices.has(indIndex)) return;
+      markConditions(indNode.id);
 
       const varPrefix = `ind${indIndex}`;
       const indData = indNode.data;
@@ -1551,10 +1835,26 @@ export function generateEntryLogic(
             break;
 
           case "condition": {
-            // Condition node: compares a connected indicator's buffer against a threshold
+            // Condition node: compares a connected indicator's buffer against a threshold,
+            // or operand A against operand B
             const condData = indData as ConditionNodeData;
             const threshold = condData.threshold;
 
+            // Operand mode: values read by generateConditionOperandCode
+            if (condData.compareTo === "OPERAND") {
+              if (!resolveConditionOperands(indNode, indicatorNodes, edges)) break;
+              const compared = conditionComparison(
+                condData.conditionType,
+                { cur: `${varPrefix}A0`, prev: `${varPrefix}A1` },
+                { cur: `${varPrefix}B0`, prev: `${varPrefix}B1` }
+              );
+              if (compared) {
+                buyConditions.push(compared.buy);
+                sellConditions.push(compared.sell);
+              }
+              break;
+            }
+
             // Find the connected source indicator via edges
             const connEdge = edges.find((e) => e.target === indNode.id);
             if (!connEdge) break;
@@ -1591,43 +1891,30 @@ export function generateEntryLogic(
             // Use the source indicator's signal mode for bar offset
             const cs = "signalMode" in srcData && srcData.signalMode === "candle_close" ? 1 : 0;
 
-            switch (condData.conditionType) {
-              case "GREATER_THAN":
-                buyConditions.push(`(DoubleGT(${bufName}[${cs}], ${threshold}))`);
-                sellConditions.push(`(DoubleLT(${bufName}[${cs}], ${threshold}))`);
-                break;
-              case "LESS_THAN":
-                buyConditions.push(`(DoubleLT(${bufName}[${cs}], ${threshold}))`);
-                sellConditions.push(`(DoubleGT(${bufName}[${cs}], ${threshold}))`);
-                break;
-              case "GREATER_EQUAL":
-                buyConditions.push(`(DoubleGE(${bufName}[${cs}], ${threshold}))`);
-                sellConditions.push(`(DoubleLE(${bufName}[${cs}], ${threshold}))`);
-                break;
-              case "LESS_EQUAL":
-                buyConditions.push(`(DoubleLE(${bufName}[${cs}], ${threshold}))`);
-                sellConditions.push(`(DoubleGE(${bufName}[${cs}], ${threshold}))`);
-                break;
-              case "EQUAL":
-                buyConditions.push(`(MathAbs(${bufName}[${cs}] - ${threshold}) < 1e-8)`);
-                sellConditions.push(`(MathAbs(${bufName}[${cs}] - ${threshold}) < 1e-8)`);
-                break;
-              case "CROSSES_ABOVE":
-                buyConditions.push(
-                  `(DoubleLE(${bufName}[${1 + cs}], ${threshold}) && DoubleGT(${bufName}[${cs}], ${threshold}))`
-                );
-                sellConditions.push(
-                  `(DoubleGE(${bufName}[${1 + cs}], ${threshold}) && DoubleLT(${bufName}[${cs}], ${threshold}))`
-                );
-                break;
-              case "CROSSES_BELOW":
-                buyConditions.push(
-                  `(DoubleGE(${bufName}[${1 + cs}], ${threshold}) && DoubleLT(${bufName}[${cs}], ${threshold}))`
-                );
-                sellConditions.push(
-                  `(DoubleLE(${bufName}[${1 + cs}], ${threshold}) && DoubleGT(${bufName}[${cs}], ${threshold}))`
-                );
-                break;
+            const compared = conditionComparison(
+              condData.conditionType,
+              { cur: `${bufName}[${cs}]`, prev: `${bufName}[${1 + cs}]` },
+              { cur: `${threshold}`, prev: `${threshold}` }
+            );
+            if (compared) {
+              buyConditions.push(compared.buy);
+              sellConditions.push(compared.sell);
+            }
+            break;
+          }
+
+          case "formula": {
+            // Formula value (filled by generateFormulaCode) against the threshold input
+            if (!compileFormula(indNode, indicatorNodes, edges)) break;
+            const threshold = `InpFormula${indIndex}Threshold`;
+            const compared = conditionComparison(
+              (indData as FormulaNodeData).conditionType,
+              { cur: `${varPrefix}Buffer[${s}]`, prev: `${varPrefix}Buffer[${1 + s}]` },
+              { cur: threshold, prev: threshold }
+            );
+            if (compared) {
+              buyConditions.push(compared.buy);
+              sellConditions.push(compared.sell);
             }
             break;
           }
@@ -1637,6 +1924,7 @@ export function generateEntryLogic(
 
     // Process price action conditions
     priceActionNodes.forEach((paNode, paIndex) => {
+      markConditions(paNode.id);
       const varPrefix = `pa${paIndex}`;
       const paData = paNode.data;
 
@@ -1677,10 +1965,26 @@ export function generateEntryLogic(
             sellConditions.push(`(${varPrefix}SellSignal)`);
             break;
           }
+
+          case "liquidity-sweep":
+          case "equal-highs-lows":
+          case "pivot-points": {
+            buyConditions.push(`(${varPrefix}BuySignal)`);
+            sellConditions.push(`(${varPrefix}SellSignal)`);
+            break;
+          }
         }
       }
     });
 
+    // Logic gates: conditions wired into gates are replaced by the nested gate expressions
+    if (ctx.entryLogic && ctx.entryLogic.length > 0) {
+      const gatedBuy = applyLogicGates(buyConditions, buyMarks, ctx.entryLogic, joinLogic);
+      const gatedSell = applyLogicGates(sellConditions, sellMarks, ctx.entryLogic, joinLogic);
+      buyConditions.splice(0, buyConditions.length, ...gatedBuy);
+      sellConditions.splice(0, sellConditions.length, ...gatedSell);
+    }
+
     if (buyConditions.length === 0) buyConditions.push("false");
     if (sellConditions.length === 0) sellConditions.push("false");
 
@@ -1718,14 +2022,28 @@ export function generateEntryLogic(
 
     // Even in range-breakout-only mode, declare conditions if filters exist
     hasFilterConditions =
-      buyConditions.some((c) => c !== "false") || sellConditions.some((c) => c !== "false");
+      buyConditions.some((c) => c !== "false") ||
+      sellConditions.some((c) => c !== "false") ||
+      buyGates.length > 0 ||
+      sellGates.length > 0;
     if (!rangeBreakoutOnly || hasFilterConditions) {
       const joiner = ctx.conditionMode === "OR" ? " || " : " && ";
+      const hasDirectionGates = buyGates.length > 0 || sellGates.length > 0;
+      const gated = (conditions: string[], gates: string[]): string => {
+        // Range breakout entries need no signal of their own: once a direction gate is
+        // present, a side with no conditions stays open unless its own gates close it
+        if (rangeBreakoutOnly && hasDirectionGates && conditions.every((c) => c === "false")) {
+          return gates.join(" && ") || "true";
+        }
+        const joined = conditions.join(joiner);
+        if (gates.length === 0) return joined;
+        return `${conditions.length > 1 ? `(${joined})` : joined} && ${gates.join(" && ")}`;
+      };
       if (hasBuyNode) {
-        code.onTick.push(`bool buyCondition = ${buyConditions.join(joiner)};`);
+        code.onTick.push(`bool buyCondition = ${gated(buyConditions, buyGates)};`);
       }
       if (hasSellNode) {
-        code.onTick.push(`bool sellCondition = ${sellConditions.join(joiner)};`);
+        code.onTick.push(`bool sellCondition = ${gated(sellConditions, sellGates)};`);
       }
     }
   }
@@ -1803,10 +2121,15 @@ export function generateEntryLogic(
     // Anti-hedging condition: prevent opening opposite positions when hedging is disabled
     const noHedge = !ctx.allowHedging;
 
-    // Delete stale pending orders before placing new ones
-    if (hasPendingOrders) {
-      code.onTick.push("   DeletePendingOrders();");
-    }
+    // A new pending order replaces the standing one of its side and the opposite side's,
+    // leaving unfilled orders to the expiry and invalidation housekeeping in between
+    const sidePending = (isBuy: boolean) =>
+      isBuy ? hasBuyNode && buyOrderType !== "MARKET" : hasSellNode && sellOrderType !== "MARKET";
+    const replacePending = (isBuy: boolean): string[] => [
+      `      CancelPendingOrders(_Symbol, ${isBuy});`,
+      ...(sidePending(!isBuy) ? [`      CancelPendingOrders(_Symbol, ${!isBuy});`] : []),
+    ];
+    if (hasPendingOrders) addPendingLifecycleHelpers(code);
 
     // Check if close-on-opposite is enabled (from virtual node data)
     const closeOnOppositeBuy = buyNode
@@ -1831,7 +2154,18 @@ export function generateEntryLogic(
 
       const minBarsTrack =
         ctx.minBarsBetweenTrades > 0 ? " gLastTradeBar = iBars(_Symbol, PERIOD_CURRENT);" : "";
-      if (buyOrderType === "MARKET") {
+      if (buyOrderType === "MARKET" && ctx.equityCurveMaPeriod > 0) {
+        code.onTick.push(
+          ...equityCurveEntry(
+            1,
+            "slPips",
+            "tpPips",
+            ctx.maxOpenTrades,
+            "OpenBuy(buyLotSize, slPips, tpPips)",
+            `lastEntryBar = currentBarTime;${hasDaily ? " tradesToday++;" : ""}${minBarsTrack}`
+          )
+        );
+      } else if (buyOrderType === "MARKET") {
         if (hasDaily) {
           code.onTick.push(
             `      if(OpenBuy(buyLotSize, slPips, tpPips)) { lastEntryBar = currentBarTime; tradesToday++;${minBarsTrack} }`
@@ -1843,6 +2177,7 @@ export function generateEntryLogic(
         }
       } else {
         const fn = buyOrderType === "STOP" ? "PlaceBuyStop" : "PlaceBuyLimit";
+        code.onTick.push(...replacePending(true));
         if (hasDaily) {
           code.onTick.push(
             `      if(${fn}(buyLotSize, slPips, tpPips, InpBuyPendingOffset)) { lastEntryBar = currentBarTime; tradesToday++;${minBarsTrack} }`
@@ -1877,7 +2212,18 @@ export function generateEntryLogic(
 
       const minBarsTrackSell =
         ctx.minBarsBetweenTrades > 0 ? " gLastTradeBar = iBars(_Symbol, PERIOD_CURRENT);" : "";
-      if (sellOrderType === "MARKET") {
+      if (sellOrderType === "MARKET" && ctx.equityCurveMaPeriod > 0) {
+        code.onTick.push(
+          ...equityCurveEntry(
+            -1,
+            sellSL,
+            sellTPVar,
+            ctx.maxOpenTrades,
+            `OpenSell(sellLotSize, ${sellSL}, ${sellTPVar})`,
+            `lastEntryBar = currentBarTime;${hasDaily ? " tradesToday++;" : ""}${minBarsTrackSell}`
+          )
+        );
+      } else if (sellOrderType === "MARKET") {
         if (hasDaily) {
           code.onTick.push(
             `      if(OpenSell(sellLotSize, ${sellSL}, ${sellTPVar})) { lastEntryBar = currentBarTime; tradesToday++;${minBarsTrackSell} }`
@@ -1889,6 +2235,7 @@ export function generateEntryLogic(
         }
       } else {
         const fn = sellOrderType === "STOP" ? "PlaceSellStop" : "PlaceSellLimit";
+        code.onTick.push(...replacePending(false));
         if (hasDaily) {
           code.onTick.push(
             `      if(${fn}(sellLotSize, ${sellSL}, ${sellTPVar}, InpSellPendingOffset)) { lastEntryBar = currentBarTime; tradesToday++;${minBarsTrackSell} }`
@@ -1910,6 +2257,17 @@ export function generateEntryLogic(
     addPendingOrderHelpers(code, ctx);
   }
 
+  const rangeNode = rangeBreakoutPAIndex >= 0 ? priceActionNodes[rangeBreakoutPAIndex] : undefined;
+  const rangeData = rangeNode?.data as
+    | (RangeBreakoutNodeData & Record<string, unknown>)
+    | undefined;
+  const rangeOco =
+    rangeData !== undefined &&
+    rangeData._cancelOpposite !== false &&
+    rangeData.ocoBracket !== false;
+  const rangeBracket =
+    rangeOco && hasBuyNode && hasSellNode && (rangeData?.breakoutDirection ?? "BOTH") === "BOTH";
+
   // Range Breakout: place pending orders at range boundaries instead of market orders
   if (rangeBreakoutPAIndex >= 0) {
     const pv = `pa${rangeBreakoutPAIndex}`;
@@ -1939,6 +2297,19 @@ export function generateEntryLogic(
       });
     }
 
+    code.globalVariables.push("ulong g_rangeBuyTicket = 0; // Range breakout buy stop (0 = none)");
+    code.globalVariables.push(
+      "ulong g_rangeSellTicket = 0; // Range breakout sell stop (0 = none)"
+    );
+    addPendingExpiryInput(
+      priceActionNodes[pi],
+      code,
+      `InpRange${pi}`,
+      "Range Order",
+      "Range Breakout",
+      "GTC"
+    );
+
     code.onTick.push("");
     code.onTick.push("//--- Range Breakout Pending Orders");
     if (hasVolumeConfirm) {
@@ -1967,6 +2338,8 @@ export function generateEntryLogic(
     );
     code.onTick.push("         trade.OrderDelete(ticket);");
     code.onTick.push("   }");
+    code.onTick.push("   g_rangeBuyTicket = 0;");
+    code.onTick.push("   g_rangeSellTicket = 0;");
     code.onTick.push("");
 
     // Calculate entry prices
@@ -2036,7 +2409,15 @@ export function generateEntryLogic(
           `   double pendBuyLot = CalculateLotSize(${buyRiskInput}, pendBuySLDist);`
         );
         code.onTick.push(
-          `   pendBuyLot = MathMax(InpBuyMinLot, MathMin(InpBuyMaxLot, pendBuyLot));`
+          `   pendBuyLot = MathMax(InpBuyMinLot, MathMin(InpBuyMaxLot, ${scaledLot(code, "pendBuyLot")}));`
+        );
+      } else if (code.riskAmountSizing?.Buy) {
+        const { amount, distance } = code.riskAmountSizing.Buy;
+        code.onTick.push(
+          `   double pendBuyLot = RiskAmountLotSize(_Symbol, ${amount}, ${distance ?? "pendBuySLDist"});`
+        );
+        code.onTick.push(
+          `   pendBuyLot = MathMax(InpBuyMinLot, MathMin(InpBuyMaxLot, ${scaledLot(code, "pendBuyLot")}));`
         );
       } else {
         code.onTick.push(`   double pendBuyLot = buyLotSize;`);
@@ -2048,7 +2429,15 @@ export function generateEntryLogic(
           `   double pendSellLot = CalculateLotSize(${sellRiskInput}, pendSellSLDist);`
         );
         code.onTick.push(
-          `   pendSellLot = MathMax(InpSellMinLot, MathMin(InpSellMaxLot, pendSellLot));`
+          `   pendSellLot = MathMax(InpSellMinLot, MathMin(InpSellMaxLot, ${scaledLot(code, "pendSellLot")}));`
+        );
+      } else if (code.riskAmountSizing?.Sell) {
+        const { amount, distance } = code.riskAmountSizing.Sell;
+        code.onTick.push(
+          `   double pendSellLot = RiskAmountLotSize(_Symbol, ${amount}, ${distance ?? "pendSellSLDist"});`
+        );
+        code.onTick.push(
+          `   pendSellLot = MathMax(InpSellMinLot, MathMin(InpSellMaxLot, ${scaledLot(code, "pendSellLot")}));`
         );
       } else {
         code.onTick.push(`   double pendSellLot = sellLotSize;`);
@@ -2062,26 +2451,31 @@ export function generateEntryLogic(
       code.onTick.push(
         `   if(${buyFilterGuard}trade.BuyStop(pendBuyLot, buyStopPrice, _Symbol, pendBuySL, pendBuyTP, ORDER_TIME_GTC, 0, "${comment}"))`
       );
+      code.onTick.push("   {");
+      code.onTick.push("      g_rangeBuyTicket = trade.ResultOrder();");
       code.onTick.push(
         `      Print("Range Buy Stop at ", buyStopPrice, " SL:", pendBuySL, " TP:", pendBuyTP, " Lot:", pendBuyLot);`
       );
+      code.onTick.push("   }");
     }
     if (hasSellNode) {
       const sellFilterGuard = hasFilterConditions ? "sellCondition && " : "";
       code.onTick.push(
         `   if(${sellFilterGuard}trade.SellStop(pendSellLot, sellStopPrice, _Symbol, pendSellSL, pendSellTP, ORDER_TIME_GTC, 0, "${comment}"))`
       );
+      code.onTick.push("   {");
+      code.onTick.push("      g_rangeSellTicket = trade.ResultOrder();");
       code.onTick.push(
         `      Print("Range Sell Stop at ", sellStopPrice, " SL:", pendSellSL, " TP:", pendSellTP, " Lot:", pendSellLot);`
       );
+      code.onTick.push("   }");
     }
 
     code.onTick.push("}");
 
-    // OCO: Cancel remaining pending order when a position is filled
-    const rbData = priceActionNodes[rangeBreakoutPAIndex].data as Record<string, unknown>;
-    const cancelOpposite = rbData._cancelOpposite !== false;
-    if (cancelOpposite) {
+    // One-sided ranges keep the blunt OCO: no pending orders while a position is open.
+    // Two-sided brackets cancel by ticket in the housekeeping below.
+    if (rangeOco && !rangeBracket) {
       code.onTick.push("");
       code.onTick.push("//--- OCO: Cancel pending orders when a position is open");
       code.onTick.push("if(positionsCount > 0)");
@@ -2103,47 +2497,217 @@ export function generateEntryLogic(
     code.onTick.push("");
     code.onTick.push("} // end candle_close signal evaluation");
   }
+
+  // Pending-order housekeeping runs on every tick, outside the candle_close block
+  const housekeeping: string[] = [];
+  const conditionsDeclared = !rangeBreakoutOnly || hasFilterConditions;
+  const sides = [
+    { node: buyNode, has: hasBuyNode, orderType: buyOrderType, side: "Buy", isBuy: "true" },
+    { node: sellNode, has: hasSellNode, orderType: sellOrderType, side: "Sell", isBuy: "false" },
+  ];
+  for (const { node, has, orderType, side, isBuy } of sides) {
+    if (!node || !has) continue;
+    const ownPending = !rangeBreakoutOnly && orderType !== "MARKET";
+    const expiry = ownPending ? pendingExpiryArgs(node, `Inp${side}Pending`, "MINUTES") : null;
+    if (expiry) housekeeping.push(`ExpirePendingOrders(_Symbol, ${isBuy}, ${expiry});`);
+    const cancelOnInvalidate = (node.data as PlaceBuyNodeData).cancelOnInvalidate === true;
+    if (cancelOnInvalidate && conditionsDeclared && (ownPending || rangeNode)) {
+      housekeeping.push(
+        `if(!${side.toLowerCase()}Condition) CancelPendingOrders(_Symbol, ${isBuy});`
+      );
+    }
+  }
+  const rangeExpiry = rangeNode
+    ? pendingExpiryArgs(rangeNode, `InpRange${rangeBreakoutPAIndex}`, "GTC")
+    : null;
+  if (rangeExpiry) {
+    for (const [has, ticket] of [
+      [hasBuyNode, "g_rangeBuyTicket"],
+      [hasSellNode, "g_rangeSellTicket"],
+    ] as const) {
+      if (!has) continue;
+      housekeeping.push(
+        `if(PendingOrderExpired(${ticket}, ${rangeExpiry}) && trade.OrderDelete(${ticket})) ${ticket} = 0;`
+      );
+    }
+  }
+  if (rangeBracket) {
+    // A ticket that left the order book was filled or cancelled; only a fill cancels the other side
+    for (const [ticket, other] of [
+      ["g_rangeBuyTicket", "g_rangeSellTicket"],
+      ["g_rangeSellTicket", "g_rangeBuyTicket"],
+    ]) {
+      housekeeping.push(
+        `if(PendingOrderClosed(${ticket}))`,
+        "{",
+        `   if(PendingOrderFilled(${ticket}) && PendingOrderActive(${other}))`,
+        `      trade.OrderDelete(${other});`,
+        `   ${ticket} = 0;`,
+        "}"
+      );
+    }
+  }
+  if (housekeeping.length > 0) {
+    addPendingLifecycleHelpers(code);
+    code.onTick.push("");
+    code.onTick.push("//--- Pending order housekeeping: expiry, cancel on invalidation, OCO");
+    code.onTick.push(...housekeeping);
+  }
 }
 
-function addPendingOrderHelpers(code: GeneratedCode, ctx: GeneratorContext): void {
-  const comment = sanitizeMQL5String(ctx.comment);
+/** Identifies the pending lifecycle helper block (see adaptCodeForMQL4) */
+export const PENDING_LIFECYCLE_MARKER = "bool PendingOrderExpired(";
 
-  code.inputs.push({
-    name: "InpPendingExpiryHours",
-    type: "int",
-    value: 24,
-    comment: "Pending Order Expiry (hours, 0=no expiry)",
-    isOptimizable: false,
-    group: "Pending Orders",
-  });
+type PendingExpiryData = Pick<
+  RangeBreakoutNodeData,
+  "pendingExpiryMode" | "pendingExpiryBars" | "pendingExpiryMinutes"
+>;
+
+/**
+ * Expiry input of one side's pending orders. `fallback` is the mode of nodes saved
+ * before expiry modes existed: order nodes expired after 24 hours, range orders never.
+ */
+function addPendingExpiryInput(
+  node: BuilderNode,
+  code: GeneratedCode,
+  inputPrefix: string,
+  label: string,
+  group: string,
+  fallback: PendingExpiryMode
+): void {
+  const data = node.data as PendingExpiryData;
+  const mode = data.pendingExpiryMode ?? fallback;
+  if (mode === "BARS") {
+    code.inputs.push(
+      createInput(
+        node,
+        "pendingExpiryBars",
+        `${inputPrefix}ExpiryBars`,
+        "int",
+        data.pendingExpiryBars ?? 5,
+        `${label} Expiry (bars, 0=never)`,
+        group
+      )
+    );
+  } else if (mode === "MINUTES") {
+    code.inputs.push(
+      createInput(
+        node,
+        "pendingExpiryMinutes",
+        `${inputPrefix}ExpiryMinutes`,
+        "int",
+        data.pendingExpiryMinutes ?? 1440,
+        `${label} Expiry (minutes, 0=never)`,
+        group
+      )
+    );
+  }
+}
+
+/** `bars, minutes` arguments of the expiry helpers, or null when the orders never expire */
+function pendingExpiryArgs(
+  node: BuilderNode,
+  inputPrefix: string,
+  fallback: PendingExpiryMode
+): string | null {
+  switch ((node.data as PendingExpiryData).pendingExpiryMode ?? fallback) {
+    case "BARS":
+      return `${inputPrefix}ExpiryBars, 0`;
+    case "MINUTES":
+      return `0, ${inputPrefix}ExpiryMinutes`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Helpers for the pending-order housekeeping in OnTick. Expiry is enforced by the EA
+ * rather than the broker so it can count chart bars and works on brokers that reject
+ * ORDER_TIME_SPECIFIED. The symbol is a parameter so multi-pair EAs keep each symbol's
+ * orders apart; the MQL4 export swaps the whole block for an order-pool version.
+ */
+function addPendingLifecycleHelpers(code: GeneratedCode): void {
+  if (code.helperFunctions.some((h) => h.includes(PENDING_LIFECYCLE_MARKER))) return;
 
   code.helperFunctions.push(`//+------------------------------------------------------------------+
-//| Get pending order expiry time                                      |
+//| Is the selected order a pending order of this EA on the given side|
 //+------------------------------------------------------------------+
-datetime GetPendingExpiry()
+bool IsOwnPendingOrder(string sym, bool buySide)
 {
-   if(InpPendingExpiryHours <= 0) return 0;
-   return TimeCurrent() + InpPendingExpiryHours * 3600;
+   if(OrderGetInteger(ORDER_MAGIC) != InpMagicNumber || OrderGetString(ORDER_SYMBOL) != sym)
+      return false;
+   ENUM_ORDER_TYPE type = (ENUM_ORDER_TYPE)OrderGetInteger(ORDER_TYPE);
+   bool isBuy = (type == ORDER_TYPE_BUY_STOP || type == ORDER_TYPE_BUY_LIMIT || type == ORDER_TYPE_BUY_STOP_LIMIT);
+   return isBuy == buySide;
 }
 
 //+------------------------------------------------------------------+
-//| Delete Pending Orders for this EA                                  |
+//| Has a pending order outlived its expiry (0 = no limit)             |
 //+------------------------------------------------------------------+
-void DeletePendingOrders()
+bool PendingOrderExpired(ulong ticket, int expiryBars, int expiryMinutes)
+{
+   if(!PendingOrderActive(ticket)) return false;
+   datetime placed = (datetime)OrderGetInteger(ORDER_TIME_SETUP);
+   if(expiryBars > 0 && iBarShift(OrderGetString(ORDER_SYMBOL), PERIOD_CURRENT, placed) >= expiryBars) return true;
+   return expiryMinutes > 0 && TimeCurrent() - placed >= (long)expiryMinutes * 60;
+}
+
+//+------------------------------------------------------------------+
+//| Delete expired pending orders of one side                          |
+//+------------------------------------------------------------------+
+void ExpirePendingOrders(string sym, bool buySide, int expiryBars, int expiryMinutes)
 {
    for(int i = OrdersTotal() - 1; i >= 0; i--)
    {
       ulong ticket = OrderGetTicket(i);
-      if(ticket > 0)
-      {
-         if(OrderGetInteger(ORDER_MAGIC) == InpMagicNumber &&
-            OrderGetString(ORDER_SYMBOL) == _Symbol)
-         {
-            trade.OrderDelete(ticket);
-         }
-      }
+      if(ticket == 0 || !IsOwnPendingOrder(sym, buySide)) continue;
+      if(PendingOrderExpired(ticket, expiryBars, expiryMinutes) && trade.OrderDelete(ticket))
+         Print("Pending order ", ticket, " expired");
    }
+}
+
+//+------------------------------------------------------------------+
+//| Delete all pending orders of one side                              |
+//+------------------------------------------------------------------+
+void CancelPendingOrders(string sym, bool buySide)
+{
+   for(int i = OrdersTotal() - 1; i >= 0; i--)
+   {
+      ulong ticket = OrderGetTicket(i);
+      if(ticket > 0 && IsOwnPendingOrder(sym, buySide))
+         trade.OrderDelete(ticket);
+   }
+}
+
+//+------------------------------------------------------------------+
+//| Is the order still pending (selects it)                            |
+//+------------------------------------------------------------------+
+bool PendingOrderActive(ulong ticket)
+{
+   return ticket > 0 && OrderSelect(ticket);
+}
+
+//+------------------------------------------------------------------+
+//| Has the order left the order book (filled, cancelled or expired)   |
+//+------------------------------------------------------------------+
+bool PendingOrderClosed(ulong ticket)
+{
+   return ticket > 0 && !OrderSelect(ticket) && HistoryOrderSelect(ticket);
+}
+
+//+------------------------------------------------------------------+
+//| Was an order that left the order book filled (not cancelled)       |
+//+------------------------------------------------------------------+
+bool PendingOrderFilled(ulong ticket)
+{
+   if(!HistoryOrderSelect(ticket)) return false;
+   ENUM_ORDER_STATE state = (ENUM_ORDER_STATE)HistoryOrderGetInteger(ticket, ORDER_STATE);
+   return state == ORDER_STATE_FILLED || state == ORDER_STATE_PARTIAL;
 }`);
+}
+
+function addPendingOrderHelpers(code: GeneratedCode, ctx: GeneratorContext): void {
+  const comment = sanitizeMQL5String(ctx.comment);
 
   code.helperFunctions.push(`//+------------------------------------------------------------------+
 //| Place Buy Stop Order                                               |
@@ -2158,10 +2722,8 @@ bool PlaceBuyStop(double lots, double sl, double tp, double offsetPips)
       entryPrice = NormalizeDouble(ask + stopsLevel, _Digits);
    double slPrice = (sl > 0) ? NormalizeDouble(entryPrice - sl * _Point, _Digits) : 0;
    double tpPrice = (tp > 0) ? NormalizeDouble(entryPrice + tp * _Point, _Digits) : 0;
-   datetime expiry = GetPendingExpiry();
-   ENUM_ORDER_TYPE_TIME timeType = (expiry > 0) ? ORDER_TIME_SPECIFIED : ORDER_TIME_GTC;
 
-   if(trade.BuyStop(lots, entryPrice, _Symbol, slPrice, tpPrice, timeType, expiry, "${comment}"))
+   if(trade.BuyStop(lots, entryPrice, _Symbol, slPrice, tpPrice, ORDER_TIME_GTC, 0, "${comment}"))
       return true;
 
    Print("BuyStop failed: ", trade.ResultRetcodeDescription());
@@ -2181,10 +2743,8 @@ bool PlaceBuyLimit(double lots, double sl, double tp, double offsetPips)
       entryPrice = NormalizeDouble(ask - stopsLevel, _Digits);
    double slPrice = (sl > 0) ? NormalizeDouble(entryPrice - sl * _Point, _Digits) : 0;
    double tpPrice = (tp > 0) ? NormalizeDouble(entryPrice + tp * _Point, _Digits) : 0;
-   datetime expiry = GetPendingExpiry();
-   ENUM_ORDER_TYPE_TIME timeType = (expiry > 0) ? ORDER_TIME_SPECIFIED : ORDER_TIME_GTC;
 
-   if(trade.BuyLimit(lots, entryPrice, _Symbol, slPrice, tpPrice, timeType, expiry, "${comment}"))
+   if(trade.BuyLimit(lots, entryPrice, _Symbol, slPrice, tpPrice, ORDER_TIME_GTC, 0, "${comment}"))
       return true;
 
    Print("BuyLimit failed: ", trade.ResultRetcodeDescription());
@@ -2204,10 +2764,8 @@ bool PlaceSellStop(double lots, double sl, double tp, double offsetPips)
       entryPrice = NormalizeDouble(bid - stopsLevel, _Digits);
    double slPrice = (sl > 0) ? NormalizeDouble(entryPrice + sl * _Point, _Digits) : 0;
    double tpPrice = (tp > 0) ? NormalizeDouble(entryPrice - tp * _Point, _Digits) : 0;
-   datetime expiry = GetPendingExpiry();
-   ENUM_ORDER_TYPE_TIME timeType = (expiry > 0) ? ORDER_TIME_SPECIFIED : ORDER_TIME_GTC;
 
-   if(trade.SellStop(lots, entryPrice, _Symbol, slPrice, tpPrice, timeType, expiry, "${comment}"))
+   if(trade.SellStop(lots, entryPrice, _Symbol, slPrice, tpPrice, ORDER_TIME_GTC, 0, "${comment}"))
       return true;
 
    Print("SellStop failed: ", trade.ResultRetcodeDescription());
@@ -2227,10 +2785,8 @@ bool PlaceSellLimit(double lots, double sl, double tp, double offsetPips)
       entryPrice = NormalizeDouble(bid + stopsLevel, _Digits);
    double slPrice = (sl > 0) ? NormalizeDouble(entryPrice + sl * _Point, _Digits) : 0;
    double tpPrice = (tp > 0) ? NormalizeDouble(entryPrice - tp * _Point, _Digits) : 0;
-   datetime expiry = GetPendingExpiry();
-   ENUM_ORDER_TYPE_TIME timeType = (expiry > 0) ? ORDER_TIME_SPECIFIED : ORDER_TIME_GTC;
 
-   if(trade.SellLimit(lots, entryPrice, _Symbol, slPrice, tpPrice, timeType, expiry, "${comment}"))
+   if(trade.SellLimit(lots, entryPrice, _Symbol, slPrice, tpPrice, ORDER_TIME_GTC, 0, "${comment}"))
       return true;
 
    Print("SellLimit failed: ", trade.ResultRetcodeDescription());
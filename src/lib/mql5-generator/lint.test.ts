@@ -0,0 +1,226 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_MULTI_PAIR } from "@/types/builder";
+import { STRATEGY_PRESETS } from "@/lib/strategy-presets";
+import { generateMQL5Code } from "./generator";
+import { lintMQL5, tokenizeMQL5, type MQL5LintRule } from "./lint";
+
+const rules = (source: string): MQL5LintRule[] => lintMQL5(source).map((i) => i.rule);
+
+/** A minimal EA around the given globals, OnInit, OnDeinit and OnTick bodies */
+function ea(parts: { globals?: string; init?: string; deinit?: string; tick?: string }): string {
+  return `#property copyright "Test"
+#include <Trade\\Trade.mqh>
+CTrade trade;
+input int InpPeriod = 14; // Period
+${parts.globals ?? ""}
+
+int OnInit()
+{
+${parts.init ?? ""}
+   return(INIT_SUCCEEDED);
+}
+
+void OnDeinit(const int reason)
+{
+${parts.deinit ?? ""}
+}
+
+void OnTick()
+{
+${parts.tick ?? ""}
+}
+`;
+}
+
+const HANDLE = {
+  globals: "int rsiHandle = INVALID_HANDLE;\ndouble rsiBuf[];",
+  init: [
+    "   rsiHandle = iRSI(_Symbol, PERIOD_CURRENT, InpPeriod, PRICE_CLOSE);",
+    "   if(rsiHandle == INVALID_HANDLE) return(INIT_FAILED);",
+    "   ArraySetAsSeries(rsiBuf, true);",
+  ].join("\n"),
+  deinit: "   if(rsiHandle != INVALID_HANDLE) IndicatorRelease(rsiHandle);",
+  tick: "   if(CopyBuffer(rsiHandle, 0, 0, 2, rsiBuf) < 2) return;",
+};
+
+describe("tokenizeMQL5", () => {
+  it("drops comments and keeps strings, literals and directives whole", () => {
+    const tokens = tokenizeMQL5(
+      [
+        "#define MAX_BARS 100",
+        'string s = "a // b"; /* block',
+        "comment */ color c = C'1,2,3';",
+        "x += 1.5e-3;",
+      ].join("\n")
+    );
+    expect(tokens.map((t) => t.text)).toEqual([
+      "#define MAX_BARS 100",
+      "string",
+      "s",
+      "=",
+      '"a // b"',
+      ";",
+      "color",
+      "c",
+      "=",
+      "C'1,2,3'",
+      ";",
+      "x",
+      "+=",
+      "1.5e-3",
+      ";",
+    ]);
+    expect(tokens.find((t) => t.text === "color")?.line).toBe(3);
+  });
+});
+
+describe("lintMQL5", () => {
+  it("accepts a well-formed EA", () => {
+    expect(lintMQL5(ea(HANDLE))).toEqual([]);
+  });
+
+  it("reports identifiers that are never declared", () => {
+    const issues = lintMQL5(ea({ tick: "   double lots = InpLots * 2;\n   Print(lots);" }));
+    expect(issues).toEqual([
+      {
+        rule: "undeclared-identifier",
+        severity: "error",
+        message: '"InpLots" is not declared',
+        line: 20,
+      },
+    ]);
+  });
+
+  it("resolves globals and functions declared later in the file, but not out-of-scope locals", () => {
+    const source = `${ea({ tick: "   if(IsReady()) { double spread = g_spread; }\n   Print(spread);" })}
+double g_spread = 0;
+bool IsReady() { return(true); }
+`;
+    const issues = lintMQL5(source);
+    expect(issues.map((i) => i.message)).toEqual(['"spread" is not declared']);
+  });
+
+  it("knows enum values, #define constants, loop variables and platform constants", () => {
+    const source = ea({
+      globals: [
+        "#define LOOKBACK 5",
+        "enum ENUM_BIAS { BIAS_UP, BIAS_DOWN };",
+        "input ENUM_BIAS InpBias = BIAS_UP;",
+      ].join("\n"),
+      tick: [
+        "   for(int i = 0, n = LOOKBACK; i < n; i++) Print(i);",
+        "   for(int i = 0; i < 2; i++) Print(i);",
+        "   if(InpBias == BIAS_DOWN && Period() == PERIOD_H1) Print(clrRed, ORDER_TYPE_BUY_STOP);",
+      ].join("\n"),
+    });
+    expect(lintMQL5(source)).toEqual([]);
+  });
+
+  it("reports duplicated globals and inputs but allows overloads and prototypes", () => {
+    const source = `${ea({
+      globals: [
+        "input int InpPeriod = 20;",
+        "double g_level = 0;",
+        "double g_level = 1;",
+        "double Pips(double points);",
+        "double Pips(double points) { return(points / 10.0); }",
+        "double Pips(string sym, double points) { return(points); }",
+      ].join("\n"),
+      tick: "   Print(g_level, Pips(1.0), Pips(_Symbol, 1.0));",
+    })}`;
+    const issues = lintMQL5(source).filter((i) => i.rule === "duplicate-declaration");
+    expect(issues.map((i) => i.message)).toEqual([
+      '"InpPeriod" is declared twice at global scope (first on line 4)',
+      '"g_level" is declared twice at global scope (first on line 6)',
+    ]);
+    expect(issues.every((i) => i.severity === "error")).toBe(true);
+  });
+
+  it("reports a local declared twice in the same scope but not shadowing in a nested scope", () => {
+    const twice = ea({ tick: "   double sl = 1;\n   double sl = 2;\n   Print(sl);" });
+    expect(rules(twice)).toEqual(["duplicate-declaration"]);
+
+    const nested = ea({ tick: "   double sl = 1;\n   if(sl > 0) { double sl = 2; Print(sl); }" });
+    expect(rules(nested)).toEqual([]);
+  });
+
+  it("warns about indicator handles that are only created and validated", () => {
+    const issues = lintMQL5(ea({ ...HANDLE, tick: "" }));
+    expect(issues).toEqual([
+      expect.objectContaining({
+        rule: "unused-indicator-handle",
+        severity: "warning",
+        message: 'Indicator handle "rsiHandle" is created but its values are never read',
+      }),
+    ]);
+  });
+
+  it("warns about indicator handles that are not released in OnDeinit", () => {
+    expect(rules(ea({ ...HANDLE, deinit: "" }))).toEqual(["missing-indicator-release"]);
+
+    // Released somewhere else does not count
+    const elsewhere = ea({
+      ...HANDLE,
+      deinit: "",
+      tick: `${HANDLE.tick}\n   if(IsStopped()) IndicatorRelease(rsiHandle);`,
+    });
+    expect(rules(elsewhere)).toEqual(["missing-indicator-release"]);
+  });
+
+  it("checks handle arrays released in a loop", () => {
+    const source = ea({
+      globals: 'string g_symbols[] = {"EURUSD", "GBPUSD"};\nint g_maHandle[];\ndouble maBuf[];',
+      init: [
+        "   ArrayResize(g_maHandle, 2);",
+        "   ArraySetAsSeries(maBuf, true);",
+        "   for(int s = 0; s < 2; s++) g_maHandle[s] = iMA(g_symbols[s], PERIOD_CURRENT, InpPeriod, 0, MODE_EMA, PRICE_CLOSE);",
+      ].join("\n"),
+      deinit: "   for(int s = 0; s < 2; s++) IndicatorRelease(g_maHandle[s]);",
+      tick: "   CopyBuffer(g_maHandle[0], 0, 0, 2, maBuf);",
+    });
+    expect(lintMQL5(source)).toEqual([]);
+  });
+
+  it("reports ArraySetAsSeries on fixed-size arrays", () => {
+    const source = ea({ tick: "   double levels[3];\n   ArraySetAsSeries(levels, true);" });
+    expect(lintMQL5(source)).toEqual([
+      {
+        rule: "array-series",
+        severity: "error",
+        message: 'ArraySetAsSeries() has no effect on the fixed-size array "levels"',
+        line: 21,
+      },
+    ]);
+  });
+
+  it("warns when a copied dynamic array is never set as series", () => {
+    const source = ea({
+      ...HANDLE,
+      init: HANDLE.init.replace("   ArraySetAsSeries(rsiBuf, true);", ""),
+      tick: `${HANDLE.tick}\n   double closes[];\n   CopyClose(_Symbol, PERIOD_CURRENT, 0, 3, closes);\n   ArraySetAsSeries(closes, true);`,
+    });
+    expect(lintMQL5(source).map((i) => i.message)).toEqual([
+      '"rsiBuf" is filled by a Copy function but never set as series; index 0 is the oldest bar',
+    ]);
+  });
+});
+
+describe("generated EAs", () => {
+  // Test gate: every preset must generate MQL5 the linter accepts without warnings
+  for (const preset of STRATEGY_PRESETS) {
+    it(`${preset.id} lints clean`, () => {
+      expect(lintMQL5(generateMQL5Code(preset.buildJson, preset.name))).toEqual([]);
+    });
+
+    it(`${preset.id} lints clean in multi-pair mode`, () => {
+      const buildJson = {
+        ...preset.buildJson,
+        settings: {
+          ...preset.buildJson.settings,
+          multiPair: { ...DEFAULT_MULTI_PAIR, enabled: true },
+        },
+      };
+      expect(lintMQL5(generateMQL5Code(buildJson, preset.name))).toEqual([]);
+    });
+  }
+});
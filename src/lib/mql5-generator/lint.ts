@@ -0,0 +1,666 @@
+/**
+ * Static analysis of generated MQL5. Catches the mistakes that otherwise only show up
+ * when the EA is compiled in MetaEditor or run in the terminal: identifiers that are
+ * never declared, duplicated globals and inputs, indicator handles that are created but
+ * never read or never released, and arrays whose series direction does not match how
+ * they are filled.
+ *
+ * The analysis is token based, not a full parser. It understands the subset of MQL5 the
+ * generator emits: functions, globals, locals in brace scopes, enums, plain structs and
+ * #define constants. Identifiers after `.` are members and are not checked.
+ */
+
+import { MQL5_BUILTIN_FUNCTIONS, MQL5_BUILTIN_TYPES, isBuiltinConstant } from "./builtins";
+
+export type MQL5LintRule =
+  | "undeclared-identifier"
+  | "duplicate-declaration"
+  | "unused-indicator-handle"
+  | "missing-indicator-release"
+  | "array-series";
+
+export interface MQL5LintIssue {
+  rule: MQL5LintRule;
+  severity: "error" | "warning";
+  message: string;
+  /** 1-based line in the generated source */
+  line: number;
+}
+
+export interface MQL5Token {
+  kind: "ident" | "number" | "string" | "char" | "punct" | "directive";
+  text: string;
+  line: number;
+}
+
+const TWO_CHAR_PUNCT = new Set([
+  "::",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "<<",
+  ">>",
+]);
+
+/** Split MQL5 source into tokens. Comments are dropped; preprocessor lines are one token. */
+export function tokenizeMQL5(source: string): MQL5Token[] {
+  const tokens: MQL5Token[] = [];
+  let i = 0;
+  let line = 1;
+  let lineStart = true;
+
+  while (i < source.length) {
+    const c = source[i];
+    if (c === "\n") {
+      line++;
+      i++;
+      lineStart = true;
+      continue;
+    }
+    if (c === " " || c === "\t" || c === "\r") {
+      i++;
+      continue;
+    }
+    if (c === "/" && source[i + 1] === "/") {
+      while (i < source.length && source[i] !== "\n") i++;
+      continue;
+    }
+    if (c === "/" && source[i + 1] === "*") {
+      const end = source.indexOf("*/", i + 2);
+      const stop = end < 0 ? source.length : end + 2;
+      for (let k = i; k < stop; k++) if (source[k] === "\n") line++;
+      i = stop;
+      continue;
+    }
+    if (c === "#" && lineStart) {
+      const start = i;
+      while (i < source.length && source[i] !== "\n") i++;
+      tokens.push({ kind: "directive", text: source.slice(start, i).trim(), line });
+      continue;
+    }
+    lineStart = false;
+
+    if (c === '"' || c === "'") {
+      const start = i++;
+      while (i < source.length && source[i] !== c && source[i] !== "\n") {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+      i++;
+      tokens.push({ kind: c === '"' ? "string" : "char", text: source.slice(start, i), line });
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i, i + 128));
+    if (ident) {
+      // Color and datetime literals: C'128,128,128', D'2024.01.01'
+      if ((ident[0] === "C" || ident[0] === "D") && source[i + 1] === "'") {
+        const end = source.indexOf("'", i + 2);
+        const stop = end < 0 ? source.length : end + 1;
+        tokens.push({ kind: "char", text: source.slice(i, stop), line });
+        i = stop;
+        continue;
+      }
+      tokens.push({ kind: "ident", text: ident[0], line });
+      i += ident[0].length;
+      continue;
+    }
+    const num = /^(0[xX][0-9a-fA-F]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)/.exec(
+      source.slice(i, i + 64)
+    );
+    if (num) {
+      tokens.push({ kind: "number", text: num[0], line });
+      i += num[0].length;
+      continue;
+    }
+    const two = source.slice(i, i + 2);
+    const text = TWO_CHAR_PUNCT.has(two) ? two : c;
+    tokens.push({ kind: "punct", text, line });
+    i += text.length;
+  }
+  return tokens;
+}
+
+const KEYWORDS = new Set([
+  "if",
+  "else",
+  "for",
+  "while",
+  "do",
+  "switch",
+  "case",
+  "default",
+  "break",
+  "continue",
+  "return",
+  "sizeof",
+  "new",
+  "delete",
+  "this",
+  "operator",
+  "template",
+  "typename",
+  "const",
+  "static",
+  "input",
+  "sinput",
+  "extern",
+  "enum",
+  "struct",
+  "class",
+  "public",
+  "private",
+  "protected",
+  "virtual",
+  "true",
+  "false",
+  "NULL",
+]);
+
+const PRIMITIVE_TYPES = new Set([
+  "void",
+  "bool",
+  "char",
+  "uchar",
+  "short",
+  "ushort",
+  "int",
+  "uint",
+  "long",
+  "ulong",
+  "float",
+  "double",
+  "string",
+  "datetime",
+  "color",
+]);
+
+/** Built-in functions that create an indicator handle */
+const INDICATOR_CREATORS = new Set([
+  "iAC",
+  "iAD",
+  "iADX",
+  "iADXWilder",
+  "iAlligator",
+  "iAMA",
+  "iAO",
+  "iATR",
+  "iBands",
+  "iBearsPower",
+  "iBullsPower",
+  "iBWMFI",
+  "iCCI",
+  "iChaikin",
+  "iCustom",
+  "iDEMA",
+  "iDeMarker",
+  "iEnvelopes",
+  "iForce",
+  "iFractals",
+  "iFrAMA",
+  "iGator",
+  "iIchimoku",
+  "iMA",
+  "iMACD",
+  "iMFI",
+  "iMomentum",
+  "iOBV",
+  "iOsMA",
+  "iRSI",
+  "iRVI",
+  "iSAR",
+  "iStdDev",
+  "iStochastic",
+  "iTEMA",
+  "iTriX",
+  "iVIDyA",
+  "iVolumes",
+  "iWPR",
+]);
+
+/** Copy functions whose last argument is the destination array */
+const SERIES_COPIES = new Set([
+  "CopyBuffer",
+  "CopyClose",
+  "CopyHigh",
+  "CopyLow",
+  "CopyOpen",
+  "CopyTime",
+  "CopyRates",
+  "CopyTickVolume",
+  "CopyRealVolume",
+  "CopySpread",
+]);
+
+interface Declaration {
+  name: string;
+  kind: "variable" | "function" | "type" | "constant";
+  line: number;
+  /** Parameter types of a function, to tell overloads from duplicates */
+  signature?: string;
+  /** Fixed-size array (`double a[3]`) */
+  fixedArray?: boolean;
+  /** Declared in a for(...) header */
+  loopVariable?: boolean;
+}
+
+interface FunctionBody {
+  name: string;
+  /** Token indexes of the opening and closing brace */
+  start: number;
+  end: number;
+}
+
+interface Program {
+  tokens: MQL5Token[];
+  globals: Map<string, Declaration[]>;
+  functions: FunctionBody[];
+  /** Declarations by name, in every scope */
+  all: Map<string, Declaration[]>;
+  issues: MQL5LintIssue[];
+}
+
+function isIdent(t: MQL5Token | undefined, text?: string): boolean {
+  return t?.kind === "ident" && (text === undefined || t.text === text);
+}
+
+function isPunct(t: MQL5Token | undefined, text: string): boolean {
+  return t?.kind === "punct" && t.text === text;
+}
+
+/** Index of the token closing the bracket opened at `open` */
+function matching(tokens: MQL5Token[], open: number): number {
+  const pairs: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+  const close = pairs[tokens[open].text];
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    if (isPunct(tokens[i], tokens[open].text)) depth++;
+    else if (isPunct(tokens[i], close) && --depth === 0) return i;
+  }
+  return tokens.length - 1;
+}
+
+/**
+ * Walk the token stream once, tracking brace scopes. Records declarations, reports names
+ * declared twice in one scope and identifiers that resolve to nothing. Locals must be
+ * declared before use; globals and functions may be used anywhere in the file.
+ */
+function analyse(tokens: MQL5Token[]): Program {
+  const issues: MQL5LintIssue[] = [];
+  const all = new Map<string, Declaration[]>();
+  const globals = new Map<string, Declaration[]>();
+  const functions: FunctionBody[] = [];
+  const types = new Set([...PRIMITIVE_TYPES, ...MQL5_BUILTIN_TYPES]);
+  /** Uses that did not resolve to a local or built-in, checked against the globals at the end */
+  const deferred: MQL5Token[] = [];
+
+  const record = (decl: Declaration) => {
+    const list = all.get(decl.name) ?? [];
+    list.push(decl);
+    all.set(decl.name, list);
+  };
+  const duplicate = (decl: Declaration, first: Declaration, where: string): MQL5LintIssue => ({
+    rule: "duplicate-declaration",
+    severity: "error",
+    message: `"${decl.name}" is declared twice ${where} (first on line ${first.line})`,
+    line: decl.line,
+  });
+  const declareGlobal = (decl: Declaration) => {
+    const existing = globals.get(decl.name) ?? [];
+    // Overloads differ in their parameter types
+    const clash = existing.find(
+      (d) => d.kind !== "function" || decl.kind !== "function" || d.signature === decl.signature
+    );
+    if (clash) issues.push(duplicate(decl, clash, "at global scope"));
+    existing.push(decl);
+    globals.set(decl.name, existing);
+    record(decl);
+  };
+
+  type Scope = Map<string, Declaration>;
+  const scopes: Scope[] = [new Map()];
+  const declareLocal = (decl: Declaration) => {
+    const scope = scopes[scopes.length - 1];
+    const existing = scope.get(decl.name);
+    if (existing && !existing.loopVariable && !decl.loopVariable) {
+      issues.push(duplicate(decl, existing, "in the same scope"));
+    }
+    scope.set(decl.name, decl);
+    record(decl);
+  };
+  const declare = (decl: Declaration) =>
+    scopes.length === 1 ? declareGlobal(decl) : declareLocal(decl);
+
+  /** Parse `(type name, type &name[] = x)` into parameter declarations and a type signature */
+  const readParams = (open: number): { params: Declaration[]; signature: string } => {
+    const close = matching(tokens, open);
+    const params: Declaration[] = [];
+    const sig: string[] = [];
+    let k = open + 1;
+    while (k < close) {
+      let end = k;
+      let depth = 0;
+      while (end < close && !(depth === 0 && isPunct(tokens[end], ","))) {
+        if (isPunct(tokens[end], "(") || isPunct(tokens[end], "[")) depth++;
+        if (isPunct(tokens[end], ")") || isPunct(tokens[end], "]")) depth--;
+        end++;
+      }
+      const eq = tokens.slice(k, end).findIndex((t) => isPunct(t, "="));
+      const head = tokens.slice(k, eq < 0 ? end : k + eq);
+      const idents = head.filter((t) => isIdent(t) && t.text !== "const");
+      const name = idents[idents.length - 1];
+      if (name && idents.length >= 2) {
+        params.push({ name: name.text, kind: "variable", line: name.line });
+        sig.push(
+          idents
+            .slice(0, -1)
+            .map((t) => t.text)
+            .join(" ")
+        );
+      }
+      // Default values are expressions: check their identifiers like any other use
+      if (eq >= 0) {
+        for (let u = k + eq + 1; u < end; u++) {
+          if (isIdent(tokens[u]) && !KEYWORDS.has(tokens[u].text)) deferred.push(tokens[u]);
+        }
+      }
+      k = end + 1;
+    }
+    return { params, signature: sig.join(",") };
+  };
+
+  let pendingParams: Declaration[] | null = null;
+  let pendingFunction = "";
+  /** Paren depth outside the for(...) header being read, or -1 */
+  let forHeaderDepth = -1;
+  let parenDepth = 0;
+  /** Set while reading `type a = ..., b` so the names after commas are declared too */
+  let declaring: { parenDepth: number } | null = null;
+  /** Braces opened inside a declaration initializer: `= { ... }` */
+  let initializerBraces = 0;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (t.kind === "directive") {
+      const define = /^#define\s+([A-Za-z_]\w*)/.exec(t.text);
+      if (define) declareGlobal({ name: define[1], kind: "constant", line: t.line });
+      continue;
+    }
+
+    if (t.kind === "punct") {
+      switch (t.text) {
+        case "(":
+          parenDepth++;
+          break;
+        case ")":
+          parenDepth--;
+          if (parenDepth === forHeaderDepth) forHeaderDepth = -1;
+          if (declaring && parenDepth < declaring.parenDepth) declaring = null;
+          break;
+        case "{":
+          if (initializerBraces > 0 || (declaring && isPunct(tokens[i - 1], "="))) {
+            initializerBraces++;
+            break;
+          }
+          scopes.push(new Map());
+          if (pendingParams) {
+            for (const p of pendingParams) declareLocal(p);
+            functions.push({ name: pendingFunction, start: i, end: matching(tokens, i) });
+          }
+          pendingParams = null;
+          declaring = null;
+          break;
+        case "}":
+          if (initializerBraces > 0) initializerBraces--;
+          else if (scopes.length > 1) scopes.pop();
+          break;
+        case ";":
+          if (declaring && parenDepth <= declaring.parenDepth) declaring = null;
+          pendingParams = null;
+          break;
+        case ",":
+          if (
+            declaring &&
+            parenDepth === declaring.parenDepth &&
+            initializerBraces === 0 &&
+            isIdent(tokens[i + 1]) &&
+            ["=", ",", ";", "["].some((p) => isPunct(tokens[i + 2], p))
+          ) {
+            const name = tokens[i + 1];
+            declare({
+              name: name.text,
+              kind: "variable",
+              line: name.line,
+              fixedArray: isPunct(tokens[i + 2], "[") && !isPunct(tokens[i + 3], "]"),
+              loopVariable: forHeaderDepth >= 0,
+            });
+            i++;
+          }
+          break;
+      }
+      continue;
+    }
+    if (t.kind !== "ident") continue;
+
+    const prev = tokens[i - 1];
+    if (isPunct(prev, ".")) continue; // member access
+    if (isIdent(t, "for") && isPunct(tokens[i + 1], "(")) {
+      forHeaderDepth = parenDepth;
+      continue;
+    }
+    if (isIdent(t, "group") && isIdent(prev, "input")) continue;
+    if ((isIdent(t, "enum") || isIdent(t, "struct")) && isIdent(tokens[i + 1])) {
+      const name = tokens[i + 1];
+      types.add(name.text);
+      declare({ name: name.text, kind: "type", line: name.line });
+      if (isIdent(t, "enum") && isPunct(tokens[i + 2], "{")) {
+        const end = matching(tokens, i + 2);
+        for (let k = i + 3; k < end; k++) {
+          if (isIdent(tokens[k]) && (isPunct(tokens[k - 1], "{") || isPunct(tokens[k - 1], ","))) {
+            declare({ name: tokens[k].text, kind: "constant", line: tokens[k].line });
+          } else if (isIdent(tokens[k]) && !resolvesLocally(tokens[k].text)) {
+            deferred.push(tokens[k]);
+          }
+        }
+        i = end;
+      } else {
+        i++;
+      }
+      continue;
+    }
+    if (KEYWORDS.has(t.text)) continue;
+
+    // Declaration: `Type name` or `Type &name`
+    const nameIdx = isPunct(tokens[i + 1], "&") ? i + 2 : i + 1;
+    const nameTok = tokens[nameIdx];
+    if (
+      types.has(t.text) &&
+      isIdent(nameTok) &&
+      !KEYWORDS.has(nameTok.text) &&
+      !types.has(nameTok.text)
+    ) {
+      const after = tokens[nameIdx + 1];
+      if (isPunct(after, "(") && scopes.length === 1) {
+        const { params, signature } = readParams(nameIdx + 1);
+        const close = matching(tokens, nameIdx + 1);
+        const hasBody = isPunct(tokens[close + 1], "{");
+        const decl: Declaration = { name: nameTok.text, kind: "function", line: nameTok.line };
+        // A prototype and its definition share a name and signature; only bodies can clash
+        decl.signature = hasBody ? signature : `prototype:${nameTok.line}`;
+        declareGlobal(decl);
+        if (hasBody) {
+          pendingParams = params;
+          pendingFunction = nameTok.text;
+        }
+        // The parameter list is skipped: its names belong to the body scope
+        i = close;
+        continue;
+      }
+      declare({
+        name: nameTok.text,
+        kind: "variable",
+        line: nameTok.line,
+        fixedArray: isPunct(after, "[") && !isPunct(tokens[nameIdx + 2], "]"),
+        loopVariable: forHeaderDepth >= 0,
+      });
+      declaring = { parenDepth };
+      i = nameIdx;
+      continue;
+    }
+
+    if (isPunct(tokens[i + 1], "::")) continue; // Class::member
+    if (!resolvesLocally(t.text)) deferred.push(t);
+  }
+
+  function resolvesLocally(name: string): boolean {
+    return (
+      scopes.some((s) => s.has(name)) ||
+      types.has(name) ||
+      isBuiltinConstant(name) ||
+      MQL5_BUILTIN_FUNCTIONS.has(name)
+    );
+  }
+
+  for (const t of deferred) {
+    if (!globals.has(t.text) && !types.has(t.text)) {
+      issues.push({
+        rule: "undeclared-identifier",
+        severity: "error",
+        message: `"${t.text}" is not declared`,
+        line: t.line,
+      });
+    }
+  }
+  return { tokens, globals, functions, all, issues };
+}
+
+/** The token index after `name` or `name[...]` */
+function afterIndexing(tokens: MQL5Token[], i: number): number {
+  return isPunct(tokens[i + 1], "[") ? matching(tokens, i + 1) + 1 : i + 1;
+}
+
+/**
+ * Indicator handles: a variable assigned from iMA/iRSI/... must be read somewhere besides
+ * its validation, and released in OnDeinit so the terminal can free the indicator.
+ */
+function checkIndicatorHandles({ tokens, functions }: Program): MQL5LintIssue[] {
+  const created = new Map<string, number>();
+  for (let i = 0; i < tokens.length; i++) {
+    if (!isIdent(tokens[i]) || isPunct(tokens[i - 1], ".")) continue;
+    const j = afterIndexing(tokens, i);
+    if (isPunct(tokens[j], "=") && INDICATOR_CREATORS.has(tokens[j + 1]?.text ?? "")) {
+      if (!created.has(tokens[i].text)) created.set(tokens[i].text, tokens[i].line);
+    }
+  }
+  if (created.size === 0) return [];
+
+  const deinit = functions.find((f) => f.name === "OnDeinit");
+  const used = new Set<string>();
+  const released = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (!isIdent(t) || !created.has(t.text) || isPunct(tokens[i - 1], ".")) continue;
+    const prev = tokens[i - 1];
+    if (isIdent(prev) && !KEYWORDS.has(prev.text)) continue; // declaration
+    if (isPunct(prev, "(") && isIdent(tokens[i - 2], "IndicatorRelease")) {
+      if (deinit && i > deinit.start && i < deinit.end) released.add(t.text);
+      continue;
+    }
+    const j = afterIndexing(tokens, i);
+    const next = tokens[j];
+    if (isPunct(next, "=")) continue; // creation or reset
+    if ((isPunct(next, "==") || isPunct(next, "!=")) && isIdent(tokens[j + 1], "INVALID_HANDLE")) {
+      continue;
+    }
+    used.add(t.text);
+  }
+
+  const issues: MQL5LintIssue[] = [];
+  for (const [name, line] of created) {
+    if (!used.has(name)) {
+      issues.push({
+        rule: "unused-indicator-handle",
+        severity: "warning",
+        message: `Indicator handle "${name}" is created but its values are never read`,
+        line,
+      });
+    }
+    if (!released.has(name)) {
+      issues.push({
+        rule: "missing-indicator-release",
+        severity: "warning",
+        message: `Indicator handle "${name}" is not released with IndicatorRelease() in OnDeinit`,
+        line,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Series direction: arrays filled by CopyBuffer/CopyClose/... are read with index 0 as
+ * the newest bar, which only holds after ArraySetAsSeries(array, true). The flag cannot
+ * be set on fixed-size arrays, so calling it on one silently does nothing.
+ */
+function checkArraySeries({ tokens, all }: Program): MQL5LintIssue[] {
+  const issues: MQL5LintIssue[] = [];
+  const copied = new Map<string, number>();
+  const asSeries = new Set<string>();
+  const isFixed = (name: string) => (all.get(name) ?? []).every((d) => d.fixedArray);
+
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i];
+    if (!isIdent(t) || !isPunct(tokens[i + 1], "(") || isPunct(tokens[i - 1], ".")) continue;
+    const close = matching(tokens, i + 1);
+    if (t.text === "ArraySetAsSeries") {
+      const target = tokens[i + 2];
+      if (!isIdent(target) || !all.has(target.text)) continue;
+      if (isFixed(target.text)) {
+        issues.push({
+          rule: "array-series",
+          severity: "error",
+          message: `ArraySetAsSeries() has no effect on the fixed-size array "${target.text}"`,
+          line: t.line,
+        });
+      } else if (isIdent(tokens[close - 1], "true")) {
+        asSeries.add(target.text);
+      }
+    } else if (SERIES_COPIES.has(t.text)) {
+      // The destination is the last argument when it is a plain array name
+      const dest = tokens[close - 1];
+      if (isIdent(dest) && isPunct(tokens[close - 2], ",") && !copied.has(dest.text)) {
+        copied.set(dest.text, dest.line);
+      }
+    }
+  }
+
+  for (const [name, line] of copied) {
+    if (asSeries.has(name) || !all.has(name) || isFixed(name)) continue;
+    issues.push({
+      rule: "array-series",
+      severity: "warning",
+      message: `"${name}" is filled by a Copy function but never set as series; index 0 is the oldest bar`,
+      line,
+    });
+  }
+  return issues;
+}
+
+/** Lint generated MQL5 source. Issues are ordered by line. */
+export function lintMQL5(source: string): MQL5LintIssue[] {
+  const program = analyse(tokenizeMQL5(source));
+  return [...program.issues, ...checkIndicatorHandles(program), ...checkArraySeries(program)].sort(
+    (a, b) => a.line - b.line
+  );
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import type { BuilderEdge, BuilderNode } from "@/types/builder";
+import {
+  applyLogicGates,
+  collectGatedNodeIds,
+  compileLogicGates,
+  foldLogicExpression,
+} from "./logic-gates";
+import type { LogicExpression } from "./types";
+
+function makeNode(id: string, type: string, data: Record<string, unknown> = {}): BuilderNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { label: type, ...data } } as BuilderNode;
+}
+
+function edge(source: string, target: string, sourceHandle?: string): BuilderEdge {
+  return { id: `${source}-${target}`, source, target, sourceHandle };
+}
+
+const render = (op: string, operands: string[]): string =>
+  op === "NOT" ? `!${operands[0]}` : `(${operands.join(` ${op} `)})`;
+
+describe("compileLogicGates", () => {
+  const nodes = [
+    makeNode("rsi", "rsi", { indicatorType: "rsi" }),
+    makeNode("ma", "moving-average", { indicatorType: "moving-average" }),
+    makeNode("ob", "order-block", { priceActionType: "order-block" }),
+    makeNode("and", "and-gate", { logicType: "AND" }),
+    makeNode("or", "or-gate", { logicType: "OR" }),
+    makeNode("buy", "place-buy", { tradingType: "place-buy" }),
+  ];
+
+  it("builds one tree per root gate with nested gates inline", () => {
+    const roots = compileLogicGates(nodes, [
+      edge("rsi", "and"),
+      edge("ma", "and"),
+      edge("and", "or"),
+      edge("ob", "or"),
+      edge("or", "buy"),
+    ]);
+
+    expect(roots).toEqual([
+      {
+        kind: "gate",
+        op: "OR",
+        inputs: [
+          {
+            kind: "gate",
+            op: "AND",
+            inputs: [
+              { kind: "node", nodeId: "rsi" },
+              { kind: "node", nodeId: "ma" },
+            ],
+          },
+          { kind: "node", nodeId: "ob" },
+        ],
+      },
+    ]);
+  });
+
+  it("falls back to the node type when logicType is missing", () => {
+    const roots = compileLogicGates(
+      [makeNode("rsi", "rsi"), makeNode("n", "not-gate")],
+      [edge("rsi", "n")]
+    );
+
+    expect(roots).toEqual([{ kind: "gate", op: "NOT", inputs: [{ kind: "node", nodeId: "rsi" }] }]);
+  });
+
+  it("negates a condition node's False output", () => {
+    const roots = compileLogicGates(
+      [makeNode("c", "condition", { indicatorType: "condition" }), ...nodes],
+      [edge("c", "or", "false"), edge("ob", "or")]
+    );
+
+    // The unwired AND gate is a root as well
+    expect(roots.find((r) => r.kind === "gate" && r.op === "OR")).toMatchObject({
+      op: "OR",
+      inputs: [
+        { kind: "gate", op: "NOT", inputs: [{ kind: "node", nodeId: "c" }] },
+        { kind: "node", nodeId: "ob" },
+      ],
+    });
+  });
+
+  it("cuts cyclic gate wiring", () => {
+    const roots = compileLogicGates(nodes, [
+      edge("and", "or"),
+      edge("or", "and"),
+      edge("rsi", "and"),
+    ]);
+
+    expect(roots).toEqual([]);
+  });
+
+  it("returns no trees without gates", () => {
+    expect(compileLogicGates(nodes.slice(0, 3), [edge("rsi", "ma")])).toEqual([]);
+  });
+});
+
+describe("foldLogicExpression", () => {
+  const leaf = (id: string) => (id === "empty" ? null : id);
+
+  it("drops empty branches and collapses single-operand gates", () => {
+    const expr: LogicExpression = {
+      kind: "gate",
+      op: "AND",
+      inputs: [
+        { kind: "node", nodeId: "a" },
+        { kind: "gate", op: "OR", inputs: [{ kind: "node", nodeId: "empty" }] },
+      ],
+    };
+
+    expect(foldLogicExpression(expr, leaf, render)).toBe("a");
+  });
+
+  it("negates the AND of several NOT operands", () => {
+    const expr: LogicExpression = {
+      kind: "gate",
+      op: "NOT",
+      inputs: [
+        { kind: "node", nodeId: "a" },
+        { kind: "node", nodeId: "b" },
+      ],
+    };
+
+    expect(foldLogicExpression(expr, leaf, render)).toBe("!(a AND b)");
+  });
+});
+
+describe("applyLogicGates", () => {
+  const root: LogicExpression = {
+    kind: "gate",
+    op: "OR",
+    inputs: [
+      { kind: "node", nodeId: "rsi" },
+      { kind: "node", nodeId: "ob" },
+    ],
+  };
+
+  it("replaces gated conditions with the gate expression and keeps the rest", () => {
+    const result = applyLogicGates(
+      ["pre", "ma", "rsi1", "rsi2", "ob"],
+      [
+        { nodeId: "ma", start: 1 },
+        { nodeId: "rsi", start: 2 },
+        { nodeId: "ob", start: 4 },
+      ],
+      [root],
+      render
+    );
+
+    expect(result).toEqual(["pre", "ma", "((rsi1 AND rsi2) OR ob)"]);
+  });
+
+  it("collects every leaf of the trees", () => {
+    expect([...collectGatedNodeIds([root])]).toEqual(["rsi", "ob"]);
+  });
+});
@@ -0,0 +1,145 @@
+// Logic gates — compile AND/OR/NOT gate nodes into nested boolean expressions
+//
+// Gate inputs are the nodes wired into the gate (indicators, price action, other gates);
+// the gate's output feeds a Buy/Sell node or another gate. Conditions of every node wired
+// into a gate are consumed by that gate, all other conditions keep the flat combination.
+
+import type { BuilderEdge, BuilderNode, LogicGateType } from "@/types/builder";
+import type { LogicExpression } from "./types";
+
+export const LOGIC_GATE_TYPES: Record<string, LogicGateType> = {
+  "and-gate": "AND",
+  "or-gate": "OR",
+  "not-gate": "NOT",
+};
+
+/** Position in a flat condition list where one node's conditions start. */
+export interface ConditionMark {
+  nodeId: string;
+  start: number;
+}
+
+function gateTypeOf(node: BuilderNode): LogicGateType | undefined {
+  const d = node.data as Record<string, unknown>;
+  return (d.logicType as LogicGateType | undefined) ?? LOGIC_GATE_TYPES[node.type as string];
+}
+
+export function isLogicGateNode(node: BuilderNode): boolean {
+  return gateTypeOf(node) !== undefined;
+}
+
+/**
+ * Compile gate nodes into expression trees, one per root gate (a gate that does not
+ * feed another gate). A condition node's False output wired into a gate is negated.
+ * Cyclic gate wiring is cut at the repeated gate.
+ */
+export function compileLogicGates(nodes: BuilderNode[], edges: BuilderEdge[]): LogicExpression[] {
+  const gates = new Map<string, LogicGateType>();
+  const conditionIds = new Set<string>();
+  for (const node of nodes) {
+    const op = gateTypeOf(node);
+    if (op) gates.set(node.id, op);
+    if ((node.data as Record<string, unknown>).indicatorType === "condition") {
+      conditionIds.add(node.id);
+    }
+  }
+  if (gates.size === 0) return [];
+
+  const build = (gateId: string, path: Set<string>): LogicExpression | null => {
+    if (path.has(gateId)) return null;
+    const nextPath = new Set(path).add(gateId);
+    const inputs: LogicExpression[] = [];
+    const seen = new Set<string>();
+    for (const edge of edges) {
+      if (edge.target !== gateId) continue;
+      const key = `${edge.source}:${edge.sourceHandle ?? ""}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (gates.has(edge.source)) {
+        const nested = build(edge.source, nextPath);
+        if (nested) inputs.push(nested);
+        continue;
+      }
+      const leaf: LogicExpression = { kind: "node", nodeId: edge.source };
+      inputs.push(
+        edge.sourceHandle === "false" && conditionIds.has(edge.source)
+          ? { kind: "gate", op: "NOT", inputs: [leaf] }
+          : leaf
+      );
+    }
+    return { kind: "gate", op: gates.get(gateId)!, inputs };
+  };
+
+  const feedsGate = new Set(
+    edges.filter((e) => gates.has(e.source) && gates.has(e.target)).map((e) => e.source)
+  );
+  return [...gates.keys()]
+    .filter((id) => !feedsGate.has(id))
+    .map((id) => build(id, new Set()))
+    .filter((expr): expr is LogicExpression => expr !== null);
+}
+
+/** IDs of all nodes referenced as leaves of the expressions. */
+export function collectGatedNodeIds(roots: LogicExpression[]): Set<string> {
+  const ids = new Set<string>();
+  const walk = (expr: LogicExpression): void => {
+    if (expr.kind === "node") ids.add(expr.nodeId);
+    else expr.inputs.forEach(walk);
+  };
+  roots.forEach(walk);
+  return ids;
+}
+
+/**
+ * Evaluate an expression bottom-up. `leaf` returns null for nodes without conditions;
+ * gates left without operands evaluate to null as well, so empty branches drop out.
+ * Single-operand AND/OR collapse to the operand; NOT over several operands negates their AND.
+ */
+export function foldLogicExpression<T>(
+  expr: LogicExpression,
+  leaf: (nodeId: string) => T | null,
+  combine: (op: LogicGateType, operands: T[]) => T
+): T | null {
+  if (expr.kind === "node") return leaf(expr.nodeId);
+  const operands = expr.inputs
+    .map((input) => foldLogicExpression(input, leaf, combine))
+    .filter((operand): operand is T => operand !== null);
+  if (operands.length === 0) return null;
+  if (expr.op === "NOT") {
+    return combine("NOT", [operands.length === 1 ? operands[0] : combine("AND", operands)]);
+  }
+  return operands.length === 1 ? operands[0] : combine(expr.op, operands);
+}
+
+/**
+ * Replace the conditions of gated nodes in a flat condition list with the compiled
+ * gate expressions. `marks` record, in push order, where each node's conditions start;
+ * conditions before the first mark belong to no node and are always kept. A node with
+ * several conditions enters its gates as their AND.
+ */
+export function applyLogicGates<T>(
+  conditions: T[],
+  marks: ConditionMark[],
+  roots: LogicExpression[],
+  combine: (op: LogicGateType, operands: T[]) => T
+): T[] {
+  const gated = collectGatedNodeIds(roots);
+  const byNode = new Map<string, T[]>();
+  const ungated = conditions.slice(0, marks[0]?.start ?? conditions.length);
+  marks.forEach((mark, i) => {
+    const own = conditions.slice(mark.start, marks[i + 1]?.start ?? conditions.length);
+    if (gated.has(mark.nodeId)) byNode.set(mark.nodeId, own);
+    else ungated.push(...own);
+  });
+
+  const leaf = (nodeId: string): T | null => {
+    const own = byNode.get(nodeId);
+    if (!own || own.length === 0) return null;
+    return own.length === 1 ? own[0] : combine("AND", own);
+  };
+  const gatedConditions = roots
+    .map((root) => foldLogicExpression(root, leaf, combine))
+    .filter((condition): condition is T => condition !== null);
+  return [...ungated, ...gatedConditions];
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import type { BuildJsonSchema, BuilderEdge, BuilderNode, MacroNodeData } from "@/types/builder";
+import { computeStrategyFingerprint } from "@/lib/strategy-identity/fingerprint";
+import { generateMQL5Code } from "./generator";
+import { createMacroDefinition, expandMacroNodes, isMacroNode } from "./macros";
+
+function makeNode(
+  id: string,
+  type: string,
+  data: Record<string, unknown> = {},
+  position = { x: 0, y: 0 }
+): BuilderNode {
+  return { id, type, position, data: { label: type, ...data } } as BuilderNode;
+}
+
+function edge(source: string, target: string, sourceHandle?: string): BuilderEdge {
+  return { id: `${source}-${target}`, source, target, sourceHandle };
+}
+
+const rsi = makeNode(
+  "rsi-1",
+  "rsi",
+  {
+    category: "indicator",
+    indicatorType: "rsi",
+    timeframe: "H1",
+    period: 14,
+    appliedPrice: "CLOSE",
+    overboughtLevel: 70,
+    oversoldLevel: 30,
+  },
+  { x: 100, y: 200 }
+);
+const ma = makeNode(
+  "ma-2",
+  "moving-average",
+  {
+    category: "indicator",
+    indicatorType: "moving-average",
+    timeframe: "H1",
+    period: 50,
+    method: "EMA",
+    appliedPrice: "CLOSE",
+    shift: 0,
+  },
+  { x: 300, y: 260 }
+);
+const and = makeNode(
+  "and-3",
+  "and-gate",
+  { category: "logic", logicType: "AND" },
+  { x: 200, y: 400 }
+);
+const buy = makeNode("buy", "place-buy", {
+  category: "trading",
+  tradingType: "place-buy",
+  method: "FIXED_LOT",
+  fixedLot: 0.1,
+  riskPercent: 1,
+  minLot: 0.01,
+  maxLot: 10,
+});
+
+function macroNode(id: string, params: Record<string, number> = {}): BuilderNode {
+  const data: MacroNodeData = {
+    label: "RSI + EMA",
+    category: "macro",
+    macroType: "macro",
+    macroId: "mac_1",
+    macroName: "RSI + EMA",
+    macroVersion: 1,
+    definition: createMacroDefinition(
+      [rsi, ma, and],
+      [edge("rsi-1", "and-3"), edge("ma-2", "and-3"), edge("and-3", "buy")],
+      [{ nodeId: "rsi-1", field: "period", label: "RSI period" }]
+    ),
+    params,
+  };
+  return makeNode(id, "macro", data, { x: 40, y: 40 });
+}
+
+function makeBuild(nodes: BuilderNode[], edges: BuilderEdge[]): BuildJsonSchema {
+  return {
+    version: "1.3",
+    nodes,
+    edges,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: { createdAt: "2024-01-01T00:00:00Z", updatedAt: "2024-01-01T00:00:00Z" },
+    settings: { magicNumber: 1, comment: "Test", maxOpenTrades: 1, allowHedging: false },
+  };
+}
+
+const fingerprint = (build: BuildJsonSchema) =>
+  computeStrategyFingerprint(build as unknown as Parameters<typeof computeStrategyFingerprint>[0])
+    .fingerprint;
+
+describe("createMacroDefinition", () => {
+  it("normalizes ids and positions and keeps internal edges only", () => {
+    const def = createMacroDefinition(
+      [rsi, ma, and],
+      [edge("rsi-1", "and-3"), edge("ma-2", "and-3"), edge("and-3", "buy")],
+      [
+        { nodeId: "rsi-1", field: "period", label: "RSI period" },
+        { nodeId: "buy", field: "fixedLot", label: "Lot" },
+      ]
+    );
+
+    expect(def.nodes.map((n) => [n.id, n.position])).toEqual([
+      ["m1", { x: 0, y: 0 }],
+      ["m2", { x: 200, y: 60 }],
+      ["m3", { x: 100, y: 200 }],
+    ]);
+    expect(def.edges.map((e) => `${e.source}>${e.target}`)).toEqual(["m1>m3", "m2>m3"]);
+    expect(def.parameters).toEqual([
+      { key: "m1.period", label: "RSI period", nodeId: "m1", field: "period" },
+    ]);
+  });
+});
+
+describe("expandMacroNodes", () => {
+  it("returns null without macro blocks", () => {
+    expect(expandMacroNodes([rsi, buy], [edge("rsi-1", "buy")])).toBeNull();
+  });
+
+  it("inlines inner nodes in place with block-scoped ids and applies parameters", () => {
+    const timing = makeNode("session", "trading-session", { category: "timing" });
+    const result = expandMacroNodes(
+      [timing, macroNode("macro-4", { "m1.period": 21 }), buy],
+      [edge("session", "macro-4"), edge("macro-4", "buy")]
+    )!;
+
+    expect(result.nodes.map((n) => n.id)).toEqual([
+      "session",
+      "macro-4__m1",
+      "macro-4__m2",
+      "macro-4__m3",
+      "buy",
+    ]);
+    expect(result.nodes.some(isMacroNode)).toBe(false);
+    expect((result.nodes[1].data as Record<string, unknown>).period).toBe(21);
+    expect((result.nodes[2].data as Record<string, unknown>).period).toBe(50);
+    expect(result.nodes[2].position).toEqual({ x: 240, y: 100 });
+
+    // Incoming edges reach the entry nodes, outgoing edges leave from the exit node
+    expect(result.edges.map((e) => `${e.source}>${e.target}`)).toEqual([
+      "macro-4__m1>macro-4__m3",
+      "macro-4__m2>macro-4__m3",
+      "session>macro-4__m1",
+      "session>macro-4__m2",
+      "macro-4__m3>buy",
+    ]);
+  });
+});
+
+describe("macro export", () => {
+  const handBuilt = makeBuild(
+    [rsi, ma, and, buy],
+    [edge("rsi-1", "and-3"), edge("ma-2", "and-3"), edge("and-3", "buy")]
+  );
+
+  it("generates the same code as the equivalent hand-built nodes", () => {
+    const withMacro = makeBuild([macroNode("macro-9"), buy], [edge("macro-9", "buy")]);
+
+    expect(generateMQL5Code(withMacro, "Test")).toBe(generateMQL5Code(handBuilt, "Test"));
+  });
+
+  it("keeps the fingerprint of the expanded strategy", () => {
+    const withMacro = makeBuild([macroNode("macro-9"), buy], [edge("macro-9", "buy")]);
+    const renamed = makeBuild(
+      [
+        {
+          ...macroNode("macro-12"),
+          data: { ...macroNode("macro-12").data, macroId: "mac_2", expanded: true },
+        } as BuilderNode,
+        buy,
+      ],
+      [edge("macro-12", "buy")]
+    );
+
+    const fp = fingerprint(withMacro);
+    expect(fingerprint(renamed)).toBe(fp);
+    expect(fingerprint(handBuilt)).toBe(fp);
+    expect(
+      fingerprint(
+        makeBuild([macroNode("macro-9", { "m1.period": 7 }), buy], [edge("macro-9", "buy")])
+      )
+    ).not.toBe(fp);
+  });
+});
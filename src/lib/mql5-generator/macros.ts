@@ -0,0 +1,187 @@
+// Macros — user-saved groups of nodes placed on the canvas as a single block
+//
+// A macro block carries a snapshot of its definition (inner nodes + internal edges) and the
+// values of its exposed parameters. Before code generation the block is expanded inline:
+// inner nodes take the block's place in node order with ids `<blockId>__<innerId>`, so the
+// index-based variable names the generators assign stay the same from export to export.
+// Edges into the block attach to its entry nodes (no internal incoming edge), edges out of
+// the block leave from its exit nodes (no internal outgoing edge).
+
+import type {
+  BuilderEdge,
+  BuilderNode,
+  MacroDefinition,
+  MacroNodeData,
+  MacroParameter,
+} from "@/types/builder";
+
+/** Separator between the macro block id and the inner node id of expanded nodes */
+export const MACRO_ID_SEPARATOR = "__";
+
+/** A node field the user chose to expose when saving a macro */
+export interface MacroExposedField {
+  nodeId: string;
+  field: string;
+  label: string;
+}
+
+export function isMacroNode(node: BuilderNode): boolean {
+  return (node.data as Record<string, unknown>).macroType === "macro";
+}
+
+/**
+ * Build a macro definition from a canvas selection. Inner node ids are normalized to
+ * m1, m2, ... in selection order, positions are made relative to the selection's
+ * top-left corner, and only edges between selected nodes are kept.
+ * Fields exposed on nodes outside the selection are dropped.
+ */
+export function createMacroDefinition(
+  nodes: BuilderNode[],
+  edges: BuilderEdge[],
+  exposed: MacroExposedField[] = []
+): MacroDefinition {
+  const idMap = new Map(nodes.map((n, i) => [n.id, `m${i + 1}`]));
+  const minX = Math.min(...nodes.map((n) => n.position.x));
+  const minY = Math.min(...nodes.map((n) => n.position.y));
+
+  const innerNodes = nodes.map(
+    (n) =>
+      ({
+        id: idMap.get(n.id)!,
+        type: n.type,
+        position: { x: n.position.x - minX, y: n.position.y - minY },
+        data: { ...n.data },
+      }) as BuilderNode
+  );
+
+  const innerEdges: BuilderEdge[] = [];
+  for (const e of edges) {
+    const source = idMap.get(e.source);
+    const target = idMap.get(e.target);
+    if (!source || !target) continue;
+    innerEdges.push({
+      id: `e${innerEdges.length + 1}`,
+      source,
+      target,
+      ...(e.sourceHandle ? { sourceHandle: e.sourceHandle } : {}),
+      ...(e.targetHandle ? { targetHandle: e.targetHandle } : {}),
+    });
+  }
+
+  const parameters: MacroParameter[] = [];
+  for (const f of exposed) {
+    const nodeId = idMap.get(f.nodeId);
+    if (!nodeId) continue;
+    const key = `${nodeId}.${f.field}`;
+    if (parameters.some((p) => p.key === key)) continue;
+    parameters.push({ key, label: f.label, nodeId, field: f.field });
+  }
+
+  return { nodes: innerNodes, edges: innerEdges, parameters };
+}
+
+/** Current value of every exposed parameter: the block's override or the saved value. */
+export function resolveMacroParams(data: MacroNodeData): Record<string, unknown> {
+  const { nodes = [], parameters = [] } = data.definition ?? {};
+  const values: Record<string, unknown> = {};
+  for (const p of parameters) {
+    const inner = nodes.find((n) => n.id === p.nodeId);
+    values[p.key] = data.params?.[p.key] ?? (inner?.data as Record<string, unknown>)?.[p.field];
+  }
+  return values;
+}
+
+/**
+ * Expand every macro block into its inner nodes and edges. Returns null when the graph
+ * has no macro blocks. Macro blocks nested inside a definition are not expanded —
+ * saving such a definition is rejected.
+ */
+export function expandMacroNodes(
+  nodes: BuilderNode[],
+  edges: BuilderEdge[]
+): { nodes: BuilderNode[]; edges: BuilderEdge[] } | null {
+  if (!nodes.some(isMacroNode)) return null;
+
+  const newNodes: BuilderNode[] = [];
+  const newEdges: BuilderEdge[] = [];
+  const entries = new Map<string, string[]>();
+  const exits = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    if (!isMacroNode(node)) {
+      newNodes.push(node);
+      continue;
+    }
+
+    const data = node.data as MacroNodeData;
+    const {
+      nodes: innerNodes = [],
+      edges: innerEdges = [],
+      parameters = [],
+    } = data.definition ?? {};
+    const params = resolveMacroParams(data);
+    const innerId = (id: string) => `${node.id}${MACRO_ID_SEPARATOR}${id}`;
+
+    for (const inner of innerNodes) {
+      const innerData: Record<string, unknown> = { ...inner.data };
+      for (const p of parameters) {
+        if (p.nodeId === inner.id && params[p.key] !== undefined) {
+          innerData[p.field] = params[p.key];
+        }
+      }
+      newNodes.push({
+        ...inner,
+        id: innerId(inner.id),
+        position: {
+          x: node.position.x + inner.position.x,
+          y: node.position.y + inner.position.y,
+        },
+        data: innerData,
+      } as BuilderNode);
+    }
+
+    for (const e of innerEdges) {
+      newEdges.push({
+        ...e,
+        id: innerId(e.id),
+        source: innerId(e.source),
+        target: innerId(e.target),
+      });
+    }
+
+    entries.set(
+      node.id,
+      innerNodes.filter((n) => !innerEdges.some((e) => e.target === n.id)).map((n) => innerId(n.id))
+    );
+    exits.set(
+      node.id,
+      innerNodes.filter((n) => !innerEdges.some((e) => e.source === n.id)).map((n) => innerId(n.id))
+    );
+  }
+
+  for (const edge of edges) {
+    const sources = exits.get(edge.source);
+    const targets = entries.get(edge.target);
+    if (!sources && !targets) {
+      newEdges.push(edge);
+      continue;
+    }
+
+    // Handles only make sense on the end that is not a macro block
+    const pairs: Array<[string, string]> = [];
+    for (const source of sources ?? [edge.source]) {
+      for (const target of targets ?? [edge.target]) pairs.push([source, target]);
+    }
+    pairs.forEach(([source, target], i) => {
+      newEdges.push({
+        id: pairs.length === 1 ? edge.id : `${edge.id}${MACRO_ID_SEPARATOR}${i + 1}`,
+        source,
+        target,
+        ...(!sources && edge.sourceHandle ? { sourceHandle: edge.sourceHandle } : {}),
+        ...(!targets && edge.targetHandle ? { targetHandle: edge.targetHandle } : {}),
+      });
+    });
+  }
+
+  return { nodes: newNodes, edges: newEdges };
+}
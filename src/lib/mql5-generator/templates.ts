@@ -333,7 +333,7 @@ ${tickCode.map((line) => "      " + line).join("\n")}
 `;
 }
 
-interface RiskManagementCode {
+export interface RiskManagementCode {
   dailyPnlCode: string;
   totalDrawdownCode: string;
   equityTargetCode: string;
@@ -341,7 +341,7 @@ interface RiskManagementCode {
   minBarsCode: string;
 }
 
-function buildRiskManagementCode(ctx: GeneratorContext): RiskManagementCode {
+export function buildRiskManagementCode(ctx: GeneratorContext): RiskManagementCode {
   let dailyPnlCode = "";
   if (ctx.maxDailyProfitPercent > 0 || ctx.maxDailyLossPercent > 0) {
     dailyPnlCode = `
@@ -1088,7 +1088,7 @@ double CalculateLotSize(string sym, double riskPercent, double slPips)
 }`;
 }
 
-function generateSharedHelperFunctions(): string {
+export function generateSharedHelperFunctions(): string {
   return `//+------------------------------------------------------------------+
 //| Epsilon-safe double comparisons                                    |
 //+------------------------------------------------------------------+
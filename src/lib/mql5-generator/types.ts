@@ -1,9 +1,17 @@
 // Types for MQL5 code generation
 
-import type { Timeframe } from "@/types/builder";
+import type { LogicGateType, Timeframe } from "@/types/builder";
 
 export type { Timeframe };
 
+/**
+ * Entry condition tree compiled from logic gate nodes.
+ * Leaves reference the indicator / price action nodes whose conditions they stand for.
+ */
+export type LogicExpression =
+  | { kind: "node"; nodeId: string }
+  | { kind: "gate"; op: LogicGateType; inputs: LogicExpression[] };
+
 export interface GeneratorContext {
   projectName: string;
   description: string;
@@ -14,6 +22,8 @@ export interface GeneratorContext {
   maxBuyPositions: number;
   maxSellPositions: number;
   conditionMode: "AND" | "OR";
+  /** Root expressions of the logic gate graph; conditions of gated nodes are combined only through these */
+  entryLogic?: LogicExpression[];
   maxTradesPerDay: number;
   maxDailyProfitPercent: number;
   maxDailyLossPercent: number;
@@ -21,6 +31,8 @@ export interface GeneratorContext {
   minBarsBetweenTrades: number;
   maxTotalDrawdownPercent: number;
   equityTargetPercent: number;
+  /** Closed-trade MA period of the equity curve filter; 0 = disabled */
+  equityCurveMaPeriod: number;
   maxSlippage: number;
   /** Symbol variable name in generated MQL code. Defaults to "_Symbol", becomes "tradeSym" in multi-pair mode. */
   symbolVar: string;
@@ -88,6 +100,12 @@ export interface GeneratedCode {
   slMethod?: string;
   /** Tracks the TP method used (e.g. RISK_REWARD) for direction-aware sell TP */
   tpMethod?: string;
+  /** Risk amount (and ATR distance for volatility sizing) per side, so pending orders size with it */
+  riskAmountSizing?: Partial<Record<"Buy" | "Sell", { amount: string; distance?: string }>>;
+  /** When true, timing windows set a `riskScale` multiplier that every lot size is scaled by */
+  hasRiskScale?: boolean;
+  /** Conditions ANDed onto buyCondition/sellCondition in any condition mode (e.g. HTF bias) */
+  directionGates?: { buy: string[]; sell: string[] };
   /** Tracks the max indicator period to calculate minimum bars needed in OnTick */
   maxIndicatorPeriod: number;
   /** Per-position management function calls for the consolidated ManageOpenPositions loop */
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildEmbeddedNewsData, generateEmbeddedNewsData } from "./news-calendar";
+
+describe("buildEmbeddedNewsData", () => {
+  it("is the synthetic schedule when nothing is imported", () => {
+    const data = buildEmbeddedNewsData(2024, 2024);
+    expect(data.entries).toEqual(generateEmbeddedNewsData(2024, 2024));
+    expect(data.importedCount).toBe(0);
+  });
+
+  const january = (currency: string, importance: number) => ({
+    currency,
+    importance,
+    start: new Date("2024-01-01T00:00:00Z"),
+    end: new Date("2024-01-31T23:59:59.999Z"),
+  });
+
+  it("replaces synthetic events only inside the covered range", () => {
+    const data = buildEmbeddedNewsData(2024, 2024, {
+      events: [
+        // NFP moved by a holiday: the real date, not the first Friday
+        { time: new Date("2024-01-05T13:30:00Z"), currency: "USD", importance: 3 },
+        { time: new Date("2024-01-05T13:30:00Z"), currency: "USD", importance: 3 },
+        { time: new Date("2024-01-10T10:00:00Z"), currency: "EUR", importance: 1 },
+        // Outside every covered range
+        { time: new Date("2024-03-01T10:00:00Z"), currency: "EUR", importance: 3 },
+      ],
+      coverage: [january("USD", 3), january("EUR", 1)],
+    });
+
+    const covered = data.entries.filter(
+      (e) => e.startsWith("2024.01.") && (e.endsWith(",3,USD") || e.endsWith(",1,EUR"))
+    );
+    expect(covered).toEqual(["2024.01.05 13:30,3,USD", "2024.01.10 10:00,1,EUR"]);
+    expect(data.importedCount).toBe(2);
+    expect(data.entries).not.toContain("2024.03.01 10:00,3,EUR");
+
+    const februarySynthetic = generateEmbeddedNewsData(2024, 2024).filter((e) =>
+      e.startsWith("2024.02.")
+    );
+    expect(februarySynthetic.length).toBeGreaterThan(0);
+    expect(data.entries.filter((e) => e.startsWith("2024.02."))).toEqual(februarySynthetic);
+    expect(data.entries).toEqual([...data.entries].sort());
+  });
+
+  it("keeps synthetic events of currencies and impact levels the import does not cover", () => {
+    const synthetic = generateEmbeddedNewsData(2024, 2024);
+    const data = buildEmbeddedNewsData(2024, 2024, {
+      events: [
+        { time: new Date("2024-01-05T13:30:00Z"), currency: "USD", importance: 3 },
+        { time: new Date("2024-01-31T19:00:00Z"), currency: "USD", importance: 3 },
+      ],
+      coverage: [january("USD", 3)],
+    });
+
+    const eurJanuary = synthetic.filter((e) => e.startsWith("2024.01.") && e.endsWith(",EUR"));
+    expect(eurJanuary.length).toBeGreaterThan(0);
+    for (const entry of eurJanuary) expect(data.entries).toContain(entry);
+
+    const usdOther = synthetic.filter(
+      (e) => e.startsWith("2024.01.") && e.endsWith(",USD") && !e.endsWith(",3,USD")
+    );
+    for (const entry of usdOther) expect(data.entries).toContain(entry);
+
+    const usdHigh = data.entries.filter((e) => e.startsWith("2024.01.") && e.endsWith(",3,USD"));
+    expect(usdHigh).toEqual(["2024.01.05 13:30,3,USD", "2024.01.31 19:00,3,USD"]);
+  });
+});
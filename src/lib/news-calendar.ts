@@ -389,3 +389,94 @@ export function generateEmbeddedNewsData(startYear: number, endYear: number): st
 
   return allEvents;
 }
+
+// --- Imported calendars ---
+
+/** Years embedded in exported EAs for backtesting */
+export const EMBEDDED_NEWS_START_YEAR = 2015;
+export const EMBEDDED_NEWS_END_YEAR = 2030;
+
+/** An event from an uploaded economic calendar, times in UTC */
+export interface ImportedNewsEvent {
+  time: Date;
+  currency: string;
+  importance: number; // 1=low, 2=medium, 3=high
+}
+
+/**
+ * Date range an import covers for one currency and impact level (inclusive, UTC).
+ * A file that only lists high-impact USD releases says nothing about EUR or medium-impact USD.
+ */
+export interface ImportedNewsCoverage {
+  currency: string;
+  importance: number;
+  start: Date;
+  end: Date;
+}
+
+/** Imported events plus the ranges the imports cover */
+export interface ImportedNewsCalendar {
+  events: ImportedNewsEvent[];
+  coverage: ImportedNewsCoverage[];
+}
+
+export interface EmbeddedNewsData {
+  entries: string[];
+  importedCount: number;
+  syntheticCount: number;
+}
+
+/** Parse a "YYYY.MM.DD HH:MM,importance,CURRENCY" entry back to its parts */
+function parseEntry(entry: string): { time: number; importance: number; currency: string } {
+  const [y, m, d, h, min] = entry.slice(0, 16).split(/[. :]/).map(Number);
+  const [, importance, currency] = entry.split(",");
+  return { time: Date.UTC(y, m - 1, d, h, min), importance: Number(importance), currency };
+}
+
+/**
+ * Embedded news data with imported calendar events where an import covers the date.
+ * A synthetic event is only dropped when an import covers its currency and impact level
+ * on that date, so real dates are never mixed with rule-based guesses for the same
+ * release. Same format and order as generateEmbeddedNewsData.
+ */
+export function buildEmbeddedNewsData(
+  startYear: number,
+  endYear: number,
+  imported?: ImportedNewsCalendar
+): EmbeddedNewsData {
+  const synthetic = generateEmbeddedNewsData(startYear, endYear);
+  if (!imported || imported.coverage.length === 0) {
+    return { entries: synthetic, importedCount: 0, syntheticCount: synthetic.length };
+  }
+
+  const rangeStart = Date.UTC(startYear, 0, 1);
+  const rangeEnd = Date.UTC(endYear + 1, 0, 1) - 1;
+  const covered = (t: number, currency: string, importance: number) =>
+    imported.coverage.some(
+      (c) =>
+        c.currency === currency &&
+        c.importance === importance &&
+        t >= c.start.getTime() &&
+        t <= c.end.getTime()
+    );
+
+  // Overlapping imports (e.g. a personal and a global file) repeat the same events
+  const importedEntries = new Set<string>();
+  for (const e of imported.events) {
+    const t = e.time.getTime();
+    if (t < rangeStart || t > rangeEnd || !covered(t, e.currency, e.importance)) continue;
+    importedEntries.add(
+      `${formatMQL5Date(e.time, e.time.getUTCHours(), e.time.getUTCMinutes())},${e.importance},${e.currency}`
+    );
+  }
+  const kept = synthetic.filter((entry) => {
+    const { time, currency, importance } = parseEntry(entry);
+    return !covered(time, currency, importance);
+  });
+
+  return {
+    entries: [...importedEntries, ...kept].sort(),
+    importedCount: importedEntries.size,
+    syntheticCount: kept.length,
+  };
+}
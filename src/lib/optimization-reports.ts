@@ -0,0 +1,146 @@
+/**
+ * Optimization report loaders — tie stored MT5 optimization passes back to a project.
+ *
+ * The analysis itself is pure (backtest-parser/parameter-sensitivity, proof/parameter-plateau);
+ * this module only fetches the report and regenerates the project's inputs.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { logger } from "@/lib/logger";
+import { migrateProjectData } from "@/lib/migrations";
+import { buildJsonSchema } from "@/lib/validations";
+import { buildStrategyCode } from "@/lib/mql5-generator/generator";
+import type { OptimizableInput } from "@/lib/mql5-generator/types";
+import type { OptimizationPass } from "@/lib/backtest-parser/types";
+import { scoreParameterPlateau, type ParameterPlateauScore } from "@/lib/proof/parameter-plateau";
+import type { BuildJsonSchema } from "@/types/builder";
+
+interface ProjectVersionSource {
+  id: string;
+  name: string;
+  versions: Array<{ buildJson: unknown }>;
+}
+
+interface StoredReport {
+  id: string;
+  inputNames: unknown;
+  passes: unknown;
+}
+
+function projectSelect(versionId?: string) {
+  return {
+    id: true,
+    name: true,
+    versions: versionId
+      ? { where: { id: versionId }, select: { buildJson: true } }
+      : { orderBy: { versionNo: "desc" as const }, take: 1, select: { buildJson: true } },
+  };
+}
+
+function generateProjectInputs(project: ProjectVersionSource): OptimizableInput[] | null {
+  if (project.versions.length === 0) return null;
+
+  const validation = buildJsonSchema.safeParse(migrateProjectData(project.versions[0].buildJson));
+  if (!validation.success) return null;
+
+  const { code } = buildStrategyCode(
+    validation.data as BuildJsonSchema,
+    project.name,
+    undefined,
+    project.id
+  );
+  return code.inputs;
+}
+
+/**
+ * Inputs the generator emits for one of the project's versions (the latest by default) —
+ * the names MT5 uses as optimization report columns. Returns null when the project has
+ * no such valid saved version.
+ */
+export async function loadProjectInputs(
+  projectId: string,
+  versionId?: string
+): Promise<OptimizableInput[] | null> {
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deletedAt: null },
+    select: projectSelect(versionId),
+  });
+  return project ? generateProjectInputs(project) : null;
+}
+
+function scoreReport(
+  report: StoredReport,
+  projectId: string,
+  project: ProjectVersionSource | null
+): ParameterPlateauScore | null {
+  // Without the project's inputs the score anchors on the best pass instead
+  let chosenInputs: Record<string, number | string | boolean> = {};
+  try {
+    const inputs = project ? generateProjectInputs(project) : null;
+    chosenInputs = Object.fromEntries((inputs ?? []).map((i) => [i.name, i.value]));
+  } catch (err) {
+    logger.warn({ err, projectId, reportId: report.id }, "Failed to generate project inputs");
+  }
+
+  return scoreParameterPlateau(
+    {
+      inputNames: report.inputNames as string[],
+      passes: report.passes as unknown as OptimizationPass[],
+    },
+    chosenInputs
+  );
+}
+
+/**
+ * Plateau score of one of the project's versions (the latest by default) against its latest
+ * optimization report. Returns null when no report has been uploaded for the project.
+ */
+export async function loadParameterPlateau(
+  projectId: string,
+  versionId?: string
+): Promise<ParameterPlateauScore | null> {
+  const report = await prisma.optimizationReport.findFirst({
+    where: { projectId },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, inputNames: true, passes: true },
+  });
+  if (!report) return null;
+
+  const project = await prisma.project.findFirst({
+    where: { id: projectId, deletedAt: null },
+    select: projectSelect(versionId),
+  });
+  return scoreReport(report, projectId, project);
+}
+
+/**
+ * loadParameterPlateau for many projects in two queries. Projects without a report
+ * are missing from the map.
+ */
+export async function loadParameterPlateaus(
+  projectIds: string[]
+): Promise<Map<string, ParameterPlateauScore | null>> {
+  const scores = new Map<string, ParameterPlateauScore | null>();
+  if (projectIds.length === 0) return scores;
+
+  // Newest report per project
+  const reports = await prisma.optimizationReport.findMany({
+    where: { projectId: { in: projectIds } },
+    orderBy: { createdAt: "desc" },
+    distinct: ["projectId"],
+    select: { id: true, projectId: true, inputNames: true, passes: true },
+  });
+  if (reports.length === 0) return scores;
+
+  const projects = await prisma.project.findMany({
+    where: { id: { in: reports.map((r) => r.projectId!) }, deletedAt: null },
+    select: projectSelect(),
+  });
+  const byId = new Map(projects.map((p) => [p.id, p]));
+
+  for (const report of reports) {
+    const projectId = report.projectId!;
+    scores.set(projectId, scoreReport(report, projectId, byId.get(projectId) ?? null));
+  }
+  return scores;
+}
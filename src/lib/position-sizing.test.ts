@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  kellyFraction,
+  kellyRiskPercent,
+  previewLotSize,
+  sizingRiskAmount,
+  type PositionSizingParams,
+} from "./position-sizing";
+
+const base: PositionSizingParams = { method: "RISK_PERCENT", fixedLot: 0.1, riskPercent: 1 };
+const market = { balance: 10000, distancePips: 50, pipValue: 10 };
+
+describe("kellyFraction", () => {
+  it("computes (W*R - L) / R", () => {
+    // 55% wins at 1.5R: (0.55 * 1.5 - 0.45) / 1.5 = 0.25
+    expect(kellyFraction(55, 1.5)).toBeCloseTo(0.25);
+  });
+
+  it("is 0 without an edge", () => {
+    expect(kellyFraction(40, 1)).toBe(0);
+    expect(kellyFraction(60, 0)).toBe(0);
+  });
+});
+
+describe("kellyRiskPercent", () => {
+  it("scales the Kelly fraction and caps it", () => {
+    const params = { ...base, method: "KELLY" as const, kellyWinRate: 55, kellyPayoffRatio: 1.5 };
+    expect(kellyRiskPercent({ ...params, kellyFraction: 0.05, kellyCapPercent: 5 })).toBeCloseTo(
+      1.25
+    );
+    expect(kellyRiskPercent({ ...params, kellyFraction: 0.5, kellyCapPercent: 2 })).toBe(2);
+  });
+});
+
+describe("sizingRiskAmount", () => {
+  it("returns the money risked per method", () => {
+    expect(sizingRiskAmount({ ...base, method: "FIXED_LOT" }, 10000)).toBeNull();
+    expect(sizingRiskAmount(base, 10000)).toBe(100);
+    expect(
+      sizingRiskAmount({ ...base, method: "VOLATILITY_TARGET", volTargetPercent: 0.5 }, 10000)
+    ).toBe(50);
+    expect(
+      sizingRiskAmount({ ...base, method: "FIXED_FRACTIONAL_STEP", equityStep: 5000 }, 14999)
+    ).toBe(100);
+    expect(sizingRiskAmount({ ...base, method: "FIXED_MONEY", riskAmount: 250 }, 10000)).toBe(250);
+  });
+});
+
+describe("previewLotSize", () => {
+  it("divides the risk amount by the distance and pip value", () => {
+    // $100 over 50 pips at $10/pip
+    expect(previewLotSize(base, market)).toBe(0.2);
+    expect(previewLotSize({ ...base, riskPercent: 1.5 }, market)).toBe(0.3);
+  });
+
+  it("floors to the lot step and clamps to the lot limits", () => {
+    expect(previewLotSize({ ...base, method: "FIXED_MONEY", riskAmount: 149 }, market)).toBe(0.29);
+    expect(previewLotSize(base, { ...market, lotStep: 0.1 })).toBe(0.2);
+    expect(previewLotSize(base, { ...market, maxLot: 0.1 })).toBe(0.1);
+    expect(previewLotSize({ ...base, riskPercent: 0.001 }, market)).toBe(0.01);
+  });
+
+  it("opens the minimum lot without a distance and the fixed lot for FIXED_LOT", () => {
+    expect(previewLotSize(base, { ...market, distancePips: 0, minLot: 0.05 })).toBe(0.05);
+    expect(previewLotSize({ ...base, method: "FIXED_LOT", fixedLot: 0.7 }, market)).toBe(0.7);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Lot sizing math shared by the risk calculator preview and builder validation.
+ * Mirrors the generated MQL5 (CalculateLotSize / RiskAmountLotSize in the EA), so
+ * the lot size a user previews is the one the EA opens for the same inputs.
+ *
+ * Every risk-based method reduces to a money amount lost over a distance in pips:
+ *   lots = riskAmount / (distancePips * pipValuePerLot), floored to the lot step
+ */
+
+import type { PositionSizingMethod } from "@/types/builder";
+
+export interface PositionSizingParams {
+  method: PositionSizingMethod;
+  fixedLot: number;
+  riskPercent: number;
+  /** VOLATILITY_TARGET: % of balance one ATR move against the position costs */
+  volTargetPercent?: number;
+  /** FIXED_FRACTIONAL_STEP: balance is rounded down to this step before risk % applies */
+  equityStep?: number;
+  /** KELLY: historical win rate in percent */
+  kellyWinRate?: number;
+  /** KELLY: average win divided by average loss */
+  kellyPayoffRatio?: number;
+  /** KELLY: share of the full Kelly fraction to use (0.5 = half Kelly) */
+  kellyFraction?: number;
+  /** KELLY: maximum risk % per trade */
+  kellyCapPercent?: number;
+  /** FIXED_MONEY: account currency risked per trade */
+  riskAmount?: number;
+}
+
+export interface LotSizeMarket {
+  balance: number;
+  /** Stop loss distance; ATR for VOLATILITY_TARGET */
+  distancePips: number;
+  /** Account currency per pip for 1.0 lot */
+  pipValue: number;
+  lotStep?: number;
+  minLot?: number;
+  maxLot?: number;
+}
+
+export const DEFAULT_SIZING_PARAMS = {
+  volTargetPercent: 1,
+  volAtrPeriod: 14,
+  equityStep: 1000,
+  kellyWinRate: 50,
+  kellyPayoffRatio: 1.5,
+  kellyFraction: 0.5,
+  kellyCapPercent: 2,
+  riskAmount: 100,
+} as const;
+
+/** Full Kelly fraction f* = (W*R - L) / R for win rate W and payoff ratio R; 0 without an edge */
+export function kellyFraction(winRatePercent: number, payoffRatio: number): number {
+  if (payoffRatio <= 0) return 0;
+  const w = winRatePercent / 100;
+  return Math.max(0, (w * payoffRatio - (1 - w)) / payoffRatio);
+}
+
+/** Risk % per trade of the KELLY method: the scaled Kelly fraction, capped */
+export function kellyRiskPercent(params: PositionSizingParams): number {
+  const f = kellyFraction(
+    params.kellyWinRate ?? DEFAULT_SIZING_PARAMS.kellyWinRate,
+    params.kellyPayoffRatio ?? DEFAULT_SIZING_PARAMS.kellyPayoffRatio
+  );
+  const scaled = f * (params.kellyFraction ?? DEFAULT_SIZING_PARAMS.kellyFraction) * 100;
+  return Math.min(params.kellyCapPercent ?? DEFAULT_SIZING_PARAMS.kellyCapPercent, scaled);
+}
+
+/** Money risked per trade, or null for FIXED_LOT which does not size from risk */
+export function sizingRiskAmount(params: PositionSizingParams, balance: number): number | null {
+  switch (params.method) {
+    case "FIXED_LOT":
+      return null;
+    case "RISK_PERCENT":
+      return (balance * params.riskPercent) / 100;
+    case "VOLATILITY_TARGET":
+      return (balance * (params.volTargetPercent ?? DEFAULT_SIZING_PARAMS.volTargetPercent)) / 100;
+    case "FIXED_FRACTIONAL_STEP": {
+      const step = params.equityStep ?? DEFAULT_SIZING_PARAMS.equityStep;
+      const stepped = step > 0 ? Math.floor(balance / step) * step : balance;
+      return (stepped * params.riskPercent) / 100;
+    }
+    case "KELLY":
+      return (balance * kellyRiskPercent(params)) / 100;
+    case "FIXED_MONEY":
+      return params.riskAmount ?? DEFAULT_SIZING_PARAMS.riskAmount;
+  }
+}
+
+/**
+ * Lot size for one trade. Like the EA, a size below the minimum (or a missing
+ * distance) opens the minimum lot, and sizes are floored to the lot step.
+ */
+export function previewLotSize(params: PositionSizingParams, market: LotSizeMarket): number {
+  const lotStep = market.lotStep ?? 0.01;
+  const minLot = market.minLot ?? 0.01;
+  const maxLot = market.maxLot ?? 100;
+  const amount = sizingRiskAmount(params, market.balance);
+
+  let lots: number;
+  if (amount === null) {
+    lots = params.fixedLot;
+  } else if (amount <= 0 || market.distancePips <= 0 || market.pipValue <= 0) {
+    lots = minLot;
+  } else {
+    // Round before flooring so 0.3 / 0.01 does not land on 29.999...
+    const steps = Math.floor(
+      Math.round((amount / (market.distancePips * market.pipValue) / lotStep) * 1e6) / 1e6
+    );
+    lots = steps * lotStep;
+  }
+  const clamped = Math.max(minLot, Math.min(maxLot, lots));
+  const digits = Math.max(0, Math.round(-Math.log10(lotStep)));
+  return Number(clamped.toFixed(digits));
+}
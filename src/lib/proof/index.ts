@@ -29,3 +29,5 @@ export {
   type PreLiveAction,
   type GateResult,
 } from "./pre-live-check";
+
+export { scoreParameterPlateau, type ParameterPlateauScore } from "./parameter-plateau";
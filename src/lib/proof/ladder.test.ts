@@ -18,6 +18,7 @@ function makeInput(overrides: Partial<LadderInput> = {}): LadderInput {
     backtestHealthScore: 75,
     monteCarloSurvival: 0.85,
     backtestTrades: 200,
+    parameterPlateauRetention: null,
     hasLiveChain: true,
     liveTrades: 100,
     chainIntegrity: true,
@@ -104,6 +105,25 @@ describe("computeLadderLevel", () => {
       ).toBe("VALIDATED");
     });
 
+    it("requires parameterPlateauRetention >= 0.8 when optimization passes exist", () => {
+      expect(
+        computeLadderLevel(makeInput({ parameterPlateauRetention: 0.79, hasLiveChain: false }))
+      ).toBe("SUBMITTED");
+      expect(
+        computeLadderLevel(
+          makeInput({ parameterPlateauRetention: 0.8, hasLiveChain: false, liveTrades: 0 })
+        )
+      ).toBe("VALIDATED");
+    });
+
+    it("does not require a plateau score without optimization data", () => {
+      expect(
+        computeLadderLevel(
+          makeInput({ parameterPlateauRetention: null, hasLiveChain: false, liveTrades: 0 })
+        )
+      ).toBe("VALIDATED");
+    });
+
     it("requires monteCarloSurvival to be non-null", () => {
       expect(computeLadderLevel(makeInput({ monteCarloSurvival: null, hasLiveChain: false }))).toBe(
         "SUBMITTED"
@@ -235,6 +255,7 @@ describe("DEFAULT_THRESHOLDS", () => {
     expect(DEFAULT_THRESHOLDS.VALIDATED_MIN_SCORE).toBe(50);
     expect(DEFAULT_THRESHOLDS.VALIDATED_MIN_SURVIVAL).toBe(0.7);
     expect(DEFAULT_THRESHOLDS.MIN_TRADES_VALIDATION).toBe(100);
+    expect(DEFAULT_THRESHOLDS.VALIDATED_MIN_PLATEAU_RETENTION).toBe(0.8);
     expect(DEFAULT_THRESHOLDS.MIN_LIVE_TRADES_VERIFIED).toBe(50);
     expect(DEFAULT_THRESHOLDS.MIN_LIVE_DAYS_PROVEN).toBe(90);
     expect(DEFAULT_THRESHOLDS.PROVEN_MAX_DRAWDOWN_PCT).toBe(30);
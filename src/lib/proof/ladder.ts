@@ -4,6 +4,7 @@
  * Levels (ascending trust):
  *   SUBMITTED      — has backtest data or project configuration
  *   VALIDATED      — health score + Monte Carlo survival above thresholds + min trades
+ *                    + chosen parameters on a plateau (when optimization passes exist)
  *   VERIFIED       — live trade hash chain active with min live trades + integrity checks pass
  *   PROVEN         — verified for min days + stability maintained + drawdown within limits
  *   INSTITUTIONAL  — disabled (future: third-party audit)
@@ -21,6 +22,7 @@ export const DEFAULT_THRESHOLDS = {
   VALIDATED_MIN_SCORE: 50, // BacktestRun.healthScore minimum
   VALIDATED_MIN_SURVIVAL: 0.7, // Monte Carlo survival rate (0–1)
   MIN_TRADES_VALIDATION: 100, // Minimum trades in backtest
+  VALIDATED_MIN_PLATEAU_RETENTION: 0.8, // Share of the chosen pass result kept by neighbouring passes (0–1)
   MIN_LIVE_TRADES_VERIFIED: 50, // Minimum live trades for VERIFIED
   MIN_LIVE_DAYS_PROVEN: 90, // Minimum live days for PROVEN
   PROVEN_MAX_DRAWDOWN_PCT: 30, // Max drawdown % allowed for PROVEN
@@ -57,6 +59,11 @@ export interface LadderInput {
   monteCarloSurvival: number | null;
   /** Total trades in the backtest */
   backtestTrades: number;
+  /**
+   * Median share of the chosen parameter set's result kept by optimization passes one
+   * grid step away (0–1), null if no optimization report is available or it is too sparse
+   */
+  parameterPlateauRetention: number | null;
   /** Is live trade hash chain enabled (TrackRecordState exists)? */
   hasLiveChain: boolean;
   /** Total live trades from TrackRecordState */
@@ -119,7 +126,9 @@ function isValidated(input: LadderInput, t: Thresholds): boolean {
     input.backtestHealthScore >= t.VALIDATED_MIN_SCORE &&
     input.monteCarloSurvival !== null &&
     input.monteCarloSurvival >= t.VALIDATED_MIN_SURVIVAL &&
-    input.backtestTrades >= t.MIN_TRADES_VALIDATION
+    input.backtestTrades >= t.MIN_TRADES_VALIDATION &&
+    (input.parameterPlateauRetention === null ||
+      input.parameterPlateauRetention >= t.VALIDATED_MIN_PLATEAU_RETENTION)
   );
 }
 
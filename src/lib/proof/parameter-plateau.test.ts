@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { scoreParameterPlateau } from "./parameter-plateau";
+import type { OptimizationPass } from "@/lib/backtest-parser/types";
+
+// ============================================
+// HELPERS
+// ============================================
+
+function makePass(pass: number, result: number, inputs: Record<string, number | string>) {
+  return {
+    pass,
+    result,
+    profit: result,
+    expectedPayoff: null,
+    profitFactor: null,
+    recoveryFactor: null,
+    sharpeRatio: null,
+    custom: null,
+    equityDrawdownPct: null,
+    trades: 150,
+    inputs,
+  } satisfies OptimizationPass;
+}
+
+/** 5×5 grid over period × stop loss */
+function grid(fn: (period: number, sl: number) => number) {
+  const passes: OptimizationPass[] = [];
+  for (const period of [10, 20, 30, 40, 50]) {
+    for (const sl of [10, 20, 30, 40, 50]) {
+      passes.push(makePass(passes.length, fn(period, sl), { InpPeriod: period, InpSL: sl }));
+    }
+  }
+  return { inputNames: ["InpPeriod", "InpSL"], passes };
+}
+
+// ============================================
+// scoreParameterPlateau
+// ============================================
+
+describe("scoreParameterPlateau", () => {
+  it("scores a broad optimum close to 1", () => {
+    const report = grid((period, sl) => 1000 - Math.abs(period - 30) - Math.abs(sl - 30));
+    const score = scoreParameterPlateau(report, { InpPeriod: 30, InpSL: 30 })!;
+
+    expect(score.anchor).toBe("CHOSEN");
+    expect(score.neighbours).toBe(8);
+    expect(score.retention).toBeGreaterThan(0.95);
+  });
+
+  it("scores a single spike close to 0", () => {
+    const report = grid((period, sl) => (period === 30 && sl === 30 ? 2000 : 100));
+    const score = scoreParameterPlateau(report, { InpPeriod: 30, InpSL: 30 })!;
+
+    expect(score.retention).toBeCloseTo(0.05);
+  });
+
+  it("anchors on the chosen parameters rather than the best pass", () => {
+    // Best pass at (30,30) is a spike; the exported parameters sit on a flat region
+    const report = grid((period, sl) => (period === 30 && sl === 30 ? 5000 : 400));
+    const score = scoreParameterPlateau(report, { InpPeriod: 50, InpSL: 50 })!;
+
+    expect(score.anchor).toBe("CHOSEN");
+    expect(score.anchorPass).toBe(24);
+    expect(score.retention).toBe(1);
+  });
+
+  it("falls back to the best pass when the chosen values were not tested", () => {
+    const report = grid((period, sl) => (period === 30 && sl === 30 ? 5000 : 400));
+    const score = scoreParameterPlateau(report, { InpPeriod: 35, InpSL: 30, InpTP: 60 })!;
+
+    expect(score.anchor).toBe("BEST");
+    expect(score.anchorPass).toBe(12);
+    expect(score.retention).toBeCloseTo(0.08);
+  });
+
+  it("returns null retention when the anchor has too few neighbours", () => {
+    const report = {
+      inputNames: ["InpPeriod"],
+      passes: [makePass(1, 500, { InpPeriod: 10 }), makePass(2, 50, { InpPeriod: 20 })],
+    };
+    const score = scoreParameterPlateau(report)!;
+
+    expect(score.neighbours).toBe(1);
+    expect(score.retention).toBeNull();
+  });
+
+  it("returns null when the report has no swept inputs", () => {
+    expect(scoreParameterPlateau({ inputNames: [], passes: [makePass(1, 10, {})] })).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Parameter plateau scoring — is the chosen parameter set robust or a single spike?
+ *
+ * Pure function, no DB or side effects.
+ *
+ * The anchor is the optimization pass that matches the project's current input values
+ * (the parameters that will actually be exported). If no pass matches, the best pass is
+ * used instead. The score is the median share of the anchor's result kept by passes one
+ * grid step away on every input — a curve-fitted spike collapses towards 0, a plateau
+ * stays close to 1.
+ */
+
+import {
+  measureNeighborhood,
+  MIN_NEIGHBORHOOD_PASSES,
+} from "@/lib/backtest-parser/parameter-sensitivity";
+import type { OptimizationPass, ParsedOptimizationReport } from "@/lib/backtest-parser/types";
+
+/** Relative tolerance when matching a chosen numeric input against report values. */
+const VALUE_MATCH_EPSILON = 1e-9;
+
+export interface ParameterPlateauScore {
+  /** Median neighbour retention (0–1), null when the anchor has too few neighbours or no profit */
+  retention: number | null;
+  /** Passes within one grid step of the anchor on every input */
+  neighbours: number;
+  /** Pass number the score is anchored on */
+  anchorPass: number;
+  /** CHOSEN when the project's current input values were found in the report, else BEST */
+  anchor: "CHOSEN" | "BEST";
+}
+
+export function scoreParameterPlateau(
+  report: Pick<ParsedOptimizationReport, "inputNames" | "passes">,
+  chosenInputs: Record<string, number | string | boolean> = {}
+): ParameterPlateauScore | null {
+  if (report.passes.length === 0 || report.inputNames.length === 0) return null;
+
+  const chosenPass = findChosenPass(report, chosenInputs);
+  const anchorPass =
+    chosenPass ?? report.passes.reduce((best, p) => (p.result > best.result ? p : best));
+
+  const { size, medianRetention } = measureNeighborhood(report, anchorPass);
+
+  return {
+    retention: size >= MIN_NEIGHBORHOOD_PASSES ? medianRetention : null,
+    neighbours: size,
+    anchorPass: anchorPass.pass,
+    anchor: chosenPass ? "CHOSEN" : "BEST",
+  };
+}
+
+/**
+ * The pass whose inputs equal the chosen values on every swept input the project defines.
+ * Returns null when the report sweeps none of the project's inputs or no pass matches.
+ */
+function findChosenPass(
+  report: Pick<ParsedOptimizationReport, "inputNames" | "passes">,
+  chosenInputs: Record<string, number | string | boolean>
+): OptimizationPass | null {
+  const names = report.inputNames.filter((name) => name in chosenInputs);
+  if (names.length === 0) return null;
+
+  return (
+    report.passes.find((p) =>
+      names.every((name) => valuesMatch(p.inputs[name], chosenInputs[name]))
+    ) ?? null
+  );
+}
+
+function valuesMatch(reported: number | string, chosen: number | string | boolean): boolean {
+  if (typeof reported === "number" && typeof chosen === "number") {
+    return Math.abs(reported - chosen) <= VALUE_MATCH_EPSILON * Math.max(1, Math.abs(chosen));
+  }
+  if (typeof chosen === "boolean" && typeof reported === "number") {
+    return reported === (chosen ? 1 : 0);
+  }
+  return String(reported).toLowerCase() === String(chosen).toLowerCase();
+}
@@ -30,6 +30,7 @@ function makeInput(overrides: Partial<PreLiveCheckInput> = {}): PreLiveCheckInpu
       p50: 25,
       p95: 60,
     },
+    parameterPlateau: null,
     ...overrides,
   };
 }
@@ -107,6 +108,39 @@ describe("computePreLiveVerdict — Hard Gates", () => {
     expect(result.gateResults.find((g) => g.gate === "H5")?.passed).toBe(true);
   });
 
+  it("H6: blocks a chosen parameter set that sits on a single spike", () => {
+    const result = computePreLiveVerdict(
+      makeInput({
+        parameterPlateau: { retention: 0.35, neighbours: 8, anchorPass: 12, anchor: "CHOSEN" },
+      })
+    );
+    expect(result.verdict).toBe("NOT_DEPLOYABLE");
+    expect(result.gateResults.find((g) => g.gate === "H6")?.passed).toBe(false);
+    expect(result.reasons.some((r) => r.type === "PARAMETER_SPIKE")).toBe(true);
+  });
+
+  it("H6: passes on a plateau at the threshold", () => {
+    const result = computePreLiveVerdict(
+      makeInput({
+        parameterPlateau: { retention: 0.8, neighbours: 8, anchorPass: 12, anchor: "CHOSEN" },
+      })
+    );
+    expect(result.verdict).toBe("READY");
+    expect(result.gateResults.find((g) => g.gate === "H6")?.passed).toBe(true);
+    expect(result.readinessScore).toBe(100);
+  });
+
+  it("H6: skipped without optimization data or with too few neighbours", () => {
+    expect(computePreLiveVerdict(makeInput()).gateResults.some((g) => g.gate === "H6")).toBe(false);
+    const sparse = computePreLiveVerdict(
+      makeInput({
+        parameterPlateau: { retention: null, neighbours: 1, anchorPass: 3, anchor: "BEST" },
+      })
+    );
+    expect(sparse.verdict).toBe("READY");
+    expect(sparse.gateResults.some((g) => g.gate === "H6")).toBe(false);
+  });
+
   it("collects ALL hard gate failures (no short-circuit)", () => {
     const result = computePreLiveVerdict(
       makeInput({
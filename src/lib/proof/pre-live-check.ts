@@ -2,7 +2,8 @@
  * Pre-Live Verification Check — deployment readiness assessment from backtest data.
  *
  * Pure function that evaluates whether a strategy is ready for live deployment
- * based on backtest metrics and Monte Carlo validation.
+ * based on backtest metrics, Monte Carlo validation and, when an optimization report
+ * is available, parameter plateau stability.
  *
  * Verdicts:
  *   READY          — all hard gates pass, soft gate failures below threshold
@@ -11,6 +12,8 @@
  */
 
 import type { BacktestRun } from "@prisma/client";
+import { DEFAULT_THRESHOLDS } from "./ladder";
+import type { ParameterPlateauScore } from "./parameter-plateau";
 
 // ============================================
 // Types
@@ -33,7 +36,8 @@ export type ReasonType =
   | "BACKTEST_WARNINGS"
   | "BELOW_ROBUST_SCORE"
   | "LOW_SHARPE"
-  | "LOW_RECOVERY_FACTOR";
+  | "LOW_RECOVERY_FACTOR"
+  | "PARAMETER_SPIKE";
 
 export interface PreLiveReason {
   type: ReasonType;
@@ -76,6 +80,8 @@ export interface PreLiveCheckInput {
     p50: number;
     p95: number;
   } | null;
+  // From the project's latest optimization report (null if none uploaded)
+  parameterPlateau: ParameterPlateauScore | null;
 }
 
 export interface PreLiveCheckResult {
@@ -94,6 +100,7 @@ export interface PreLiveCheckResult {
 export const PRE_LIVE_MIN_TRADES = 100;
 export const PRE_LIVE_MIN_HEALTH_SCORE = 50;
 export const PRE_LIVE_MIN_PROFIT_FACTOR = 1.0;
+export const PRE_LIVE_MIN_PLATEAU_RETENTION = DEFAULT_THRESHOLDS.VALIDATED_MIN_PLATEAU_RETENTION;
 
 // Soft gate thresholds
 export const PRE_LIVE_MIN_SURVIVAL = 0.7;
@@ -202,7 +209,32 @@ export function computePreLiveVerdict(input: PreLiveCheckInput): PreLiveCheckRes
     });
   }
 
-  const anyHardFailed = !h1 || !h2 || !h3 || !h4 || !h5;
+  // H6: parameter plateau — only evaluated when optimization passes surround the chosen set
+  let h6 = true;
+  const plateauRetention = input.parameterPlateau?.retention ?? null;
+  if (input.parameterPlateau && plateauRetention !== null) {
+    h6 = plateauRetention >= PRE_LIVE_MIN_PLATEAU_RETENTION;
+    gateResults.push({
+      gate: "H6",
+      passed: h6,
+      hard: true,
+      detail: `plateauRetention=${plateauRetention}, required>=${PRE_LIVE_MIN_PLATEAU_RETENTION}, anchor=${input.parameterPlateau.anchor}`,
+    });
+    if (!h6) {
+      reasons.push({
+        type: "PARAMETER_SPIKE",
+        message: `Neighbouring optimization passes keep only ${(plateauRetention * 100).toFixed(0)}% of the ${input.parameterPlateau.anchor === "CHOSEN" ? "chosen" : "best"} parameter set's result — likely curve-fitted to a single spike.`,
+        severity: "error",
+      });
+      actions.push({
+        label: "Pick parameters from a plateau",
+        description:
+          "Choose input values whose neighbouring optimization passes perform similarly, then re-run the backtest.",
+      });
+    }
+  }
+
+  const anyHardFailed = !h1 || !h2 || !h3 || !h4 || !h5 || !h6;
 
   // --- Tier 2: Soft Gates (weighted failures accumulate) ---
 
@@ -393,7 +425,7 @@ export function computePreLiveVerdict(input: PreLiveCheckInput): PreLiveCheckRes
 
   // --- Compute readiness score ---
 
-  const hardGateCount = 5;
+  const hardGateCount = gateResults.filter((g) => g.hard).length;
   const hardTotal = hardGateCount * HARD_GATE_WEIGHT;
   const hardPassed = gateResults.filter((g) => g.hard && g.passed).length * HARD_GATE_WEIGHT;
   const totalWeight = hardTotal + totalSoftWeight;
@@ -426,7 +458,10 @@ interface MonteCarloJson {
   p95?: number;
 }
 
-export function extractPreLiveInput(backtest: BacktestRun): PreLiveCheckInput {
+export function extractPreLiveInput(
+  backtest: BacktestRun,
+  parameterPlateau: ParameterPlateauScore | null = null
+): PreLiveCheckInput {
   // Parse validationResult (Monte Carlo) JSON
   let monteCarlo: PreLiveCheckInput["monteCarlo"] = null;
   if (backtest.validationResult != null) {
@@ -469,5 +504,6 @@ export function extractPreLiveInput(backtest: BacktestRun): PreLiveCheckInput {
     confidenceUpper: backtest.confidenceUpper,
     warnings,
     monteCarlo,
+    parameterPlateau,
   };
 }
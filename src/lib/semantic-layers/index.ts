@@ -18,6 +18,8 @@ export type {
   VersionForLineage,
   DeploymentForLineage,
   VersionWithDeployments,
+  BranchForkForLineage,
+  BranchLineage,
   StrategyLineage,
 } from "./version-lineage";
 export { resolveDeploymentGovernance, getSignalLabel } from "./governance";
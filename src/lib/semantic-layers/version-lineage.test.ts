@@ -156,3 +156,39 @@ describe("buildStrategyLineage", () => {
     expect(result.outdatedDeployments).toBe(0);
   });
 });
+
+// ── Branch lineage ───────────────────────────────────────
+
+describe("buildStrategyLineage branches", () => {
+  it("puts every version on main when no branch is given", () => {
+    const v1 = makeVersion({ id: "v1", versionNo: 1 });
+    const v2 = makeVersion({ id: "v2", versionNo: 2 });
+
+    const result = buildStrategyLineage("AS-TEST", "PROJECT", "v2", [v1, v2], []);
+
+    expect(result.branches).toEqual([
+      { name: "main", versionIds: ["v2", "v1"], forkedFromVersionId: null, isCurrent: true },
+    ]);
+  });
+
+  it("groups versions by branch and resolves the fork point on the parent branch", () => {
+    const v1 = makeVersion({ id: "v1", versionNo: 1, branch: "main", buildVersionNo: 3 });
+    const v2 = makeVersion({ id: "v2", versionNo: 2, branch: "main", buildVersionNo: 8 });
+    const v3 = makeVersion({ id: "v3", versionNo: 3, branch: "tight-sl", buildVersionNo: 9 });
+
+    // tight-sl forked from build v5, which was never exported: v1 (build v3) is the fork point
+    const result = buildStrategyLineage(
+      "AS-TEST",
+      "PROJECT",
+      "v2",
+      [v1, v2, v3],
+      [],
+      [{ branch: "tight-sl", parentBranch: "main", forkedAtBuildVersionNo: 5 }]
+    );
+
+    expect(result.branches).toEqual([
+      { name: "main", versionIds: ["v2", "v1"], forkedFromVersionId: null, isCurrent: true },
+      { name: "tight-sl", versionIds: ["v3"], forkedFromVersionId: "v1", isCurrent: false },
+    ]);
+  });
+});
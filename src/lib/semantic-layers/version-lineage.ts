@@ -7,6 +7,7 @@
  *   - Which deployments are on which version?
  *   - Is a deployment current or outdated?
  *   - What is the version history over time?
+ *   - Which branch is each version on, and where did each branch fork?
  *
  * Rules:
  *   - "Current" = the version pointed to by StrategyIdentity.currentVersionId.
@@ -14,6 +15,9 @@
  *   - Version status (ACTIVE/DEPRECATED/RETIRED) is explicit, stored in DB.
  *   - Instance monitoring truth (Layer 1) is never affected by version lineage.
  *   - External strategies have weaker lineage — sentinel fingerprints, not discovered logic.
+ *   - Branches come from the project's build versions. A branch forks from a build
+ *     version that may never have been exported, so its fork point here is the newest
+ *     strategy version on the parent branch at or before the fork.
  *
  * All functions are pure builders — no DB access, deterministic, composable.
  */
@@ -47,6 +51,29 @@ export interface VersionForLineage {
   status: string; // ACTIVE | DEPRECATED | RETIRED
   fingerprint: string;
   createdAt: string; // ISO
+  /** Branch of the build version this was exported from. Defaults to "main". */
+  branch?: string;
+  /** versionNo of that build version. Null for external strategies. */
+  buildVersionNo?: number | null;
+}
+
+/** Where a build-version branch forked, from the project's build versions. */
+export interface BranchForkForLineage {
+  branch: string;
+  parentBranch: string;
+  /** Build versionNo the branch was forked from */
+  forkedAtBuildVersionNo: number;
+}
+
+/** One branch of the lineage with the strategy versions exported from it. */
+export interface BranchLineage {
+  name: string;
+  /** Lineage version ids on this branch, newest first. */
+  versionIds: string[];
+  /** Newest lineage version on the parent branch at the fork. Null for main or unknown. */
+  forkedFromVersionId: string | null;
+  /** Whether the current version is on this branch. */
+  isCurrent: boolean;
 }
 
 /** Minimal deployment shape needed for lineage queries. */
@@ -78,6 +105,9 @@ export interface StrategyLineage {
   /** All versions ordered by versionNo descending (newest first). */
   versions: VersionWithDeployments[];
 
+  /** Branches with exported versions: main first, then by newest version. */
+  branches: BranchLineage[];
+
   /** Total active (non-deleted) deployments across all versions. */
   totalDeployments: number;
 
@@ -124,13 +154,15 @@ export function resolveDeploymentCurrency(
  * @param currentVersionId - From StrategyIdentity.currentVersionId
  * @param versions      - All versions for this identity, any order
  * @param deployments   - All active deployments linked to any version of this identity
+ * @param forks         - Fork points of the project's build-version branches
  */
 export function buildStrategyLineage(
   strategyId: string,
   origin: "PROJECT" | "EXTERNAL",
   currentVersionId: string | null,
   versions: VersionForLineage[],
-  deployments: DeploymentForLineage[]
+  deployments: DeploymentForLineage[],
+  forks: BranchForkForLineage[] = []
 ): StrategyLineage {
   // Sort versions by versionNo descending (newest first)
   const sorted = [...versions].sort((a, b) => b.versionNo - a.versionNo);
@@ -170,6 +202,7 @@ export function buildStrategyLineage(
     origin,
     currentVersionId,
     versions: versionsWithDeployments,
+    branches: buildBranchLineage(sorted, currentVersionId, forks),
     totalDeployments: deployments.length,
     currentDeployments,
     outdatedDeployments,
@@ -177,3 +210,48 @@ export function buildStrategyLineage(
     externalLineageCaveat: origin === "EXTERNAL",
   };
 }
+
+/**
+ * Group versions (sorted newest first) by branch and resolve each branch's fork point.
+ *
+ * Pure function — no DB access.
+ */
+function buildBranchLineage(
+  sorted: VersionForLineage[],
+  currentVersionId: string | null,
+  forks: BranchForkForLineage[]
+): BranchLineage[] {
+  const byBranch = new Map<string, VersionForLineage[]>();
+  for (const v of sorted) {
+    const name = v.branch ?? "main";
+    const list = byBranch.get(name) ?? [];
+    list.push(v);
+    byBranch.set(name, list);
+  }
+
+  const branches: BranchLineage[] = [];
+  for (const [name, list] of byBranch) {
+    const fork = forks.find((f) => f.branch === name);
+    const forkedFrom = fork
+      ? (byBranch
+          .get(fork.parentBranch)
+          ?.find(
+            (v) => v.buildVersionNo != null && v.buildVersionNo <= fork.forkedAtBuildVersionNo
+          ) ?? null)
+      : null;
+    branches.push({
+      name,
+      versionIds: list.map((v) => v.id),
+      forkedFromVersionId: forkedFrom?.id ?? null,
+      isCurrent: list.some((v) => v.id === currentVersionId),
+    });
+  }
+
+  // Main first, then by newest version (lists are already newest first)
+  const newest = (b: BranchLineage) => sorted.find((v) => v.id === b.versionIds[0])?.versionNo ?? 0;
+  return branches.sort((a, b) => {
+    if (a.name === "main") return -1;
+    if (b.name === "main") return 1;
+    return newest(b) - newest(a);
+  });
+}
@@ -5,6 +5,7 @@
 import { prisma } from "@/lib/prisma";
 import type { LiveMetrics } from "./types";
 import { computeTradeReturns } from "./drift-detector";
+import { resolveLiveVolatilityPct, type PriceObservation } from "./regime";
 
 /**
  * Collect live trading metrics for a given instance over a rolling window.
@@ -129,6 +130,50 @@ export async function collectLiveMetrics(
   };
 }
 
+/**
+ * Volatility (daily move in %) for the live window: the mean of the heartbeats'
+ * daily-close readings, or the proxy from the prices of trades opened and closed
+ * in the window when no heartbeat reported one.
+ * Returns null for multi-symbol windows or when neither source is usable.
+ */
+export async function collectLiveVolatility(
+  instanceId: string,
+  windowDays: number = 30
+): Promise<number | null> {
+  const windowStart = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+  const heartbeats = await prisma.eAHeartbeat.aggregate({
+    where: { instanceId, createdAt: { gte: windowStart }, volatility: { gt: 0 } },
+    _avg: { volatility: true },
+  });
+
+  const events = await prisma.trackRecordEvent.findMany({
+    where: {
+      instanceId,
+      eventType: { in: ["TRADE_OPEN", "TRADE_CLOSE"] },
+      timestamp: { gte: windowStart },
+    },
+    select: { eventType: true, payload: true, timestamp: true },
+    orderBy: { timestamp: "asc" },
+  });
+
+  const symbols = new Set<string>();
+  const observations: PriceObservation[] = [];
+  for (const e of events) {
+    const payload = e.payload as Record<string, unknown>;
+    if (e.eventType === "TRADE_OPEN" && typeof payload.symbol === "string") {
+      symbols.add(payload.symbol);
+    }
+    const price = e.eventType === "TRADE_OPEN" ? payload.openPrice : payload.closePrice;
+    if (typeof price === "number") {
+      observations.push({ time: e.timestamp.getTime(), price });
+    }
+  }
+
+  if (symbols.size > 1) return null;
+  return resolveLiveVolatilityPct(heartbeats._avg.volatility, observations);
+}
+
 /**
  * Group trades into daily buckets and compute daily return percentages.
  * Includes zero-return days between first and last trade to avoid
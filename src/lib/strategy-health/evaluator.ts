@@ -12,10 +12,12 @@ import { logger } from "@/lib/logger";
 import { triggerAlert } from "@/lib/alerts";
 import { emitControlLayerAlert } from "@/lib/alerts/control-layer-alerts";
 import { computeEdgeProjection, generateEdgeDecayAlert } from "@/domain/monitoring/edge-projection";
-import { collectLiveMetrics } from "./collector";
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
+import { collectLiveMetrics, collectLiveVolatility } from "./collector";
 import { computeHealth } from "./scorer";
+import { applyRegimeBaseline, buildRegimeBaselines, classifyVolatilityRegime } from "./regime";
 import { HEALTH_EVAL_COOLDOWN_MS, HEALTH_STALE_THRESHOLD_MS } from "./thresholds";
-import type { BaselineMetrics, HealthResult, HealthStatusType } from "./types";
+import type { BaselineMetrics, HealthResult, HealthStatusType, VolatilityRegime } from "./types";
 import { computeAndCacheStatus } from "@/lib/strategy-status/compute-and-cache";
 import * as Sentry from "@sentry/nextjs";
 
@@ -51,6 +53,43 @@ function computeScoreTrend(
   return "stable";
 }
 
+/**
+ * Swap the blended baseline for the baseline of the backtest volatility regime
+ * the live window falls into. Falls back to the blended baseline (regime null)
+ * when the backtest trades are unavailable, the live window has neither a
+ * heartbeat volatility reading nor enough fills to classify, or the matching
+ * regime holds too few backtest trades.
+ */
+async function resolveRegimeBaseline(
+  instanceId: string,
+  backtestResultId: string | null,
+  baseline: BaselineMetrics,
+  returnDecay: number
+): Promise<{ baseline: BaselineMetrics; regime: VolatilityRegime | null }> {
+  if (!backtestResultId) return { baseline, regime: null };
+
+  const backtestRun = await prisma.backtestRun.findUnique({
+    where: { id: backtestResultId },
+    select: { trades: true, initialDeposit: true },
+  });
+  if (!backtestRun || !Array.isArray(backtestRun.trades)) return { baseline, regime: null };
+
+  const regimeBaselines = buildRegimeBaselines(
+    backtestRun.trades as unknown as ParsedDeal[],
+    backtestRun.initialDeposit
+  );
+  if (!regimeBaselines) return { baseline, regime: null };
+
+  const liveVolatility = await collectLiveVolatility(instanceId, 30);
+  if (liveVolatility === null) return { baseline, regime: null };
+
+  const regime = classifyVolatilityRegime(liveVolatility, regimeBaselines.cutoffs);
+  const regimeBaseline = regimeBaselines.regimes[regime];
+  if (!regimeBaseline) return { baseline, regime: null };
+
+  return { baseline: applyRegimeBaseline(baseline, regimeBaseline, returnDecay), regime };
+}
+
 /**
  * Evaluate health for an instance, rate-limited to once per hour.
  * Called fire-and-forget after TRADE_CLOSE events.
@@ -104,6 +143,7 @@ export async function evaluateHealth(instanceId: string): Promise<HealthResult>
 
   // Load baseline if available
   let baseline: BaselineMetrics | null = null;
+  let volatilityRegime: VolatilityRegime | null = null;
   if (instance.strategyVersionId) {
     const backtestBaseline = await prisma.backtestBaseline.findUnique({
       where: { strategyVersionId: instance.strategyVersionId },
@@ -137,6 +177,20 @@ export async function evaluateHealth(instanceId: string): Promise<HealthResult>
         sharpeRatio: backtestBaseline.sharpeRatio,
         volatility: backtestBaseline.volatility,
       };
+
+      // Compare against the backtest trades taken in the same volatility regime
+      try {
+        const resolved = await resolveRegimeBaseline(
+          instanceId,
+          backtestBaseline.backtestResultId,
+          baseline,
+          instance.baselineDecay
+        );
+        baseline = resolved.baseline;
+        volatilityRegime = resolved.regime;
+      } catch (err) {
+        logger.warn({ err, instanceId }, "Regime baseline resolution failed (using blended)");
+      }
     }
   }
 
@@ -280,6 +334,7 @@ export async function evaluateHealth(instanceId: string): Promise<HealthResult>
       baselineMaxDDPct: baseline?.maxDrawdownPct ?? null,
       baselineWinRate: baseline?.winRate ?? null,
       baselineTradesPerDay: baseline?.tradesPerDay ?? null,
+      volatilityRegime,
       tradesSampled: liveMetrics.totalTrades,
       windowDays: liveMetrics.windowDays,
       confidenceLower: result.confidenceInterval.lower,
@@ -3,6 +3,12 @@ export { collectLiveMetrics } from "./collector";
 export { evaluateHealth, evaluateHealthIfDue, getHealthWithFreshness } from "./evaluator";
 export { extractBaselineMetrics, estimateBacktestDuration } from "./baseline-extractor";
 export { computeCusum, computeTradeReturns } from "./drift-detector";
+export {
+  buildRegimeBaselines,
+  classifyVolatilityRegime,
+  computeVolatilityProxyPct,
+  resolveLiveVolatilityPct,
+} from "./regime";
 export {
   THRESHOLDS,
   MIN_TRADES_FOR_ASSESSMENT,
@@ -19,4 +25,7 @@ export type {
   MetricScore,
   ConfidenceInterval,
   DriftInfo,
+  VolatilityRegime,
+  RegimeBaselineMetrics,
+  RegimeBaselines,
 } from "./types";
@@ -0,0 +1,250 @@
+import { describe, it, expect } from "vitest";
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
+import {
+  applyRegimeBaseline,
+  buildRegimeBaselines,
+  classifyVolatilityRegime,
+  computeRegimeCutoffs,
+  computeVolatilityProxyPct,
+  resolveLiveVolatilityPct,
+} from "./regime";
+import type { BaselineMetrics } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const START = Date.parse("2024-01-01T00:00:00Z");
+
+interface Phase {
+  /** Number of closed trades (each trade = entry + exit deal) */
+  trades: number;
+  /** Price move per fill, in % (alternating up/down) */
+  movePct: number;
+  /** Profit of every exit deal */
+  profit: number;
+}
+
+/** Entry/exit deal pairs, 6h apart, price zig-zagging by `movePct` per fill. */
+function makeDeals(phases: Phase[], symbol = "EURUSD"): ParsedDeal[] {
+  const deals: ParsedDeal[] = [];
+  let price = 1.1;
+  let t = START;
+  let ticket = 1;
+  for (const phase of phases) {
+    for (let i = 0; i < phase.trades * 2; i++) {
+      price *= ticket % 2 === 0 ? 1 + phase.movePct / 100 : 1 - phase.movePct / 100;
+      deals.push({
+        ticket,
+        openTime: new Date(t).toISOString().slice(0, 19),
+        type: "buy",
+        volume: 0.1,
+        price,
+        profit: i % 2 === 1 ? phase.profit : 0,
+        symbol,
+      });
+      ticket++;
+      t += 6 * HOUR_MS;
+    }
+  }
+  return deals;
+}
+
+describe("computeVolatilityProxyPct", () => {
+  it("measures the daily move of a daily-sampled series", () => {
+    const observations = Array.from({ length: 11 }, (_, i) => ({
+      time: START + i * DAY_MS,
+      price: 100 * Math.pow(1.01, i),
+    }));
+
+    expect(computeVolatilityProxyPct(observations, 10)).toBeCloseTo(Math.log(1.01) * 100, 6);
+  });
+
+  it("scales by the square root of elapsed days", () => {
+    const observations = [
+      { time: START, price: 100 },
+      { time: START + 4 * DAY_MS, price: 102 },
+    ];
+
+    expect(computeVolatilityProxyPct(observations, 1)).toBeCloseTo((Math.log(1.02) * 100) / 2, 6);
+  });
+
+  it("floors very short steps so spread noise is not blown up", () => {
+    const observations = [
+      { time: START, price: 100 },
+      { time: START + 60 * 1000, price: 100.1 },
+    ];
+
+    expect(computeVolatilityProxyPct(observations, 1)).toBeCloseTo(
+      (Math.log(1.001) * 100) / Math.sqrt(1 / 24),
+      6
+    );
+  });
+
+  it("sorts observations by time", () => {
+    const observations = [
+      { time: START + 2 * DAY_MS, price: 100 },
+      { time: START, price: 100 },
+      { time: START + DAY_MS, price: 101 },
+    ];
+
+    expect(computeVolatilityProxyPct(observations, 2)).toBeCloseTo(
+      (Math.log(1.01) + Math.log(101 / 100)) * 50,
+      6
+    );
+  });
+
+  it("skips unusable steps and returns null below minSteps", () => {
+    const observations = [
+      { time: START, price: 100 },
+      { time: START, price: 101 },
+      { time: START + DAY_MS, price: 0 },
+    ];
+
+    expect(computeVolatilityProxyPct(observations, 1)).toBeNull();
+  });
+});
+
+describe("resolveLiveVolatilityPct", () => {
+  /** 11 daily fills moving 1% a day: a fill proxy of ln(1.01) in %. */
+  const fills = Array.from({ length: 11 }, (_, i) => ({
+    time: START + i * DAY_MS,
+    price: 100 * Math.pow(1.01, i),
+  }));
+
+  it("classifies from the heartbeat reading when the EA reports one", () => {
+    expect(resolveLiveVolatilityPct(0.42, fills)).toBe(0.42);
+  });
+
+  it("falls back to the fill-price proxy without a heartbeat reading", () => {
+    expect(resolveLiveVolatilityPct(null, fills)).toBeCloseTo(Math.log(1.01) * 100, 6);
+    expect(resolveLiveVolatilityPct(0, fills)).toBeCloseTo(Math.log(1.01) * 100, 6);
+  });
+
+  it("returns null when neither source is usable", () => {
+    expect(resolveLiveVolatilityPct(null, fills.slice(0, 3))).toBeNull();
+  });
+});
+
+describe("computeRegimeCutoffs", () => {
+  it("returns tercile boundaries", () => {
+    const cutoffs = computeRegimeCutoffs([9, 1, 2, 3, 4, 5, 6, 7, 8]);
+
+    expect(cutoffs!.low).toBeCloseTo(11 / 3, 6);
+    expect(cutoffs!.high).toBeCloseTo(19 / 3, 6);
+  });
+
+  it("returns null for no values", () => {
+    expect(computeRegimeCutoffs([])).toBeNull();
+  });
+});
+
+describe("classifyVolatilityRegime", () => {
+  const cutoffs = { low: 0.5, high: 1.5 };
+
+  it("classifies by tercile", () => {
+    expect(classifyVolatilityRegime(0.2, cutoffs)).toBe("LOW");
+    expect(classifyVolatilityRegime(0.5, cutoffs)).toBe("LOW");
+    expect(classifyVolatilityRegime(1.0, cutoffs)).toBe("MID");
+    expect(classifyVolatilityRegime(1.5, cutoffs)).toBe("MID");
+    expect(classifyVolatilityRegime(2.0, cutoffs)).toBe("HIGH");
+  });
+});
+
+describe("buildRegimeBaselines", () => {
+  it("splits trades so each regime reflects its own behaviour", () => {
+    const deals = makeDeals([
+      { trades: 60, movePct: 0.1, profit: 20 },
+      { trades: 60, movePct: 0.5, profit: 5 },
+      { trades: 60, movePct: 2, profit: -10 },
+    ]);
+
+    const result = buildRegimeBaselines(deals, 10_000);
+
+    expect(result).not.toBeNull();
+    const { LOW, MID, HIGH } = result!.regimes;
+    expect(LOW).not.toBeNull();
+    expect(MID).not.toBeNull();
+    expect(HIGH).not.toBeNull();
+    expect(result!.cutoffs.low).toBeLessThan(result!.cutoffs.high);
+
+    expect(LOW!.winRate).toBe(100);
+    expect(LOW!.returnPct).toBeGreaterThan(0);
+    expect(HIGH!.winRate).toBe(0);
+    expect(HIGH!.returnPct).toBeLessThan(0);
+    // Two trades per day in every phase
+    expect(LOW!.tradesPerDay).toBeCloseTo(2, 0);
+  });
+
+  it("ignores balance deals", () => {
+    const deals = makeDeals([{ trades: 90, movePct: 0.5, profit: 5 }]);
+    const withBalance: ParsedDeal[] = [
+      {
+        ticket: 0,
+        openTime: "2023-12-31T00:00:00",
+        type: "balance",
+        volume: 0,
+        price: 0,
+        profit: 10_000,
+      },
+      ...deals,
+    ];
+
+    expect(buildRegimeBaselines(withBalance, 10_000)).toEqual(buildRegimeBaselines(deals, 10_000));
+  });
+
+  it("leaves a regime null when it holds too few trades", () => {
+    const deals = makeDeals([
+      { trades: 10, movePct: 0.1, profit: 20 },
+      { trades: 10, movePct: 0.5, profit: 5 },
+      { trades: 10, movePct: 2, profit: -10 },
+    ]);
+
+    const result = buildRegimeBaselines(deals, 10_000);
+
+    expect(result).not.toBeNull();
+    expect(result!.regimes.LOW).toBeNull();
+    expect(result!.regimes.HIGH).toBeNull();
+  });
+
+  it("returns null for multi-symbol backtests", () => {
+    const deals = [
+      ...makeDeals([{ trades: 60, movePct: 0.1, profit: 20 }], "EURUSD"),
+      ...makeDeals([{ trades: 60, movePct: 0.1, profit: 20 }], "GBPUSD"),
+    ];
+
+    expect(buildRegimeBaselines(deals, 10_000)).toBeNull();
+  });
+
+  it("returns null when no trade survives the proxy warm-up", () => {
+    const deals = makeDeals([{ trades: 5, movePct: 0.5, profit: 5 }]);
+
+    expect(buildRegimeBaselines(deals, 10_000)).toBeNull();
+  });
+});
+
+describe("applyRegimeBaseline", () => {
+  const baseline: BaselineMetrics = {
+    returnPct: 4,
+    maxDrawdownPct: 6,
+    winRate: 55,
+    tradesPerDay: 2,
+    sharpeRatio: 1.2,
+    volatility: 0.15,
+  };
+
+  it("replaces return, win rate and trade frequency, keeping drawdown blended", () => {
+    const result = applyRegimeBaseline(
+      baseline,
+      { trades: 40, winRate: 70, returnPct: 8, tradesPerDay: 3 },
+      0.75
+    );
+
+    expect(result).toEqual({
+      returnPct: 6,
+      maxDrawdownPct: 6,
+      winRate: 70,
+      tradesPerDay: 3,
+      sharpeRatio: 1.2,
+      volatility: 0.15,
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Volatility regimes — splits the backtest baseline by market volatility so the
+ * live window is compared against how the strategy behaved in similar conditions.
+ * A breakout system earns its edge in volatile markets and bleeds in quiet ones;
+ * a single blended baseline flags it in both.
+ *
+ * Volatility proxy: an ATR-like daily move in %, estimated from the prices the
+ * strategy actually filled at. Each step between consecutive fills contributes
+ * |ln(p₁/p₀)| / √Δdays, a Brownian-scaled daily move that stays comparable
+ * between sparse and dense trading. Backtest deals are measured this way.
+ *
+ * The live window prefers the EA's own reading: heartbeats carry the mean
+ * |ln(C_d/C_d-1)| of the last daily closes, the same daily move taken from the
+ * market instead of from fills. Live TRADE_OPEN / TRADE_CLOSE prices are the
+ * fallback for EAs that do not report it.
+ *
+ * Pure functions — no IO.
+ */
+
+import type { ParsedDeal } from "@/lib/backtest-parser/types";
+import { computeTradeReturnsPct } from "@/domain/monitoring/tail-risk";
+import type {
+  BaselineMetrics,
+  RegimeBaselineMetrics,
+  RegimeBaselines,
+  VolatilityRegime,
+} from "./types";
+import {
+  REGIME_MIN_LIVE_STEPS,
+  REGIME_MIN_STEP_HOURS,
+  REGIME_MIN_TRADES,
+  REGIME_PROXY_WINDOW,
+} from "./thresholds";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_STEP_DAYS = REGIME_MIN_STEP_HOURS / 24;
+const REGIMES: readonly VolatilityRegime[] = ["LOW", "MID", "HIGH"];
+
+export interface PriceObservation {
+  /** Epoch milliseconds */
+  time: number;
+  price: number;
+}
+
+/**
+ * Daily-move estimate (in %) for one step between two fills.
+ * Null for unusable steps: non-positive prices or no elapsed time.
+ */
+function stepMovePct(prev: PriceObservation, next: PriceObservation): number | null {
+  if (prev.price <= 0 || next.price <= 0) return null;
+  const elapsedMs = next.time - prev.time;
+  if (!(elapsedMs > 0)) return null;
+  const days = Math.max(elapsedMs / DAY_MS, MIN_STEP_DAYS);
+  return (Math.abs(Math.log(next.price / prev.price)) / Math.sqrt(days)) * 100;
+}
+
+function sortByTime(observations: PriceObservation[]): PriceObservation[] {
+  return observations
+    .filter((o) => Number.isFinite(o.time) && Number.isFinite(o.price))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Mean volatility proxy over all steps of a price series.
+ * Returns null when fewer than `minSteps` usable steps are available.
+ */
+export function computeVolatilityProxyPct(
+  observations: PriceObservation[],
+  minSteps: number
+): number | null {
+  const sorted = sortByTime(observations);
+  let sum = 0;
+  let steps = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const move = stepMovePct(sorted[i - 1], sorted[i]);
+    if (move === null) continue;
+    sum += move;
+    steps++;
+  }
+  return steps >= Math.max(minSteps, 1) ? sum / steps : null;
+}
+
+/**
+ * Tercile boundaries of a set of proxy values (linear interpolation).
+ * Returns null for an empty set.
+ */
+export function computeRegimeCutoffs(values: number[]): { low: number; high: number } | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const quantile = (q: number): number => {
+    const pos = (sorted.length - 1) * q;
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+  };
+  return { low: quantile(1 / 3), high: quantile(2 / 3) };
+}
+
+/**
+ * Live volatility (daily move in %) for the regime lookup: the mean heartbeat
+ * reading when the window has one, else the fill-price proxy.
+ * Returns null when neither source is usable.
+ */
+export function resolveLiveVolatilityPct(
+  heartbeatVolatilityPct: number | null,
+  fills: PriceObservation[]
+): number | null {
+  if (heartbeatVolatilityPct !== null && heartbeatVolatilityPct > 0) return heartbeatVolatilityPct;
+  return computeVolatilityProxyPct(fills, REGIME_MIN_LIVE_STEPS);
+}
+
+export function classifyVolatilityRegime(
+  proxyPct: number,
+  cutoffs: { low: number; high: number }
+): VolatilityRegime {
+  if (proxyPct <= cutoffs.low) return "LOW";
+  if (proxyPct > cutoffs.high) return "HIGH";
+  return "MID";
+}
+
+/**
+ * Split backtest deals into volatility terciles and compute a baseline per regime.
+ *
+ * Each closed trade (non-zero profit deal) is tagged with the rolling proxy over
+ * the preceding `REGIME_PROXY_WINDOW` price steps; trades inside the warm-up
+ * window are left untagged. Time between fills is attributed to the regime in
+ * force at the start of the step, which gives each regime its own trades/day.
+ *
+ * Returns null when the deals span more than one symbol (prices are not a
+ * single series) or when no trade could be tagged.
+ */
+export function buildRegimeBaselines(
+  deals: ParsedDeal[],
+  initialDeposit: number
+): RegimeBaselines | null {
+  const tradingDeals = deals
+    .filter((d) => d.type !== "balance")
+    .map((d) => ({ deal: d, time: new Date(d.openTime).getTime() }))
+    .filter((d) => Number.isFinite(d.time) && d.deal.price > 0)
+    .sort((a, b) => a.time - b.time);
+
+  const symbols = new Set(tradingDeals.map((d) => d.deal.symbol).filter(Boolean));
+  if (symbols.size > 1) return null;
+
+  // Rolling proxy at each fill: mean of the last REGIME_PROXY_WINDOW step moves
+  const proxies: Array<number | null> = [];
+  const window: number[] = [];
+  for (let i = 0; i < tradingDeals.length; i++) {
+    if (i > 0) {
+      const move = stepMovePct(
+        { time: tradingDeals[i - 1].time, price: tradingDeals[i - 1].deal.price },
+        { time: tradingDeals[i].time, price: tradingDeals[i].deal.price }
+      );
+      if (move !== null) {
+        window.push(move);
+        if (window.length > REGIME_PROXY_WINDOW) window.shift();
+      }
+    }
+    proxies.push(
+      window.length === REGIME_PROXY_WINDOW
+        ? window.reduce((s, m) => s + m, 0) / window.length
+        : null
+    );
+  }
+
+  // Closed trades in order, with their per-trade return against running equity
+  const closeIndexes = tradingDeals.flatMap((d, i) => (d.deal.profit !== 0 ? [i] : []));
+  const returns = computeTradeReturnsPct(
+    closeIndexes.map((i) => tradingDeals[i].deal.profit),
+    initialDeposit
+  );
+
+  const tagged = closeIndexes
+    .map((dealIndex, tradeIndex) => ({
+      proxy: proxies[dealIndex],
+      profit: tradingDeals[dealIndex].deal.profit,
+      returnPct: returns[tradeIndex] as number | undefined,
+    }))
+    .filter(
+      (t): t is { proxy: number; profit: number; returnPct: number } =>
+        t.proxy !== null && t.returnPct !== undefined
+    );
+
+  const cutoffs = computeRegimeCutoffs(tagged.map((t) => t.proxy));
+  if (!cutoffs) return null;
+
+  const daysInRegime: Record<VolatilityRegime, number> = { LOW: 0, MID: 0, HIGH: 0 };
+  for (let i = 1; i < tradingDeals.length; i++) {
+    const proxy = proxies[i - 1];
+    if (proxy === null) continue;
+    const regime = classifyVolatilityRegime(proxy, cutoffs);
+    daysInRegime[regime] += (tradingDeals[i].time - tradingDeals[i - 1].time) / DAY_MS;
+  }
+
+  const regimes = {} as Record<VolatilityRegime, RegimeBaselineMetrics | null>;
+  for (const regime of REGIMES) {
+    const trades = tagged.filter((t) => classifyVolatilityRegime(t.proxy, cutoffs) === regime);
+    const days = daysInRegime[regime];
+    if (trades.length < REGIME_MIN_TRADES || days <= 0) {
+      regimes[regime] = null;
+      continue;
+    }
+
+    const wins = trades.filter((t) => t.profit > 0).length;
+    const meanReturnPct = trades.reduce((s, t) => s + t.returnPct, 0) / trades.length;
+    const tradesPerDay = trades.length / days;
+    regimes[regime] = {
+      trades: trades.length,
+      winRate: (wins / trades.length) * 100,
+      returnPct: (Math.pow(1 + meanReturnPct / 100, tradesPerDay * 30) - 1) * 100,
+      tradesPerDay,
+    };
+  }
+
+  return { cutoffs, regimes };
+}
+
+/**
+ * Replace the regime-sensitive fields of the blended baseline with the regime's.
+ * Drawdown, Sharpe and volatility stay blended — a drawdown walked over trades
+ * scattered across the whole backtest has no meaning per regime.
+ */
+export function applyRegimeBaseline(
+  baseline: BaselineMetrics,
+  regime: RegimeBaselineMetrics,
+  returnDecay: number
+): BaselineMetrics {
+  return {
+    ...baseline,
+    returnPct: regime.returnPct * returnDecay,
+    winRate: regime.winRate,
+    tradesPerDay: regime.tradesPerDay,
+  };
+}
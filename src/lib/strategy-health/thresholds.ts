@@ -132,3 +132,21 @@ export const CONFIDENCE_BASE_MARGIN = 0.1;
  *  Lower than CUSUM_MIN_TRADES because computeCusum handles its own
  *  minimum internally — this is a cheap pre-check to avoid unnecessary work. */
 export const CUSUM_SCORER_MIN_RETURNS = 5;
+
+// ============================================
+// MONITORING: VOLATILITY REGIMES
+// ============================================
+
+/** Price steps averaged into the rolling backtest volatility proxy (ATR(14)-like). */
+export const REGIME_PROXY_WINDOW = 14;
+
+/** Minimum backtest trades in a regime before its own baseline is used.
+ *  Below this, the blended baseline is the better estimate. */
+export const REGIME_MIN_TRADES = 20;
+
+/** Minimum live price steps before the live window is assigned a regime. */
+export const REGIME_MIN_LIVE_STEPS = 10;
+
+/** Floor on the time between two fills when scaling a price step.
+ *  Fills minutes apart are dominated by spread, not volatility. */
+export const REGIME_MIN_STEP_HOURS = 1;
@@ -67,3 +67,24 @@ export interface HealthResult {
   live: LiveMetrics;
   baseline: BaselineMetrics | null;
 }
+
+/** Backtest volatility tercile the live window falls into. */
+export type VolatilityRegime = "LOW" | "MID" | "HIGH";
+
+/** Baseline metrics from the backtest trades taken in one volatility regime. */
+export interface RegimeBaselineMetrics {
+  trades: number;
+  /** Win rate in % */
+  winRate: number;
+  /** Expected return over 30 days spent in this regime, in % (geometric) */
+  returnPct: number;
+  /** Trades per day spent in this regime */
+  tradesPerDay: number;
+}
+
+export interface RegimeBaselines {
+  /** Volatility proxy tercile boundaries (daily move in %) */
+  cutoffs: { low: number; high: number };
+  /** Null when the regime holds too few backtest trades to stand on its own */
+  regimes: Record<VolatilityRegime, RegimeBaselineMetrics | null>;
+}
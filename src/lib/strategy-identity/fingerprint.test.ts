@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { compareStrategyFingerprints } from "./fingerprint";
+
+function build(rsiData: Record<string, unknown>, settings: Record<string, unknown> = {}) {
+  return {
+    version: "1.3",
+    nodes: [
+      {
+        id: "rsi-1",
+        type: "rsi",
+        position: { x: 0, y: 0 },
+        data: { label: "RSI", category: "indicator", period: 14, ...rsiData },
+      },
+      {
+        id: "buy-2",
+        type: "place-buy",
+        position: { x: 0, y: 200 },
+        data: { label: "Buy", category: "trading", riskPercent: 1 },
+      },
+    ],
+    edges: [{ id: "e1", source: "rsi-1", target: "buy-2" }],
+    settings: { magicNumber: 1001, maxOpenTrades: 1, ...settings },
+  };
+}
+
+describe("compareStrategyFingerprints", () => {
+  it("treats labels, layout and the magic number as immaterial", () => {
+    const before = build({});
+    const after = build({ label: "Fast RSI" }, { magicNumber: 2002 });
+    after.nodes[0].position = { x: 300, y: 40 };
+
+    const result = compareStrategyFingerprints(before, after);
+    expect(result.material).toBe(false);
+    expect(result.after.fingerprint).toBe(result.before.fingerprint);
+  });
+
+  it("treats parameter and settings changes as material", () => {
+    expect(compareStrategyFingerprints(build({}), build({ period: 21 })).material).toBe(true);
+    expect(compareStrategyFingerprints(build({}), build({}, { maxOpenTrades: 2 })).material).toBe(
+      true
+    );
+  });
+});
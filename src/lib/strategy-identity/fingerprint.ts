@@ -6,7 +6,9 @@
  */
 
 import { sha256 } from "@/lib/track-record/canonical";
-import type { FingerprintResult } from "./types";
+import { expandMacroNodes } from "@/lib/mql5-generator/macros";
+import type { BuilderEdge, BuilderNode } from "@/types/builder";
+import type { FingerprintComparison, FingerprintResult } from "./types";
 
 // UI-only fields stripped from node data before hashing
 const NODE_UI_FIELDS = new Set([
@@ -85,8 +87,23 @@ interface BuildJsonInput {
  * Logic Hash: captures what the strategy does (node types + edge topology)
  * Parameter Hash: captures how the strategy is tuned (settings + node params)
  * Fingerprint: SHA-256(logicHash + ":" + parameterHash + ":" + version)
+ *
+ * Macro blocks are hashed as their expanded inner nodes, the same graph the generator
+ * exports — so a macro and the equivalent hand-built nodes share a fingerprint.
  */
 export function computeStrategyFingerprint(buildJson: BuildJsonInput): FingerprintResult {
+  const expanded = expandMacroNodes(
+    buildJson.nodes as unknown as BuilderNode[],
+    buildJson.edges as unknown as BuilderEdge[]
+  );
+  if (expanded) {
+    buildJson = {
+      ...buildJson,
+      nodes: expanded.nodes as unknown as Array<Record<string, unknown>>,
+      edges: expanded.edges as unknown as Array<Record<string, unknown>>,
+    };
+  }
+
   const logicHash = computeLogicHash(buildJson);
   const parameterHash = computeParameterHash(buildJson);
   const fingerprint = sha256(logicHash + ":" + parameterHash + ":" + buildJson.version);
@@ -94,6 +111,23 @@ export function computeStrategyFingerprint(buildJson: BuildJsonInput): Fingerpri
   return { fingerprint, logicHash, parameterHash };
 }
 
+/**
+ * Compare the fingerprints of two builds. Layout, labels and the magic number do not
+ * take part in the fingerprint, so changing only those is not material.
+ */
+export function compareStrategyFingerprints(
+  before: BuildJsonInput,
+  after: BuildJsonInput
+): FingerprintComparison {
+  const a = computeStrategyFingerprint(before);
+  const b = computeStrategyFingerprint(after);
+  return {
+    material: a.fingerprint !== b.fingerprint,
+    before: a,
+    after: b,
+  };
+}
+
 /**
  * Step 1 — Logic Hash: what the strategy does.
  *
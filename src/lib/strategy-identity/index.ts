@@ -1,5 +1,10 @@
-export { computeStrategyFingerprint } from "./fingerprint";
+export { computeStrategyFingerprint, compareStrategyFingerprints } from "./fingerprint";
 export { generateStrategyId, ensureStrategyIdentity, recordStrategyVersion } from "./identity";
 export { createBaselineFromBacktest } from "./baseline";
 export type { BacktestRunForBaseline } from "./baseline";
-export type { FingerprintResult, StrategyIdentityInfo, StrategyVersionInfo } from "./types";
+export type {
+  FingerprintComparison,
+  FingerprintResult,
+  StrategyIdentityInfo,
+  StrategyVersionInfo,
+} from "./types";
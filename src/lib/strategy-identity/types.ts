@@ -8,6 +8,16 @@ export interface FingerprintResult {
   parameterHash: string;
 }
 
+/**
+ * Whether a change between two builds is material: it produces a different strategy
+ * fingerprint, so an export of it is a new strategy version.
+ */
+export interface FingerprintComparison {
+  material: boolean;
+  before: FingerprintResult;
+  after: FingerprintResult;
+}
+
 export interface StrategyIdentityInfo {
   id: string;
   projectId: string | null;
@@ -160,12 +160,12 @@ function rangeBreakoutTradingNodes() {
         maxLot: DEFAULT_MAX_LOT,
         orderType: "MARKET" as const,
         pendingOffset: DEFAULT_PENDING_OFFSET_PIPS,
-        slMethod: "FIXED" as const,
+        slMethod: "FIXED_PIPS" as const,
         slFixedPips: DEFAULT_SL_FIXED_PIPS,
         slPercent: DEFAULT_SL_PERCENT,
         slAtrMultiplier: DEFAULT_SL_ATR_MULTIPLIER,
         slAtrPeriod: DEFAULT_ATR_PERIOD,
-        tpMethod: "FIXED" as const,
+        tpMethod: "FIXED_PIPS" as const,
         tpFixedPips: DEFAULT_TP_FIXED_PIPS,
         tpRiskRewardRatio: DEFAULT_TP_RISK_REWARD,
         tpAtrMultiplier: DEFAULT_TP_ATR_MULTIPLIER,
@@ -188,12 +188,12 @@ function rangeBreakoutTradingNodes() {
         maxLot: DEFAULT_MAX_LOT,
         orderType: "MARKET" as const,
         pendingOffset: DEFAULT_PENDING_OFFSET_PIPS,
-        slMethod: "FIXED" as const,
+        slMethod: "FIXED_PIPS" as const,
         slFixedPips: DEFAULT_SL_FIXED_PIPS,
         slPercent: DEFAULT_SL_PERCENT,
         slAtrMultiplier: DEFAULT_SL_ATR_MULTIPLIER,
         slAtrPeriod: DEFAULT_ATR_PERIOD,
-        tpMethod: "FIXED" as const,
+        tpMethod: "FIXED_PIPS" as const,
         tpFixedPips: DEFAULT_TP_FIXED_PIPS,
         tpRiskRewardRatio: DEFAULT_TP_RISK_REWARD,
         tpAtrMultiplier: DEFAULT_TP_ATR_MULTIPLIER,
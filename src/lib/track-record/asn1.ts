@@ -0,0 +1,228 @@
+/**
+ * Minimal DER (ASN.1 Distinguished Encoding Rules) encoder and reader.
+ *
+ * Only what RFC 3161 timestamping needs: definite-length TLVs, SEQUENCE/SET,
+ * INTEGER, OID, OCTET STRING, BOOLEAN, time types and context-specific tags.
+ * Pure functions — no I/O.
+ */
+
+// ============================================
+// TAGS
+// ============================================
+
+export const TAG = {
+  BOOLEAN: 0x01,
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  UTC_TIME: 0x17,
+  GENERALIZED_TIME: 0x18,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const;
+
+/** Constructed context-specific tag [n], e.g. EXPLICIT wrappers and IMPLICIT SETs. */
+export function contextTag(n: number): number {
+  return 0xa0 | n;
+}
+
+// ============================================
+// ENCODING
+// ============================================
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n >>= 8) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+export function encodeTlv(tag: number, content: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), encodeLength(content.length), content]);
+}
+
+export function encodeSequence(...items: Buffer[]): Buffer {
+  return encodeTlv(TAG.SEQUENCE, Buffer.concat(items));
+}
+
+/** DER SET OF — elements sorted by their encoding, as DER requires. */
+export function encodeSet(...items: Buffer[]): Buffer {
+  return encodeTlv(TAG.SET, Buffer.concat([...items].sort(Buffer.compare)));
+}
+
+export function encodeExplicit(n: number, inner: Buffer): Buffer {
+  return encodeTlv(contextTag(n), inner);
+}
+
+/** Non-negative INTEGER from a number, bigint or big-endian magnitude bytes. */
+export function encodeInteger(value: number | bigint | Buffer): Buffer {
+  let bytes: Buffer;
+  if (Buffer.isBuffer(value)) {
+    bytes = value;
+  } else {
+    let hex = BigInt(value).toString(16);
+    if (hex.length % 2) hex = `0${hex}`;
+    bytes = Buffer.from(hex, "hex");
+  }
+  let start = 0;
+  while (start < bytes.length - 1 && bytes[start] === 0) start++;
+  bytes = bytes.subarray(start);
+  if (bytes.length === 0) bytes = Buffer.from([0]);
+  if (bytes[0] & 0x80) bytes = Buffer.concat([Buffer.from([0]), bytes]);
+  return encodeTlv(TAG.INTEGER, bytes);
+}
+
+export function encodeBoolean(value: boolean): Buffer {
+  return encodeTlv(TAG.BOOLEAN, Buffer.from([value ? 0xff : 0x00]));
+}
+
+export function encodeNull(): Buffer {
+  return encodeTlv(TAG.NULL, Buffer.alloc(0));
+}
+
+export function encodeOctetString(bytes: Buffer): Buffer {
+  return encodeTlv(TAG.OCTET_STRING, bytes);
+}
+
+/** BIT STRING with no unused bits (signatures, public keys). */
+export function encodeBitString(bytes: Buffer): Buffer {
+  return encodeTlv(TAG.BIT_STRING, Buffer.concat([Buffer.from([0]), bytes]));
+}
+
+export function encodeUtf8String(value: string): Buffer {
+  return encodeTlv(TAG.UTF8_STRING, Buffer.from(value, "utf8"));
+}
+
+export function encodeOid(oid: string): Buffer {
+  const parts = oid.split(".").map(Number);
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f];
+    for (let n = Math.floor(part / 128); n > 0; n = Math.floor(n / 128)) {
+      chunk.unshift((n & 0x7f) | 0x80);
+    }
+    bytes.push(...chunk);
+  }
+  return encodeTlv(TAG.OID, Buffer.from(bytes));
+}
+
+/**
+ * GeneralizedTime with millisecond precision, e.g. 20261019120000.12Z.
+ * DER forbids trailing zeros in the fraction (and an empty fraction).
+ */
+export function encodeGeneralizedTime(date: Date): Buffer {
+  const iso = date.toISOString(); // 2026-10-19T12:00:00.120Z
+  const compact = iso.replace(/[-:T]/g, "").replace(/0+Z$/, "Z").replace(/\.Z$/, "Z");
+  return encodeTlv(TAG.GENERALIZED_TIME, Buffer.from(compact, "ascii"));
+}
+
+/** UTCTime (YYMMDDHHMMSSZ) — used for certificate validity before 2050. */
+export function encodeUtcTime(date: Date): Buffer {
+  const compact = date.toISOString().slice(2, 19).replace(/[-:T]/g, "");
+  return encodeTlv(TAG.UTC_TIME, Buffer.from(`${compact}Z`, "ascii"));
+}
+
+// ============================================
+// READING
+// ============================================
+
+export interface DerNode {
+  tag: number;
+  /** The complete TLV encoding */
+  raw: Buffer;
+  /** The value bytes */
+  content: Buffer;
+}
+
+/** Read one TLV at `offset`. Throws on truncated or indefinite-length input. */
+export function readTlv(buf: Buffer, offset = 0): DerNode {
+  if (offset + 2 > buf.length) throw new Error("DER: truncated header");
+  const tag = buf[offset];
+  if ((tag & 0x1f) === 0x1f) throw new Error("DER: high tag numbers are not supported");
+
+  let pos = offset + 1;
+  let length = buf[pos++];
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0) throw new Error("DER: indefinite length is not allowed");
+    if (count > 4) throw new Error("DER: length too large");
+    if (pos + count > buf.length) throw new Error("DER: truncated length");
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + buf[pos++];
+  }
+  if (pos + length > buf.length) throw new Error("DER: truncated value");
+
+  return {
+    tag,
+    raw: buf.subarray(offset, pos + length),
+    content: buf.subarray(pos, pos + length),
+  };
+}
+
+/** Parse a buffer that must hold exactly one TLV. */
+export function parseDer(buf: Buffer): DerNode {
+  const node = readTlv(buf);
+  if (node.raw.length !== buf.length) throw new Error("DER: trailing bytes after value");
+  return node;
+}
+
+/** Child TLVs of a constructed node. */
+export function children(node: DerNode): DerNode[] {
+  const result: DerNode[] = [];
+  let offset = 0;
+  while (offset < node.content.length) {
+    const child = readTlv(node.content, offset);
+    result.push(child);
+    offset += child.raw.length;
+  }
+  return result;
+}
+
+export function expectTag(node: DerNode | undefined, tag: number, what: string): DerNode {
+  if (!node || node.tag !== tag) {
+    throw new Error(`DER: expected ${what}`);
+  }
+  return node;
+}
+
+export function decodeOid(node: DerNode): string {
+  expectTag(node, TAG.OID, "OBJECT IDENTIFIER");
+  const bytes = node.content;
+  if (bytes.length === 0) throw new Error("DER: empty OBJECT IDENTIFIER");
+  const parts: number[] = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (const b of bytes.subarray(1)) {
+    value = value * 128 + (b & 0x7f);
+    if (!(b & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+/** INTEGER as lowercase hex without leading zero bytes (serial numbers, nonces). */
+export function decodeIntegerHex(node: DerNode): string {
+  expectTag(node, TAG.INTEGER, "INTEGER");
+  let start = 0;
+  while (start < node.content.length - 1 && node.content[start] === 0) start++;
+  return node.content.subarray(start).toString("hex");
+}
+
+export function decodeSmallInteger(node: DerNode): number {
+  return parseInt(decodeIntegerHex(node), 16);
+}
+
+/** GeneralizedTime (YYYYMMDDHHMMSS[.fff]Z) to a Date. */
+export function decodeGeneralizedTime(node: DerNode): Date {
+  expectTag(node, TAG.GENERALIZED_TIME, "GeneralizedTime");
+  const text = node.content.toString("ascii");
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\.\d+)?Z$/.exec(text);
+  if (!match) throw new Error(`DER: unsupported GeneralizedTime "${text}"`);
+  const [, y, mo, d, h, mi, s, frac] = match;
+  const ms = frac ? Math.round(parseFloat(frac) * 1000) : 0;
+  return new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s, ms));
+}
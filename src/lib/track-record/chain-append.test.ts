@@ -4,8 +4,12 @@ import { Prisma } from "@prisma/client";
 // ─── Mocks ────────────────────────────────────────────────────────
 
 const mockTransaction = vi.fn();
+const mockCommitmentUpdate = vi.fn();
 vi.mock("@/lib/prisma", () => ({
-  prisma: { $transaction: (...args: unknown[]) => mockTransaction(...args) },
+  prisma: {
+    $transaction: (...args: unknown[]) => mockTransaction(...args),
+    ledgerCommitment: { update: (...args: unknown[]) => mockCommitmentUpdate(...args) },
+  },
 }));
 
 vi.mock("@/lib/logger", () => ({
@@ -27,6 +31,7 @@ vi.mock("./checkpoint", () => ({
   shouldCreateCheckpoint: vi.fn().mockReturnValue(false),
   buildCheckpointData: vi.fn(),
   computeCheckpointHmac: vi.fn(),
+  notarizeCommitment: vi.fn(),
 }));
 
 vi.mock("./ledger-commitment", () => ({
@@ -147,3 +152,48 @@ describe("appendChainEvent", () => {
     }
   });
 });
+
+describe("notarizeLedgerCommitment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stores the notarization receipt on the commitment", async () => {
+    const notarization = {
+      notarizedAt: new Date("2026-10-19T12:00:00Z"),
+      provider: "rfc3161",
+      proof: "dG9rZW4=",
+      verifyUrl: null,
+    };
+    const { notarizeCommitment } = await import("./checkpoint");
+    vi.mocked(notarizeCommitment).mockResolvedValue(notarization);
+
+    const { notarizeLedgerCommitment } = await import("./chain-append");
+    await notarizeLedgerCommitment("inst_1", 500, "c".repeat(64));
+
+    expect(notarizeCommitment).toHaveBeenCalledWith("c".repeat(64));
+    expect(mockCommitmentUpdate).toHaveBeenCalledWith({
+      where: { instanceId_seqNo: { instanceId: "inst_1", seqNo: 500 } },
+      data: notarization,
+    });
+  });
+
+  it("leaves the commitment untouched when no provider is configured", async () => {
+    const { notarizeCommitment } = await import("./checkpoint");
+    vi.mocked(notarizeCommitment).mockResolvedValue(null);
+
+    const { notarizeLedgerCommitment } = await import("./chain-append");
+    await notarizeLedgerCommitment("inst_1", 500, "c".repeat(64));
+
+    expect(mockCommitmentUpdate).not.toHaveBeenCalled();
+  });
+
+  it("does not throw when the TSA fails", async () => {
+    const { notarizeCommitment } = await import("./checkpoint");
+    vi.mocked(notarizeCommitment).mockRejectedValue(new Error("RFC 3161: TSA responded with HTTP 503"));
+
+    const { notarizeLedgerCommitment } = await import("./chain-append");
+    await expect(notarizeLedgerCommitment("inst_1", 500, "c".repeat(64))).resolves.toBeUndefined();
+    expect(mockCommitmentUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -9,7 +9,12 @@ import { prisma } from "@/lib/prisma";
 import { Prisma } from "@prisma/client";
 import { buildCanonicalEvent, computeEventHash } from "./canonical";
 import { processEvent, stateFromDb, stateToDbUpdate } from "./state-manager";
-import { shouldCreateCheckpoint, buildCheckpointData, computeCheckpointHmac } from "./checkpoint";
+import {
+  shouldCreateCheckpoint,
+  buildCheckpointData,
+  computeCheckpointHmac,
+  notarizeCommitment,
+} from "./checkpoint";
 import { shouldCreateCommitment, buildCommitmentData } from "./ledger-commitment";
 import type { TrackRecordEventType } from "./types";
 import { logger } from "@/lib/logger";
@@ -53,7 +58,7 @@ export async function appendChainEvent(
 ): Promise<{ seqNo: number; eventHash: string }> {
   for (let attempt = 1; attempt <= MAX_SERIALIZATION_RETRIES; attempt++) {
     try {
-      return await prisma.$transaction(
+      const appended = await prisma.$transaction(
         async (tx) => {
           const dbState = await tx.trackRecordState.findUnique({
             where: { instanceId },
@@ -94,16 +99,23 @@ export async function appendChainEvent(
             await tx.trackRecordCheckpoint.create({ data: checkpoint });
           }
 
+          let commitmentHash: string | null = null;
           if (shouldCreateCommitment(seqNo)) {
             const stateHmac = checkpoint ? checkpoint.hmac : computeCheckpointHmac(instanceId, state);
             const commitment = buildCommitmentData(instanceId, seqNo, state.lastEventHash, stateHmac);
             await tx.ledgerCommitment.create({ data: commitment });
+            commitmentHash = commitment.commitmentHash;
           }
 
-          return { seqNo, eventHash };
+          return { seqNo, eventHash, commitmentHash };
         },
         { isolationLevel: "Serializable" }
       );
+
+      if (appended.commitmentHash) {
+        void notarizeLedgerCommitment(instanceId, appended.seqNo, appended.commitmentHash);
+      }
+      return { seqNo: appended.seqNo, eventHash: appended.eventHash };
     } catch (err) {
       const isP2034 =
         err instanceof Prisma.PrismaClientKnownRequestError && err.code === "P2034";
@@ -120,3 +132,27 @@ export async function appendChainEvent(
   // Unreachable — loop always returns or throws. TypeScript needs this.
   throw new Error("appendChainEvent: retry loop exited unexpectedly");
 }
+
+/**
+ * Timestamp a ledger commitment and store the receipt.
+ *
+ * Runs after the append transaction has committed — a slow or unavailable
+ * TSA must never block or roll back the chain. Failures are logged and the
+ * commitment simply stays un-notarized.
+ */
+export async function notarizeLedgerCommitment(
+  instanceId: string,
+  seqNo: number,
+  commitmentHash: string
+): Promise<void> {
+  try {
+    const notarization = await notarizeCommitment(commitmentHash);
+    if (!notarization) return;
+    await prisma.ledgerCommitment.update({
+      where: { instanceId_seqNo: { instanceId, seqNo } },
+      data: notarization,
+    });
+  } catch (err) {
+    log.error({ err, instanceId, seqNo }, "Ledger commitment notarization failed");
+  }
+}
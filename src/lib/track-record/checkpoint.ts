@@ -11,9 +11,14 @@
  *   New checkpoints are always signed with TRACK_RECORD_SECRET.
  *   Verification tries the current secret first, then falls back to
  *   TRACK_RECORD_SECRET_PREVIOUS for checkpoints created before rotation.
+ *
+ * Notarization:
+ *   Ledger commitments (every 500 events, see ledger-commitment.ts) are
+ *   timestamped with the configured provider via notarizeCommitment().
  */
 
 import { createHmac } from "crypto";
+import { notarizeHash, registerConfiguredProviders } from "./notarization";
 import type { TrackRecordRunningState } from "./types";
 
 /**
@@ -163,3 +168,27 @@ export function buildCheckpointData(instanceId: string, state: TrackRecordRunnin
     hmac: computeCheckpointHmac(instanceId, state),
   };
 }
+
+/**
+ * Timestamp a ledger commitment hash with the configured notarization provider
+ * (RFC 3161 TSA when TRACK_RECORD_TSA_URL is set).
+ * Returns the LedgerCommitment fields to store, or null when no provider is configured.
+ * Throws when the provider fails.
+ */
+export async function notarizeCommitment(commitmentHash: string): Promise<{
+  notarizedAt: Date;
+  provider: string;
+  proof: string;
+  verifyUrl: string | null;
+} | null> {
+  registerConfiguredProviders();
+  const receipt = await notarizeHash(commitmentHash);
+  if (!receipt) return null;
+
+  return {
+    notarizedAt: new Date(receipt.timestamp),
+    provider: receipt.provider,
+    proof: receipt.proof,
+    verifyUrl: receipt.verifyUrl ?? null,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Local RFC 3161 Time Stamping Authority — an in-process stand-in for tests
+ * and local development.
+ *
+ * Generates a throwaway P-256 key and a self-signed certificate with the
+ * critical id-kp-timeStamping extended key usage, then answers TimeStampReqs
+ * with real signed TimeStampTokens. `fetch` can be handed straight to
+ * RFC3161NotarizationProvider, so the full client path is exercised without
+ * a network TSA.
+ *
+ * NOT a trust anchor: anyone can mint these certificates.
+ */
+
+import { X509Certificate, createHash, generateKeyPairSync, randomBytes, sign } from "crypto";
+import type { KeyObject } from "crypto";
+import {
+  encodeBitString,
+  encodeBoolean,
+  encodeExplicit,
+  encodeGeneralizedTime,
+  encodeInteger,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  encodeSet,
+  encodeTlv,
+  encodeUtcTime,
+  encodeUtf8String,
+  contextTag,
+  parseDer,
+} from "./asn1";
+import { OID, parseTimeStampRequest } from "./rfc3161";
+
+const OID_COMMON_NAME = "2.5.4.3";
+const OID_EXTENDED_KEY_USAGE = "2.5.29.37";
+/** Arbitrary policy arc for locally issued tokens. */
+const LOCAL_TSA_POLICY = "1.3.6.1.4.1.99999.1";
+
+const PKI_STATUS_GRANTED = 0;
+const PKI_STATUS_REJECTION = 2;
+const SERIAL_BYTES = 16;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LocalTsaOptions {
+  /** Certificate subject common name */
+  commonName?: string;
+  /** Certificate validity window, defaults to one day back and one year ahead */
+  notBefore?: Date;
+  notAfter?: Date;
+  /** Clock used for genTime */
+  now?: () => Date;
+}
+
+export interface LocalTsa {
+  certificatePem: string;
+  certificate: X509Certificate;
+  /** Answer a DER TimeStampReq with a DER TimeStampResp */
+  respond(request: Buffer): Buffer;
+  /** fetch-compatible handler for RFC3161NotarizationProvider */
+  fetch: typeof fetch;
+}
+
+export function createLocalTsa(options: LocalTsaOptions = {}): LocalTsa {
+  const now = options.now ?? (() => new Date());
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+  const { certDer, name, serialNumber } = buildCertificate(privateKey, publicKey, {
+    commonName: options.commonName ?? "AlgoStudio Local Test TSA",
+    notBefore: options.notBefore ?? new Date(now().getTime() - DAY_MS),
+    notAfter: options.notAfter ?? new Date(now().getTime() + 365 * DAY_MS),
+  });
+  const certificate = new X509Certificate(certDer);
+
+  function respond(requestDer: Buffer): Buffer {
+    let request;
+    try {
+      request = parseTimeStampRequest(requestDer);
+    } catch {
+      return encodeSequence(encodeSequence(encodeInteger(PKI_STATUS_REJECTION)));
+    }
+    if (request.hashAlgorithm !== OID.SHA256) {
+      return encodeSequence(encodeSequence(encodeInteger(PKI_STATUS_REJECTION)));
+    }
+
+    const tstInfo = encodeSequence(
+      encodeInteger(1),
+      encodeOid(LOCAL_TSA_POLICY),
+      request.messageImprint,
+      encodeInteger(randomBytes(SERIAL_BYTES)),
+      encodeGeneralizedTime(now()),
+      ...(request.nonce ? [encodeInteger(request.nonce)] : [])
+    );
+    const issuerAndSerial = encodeSequence(name, serialNumber);
+    const token = buildSignedData(tstInfo, certDer, issuerAndSerial, privateKey, request.certReq);
+    return encodeSequence(encodeSequence(encodeInteger(PKI_STATUS_GRANTED)), token);
+  }
+
+  const localFetch: typeof fetch = async (_input, init) => {
+    const body = Buffer.from(await new Response(init?.body).arrayBuffer());
+    return new Response(new Uint8Array(respond(body)), {
+      status: 200,
+      headers: { "Content-Type": "application/timestamp-reply" },
+    });
+  };
+
+  return { certificatePem: certificate.toString(), certificate, respond, fetch: localFetch };
+}
+
+function algorithmIdentifier(oid: string): Buffer {
+  return encodeSequence(encodeOid(oid));
+}
+
+function buildCertificate(
+  privateKey: KeyObject,
+  publicKey: KeyObject,
+  params: { commonName: string; notBefore: Date; notAfter: Date }
+): { certDer: Buffer; name: Buffer; serialNumber: Buffer } {
+  const name = encodeSequence(
+    encodeSet(encodeSequence(encodeOid(OID_COMMON_NAME), encodeUtf8String(params.commonName)))
+  );
+  const ekuExtension = encodeSequence(
+    encodeOid(OID_EXTENDED_KEY_USAGE),
+    encodeBoolean(true), // RFC 3161 §2.3: the EKU extension MUST be critical
+    encodeOctetString(encodeSequence(encodeOid(OID.EKU_TIME_STAMPING)))
+  );
+
+  const serialNumber = encodeInteger(randomBytes(SERIAL_BYTES));
+  const tbs = encodeSequence(
+    encodeExplicit(0, encodeInteger(2)), // v3
+    serialNumber,
+    algorithmIdentifier(OID.ECDSA_WITH_SHA256),
+    name,
+    encodeSequence(encodeUtcTime(params.notBefore), encodeUtcTime(params.notAfter)),
+    name,
+    publicKey.export({ type: "spki", format: "der" }),
+    encodeExplicit(3, encodeSequence(ekuExtension))
+  );
+
+  const certDer = encodeSequence(
+    tbs,
+    algorithmIdentifier(OID.ECDSA_WITH_SHA256),
+    encodeBitString(sign("sha256", tbs, privateKey))
+  );
+  return { certDer, name, serialNumber };
+}
+
+function buildSignedData(
+  tstInfo: Buffer,
+  certDer: Buffer,
+  issuerAndSerial: Buffer,
+  privateKey: KeyObject,
+  includeCertificate: boolean
+): Buffer {
+  const sha256 = encodeSequence(encodeOid(OID.SHA256));
+  const attribute = (oid: string, value: Buffer) =>
+    encodeSequence(encodeOid(oid), encodeSet(value));
+
+  const signedAttrs = encodeSet(
+    attribute(OID.ATTR_CONTENT_TYPE, encodeOid(OID.TST_INFO)),
+    attribute(
+      OID.ATTR_MESSAGE_DIGEST,
+      encodeOctetString(createHash("sha256").update(tstInfo).digest())
+    ),
+    // ESSCertIDv2 with the default (SHA-256) hash algorithm omitted
+    attribute(
+      OID.ATTR_SIGNING_CERTIFICATE_V2,
+      encodeSequence(
+        encodeSequence(
+          encodeSequence(encodeOctetString(createHash("sha256").update(certDer).digest()))
+        )
+      )
+    )
+  );
+  const signature = sign("sha256", signedAttrs, privateKey);
+
+  const signerInfo = encodeSequence(
+    encodeInteger(1),
+    issuerAndSerial,
+    sha256,
+    encodeTlv(contextTag(0), parseDer(signedAttrs).content), // [0] IMPLICIT SET OF
+    algorithmIdentifier(OID.ECDSA_WITH_SHA256),
+    encodeOctetString(signature)
+  );
+
+  const signedData = encodeSequence(
+    encodeInteger(3),
+    encodeSet(sha256),
+    encodeSequence(encodeOid(OID.TST_INFO), encodeExplicit(0, encodeOctetString(tstInfo))),
+    ...(includeCertificate ? [encodeTlv(contextTag(0), certDer)] : []),
+    encodeSet(signerInfo)
+  );
+
+  return encodeSequence(encodeOid(OID.SIGNED_DATA), encodeExplicit(0, signedData));
+}
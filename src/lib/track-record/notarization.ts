@@ -15,9 +15,11 @@
  * 2. OpenTimestamps (Bitcoin-anchored) — decentralized, censorship-resistant
  * 3. Custom webhook — user provides their own notarization endpoint
  *
- * This file defines the interface. Actual provider implementations are separate.
+ * This file defines the interface. The RFC 3161 provider lives in rfc3161.ts
+ * and is registered from TRACK_RECORD_TSA_URL by registerConfiguredProviders().
  */
 
+import { RFC3161NotarizationProvider } from "./rfc3161";
 import type { NotarizationProvider, NotarizationReceipt } from "./types";
 
 // ============================================
@@ -38,6 +40,23 @@ export function listProviders(): string[] {
   return Array.from(providers.keys());
 }
 
+/**
+ * Register the RFC 3161 provider when a TSA is configured.
+ * TRACK_RECORD_TSA_CERT pins the TSA certificate (PEM, "\n" escapes allowed).
+ * Idempotent — safe to call before every notarization.
+ */
+export function registerConfiguredProviders(): void {
+  const url = process.env.TRACK_RECORD_TSA_URL;
+  if (!url || providers.has("rfc3161")) return;
+
+  registerNotarizationProvider(
+    new RFC3161NotarizationProvider({
+      url,
+      certificatePem: process.env.TRACK_RECORD_TSA_CERT?.replace(/\\n/g, "\n"),
+    })
+  );
+}
+
 // ============================================
 // NOTARIZE & VERIFY
 // ============================================
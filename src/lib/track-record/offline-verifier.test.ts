@@ -0,0 +1,286 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+
+vi.hoisted(() => {
+  process.env.TRACK_RECORD_SIGNING_KEY = "11".repeat(32);
+});
+
+const mockPrisma = vi.hoisted(() => ({
+  trackRecordEvent: { findMany: vi.fn() },
+  liveEAInstance: { findUniqueOrThrow: vi.fn() },
+  trackRecordCheckpoint: { findMany: vi.fn(), count: vi.fn(), findFirst: vi.fn() },
+  ledgerCommitment: { findMany: vi.fn() },
+}));
+vi.mock("@/lib/prisma", () => ({ prisma: mockPrisma }));
+
+import {
+  EXIT_CODE,
+  ProofBundleFormatError,
+  formatOfflineReport,
+  parseProofBundle,
+  verifyBundleOffline,
+} from "./offline-verifier";
+import { generateProofBundle } from "./proof-bundle";
+import { generateWorkedExampleEvents } from "./worked-example";
+import { buildCanonicalEvent, computeEventHash } from "./canonical";
+import { computeCommitmentHash } from "./ledger-commitment";
+import { getSigningKeyPair } from "./manifest";
+import { createLocalTsa } from "./local-tsa";
+import { buildTimeStampRequest, parseTimeStampResponse } from "./rfc3161";
+import { GENESIS_HASH, type ProofBundle } from "./types";
+
+// ============================================
+// FIXTURE — a real bundle built from the worked example
+// ============================================
+
+const INSTANCE_ID = "inst_offline_1";
+
+function chainedEvents() {
+  let prevHash = GENESIS_HASH;
+  return generateWorkedExampleEvents().map((e) => {
+    const eventHash = computeEventHash(
+      buildCanonicalEvent(INSTANCE_ID, e.eventType, e.seqNo, prevHash, e.timestamp, e.payload)
+    );
+    const event = {
+      instanceId: INSTANCE_ID,
+      seqNo: e.seqNo,
+      eventType: e.eventType,
+      eventHash,
+      prevHash,
+      timestamp: new Date(e.timestamp * 1000),
+      payload: e.payload,
+    };
+    prevHash = eventHash;
+    return event;
+  });
+}
+
+let bundleJson: string;
+
+beforeAll(async () => {
+  mockPrisma.trackRecordEvent.findMany.mockResolvedValue(chainedEvents());
+  mockPrisma.liveEAInstance.findUniqueOrThrow.mockResolvedValue({
+    id: INSTANCE_ID,
+    eaName: "Worked Example EA",
+    broker: "IC Markets",
+    accountNumber: "12345",
+    mode: "LIVE",
+    symbol: "EURUSD",
+    timeframe: "H1",
+  });
+  mockPrisma.trackRecordCheckpoint.findMany.mockResolvedValue([]);
+  mockPrisma.trackRecordCheckpoint.count.mockResolvedValue(0);
+  mockPrisma.trackRecordCheckpoint.findFirst.mockResolvedValue(null);
+  mockPrisma.ledgerCommitment.findMany.mockResolvedValue([]);
+
+  bundleJson = JSON.stringify(await generateProofBundle(INSTANCE_ID));
+});
+
+/** A fresh, independently mutable copy of the fixture bundle. */
+function loadBundle(): ProofBundle {
+  return parseProofBundle(bundleJson);
+}
+
+function statusOf(report: ReturnType<typeof verifyBundleOffline>, name: string) {
+  return report.checks.find((c) => c.name === name)?.status;
+}
+
+/** Add a ledger commitment on the last event, notarized by `tsa`. */
+function withNotarizedCommitment(bundle: ProofBundle, tsa: ReturnType<typeof createLocalTsa>) {
+  const last = bundle.events[bundle.events.length - 1];
+  const stateHmac = "f".repeat(64);
+  const commitmentHash = computeCommitmentHash(INSTANCE_ID, last.seqNo, last.eventHash, stateHmac);
+  const token = parseTimeStampResponse(
+    tsa.respond(buildTimeStampRequest(commitmentHash, Buffer.from([7])))
+  );
+  bundle.commitments = [
+    {
+      seqNo: last.seqNo,
+      commitmentHash,
+      lastEventHash: last.eventHash,
+      stateHmac,
+      notarizedAt: new Date().toISOString(),
+      provider: "rfc3161",
+      proof: token.toString("base64"),
+      verifyUrl: null,
+    },
+  ];
+  return bundle;
+}
+
+// ============================================
+// verifyBundleOffline
+// ============================================
+
+describe("verifyBundleOffline", () => {
+  it("passes an untouched bundle at L1 and warns that the key is not pinned", () => {
+    const report = verifyBundleOffline(loadBundle());
+
+    expect(report.checks.filter((c) => c.status === "FAIL")).toEqual([]);
+    expect(report.passed).toBe(true);
+    expect(report.exitCode).toBe(EXIT_CODE.PASS);
+    expect(report.level).toBe("L1_LEDGER");
+    expect(report.eventCount).toBe(12);
+    expect(statusOf(report, "Genesis anchor")).toBe("PASS");
+    expect(statusOf(report, "Signing key")).toBe("WARN");
+  });
+
+  it("produces byte-identical output for the same bundle", () => {
+    const first = formatOfflineReport(verifyBundleOffline(loadBundle()));
+    const second = formatOfflineReport(verifyBundleOffline(loadBundle()));
+
+    expect(first).toBe(second);
+    expect(first).toContain("Result: PASS — L1_LEDGER (required L1_LEDGER)");
+  });
+
+  it("accepts the pinned signing key and rejects any other", () => {
+    const { publicKey } = getSigningKeyPair();
+
+    const pinned = verifyBundleOffline(loadBundle(), { trustedPublicKeys: [publicKey] });
+    expect(statusOf(pinned, "Signing key")).toBe("PASS");
+
+    const other = verifyBundleOffline(loadBundle(), { trustedPublicKeys: ["ab".repeat(32)] });
+    expect(statusOf(other, "Signing key")).toBe("FAIL");
+    expect(other.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+
+  it("fails when a trade in the ledger was altered", () => {
+    const bundle = loadBundle();
+    const close = bundle.events.find((e) => e.eventType === "TRADE_CLOSE")!;
+    close.payload = { ...close.payload, profit: 2500 };
+
+    const report = verifyBundleOffline(bundle);
+    expect(report.passed).toBe(false);
+    expect(statusOf(report, "Genesis anchor")).toBe("FAIL");
+    expect(statusOf(report, "Deterministic replay")).toBe("FAIL");
+  });
+
+  it("fails when the report body was edited after signing", () => {
+    const bundle = loadBundle();
+    bundle.report.body.statistics.totalTrades += 1;
+
+    const report = verifyBundleOffline(bundle);
+    expect(statusOf(report, "Report body hash")).toBe("FAIL");
+    expect(report.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+
+  it("fails when events were dropped from the signed range", () => {
+    const bundle = loadBundle();
+    bundle.events = bundle.events.slice(0, -1);
+
+    const report = verifyBundleOffline(bundle);
+    expect(statusOf(report, "Event range")).toBe("FAIL");
+    expect(statusOf(report, "Ledger root hash")).toBe("FAIL");
+  });
+
+  it("fails when the required level is not reached", () => {
+    const report = verifyBundleOffline(loadBundle(), { requiredLevel: "L3_NOTARIZED" });
+
+    expect(report.level).toBe("L1_LEDGER");
+    expect(report.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+
+  it("reaches L3 with an RFC 3161 token from the pinned TSA", () => {
+    const tsa = createLocalTsa();
+    const report = verifyBundleOffline(withNotarizedCommitment(loadBundle(), tsa), {
+      tsaCertificatePem: tsa.certificatePem,
+      requiredLevel: "L3_NOTARIZED",
+    });
+
+    expect(report.level).toBe("L3_NOTARIZED");
+    expect(report.passed).toBe(true);
+    expect(report.checks.find((c) => c.name === "Notarization")?.detail).toContain(
+      tsa.certificate.fingerprint256
+    );
+  });
+
+  it("rejects an RFC 3161 token from another TSA than the pinned one", () => {
+    const report = verifyBundleOffline(withNotarizedCommitment(loadBundle(), createLocalTsa()), {
+      tsaCertificatePem: createLocalTsa().certificatePem,
+    });
+
+    expect(report.level).toBe("L1_LEDGER");
+    expect(statusOf(report, "Ledger commitments")).toBe("FAIL");
+    expect(report.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+
+  it("ignores a claimed L3 result when the bundle has no commitments", () => {
+    const bundle = loadBundle();
+    bundle.commitments = [];
+    bundle.verification.l3 = {
+      notarized: true,
+      notarizationTimestamp: "2024-01-01T00:00:00.000Z",
+      notarizationProof: "forged",
+      provider: "rfc3161",
+      tsaCertificateFingerprint: null,
+      errors: [],
+    };
+
+    const report = verifyBundleOffline(bundle, { requiredLevel: "L3_NOTARIZED" });
+    expect(report.level).toBe("L1_LEDGER");
+    expect(statusOf(report, "Notarization")).toBe("SKIP");
+    expect(report.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+
+  it("does not count receipts that cannot be verified offline as notarized", () => {
+    const tsa = createLocalTsa();
+    const bundle = withNotarizedCommitment(loadBundle(), tsa);
+    bundle.commitments[0] = { ...bundle.commitments[0], provider: "made-up", proof: "nothing" };
+
+    const report = verifyBundleOffline(bundle, {
+      tsaCertificatePem: tsa.certificatePem,
+      requiredLevel: "L3_NOTARIZED",
+    });
+    expect(report.level).toBe("L1_LEDGER");
+    expect(statusOf(report, "Notarization receipts")).toBe("SKIP");
+    expect(statusOf(report, "Notarization")).toBe("SKIP");
+    expect(report.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+
+  it("warns when an RFC 3161 token is not pinned to a TSA certificate", () => {
+    const tsa = createLocalTsa();
+    const report = verifyBundleOffline(withNotarizedCommitment(loadBundle(), tsa));
+
+    expect(report.level).toBe("L3_NOTARIZED");
+    expect(statusOf(report, "TSA certificate")).toBe("WARN");
+    expect(report.checks.find((c) => c.name === "TSA certificate")?.detail).toContain(
+      tsa.certificate.fingerprint256
+    );
+
+    const pinned = verifyBundleOffline(withNotarizedCommitment(loadBundle(), tsa), {
+      tsaCertificatePem: tsa.certificatePem,
+    });
+    expect(statusOf(pinned, "TSA certificate")).toBeUndefined();
+  });
+
+  it("fails a required L3 when the self-signed TSA is not pinned", () => {
+    const tsa = createLocalTsa();
+    const report = verifyBundleOffline(withNotarizedCommitment(loadBundle(), tsa), {
+      requiredLevel: "L3_NOTARIZED",
+    });
+
+    expect(tsa.certificate.issuer).toBe(tsa.certificate.subject);
+    expect(statusOf(report, "TSA certificate")).toBe("FAIL");
+    expect(report.checks.find((c) => c.name === "TSA certificate")?.detail).toContain("--tsa-cert");
+    expect(report.passed).toBe(false);
+    expect(report.exitCode).toBe(EXIT_CODE.FAIL);
+  });
+});
+
+// ============================================
+// parseProofBundle
+// ============================================
+
+describe("parseProofBundle", () => {
+  it("rejects invalid JSON and missing sections", () => {
+    expect(() => parseProofBundle("{not json")).toThrow(ProofBundleFormatError);
+    expect(() => parseProofBundle("[]")).toThrow(/JSON object/);
+
+    const { events: _events, ...withoutEvents } = JSON.parse(bundleJson);
+    expect(() => parseProofBundle(JSON.stringify(withoutEvents))).toThrow(/events/);
+  });
+
+  it("defaults commitments for bundles that predate L3", () => {
+    const { commitments: _commitments, ...legacy } = JSON.parse(bundleJson);
+    expect(parseProofBundle(JSON.stringify(legacy)).commitments).toEqual([]);
+  });
+});
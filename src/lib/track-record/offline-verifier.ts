@@ -0,0 +1,483 @@
+/**
+ * Offline Proof Bundle Verification
+ *
+ * Backs the standalone CLI (scripts/verify-proof-bundle.ts) that investors run
+ * against a ProofBundle JSON file without trusting our verify endpoint.
+ *
+ * Re-runs the full pipeline locally — hash chain, Ed25519 manifest signature,
+ * ledger root, deterministic replay, broker corroboration, RFC 3161 tokens —
+ * and adds the bundle consistency checks only an outside party needs: the
+ * events must be exactly the range the manifest signs, and the signing key
+ * can be pinned to one published out-of-band.
+ *
+ * Pure: no DB, no network, no clock. The same bundle and options always
+ * produce byte-identical output.
+ */
+
+import type { ProofBundle, VerificationLevel, VerificationResult } from "./types";
+import { verifyProofBundle } from "./verifier";
+import { verifyChain } from "./chain-verifier";
+import { canonicalizeReportBody, computeLedgerRootHash, keyFingerprint } from "./manifest";
+import { sha256 } from "./canonical";
+
+// ============================================
+// TYPES
+// ============================================
+
+/** Process exit codes — stable, for automation. */
+export const EXIT_CODE = {
+  PASS: 0,
+  FAIL: 1,
+  INPUT_ERROR: 2,
+} as const;
+
+export const VERIFICATION_LEVELS: readonly VerificationLevel[] = [
+  "L0_NONE",
+  "L1_LEDGER",
+  "L2_BROKER",
+  "L3_NOTARIZED",
+];
+
+export type CheckStatus = "PASS" | "FAIL" | "WARN" | "SKIP";
+
+export interface OfflineCheck {
+  section: "BUNDLE" | "L1" | "L2" | "L3";
+  name: string;
+  status: CheckStatus;
+  detail: string | null;
+}
+
+export interface OfflineVerifyOptions {
+  /** Hex Ed25519 public keys the report must be signed with (published out-of-band) */
+  trustedPublicKeys?: string[];
+  /** TSA certificate (or CA) PEM that RFC 3161 tokens must chain to */
+  tsaCertificatePem?: string;
+  /** Minimum level for a pass (default L1_LEDGER) */
+  requiredLevel?: VerificationLevel;
+}
+
+export interface OfflineVerificationReport {
+  passed: boolean;
+  exitCode: number;
+  level: VerificationLevel;
+  requiredLevel: VerificationLevel;
+  reportId: string;
+  instanceId: string;
+  fromSeqNo: number;
+  toSeqNo: number;
+  eventCount: number;
+  signingKeyFingerprint: string;
+  checks: OfflineCheck[];
+  result: VerificationResult;
+}
+
+/** The bundle file is not a structurally valid ProofBundle. */
+export class ProofBundleFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProofBundleFormatError";
+  }
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+const REQUIRED_ARRAYS = ["events", "checkpoints", "brokerEvidence", "brokerDigests"] as const;
+const REQUIRED_MANIFEST_FIELDS = [
+  "reportId",
+  "instanceId",
+  "fromSeqNo",
+  "toSeqNo",
+  "firstEventHash",
+  "lastEventHash",
+  "ledgerRootHash",
+  "reportBodyHash",
+  "signature",
+  "publicKey",
+] as const;
+
+/**
+ * Parse and structurally validate a ProofBundle JSON document.
+ * Throws ProofBundleFormatError with the first problem found.
+ */
+export function parseProofBundle(json: string): ProofBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    throw new ProofBundleFormatError(
+      `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  if (!isRecord(data)) throw new ProofBundleFormatError("Bundle must be a JSON object");
+  if (!isRecord(data.report) || !isRecord(data.report.manifest) || !isRecord(data.report.body)) {
+    throw new ProofBundleFormatError("Missing report.manifest or report.body");
+  }
+  for (const field of REQUIRED_MANIFEST_FIELDS) {
+    if (data.report.manifest[field] === undefined) {
+      throw new ProofBundleFormatError(`Missing report.manifest.${field}`);
+    }
+  }
+  for (const key of REQUIRED_ARRAYS) {
+    if (!Array.isArray(data[key])) throw new ProofBundleFormatError(`Missing ${key} array`);
+  }
+  // Older bundles predate L3 commitments
+  if (data.commitments !== undefined && !Array.isArray(data.commitments)) {
+    throw new ProofBundleFormatError("commitments must be an array");
+  }
+  if (!isRecord(data.verification)) {
+    throw new ProofBundleFormatError("Missing verification");
+  }
+
+  return { ...data, commitments: data.commitments ?? [] } as unknown as ProofBundle;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+export function verifyBundleOffline(
+  bundle: ProofBundle,
+  options: OfflineVerifyOptions = {}
+): OfflineVerificationReport {
+  const manifest = bundle.report.manifest;
+  const requiredLevel = options.requiredLevel ?? "L1_LEDGER";
+  // Recompute L3 from the commitments — a claimed `verification.l3` proves nothing
+  const result = verifyProofBundle(bundle, {
+    tsaCertificatePem: options.tsaCertificatePem,
+    offline: true,
+  });
+
+  const checks: OfflineCheck[] = [
+    ...checkBundle(bundle, result),
+    ...checkLevel1(bundle, result, options.trustedPublicKeys),
+    ...checkLevel2(result),
+    ...checkLevel3(
+      bundle,
+      result,
+      options.tsaCertificatePem !== undefined,
+      requiredLevel === "L3_NOTARIZED"
+    ),
+  ];
+
+  const meetsLevel =
+    VERIFICATION_LEVELS.indexOf(result.level) >= VERIFICATION_LEVELS.indexOf(requiredLevel);
+  const passed = meetsLevel && !checks.some((c) => c.status === "FAIL");
+
+  return {
+    passed,
+    exitCode: passed ? EXIT_CODE.PASS : EXIT_CODE.FAIL,
+    level: result.level,
+    requiredLevel,
+    reportId: manifest.reportId,
+    instanceId: manifest.instanceId,
+    fromSeqNo: manifest.fromSeqNo,
+    toSeqNo: manifest.toSeqNo,
+    eventCount: bundle.events.length,
+    signingKeyFingerprint: keyFingerprint(manifest.publicKey),
+    checks,
+    result,
+  };
+}
+
+function check(
+  section: OfflineCheck["section"],
+  name: string,
+  status: CheckStatus,
+  detail: string | null = null
+): OfflineCheck {
+  return { section, name, status, detail };
+}
+
+/** The events must be exactly the range the manifest signs. */
+function checkBundle(bundle: ProofBundle, result: VerificationResult): OfflineCheck[] {
+  const manifest = bundle.report.manifest;
+  const events = bundle.events;
+  const checks: OfflineCheck[] = [];
+
+  if (events.length === 0) {
+    return [check("BUNDLE", "Event range", "FAIL", "Bundle contains no events")];
+  }
+  const first = events[0];
+  const last = events[events.length - 1];
+
+  checks.push(
+    first.seqNo === manifest.fromSeqNo && last.seqNo === manifest.toSeqNo
+      ? check("BUNDLE", "Event range", "PASS", `seqNo ${first.seqNo}–${last.seqNo}`)
+      : check(
+          "BUNDLE",
+          "Event range",
+          "FAIL",
+          `events cover seqNo ${first.seqNo}–${last.seqNo}, manifest signs ${manifest.fromSeqNo}–${manifest.toSeqNo}`
+        )
+  );
+  checks.push(
+    first.eventHash === manifest.firstEventHash && last.eventHash === manifest.lastEventHash
+      ? check("BUNDLE", "Range endpoints", "PASS")
+      : check(
+          "BUNDLE",
+          "Range endpoints",
+          "FAIL",
+          "First/last event hashes differ from the manifest"
+        )
+  );
+
+  // A range starting at seqNo 1 must link back to the genesis hash
+  if (first.seqNo === 1) {
+    const chain = verifyChain(
+      events.map((e) => ({
+        ...e,
+        instanceId: manifest.instanceId,
+        timestamp: new Date(e.timestamp * 1000),
+      })),
+      manifest.instanceId
+    );
+    checks.push(
+      chain.valid
+        ? check("BUNDLE", "Genesis anchor", "PASS")
+        : check("BUNDLE", "Genesis anchor", "FAIL", chain.error ?? null)
+    );
+  } else {
+    checks.push(
+      check(
+        "BUNDLE",
+        "Genesis anchor",
+        "SKIP",
+        `Partial range — first event links to seqNo ${first.seqNo - 1} outside the bundle`
+      )
+    );
+  }
+
+  const claimed = bundle.verification?.level;
+  if (claimed && claimed !== result.level) {
+    checks.push(
+      check(
+        "BUNDLE",
+        "Server verdict",
+        "WARN",
+        `Bundle claims ${claimed}, recomputed ${result.level}`
+      )
+    );
+  }
+
+  return checks;
+}
+
+function checkLevel1(
+  bundle: ProofBundle,
+  result: VerificationResult,
+  trustedPublicKeys: string[] | undefined
+): OfflineCheck[] {
+  const manifest = bundle.report.manifest;
+  const l1 = result.l1;
+  const checks: OfflineCheck[] = [];
+
+  checks.push(
+    l1.chainValid
+      ? check("L1", "Hash chain", "PASS", `${l1.chainLength} events`)
+      : check("L1", "Hash chain", "FAIL", firstError(l1.errors, /seqNo|prevHash|eventHash/))
+  );
+  checks.push(
+    l1.signatureValid
+      ? check("L1", "Ed25519 signature", "PASS")
+      : check("L1", "Ed25519 signature", "FAIL", "Manifest signature does not verify")
+  );
+
+  const fingerprint = keyFingerprint(manifest.publicKey);
+  if (trustedPublicKeys && trustedPublicKeys.length > 0) {
+    const pinned = trustedPublicKeys.some(
+      (k) => k.toLowerCase() === manifest.publicKey.toLowerCase()
+    );
+    checks.push(
+      pinned
+        ? check("L1", "Signing key", "PASS", `pinned key ${fingerprint}`)
+        : check("L1", "Signing key", "FAIL", `key ${fingerprint} is not one of the pinned keys`)
+    );
+  } else {
+    checks.push(
+      check(
+        "L1",
+        "Signing key",
+        "WARN",
+        `Not pinned — compare fingerprint ${fingerprint} with the published key`
+      )
+    );
+  }
+
+  const rootHash = computeLedgerRootHash(bundle.events.map((e) => e.eventHash));
+  checks.push(
+    rootHash === manifest.ledgerRootHash
+      ? check("L1", "Ledger root hash", "PASS")
+      : check("L1", "Ledger root hash", "FAIL", `computed ${rootHash}`)
+  );
+  const bodyHash = sha256(canonicalizeReportBody(bundle.report.body));
+  checks.push(
+    bodyHash === manifest.reportBodyHash
+      ? check("L1", "Report body hash", "PASS")
+      : check("L1", "Report body hash", "FAIL", "Report content was modified after signing")
+  );
+
+  checks.push(
+    l1.reportReproducible
+      ? check("L1", "Deterministic replay", "PASS")
+      : check("L1", "Deterministic replay", "FAIL", firstError(l1.errors, /mismatch: replayed/))
+  );
+
+  if (l1.checkpointCount === 0) {
+    checks.push(check("L1", "Checkpoints", "SKIP", "No checkpoints in range"));
+  } else {
+    checks.push(
+      l1.checkpointsValid
+        ? check(
+            "L1",
+            "Checkpoints",
+            "PASS",
+            `${l1.checkpointCount} replayed (HMACs need the server secret)`
+          )
+        : check("L1", "Checkpoints", "FAIL", firstError(l1.errors, /^Checkpoint/))
+    );
+  }
+
+  for (const caveat of l1.caveats ?? []) {
+    checks.push(check("L1", "Caveat", "WARN", caveat));
+  }
+
+  return checks;
+}
+
+function checkLevel2(result: VerificationResult): OfflineCheck[] {
+  const l2 = result.l2;
+  if (!l2) return [check("L2", "Broker corroboration", "SKIP", "No broker evidence in bundle")];
+
+  const checks: OfflineCheck[] = [];
+  if (l2.brokerEvidenceCount > 0) {
+    checks.push(
+      l2.mismatchedCount === 0
+        ? check("L2", "Broker evidence", "PASS", `${l2.matchedCount} matched`)
+        : check(
+            "L2",
+            "Broker evidence",
+            "FAIL",
+            `${l2.mismatchedCount} mismatched: ${l2.mismatches.join(", ")}`
+          )
+    );
+  }
+  if (l2.digestCount > 0) {
+    checks.push(
+      l2.digestValid
+        ? check("L2", "Broker history digests", "PASS", `${l2.digestCount} digests`)
+        : check("L2", "Broker history digests", "FAIL")
+    );
+  }
+  return checks;
+}
+
+function checkLevel3(
+  bundle: ProofBundle,
+  result: VerificationResult,
+  tsaPinned: boolean,
+  l3Required: boolean
+): OfflineCheck[] {
+  const l3 = result.l3;
+  if (!l3) return [check("L3", "Notarization", "SKIP", "No ledger commitments in bundle")];
+
+  const errors = l3.errors ?? [];
+  const checks: OfflineCheck[] = [
+    errors.length === 0
+      ? check("L3", "Ledger commitments", "PASS")
+      : check("L3", "Ledger commitments", "FAIL", errors.join("; ")),
+  ];
+
+  // Only RFC 3161 tokens can be checked without contacting the provider
+  const unverifiable = [
+    ...new Set(
+      bundle.commitments
+        .filter((c) => c.notarizedAt && c.provider !== "rfc3161")
+        .map((c) => c.provider ?? "unknown")
+    ),
+  ];
+  if (unverifiable.length > 0) {
+    checks.push(
+      check(
+        "L3",
+        "Notarization receipts",
+        "SKIP",
+        `${unverifiable.join(", ")} receipts cannot be verified offline`
+      )
+    );
+  }
+
+  if (l3.notarized) {
+    const tsa = l3.tsaCertificateFingerprint ? `, TSA ${l3.tsaCertificateFingerprint}` : "";
+    checks.push(
+      check("L3", "Notarization", "PASS", `${l3.provider} at ${l3.notarizationTimestamp}${tsa}`)
+    );
+    // Any self-signed certificate can sign a token: requiring L3 means pinning the TSA
+    if (!tsaPinned && l3Required) {
+      checks.push(
+        check(
+          "L3",
+          "TSA certificate",
+          "FAIL",
+          `L3_NOTARIZED requires a pinned TSA certificate (--tsa-cert); token signed by ${l3.tsaCertificateFingerprint}`
+        )
+      );
+    } else if (!tsaPinned) {
+      checks.push(
+        check(
+          "L3",
+          "TSA certificate",
+          "WARN",
+          `Not pinned — compare fingerprint ${l3.tsaCertificateFingerprint} with the TSA's published certificate`
+        )
+      );
+    }
+  } else if (errors.length === 0) {
+    checks.push(check("L3", "Notarization", "SKIP", "No verifiable notarized commitments"));
+  }
+  return checks;
+}
+
+function firstError(errors: string[], pattern: RegExp): string | null {
+  return errors.find((e) => pattern.test(e)) ?? null;
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+/** Human-readable report. Deterministic: derived only from the bundle. */
+export function formatOfflineReport(report: OfflineVerificationReport): string {
+  const lines = [
+    "Proof bundle verification",
+    `  Report      ${report.reportId}`,
+    `  Instance    ${report.instanceId}`,
+    `  Range       seqNo ${report.fromSeqNo}–${report.toSeqNo} (${report.eventCount} events)`,
+    `  Signing key ${report.signingKeyFingerprint}`,
+  ];
+
+  for (const section of ["BUNDLE", "L1", "L2", "L3"] as const) {
+    lines.push("", `[${section}]`);
+    for (const c of report.checks.filter((c) => c.section === section)) {
+      lines.push(`  ${c.status.padEnd(4)}  ${c.name}${c.detail ? ` — ${c.detail}` : ""}`);
+    }
+  }
+
+  lines.push(
+    "",
+    `Result: ${report.passed ? "PASS" : "FAIL"} — ${report.level} (required ${report.requiredLevel})`
+  );
+  return lines.join("\n");
+}
+
+/** Machine-readable report (stable key order). */
+export function formatOfflineReportJson(report: OfflineVerificationReport): string {
+  const { result: _result, ...summary } = report;
+  return JSON.stringify(summary, null, 2);
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import {
+  RFC3161NotarizationProvider,
+  buildTimeStampRequest,
+  parseTimeStampRequest,
+  parseTimeStampResponse,
+  verifyTimeStampToken,
+} from "./rfc3161";
+import { createLocalTsa } from "./local-tsa";
+import { encodeInteger, encodeSequence } from "./asn1";
+
+const HASH = "ab".repeat(32);
+const OTHER_HASH = "cd".repeat(32);
+
+function requestToken(tsa: ReturnType<typeof createLocalTsa>, hash = HASH): Buffer {
+  return parseTimeStampResponse(tsa.respond(buildTimeStampRequest(hash, Buffer.from([1, 2, 3]))));
+}
+
+// ============================================
+// REQUEST ENCODING
+// ============================================
+
+describe("buildTimeStampRequest", () => {
+  it("round-trips the digest, nonce and certReq", () => {
+    const parsed = parseTimeStampRequest(buildTimeStampRequest(HASH, Buffer.from([0x80, 0x01])));
+
+    expect(parsed.hashAlgorithm).toBe("2.16.840.1.101.3.4.2.1");
+    expect(parsed.hashedMessage.toString("hex")).toBe(HASH);
+    expect(parsed.nonce?.toString("hex")).toBe("008001");
+    expect(parsed.certReq).toBe(true);
+  });
+
+  it("rejects anything but a SHA-256 hex digest", () => {
+    expect(() => buildTimeStampRequest("not-a-hash", Buffer.from([1]))).toThrow(/SHA-256/);
+  });
+});
+
+describe("parseTimeStampResponse", () => {
+  it("throws when the TSA rejects the request", () => {
+    const rejection = encodeSequence(encodeSequence(encodeInteger(2)));
+    expect(() => parseTimeStampResponse(rejection)).toThrow(/status 2/);
+  });
+});
+
+// ============================================
+// TOKEN VERIFICATION
+// ============================================
+
+describe("verifyTimeStampToken", () => {
+  it("accepts a token from the local TSA, with and without a pinned certificate", () => {
+    const tsa = createLocalTsa();
+    const token = requestToken(tsa);
+
+    const embedded = verifyTimeStampToken(token, HASH);
+    expect(embedded.errors).toEqual([]);
+    expect(embedded.valid).toBe(true);
+    expect(embedded.tsaCertificateFingerprint).toBe(tsa.certificate.fingerprint256);
+
+    const pinned = verifyTimeStampToken(token.toString("base64"), HASH, tsa.certificatePem);
+    expect(pinned.valid).toBe(true);
+  });
+
+  it("reports the TSA's genTime", () => {
+    const genTime = new Date("2026-10-19T12:00:00.250Z");
+    const tsa = createLocalTsa({ now: () => genTime });
+
+    expect(verifyTimeStampToken(requestToken(tsa), HASH).genTime).toBe(genTime.toISOString());
+  });
+
+  it("rejects a token for a different hash", () => {
+    const result = verifyTimeStampToken(requestToken(createLocalTsa()), OTHER_HASH);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain("Message imprint does not match the commitment hash");
+  });
+
+  it("rejects a token signed by another TSA than the pinned one", () => {
+    const result = verifyTimeStampToken(
+      requestToken(createLocalTsa()),
+      HASH,
+      createLocalTsa().certificatePem
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain("Token was not signed by the trusted TSA certificate");
+  });
+
+  it("rejects a token whose TSTInfo was tampered with", () => {
+    const token = requestToken(createLocalTsa());
+    // The digest sits inside TSTInfo — flip one of its bytes
+    const offset = token.indexOf(Buffer.from(HASH, "hex"));
+    token[offset] ^= 0xff;
+
+    const result = verifyTimeStampToken(token, "54" + HASH.slice(2));
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain("Signed messageDigest does not match TSTInfo");
+  });
+
+  it("rejects a timestamp outside the certificate validity", () => {
+    const tsa = createLocalTsa({
+      notBefore: new Date("2026-01-01T00:00:00Z"),
+      notAfter: new Date("2026-02-01T00:00:00Z"),
+      now: () => new Date("2026-10-19T00:00:00Z"),
+    });
+
+    expect(verifyTimeStampToken(requestToken(tsa), HASH).errors).toContain(
+      "Timestamp falls outside the signing certificate's validity period"
+    );
+  });
+
+  it("reports malformed tokens instead of throwing", () => {
+    const result = verifyTimeStampToken(Buffer.from("garbage"), HASH);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+  });
+});
+
+// ============================================
+// PROVIDER
+// ============================================
+
+describe("RFC3161NotarizationProvider", () => {
+  it("notarizes a hash through the TSA and verifies the receipt", async () => {
+    const tsa = createLocalTsa();
+    const provider = new RFC3161NotarizationProvider({
+      url: "https://tsa.test/",
+      certificatePem: tsa.certificatePem,
+      fetch: tsa.fetch,
+    });
+
+    const receipt = await provider.notarize(HASH);
+
+    expect(receipt.provider).toBe("rfc3161");
+    expect(receipt.hash).toBe(HASH);
+    expect(await provider.verify(receipt)).toBe(true);
+    expect(await provider.verify({ ...receipt, hash: OTHER_HASH })).toBe(false);
+  });
+
+  it("refuses tokens from an untrusted TSA", async () => {
+    const provider = new RFC3161NotarizationProvider({
+      url: "https://tsa.test/",
+      certificatePem: createLocalTsa().certificatePem,
+      fetch: createLocalTsa().fetch,
+    });
+
+    await expect(provider.notarize(HASH)).rejects.toThrow(/invalid token/);
+  });
+
+  it("surfaces HTTP errors from the TSA", async () => {
+    const provider = new RFC3161NotarizationProvider({
+      url: "https://tsa.test/",
+      fetch: async () => new Response("unavailable", { status: 503 }),
+    });
+
+    await expect(provider.notarize(HASH)).rejects.toThrow(/HTTP 503/);
+  });
+});
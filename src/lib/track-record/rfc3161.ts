@@ -0,0 +1,494 @@
+/**
+ * RFC 3161 Time-Stamp Protocol — client and offline token verification.
+ *
+ * A commitment hash is sent to a Time Stamping Authority (TSA) as a
+ * TimeStampReq. The TSA answers with a TimeStampToken: a CMS SignedData
+ * whose content (TSTInfo) binds the hash to the TSA's clock, signed with a
+ * certificate carrying the id-kp-timeStamping extended key usage.
+ *
+ * The token is self-contained (we always request the TSA certificate), so
+ * verifyTimeStampToken() works offline from a proof bundle. Pass the TSA
+ * certificate (or its issuing CA) to pin trust; without it, the token is
+ * checked against its embedded certificate and the certificate fingerprint
+ * is reported for the third party to compare with the TSA's published one.
+ */
+
+import { X509Certificate, createHash, randomBytes, verify as verifySignature } from "crypto";
+import {
+  TAG,
+  contextTag,
+  children,
+  decodeGeneralizedTime,
+  decodeIntegerHex,
+  decodeOid,
+  decodeSmallInteger,
+  encodeBoolean,
+  encodeInteger,
+  encodeNull,
+  encodeOctetString,
+  encodeOid,
+  encodeSequence,
+  expectTag,
+  parseDer,
+  type DerNode,
+} from "./asn1";
+import type { NotarizationProvider, NotarizationReceipt } from "./types";
+
+// ============================================
+// OBJECT IDENTIFIERS
+// ============================================
+
+export const OID = {
+  SHA1: "1.3.14.3.2.26",
+  SHA256: "2.16.840.1.101.3.4.2.1",
+  SHA384: "2.16.840.1.101.3.4.2.2",
+  SHA512: "2.16.840.1.101.3.4.2.3",
+  RSA_ENCRYPTION: "1.2.840.113549.1.1.1",
+  SHA256_WITH_RSA: "1.2.840.113549.1.1.11",
+  SHA384_WITH_RSA: "1.2.840.113549.1.1.12",
+  SHA512_WITH_RSA: "1.2.840.113549.1.1.13",
+  EC_PUBLIC_KEY: "1.2.840.10045.2.1",
+  ECDSA_WITH_SHA256: "1.2.840.10045.4.3.2",
+  ECDSA_WITH_SHA384: "1.2.840.10045.4.3.3",
+  ECDSA_WITH_SHA512: "1.2.840.10045.4.3.4",
+  SIGNED_DATA: "1.2.840.113549.1.7.2",
+  TST_INFO: "1.2.840.113549.1.9.16.1.4",
+  ATTR_CONTENT_TYPE: "1.2.840.113549.1.9.3",
+  ATTR_MESSAGE_DIGEST: "1.2.840.113549.1.9.4",
+  ATTR_SIGNING_CERTIFICATE: "1.2.840.113549.1.9.16.2.12",
+  ATTR_SIGNING_CERTIFICATE_V2: "1.2.840.113549.1.9.16.2.47",
+  EKU_TIME_STAMPING: "1.3.6.1.5.5.7.3.8",
+} as const;
+
+const HASH_BY_OID: Record<string, string> = {
+  [OID.SHA1]: "sha1",
+  [OID.SHA256]: "sha256",
+  [OID.SHA384]: "sha384",
+  [OID.SHA512]: "sha512",
+};
+
+/** Signature algorithms we can check → the hash they fix, or null to use the SignerInfo digest. */
+const SIGNATURE_HASH_BY_OID: Record<string, string | null> = {
+  [OID.RSA_ENCRYPTION]: null,
+  [OID.EC_PUBLIC_KEY]: null,
+  [OID.SHA256_WITH_RSA]: "sha256",
+  [OID.SHA384_WITH_RSA]: "sha384",
+  [OID.SHA512_WITH_RSA]: "sha512",
+  [OID.ECDSA_WITH_SHA256]: "sha256",
+  [OID.ECDSA_WITH_SHA384]: "sha384",
+  [OID.ECDSA_WITH_SHA512]: "sha512",
+};
+
+/** PKIStatus values that carry a token: granted (0) and grantedWithMods (1). */
+const GRANTED_STATUSES = new Set([0, 1]);
+
+const NONCE_BYTES = 8;
+const DEFAULT_TSA_TIMEOUT_MS = 10_000;
+const SHA256_HEX = /^[0-9a-f]{64}$/i;
+
+// ============================================
+// REQUEST / RESPONSE
+// ============================================
+
+/**
+ * DER-encoded TimeStampReq for a SHA-256 digest given as hex.
+ * The digest is submitted as-is (commitment hashes are already SHA-256).
+ */
+export function buildTimeStampRequest(hashHex: string, nonce: Buffer): Buffer {
+  if (!SHA256_HEX.test(hashHex)) {
+    throw new Error("RFC 3161: hash must be a 64-character SHA-256 hex digest");
+  }
+  return encodeSequence(
+    encodeInteger(1),
+    encodeMessageImprint(Buffer.from(hashHex, "hex")),
+    encodeInteger(nonce),
+    encodeBoolean(true) // certReq — embed the TSA certificate for offline verification
+  );
+}
+
+export function encodeMessageImprint(digest: Buffer): Buffer {
+  return encodeSequence(
+    encodeSequence(encodeOid(OID.SHA256), encodeNull()),
+    encodeOctetString(digest)
+  );
+}
+
+export interface ParsedTimeStampRequest {
+  hashAlgorithm: string;
+  hashedMessage: Buffer;
+  /** Raw MessageImprint encoding, echoed unchanged into TSTInfo */
+  messageImprint: Buffer;
+  nonce: Buffer | null;
+  certReq: boolean;
+}
+
+/** Parse a TimeStampReq (used by the local test TSA). */
+export function parseTimeStampRequest(der: Buffer): ParsedTimeStampRequest {
+  const fields = children(expectTag(parseDer(der), TAG.SEQUENCE, "TimeStampReq"));
+  const imprint = expectTag(fields[1], TAG.SEQUENCE, "MessageImprint");
+  const [algId, hashed] = children(imprint);
+
+  let nonce: Buffer | null = null;
+  let certReq = false;
+  for (const field of fields.slice(2)) {
+    if (field.tag === TAG.INTEGER) nonce = field.content;
+    if (field.tag === TAG.BOOLEAN) certReq = field.content[0] !== 0;
+  }
+
+  return {
+    hashAlgorithm: decodeOid(children(algId)[0]),
+    hashedMessage: expectTag(hashed, TAG.OCTET_STRING, "hashedMessage").content,
+    messageImprint: imprint.raw,
+    nonce,
+    certReq,
+  };
+}
+
+/**
+ * Extract the TimeStampToken from a DER TimeStampResp.
+ * Throws when the TSA rejected the request.
+ */
+export function parseTimeStampResponse(der: Buffer): Buffer {
+  const [statusInfo, token] = children(expectTag(parseDer(der), TAG.SEQUENCE, "TimeStampResp"));
+  const statusFields = children(expectTag(statusInfo, TAG.SEQUENCE, "PKIStatusInfo"));
+  const status = decodeSmallInteger(statusFields[0]);
+
+  if (!GRANTED_STATUSES.has(status)) {
+    const text = statusFields[1]
+      ? children(statusFields[1])
+          .map((s) => s.content.toString("utf8"))
+          .join("; ")
+      : "";
+    throw new Error(
+      `RFC 3161: TSA rejected the request (status ${status}${text ? `: ${text}` : ""})`
+    );
+  }
+  if (!token) throw new Error("RFC 3161: granted response has no TimeStampToken");
+  return expectTag(token, TAG.SEQUENCE, "TimeStampToken").raw;
+}
+
+// ============================================
+// TOKEN VERIFICATION
+// ============================================
+
+export interface TimeStampTokenVerification {
+  valid: boolean;
+  /** TSA-asserted time of the timestamp (ISO 8601) */
+  genTime: string | null;
+  serialNumber: string | null;
+  /** SHA-256 fingerprint of the signing certificate (hex, colon-separated) */
+  tsaCertificateFingerprint: string | null;
+  tsaSubject: string | null;
+  errors: string[];
+}
+
+interface DecodedToken {
+  tstInfo: Buffer;
+  hashedMessage: Buffer;
+  imprintAlgorithm: string;
+  genTime: Date;
+  serialNumber: string;
+  nonce: string | null;
+  certificates: X509Certificate[];
+  signerSerial: string | null;
+  digestAlgorithm: string;
+  signatureAlgorithm: string;
+  signedAttrs: DerNode | null;
+  signature: Buffer;
+}
+
+/**
+ * Verify a TimeStampToken against the hash it claims to timestamp.
+ *
+ * Checks: the message imprint equals the hash, the signed messageDigest
+ * attribute matches TSTInfo, the CMS signature verifies with the signer
+ * certificate, the certificate is a timestamping certificate valid at
+ * genTime, and — when `trustedCertificatePem` is given — the signer is that
+ * certificate or was issued by it.
+ */
+export function verifyTimeStampToken(
+  token: Buffer | string,
+  hashHex: string,
+  trustedCertificatePem?: string
+): TimeStampTokenVerification {
+  const result: TimeStampTokenVerification = {
+    valid: false,
+    genTime: null,
+    serialNumber: null,
+    tsaCertificateFingerprint: null,
+    tsaSubject: null,
+    errors: [],
+  };
+
+  let decoded: DecodedToken;
+  try {
+    decoded = decodeToken(typeof token === "string" ? Buffer.from(token, "base64") : token);
+  } catch (err) {
+    result.errors.push(err instanceof Error ? err.message : String(err));
+    return result;
+  }
+  result.genTime = decoded.genTime.toISOString();
+  result.serialNumber = decoded.serialNumber;
+
+  const errors = result.errors;
+
+  // 1. The token timestamps the hash we expect
+  if (decoded.imprintAlgorithm !== OID.SHA256) {
+    errors.push("Message imprint is not a SHA-256 digest");
+  } else if (decoded.hashedMessage.toString("hex") !== hashHex.toLowerCase()) {
+    errors.push("Message imprint does not match the commitment hash");
+  }
+
+  // 2. Signer certificate
+  const signer = selectSignerCertificate(decoded);
+  if (!signer) {
+    errors.push("Signing certificate not found in token");
+    return result;
+  }
+  result.tsaCertificateFingerprint = signer.fingerprint256;
+  result.tsaSubject = signer.subject;
+
+  if (trustedCertificatePem) {
+    let trusted: X509Certificate;
+    try {
+      trusted = new X509Certificate(trustedCertificatePem);
+    } catch {
+      errors.push("Trusted TSA certificate could not be parsed");
+      return result;
+    }
+    const isTrusted =
+      signer.fingerprint256 === trusted.fingerprint256 ||
+      (signer.checkIssued(trusted) && signer.verify(trusted.publicKey));
+    if (!isTrusted) errors.push("Token was not signed by the trusted TSA certificate");
+  }
+
+  if (!(signer.keyUsage ?? []).includes(OID.EKU_TIME_STAMPING)) {
+    errors.push("Signing certificate lacks the timeStamping extended key usage");
+  }
+  const notBefore = new Date(signer.validFrom);
+  const notAfter = new Date(signer.validTo);
+  if (decoded.genTime < notBefore || decoded.genTime > notAfter) {
+    errors.push("Timestamp falls outside the signing certificate's validity period");
+  }
+
+  // 3. CMS signature over the signed attributes
+  errors.push(...verifySignerInfo(decoded, signer));
+
+  result.valid = errors.length === 0;
+  return result;
+}
+
+function decodeToken(der: Buffer): DecodedToken {
+  const [contentType, wrapped] = children(expectTag(parseDer(der), TAG.SEQUENCE, "ContentInfo"));
+  if (decodeOid(contentType) !== OID.SIGNED_DATA) throw new Error("Token is not CMS SignedData");
+  const [signedData] = children(expectTag(wrapped, contextTag(0), "SignedData wrapper"));
+  const sdFields = children(expectTag(signedData, TAG.SEQUENCE, "SignedData"));
+
+  // version, digestAlgorithms, encapContentInfo, [0] certificates, [1] crls, signerInfos
+  const [eContentType, eContentWrapper] = children(
+    expectTag(sdFields[2], TAG.SEQUENCE, "EncapsulatedContentInfo")
+  );
+  if (decodeOid(eContentType) !== OID.TST_INFO) throw new Error("Token content is not TSTInfo");
+  const [eContent] = children(expectTag(eContentWrapper, contextTag(0), "eContent"));
+  const tstInfo = expectTag(eContent, TAG.OCTET_STRING, "TSTInfo octets").content;
+
+  const certificates: X509Certificate[] = [];
+  let signerInfos: DerNode | undefined;
+  for (const field of sdFields.slice(3)) {
+    if (field.tag === contextTag(0)) {
+      for (const cert of children(field)) {
+        if (cert.tag === TAG.SEQUENCE) certificates.push(new X509Certificate(cert.raw));
+      }
+    } else if (field.tag === TAG.SET) {
+      signerInfos = field;
+    }
+  }
+  const signerInfoList = children(expectTag(signerInfos, TAG.SET, "SignerInfos"));
+  if (signerInfoList.length !== 1) throw new Error("Token must have exactly one SignerInfo");
+
+  // SignerInfo: version, sid, digestAlgorithm, [0] signedAttrs, signatureAlgorithm, signature
+  const siFields = children(expectTag(signerInfoList[0], TAG.SEQUENCE, "SignerInfo"));
+  const sid = siFields[1];
+  const signerSerial = sid.tag === TAG.SEQUENCE ? decodeIntegerHex(children(sid)[1]) : null; // [0] SKI is matched via ESS
+  const digestAlgorithm = decodeOid(children(siFields[2])[0]);
+
+  let index = 3;
+  let signedAttrs: DerNode | null = null;
+  if (siFields[index]?.tag === contextTag(0)) signedAttrs = siFields[index++];
+  const signatureAlgorithm = decodeOid(children(siFields[index++])[0]);
+  const signature = expectTag(siFields[index], TAG.OCTET_STRING, "signature").content;
+
+  // TSTInfo: version, policy, messageImprint, serialNumber, genTime, [accuracy], [ordering], [nonce], ...
+  const tstFields = children(expectTag(parseDer(tstInfo), TAG.SEQUENCE, "TSTInfo"));
+  const [imprintAlg, hashed] = children(expectTag(tstFields[2], TAG.SEQUENCE, "MessageImprint"));
+  const nonceField = tstFields.slice(5).find((f) => f.tag === TAG.INTEGER);
+
+  return {
+    tstInfo,
+    hashedMessage: expectTag(hashed, TAG.OCTET_STRING, "hashedMessage").content,
+    imprintAlgorithm: decodeOid(children(imprintAlg)[0]),
+    serialNumber: decodeIntegerHex(tstFields[3]),
+    genTime: decodeGeneralizedTime(tstFields[4]),
+    nonce: nonceField ? decodeIntegerHex(nonceField) : null,
+    certificates,
+    signerSerial,
+    digestAlgorithm,
+    signatureAlgorithm,
+    signedAttrs,
+    signature,
+  };
+}
+
+/** Map of signed attribute OID → first attribute value. */
+function readSignedAttributes(signedAttrs: DerNode): Map<string, DerNode> {
+  const attrs = new Map<string, DerNode>();
+  for (const attr of children(signedAttrs)) {
+    const [type, values] = children(attr);
+    const [first] = children(values);
+    if (first) attrs.set(decodeOid(type), first);
+  }
+  return attrs;
+}
+
+/**
+ * The signer is identified by the ESS signingCertificate(V2) hash when present
+ * (RFC 5816), otherwise by the SignerInfo serial number.
+ */
+function selectSignerCertificate(decoded: DecodedToken): X509Certificate | null {
+  const attrs = decoded.signedAttrs ? readSignedAttributes(decoded.signedAttrs) : new Map();
+  const essV2 = attrs.get(OID.ATTR_SIGNING_CERTIFICATE_V2);
+  const essV1 = attrs.get(OID.ATTR_SIGNING_CERTIFICATE);
+
+  if (essV2 || essV1) {
+    const [certIds] = children((essV2 ?? essV1)!);
+    const [firstId] = children(certIds);
+    const idFields = children(firstId);
+    let hashName = essV2 ? "sha256" : "sha1";
+    let certHash = idFields[0];
+    if (essV2 && idFields[0].tag === TAG.SEQUENCE) {
+      hashName = HASH_BY_OID[decodeOid(children(idFields[0])[0])] ?? "";
+      certHash = idFields[1];
+    }
+    if (!hashName) return null;
+    return (
+      decoded.certificates.find((c) =>
+        createHash(hashName).update(c.raw).digest().equals(certHash.content)
+      ) ?? null
+    );
+  }
+
+  if (!decoded.signerSerial) return null;
+  return (
+    decoded.certificates.find(
+      (c) => c.serialNumber.toLowerCase().replace(/^(00)+/, "") === decoded.signerSerial
+    ) ?? null
+  );
+}
+
+function verifySignerInfo(decoded: DecodedToken, signer: X509Certificate): string[] {
+  const errors: string[] = [];
+  const digestName = HASH_BY_OID[decoded.digestAlgorithm];
+  if (!digestName) return [`Unsupported digest algorithm ${decoded.digestAlgorithm}`];
+  if (!(decoded.signatureAlgorithm in SIGNATURE_HASH_BY_OID)) {
+    return [`Unsupported signature algorithm ${decoded.signatureAlgorithm}`];
+  }
+  if (!decoded.signedAttrs) return ["SignerInfo has no signed attributes"];
+
+  const attrs = readSignedAttributes(decoded.signedAttrs);
+  const contentType = attrs.get(OID.ATTR_CONTENT_TYPE);
+  if (!contentType || decodeOid(contentType) !== OID.TST_INFO) {
+    errors.push("Signed contentType attribute is not TSTInfo");
+  }
+  const messageDigest = attrs.get(OID.ATTR_MESSAGE_DIGEST);
+  const tstDigest = createHash(digestName).update(decoded.tstInfo).digest();
+  if (!messageDigest || !messageDigest.content.equals(tstDigest)) {
+    errors.push("Signed messageDigest does not match TSTInfo");
+  }
+
+  // Signed attributes are signed as an explicit SET OF, not the [0] IMPLICIT form
+  const signedBytes = Buffer.concat([Buffer.from([TAG.SET]), decoded.signedAttrs.raw.subarray(1)]);
+  const hashName = SIGNATURE_HASH_BY_OID[decoded.signatureAlgorithm] ?? digestName;
+  let signatureValid = false;
+  try {
+    signatureValid = verifySignature(hashName, signedBytes, signer.publicKey, decoded.signature);
+  } catch {
+    signatureValid = false;
+  }
+  if (!signatureValid) errors.push("TSA signature is invalid");
+
+  return errors;
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+export interface RFC3161ProviderOptions {
+  /** TSA endpoint accepting application/timestamp-query */
+  url: string;
+  /** PEM of the TSA certificate (or its CA) to pin; optional */
+  certificatePem?: string;
+  /** Injectable for tests (see local-tsa.ts) */
+  fetch?: typeof fetch;
+  timeoutMs?: number;
+}
+
+/**
+ * Notarization provider backed by an RFC 3161 TSA.
+ * Receipts carry the base64 DER TimeStampToken as `proof`.
+ */
+export class RFC3161NotarizationProvider implements NotarizationProvider {
+  name = "rfc3161";
+  private options: RFC3161ProviderOptions;
+
+  constructor(options: RFC3161ProviderOptions) {
+    this.options = options;
+  }
+
+  async notarize(hash: string): Promise<NotarizationReceipt> {
+    const nonce = randomBytes(NONCE_BYTES);
+    const request = buildTimeStampRequest(hash, nonce);
+    const doFetch = this.options.fetch ?? fetch;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(
+      () => controller.abort(),
+      this.options.timeoutMs ?? DEFAULT_TSA_TIMEOUT_MS
+    );
+    let response: Response;
+    try {
+      response = await doFetch(this.options.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/timestamp-query" },
+        body: new Uint8Array(request),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+    if (!response.ok) {
+      throw new Error(`RFC 3161: TSA responded with HTTP ${response.status}`);
+    }
+
+    const token = parseTimeStampResponse(Buffer.from(await response.arrayBuffer()));
+    const check = verifyTimeStampToken(token, hash, this.options.certificatePem);
+    if (!check.valid) {
+      throw new Error(`RFC 3161: TSA returned an invalid token (${check.errors.join("; ")})`);
+    }
+    const decoded = decodeToken(token);
+    if (decoded.nonce !== decodeIntegerHex(parseDer(encodeInteger(nonce)))) {
+      throw new Error("RFC 3161: TSA response nonce does not match the request");
+    }
+
+    return {
+      provider: this.name,
+      hash,
+      timestamp: check.genTime!,
+      proof: token.toString("base64"),
+    };
+  }
+
+  async verify(receipt: NotarizationReceipt): Promise<boolean> {
+    return verifyTimeStampToken(receipt.proof, receipt.hash, this.options.certificatePem).valid;
+  }
+}
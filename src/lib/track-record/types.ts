@@ -511,6 +511,9 @@ export interface L3Result {
   notarizationTimestamp: string | null;
   notarizationProof: string | null;
   provider: string | null;
+  /** SHA-256 fingerprint of the TSA certificate that signed the latest RFC 3161 token */
+  tsaCertificateFingerprint: string | null;
+  errors: string[];
 }
 
 // ============================================
@@ -561,6 +564,7 @@ export interface ProofBundle {
     stateHmac: string;
     notarizedAt: string | null;
     provider: string | null;
+    /** Provider receipt — for "rfc3161", the base64 DER TimeStampToken incl. the TSA certificate */
     proof: string | null;
     verifyUrl: string | null;
   }[];
@@ -36,15 +36,30 @@ import {
   keyFingerprint,
 } from "./manifest";
 import { verifyCommitment } from "./ledger-commitment";
+import { verifyTimeStampToken } from "./rfc3161";
 import { replayAll, buildDailyReturns, type ReplayEvent } from "./replay-engine";
 import { moneyStr } from "./decimal";
 import { isSegmentVerified, cacheVerifiedSegment } from "./verification-cache";
 
+export interface VerifyProofBundleOptions {
+  /** Pin RFC 3161 tokens to this TSA certificate (or issuing CA), PEM */
+  tsaCertificatePem?: string;
+  /**
+   * Third-party verification: Level 3 is recomputed from the bundle's
+   * commitments alone — never taken from `bundle.verification.l3` — and only
+   * receipts that can be checked offline (RFC 3161) count as notarized.
+   */
+  offline?: boolean;
+}
+
 /**
  * Verify a complete proof bundle. This is the main entry point for third-party verification.
  * Runs Level 1 (always), Level 2 (if broker evidence present), Level 3 (if notarization present).
  */
-export function verifyProofBundle(bundle: ProofBundle): VerificationResult {
+export function verifyProofBundle(
+  bundle: ProofBundle,
+  options: VerifyProofBundleOptions = {}
+): VerificationResult {
   const l1 = verifyLevel1(bundle);
 
   const l2 =
@@ -54,8 +69,10 @@ export function verifyProofBundle(bundle: ProofBundle): VerificationResult {
 
   const l3 =
     bundle.commitments && bundle.commitments.length > 0
-      ? verifyLevel3(bundle)
-      : (bundle.verification.l3 ?? null);
+      ? verifyLevel3(bundle, options)
+      : options.offline
+        ? null
+        : (bundle.verification.l3 ?? null);
 
   // Determine highest achieved level
   let level: VerificationLevel = "L0_NONE";
@@ -382,7 +399,16 @@ function verifyLevel2(bundle: ProofBundle): L2Result {
 // LEVEL 3 — NOTARIZED COMMITMENTS
 // ============================================
 
-function verifyLevel3(bundle: ProofBundle): L3Result {
+/**
+ * RFC 3161 tokens are checked offline against the commitment hash; a token that
+ * fails is treated as tampering. Other providers' receipts cannot be checked
+ * offline and are reported as-is — unless `offline` is set, in which case they
+ * do not count as notarized.
+ */
+function verifyLevel3(
+  bundle: ProofBundle,
+  { tsaCertificatePem, offline }: VerifyProofBundleOptions
+): L3Result {
   const commitments = bundle.commitments;
   if (!commitments || commitments.length === 0) {
     return {
@@ -390,6 +416,8 @@ function verifyLevel3(bundle: ProofBundle): L3Result {
       notarizationTimestamp: null,
       notarizationProof: null,
       provider: null,
+      tsaCertificateFingerprint: null,
+      errors: [],
     };
   }
 
@@ -399,12 +427,15 @@ function verifyLevel3(bundle: ProofBundle): L3Result {
   let latestNotarization: string | null = null;
   let latestProof: string | null = null;
   let provider: string | null = null;
+  let tsaCertificateFingerprint: string | null = null;
+  const errors: string[] = [];
 
   for (const c of commitments) {
     // Find the event at this commitment's seqNo to get lastEventHash
     const event = bundle.events.find((e) => e.seqNo === c.seqNo);
     if (!event) {
       allValid = false;
+      errors.push(`Commitment at seqNo ${c.seqNo}: event not in bundle`);
       continue;
     }
 
@@ -419,21 +450,39 @@ function verifyLevel3(bundle: ProofBundle): L3Result {
 
     if (!valid) {
       allValid = false;
+      errors.push(`Commitment at seqNo ${c.seqNo}: hash mismatch`);
     }
 
     // Check that the lastEventHash matches the event at that seqNo
     if (c.lastEventHash !== event.eventHash) {
       allValid = false;
+      errors.push(`Commitment at seqNo ${c.seqNo}: lastEventHash does not match the ledger`);
     }
 
-    // Track notarization status
-    if (c.notarizedAt) {
-      hasNotarized = true;
-      if (!latestNotarization || c.notarizedAt > latestNotarization) {
-        latestNotarization = c.notarizedAt;
-        latestProof = c.proof;
-        provider = c.provider;
+    if (!c.notarizedAt) continue;
+
+    // Track notarization status — the TSA's genTime is authoritative for RFC 3161
+    let notarizedAt = c.notarizedAt;
+    let fingerprint: string | null = null;
+    if (c.provider === "rfc3161") {
+      const token = verifyTimeStampToken(c.proof ?? "", c.commitmentHash, tsaCertificatePem);
+      if (!token.valid) {
+        allValid = false;
+        errors.push(...token.errors.map((e) => `Commitment at seqNo ${c.seqNo}: ${e}`));
+        continue;
       }
+      notarizedAt = token.genTime!;
+      fingerprint = token.tsaCertificateFingerprint;
+    } else if (offline) {
+      continue;
+    }
+
+    hasNotarized = true;
+    if (!latestNotarization || notarizedAt > latestNotarization) {
+      latestNotarization = notarizedAt;
+      latestProof = c.proof;
+      provider = c.provider;
+      tsaCertificateFingerprint = fingerprint;
     }
   }
 
@@ -442,6 +491,8 @@ function verifyLevel3(bundle: ProofBundle): L3Result {
     notarizationTimestamp: latestNotarization,
     notarizationProof: latestProof,
     provider,
+    tsaCertificateFingerprint,
+    errors,
   };
 }
 
@@ -6,6 +6,7 @@ import { z } from "zod";
 import {
   MAX_FILE_SIZE,
   MIN_TABLES_FOR_MT5,
+  OPTIMIZATION_MAX_FILE_SIZE,
   STRATEGY_TESTER_IDENTIFIERS,
 } from "../backtest-parser/constants";
 
@@ -14,6 +15,16 @@ import {
  */
 export const BACKTEST_MAX_FILE_SIZE = MAX_FILE_SIZE;
 
+/**
+ * Max file size for optimization report upload (20MB).
+ */
+export const OPTIMIZATION_REPORT_MAX_FILE_SIZE = OPTIMIZATION_MAX_FILE_SIZE;
+
+/**
+ * Max file size for an OHLC CSV run through the in-app simulator (40MB).
+ */
+export const OHLC_CSV_MAX_FILE_SIZE = 40 * 1024 * 1024;
+
 /**
  * Quick structural validation: checks if the HTML looks like an MT4/MT5 report.
  * Does NOT do full parsing — this is a cheap pre-check to reject obvious non-reports.
@@ -51,3 +62,32 @@ export function isLikelyMT5Report(html: string): { valid: boolean; reason?: stri
 export const backtestUploadSchema = z.object({
   projectId: z.string().cuid().optional().nullable(),
 });
+
+/**
+ * Form fields sent with an OHLC CSV to run a project version through the simulator.
+ */
+export const backtestSimulationSchema = z.object({
+  projectId: z.string().cuid(),
+  // Latest saved version when omitted
+  versionId: z.string().cuid().optional(),
+  symbol: z.string().trim().min(1).max(32).optional(),
+  initialDeposit: z.coerce.number().positive().max(100_000_000).default(10_000),
+  // Used for bars without a spread column of their own
+  spreadPoints: z.coerce.number().min(0).max(10_000).default(0),
+});
+
+/**
+ * Metric the parameter-sensitivity view ranks passes by.
+ */
+export const optimizationMetricSchema = z
+  .enum([
+    "result",
+    "profit",
+    "expectedPayoff",
+    "profitFactor",
+    "recoveryFactor",
+    "sharpeRatio",
+    "custom",
+    "trades",
+  ])
+  .default("result");
@@ -200,6 +200,117 @@ describe("buildJsonSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  it("validates pivot-points node data", () => {
+    const pivotNode = (data: Record<string, unknown>) => ({
+      ...validBuildJson,
+      nodes: [
+        {
+          id: "pp1",
+          type: "pivot-points",
+          position: { x: 0, y: 0 },
+          data: {
+            label: "Pivot Points",
+            category: "priceaction",
+            priceActionType: "pivot-points",
+            timeframe: "H1",
+            pivotType: "CAMARILLA",
+            pivotLevel: 3,
+            entryMode: "BREAKOUT",
+            zonePips: 5,
+            ...data,
+          },
+        },
+      ],
+    });
+    expect(buildJsonSchema.safeParse(pivotNode({})).success).toBe(true);
+    expect(buildJsonSchema.safeParse(pivotNode({ pivotType: "WOODIE" })).success).toBe(false);
+    expect(buildJsonSchema.safeParse(pivotNode({ pivotLevel: 4 })).success).toBe(false);
+  });
+
+  it("rejects an equal-highs-lows node that needs fewer than two touches", () => {
+    const build = {
+      ...validBuildJson,
+      nodes: [
+        {
+          id: "eq1",
+          type: "equal-highs-lows",
+          position: { x: 0, y: 0 },
+          data: {
+            label: "Equal Highs/Lows",
+            category: "priceaction",
+            priceActionType: "equal-highs-lows",
+            timeframe: "H1",
+            swingStrength: 3,
+            lookbackPeriod: 100,
+            tolerancePips: 3,
+            minTouches: 1,
+            signalType: "SWEEP",
+          },
+        },
+      ],
+    };
+    expect(buildJsonSchema.safeParse(build).success).toBe(false);
+  });
+
+  it("validates the equity curve filter period", () => {
+    const withPeriod = (equityCurveMaPeriod: number) => ({
+      ...validBuildJson,
+      settings: { ...validBuildJson.settings, equityCurveMaPeriod },
+    });
+    expect(buildJsonSchema.safeParse(withPeriod(20)).success).toBe(true);
+    expect(buildJsonSchema.safeParse(withPeriod(1)).success).toBe(false);
+    expect(buildJsonSchema.safeParse(withPeriod(10.5)).success).toBe(false);
+  });
+
+  it("validates risk scaling on timing nodes", () => {
+    const sessionNode = (data: Record<string, unknown>) => ({
+      ...validBuildJson,
+      nodes: [
+        {
+          id: "t1",
+          type: "trading-session",
+          position: { x: 0, y: 0 },
+          data: {
+            label: "Tokyo Session",
+            category: "timing",
+            timingType: "trading-session",
+            session: "TOKYO",
+            riskMultiplier: 0.5,
+            riskRules: [
+              {
+                day: "friday",
+                startHour: 18,
+                startMinute: 0,
+                endHour: 0,
+                endMinute: 0,
+                multiplier: 0,
+              },
+            ],
+            ...data,
+          },
+        },
+      ],
+    });
+    expect(buildJsonSchema.safeParse(sessionNode({})).success).toBe(true);
+    expect(buildJsonSchema.safeParse(sessionNode({ riskMultiplier: -1 })).success).toBe(false);
+    expect(
+      buildJsonSchema.safeParse(
+        sessionNode({
+          riskRules: [
+            {
+              day: "weekend",
+              startHour: 0,
+              startMinute: 0,
+              endHour: 0,
+              endMinute: 0,
+              multiplier: 1,
+            },
+          ],
+        })
+      ).success
+    ).toBe(false);
+  });
+
   it("validates ema-crossover entry with minEmaSeparation", () => {
     const build = {
       ...validBuildJson,
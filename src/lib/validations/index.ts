@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { sanitizeText } from "../sanitize";
+import { isValidTimeZone } from "../economic-calendar/parser";
 
 // ============================================
 // COMMON SCHEMAS
@@ -93,6 +94,8 @@ const nodeCategorySchema = z.enum([
   "trading",
   "riskmanagement",
   "trademanagement",
+  "logic",
+  "macro",
 ]);
 
 const timeframeSchema = z.enum(["M1", "M5", "M15", "M30", "H1", "H4", "D1", "W1", "MN1"]);
@@ -115,6 +118,27 @@ const tradingDaysSchema = z.object({
   sunday: z.boolean(),
 });
 
+// Risk multiplier for a day/time window on a timing node
+const riskScaleRuleSchema = timeSlotSchema.extend({
+  day: z.enum([
+    "everyday",
+    "monday",
+    "tuesday",
+    "wednesday",
+    "thursday",
+    "friday",
+    "saturday",
+    "sunday",
+  ]),
+  multiplier: z.number().min(0).max(5),
+});
+
+// Session/day risk scaling shared by the custom-times and trading-session nodes
+const riskScaleSchema = z.object({
+  riskMultiplier: z.number().min(0).max(5).optional(),
+  riskRules: z.array(riskScaleRuleSchema).max(20).optional(),
+});
+
 // Base node data - common fields
 const baseNodeDataSchema = z.object({
   label: z.string(),
@@ -139,6 +163,7 @@ const customTimesNodeDataSchema = baseNodeDataSchema
     timeSlots: z.array(timeSlotSchema),
     useServerTime: z.boolean().optional(),
   })
+  .merge(riskScaleSchema)
   .strip();
 
 const tradingSessionNodeDataSchema = baseNodeDataSchema
@@ -153,6 +178,7 @@ const tradingSessionNodeDataSchema = baseNodeDataSchema
     customEndHour: z.number().int().min(0).max(23).optional(),
     customEndMinute: z.number().int().min(0).max(59).optional(),
   })
+  .merge(riskScaleSchema)
   .strip();
 
 const maxSpreadNodeDataSchema = baseNodeDataSchema
@@ -195,6 +221,11 @@ const newsFilterNodeDataSchema = baseNodeDataSchema
     mediumImpact: z.boolean(),
     lowImpact: z.boolean(),
     closePositions: z.boolean(),
+    currencyMode: z.enum(["ALL", "INCLUDE", "EXCLUDE"]).optional(),
+    currencies: z
+      .array(z.string().regex(/^[A-Z]{3}$/))
+      .max(30)
+      .optional(),
   })
   .strip();
 
@@ -353,18 +384,78 @@ const rangeBreakoutNodeDataSchema = baseNodeDataSchema
     minRangePips: z.number().min(0).max(10000),
     maxRangePips: z.number().min(0).max(10000),
     useServerTime: z.boolean().optional(),
+    pendingExpiryMode: z.enum(["GTC", "BARS", "MINUTES"]).optional(),
+    pendingExpiryBars: z.number().int().min(0).max(10000).optional(),
+    pendingExpiryMinutes: z.number().int().min(0).max(525600).optional(),
+    ocoBracket: z.boolean().optional(),
+  })
+  .strip();
+
+const liquiditySweepNodeDataSchema = baseNodeDataSchema
+  .extend({
+    category: z.literal("priceaction"),
+    priceActionType: z.literal("liquidity-sweep"),
+    timeframe: timeframeSchema,
+    swingStrength: z.number().int().min(1).max(50),
+    lookbackPeriod: z.number().int().min(5).max(1000),
+    minSweepPips: z.number().min(0).max(1000),
+  })
+  .strip();
+
+const equalHighsLowsNodeDataSchema = baseNodeDataSchema
+  .extend({
+    category: z.literal("priceaction"),
+    priceActionType: z.literal("equal-highs-lows"),
+    timeframe: timeframeSchema,
+    swingStrength: z.number().int().min(1).max(50),
+    lookbackPeriod: z.number().int().min(5).max(1000),
+    tolerancePips: z.number().min(0).max(1000),
+    minTouches: z.number().int().min(2).max(10),
+    signalType: z.enum(["SWEEP", "BREAKOUT"]),
+  })
+  .strip();
+
+const pivotPointsNodeDataSchema = baseNodeDataSchema
+  .extend({
+    category: z.literal("priceaction"),
+    priceActionType: z.literal("pivot-points"),
+    timeframe: timeframeSchema,
+    pivotType: z.enum(["CLASSIC", "CAMARILLA", "FIBONACCI"]),
+    pivotLevel: z.number().int().min(1).max(3),
+    entryMode: z.enum(["BOUNCE", "BREAKOUT"]),
+    zonePips: z.number().min(0).max(1000),
   })
   .strip();
 
 // ---- Trading node data schemas ----
 const positionSizingFieldsSchema = z.object({
-  method: z.enum(["FIXED_LOT", "RISK_PERCENT"]),
+  method: z.enum([
+    "FIXED_LOT",
+    "RISK_PERCENT",
+    "VOLATILITY_TARGET",
+    "FIXED_FRACTIONAL_STEP",
+    "KELLY",
+    "FIXED_MONEY",
+  ]),
   fixedLot: z.number().min(0.01).max(1000),
   riskPercent: z.number().min(0.1).max(100),
   minLot: z.number().min(0.01).max(1000),
   maxLot: z.number().min(0.01).max(1000),
+  volTargetPercent: z.number().min(0.01).max(100).optional(),
+  volAtrPeriod: z.number().int().min(1).max(1000).optional(),
+  volAtrTimeframe: z.enum(["M1", "M5", "M15", "M30", "H1", "H4", "D1", "W1", "MN1"]).optional(),
+  equityStep: z.number().min(1).max(100_000_000).optional(),
+  kellyWinRate: z.number().min(0).max(100).optional(),
+  kellyPayoffRatio: z.number().min(0.01).max(100).optional(),
+  kellyFraction: z.number().min(0.01).max(1).optional(),
+  kellyCapPercent: z.number().min(0.01).max(100).optional(),
+  riskAmount: z.number().min(0.01).max(100_000_000).optional(),
   orderType: z.enum(["MARKET", "STOP", "LIMIT"]).default("MARKET"),
   pendingOffset: z.number().min(0).max(10000).default(10),
+  pendingExpiryMode: z.enum(["GTC", "BARS", "MINUTES"]).optional(),
+  pendingExpiryBars: z.number().int().min(0).max(10000).optional(),
+  pendingExpiryMinutes: z.number().int().min(0).max(525600).optional(),
+  cancelOnInvalidate: z.boolean().optional(),
 });
 
 const embeddedStopLossSchema = z.object({
@@ -540,6 +631,35 @@ const builderNodeDataSchema = z
       }
     }
 
+    // Session/day risk scaling on timing nodes gets strict validation
+    if (data.category === "timing" && "timingType" in data) {
+      const result = riskScaleSchema.safeParse(data);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue(issue);
+        }
+      }
+    }
+
+    // Liquidity and pivot detectors get strict validation
+    if (data.category === "priceaction" && "priceActionType" in data) {
+      const priceActionSchemaMap: Record<string, z.ZodType> = {
+        "liquidity-sweep": liquiditySweepNodeDataSchema,
+        "equal-highs-lows": equalHighsLowsNodeDataSchema,
+        "pivot-points": pivotPointsNodeDataSchema,
+      };
+      const schema =
+        priceActionSchemaMap[(data as Record<string, unknown>).priceActionType as string];
+      if (schema) {
+        const result = schema.safeParse(data);
+        if (!result.success) {
+          for (const issue of (result as { success: false; error: z.ZodError }).error.issues) {
+            ctx.addIssue(issue);
+          }
+        }
+      }
+    }
+
     // Entry strategy nodes get cross-field validation
     if (data.category === "entrystrategy" && "entryType" in data) {
       const d = data as Record<string, unknown>;
@@ -670,6 +790,7 @@ const buildSettingsSchema = z.object({
   minBarsBetweenTrades: z.number().int().min(1).max(500).optional(),
   maxTotalDrawdownPercent: z.number().min(1).max(50).optional(),
   equityTargetPercent: z.number().min(1).max(1000).optional(),
+  equityCurveMaPeriod: z.number().int().min(2).max(200).optional(),
 });
 
 // Build metadata schema
@@ -689,22 +810,106 @@ export const buildJsonSchema = z.object({
   settings: buildSettingsSchema,
 });
 
+// Macro definition — a saved group of nodes reused as one block (see mql5-generator/macros)
+export const macroDefinitionSchema = z
+  .object({
+    nodes: z
+      .array(builderNodeSchema)
+      .min(2, "A macro needs at least 2 blocks")
+      .max(50, "Maximum 50 blocks per macro"),
+    edges: z.array(builderEdgeSchema).max(100, "Maximum 100 connections per macro"),
+    parameters: z
+      .array(
+        z.object({
+          key: z.string().min(1).max(100),
+          label: z.string().min(1).max(60),
+          nodeId: z.string(),
+          field: z.string().min(1).max(60),
+        })
+      )
+      .max(20, "Maximum 20 exposed parameters"),
+  })
+  .superRefine((def, ctx) => {
+    const ids = new Set(def.nodes.map((n) => n.id));
+    if (ids.size !== def.nodes.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Duplicate block id in macro" });
+    }
+    if (def.nodes.some((n) => n.data.category === "macro")) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Macros cannot contain other macros" });
+    }
+    if (def.edges.some((e) => !ids.has(e.source) || !ids.has(e.target))) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Macro connections must stay inside the macro",
+      });
+    }
+    for (const p of def.parameters) {
+      const node = def.nodes.find((n) => n.id === p.nodeId);
+      if (!node || !(p.field in node.data)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Exposed parameter "${p.label}" does not match a block field`,
+        });
+      }
+    }
+  });
+
+export const branchNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Branch name is required")
+  .max(60, "Branch name must be 60 characters or less");
+
 export const createVersionSchema = z.object({
   buildJson: buildJsonSchema,
   expectedVersion: z.number().int().min(0).optional(),
   isAutosave: z.boolean().optional(),
+  branch: branchNameSchema.optional(),
 });
 
+export const createBranchSchema = z.object({
+  name: branchNameSchema,
+});
+
+export const mergeBranchesSchema = z
+  .object({
+    source: branchNameSchema,
+    target: branchNameSchema,
+    dryRun: z.boolean().optional(),
+    resolutions: z.record(z.enum(["target", "source"])).optional(),
+  })
+  .refine((data) => data.source !== data.target, {
+    message: "Cannot merge a branch into itself",
+    path: ["target"],
+  });
+
 // ============================================
 // EXPORT SCHEMAS
 // ============================================
 
 export const exportRequestSchema = z.object({
   versionId: z.string().cuid().optional(),
-  exportType: z.literal("MQ5").default("MQ5"),
+  exportType: z.enum(["MQ5", "MQ4"]).default("MQ5"),
   magicNumber: z.number().int().min(1).max(2147483647).optional(),
 });
 
+// ============================================
+// ECONOMIC CALENDAR SCHEMAS
+// ============================================
+
+/** Max economic calendar upload size (10MB) */
+export const ECONOMIC_CALENDAR_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/** Form fields sent with an economic calendar upload */
+export const economicCalendarUploadSchema = z.object({
+  // "global" imports apply to every user and require an admin
+  scope: z.enum(["user", "global"]).default("user"),
+  // IANA zone of times in the file that carry none, e.g. "America/New_York"
+  timeZone: z.string().max(64).default("UTC").refine(isValidTimeZone, "Unknown time zone"),
+  // Order of slash dates such as 01/05/2024; "auto" detects it from the file
+  dateOrder: z.enum(["auto", "MDY", "DMY"]).default("auto"),
+});
+
 // ============================================
 // AUTH SCHEMAS
 // ============================================
@@ -868,6 +1073,9 @@ export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
 export type BuildJsonInput = z.infer<typeof buildJsonSchema>;
 export type CreateVersionInput = z.infer<typeof createVersionSchema>;
+export type CreateBranchInput = z.infer<typeof createBranchSchema>;
+export type MergeBranchesInput = z.infer<typeof mergeBranchesSchema>;
 export type ExportRequestInput = z.infer<typeof exportRequestSchema>;
+export type EconomicCalendarUploadInput = z.infer<typeof economicCalendarUploadSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
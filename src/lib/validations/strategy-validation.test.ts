@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { validateStrategyForExport } from "./strategy-validation";
 import type { Node, Edge } from "@xyflow/react";
-import type { BuilderNodeData } from "@/types/builder";
+import { DEFAULT_SETTINGS, type BuilderNodeData } from "@/types/builder";
 
 function makeNode(id: string, data: Record<string, unknown>): Node<BuilderNodeData> {
   return {
@@ -74,6 +74,104 @@ describe("validateStrategyForExport", () => {
     });
   });
 
+  describe("position sizing methods", () => {
+    const validate = (sizing: Record<string, unknown>) =>
+      validateStrategyForExport(
+        [
+          makeNode("1", { tradingType: "stop-loss", slMethod: "FIXED_PIPS", slPips: 50 }),
+          makeNode("2", { tradingType: "place-buy", riskPercent: 1, ...sizing }),
+        ],
+        [makeEdge("1", "2")]
+      );
+
+    it("bounds the volatility target and its ATR period", () => {
+      const high = validate({ method: "VOLATILITY_TARGET", volTargetPercent: 12 });
+      expect(high.errors.some((e) => e.message.includes("Volatility target of 12%"))).toBe(true);
+
+      const aggressive = validate({ method: "VOLATILITY_TARGET", volTargetPercent: 6 });
+      expect(aggressive.warnings.some((w) => w.message.includes("aggressive"))).toBe(true);
+
+      const period = validate({ method: "VOLATILITY_TARGET", volAtrPeriod: 2.5 });
+      expect(period.errors.some((e) => e.message.includes("Sizing ATR period"))).toBe(true);
+    });
+
+    it("rejects a non-positive equity step or risk amount", () => {
+      const step = validate({ method: "FIXED_FRACTIONAL_STEP", equityStep: 0 });
+      expect(step.errors.some((e) => e.message.includes("Equity step"))).toBe(true);
+
+      const money = validate({ method: "FIXED_MONEY", riskAmount: 0 });
+      expect(money.errors.some((e) => e.message.includes("Risk amount"))).toBe(true);
+    });
+
+    it("requires an edge and a sane fraction for Kelly sizing", () => {
+      const noEdge = validate({ method: "KELLY", kellyWinRate: 40, kellyPayoffRatio: 1 });
+      expect(noEdge.errors.some((e) => e.message.includes("needs an edge"))).toBe(true);
+
+      const fraction = validate({ method: "KELLY", kellyFraction: 1.5 });
+      expect(fraction.errors.some((e) => e.message.includes("Kelly fraction"))).toBe(true);
+
+      const valid = validate({
+        method: "KELLY",
+        kellyWinRate: 55,
+        kellyPayoffRatio: 1.5,
+        kellyFraction: 0.25,
+        kellyCapPercent: 2,
+      });
+      expect(valid.errors).toHaveLength(0);
+    });
+  });
+
+  describe("higher-timeframe filters", () => {
+    const sl = makeNode("sl", { tradingType: "stop-loss", slMethod: "FIXED_PIPS", slPips: 50 });
+
+    it("warns when the HTF bias is not above the entry indicators' timeframe", () => {
+      const nodes = [
+        sl,
+        makeNode("rsi", { indicatorType: "rsi", timeframe: "H4", period: 14 }),
+        makeNode("bias", { filterType: "htf-bias", timeframe: "H1" }),
+      ];
+      const result = validateStrategyForExport(nodes, [makeEdge("sl", "rsi")]);
+      expect(
+        result.warnings.some((w) => w.nodeId === "bias" && w.message.includes("H4 entry"))
+      ).toBe(true);
+    });
+
+    it("accepts an HTF bias above every entry timeframe", () => {
+      const nodes = [
+        sl,
+        makeNode("rsi", { indicatorType: "rsi", timeframe: "H1", period: 14 }),
+        makeNode("bias", { filterType: "htf-bias", timeframe: "D1" }),
+      ];
+      const result = validateStrategyForExport(nodes, [makeEdge("sl", "rsi")]);
+      expect(result.warnings.some((w) => w.message.includes("HTF Bias"))).toBe(false);
+    });
+
+    it("rejects more than one HTF bias block", () => {
+      const nodes = [
+        sl,
+        makeNode("bias1", { filterType: "htf-bias", timeframe: "D1" }),
+        makeNode("bias2", { filterType: "htf-bias", timeframe: "W1" }),
+      ];
+      const result = validateStrategyForExport(nodes, [makeEdge("sl", "bias1")]);
+      expect(result.errors.map((e) => e.nodeId)).toContain("bias2");
+      expect(result.errors.some((e) => e.nodeId === "bias1")).toBe(false);
+    });
+
+    it("warns when an entry strategy's HTF trend filter is on a lower timeframe", () => {
+      const nodes = [
+        sl,
+        makeNode("es", {
+          entryType: "ema-crossover",
+          timeframe: "H4",
+          htfTrendFilter: true,
+          htfTimeframe: "H1",
+        }),
+      ];
+      const result = validateStrategyForExport(nodes, [makeEdge("sl", "es")]);
+      expect(result.warnings.some((w) => w.message.includes("HTF trend filter on H1"))).toBe(true);
+    });
+  });
+
   describe("indicator period bounds", () => {
     it("returns error when period > 1000", () => {
       const nodes = [
@@ -116,6 +214,30 @@ describe("validateStrategyForExport", () => {
     });
   });
 
+  describe("equity curve filter", () => {
+    const settings = { ...DEFAULT_SETTINGS, equityCurveMaPeriod: 20 };
+    const sl = makeNode("3", { tradingType: "stop-loss", slMethod: "FIXED_PIPS", slPips: 50 });
+
+    it("rejects pending entries and range breakouts, which bypass the filter", () => {
+      const nodes = [
+        makeNode("1", { tradingType: "place-buy", orderType: "STOP" }),
+        makeNode("2", { priceActionType: "range-breakout" }),
+        sl,
+      ];
+      const result = validateStrategyForExport(nodes, [makeEdge("1", "3")], settings);
+      const ids = result.errors
+        .filter((e) => e.message.includes("equity curve filter"))
+        .map((e) => e.nodeId);
+      expect(ids).toEqual(["1", "2"]);
+    });
+
+    it("allows market entries", () => {
+      const nodes = [makeNode("1", { tradingType: "place-sell", orderType: "MARKET" }), sl];
+      const result = validateStrategyForExport(nodes, [makeEdge("1", "3")], settings);
+      expect(result.errors.some((e) => e.message.includes("equity curve filter"))).toBe(false);
+    });
+  });
+
   describe("valid strategy", () => {
     it("returns no errors for a well-configured strategy", () => {
       const nodes = [
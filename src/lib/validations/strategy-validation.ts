@@ -1,5 +1,12 @@
 import type { Node, Edge } from "@xyflow/react";
-import type { BuilderNodeData, BuildJsonSettings } from "@/types/builder";
+import type { BuilderNodeData, BuildJsonSettings, Timeframe } from "@/types/builder";
+import {
+  DEFAULT_SIZING_PARAMS,
+  kellyFraction,
+  type PositionSizingParams,
+} from "@/lib/position-sizing";
+
+const TIMEFRAME_ORDER: Timeframe[] = ["M1", "M5", "M15", "M30", "H1", "H4", "D1", "W1", "MN1"];
 
 export interface ValidationIssue {
   nodeId?: string;
@@ -161,6 +168,96 @@ export function validateStrategyForExport(
       });
     }
 
+    // Position sizing method inputs
+    switch (d.method) {
+      case "VOLATILITY_TARGET": {
+        const target =
+          (d.volTargetPercent as number | undefined) ?? DEFAULT_SIZING_PARAMS.volTargetPercent;
+        if (target > 10) {
+          errors.push({
+            nodeId: node.id,
+            message: `Volatility target of ${target}% per ATR move exceeds safe limits. Maximum is 10%.`,
+            severity: "error",
+          });
+        } else if (target > 5) {
+          warnings.push({
+            nodeId: node.id,
+            message: `Volatility target of ${target}% per ATR move is aggressive.`,
+            severity: "warning",
+          });
+        }
+        const period = (d.volAtrPeriod as number | undefined) ?? DEFAULT_SIZING_PARAMS.volAtrPeriod;
+        if (!Number.isInteger(period) || period < 1 || period > 1000) {
+          errors.push({
+            nodeId: node.id,
+            message: "Sizing ATR period must be a whole number from 1 to 1000.",
+            severity: "error",
+          });
+        }
+        break;
+      }
+
+      case "FIXED_FRACTIONAL_STEP":
+        if (typeof d.equityStep === "number" && d.equityStep <= 0) {
+          errors.push({
+            nodeId: node.id,
+            message: "Equity step must be greater than 0.",
+            severity: "error",
+          });
+        }
+        break;
+
+      case "KELLY": {
+        const params = d as unknown as PositionSizingParams;
+        const fraction = params.kellyFraction ?? DEFAULT_SIZING_PARAMS.kellyFraction;
+        const cap = params.kellyCapPercent ?? DEFAULT_SIZING_PARAMS.kellyCapPercent;
+        if (
+          kellyFraction(
+            params.kellyWinRate ?? DEFAULT_SIZING_PARAMS.kellyWinRate,
+            params.kellyPayoffRatio ?? DEFAULT_SIZING_PARAMS.kellyPayoffRatio
+          ) <= 0
+        ) {
+          errors.push({
+            nodeId: node.id,
+            message:
+              "Kelly sizing needs an edge: with this win rate and win/loss ratio the Kelly fraction is 0, so every trade would open the minimum lot.",
+            severity: "error",
+          });
+        }
+        if (fraction <= 0 || fraction > 1) {
+          errors.push({
+            nodeId: node.id,
+            message: "Kelly fraction must be above 0 and at most 1 (full Kelly).",
+            severity: "error",
+          });
+        } else if (fraction > 0.5) {
+          warnings.push({
+            nodeId: node.id,
+            message: `Betting ${fraction}x Kelly is aggressive. Half Kelly or less is common.`,
+            severity: "warning",
+          });
+        }
+        if (cap > 10) {
+          errors.push({
+            nodeId: node.id,
+            message: `Kelly cap of ${cap}% per trade exceeds safe limits. Maximum is 10%.`,
+            severity: "error",
+          });
+        }
+        break;
+      }
+
+      case "FIXED_MONEY":
+        if (typeof d.riskAmount !== "number" || d.riskAmount <= 0) {
+          errors.push({
+            nodeId: node.id,
+            message: "Risk amount per trade must be greater than 0.",
+            severity: "error",
+          });
+        }
+        break;
+    }
+
     // Custom session start = end warning
     if (
       d.timingType === "trading-session" &&
@@ -180,7 +277,52 @@ export function validateStrategyForExport(
     }
   }
 
-  // 5. Settings validation
+  // 5. Higher-timeframe filters must sit above the timeframes they gate; a lower timeframe
+  // feeding a higher one flips within the entry bar instead of giving a stable bias
+  const rank = (tf: unknown) => TIMEFRAME_ORDER.indexOf(tf as Timeframe);
+  const entryTimeframes = nodes
+    .map((n) => n.data as Record<string, unknown>)
+    .filter((d) => "indicatorType" in d && rank(d.timeframe) >= 0)
+    .map((d) => d.timeframe as Timeframe);
+  const highestEntry = entryTimeframes.reduce<Timeframe | null>(
+    (max, tf) => (max === null || rank(tf) > rank(max) ? tf : max),
+    null
+  );
+  // The EA reads one bias (a single set of HTF Bias inputs and handle)
+  const biasNodes = nodes.filter(
+    (n) => (n.data as Record<string, unknown>).filterType === "htf-bias"
+  );
+  for (const node of biasNodes.slice(1)) {
+    errors.push({
+      nodeId: node.id,
+      message: "Only one HTF Bias block is supported. Remove the extra block.",
+      severity: "error",
+    });
+  }
+  for (const node of nodes) {
+    const d = node.data as Record<string, unknown>;
+    if (d.filterType === "htf-bias" && highestEntry && rank(d.timeframe) <= rank(highestEntry)) {
+      warnings.push({
+        nodeId: node.id,
+        message: `HTF Bias on ${d.timeframe} gates ${highestEntry} entry indicators. Choose a timeframe above ${highestEntry} so the bias stays fixed while entries form.`,
+        severity: "warning",
+      });
+    }
+    if (
+      d.htfTrendFilter === true &&
+      rank(d.htfTimeframe) >= 0 &&
+      rank(d.timeframe) >= 0 &&
+      rank(d.htfTimeframe) <= rank(d.timeframe)
+    ) {
+      warnings.push({
+        nodeId: node.id,
+        message: `HTF trend filter on ${d.htfTimeframe} is not above the ${d.timeframe} entry timeframe.`,
+        severity: "warning",
+      });
+    }
+  }
+
+  // 6. Settings validation
   if (settings) {
     if (settings.maxOpenTrades > 10) {
       warnings.push({
@@ -202,9 +344,28 @@ export function validateStrategyForExport(
         severity: "warning",
       });
     }
+
+    // The equity curve filter only gates market entries; pending orders would bypass it
+    if (settings.equityCurveMaPeriod) {
+      for (const node of nodes) {
+        const d = node.data as Record<string, unknown>;
+        const pendingEntry =
+          ((d.tradingType === "place-buy" || d.tradingType === "place-sell") &&
+            (d.orderType ?? "MARKET") !== "MARKET") ||
+          d.priceActionType === "range-breakout";
+        if (pendingEntry) {
+          errors.push({
+            nodeId: node.id,
+            message:
+              "The equity curve filter only works with market orders. Switch this block to market entries or turn the filter off.",
+            severity: "error",
+          });
+        }
+      }
+    }
   }
 
-  // 6. Max nodes check
+  // 7. Max nodes check
   if (nodes.length > 50) {
     errors.push({
       message: `Too many blocks (${nodes.length}). Maximum is 50.`,
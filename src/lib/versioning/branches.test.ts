@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { branchHead, findMergeBase, summarizeBranches, type VersionForBranching } from "./branches";
+
+const v = (
+  versionNo: number,
+  branch = "main",
+  extra: Partial<VersionForBranching> = {}
+): VersionForBranching => ({
+  id: `v${versionNo}`,
+  versionNo,
+  branch,
+  forkedFromId: null,
+  mergedFromId: null,
+  ...extra,
+});
+
+// main: v1 v2 ─────── v5 ── v7 (merge of v6)
+//             └ sl:  v3 v4 ── v6
+const history = [
+  v(1),
+  v(2),
+  v(3, "sl", { forkedFromId: "v2" }),
+  v(4, "sl"),
+  v(5),
+  v(6, "sl"),
+  v(7, "main", { mergedFromId: "v4" }),
+];
+
+describe("branchHead", () => {
+  it("returns the newest version on a branch", () => {
+    expect(branchHead(history, "sl")?.id).toBe("v6");
+    expect(branchHead(history, "other")).toBeNull();
+  });
+});
+
+describe("summarizeBranches", () => {
+  it("lists main first with counts, heads and fork points", () => {
+    expect(summarizeBranches(history)).toEqual([
+      {
+        name: "main",
+        headVersionId: "v7",
+        headVersionNo: 7,
+        versionCount: 4,
+        forkedFrom: null,
+      },
+      {
+        name: "sl",
+        headVersionId: "v6",
+        headVersionNo: 6,
+        versionCount: 3,
+        forkedFrom: { branch: "main", versionNo: 2 },
+      },
+    ]);
+  });
+});
+
+describe("findMergeBase", () => {
+  it("uses the fork point before any merge", () => {
+    const beforeMerge = history.slice(0, 6);
+    expect(findMergeBase(beforeMerge, "v6", "v5")?.id).toBe("v2");
+    expect(findMergeBase(beforeMerge, "v5", "v6")?.id).toBe("v2");
+  });
+
+  it("uses the last merged-in version after a merge", () => {
+    expect(findMergeBase(history, "v6", "v7")?.id).toBe("v4");
+  });
+
+  it("is null when the histories never meet", () => {
+    const orphan = [v(1), v(2, "sl")];
+    expect(findMergeBase(orphan, "v2", "v1")).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Branch bookkeeping for strategy versions.
+ *
+ * Version numbers are unique per project; each version belongs to one named branch.
+ * A version's parents are the previous version on its branch, the version it was
+ * forked from (first version of a branch) and the branch head it merged in, which
+ * makes the version history a DAG we can search for merge bases.
+ *
+ * Pure functions — no DB access.
+ */
+
+// ── Types ────────────────────────────────────────────────
+
+export const DEFAULT_BRANCH = "main";
+
+/** Version fields needed to walk the history */
+export interface VersionForBranching {
+  id: string;
+  versionNo: number;
+  branch: string;
+  forkedFromId: string | null;
+  mergedFromId: string | null;
+  createdAt?: Date | string;
+}
+
+export interface BranchSummary {
+  name: string;
+  headVersionId: string;
+  headVersionNo: number;
+  versionCount: number;
+  /** Branch and version the branch was forked from; null for main and orphaned branches */
+  forkedFrom: { branch: string; versionNo: number } | null;
+}
+
+// ── Builders ─────────────────────────────────────────────
+
+/** Newest version on a branch, or null when the branch has no versions */
+export function branchHead<T extends VersionForBranching>(versions: T[], branch: string): T | null {
+  let head: T | null = null;
+  for (const v of versions) {
+    if (v.branch === branch && (!head || v.versionNo > head.versionNo)) head = v;
+  }
+  return head;
+}
+
+/** Summaries of every branch, main first and then by most recent activity */
+export function summarizeBranches(versions: VersionForBranching[]): BranchSummary[] {
+  const byId = new Map(versions.map((v) => [v.id, v]));
+  const byBranch = new Map<string, VersionForBranching[]>();
+  for (const v of versions) {
+    const list = byBranch.get(v.branch) ?? [];
+    list.push(v);
+    byBranch.set(v.branch, list);
+  }
+
+  const summaries: BranchSummary[] = [];
+  for (const [name, list] of byBranch) {
+    const sorted = [...list].sort((a, b) => a.versionNo - b.versionNo);
+    const head = sorted[sorted.length - 1];
+    const origin = sorted[0].forkedFromId ? byId.get(sorted[0].forkedFromId) : undefined;
+    summaries.push({
+      name,
+      headVersionId: head.id,
+      headVersionNo: head.versionNo,
+      versionCount: sorted.length,
+      forkedFrom: origin ? { branch: origin.branch, versionNo: origin.versionNo } : null,
+    });
+  }
+
+  return summaries.sort((a, b) => {
+    if (a.name === DEFAULT_BRANCH) return -1;
+    if (b.name === DEFAULT_BRANCH) return 1;
+    return b.headVersionNo - a.headVersionNo;
+  });
+}
+
+/** Ids of a version and everything it descends from */
+function ancestors(start: VersionForBranching, versions: VersionForBranching[]): Set<string> {
+  const byId = new Map(versions.map((v) => [v.id, v]));
+  const seen = new Set<string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const v = queue.pop()!;
+    if (seen.has(v.id)) continue;
+    seen.add(v.id);
+
+    // Previous version on the same branch
+    let previous: VersionForBranching | null = null;
+    for (const other of versions) {
+      if (
+        other.branch === v.branch &&
+        other.versionNo < v.versionNo &&
+        (!previous || other.versionNo > previous.versionNo)
+      ) {
+        previous = other;
+      }
+    }
+    if (previous) queue.push(previous);
+    for (const parentId of [v.forkedFromId, v.mergedFromId]) {
+      const parent = parentId ? byId.get(parentId) : undefined;
+      if (parent) queue.push(parent);
+    }
+  }
+  return seen;
+}
+
+/**
+ * The most recent version both heads descend from: the state a three-way merge
+ * compares each side against. After a merge this is the merged-in head, so changes
+ * that were already merged are not merged (or reported as conflicts) again. Null when
+ * the histories never meet, e.g. the fork point was an autosave that has been pruned.
+ */
+export function findMergeBase<T extends VersionForBranching>(
+  versions: T[],
+  sourceHeadId: string,
+  targetHeadId: string
+): T | null {
+  const source = versions.find((v) => v.id === sourceHeadId);
+  const target = versions.find((v) => v.id === targetHeadId);
+  if (!source || !target) return null;
+
+  const targetAncestors = ancestors(target, versions);
+  let base: T | null = null;
+  for (const id of ancestors(source, versions)) {
+    if (!targetAncestors.has(id)) continue;
+    const v = versions.find((x) => x.id === id)!;
+    if (!base || v.versionNo > base.versionNo) base = v;
+  }
+  return base;
+}
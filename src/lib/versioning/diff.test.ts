@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import type { BuildJsonSchema, BuilderEdge, BuilderNode } from "@/types/builder";
+import { DEFAULT_SETTINGS } from "@/types/builder";
+import { diffBuildVersions, diffHighlights, formatDiffValue, isEmptyDiff } from "./diff";
+
+function makeNode(id: string, type: string, data: Record<string, unknown> = {}): BuilderNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { label: type, ...data } } as BuilderNode;
+}
+
+function edge(id: string, source: string, target: string, targetHandle?: string): BuilderEdge {
+  return { id, source, target, targetHandle };
+}
+
+function build(nodes: BuilderNode[], edges: BuilderEdge[] = [], settings = {}): BuildJsonSchema {
+  return {
+    version: "1.3",
+    nodes,
+    edges,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: { createdAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" },
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+  };
+}
+
+const rsi = makeNode("rsi-1", "rsi", { category: "indicator", period: 14, overboughtLevel: 70 });
+const ma = makeNode("ma-2", "moving-average", { category: "indicator", period: 50 });
+const buy = makeNode("buy-3", "place-buy", { category: "trading", riskPercent: 1 });
+const sell = makeNode("sell-4", "place-sell", { category: "trading", riskPercent: 1 });
+
+describe("diffBuildVersions", () => {
+  it("is empty for identical versions and ignores node positions", () => {
+    const moved = { ...rsi, position: { x: 400, y: 120 } };
+    const diff = diffBuildVersions(build([rsi, buy]), build([moved, buy]));
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it("reports added and removed blocks", () => {
+    const diff = diffBuildVersions(build([rsi, buy]), build([ma, buy]));
+    expect(diff.nodesAdded.map((n) => n.id)).toEqual(["ma-2"]);
+    expect(diff.nodesRemoved.map((n) => n.id)).toEqual(["rsi-1"]);
+    expect(diff.nodesChanged).toEqual([]);
+  });
+
+  it("reports parameter changes field by field", () => {
+    const tuned = makeNode("rsi-1", "rsi", {
+      category: "indicator",
+      period: 21,
+      overboughtLevel: 70,
+      oversoldLevel: 25,
+      label: "Fast RSI",
+    });
+    const diff = diffBuildVersions(build([rsi]), build([tuned]));
+    expect(diff.nodesChanged).toEqual([
+      {
+        nodeId: "rsi-1",
+        type: "rsi",
+        label: "Fast RSI",
+        changes: [
+          { field: "label", before: "rsi", after: "Fast RSI" },
+          { field: "oversoldLevel", before: undefined, after: 25 },
+          { field: "period", before: 14, after: 21 },
+        ],
+      },
+    ]);
+  });
+
+  it("pairs a connection moved to another block as a rewire", () => {
+    const older = build(
+      [rsi, ma, buy, sell],
+      [edge("e1", "rsi-1", "buy-3"), edge("e2", "ma-2", "sell-4")]
+    );
+    const newer = build(
+      [rsi, ma, buy, sell],
+      [edge("e1", "rsi-1", "sell-4"), edge("e3", "ma-2", "buy-3")]
+    );
+    const diff = diffBuildVersions(older, newer);
+    expect(diff.edgesRewired.map((r) => [r.before.target, r.after.target])).toEqual([
+      ["buy-3", "sell-4"],
+      ["sell-4", "buy-3"],
+    ]);
+    expect(diff.edgesAdded).toEqual([]);
+    expect(diff.edgesRemoved).toEqual([]);
+  });
+
+  it("keeps unrelated connections as added and removed", () => {
+    const older = build([rsi, ma, buy, sell], [edge("e1", "rsi-1", "buy-3")]);
+    const newer = build([rsi, ma, buy, sell], [edge("e2", "ma-2", "sell-4", "in")]);
+    const diff = diffBuildVersions(older, newer);
+    expect(diff.edgesAdded.map((e) => e.id)).toEqual(["e2"]);
+    expect(diff.edgesRemoved.map((e) => e.id)).toEqual(["e1"]);
+    expect(diff.edgesRewired).toEqual([]);
+  });
+
+  it("matches connections by endpoints, not ids", () => {
+    const diff = diffBuildVersions(
+      build([rsi, buy], [edge("e1", "rsi-1", "buy-3")]),
+      build([rsi, buy], [edge("xy-edge-9", "rsi-1", "buy-3")])
+    );
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it("reports settings changes with dotted paths into nested settings", () => {
+    const diff = diffBuildVersions(
+      build([rsi]),
+      build([rsi], [], {
+        maxOpenTrades: 3,
+        multiPair: { ...DEFAULT_SETTINGS.multiPair, maxTotalPositions: 4 },
+      })
+    );
+    expect(diff.settingsChanged).toEqual([
+      { field: "maxOpenTrades", before: DEFAULT_SETTINGS.maxOpenTrades, after: 3 },
+      {
+        field: "multiPair.maxTotalPositions",
+        before: DEFAULT_SETTINGS.multiPair?.maxTotalPositions,
+        after: 4,
+      },
+    ]);
+  });
+});
+
+describe("diffHighlights", () => {
+  it("marks new and changed blocks and the connections to draw", () => {
+    const older = build([rsi, buy, sell], [edge("e1", "rsi-1", "buy-3")]);
+    const newer = build(
+      [{ ...rsi, data: { ...rsi.data, period: 9 } } as BuilderNode, buy, sell, ma],
+      [edge("e1", "rsi-1", "sell-4"), edge("e2", "ma-2", "buy-3")]
+    );
+    const highlights = diffHighlights(diffBuildVersions(older, newer));
+    expect(highlights.nodes).toEqual({ "rsi-1": "changed", "ma-2": "added" });
+    expect(highlights.edges.sort()).toEqual(["e1", "e2"]);
+  });
+});
+
+describe("formatDiffValue", () => {
+  it("formats missing values, strings and long objects", () => {
+    expect(formatDiffValue(undefined)).toBe("—");
+    expect(formatDiffValue("")).toBe('""');
+    expect(formatDiffValue(1.5)).toBe("1.5");
+    expect(formatDiffValue(["period", "overboughtLevel", "oversoldLevel", "appliedPrice"])).toBe(
+      '["period","overboughtLevel","oversoldLe…'
+    );
+  });
+});
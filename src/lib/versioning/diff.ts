@@ -0,0 +1,234 @@
+/**
+ * Structural diff of two strategy versions.
+ *
+ * Compares BuildJsonSchema snapshots the way a user thinks about them: blocks added or
+ * removed, block parameters changed field by field, connections added, removed or moved
+ * to another block, and strategy settings changed. Node positions are layout, not
+ * strategy, and are ignored.
+ *
+ * Pure functions — no DB access, safe to use on the client.
+ */
+
+import type { BuildJsonSchema, BuilderEdge, BuilderNode } from "@/types/builder";
+
+// ── Types ────────────────────────────────────────────────
+
+/** One changed value. `field` is a dotted path for nested objects (e.g. "multiPair.enabled"). */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface NodeChange {
+  nodeId: string;
+  type: string;
+  label: string;
+  changes: FieldChange[];
+}
+
+/** A connection, identified by its endpoints rather than its id */
+export interface EdgeRef {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle: string | null;
+  targetHandle: string | null;
+}
+
+/** A connection that kept one end and moved the other */
+export interface EdgeRewire {
+  before: EdgeRef;
+  after: EdgeRef;
+}
+
+export interface BuildVersionDiff {
+  nodesAdded: BuilderNode[];
+  nodesRemoved: BuilderNode[];
+  nodesChanged: NodeChange[];
+  edgesAdded: EdgeRef[];
+  edgesRemoved: EdgeRef[];
+  edgesRewired: EdgeRewire[];
+  settingsChanged: FieldChange[];
+}
+
+/** How a node of the newer version differs from the older one, for canvas highlights */
+export type NodeDiffStatus = "added" | "changed";
+
+export interface DiffHighlights {
+  nodes: Record<string, NodeDiffStatus>;
+  /** Ids of connections that are new or were rewired */
+  edges: string[];
+}
+
+// ── Helpers ──────────────────────────────────────────────
+
+/** Node data fields that never differ between versions of the same block */
+export const IGNORED_NODE_FIELDS = new Set(["category"]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compare two values field by field. Plain objects are walked so a change inside
+ * settings.multiPair reports "multiPair.maxTotalPositions", not the whole object;
+ * arrays are compared as a whole.
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix = ""
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  for (const key of keys) {
+    const field = prefix + key;
+    const a = before[key];
+    const b = after[key];
+    if (isPlainObject(a) && isPlainObject(b)) {
+      changes.push(...diffFields(a, b, `${field}.`));
+    } else if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+function edgeRef(edge: BuilderEdge): EdgeRef {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    sourceHandle: edge.sourceHandle ?? null,
+    targetHandle: edge.targetHandle ?? null,
+  };
+}
+
+function edgeKey(e: EdgeRef): string {
+  return `${e.source}:${e.sourceHandle ?? ""}->${e.target}:${e.targetHandle ?? ""}`;
+}
+
+/**
+ * Pair removed and added connections that share an id or an endpoint: the user
+ * dragged one end of the connection to another block. Unpaired edges stay added
+ * or removed.
+ */
+function pairRewires(
+  removed: EdgeRef[],
+  added: EdgeRef[]
+): { rewired: EdgeRewire[]; removed: EdgeRef[]; added: EdgeRef[] } {
+  const rewired: EdgeRewire[] = [];
+  const remainingAdded = [...added];
+  const remainingRemoved: EdgeRef[] = [];
+  const sameSource = (a: EdgeRef, b: EdgeRef) =>
+    a.source === b.source && a.sourceHandle === b.sourceHandle;
+  const sameTarget = (a: EdgeRef, b: EdgeRef) =>
+    a.target === b.target && a.targetHandle === b.targetHandle;
+
+  for (const before of removed) {
+    const idx = [
+      remainingAdded.findIndex((a) => a.id === before.id),
+      remainingAdded.findIndex((a) => sameSource(a, before)),
+      remainingAdded.findIndex((a) => sameTarget(a, before)),
+    ].find((i) => i >= 0);
+    if (idx === undefined) {
+      remainingRemoved.push(before);
+      continue;
+    }
+    rewired.push({ before, after: remainingAdded[idx] });
+    remainingAdded.splice(idx, 1);
+  }
+  return { rewired, removed: remainingRemoved, added: remainingAdded };
+}
+
+// ── Builders ─────────────────────────────────────────────
+
+/**
+ * Structural diff from `older` to `newer`. Nodes are matched by id, connections by
+ * their endpoints.
+ */
+export function diffBuildVersions(
+  older: BuildJsonSchema,
+  newer: BuildJsonSchema
+): BuildVersionDiff {
+  const oldNodes = new Map(older.nodes.map((n) => [n.id, n]));
+  const newNodes = new Map(newer.nodes.map((n) => [n.id, n]));
+
+  const nodesAdded = newer.nodes.filter((n) => !oldNodes.has(n.id));
+  const nodesRemoved = older.nodes.filter((n) => !newNodes.has(n.id));
+
+  const nodesChanged: NodeChange[] = [];
+  for (const node of newer.nodes) {
+    const old = oldNodes.get(node.id);
+    if (!old) continue;
+    const before: Record<string, unknown> = { ...old.data, type: old.type };
+    const after: Record<string, unknown> = { ...node.data, type: node.type };
+    const changes = diffFields(before, after).filter((c) => !IGNORED_NODE_FIELDS.has(c.field));
+    if (changes.length > 0) {
+      nodesChanged.push({
+        nodeId: node.id,
+        type: node.type ?? "",
+        label: node.data.label,
+        changes,
+      });
+    }
+  }
+
+  const oldEdges = older.edges.map(edgeRef);
+  const newEdges = newer.edges.map(edgeRef);
+  const oldKeys = new Set(oldEdges.map(edgeKey));
+  const newKeys = new Set(newEdges.map(edgeKey));
+  const edges = pairRewires(
+    oldEdges.filter((e) => !newKeys.has(edgeKey(e))),
+    newEdges.filter((e) => !oldKeys.has(edgeKey(e)))
+  );
+
+  return {
+    nodesAdded,
+    nodesRemoved,
+    nodesChanged,
+    edgesAdded: edges.added,
+    edgesRemoved: edges.removed,
+    edgesRewired: edges.rewired,
+    settingsChanged: diffFields(
+      (older.settings ?? {}) as unknown as Record<string, unknown>,
+      (newer.settings ?? {}) as unknown as Record<string, unknown>
+    ),
+  };
+}
+
+/** True when the two versions are the same strategy (layout changes aside) */
+export function isEmptyDiff(diff: BuildVersionDiff): boolean {
+  return (
+    diff.nodesAdded.length === 0 &&
+    diff.nodesRemoved.length === 0 &&
+    diff.nodesChanged.length === 0 &&
+    diff.edgesAdded.length === 0 &&
+    diff.edgesRemoved.length === 0 &&
+    diff.edgesRewired.length === 0 &&
+    diff.settingsChanged.length === 0
+  );
+}
+
+/** Nodes and connections of the newer version to highlight on the canvas */
+export function diffHighlights(diff: BuildVersionDiff): DiffHighlights {
+  const nodes: Record<string, NodeDiffStatus> = {};
+  for (const n of diff.nodesChanged) nodes[n.nodeId] = "changed";
+  for (const n of diff.nodesAdded) nodes[n.id] = "added";
+  return {
+    nodes,
+    edges: [...diff.edgesAdded.map((e) => e.id), ...diff.edgesRewired.map((r) => r.after.id)],
+  };
+}
+
+/** Short display form of a changed value */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined || value === null) return "—";
+  if (typeof value === "string") return value === "" ? '""' : value;
+  if (typeof value === "object") {
+    const json = JSON.stringify(value);
+    return json.length > 40 ? `${json.slice(0, 39)}…` : json;
+  }
+  return String(value);
+}
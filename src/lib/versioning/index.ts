@@ -0,0 +1,24 @@
+export { diffBuildVersions, diffHighlights, formatDiffValue, isEmptyDiff } from "./diff";
+export type {
+  BuildVersionDiff,
+  DiffHighlights,
+  EdgeRef,
+  EdgeRewire,
+  FieldChange,
+  NodeChange,
+  NodeDiffStatus,
+} from "./diff";
+export { unifiedDiff } from "./unified-diff";
+export type { UnifiedDiffOptions } from "./unified-diff";
+export { DEFAULT_BRANCH, branchHead, findMergeBase, summarizeBranches } from "./branches";
+export type { BranchSummary, VersionForBranching } from "./branches";
+export { conflictKey, hasUnresolvedConflicts, mergeBuildVersions } from "./merge";
+export type {
+  MergeConflict,
+  MergedField,
+  MergeResolutions,
+  MergeResult,
+  MergeSide,
+  SkippedChange,
+  SkippedChangeKind,
+} from "./merge";
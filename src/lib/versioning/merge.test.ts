@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import type { BuildJsonSchema, BuilderEdge, BuilderNode } from "@/types/builder";
+import { DEFAULT_MULTI_PAIR, DEFAULT_SETTINGS } from "@/types/builder";
+import { conflictKey, hasUnresolvedConflicts, mergeBuildVersions } from "./merge";
+
+function makeNode(id: string, type: string, data: Record<string, unknown> = {}): BuilderNode {
+  return { id, type, position: { x: 0, y: 0 }, data: { label: type, ...data } } as BuilderNode;
+}
+
+function build(nodes: BuilderNode[], edges: BuilderEdge[] = [], settings = {}): BuildJsonSchema {
+  return {
+    version: "1.3",
+    nodes,
+    edges,
+    viewport: { x: 0, y: 0, zoom: 1 },
+    metadata: { createdAt: "2026-01-01T00:00:00Z", updatedAt: "2026-01-01T00:00:00Z" },
+    settings: { ...DEFAULT_SETTINGS, ...settings },
+  };
+}
+
+const rsi = (data: Record<string, unknown> = {}) =>
+  makeNode("rsi-1", "rsi", { category: "indicator", period: 14, overboughtLevel: 70, ...data });
+const sl = (data: Record<string, unknown> = {}) =>
+  makeNode("sl-2", "stop-loss", { category: "riskmanagement", slPips: 30, ...data });
+const buy = makeNode("buy-3", "place-buy", { category: "trading", riskPercent: 1 });
+
+const base = build([rsi(), sl(), buy], [{ id: "e1", source: "rsi-1", target: "buy-3" }]);
+
+describe("mergeBuildVersions", () => {
+  it("applies source changes to fields the target left alone", () => {
+    const source = build([rsi(), sl({ slPips: 20 }), buy], base.edges);
+    const target = build([rsi({ period: 21 }), sl(), buy], base.edges);
+
+    const result = mergeBuildVersions(base, target, source);
+    expect(result.applied).toEqual([
+      { nodeId: "sl-2", label: "stop-loss", field: "slPips", before: 30, after: 20 },
+    ]);
+    expect(result.conflicts).toEqual([]);
+    const data = (id: string) => result.buildJson.nodes.find((n) => n.id === id)?.data;
+    expect(data("sl-2")).toMatchObject({ slPips: 20 });
+    expect(data("rsi-1")).toMatchObject({ period: 21 });
+  });
+
+  it("skips fields both branches changed to the same value", () => {
+    const source = build([rsi({ period: 21 }), sl(), buy], base.edges);
+    const result = mergeBuildVersions(base, source, source);
+    expect(result.applied).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it("reports a conflict per node field and keeps the target value until resolved", () => {
+    const source = build([rsi({ period: 10, overboughtLevel: 75 }), sl(), buy], base.edges);
+    const target = build([rsi({ period: 21 }), sl(), buy], base.edges);
+
+    const result = mergeBuildVersions(base, target, source);
+    expect(result.applied.map((a) => a.field)).toEqual(["overboughtLevel"]);
+    expect(result.conflicts).toEqual([
+      {
+        key: "rsi-1:period",
+        nodeId: "rsi-1",
+        label: "rsi",
+        field: "period",
+        base: 14,
+        target: 21,
+        source: 10,
+        resolution: null,
+      },
+    ]);
+    expect(hasUnresolvedConflicts(result)).toBe(true);
+    expect(result.buildJson.nodes[0].data).toMatchObject({ period: 21, overboughtLevel: 75 });
+
+    const resolved = mergeBuildVersions(base, target, source, {
+      [conflictKey("rsi-1", "period")]: "source",
+    });
+    expect(hasUnresolvedConflicts(resolved)).toBe(false);
+    expect(resolved.buildJson.nodes[0].data).toMatchObject({ period: 10 });
+  });
+
+  it("merges nested settings by dotted path", () => {
+    const source = build([rsi()], [], {
+      maxOpenTrades: 3,
+      multiPair: { ...DEFAULT_MULTI_PAIR, enabled: true },
+    });
+    const target = build([rsi()], [], {
+      maxOpenTrades: 2,
+      multiPair: { ...DEFAULT_MULTI_PAIR, maxTotalPositions: 4 },
+    });
+
+    const result = mergeBuildVersions(build([rsi()]), target, source);
+    expect(result.conflicts.map((c) => c.key)).toEqual(["settings:maxOpenTrades"]);
+    expect(result.applied.map((a) => a.field)).toEqual(["multiPair.enabled"]);
+    expect(result.buildJson.settings.maxOpenTrades).toBe(2);
+    expect(result.buildJson.settings.multiPair).toMatchObject({
+      enabled: true,
+      maxTotalPositions: 4,
+    });
+  });
+
+  it("leaves the target graph alone and reports structural source changes as skipped", () => {
+    const ma = makeNode("ma-4", "moving-average", { category: "indicator", period: 50 });
+    const source = build(
+      [rsi(), sl({ slPips: 20 }), buy, ma],
+      [{ id: "e2", source: "ma-4", target: "buy-3" }]
+    );
+    const target = build([rsi(), buy], base.edges);
+
+    const result = mergeBuildVersions(base, target, source);
+    expect(result.buildJson.nodes.map((n) => n.id)).toEqual(["rsi-1", "buy-3"]);
+    expect(result.buildJson.edges).toEqual(base.edges);
+    expect(result.skipped).toEqual([
+      { kind: "block-deleted-on-target", nodeId: "sl-2", label: "stop-loss" },
+      { kind: "block-added", nodeId: "ma-4", label: "moving-average" },
+      { kind: "connection", nodeId: null, label: "moving-average → place-buy" },
+    ]);
+  });
+});
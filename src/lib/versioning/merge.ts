@@ -0,0 +1,226 @@
+/**
+ * Three-way merge of block parameters between two branches of a strategy.
+ *
+ * Compares the source branch head against the merge base and replays each changed
+ * node field and setting onto the target head:
+ *   - target still has the base value      → the source value is applied
+ *   - target already has the source value  → nothing to do
+ *   - target changed it to something else  → conflict, resolved per field
+ *
+ * Only parameters are merged. Blocks added or removed and connections changed on the
+ * source branch are reported as skipped: the target's graph is never rewired.
+ *
+ * Pure functions — no DB access, safe to use on the client.
+ */
+
+import type { BuildJsonSchema, BuildJsonSettings, BuilderNode } from "@/types/builder";
+import { diffBuildVersions, diffFields, type EdgeRef } from "./diff";
+
+// ── Types ────────────────────────────────────────────────
+
+/** Which head's value wins a conflict */
+export type MergeSide = "target" | "source";
+
+/** Conflict resolutions keyed by MergeConflict.key */
+export type MergeResolutions = Record<string, MergeSide>;
+
+/** A field the merge took from the source branch. `nodeId` is null for strategy settings. */
+export interface MergedField {
+  nodeId: string | null;
+  label: string;
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** A field both branches changed to different values since the merge base */
+export interface MergeConflict {
+  key: string;
+  nodeId: string | null;
+  label: string;
+  field: string;
+  base: unknown;
+  target: unknown;
+  source: unknown;
+  /** Chosen side, or null while unresolved (the target value is kept) */
+  resolution: MergeSide | null;
+}
+
+export type SkippedChangeKind =
+  | "block-added"
+  | "block-removed"
+  | "block-deleted-on-target"
+  | "connection";
+
+/** A source-branch change the merge does not carry over */
+export interface SkippedChange {
+  kind: SkippedChangeKind;
+  nodeId: string | null;
+  label: string;
+}
+
+export interface MergeResult {
+  /** The target head with the merged parameters */
+  buildJson: BuildJsonSchema;
+  applied: MergedField[];
+  conflicts: MergeConflict[];
+  skipped: SkippedChange[];
+}
+
+// ── Helpers ──────────────────────────────────────────────
+
+const SETTINGS_LABEL = "Strategy settings";
+
+export function conflictKey(nodeId: string | null, field: string): string {
+  return `${nodeId ?? "settings"}:${field}`;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function getPath(obj: Record<string, unknown>, field: string): unknown {
+  let current: unknown = obj;
+  for (const key of field.split(".")) {
+    if (typeof current !== "object" || current === null || Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function setPath(obj: Record<string, unknown>, field: string, value: unknown): void {
+  const keys = field.split(".");
+  let current = obj;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (typeof next !== "object" || next === null || Array.isArray(next)) current[key] = {};
+    current = current[key] as Record<string, unknown>;
+  }
+  const last = keys[keys.length - 1];
+  if (value === undefined) delete current[last];
+  else current[last] = structuredClone(value);
+}
+
+/** Node data plus its type, the same shape diffBuildVersions compares */
+function nodeFields(node: BuilderNode): Record<string, unknown> {
+  return { ...structuredClone(node.data), type: node.type };
+}
+
+// ── Builders ─────────────────────────────────────────────
+
+/**
+ * Merge the parameter changes made on `source` since `base` into `target`.
+ * Conflicts without an entry in `resolutions` keep the target value.
+ */
+export function mergeBuildVersions(
+  base: BuildJsonSchema,
+  target: BuildJsonSchema,
+  source: BuildJsonSchema,
+  resolutions: MergeResolutions = {}
+): MergeResult {
+  const applied: MergedField[] = [];
+  const conflicts: MergeConflict[] = [];
+  const skipped: SkippedChange[] = [];
+  const sourceDiff = diffBuildVersions(base, source);
+
+  /** Replay source changes onto `fields` (a copy of the target's values) */
+  const mergeInto = (
+    fields: Record<string, unknown>,
+    changes: { field: string; before: unknown; after: unknown }[],
+    nodeId: string | null,
+    label: string
+  ) => {
+    for (const change of changes) {
+      const current = getPath(fields, change.field);
+      if (sameValue(current, change.after)) continue;
+
+      if (sameValue(current, change.before)) {
+        setPath(fields, change.field, change.after);
+        applied.push({ nodeId, label, ...change });
+        continue;
+      }
+
+      const key = conflictKey(nodeId, change.field);
+      const resolution = resolutions[key] ?? null;
+      if (resolution === "source") setPath(fields, change.field, change.after);
+      conflicts.push({
+        key,
+        nodeId,
+        label,
+        field: change.field,
+        base: change.before,
+        target: current,
+        source: change.after,
+        resolution,
+      });
+    }
+  };
+
+  const changesByNode = new Map(sourceDiff.nodesChanged.map((n) => [n.nodeId, n]));
+  const nodes = target.nodes.map((node) => {
+    const changed = changesByNode.get(node.id);
+    if (!changed) return node;
+    const fields = nodeFields(node);
+    mergeInto(fields, changed.changes, node.id, node.data.label);
+    const { type, ...data } = fields;
+    return { ...node, type: type as BuilderNode["type"], data: data as BuilderNode["data"] };
+  });
+
+  const targetIds = new Set(target.nodes.map((n) => n.id));
+  for (const changed of sourceDiff.nodesChanged) {
+    if (!targetIds.has(changed.nodeId)) {
+      skipped.push({
+        kind: "block-deleted-on-target",
+        nodeId: changed.nodeId,
+        label: changed.label,
+      });
+    }
+  }
+  for (const n of sourceDiff.nodesAdded) {
+    skipped.push({ kind: "block-added", nodeId: n.id, label: n.data.label });
+  }
+  for (const n of sourceDiff.nodesRemoved) {
+    skipped.push({ kind: "block-removed", nodeId: n.id, label: n.data.label });
+  }
+
+  const nodeLabel = (id: string) =>
+    (source.nodes.find((n) => n.id === id) ?? base.nodes.find((n) => n.id === id))?.data.label ??
+    id;
+  const edgeLabel = (e: EdgeRef) => `${nodeLabel(e.source)} → ${nodeLabel(e.target)}`;
+  for (const e of [
+    ...sourceDiff.edgesAdded,
+    ...sourceDiff.edgesRemoved,
+    ...sourceDiff.edgesRewired.map((r) => r.after),
+  ]) {
+    skipped.push({ kind: "connection", nodeId: null, label: edgeLabel(e) });
+  }
+
+  const settings = structuredClone(target.settings ?? {}) as unknown as Record<string, unknown>;
+  mergeInto(
+    settings,
+    diffFields(
+      (base.settings ?? {}) as unknown as Record<string, unknown>,
+      (source.settings ?? {}) as unknown as Record<string, unknown>
+    ),
+    null,
+    SETTINGS_LABEL
+  );
+
+  return {
+    buildJson: {
+      ...target,
+      nodes,
+      settings: settings as unknown as BuildJsonSettings,
+    },
+    applied,
+    conflicts,
+    skipped,
+  };
+}
+
+/** True when some conflict still has no chosen side */
+export function hasUnresolvedConflicts(result: MergeResult): boolean {
+  return result.conflicts.some((c) => c.resolution === null);
+}
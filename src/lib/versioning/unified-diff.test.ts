@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "./unified-diff";
+
+const lines = (n: number, prefix = "line") =>
+  Array.from({ length: n }, (_, i) => `${prefix} ${i + 1}`).join("\n") + "\n";
+
+describe("unifiedDiff", () => {
+  it("is empty for equal texts", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("shows a changed line with three lines of context", () => {
+    const before = lines(10);
+    const after = before.replace("line 5\n", "line five\n");
+    expect(unifiedDiff(before, after, { fromLabel: "v1.mq5", toLabel: "v2.mq5" })).toBe(
+      [
+        "--- v1.mq5",
+        "+++ v2.mq5",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks and merges close ones", () => {
+    const before = lines(30);
+    const distant = before.replace("line 3\n", "").replace("line 25\n", "line 25\nextra\n");
+    const hunks = unifiedDiff(before, distant).match(/^@@.*@@$/gm);
+    expect(hunks).toEqual(["@@ -1,6 +1,5 @@", "@@ -23,6 +22,7 @@"]);
+
+    const close = before.replace("line 10\n", "line ten\n").replace("line 14\n", "line 14b\n");
+    expect(unifiedDiff(before, close).match(/^@@.*@@$/gm)).toEqual(["@@ -7,11 +7,11 @@"]);
+  });
+
+  it("handles insertions into and deletions from empty texts", () => {
+    expect(unifiedDiff("", "a\nb\n")).toBe("--- before\n+++ after\n@@ -0,0 +1,2 @@\n+a\n+b\n");
+    expect(unifiedDiff("a\n", "")).toBe("--- before\n+++ after\n@@ -1 +0,0 @@\n-a\n");
+  });
+
+  it("finds the minimal edit for interleaved changes", () => {
+    const diff = unifiedDiff("a\nb\nc\nd\ne\n", "a\nc\nd\nx\ne\n", { context: 0 });
+    expect(diff.split("\n").filter((l) => /^[-+][^-+]/.test(l))).toEqual(["-b", "+x"]);
+  });
+});
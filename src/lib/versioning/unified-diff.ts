@@ -0,0 +1,148 @@
+/**
+ * Line-based unified diff, used to compare the MQL5 generated for two strategy versions.
+ *
+ * Myers' O(ND) algorithm on lines: fast for the common case of two long files with a
+ * handful of changed lines. Output follows `diff -u` so it can be saved as a patch.
+ */
+
+export interface UnifiedDiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  /** Unchanged lines shown around each change */
+  context?: number;
+}
+
+type Op = { kind: " " | "-" | "+"; line: string };
+
+/** Shortest edit script from `a` to `b` as a list of kept, removed and added lines */
+function editScript(a: string[], b: string[]): Op[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let done = false;
+  for (let d = 0; d <= max && !done; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        done = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace back from (n, m) to recover the path
+  const ops: Op[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: " ", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ kind: "+", line: b[--y] });
+      else ops.push({ kind: "-", line: a[--x] });
+    }
+  }
+  return ops.reverse();
+}
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function hunkRange(start: number, count: number): string {
+  // diff -u numbers an empty range from the line before it
+  const first = count === 0 ? start : start + 1;
+  return count === 1 ? `${first}` : `${first},${count}`;
+}
+
+/** Unified diff of two texts; an empty string when they are equal */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const context = options.context ?? 3;
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Trim the common prefix and suffix so the edit search only sees the changed middle
+  let head = 0;
+  while (head < a.length && head < b.length && a[head] === b[head]) head++;
+  let tail = 0;
+  while (
+    tail < a.length - head &&
+    tail < b.length - head &&
+    a[a.length - 1 - tail] === b[b.length - 1 - tail]
+  ) {
+    tail++;
+  }
+  if (head === a.length && head === b.length) return "";
+
+  const ops: Op[] = [
+    ...a.slice(0, head).map((line) => ({ kind: " " as const, line })),
+    ...editScript(a.slice(head, a.length - tail), b.slice(head, b.length - tail)),
+    ...a.slice(a.length - tail).map((line) => ({ kind: " " as const, line })),
+  ];
+
+  const out = [`--- ${options.fromLabel ?? "before"}`, `+++ ${options.toLabel ?? "after"}`];
+  let i = 0;
+  let aLine = 0;
+  let bLine = 0;
+  while (i < ops.length) {
+    // Find the next change and open a hunk `context` lines before it
+    let next = i;
+    while (next < ops.length && ops[next].kind === " ") next++;
+    if (next === ops.length) break;
+    const skip = Math.max(0, next - i - context);
+    aLine += skip;
+    bLine += skip;
+    let j = i + skip;
+
+    // Extend the hunk while changes are within 2 * context lines of each other
+    let end = next;
+    for (let k = next; k < ops.length; k++) {
+      if (ops[k].kind !== " ") end = k;
+      else if (k - end > 2 * context) break;
+    }
+    const stop = Math.min(ops.length, end + context + 1);
+
+    const body: string[] = [];
+    let aCount = 0;
+    let bCount = 0;
+    for (; j < stop; j++) {
+      const op = ops[j];
+      body.push(op.kind + op.line);
+      if (op.kind !== "+") aCount++;
+      if (op.kind !== "-") bCount++;
+    }
+    out.push(`@@ -${hunkRange(aLine, aCount)} +${hunkRange(bLine, bCount)} @@`, ...body);
+    aLine += aCount;
+    bLine += bCount;
+    i = stop;
+  }
+  return out.join("\n") + "\n";
+}
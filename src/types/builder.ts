@@ -13,7 +13,9 @@ export type NodeCategory =
   | "entry"
   | "trading"
   | "riskmanagement"
-  | "trademanagement";
+  | "trademanagement"
+  | "logic"
+  | "macro";
 
 // Base data all nodes have
 export interface BaseNodeData extends Record<string, unknown> {
@@ -42,6 +44,8 @@ export interface TradingSessionNodeData extends BaseNodeData {
   customStartMinute?: number;
   customEndHour?: number;
   customEndMinute?: number;
+  riskMultiplier?: number; // Position-size multiplier while this session is active, default 1
+  riskRules?: RiskScaleRule[];
 }
 
 export interface AlwaysNodeData extends BaseNodeData {
@@ -66,6 +70,21 @@ export interface TimeSlot {
   endMinute: number;
 }
 
+/**
+ * Position-size multiplier for a day and time of the week (1 = full risk, 0 = no new entries).
+ * An end at or before the start wraps past midnight into the next day, like custom time
+ * slots (an end of 00:00 stops at midnight). The EA sizes each trade with the lowest
+ * riskMultiplier among the active timing windows, times every rule that matches.
+ */
+export interface RiskScaleRule {
+  day: keyof TradingDays | "everyday";
+  startHour: number;
+  startMinute: number;
+  endHour: number;
+  endMinute: number;
+  multiplier: number;
+}
+
 export interface CustomTimesNodeData extends BaseNodeData {
   category: "timing";
   timingType: "custom-times";
@@ -73,6 +92,8 @@ export interface CustomTimesNodeData extends BaseNodeData {
   timeSlots: TimeSlot[];
   useServerTime?: boolean;
   closeOnSessionEnd?: boolean;
+  riskMultiplier?: number; // Position-size multiplier while a time slot is active, default 1
+  riskRules?: RiskScaleRule[];
 }
 
 export interface MaxSpreadNodeData extends BaseNodeData {
@@ -108,8 +129,13 @@ export interface NewsFilterNodeData extends BaseNodeData {
   mediumImpact: boolean; // default false
   lowImpact: boolean; // default false
   closePositions: boolean; // close open positions during news, default false
+  currencyMode?: NewsCurrencyMode; // which of the traded symbols' currencies count, default "ALL"
+  currencies?: string[]; // ISO codes for INCLUDE/EXCLUDE, e.g. ["USD", "EUR"]
 }
 
+/** ALL: every currency of the traded symbols; INCLUDE: only the listed ones; EXCLUDE: all but the listed ones */
+export type NewsCurrencyMode = "ALL" | "INCLUDE" | "EXCLUDE";
+
 export type VolumeFilterMode = "ABOVE_AVERAGE" | "BELOW_AVERAGE" | "SPIKE";
 
 export interface VolumeFilterNodeData extends BaseNodeData {
@@ -121,6 +147,25 @@ export interface VolumeFilterNodeData extends BaseNodeData {
   filterMode: VolumeFilterMode; // default "ABOVE_AVERAGE"
 }
 
+export type HtfBiasMethod = "PRICE_VS_MA" | "MA_SLOPE" | "MACD" | "ADX_DI";
+
+/**
+ * Higher-timeframe bias: trend direction read from the last closed bar of an indicator
+ * on `timeframe`, gating buys to an up bias and sells to a down bias.
+ */
+export interface HtfBiasNodeData extends BaseNodeData {
+  category: "timing";
+  filterType: "htf-bias";
+  timeframe: Timeframe; // default "D1"
+  biasMethod: HtfBiasMethod; // default "PRICE_VS_MA"
+  period: number; // MA or ADX period, default 50
+  maMethod: "SMA" | "EMA" | "SMMA" | "LWMA"; // default "EMA"
+  fastPeriod: number; // MACD, default 12
+  slowPeriod: number; // MACD, default 26
+  filterBuys: boolean; // only buy with an up bias, default true
+  filterSells: boolean; // only sell with a down bias, default true
+}
+
 export type TimingNodeData =
   | TradingSessionNodeData
   | AlwaysNodeData
@@ -129,7 +174,8 @@ export type TimingNodeData =
   | VolatilityFilterNodeData
   | FridayCloseFilterNodeData
   | NewsFilterNodeData
-  | VolumeFilterNodeData;
+  | VolumeFilterNodeData
+  | HtfBiasNodeData;
 
 // Session time definitions (GMT)
 export const SESSION_TIMES: Record<TradingSession, { start: string; end: string; label: string }> =
@@ -303,11 +349,86 @@ export type ConditionOperator =
   | "CROSSES_ABOVE"
   | "CROSSES_BELOW";
 
+export type ConditionCompareTo = "THRESHOLD" | "OPERAND";
+export type ConditionOperandSource = "INDICATOR" | "PRICE";
+export type ConditionPriceField = "OPEN" | "HIGH" | "LOW" | "CLOSE";
+export type ConditionOperandId = "A" | "B";
+
+/** One side of an operand-vs-operand comparison */
+export interface ConditionOperand {
+  source: ConditionOperandSource;
+  /** INDICATOR: output line of the block wired into this operand's input (see INDICATOR_OUTPUT_BUFFERS) */
+  buffer?: string;
+  /** PRICE: which bar price to read */
+  priceField?: ConditionPriceField;
+  /** PRICE: timeframe of the bars; indicator operands use the indicator's own timeframe */
+  timeframe?: Timeframe;
+  /** Bars back on the operand's own timeframe (0 = forming bar, 1 = last closed bar) */
+  shift: number;
+}
+
 export interface ConditionNodeData extends BaseNodeData {
   category: "indicator";
   indicatorType: "condition";
   conditionType: ConditionOperator;
   threshold: number;
+  /** THRESHOLD (default): connected indicator vs threshold. OPERAND: operand A vs operand B */
+  compareTo?: ConditionCompareTo;
+  operandA?: ConditionOperand;
+  operandB?: ConditionOperand;
+}
+
+/** Target handle ids of a condition node's operand inputs */
+export const CONDITION_OPERAND_HANDLES: Record<ConditionOperandId, string> = {
+  A: "operand-a",
+  B: "operand-b",
+};
+
+/** Output lines a condition operand can read, per indicator type (first = default) */
+export const INDICATOR_OUTPUT_BUFFERS: Partial<Record<string, readonly string[]>> = {
+  "moving-average": ["Main"],
+  rsi: ["Main"],
+  atr: ["Main"],
+  cci: ["Main"],
+  obv: ["Main"],
+  "custom-indicator": ["Main"],
+  macd: ["Main", "Signal"],
+  stochastic: ["Main", "Signal"],
+  adx: ["Main", "PlusDI", "MinusDI"],
+  "bollinger-bands": ["Upper", "Middle", "Lower"],
+  ichimoku: ["Tenkan", "Kijun", "SpanA", "SpanB"],
+};
+
+export const DEFAULT_CONDITION_OPERAND: ConditionOperand = { source: "INDICATOR", shift: 1 };
+
+/**
+ * Custom numeric signal written in the formula language (see lib/mql5-generator/formula).
+ * Blocks wired into the node are read as in1, in2, ... in connection order; the result
+ * is compared against the threshold like a condition node.
+ */
+export interface FormulaNodeData extends BaseNodeData {
+  category: "indicator";
+  indicatorType: "formula";
+  expression: string;
+  conditionType: ConditionOperator;
+  threshold: number;
+  signalMode?: "every_tick" | "candle_close";
+}
+
+/**
+ * Id of the block wired into a condition operand's input. Edges without a target
+ * handle predate operand mode and feed operand A.
+ */
+export function getConditionOperandSourceId(
+  conditionId: string,
+  operand: ConditionOperandId,
+  edges: ReadonlyArray<{ source: string; target: string; targetHandle?: string | null }>
+): string | undefined {
+  const handle = CONDITION_OPERAND_HANDLES[operand];
+  const edge =
+    edges.find((e) => e.target === conditionId && e.targetHandle === handle) ??
+    (operand === "A" ? edges.find((e) => e.target === conditionId && !e.targetHandle) : undefined);
+  return edge?.source;
 }
 
 export type IndicatorNodeData =
@@ -324,7 +445,8 @@ export type IndicatorNodeData =
   | OBVNodeData
   | VWAPNodeData
   | BBSqueezeNodeData
-  | ConditionNodeData;
+  | ConditionNodeData
+  | FormulaNodeData;
 
 // Price Action Nodes
 export type CandlestickPattern =
@@ -363,7 +485,7 @@ export type RangeSession = "ASIAN" | "LONDON" | "NEW_YORK" | "CUSTOM";
 export type BreakoutDirection = "BUY_ON_HIGH" | "SELL_ON_LOW" | "BOTH";
 export type EntryMode = "IMMEDIATE" | "ON_CLOSE" | "AFTER_RETEST";
 
-export interface RangeBreakoutNodeData extends BaseNodeData {
+export interface RangeBreakoutNodeData extends BaseNodeData, PendingExpiryFields {
   category: "priceaction";
   priceActionType: "range-breakout";
   timeframe: Timeframe;
@@ -384,6 +506,8 @@ export interface RangeBreakoutNodeData extends BaseNodeData {
   maxRangePips: number; // 0 = no maximum
   // Timezone
   useServerTime?: boolean;
+  // BOTH: the first stop to fill cancels the opposite one (default true)
+  ocoBracket?: boolean;
 }
 
 export interface OrderBlockNodeData extends BaseNodeData {
@@ -416,27 +540,98 @@ export interface MarketStructureNodeData extends BaseNodeData {
   signalMode?: "every_tick" | "candle_close";
 }
 
+export interface LiquiditySweepNodeData extends BaseNodeData {
+  category: "priceaction";
+  priceActionType: "liquidity-sweep";
+  timeframe: Timeframe;
+  swingStrength: number; // Bars on each side of a swing point
+  lookbackPeriod: number; // Bars searched for the swing that gets swept
+  minSweepPips: number; // Minimum wick penetration beyond the swing
+}
+
+// Equal Highs/Lows Node
+export type EqualLevelsSignal = "SWEEP" | "BREAKOUT";
+
+export interface EqualHighsLowsNodeData extends BaseNodeData {
+  category: "priceaction";
+  priceActionType: "equal-highs-lows";
+  timeframe: Timeframe;
+  swingStrength: number;
+  lookbackPeriod: number;
+  tolerancePips: number; // Max distance between swings counted as "equal"
+  minTouches: number; // Swings needed to form a liquidity pool
+  signalType: EqualLevelsSignal; // SWEEP = wick through and close back, BREAKOUT = close beyond
+}
+
+// Pivot Points Node
+export type PivotType = "CLASSIC" | "CAMARILLA" | "FIBONACCI";
+export type PivotEntryMode = "BOUNCE" | "BREAKOUT";
+
+export interface PivotPointsNodeData extends BaseNodeData {
+  category: "priceaction";
+  priceActionType: "pivot-points";
+  timeframe: Timeframe; // Candles used to confirm a breakout
+  pivotType: PivotType;
+  pivotLevel: number; // 1-3: which R/S pair to trade
+  entryMode: PivotEntryMode;
+  zonePips: number; // BOUNCE: distance from the level that still counts as a touch
+}
+
 export type PriceActionNodeData =
   | CandlestickPatternNodeData
   | SupportResistanceNodeData
   | RangeBreakoutNodeData
   | OrderBlockNodeData
   | FairValueGapNodeData
-  | MarketStructureNodeData;
+  | MarketStructureNodeData
+  | LiquiditySweepNodeData
+  | EqualHighsLowsNodeData
+  | PivotPointsNodeData;
 
 // Trading Nodes
-export type PositionSizingMethod = "FIXED_LOT" | "RISK_PERCENT";
+export type PositionSizingMethod =
+  | "FIXED_LOT"
+  | "RISK_PERCENT"
+  | "VOLATILITY_TARGET"
+  | "FIXED_FRACTIONAL_STEP"
+  | "KELLY"
+  | "FIXED_MONEY";
 export type OrderType = "MARKET" | "STOP" | "LIMIT";
+/** How long an unfilled pending order lives: until cancelled, N chart bars, or N minutes */
+export type PendingExpiryMode = "GTC" | "BARS" | "MINUTES";
+
+// Expiry of unfilled pending orders, enforced by the EA on every tick (shared by order and range nodes)
+interface PendingExpiryFields {
+  pendingExpiryMode?: PendingExpiryMode;
+  pendingExpiryBars?: number;
+  pendingExpiryMinutes?: number;
+}
 
 // Base interface for position sizing fields (shared by PlaceBuy and PlaceSell)
-interface PositionSizingFields {
+interface PositionSizingFields extends PendingExpiryFields {
   method: PositionSizingMethod;
   fixedLot: number;
   riskPercent: number;
   minLot: number;
   maxLot: number;
+  /** VOLATILITY_TARGET: % of balance lost when price moves one ATR against the position */
+  volTargetPercent?: number;
+  volAtrPeriod?: number;
+  volAtrTimeframe?: Timeframe;
+  /** FIXED_FRACTIONAL_STEP: risk % applies to the balance rounded down to this step */
+  equityStep?: number;
+  /** KELLY: win rate (%) and average win / average loss from the strategy's history */
+  kellyWinRate?: number;
+  kellyPayoffRatio?: number;
+  /** KELLY: share of the full Kelly fraction (0.5 = half Kelly), capped at kellyCapPercent */
+  kellyFraction?: number;
+  kellyCapPercent?: number;
+  /** FIXED_MONEY: account currency risked per trade */
+  riskAmount?: number;
   orderType?: OrderType;
   pendingOffset?: number;
+  /** Delete this side's pending orders as soon as its entry condition is no longer true */
+  cancelOnInvalidate?: boolean;
 }
 
 // Embedded SL/TP fields (merged into PlaceBuy/PlaceSell nodes)
@@ -621,13 +816,59 @@ export type TradeManagementNodeData =
   | LockProfitNodeData
   | MultiLevelTPNodeData;
 
+// Logic Gate Nodes — combine entry conditions into nested boolean expressions
+export type LogicGateType = "AND" | "OR" | "NOT";
+
+export interface LogicGateNodeData extends BaseNodeData {
+  category: "logic";
+  logicType: LogicGateType;
+}
+
+// Macro Nodes — a saved group of nodes dropped in as one block and expanded inline on export
+
+/** A field of an inner node that the macro block exposes for editing */
+export interface MacroParameter {
+  /** Stable key into MacroNodeData.params */
+  key: string;
+  label: string;
+  /** Inner node id within the definition */
+  nodeId: string;
+  /** Field of that node's data */
+  field: string;
+}
+
+export interface MacroDefinition {
+  /** Inner nodes, ids normalized to m1, m2, ... in selection order */
+  nodes: BuilderNode[];
+  /** Edges between inner nodes */
+  edges: BuilderEdge[];
+  parameters: MacroParameter[];
+}
+
+export interface MacroNodeData extends BaseNodeData {
+  category: "macro";
+  macroType: "macro";
+  /** UserMacro id of the saved version this block was created from */
+  macroId?: string;
+  macroName: string;
+  macroVersion: number;
+  /** Snapshot of the saved version — later versions do not change existing blocks */
+  definition: MacroDefinition;
+  /** Exposed parameter values by MacroParameter.key; missing keys keep the saved value */
+  params: Record<string, number | string | boolean>;
+  /** Show the inner blocks on the canvas node (display only) */
+  expanded?: boolean;
+}
+
 // Union of all node data types
 export type BuilderNodeData =
   | TimingNodeData
   | IndicatorNodeData
   | PriceActionNodeData
   | TradingNodeData
-  | TradeManagementNodeData;
+  | TradeManagementNodeData
+  | LogicGateNodeData
+  | MacroNodeData;
 
 // ============================================
 // NODE TYPES
@@ -647,12 +888,16 @@ export type BuilderNodeType =
   | "ichimoku"
   | "custom-indicator"
   | "condition"
+  | "formula"
   | "candlestick-pattern"
   | "support-resistance"
   | "range-breakout"
   | "order-block"
   | "fair-value-gap"
   | "market-structure"
+  | "liquidity-sweep"
+  | "equal-highs-lows"
+  | "pivot-points"
   | "place-buy"
   | "place-sell"
   | "close-condition"
@@ -671,9 +916,14 @@ export type BuilderNodeType =
   | "multi-level-tp"
   | "bb-squeeze"
   | "volume-filter"
+  | "htf-bias"
   | "stop-loss"
   | "take-profit"
-  | "always";
+  | "always"
+  | "and-gate"
+  | "or-gate"
+  | "not-gate"
+  | "macro";
 
 export type BuilderNode = Node<BuilderNodeData, BuilderNodeType>;
 export type BuilderEdge = Edge;
@@ -723,6 +973,7 @@ export interface BuildJsonSettings {
   minBarsBetweenTrades?: number;
   maxTotalDrawdownPercent?: number;
   equityTargetPercent?: number; // Stop trading when equity grows by this % from starting balance
+  equityCurveMaPeriod?: number; // Suspend entries while the EA's virtual trade curve is below its MA over this many trades
   maxSlippage?: number; // Max slippage in points (default 10)
   multiPair?: MultiPairSettings; // Future: multi-pair strategy support
 }
@@ -766,7 +1017,7 @@ export interface BuildJsonMetadata {
 }
 
 export interface BuildJsonSchema {
-  version: "1.0" | "1.1" | "1.2" | "1.3";
+  version: "1.0" | "1.1" | "1.2" | "1.3" | "1.4";
   nodes: BuilderNode[];
   edges: BuilderEdge[];
   viewport: Viewport;
@@ -928,6 +1179,25 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
       filterMode: "ABOVE_AVERAGE",
     } as VolumeFilterNodeData,
   },
+  {
+    type: "htf-bias",
+    label: "HTF Bias",
+    category: "timing",
+    description: "Only buy in a higher-timeframe uptrend and sell in a downtrend (filter)",
+    defaultData: {
+      label: "HTF Bias",
+      category: "timing",
+      filterType: "htf-bias",
+      timeframe: "D1",
+      biasMethod: "PRICE_VS_MA",
+      period: 50,
+      maMethod: "EMA",
+      fastPeriod: 12,
+      slowPeriod: 26,
+      filterBuys: true,
+      filterSells: true,
+    } as HtfBiasNodeData,
+  },
   {
     type: "friday-close",
     label: "Friday Close",
@@ -1175,6 +1445,22 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
       threshold: 0,
     } as ConditionNodeData,
   },
+  {
+    type: "formula",
+    label: "Formula",
+    category: "indicator",
+    description:
+      "Custom numeric signal from prices and connected indicators, e.g. (close - in1) / in2",
+    defaultData: {
+      label: "Formula",
+      category: "indicator",
+      indicatorType: "formula",
+      expression: "close - close[1]",
+      conditionType: "GREATER_THAN",
+      threshold: 0,
+      signalMode: "candle_close",
+    } as FormulaNodeData,
+  },
   // Price Action
   {
     type: "candlestick-pattern",
@@ -1228,8 +1514,28 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
       minRangePips: 10,
       maxRangePips: 0,
       useServerTime: true,
+      pendingExpiryMode: "GTC",
+      pendingExpiryBars: 5,
+      pendingExpiryMinutes: 240,
+      ocoBracket: true,
     } as RangeBreakoutNodeData,
   },
+  {
+    type: "pivot-points",
+    label: "Pivot Points",
+    category: "priceaction",
+    description: "Trade classic, Camarilla or Fibonacci daily pivot levels",
+    defaultData: {
+      label: "Pivot Points",
+      category: "priceaction",
+      priceActionType: "pivot-points",
+      timeframe: "H1",
+      pivotType: "CLASSIC",
+      pivotLevel: 1,
+      entryMode: "BOUNCE",
+      zonePips: 5,
+    } as PivotPointsNodeData,
+  },
   // Price Action (ICT/SMC)
   {
     type: "order-block",
@@ -1276,6 +1582,72 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
       detectChoCh: true,
     } as MarketStructureNodeData,
   },
+  {
+    type: "liquidity-sweep",
+    label: "Liquidity Sweep",
+    category: "priceaction",
+    description: "Detect stop hunts: a wick through a prior swing that closes back inside (SMC)",
+    defaultData: {
+      label: "Liquidity Sweep",
+      category: "priceaction",
+      priceActionType: "liquidity-sweep",
+      timeframe: "H1",
+      swingStrength: 3,
+      lookbackPeriod: 50,
+      minSweepPips: 1,
+    } as LiquiditySweepNodeData,
+  },
+  {
+    type: "equal-highs-lows",
+    label: "Equal Highs/Lows",
+    category: "priceaction",
+    description: "Detect equal highs/lows liquidity pools and trade their sweep or break (SMC)",
+    defaultData: {
+      label: "Equal Highs/Lows",
+      category: "priceaction",
+      priceActionType: "equal-highs-lows",
+      timeframe: "H1",
+      swingStrength: 3,
+      lookbackPeriod: 100,
+      tolerancePips: 3,
+      minTouches: 2,
+      signalType: "SWEEP",
+    } as EqualHighsLowsNodeData,
+  },
+  // Logic Gates
+  {
+    type: "and-gate",
+    label: "AND Gate",
+    category: "logic",
+    description: "True when every connected condition is true",
+    defaultData: {
+      label: "AND",
+      category: "logic",
+      logicType: "AND",
+    } as LogicGateNodeData,
+  },
+  {
+    type: "or-gate",
+    label: "OR Gate",
+    category: "logic",
+    description: "True when any connected condition is true",
+    defaultData: {
+      label: "OR",
+      category: "logic",
+      logicType: "OR",
+    } as LogicGateNodeData,
+  },
+  {
+    type: "not-gate",
+    label: "NOT Gate",
+    category: "logic",
+    description: "Inverts a single connected condition",
+    defaultData: {
+      label: "NOT",
+      category: "logic",
+      logicType: "NOT",
+    } as LogicGateNodeData,
+  },
   // Trading (manual building blocks)
   {
     type: "place-buy",
@@ -1293,6 +1665,10 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
       maxLot: 10,
       orderType: "MARKET",
       pendingOffset: 0,
+      pendingExpiryMode: "MINUTES",
+      pendingExpiryBars: 5,
+      pendingExpiryMinutes: 1440,
+      cancelOnInvalidate: false,
       slMethod: "FIXED_PIPS",
       slFixedPips: 50,
       slPercent: 1,
@@ -1321,6 +1697,10 @@ export const NODE_TEMPLATES: NodeTemplate[] = [
       maxLot: 10,
       orderType: "MARKET",
       pendingOffset: 0,
+      pendingExpiryMode: "MINUTES",
+      pendingExpiryBars: 5,
+      pendingExpiryMinutes: 1440,
+      cancelOnInvalidate: false,
       slMethod: "FIXED_PIPS",
       slFixedPips: 50,
       slPercent: 1,
@@ -1517,6 +1897,10 @@ export function getCategoryColor(category: NodeCategory): string {
       return "rose";
     case "trademanagement":
       return "purple";
+    case "logic":
+      return "indigo";
+    case "macro":
+      return "slate";
     default:
       return "gray";
   }
@@ -1538,6 +1922,10 @@ export function getCategoryLabel(category: NodeCategory): string {
       return "Risk Management";
     case "trademanagement":
       return "Trade Management";
+    case "logic":
+      return "Logic";
+    case "macro":
+      return "My Macros";
     default:
       return "Other";
   }